@@ -0,0 +1,125 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import ADPService, { adpErrorMessage } from '@/lib/api/adp-service'
+import { PayrollHoursSource } from '@/lib/types/billing'
+import { hasPermission, PERMISSIONS, type UserRole } from '@/lib/types/user'
+
+// Pull hours worked and gross pay from ADP time and attendance for everyone
+// charged in a billing period. Hours are stored against the original period,
+// so corrections sub-periods share them.
+export async function POST(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params
+  const supabase = createClient()
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    return NextResponse.json({ error: 'You must be signed in to import hours' }, { status: 401 })
+  }
+
+  const { data: profile } = await supabase
+    .from('user_profiles')
+    .select('role')
+    .eq('user_id', user.id)
+    .single()
+
+  if (!profile || !hasPermission(profile.role as UserRole, PERMISSIONS.BILLING_EXPORT)) {
+    return NextResponse.json({ error: 'You do not have permission to import hours' }, { status: 403 })
+  }
+
+  const { data: period, error: periodError } = await supabase
+    .from('billing_periods')
+    .select('id, start_date, end_date, parent_period_id')
+    .eq('id', id)
+    .single()
+
+  if (periodError || !period) {
+    return NextResponse.json({ error: 'Billing period not found' }, { status: 404 })
+  }
+
+  const rootPeriodId = period.parent_period_id ?? period.id
+  const { data: rootPeriod } = period.parent_period_id
+    ? await supabase
+        .from('billing_periods')
+        .select('id, start_date, end_date')
+        .eq('id', rootPeriodId)
+        .single()
+    : { data: period }
+
+  const { data: family } = await supabase
+    .from('billing_periods')
+    .select('id')
+    .or(`id.eq.${rootPeriodId},parent_period_id.eq.${rootPeriodId}`)
+
+  const { data: chargeRows, error: chargesError } = await supabase
+    .from('charges')
+    .select(`
+      staff_id,
+      staff:staff(employee_id)
+    `)
+    .in('billing_period_id', (family || []).map(p => p.id))
+
+  if (chargesError) {
+    return NextResponse.json({ error: chargesError.message }, { status: 500 })
+  }
+
+  const employees = new Map<string, string>()
+  for (const charge of chargeRows || []) {
+    const staff = charge.staff as unknown as { employee_id: string } | null
+    if (staff) employees.set(charge.staff_id, staff.employee_id)
+  }
+
+  if (employees.size === 0) {
+    return NextResponse.json({ error: 'No one is charged in this billing period' }, { status: 409 })
+  }
+
+  const clientId = process.env.ADP_CLIENT_ID
+  const clientSecret = process.env.ADP_CLIENT_SECRET
+  if (!clientId || !clientSecret) {
+    return NextResponse.json({ error: 'ADP credentials are not configured' }, { status: 500 })
+  }
+
+  const adp = new ADPService({
+    clientId,
+    clientSecret,
+    apiBaseUrl: process.env.ADP_API_BASE_URL,
+    authUrl: process.env.ADP_AUTH_URL,
+  })
+
+  const startDate = String(rootPeriod!.start_date).slice(0, 10)
+  const endDate = String(rootPeriod!.end_date).slice(0, 10)
+  const records = []
+  const failed: { employeeId: string; error: string }[] = []
+
+  // One worker at a time; a failure skips that worker only
+  for (const [staffId, employeeId] of employees) {
+    try {
+      const { hoursWorked, grossPay } = await adp.getPeriodHoursAndPay(employeeId, startDate, endDate)
+      records.push({
+        staff_id: staffId,
+        billing_period_id: rootPeriodId,
+        hours_worked: hoursWorked,
+        gross_pay: grossPay,
+        source: PayrollHoursSource.ADP,
+        imported_by: user.id,
+        imported_at: new Date().toISOString(),
+      })
+    } catch (error) {
+      failed.push({ employeeId, error: adpErrorMessage(error) })
+    }
+  }
+
+  if (records.length > 0) {
+    const { error: upsertError } = await supabase
+      .from('payroll_hours')
+      .upsert(records, { onConflict: 'staff_id,billing_period_id' })
+
+    if (upsertError) {
+      return NextResponse.json({ error: upsertError.message }, { status: 500 })
+    }
+  }
+
+  return NextResponse.json({ imported: records.length, failed })
+}
@@ -0,0 +1,237 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import ADPService from '@/lib/api/adp-service'
+import { DEFAULT_COMPANY_CODE, resolveMapping } from '@/lib/billing/formats'
+import { summarizeExportLines } from '@/lib/billing/payroll-delta'
+import { addImputedIncomeToRows } from '@/lib/billing/imputed-income'
+import { emptyAmounts, toBalanceRows } from '@/lib/billing/deduction-caps'
+import {
+  deliveryStatusFor,
+  mergeRowResults,
+  selectRowsForDelivery,
+} from '@/lib/billing/payroll-delivery'
+import {
+  PayrollExportStatus,
+  PayrollFormat,
+  PayrollRowStatus,
+  type ChargeAmounts,
+  type ChargeType,
+  type PayrollDeliverySummary,
+  type PayrollExportLineType,
+  type PayrollRowResult,
+} from '@/lib/types/billing'
+import { hasPermission, PERMISSIONS, type UserRole } from '@/lib/types/user'
+
+// Push an export's rows to ADP as deduction inputs. With
+// { retryFailedOnly: true } only rows whose last attempt failed are sent.
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params
+  const supabase = createClient()
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    return NextResponse.json({ error: 'You must be signed in to export payroll' }, { status: 401 })
+  }
+
+  const { data: profile } = await supabase
+    .from('user_profiles')
+    .select('role')
+    .eq('user_id', user.id)
+    .single()
+
+  if (!profile || !hasPermission(profile.role as UserRole, PERMISSIONS.BILLING_EXPORT)) {
+    return NextResponse.json({ error: 'You do not have permission to export payroll' }, { status: 403 })
+  }
+
+  const { retryFailedOnly = false } = await request.json().catch(() => ({}))
+
+  const { data: payrollExport, error: exportError } = await supabase
+    .from('payroll_exports')
+    .select(`
+      *,
+      billing_period:billing_periods(start_date, end_date)
+    `)
+    .eq('id', id)
+    .single()
+
+  if (exportError || !payrollExport) {
+    return NextResponse.json({ error: 'Payroll export not found' }, { status: 404 })
+  }
+  if (payrollExport.status !== PayrollExportStatus.COMPLETED) {
+    return NextResponse.json({ error: 'Only completed exports can be sent to ADP' }, { status: 409 })
+  }
+
+  const { data: lineRows, error: linesError } = await supabase
+    .from('payroll_export_lines')
+    .select(`
+      *,
+      staff:staff(employee_id, first_name, last_name)
+    `)
+    .eq('payroll_export_id', id)
+
+  if (linesError) {
+    return NextResponse.json({ error: linesError.message }, { status: 500 })
+  }
+
+  const { data: balanceRows, error: balancesError } = await supabase
+    .from('deduction_balances')
+    .select(`
+      *,
+      staff:staff(employee_id, first_name, last_name)
+    `)
+    .eq('payroll_export_id', id)
+
+  if (balancesError) {
+    return NextResponse.json({ error: balancesError.message }, { status: 500 })
+  }
+
+  const { data: imputedRows, error: imputedError } = await supabase
+    .from('imputed_income_lines')
+    .select(`
+      *,
+      staff:staff(employee_id, first_name, last_name)
+    `)
+    .eq('payroll_export_id', id)
+
+  if (imputedError) {
+    return NextResponse.json({ error: imputedError.message }, { status: 500 })
+  }
+
+  // Rebuild the rows exactly as the export summarized them, followed by the
+  // deferral and recovery rows from the balance entries it recorded, with the
+  // imputed income it reported
+  const period = payrollExport.billing_period
+  const billingPeriod = period
+    ? `${new Date(period.start_date).toLocaleDateString()} - ${new Date(period.end_date).toLocaleDateString()}`
+    : ''
+  const staff = new Map(
+    [...(lineRows || []), ...(balanceRows || []), ...(imputedRows || [])]
+      .filter(row => row.staff)
+      .map(row => [
+        row.staff_id,
+        {
+          employeeId: row.staff.employee_id,
+          firstName: row.staff.first_name,
+          lastName: row.staff.last_name,
+        },
+      ])
+  )
+
+  const changes = new Map<string, ChargeAmounts>()
+  for (const entry of balanceRows || []) {
+    const change = changes.get(entry.staff_id) ?? emptyAmounts()
+    change[entry.charge_type as ChargeType] += Number(entry.amount)
+    changes.set(entry.staff_id, change)
+  }
+
+  const imputedLines = (imputedRows || []).map(line => ({
+    staffId: line.staff_id,
+    lineType: line.line_type as PayrollExportLineType,
+    amount: Number(line.amount),
+    marketValue: Number(line.market_value),
+    rentCharged: Number(line.rent_charged),
+  }))
+
+  const rows = addImputedIncomeToRows(
+    [
+      ...summarizeExportLines(
+        (lineRows || []).map(line => ({
+          chargeId: line.charge_id,
+          staffId: line.staff_id,
+          chargeType: line.charge_type as ChargeType,
+          lineType: line.line_type as PayrollExportLineType,
+          amount: Number(line.amount),
+        })),
+        staff,
+        billingPeriod
+      ),
+      ...toBalanceRows(changes, staff, billingPeriod),
+    ],
+    imputedLines,
+    staff,
+    billingPeriod
+  )
+
+  const previous: PayrollRowResult[] = (payrollExport.row_results || []).map(
+    (result: PayrollRowResult) => ({ ...result, submittedAt: new Date(result.submittedAt) })
+  )
+  const rowsToSend = selectRowsForDelivery(rows, previous, retryFailedOnly)
+  if (rowsToSend.length === 0) {
+    return NextResponse.json(
+      { error: retryFailedOnly ? 'There are no failed rows to retry' : 'Every row has already been delivered' },
+      { status: 409 }
+    )
+  }
+
+  const clientId = process.env.ADP_CLIENT_ID
+  const clientSecret = process.env.ADP_CLIENT_SECRET
+  if (!clientId || !clientSecret) {
+    return NextResponse.json({ error: 'ADP credentials are not configured' }, { status: 500 })
+  }
+
+  // Deduction codes and batch come from the company's ADP file mapping
+  const companyCode = payrollExport.export_parameters?.company_code
+  const { data: storedMapping } = companyCode
+    ? await supabase
+        .from('payroll_format_mappings')
+        .select('*')
+        .eq('company_code', companyCode)
+        .eq('format', PayrollFormat.ADP_CSV)
+        .maybeSingle()
+    : { data: null }
+
+  const mapping = resolveMapping(
+    PayrollFormat.ADP_CSV,
+    storedMapping
+      ? {
+          companyCode: storedMapping.company_code,
+          columns: storedMapping.columns,
+          deductionCodes: storedMapping.deduction_codes,
+          imputedIncomeCode: storedMapping.imputed_income_code ?? undefined,
+          batchId: storedMapping.batch_id ?? undefined,
+        }
+      : null
+  )
+
+  const adp = new ADPService({
+    clientId,
+    clientSecret,
+    apiBaseUrl: process.env.ADP_API_BASE_URL,
+    authUrl: process.env.ADP_AUTH_URL,
+  })
+
+  const latest = await adp.submitPayrollDeductions(rowsToSend, mapping.deductionCodes, {
+    payrollGroupCode: mapping.companyCode === DEFAULT_COMPANY_CODE ? undefined : mapping.companyCode,
+    batchId: mapping.batchId || undefined,
+    imputedIncomeCode: mapping.imputedIncomeCode,
+  })
+
+  const rowResults = mergeRowResults(previous, latest)
+  const deliveryStatus = deliveryStatusFor(rowResults, rows.length)
+
+  const { error: updateError } = await supabase
+    .from('payroll_exports')
+    .update({
+      delivery_status: deliveryStatus,
+      row_results: rowResults,
+      delivered_at: new Date().toISOString(),
+    })
+    .eq('id', id)
+
+  if (updateError) {
+    return NextResponse.json({ error: updateError.message }, { status: 500 })
+  }
+
+  const summary: PayrollDeliverySummary = {
+    deliveryStatus,
+    attempted: latest.length,
+    submitted: latest.filter(result => result.status === PayrollRowStatus.SUBMITTED).length,
+    failed: latest.filter(result => result.status === PayrollRowStatus.FAILED).length,
+    rowResults,
+  }
+
+  return NextResponse.json(summary)
+}
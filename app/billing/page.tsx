@@ -14,22 +14,37 @@ import {
   Calculator,
   Settings,
   Plus,
-  FileText
+  FileText,
+  Upload
 } from 'lucide-react'
 
 // Billing Management Components
 import { BillingPeriodList } from '@/components/billing/billing-period-list'
 import { BillingPeriodForm } from '@/components/billing/billing-period-form'
+import { BillingCalendarGenerator } from '@/components/billing/billing-calendar-generator'
 import { ChargeList } from '@/components/billing/charge-list'
 import { ChargeForm } from '@/components/billing/charge-form'
+import { ChargeImportWizard } from '@/components/billing/charge-import-wizard'
 import { ChargeCalculator } from '@/components/billing/charge-calculator'
+import { ChargeRunPreview } from '@/components/billing/charge-run-preview'
+import { UtilityBills } from '@/components/billing/utility-bills'
+import { RecurringCharges } from '@/components/billing/recurring-charges'
+import { ChargeApprovalQueue, ChargeApprovalRules } from '@/components/billing/charge-approvals'
 import { PayrollExport } from '@/components/billing/payroll-export'
+import { CostAllocation } from '@/components/billing/cost-allocation'
 import { ExportHistory } from '@/components/billing/export-history'
+import { PayrollFormatMappingEditor } from '@/components/billing/payroll-format-mapping-editor'
+import { DeductionCapSettings } from '@/components/billing/deduction-cap-settings'
+import { MinimumWageSettings } from '@/components/billing/minimum-wage-settings'
+import { StaffLedger } from '@/components/billing/staff-ledger'
+import { DisputeQueue } from '@/components/billing/dispute-queue'
 
 export default function BillingManagementPage() {
   const [activeTab, setActiveTab] = useState('periods')
   const [showPeriodForm, setShowPeriodForm] = useState(false)
+  const [showCalendarGenerator, setShowCalendarGenerator] = useState(false)
   const [showChargeForm, setShowChargeForm] = useState(false)
+  const [showChargeImport, setShowChargeImport] = useState(false)
 
   return (
     <div className="space-y-6">
@@ -99,12 +114,19 @@ export default function BillingManagementPage() {
 
       {/* Main Content Tabs */}
       <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-4">
-        <TabsList className="grid w-full grid-cols-5">
+        <TabsList className="grid w-full grid-cols-12">
           <TabsTrigger value="periods">Billing Periods</TabsTrigger>
           <TabsTrigger value="charges">Charges</TabsTrigger>
+          <TabsTrigger value="runs">Charge Runs</TabsTrigger>
+          <TabsTrigger value="utilities">Utilities</TabsTrigger>
           <TabsTrigger value="calculator">Calculator</TabsTrigger>
           <TabsTrigger value="export">Payroll Export</TabsTrigger>
           <TabsTrigger value="history">Export History</TabsTrigger>
+          <TabsTrigger value="formats">Payroll Formats</TabsTrigger>
+          <TabsTrigger value="caps">Deduction Caps</TabsTrigger>
+          <TabsTrigger value="wages">Minimum Wage</TabsTrigger>
+          <TabsTrigger value="accounts">Accounts</TabsTrigger>
+          <TabsTrigger value="disputes">Disputes</TabsTrigger>
         </TabsList>
 
         <TabsContent value="periods" className="space-y-4">
@@ -115,11 +137,20 @@ export default function BillingManagementPage() {
                 Manage billing periods and their processing status
               </p>
             </div>
-            <Button onClick={() => setShowPeriodForm(true)}>
-              <Plus className="h-4 w-4 mr-2" />
-              New Period
-            </Button>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => setShowCalendarGenerator(true)}>
+                <Calendar className="h-4 w-4 mr-2" />
+                Generate Calendar
+              </Button>
+              <Button onClick={() => setShowPeriodForm(true)}>
+                <Plus className="h-4 w-4 mr-2" />
+                New Period
+              </Button>
+            </div>
           </div>
+          {showCalendarGenerator && (
+            <BillingCalendarGenerator onGenerated={() => setShowCalendarGenerator(false)} />
+          )}
           <BillingPeriodList />
           {showPeriodForm && (
             <BillingPeriodForm />
@@ -134,15 +165,47 @@ export default function BillingManagementPage() {
                 View and manage individual charges for staff
               </p>
             </div>
-            <Button onClick={() => setShowChargeForm(true)}>
-              <Plus className="h-4 w-4 mr-2" />
-              Add Charge
-            </Button>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => setShowChargeImport(true)}>
+                <Upload className="h-4 w-4 mr-2" />
+                Import Charges
+              </Button>
+              <Button onClick={() => setShowChargeForm(true)}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Charge
+              </Button>
+            </div>
           </div>
+          {showChargeImport && (
+            <ChargeImportWizard onClose={() => setShowChargeImport(false)} />
+          )}
+          <ChargeApprovalQueue />
           <ChargeList />
           {showChargeForm && (
             <ChargeForm />
           )}
+          <ChargeApprovalRules />
+          <RecurringCharges />
+        </TabsContent>
+
+        <TabsContent value="runs" className="space-y-4">
+          <div>
+            <h2 className="text-xl font-semibold">Charge Runs</h2>
+            <p className="text-sm text-muted-foreground">
+              Generate housing, transport, utility and recurring charges for a period without creating duplicates
+            </p>
+          </div>
+          <ChargeRunPreview />
+        </TabsContent>
+
+        <TabsContent value="utilities" className="space-y-4">
+          <div>
+            <h2 className="text-xl font-semibold">Utility Bills</h2>
+            <p className="text-sm text-muted-foreground">
+              Property utility bills and how they are split across the people who lived there
+            </p>
+          </div>
+          <UtilityBills />
         </TabsContent>
 
         <TabsContent value="calculator" className="space-y-4">
@@ -163,6 +226,14 @@ export default function BillingManagementPage() {
             </p>
           </div>
           <PayrollExport />
+
+          <div className="pt-4">
+            <h2 className="text-xl font-semibold">Cost Allocation</h2>
+            <p className="text-sm text-muted-foreground">
+              Post the company-borne share of housing and transport costs to finance
+            </p>
+          </div>
+          <CostAllocation />
         </TabsContent>
 
         <TabsContent value="history" className="space-y-4">
@@ -174,6 +245,56 @@ export default function BillingManagementPage() {
           </div>
           <ExportHistory />
         </TabsContent>
+
+        <TabsContent value="formats" className="space-y-4">
+          <div>
+            <h2 className="text-xl font-semibold">Payroll Formats</h2>
+            <p className="text-sm text-muted-foreground">
+              Map export columns and deduction codes to each company&apos;s payroll import
+            </p>
+          </div>
+          <PayrollFormatMappingEditor />
+        </TabsContent>
+
+        <TabsContent value="caps" className="space-y-4">
+          <div>
+            <h2 className="text-xl font-semibold">Deduction Caps</h2>
+            <p className="text-sm text-muted-foreground">
+              Per-paycheck limits and the balances carried forward when they are hit
+            </p>
+          </div>
+          <DeductionCapSettings />
+        </TabsContent>
+
+        <TabsContent value="wages" className="space-y-4">
+          <div>
+            <h2 className="text-xl font-semibold">Minimum Wage</h2>
+            <p className="text-sm text-muted-foreground">
+              Wage floors and the hours each paycheck&apos;s deductions are checked against
+            </p>
+          </div>
+          <MinimumWageSettings />
+        </TabsContent>
+
+        <TabsContent value="accounts" className="space-y-4">
+          <div>
+            <h2 className="text-xl font-semibold">Staff Accounts</h2>
+            <p className="text-sm text-muted-foreground">
+              The staff ledger: what each person was charged, paid and credited
+            </p>
+          </div>
+          <StaffLedger />
+        </TabsContent>
+
+        <TabsContent value="disputes" className="space-y-4">
+          <div>
+            <h2 className="text-xl font-semibold">Billing Disputes</h2>
+            <p className="text-sm text-muted-foreground">
+              Review disputed charges, talk to the staff member and settle with a credit or confirmation
+            </p>
+          </div>
+          <DisputeQueue />
+        </TabsContent>
       </Tabs>
     </div>
   )
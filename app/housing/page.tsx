@@ -22,6 +22,9 @@ import { PropertyForm } from '@/components/housing/property-form'
 import { RoomGrid } from '@/components/housing/room-grid'
 import { RoomAssignmentModal } from '@/components/housing/room-assignment-modal'
 import { OccupancyDashboard } from '@/components/housing/occupancy-dashboard'
+import { RateCardManager } from '@/components/housing/rate-card-manager'
+import { PropertyCostManager } from '@/components/housing/property-cost-manager'
+import { HousingRequestQueue } from '@/components/housing/housing-request-queue'
 
 export default function HousingManagementPage() {
   const [activeTab, setActiveTab] = useState('dashboard')
@@ -96,11 +99,13 @@ export default function HousingManagementPage() {
 
       {/* Main Content Tabs */}
       <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-4">
-        <TabsList className="grid w-full grid-cols-4">
+        <TabsList className="grid w-full grid-cols-6">
           <TabsTrigger value="dashboard">Dashboard</TabsTrigger>
           <TabsTrigger value="properties">Properties</TabsTrigger>
           <TabsTrigger value="rooms">Rooms</TabsTrigger>
           <TabsTrigger value="assignments">Assignments</TabsTrigger>
+          <TabsTrigger value="requests">Requests</TabsTrigger>
+          <TabsTrigger value="rates">Rates</TabsTrigger>
         </TabsList>
 
         <TabsContent value="dashboard" className="space-y-4">
@@ -172,6 +177,27 @@ export default function HousingManagementPage() {
             />
           )}
         </TabsContent>
+
+        <TabsContent value="requests" className="space-y-4">
+          <div>
+            <h2 className="text-xl font-semibold">Housing Requests</h2>
+            <p className="text-sm text-muted-foreground">
+              Review staff requests, work through the waitlist and approve a matching room or bed
+            </p>
+          </div>
+          <HousingRequestQueue />
+        </TabsContent>
+
+        <TabsContent value="rates" className="space-y-4">
+          <div>
+            <h2 className="text-xl font-semibold">Rent Rates</h2>
+            <p className="text-sm text-muted-foreground">
+              Set rent per property, room type or room, schedule rate changes and record what each property costs
+            </p>
+          </div>
+          <RateCardManager />
+          <PropertyCostManager />
+        </TabsContent>
       </Tabs>
     </div>
   )
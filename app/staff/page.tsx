@@ -25,6 +25,8 @@ import { StaffCharges } from '@/components/staff/staff-charges'
 import { ChargeHistory } from '@/components/staff/charge-history'
 import { BillingDispute } from '@/components/staff/billing-dispute'
 import { PaymentHistory } from '@/components/staff/payment-history'
+import { DeductionBalance } from '@/components/staff/deduction-balance'
+import { StaffRecurringCharges } from '@/components/staff/recurring-charges'
 import { StaffProfile } from '@/components/staff/staff-profile'
 import { ProfileSettings } from '@/components/staff/profile-settings'
 import { NotificationSettings } from '@/components/staff/notification-settings'
@@ -33,6 +35,8 @@ import { ContactUpdate } from '@/components/staff/contact-update'
 export default function StaffPortalPage() {
   const [activeTab, setActiveTab] = useState('housing')
   const [selectedRoomId, setSelectedRoomId] = useState<string | null>(null)
+  const [billingTab, setBillingTab] = useState('current')
+  const [disputeChargeId, setDisputeChargeId] = useState<string | undefined>()
   
   // Mock staff ID - in real implementation, this would come from authentication
   const staffId = 'staff-1'
@@ -153,11 +157,13 @@ export default function StaffPortalPage() {
         </TabsContent>
 
         <TabsContent value="billing" className="space-y-4">
-          <Tabs defaultValue="current" className="space-y-4">
+          <Tabs value={billingTab} onValueChange={setBillingTab} className="space-y-4">
             <TabsList>
               <TabsTrigger value="current">Current Charges</TabsTrigger>
               <TabsTrigger value="history">Charge History</TabsTrigger>
+              <TabsTrigger value="recurring">Recurring</TabsTrigger>
               <TabsTrigger value="payments">Payment History</TabsTrigger>
+              <TabsTrigger value="balance">Balance</TabsTrigger>
               <TabsTrigger value="disputes">Disputes</TabsTrigger>
             </TabsList>
 
@@ -168,7 +174,13 @@ export default function StaffPortalPage() {
                   View your current billing charges and breakdown
                 </p>
               </div>
-              <StaffCharges staffId={staffId} />
+              <StaffCharges
+                staffId={staffId}
+                onDispute={(chargeId) => {
+                  setDisputeChargeId(chargeId)
+                  setBillingTab('disputes')
+                }}
+              />
             </TabsContent>
 
             <TabsContent value="history" className="space-y-4">
@@ -181,6 +193,16 @@ export default function StaffPortalPage() {
               <ChargeHistory staffId={staffId} />
             </TabsContent>
 
+            <TabsContent value="recurring" className="space-y-4">
+              <div>
+                <h2 className="text-xl font-semibold">Recurring Charges</h2>
+                <p className="text-sm text-muted-foreground">
+                  Meal plans, parking, rentals and other charges taken every billing period
+                </p>
+              </div>
+              <StaffRecurringCharges staffId={staffId} />
+            </TabsContent>
+
             <TabsContent value="payments" className="space-y-4">
               <div>
                 <h2 className="text-xl font-semibold">Payment History</h2>
@@ -191,6 +213,16 @@ export default function StaffPortalPage() {
               <PaymentHistory staffId={staffId} />
             </TabsContent>
 
+            <TabsContent value="balance" className="space-y-4">
+              <div>
+                <h2 className="text-xl font-semibold">Outstanding Balance</h2>
+                <p className="text-sm text-muted-foreground">
+                  Charges held back by your deduction limit and when they are expected to be paid off
+                </p>
+              </div>
+              <DeductionBalance staffId={staffId} />
+            </TabsContent>
+
             <TabsContent value="disputes" className="space-y-4">
               <div>
                 <h2 className="text-xl font-semibold">Billing Disputes</h2>
@@ -198,7 +230,11 @@ export default function StaffPortalPage() {
                   Submit and track billing dispute inquiries
                 </p>
               </div>
-              <BillingDispute staffId={staffId} />
+              <BillingDispute
+                staffId={staffId}
+                chargeId={disputeChargeId}
+                onDisputeSubmitted={() => setDisputeChargeId(undefined)}
+              />
             </TabsContent>
           </Tabs>
         </TabsContent>
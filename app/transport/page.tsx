@@ -26,6 +26,7 @@ import { TransportDashboard } from '@/components/transport/transport-dashboard'
 import { RouteOptimizer } from '@/components/transport/route-optimizer'
 import { FleetUtilization } from '@/components/transport/fleet-utilization'
 import { TransportReports } from '@/components/transport/transport-reports'
+import { TransportFares } from '@/components/transport/transport-fares'
 
 export default function TransportManagementPage() {
   const [activeTab, setActiveTab] = useState('dashboard')
@@ -100,10 +101,11 @@ export default function TransportManagementPage() {
 
       {/* Main Content Tabs */}
       <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-4">
-        <TabsList className="grid w-full grid-cols-5">
+        <TabsList className="grid w-full grid-cols-6">
           <TabsTrigger value="dashboard">Dashboard</TabsTrigger>
           <TabsTrigger value="vehicles">Vehicles</TabsTrigger>
           <TabsTrigger value="trips">Trips</TabsTrigger>
+          <TabsTrigger value="fares">Fares</TabsTrigger>
           <TabsTrigger value="analytics">Analytics</TabsTrigger>
           <TabsTrigger value="reports">Reports</TabsTrigger>
         </TabsList>
@@ -150,6 +152,16 @@ export default function TransportManagementPage() {
           )}
         </TabsContent>
 
+        <TabsContent value="fares" className="space-y-4">
+          <div>
+            <h2 className="text-xl font-semibold">Fares &amp; Subsidies</h2>
+            <p className="text-sm text-muted-foreground">
+              Decide how trip costs are charged to passengers
+            </p>
+          </div>
+          <TransportFares />
+        </TabsContent>
+
         <TabsContent value="analytics" className="space-y-4">
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
             <Card>
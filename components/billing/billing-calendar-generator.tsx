@@ -0,0 +1,327 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { format } from 'date-fns'
+import {
+  AlertTriangle,
+  CalendarRange,
+  CheckCircle,
+  Eye,
+  Loader2,
+  Plus,
+  X,
+} from 'lucide-react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { DatePicker } from '@/components/shared'
+import { useBillingPeriods } from '@/hooks/use-billing'
+import { DEFAULT_CALENDAR_SETTINGS } from '@/lib/billing/billing-calendar'
+import { fromLocalDate, toDateKey } from '@/lib/dates'
+import {
+  BillingCalendarIssueType,
+  PayDateShift,
+  validateBillingCalendarSettings,
+  type BillingCalendar,
+  type BillingCalendarSettings,
+} from '@/lib/types/billing'
+
+interface BillingCalendarGeneratorProps {
+  onGenerated?: () => void
+}
+
+const shiftLabels: Record<PayDateShift, string> = {
+  [PayDateShift.PREVIOUS_BUSINESS_DAY]: 'Previous business day',
+  [PayDateShift.NEXT_BUSINESS_DAY]: 'Next business day',
+}
+
+// Calendar dates are UTC days; show them without shifting into local time
+const formatDay = (date: Date, pattern = 'MMM d, yyyy') =>
+  format(new Date(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()), pattern)
+
+export function BillingCalendarGenerator({ onGenerated }: BillingCalendarGeneratorProps) {
+  const { previewCalendar, generateCalendar } = useBillingPeriods()
+  const [seedPayDate, setSeedPayDate] = useState<Date | undefined>()
+  const [cycleDays, setCycleDays] = useState(String(DEFAULT_CALENDAR_SETTINGS.cycleDays))
+  const [payDateLagDays, setPayDateLagDays] = useState(
+    String(DEFAULT_CALENDAR_SETTINGS.payDateLagDays)
+  )
+  const [payrollLeadDays, setPayrollLeadDays] = useState(
+    String(DEFAULT_CALENDAR_SETTINGS.payrollLeadDays)
+  )
+  const [payDateShift, setPayDateShift] = useState<PayDateShift>(
+    DEFAULT_CALENDAR_SETTINGS.payDateShift
+  )
+  const [holidayDate, setHolidayDate] = useState<Date | undefined>()
+  const [extraHolidays, setExtraHolidays] = useState<Date[]>([])
+  const [calendar, setCalendar] = useState<BillingCalendar | null>(null)
+  const [isPreviewing, setIsPreviewing] = useState(false)
+  const [isGenerating, setIsGenerating] = useState(false)
+
+  useEffect(() => {
+    setCalendar(null)
+  }, [seedPayDate, cycleDays, payDateLagDays, payrollLeadDays, payDateShift, extraHolidays])
+
+  const buildSettings = (): BillingCalendarSettings | null => {
+    const result = validateBillingCalendarSettings({
+      seedPayDate: seedPayDate ? fromLocalDate(seedPayDate) : undefined,
+      cycleDays: Number(cycleDays),
+      payDateLagDays: Number(payDateLagDays),
+      payrollLeadDays: Number(payrollLeadDays),
+      payDateShift,
+      extraHolidays,
+    })
+    if (!result.success) {
+      toast.error(result.error.errors[0]?.message ?? 'Check the calendar settings')
+      return null
+    }
+    return result.data
+  }
+
+  const addHoliday = () => {
+    if (!holidayDate) return
+    const day = fromLocalDate(holidayDate)
+    if (!extraHolidays.some(holiday => toDateKey(holiday) === toDateKey(day))) {
+      setExtraHolidays(current =>
+        [...current, day].sort((a, b) => a.getTime() - b.getTime())
+      )
+    }
+    setHolidayDate(undefined)
+  }
+
+  const handlePreview = async () => {
+    const settings = buildSettings()
+    if (!settings) return
+    setIsPreviewing(true)
+    try {
+      setCalendar(await previewCalendar(settings))
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to preview billing calendar')
+    } finally {
+      setIsPreviewing(false)
+    }
+  }
+
+  const handleGenerate = async () => {
+    const settings = buildSettings()
+    if (!settings) return
+    setIsGenerating(true)
+    try {
+      const { created } = await generateCalendar(settings)
+      toast.success(`Created ${created.length} draft billing periods`)
+      setCalendar(null)
+      onGenerated?.()
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to generate billing calendar')
+    } finally {
+      setIsGenerating(false)
+    }
+  }
+
+  const creatable = calendar?.entries.filter(entry => !entry.conflict).length ?? 0
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarRange className="h-5 w-5" />
+          Billing Calendar
+        </CardTitle>
+        <CardDescription>
+          Create a year of back-to-back billing periods, one per pay date, with pay dates moved
+          off weekends and holidays
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+          <div className="space-y-2">
+            <Label>First Pay Date</Label>
+            <DatePicker date={seedPayDate} onDateChange={setSeedPayDate} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="calendar-cycle">Cycle (days)</Label>
+            <Input
+              id="calendar-cycle"
+              type="number"
+              min={7}
+              max={31}
+              value={cycleDays}
+              onChange={(e) => setCycleDays(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="calendar-lag">Period End to Pay Date (days)</Label>
+            <Input
+              id="calendar-lag"
+              type="number"
+              min={0}
+              value={payDateLagDays}
+              onChange={(e) => setPayDateLagDays(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="calendar-lead">Payroll Run Lead (business days)</Label>
+            <Input
+              id="calendar-lead"
+              type="number"
+              min={0}
+              value={payrollLeadDays}
+              onChange={(e) => setPayrollLeadDays(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Pay Date on a Day Off</Label>
+            <Select
+              value={payDateShift}
+              onValueChange={(value) => setPayDateShift(value as PayDateShift)}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.values(PayDateShift).map(shift => (
+                  <SelectItem key={shift} value={shift}>
+                    {shiftLabels[shift]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Company Holidays</Label>
+          <p className="text-sm text-muted-foreground">
+            Observed US federal holidays are always skipped; add any other days the company is closed
+          </p>
+          <div className="flex flex-wrap items-center gap-2">
+            <DatePicker date={holidayDate} onDateChange={setHolidayDate} />
+            <Button variant="outline" size="sm" onClick={addHoliday} disabled={!holidayDate}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add
+            </Button>
+            {extraHolidays.map(holiday => (
+              <Badge key={toDateKey(holiday)} variant="secondary" className="gap-1">
+                {formatDay(holiday)}
+                <button
+                  type="button"
+                  onClick={() =>
+                    setExtraHolidays(current => current.filter(day => day !== holiday))
+                  }
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </Badge>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={handlePreview} disabled={!seedPayDate || isPreviewing}>
+            {isPreviewing ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Eye className="h-4 w-4 mr-2" />
+            )}
+            Preview
+          </Button>
+          <Button onClick={handleGenerate} disabled={!calendar || creatable === 0 || isGenerating}>
+            {isGenerating ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <CheckCircle className="h-4 w-4 mr-2" />
+            )}
+            Create {creatable} Periods
+          </Button>
+        </div>
+
+        {calendar && (
+          <>
+            {calendar.issues.length > 0 && (
+              <div className="rounded-md border border-yellow-200 bg-yellow-50 p-4 space-y-1">
+                <p className="flex items-center gap-2 font-medium text-yellow-800">
+                  <AlertTriangle className="h-4 w-4" />
+                  Calendar issues
+                </p>
+                {calendar.issues.map(issue => (
+                  <p
+                    key={`${issue.type}:${toDateKey(issue.startDate)}`}
+                    className="text-sm text-yellow-800"
+                  >
+                    {issue.type === BillingCalendarIssueType.GAP
+                      ? 'No period covers'
+                      : 'More than one period covers'}{' '}
+                    {formatDay(issue.startDate)} - {formatDay(issue.endDate)} ({issue.days}{' '}
+                    {issue.days === 1 ? 'day' : 'days'})
+                  </p>
+                ))}
+              </div>
+            )}
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Period</TableHead>
+                  <TableHead>Pay Date</TableHead>
+                  <TableHead>Payroll Run</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {calendar.entries.map(entry => (
+                  <TableRow key={toDateKey(entry.startDate)}>
+                    <TableCell>
+                      {formatDay(entry.startDate, 'MMM d')} - {formatDay(entry.endDate)}
+                    </TableCell>
+                    <TableCell>
+                      {formatDay(entry.payDate)}
+                      {entry.shiftReason && (
+                        <p className="text-xs text-muted-foreground">
+                          Moved from {formatDay(entry.scheduledPayDate, 'MMM d')} ({entry.shiftReason})
+                        </p>
+                      )}
+                    </TableCell>
+                    <TableCell>{formatDay(entry.payrollRunDate)}</TableCell>
+                    <TableCell>
+                      {!entry.conflict ? (
+                        <Badge className="bg-green-100 text-green-800">New</Badge>
+                      ) : entry.conflict.type === 'exists' ? (
+                        <Badge className="bg-gray-100 text-gray-800">Exists</Badge>
+                      ) : (
+                        <Badge className="bg-red-100 text-red-800">Overlaps existing</Badge>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -10,6 +10,8 @@ import {
   Clock,
   Loader2,
   RefreshCw,
+  RotateCcw,
+  Undo2,
   X
 } from 'lucide-react'
 import { Button } from '@/components/ui/button'
@@ -42,8 +44,13 @@ import {
 } from '@/components/ui/alert-dialog'
 import { Alert, AlertDescription } from '@/components/ui/alert'
 import { Progress } from '@/components/ui/progress'
-import { useBillingPeriods, usePayrollExport } from '@/hooks/use-billing'
-import { BillingStatus, PayrollExportStatus, type BillingPeriod } from '@/lib/types/billing'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { useAuth } from '@/hooks/use-auth'
+import { useBillingPeriods, useBillingStatements, usePayrollExport } from '@/hooks/use-billing'
+import { getAvailableTransitions, REOPEN_PERMISSION } from '@/lib/billing/period-lifecycle'
+import { BillingStatus, type BillingPeriod } from '@/lib/types/billing'
+import { PERMISSIONS } from '@/lib/types/user'
 
 interface BillingPeriodActionsProps {
   period: BillingPeriod
@@ -53,15 +60,30 @@ interface BillingPeriodActionsProps {
 export function BillingPeriodActions({ period, onPeriodUpdate }: BillingPeriodActionsProps) {
   const [isProcessing, setIsProcessing] = useState(false)
   const [isExporting, setIsExporting] = useState(false)
+  const [isGeneratingStatements, setIsGeneratingStatements] = useState(false)
   const [processingProgress, setProcessingProgress] = useState(0)
   const [error, setError] = useState<string | null>(null)
+  const [reopenReason, setReopenReason] = useState('')
+  const [showReopen, setShowReopen] = useState(false)
   
-  const { processPeriod, updatePeriod } = useBillingPeriods()
-  const { createExport } = usePayrollExport()
+  const { checkPermission } = useAuth()
+  const { processPeriod, transitionPeriod, cancelPeriod, reopenPeriod } = useBillingPeriods()
+  const { runExport } = usePayrollExport()
+  const { generatePeriodStatements } = useBillingStatements()
 
-  const canProcess = period.status === BillingStatus.DRAFT
-  const canExport = period.status === BillingStatus.COMPLETED
-  const canCancel = [BillingStatus.DRAFT, BillingStatus.PROCESSING].includes(period.status)
+  // Only offer the moves the lifecycle allows from here for this user's role
+  const transitions = getAvailableTransitions(period.status, checkPermission)
+  const allows = (to: BillingStatus) => transitions.some(t => t.to === to)
+
+  const canProcess = allows(BillingStatus.PROCESSING)
+  const canExport = allows(BillingStatus.EXPORTED)
+  const canCancel = allows(BillingStatus.CANCELLED)
+  const canReactivate = period.status === BillingStatus.CANCELLED && allows(BillingStatus.DRAFT)
+  const canReturnToDraft = period.status !== BillingStatus.CANCELLED && allows(BillingStatus.DRAFT)
+  const canReopen = period.status === BillingStatus.EXPORTED && checkPermission(REOPEN_PERMISSION)
+  const canGenerateStatements =
+    (period.status === BillingStatus.COMPLETED || period.status === BillingStatus.EXPORTED) &&
+    checkPermission(PERMISSIONS.BILLING_EXPORT)
 
   const handleProcessCharges = async () => {
     try {
@@ -99,24 +121,8 @@ export function BillingPeriodActions({ period, onPeriodUpdate }: BillingPeriodAc
       setIsExporting(true)
       setError(null)
 
-      const exportData = await createExport({
-        billingPeriodId: period.id,
-        exportDate: new Date(),
-        fileName: `payroll-export-${period.id}.csv`,
-        recordCount: 0,
-        totalAmount: 0,
-        status: PayrollExportStatus.PENDING,
-        format: 'csv',
-        metadata: {
-          includeDetails: true
-        }
-      })
-
-      // Update period status to exported
-      const updatedPeriod = await updatePeriod(period.id, {
-        status: BillingStatus.EXPORTED,
-        payrollExportDate: new Date()
-      })
+      // Exports the charges and marks the period as exported
+      const { period: updatedPeriod } = await runExport(period.id)
 
       onPeriodUpdate?.(updatedPeriod)
     } catch (err) {
@@ -127,11 +133,32 @@ export function BillingPeriodActions({ period, onPeriodUpdate }: BillingPeriodAc
     }
   }
 
+  // One PDF statement per staff member, zipped together
+  const handleGenerateStatements = async () => {
+    try {
+      setIsGeneratingStatements(true)
+      setError(null)
+
+      const { fileName, mimeType, bytes } = await generatePeriodStatements(period.id)
+
+      const blob = new Blob([bytes], { type: mimeType })
+      const link = document.createElement('a')
+      link.href = URL.createObjectURL(blob)
+      link.download = fileName
+      document.body.appendChild(link)
+      link.click()
+      document.body.removeChild(link)
+    } catch (err) {
+      console.error('Error generating statements:', err)
+      setError(err instanceof Error ? err.message : 'Failed to generate statements')
+    } finally {
+      setIsGeneratingStatements(false)
+    }
+  }
+
   const handleCancelPeriod = async () => {
     try {
-      const updatedPeriod = await updatePeriod(period.id, {
-        status: BillingStatus.CANCELLED
-      })
+      const updatedPeriod = await cancelPeriod(period.id)
       onPeriodUpdate?.(updatedPeriod)
     } catch (err) {
       console.error('Error cancelling period:', err)
@@ -141,9 +168,7 @@ export function BillingPeriodActions({ period, onPeriodUpdate }: BillingPeriodAc
 
   const handleReactivatePeriod = async () => {
     try {
-      const updatedPeriod = await updatePeriod(period.id, {
-        status: BillingStatus.DRAFT
-      })
+      const updatedPeriod = await transitionPeriod(period.id, BillingStatus.DRAFT)
       onPeriodUpdate?.(updatedPeriod)
     } catch (err) {
       console.error('Error reactivating period:', err)
@@ -151,6 +176,19 @@ export function BillingPeriodActions({ period, onPeriodUpdate }: BillingPeriodAc
     }
   }
 
+  const handleReopenForCorrections = async () => {
+    try {
+      setError(null)
+      const correctionsPeriod = await reopenPeriod(period.id, reopenReason)
+      setShowReopen(false)
+      setReopenReason('')
+      onPeriodUpdate?.(correctionsPeriod)
+    } catch (err) {
+      console.error('Error reopening period:', err)
+      setError(err instanceof Error ? err.message : 'Failed to reopen period')
+    }
+  }
+
   return (
     <Card>
       <CardHeader>
@@ -190,104 +228,110 @@ export function BillingPeriodActions({ period, onPeriodUpdate }: BillingPeriodAc
 
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
           {/* Process Charges */}
-          <Dialog>
-            <DialogTrigger asChild>
-              <Button 
-                variant="default" 
-                className="w-full gap-2" 
-                disabled={!canProcess || isProcessing}
-              >
-                {isProcessing ? (
-                  <Loader2 className="h-4 w-4 animate-spin" />
-                ) : (
-                  <Play className="h-4 w-4" />
-                )}
-                Process Charges
-              </Button>
-            </DialogTrigger>
-            <DialogContent>
-              <DialogHeader>
-                <DialogTitle>Process Billing Period Charges</DialogTitle>
-                <DialogDescription>
-                  This will calculate and generate all housing and transport charges for this billing period. 
-                  This action cannot be undone.
-                </DialogDescription>
-              </DialogHeader>
-              <div className="space-y-4">
-                <Alert>
-                  <AlertTriangle className="h-4 w-4" />
-                  <AlertDescription>
-                    Processing will:
-                    <ul className="list-disc list-inside mt-2 space-y-1">
-                      <li>Calculate rent charges for all active housing assignments</li>
-                      <li>Calculate utility charges based on occupancy</li>
-                      <li>Calculate transport charges for all trips in this period</li>
-                      <li>Apply prorations for partial periods</li>
-                      <li>Update the billing period status to "Processing" then "Completed"</li>
-                    </ul>
-                  </AlertDescription>
-                </Alert>
-              </div>
-              <DialogFooter>
-                <Button variant="outline" disabled={isProcessing}>
-                  Cancel
+          {canProcess && (
+            <Dialog>
+              <DialogTrigger asChild>
+                <Button 
+                  variant="default" 
+                  className="w-full gap-2" 
+                  disabled={isProcessing}
+                >
+                  {isProcessing ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <Play className="h-4 w-4" />
+                  )}
+                  Process Charges
                 </Button>
-                <Button onClick={handleProcessCharges} disabled={isProcessing}>
-                  {isProcessing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-                  Start Processing
-                </Button>
-              </DialogFooter>
-            </DialogContent>
-          </Dialog>
+              </DialogTrigger>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>Process Billing Period Charges</DialogTitle>
+                  <DialogDescription>
+                    This will calculate and generate all housing and transport charges for this billing period. 
+                    This action cannot be undone.
+                  </DialogDescription>
+                </DialogHeader>
+                <div className="space-y-4">
+                  <Alert>
+                    <AlertTriangle className="h-4 w-4" />
+                    <AlertDescription>
+                      Processing will:
+                      <ul className="list-disc list-inside mt-2 space-y-1">
+                        <li>Calculate rent charges for all active housing assignments</li>
+                        <li>Calculate utility charges based on occupancy</li>
+                        <li>Calculate transport charges for all trips in this period</li>
+                        <li>Apply prorations for partial periods</li>
+                        <li>Update the billing period status to "Processing" then "Completed"</li>
+                        <li>Hold disputed charges out of the payroll export until they are resolved</li>
+                      </ul>
+                    </AlertDescription>
+                  </Alert>
+                </div>
+                <DialogFooter>
+                  <Button variant="outline" disabled={isProcessing}>
+                    Cancel
+                  </Button>
+                  <Button onClick={handleProcessCharges} disabled={isProcessing}>
+                    {isProcessing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Start Processing
+                  </Button>
+                </DialogFooter>
+              </DialogContent>
+            </Dialog>
+          )}
 
           {/* Export to Payroll */}
-          <Dialog>
-            <DialogTrigger asChild>
-              <Button 
-                variant="outline" 
-                className="w-full gap-2" 
-                disabled={!canExport || isExporting}
-              >
-                {isExporting ? (
-                  <Loader2 className="h-4 w-4 animate-spin" />
-                ) : (
-                  <Download className="h-4 w-4" />
-                )}
-                Export to Payroll
-              </Button>
-            </DialogTrigger>
-            <DialogContent>
-              <DialogHeader>
-                <DialogTitle>Export to Payroll System</DialogTitle>
-                <DialogDescription>
-                  Export the completed billing period charges to your payroll system for processing.
-                </DialogDescription>
-              </DialogHeader>
-              <div className="space-y-4">
-                <Alert>
-                  <CheckCircle className="h-4 w-4" />
-                  <AlertDescription>
-                    Export will:
-                    <ul className="list-disc list-inside mt-2 space-y-1">
-                      <li>Generate a CSV file with all staff deductions</li>
-                      <li>Include detailed breakdown by charge type</li>
-                      <li>Mark the billing period as "Exported"</li>
-                      <li>Set the export timestamp for audit purposes</li>
-                    </ul>
-                  </AlertDescription>
-                </Alert>
-              </div>
-              <DialogFooter>
-                <Button variant="outline" disabled={isExporting}>
-                  Cancel
+          {canExport && (
+            <Dialog>
+              <DialogTrigger asChild>
+                <Button 
+                  variant="outline" 
+                  className="w-full gap-2" 
+                  disabled={isExporting}
+                >
+                  {isExporting ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <Download className="h-4 w-4" />
+                  )}
+                  Export to Payroll
                 </Button>
-                <Button onClick={handleExportToPayroll} disabled={isExporting}>
-                  {isExporting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-                  Export Now
-                </Button>
-              </DialogFooter>
-            </DialogContent>
-          </Dialog>
+              </DialogTrigger>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>Export to Payroll System</DialogTitle>
+                  <DialogDescription>
+                    Export the completed billing period charges to your payroll system for processing.
+                  </DialogDescription>
+                </DialogHeader>
+                <div className="space-y-4">
+                  <Alert>
+                    <CheckCircle className="h-4 w-4" />
+                    <AlertDescription>
+                      Export will:
+                      <ul className="list-disc list-inside mt-2 space-y-1">
+                        <li>Generate a CSV file with all staff deductions</li>
+                      <li>For corrections periods, send only reversing and replacement lines</li>
+                        <li>Include detailed breakdown by charge type</li>
+                        <li>Mark the billing period as "Exported"</li>
+                        <li>Set the export timestamp for audit purposes</li>
+                      </ul>
+                    </AlertDescription>
+                  </Alert>
+                </div>
+                <DialogFooter>
+                  <Button variant="outline" disabled={isExporting}>
+                    Cancel
+                  </Button>
+                  <Button onClick={handleExportToPayroll} disabled={isExporting}>
+                    {isExporting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Export Now
+                  </Button>
+                </DialogFooter>
+              </DialogContent>
+            </Dialog>
+          )}
 
           {/* Generate Report */}
           <Button variant="outline" className="w-full gap-2">
@@ -295,8 +339,91 @@ export function BillingPeriodActions({ period, onPeriodUpdate }: BillingPeriodAc
             Generate Report
           </Button>
 
+          {/* Staff Statements */}
+          {canGenerateStatements && (
+            <Button
+              variant="outline"
+              className="w-full gap-2"
+              onClick={handleGenerateStatements}
+              disabled={isGeneratingStatements}
+            >
+              {isGeneratingStatements ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <Download className="h-4 w-4" />
+              )}
+              Staff Statements (ZIP)
+            </Button>
+          )}
+
+          {/* Return to Draft */}
+          {canReturnToDraft && (
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button variant="outline" className="w-full gap-2">
+                  <Undo2 className="h-4 w-4" />
+                  Return to Draft
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Return Period to Draft</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    This moves the period back to "Draft" so charges can be corrected and processed again.
+                    Generated charges are kept and updated by the next charge run.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction onClick={handleReactivatePeriod}>
+                    Return to Draft
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          )}
+
+          {/* Reopen for Corrections */}
+          {canReopen && (
+            <Dialog open={showReopen} onOpenChange={setShowReopen}>
+              <DialogTrigger asChild>
+                <Button variant="outline" className="w-full gap-2">
+                  <RotateCcw className="h-4 w-4" />
+                  Reopen for Corrections
+                </Button>
+              </DialogTrigger>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>Reopen for Corrections</DialogTitle>
+                  <DialogDescription>
+                    Exported charges are never changed. A corrections period covering the same dates
+                    is opened in "Draft" for adjustments, and is exported separately.
+                  </DialogDescription>
+                </DialogHeader>
+                <div className="space-y-2">
+                  <Label htmlFor="reopen-reason">Reason</Label>
+                  <Textarea
+                    id="reopen-reason"
+                    value={reopenReason}
+                    onChange={(e) => setReopenReason(e.target.value)}
+                    placeholder="What needs to be corrected?"
+                    rows={3}
+                  />
+                </div>
+                <DialogFooter>
+                  <Button variant="outline" onClick={() => setShowReopen(false)}>
+                    Cancel
+                  </Button>
+                  <Button onClick={handleReopenForCorrections} disabled={!reopenReason.trim()}>
+                    Open Corrections Period
+                  </Button>
+                </DialogFooter>
+              </DialogContent>
+            </Dialog>
+          )}
+
           {/* Cancel/Reactivate Period */}
-          {period.status === BillingStatus.CANCELLED ? (
+          {canReactivate ? (
             <AlertDialog>
               <AlertDialogTrigger asChild>
                 <Button variant="outline" className="w-full gap-2">
@@ -374,7 +501,7 @@ export function BillingPeriodActions({ period, onPeriodUpdate }: BillingPeriodAc
             {period.status === BillingStatus.EXPORTED && (
               <>
                 <Download className="h-4 w-4 text-purple-600" />
-                Period has been exported to payroll
+                Period has been exported to payroll and is locked
               </>
             )}
             {period.status === BillingStatus.CANCELLED && (
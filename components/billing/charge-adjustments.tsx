@@ -0,0 +1,272 @@
+'use client'
+
+import { useState } from 'react'
+import { format } from 'date-fns'
+import { Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { useChargeAdjustments } from '@/hooks/use-billing'
+import { isCreditAdjustment, summarizeAdjustments } from '@/lib/billing/adjustments'
+import { effectiveAmount } from '@/lib/billing/charge-run'
+import {
+  AdjustmentReasonCode,
+  ChargeAdjustmentType,
+  validateCreateChargeAdjustment,
+  type ChargeWithDetails,
+} from '@/lib/types/billing'
+
+interface ChargeAdjustmentDialogProps {
+  charge: Pick<ChargeWithDetails, 'id' | 'description' | 'amount' | 'prorationFactor'>
+  // Reversals cancel what is left of the charge; otherwise a credit note or debit
+  reverse?: boolean
+  onClose: () => void
+  onAdjusted?: () => void
+}
+
+const adjustmentTypeLabels: Record<ChargeAdjustmentType, string> = {
+  [ChargeAdjustmentType.CREDIT_NOTE]: 'Credit note',
+  [ChargeAdjustmentType.DEBIT]: 'Debit adjustment',
+  [ChargeAdjustmentType.REVERSAL]: 'Reversal',
+}
+
+const reasonLabels: Record<AdjustmentReasonCode, string> = {
+  [AdjustmentReasonCode.BILLING_ERROR]: 'Billing error',
+  [AdjustmentReasonCode.DUPLICATE_CHARGE]: 'Duplicate charge',
+  [AdjustmentReasonCode.RATE_CHANGE]: 'Rate change',
+  [AdjustmentReasonCode.PRORATION_CORRECTION]: 'Proration correction',
+  [AdjustmentReasonCode.WAIVER]: 'Waiver',
+  [AdjustmentReasonCode.GOODWILL]: 'Goodwill',
+  [AdjustmentReasonCode.OTHER]: 'Other',
+}
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount)
+
+export function ChargeAdjustmentDialog({
+  charge,
+  reverse = false,
+  onClose,
+  onAdjusted,
+}: ChargeAdjustmentDialogProps) {
+  const { adjustments, isLoading, createAdjustment } = useChargeAdjustments({
+    chargeId: charge.id,
+  })
+  const [type, setType] = useState<ChargeAdjustmentType>(
+    reverse ? ChargeAdjustmentType.REVERSAL : ChargeAdjustmentType.CREDIT_NOTE
+  )
+  const [reasonCode, setReasonCode] = useState<AdjustmentReasonCode | ''>('')
+  const [amount, setAmount] = useState('')
+  const [description, setDescription] = useState('')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const summary = isLoading
+    ? null
+    : summarizeAdjustments(
+        effectiveAmount(Number(charge.amount), charge.prorationFactor),
+        adjustments
+      )
+
+  const handleSubmit = async () => {
+    if (!reasonCode) {
+      toast.error('Choose a reason for the adjustment')
+      return
+    }
+    const result = validateCreateChargeAdjustment({
+      chargeId: charge.id,
+      type,
+      reasonCode,
+      amount: type === ChargeAdjustmentType.REVERSAL || !amount ? undefined : Number(amount),
+      description,
+    })
+    if (!result.success) {
+      toast.error(result.error.errors[0]?.message ?? 'Check the adjustment')
+      return
+    }
+
+    setIsSubmitting(true)
+    try {
+      const { adjustment, netAmount, needsCorrections } = await createAdjustment(result.data)
+      toast.success(
+        `${adjustmentTypeLabels[adjustment.type]} of ${formatCurrency(adjustment.amount)} posted; the charge now bills ${formatCurrency(netAmount)}`
+      )
+      if (needsCorrections) {
+        toast.info('This period has been exported; the adjustment goes out with its next incremental export')
+      }
+      onAdjusted?.()
+      onClose()
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to post the adjustment')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{reverse ? 'Reverse Charge' : 'Adjust Charge'}</DialogTitle>
+          <DialogDescription>
+            {charge.description}. Charges are not edited or deleted; adjustments are kept
+            against the original charge.
+          </DialogDescription>
+        </DialogHeader>
+
+        {summary && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-2 rounded-md border p-3 text-sm">
+              <div>
+                <p className="text-muted-foreground">Charged</p>
+                <p className="font-medium">{formatCurrency(summary.effectiveAmount)}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Adjustments</p>
+                <p className="font-medium">
+                  {formatCurrency(summary.debited - summary.credited)}
+                </p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Net</p>
+                <p className="font-medium">{formatCurrency(summary.netAmount)}</p>
+              </div>
+            </div>
+
+            {adjustments.length > 0 && (
+              <div className="space-y-1">
+                {adjustments.map(adjustment => (
+                  <div key={adjustment.id} className="flex items-center justify-between text-sm">
+                    <div className="flex items-center gap-2">
+                      <Badge variant="outline">{adjustmentTypeLabels[adjustment.type]}</Badge>
+                      <span className="text-muted-foreground">
+                        {reasonLabels[adjustment.reasonCode] ?? adjustment.reasonCode}
+                      </span>
+                    </div>
+                    <span>
+                      {isCreditAdjustment(adjustment.type) ? '-' : '+'}
+                      {formatCurrency(adjustment.amount)}
+                      <span className="ml-2 text-xs text-muted-foreground">
+                        {format(new Date(adjustment.createdAt), 'MMM d, yyyy')}
+                      </span>
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {summary.reversed ? (
+              <p className="text-sm text-muted-foreground">
+                This charge has been reversed and cannot be adjusted again.
+              </p>
+            ) : (
+              <>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label>Adjustment</Label>
+                    {reverse ? (
+                      <p className="text-sm pt-2">
+                        Reverses the {formatCurrency(summary.netAmount)} left
+                      </p>
+                    ) : (
+                      <Select
+                        value={type}
+                        onValueChange={(value) => setType(value as ChargeAdjustmentType)}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={ChargeAdjustmentType.CREDIT_NOTE}>
+                            {adjustmentTypeLabels[ChargeAdjustmentType.CREDIT_NOTE]}
+                          </SelectItem>
+                          <SelectItem value={ChargeAdjustmentType.DEBIT}>
+                            {adjustmentTypeLabels[ChargeAdjustmentType.DEBIT]}
+                          </SelectItem>
+                        </SelectContent>
+                      </Select>
+                    )}
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Reason</Label>
+                    <Select
+                      value={reasonCode}
+                      onValueChange={(value) => setReasonCode(value as AdjustmentReasonCode)}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select a reason" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.values(AdjustmentReasonCode).map(code => (
+                          <SelectItem key={code} value={code}>
+                            {reasonLabels[code]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                {!reverse && (
+                  <div className="space-y-2">
+                    <Label htmlFor="adjustment-amount">Amount</Label>
+                    <Input
+                      id="adjustment-amount"
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      placeholder="0.00"
+                      value={amount}
+                      onChange={(e) => setAmount(e.target.value)}
+                    />
+                  </div>
+                )}
+
+                <div className="space-y-2">
+                  <Label htmlFor="adjustment-description">Description</Label>
+                  <Textarea
+                    id="adjustment-description"
+                    value={description}
+                    maxLength={500}
+                    onChange={(e) => setDescription(e.target.value)}
+                  />
+                </div>
+              </>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={isSubmitting || !summary || summary.reversed}
+            variant={reverse ? 'destructive' : 'default'}
+          >
+            {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {reverse ? 'Reverse Charge' : 'Post Adjustment'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
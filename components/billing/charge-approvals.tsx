@@ -0,0 +1,483 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { format } from 'date-fns'
+import {
+  CheckCircle,
+  ClipboardCheck,
+  Loader2,
+  Plus,
+  ShieldCheck,
+  Trash2,
+  XCircle,
+} from 'lucide-react'
+import { toast } from 'sonner'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import { LoadingSpinner } from '@/components/shared'
+import { useAuth } from '@/hooks/use-auth'
+import { useChargeApprovals } from '@/hooks/use-billing'
+import {
+  ChargeApprovalDecision,
+  ChargeType,
+  validateCreateChargeApprovalRule,
+  type ChargeApprovalResult,
+  type ChargeApprovalRule,
+  type PendingChargeApproval,
+} from '@/lib/types/billing'
+
+interface ChargeApprovalQueueProps {
+  billingPeriodId?: string
+}
+
+const ANY_TYPE = '__any__'
+
+const chargeTypeLabels: Record<ChargeType, string> = {
+  [ChargeType.RENT]: 'Rent',
+  [ChargeType.UTILITIES]: 'Utilities',
+  [ChargeType.TRANSPORT]: 'Transport',
+  [ChargeType.OTHER]: 'Other',
+}
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount)
+
+// Period dates are UTC days; show them without shifting into local time
+const formatDay = (date: Date, pattern = 'MMM d, yyyy') =>
+  format(new Date(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()), pattern)
+
+const describeRule = (rule: ChargeApprovalRule) =>
+  [
+    rule.chargeType ? `${chargeTypeLabels[rule.chargeType]} charges` : 'Any charge',
+    rule.amountThreshold !== undefined ? `over ${formatCurrency(rule.amountThreshold)}` : null,
+  ]
+    .filter(Boolean)
+    .join(' ')
+
+// Charges the signed-in user gave the first approval wait for someone else
+const awaitsOtherApprover = (item: PendingChargeApproval, userId?: string) =>
+  item.approvalStep > 0 && item.firstApprovedBy === userId
+
+export function ChargeApprovalQueue({ billingPeriodId }: ChargeApprovalQueueProps) {
+  const { user } = useAuth()
+  const { queue, isLoading, error, decideCharges, refresh } = useChargeApprovals(billingPeriodId)
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [isDeciding, setIsDeciding] = useState(false)
+  const [rejecting, setRejecting] = useState(false)
+  const [reason, setReason] = useState('')
+
+  const selectable = useMemo(
+    () => queue.filter(item => !awaitsOtherApprover(item, user?.id)),
+    [queue, user]
+  )
+  const selectedItems = queue.filter(item => selected.has(item.chargeId))
+  const selectedTotal = selectedItems.reduce((sum, item) => sum + item.amount, 0)
+  const allSelected = selectable.length > 0 && selectable.every(item => selected.has(item.chargeId))
+
+  const toggle = (chargeId: string, checked: boolean) => {
+    setSelected(current => {
+      const next = new Set(current)
+      if (checked) next.add(chargeId)
+      else next.delete(chargeId)
+      return next
+    })
+  }
+
+  const toggleAll = (checked: boolean) => {
+    setSelected(checked ? new Set(selectable.map(item => item.chargeId)) : new Set())
+  }
+
+  const report = (result: ChargeApprovalResult, verb: string) => {
+    if (result.decided.length > 0) {
+      toast.success(`${result.decided.length} charges ${verb}`)
+    }
+    if (result.failed.length > 0) {
+      toast.error(`${result.failed.length} charges could not be ${verb}: ${result.failed[0].reason}`)
+    }
+    setSelected(new Set(result.failed.map(failure => failure.chargeId)))
+  }
+
+  const handleApprove = async () => {
+    setIsDeciding(true)
+    try {
+      report(await decideCharges(Array.from(selected), ChargeApprovalDecision.APPROVE), 'approved')
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to approve charges')
+    } finally {
+      setIsDeciding(false)
+    }
+  }
+
+  const handleReject = async () => {
+    if (!reason.trim()) {
+      toast.error('Give a reason for rejecting the charges')
+      return
+    }
+    setIsDeciding(true)
+    try {
+      report(
+        await decideCharges(Array.from(selected), ChargeApprovalDecision.REJECT, reason),
+        'rejected'
+      )
+      setRejecting(false)
+      setReason('')
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to reject charges')
+    } finally {
+      setIsDeciding(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ClipboardCheck className="h-5 w-5" />
+          Charge Approvals
+        </CardTitle>
+        <CardDescription>
+          Only approved charges are exported to payroll. Charges matched by an approval rule need
+          a second approver.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error ? (
+          <div className="text-center py-8">
+            <p className="text-sm text-muted-foreground">Failed to load the approval queue</p>
+            <Button variant="outline" className="mt-4" onClick={() => refresh()}>
+              Try Again
+            </Button>
+          </div>
+        ) : isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <LoadingSpinner />
+          </div>
+        ) : queue.length === 0 ? (
+          <div className="text-center py-8">
+            <CheckCircle className="h-8 w-8 text-green-600 mx-auto mb-2" />
+            <p className="text-sm text-muted-foreground">No charges are waiting for approval</p>
+          </div>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <p className="text-sm text-muted-foreground">
+                {selected.size > 0
+                  ? `${selected.size} selected, ${formatCurrency(selectedTotal)}`
+                  : `${queue.length} charges waiting`}
+              </p>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  onClick={() => setRejecting(true)}
+                  disabled={selected.size === 0 || isDeciding}
+                >
+                  <XCircle className="h-4 w-4 mr-2" />
+                  Reject
+                </Button>
+                <Button onClick={handleApprove} disabled={selected.size === 0 || isDeciding}>
+                  {isDeciding ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <CheckCircle className="h-4 w-4 mr-2" />
+                  )}
+                  Approve
+                </Button>
+              </div>
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-10">
+                    <Checkbox
+                      checked={allSelected}
+                      onCheckedChange={(checked) => toggleAll(checked === true)}
+                    />
+                  </TableHead>
+                  <TableHead>Staff</TableHead>
+                  <TableHead>Charge</TableHead>
+                  <TableHead>Period</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                  <TableHead>Approval</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {queue.map(item => {
+                  const blocked = awaitsOtherApprover(item, user?.id)
+                  return (
+                    <TableRow key={item.chargeId}>
+                      <TableCell>
+                        <Checkbox
+                          checked={selected.has(item.chargeId)}
+                          disabled={blocked}
+                          onCheckedChange={(checked) => toggle(item.chargeId, checked === true)}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <div className="font-medium">{item.staffName}</div>
+                        {item.employeeId && (
+                          <div className="text-xs text-muted-foreground">{item.employeeId}</div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <div className="text-sm">{item.description}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {chargeTypeLabels[item.type]}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {formatDay(item.periodStart, 'MMM d')} - {formatDay(item.periodEnd)}
+                      </TableCell>
+                      <TableCell className="text-right font-medium">
+                        {formatCurrency(item.amount)}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline">
+                          Step {item.approvalStep + 1} of {item.requirement.approvalsRequired}
+                        </Badge>
+                        {item.requirement.rules.length > 0 && (
+                          <p className="text-xs text-muted-foreground mt-1">
+                            {item.requirement.rules.map(rule => rule.name).join(', ')}
+                          </p>
+                        )}
+                        {blocked && (
+                          <p className="text-xs text-muted-foreground mt-1">
+                            Waiting for a second approver
+                          </p>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  )
+                })}
+              </TableBody>
+            </Table>
+          </>
+        )}
+      </CardContent>
+
+      <AlertDialog open={rejecting} onOpenChange={setRejecting}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Reject {selected.size} charges?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Rejected charges are not exported. A charge is raised for approval again if its
+              amount later changes.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="reject-reason">Reason</Label>
+            <Textarea
+              id="reject-reason"
+              value={reason}
+              maxLength={500}
+              onChange={(e) => setReason(e.target.value)}
+            />
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isDeciding}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault()
+                handleReject()
+              }}
+              disabled={isDeciding}
+            >
+              Reject Charges
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  )
+}
+
+export function ChargeApprovalRules() {
+  const { rules, isLoading, createRule, updateRule, deleteRule } = useChargeApprovals()
+  const [name, setName] = useState('')
+  const [chargeType, setChargeType] = useState<string>(ANY_TYPE)
+  const [amountThreshold, setAmountThreshold] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+
+  const handleCreate = async () => {
+    const result = validateCreateChargeApprovalRule({
+      name: name.trim(),
+      chargeType: chargeType === ANY_TYPE ? undefined : chargeType,
+      amountThreshold: amountThreshold === '' ? undefined : Number(amountThreshold),
+      isActive: true,
+    })
+
+    if (!result.success) {
+      toast.error(result.error.errors[0]?.message ?? 'Invalid approval rule')
+      return
+    }
+
+    try {
+      setIsSaving(true)
+      await createRule(result.data)
+      setName('')
+      setChargeType(ANY_TYPE)
+      setAmountThreshold('')
+      toast.success('Approval rule added')
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to add approval rule')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleToggle = async (rule: ChargeApprovalRule, isActive: boolean) => {
+    try {
+      await updateRule(rule.id, { isActive })
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to update approval rule')
+    }
+  }
+
+  const handleDelete = async (rule: ChargeApprovalRule) => {
+    try {
+      await deleteRule(rule.id)
+      toast.success('Approval rule removed')
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to remove approval rule')
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5" />
+          Second Approver Rules
+        </CardTitle>
+        <CardDescription>
+          Charges of a type, above an amount, or both need approval from two different people
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+          <div className="space-y-2">
+            <Label htmlFor="approval-rule-name">Name</Label>
+            <Input
+              id="approval-rule-name"
+              value={name}
+              maxLength={100}
+              placeholder="e.g. Large charges"
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Charge type</Label>
+            <Select value={chargeType} onValueChange={setChargeType}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY_TYPE}>Any type</SelectItem>
+                {Object.values(ChargeType).map(type => (
+                  <SelectItem key={type} value={type}>
+                    {chargeTypeLabels[type]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="approval-rule-threshold">Above amount ($)</Label>
+            <Input
+              id="approval-rule-threshold"
+              type="number"
+              min={0}
+              step="0.01"
+              value={amountThreshold}
+              placeholder="Any amount"
+              onChange={(e) => setAmountThreshold(e.target.value)}
+            />
+          </div>
+          <Button onClick={handleCreate} disabled={isSaving}>
+            {isSaving ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Plus className="mr-2 h-4 w-4" />
+            )}
+            Add Rule
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <LoadingSpinner />
+        ) : rules.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No rules configured. Every charge needs a single approval.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Rule</TableHead>
+                <TableHead>Applies to</TableHead>
+                <TableHead>Active</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rules.map(rule => (
+                <TableRow key={rule.id}>
+                  <TableCell className="font-medium">{rule.name}</TableCell>
+                  <TableCell>{describeRule(rule)}</TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={rule.isActive}
+                      onCheckedChange={(checked) => handleToggle(rule, checked)}
+                    />
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="ghost" size="sm" onClick={() => handleDelete(rule)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -46,6 +46,11 @@ import { Separator } from '@/components/ui/separator'
 import { Alert, AlertDescription } from '@/components/ui/alert'
 import { useCharges } from '@/hooks/use-billing'
 import { ChargeType, type Charge } from '@/lib/types/billing'
+import {
+  ProrationMethod,
+  type ProrationLine,
+} from '@/lib/types/housing'
+import { reviveProration } from '@/lib/billing/statements'
 import { cn } from '@/lib/utils'
 
 interface ChargeBreakdownProps {
@@ -88,6 +93,26 @@ const chargeTypeConfig = {
   }
 }
 
+const prorationMethodLabels: Record<ProrationMethod, string> = {
+  [ProrationMethod.DAILY]: 'Actual days',
+  [ProrationMethod.THIRTY_DAY_MONTH]: '30-day month',
+  [ProrationMethod.THIRTY_360]: '30/360',
+  [ProrationMethod.WHOLE_WEEK]: 'Whole weeks',
+}
+
+const prorationLineLabels: Record<ProrationLine['kind'], string> = {
+  rent: 'Rent',
+  grace: 'Move-in grace',
+  short_notice: 'Short move-out notice',
+  week_rounding: 'Rounded up to whole weeks',
+}
+
+// Breakdown dates are stored as ISO strings of UTC days
+const formatUtcDay = (value: Date | string) => {
+  const date = new Date(value)
+  return format(new Date(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()), 'MMM dd')
+}
+
 export function ChargeBreakdown({ chargeId, onClose }: ChargeBreakdownProps) {
   const [showDetails, setShowDetails] = useState(true)
   const [showMetadata, setShowMetadata] = useState(false)
@@ -134,7 +159,9 @@ export function ChargeBreakdown({ chargeId, onClose }: ChargeBreakdownProps) {
   const metadata = charge.metadata || {}
   const baseAmount = (metadata as any)?.baseAmount || charge.amount
   const breakdown = metadata.breakdown || []
-  const hasProration = baseAmount !== charge.amount
+  // Rent generated by a charge run explains its own proration
+  const proration = reviveProration(metadata.proration)
+  const hasProration = !proration && baseAmount !== charge.amount
 
   return (
     <div className="space-y-6">
@@ -271,6 +298,88 @@ export function ChargeBreakdown({ chargeId, onClose }: ChargeBreakdownProps) {
         </Card>
       )}
 
+      {/* Rent Proration */}
+      {proration && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Calendar className="h-5 w-5" />
+              Proration Details
+            </CardTitle>
+            <CardDescription>
+              {prorationMethodLabels[proration.prorationMethod]} proration, factors rounded to{' '}
+              {proration.precision} decimal places
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div className="text-center">
+                <p className="text-sm font-medium text-muted-foreground">Nights in Period</p>
+                <p className="text-2xl font-bold">{proration.nights}</p>
+                <p className="text-xs text-muted-foreground">
+                  {formatUtcDay(proration.periodStart)} – {formatUtcDay(proration.periodEnd)}
+                </p>
+              </div>
+              <div className="text-center">
+                <p className="text-sm font-medium text-muted-foreground">Grace Days</p>
+                <p className="text-2xl font-bold">{proration.graceDays}</p>
+                <p className="text-xs text-muted-foreground">Free after move-in</p>
+              </div>
+              <div className="text-center">
+                <p className="text-sm font-medium text-muted-foreground">Short Notice</p>
+                <p className="text-2xl font-bold">{proration.shortNoticeDays}</p>
+                <p className="text-xs text-muted-foreground">Nights charged after move-out</p>
+              </div>
+              <div className="text-center">
+                <p className="text-sm font-medium text-muted-foreground">Rounded Up</p>
+                <p className="text-2xl font-bold">{proration.roundedUpDays}</p>
+                <p className="text-xs text-muted-foreground">Nights to complete a week</p>
+              </div>
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Line</TableHead>
+                  <TableHead>Dates</TableHead>
+                  <TableHead className="text-right">Nights</TableHead>
+                  <TableHead className="text-right">Monthly Rate</TableHead>
+                  <TableHead className="text-right">Factor</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {proration.lines.map((line, index) => (
+                  <TableRow key={index}>
+                    <TableCell>
+                      {prorationLineLabels[line.kind]}
+                      {line.prorationMethod && line.prorationMethod !== proration.prorationMethod && (
+                        <span className="text-xs text-muted-foreground">
+                          {' '}({prorationMethodLabels[line.prorationMethod]})
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {line.startDate && line.endDate
+                        ? `${formatUtcDay(line.startDate)} – ${formatUtcDay(line.endDate)}`
+                        : '—'}
+                    </TableCell>
+                    <TableCell className="text-right">{line.days}</TableCell>
+                    <TableCell className="text-right">
+                      {line.monthlyRate !== undefined ? `$${line.monthlyRate.toLocaleString()}` : '—'}
+                    </TableCell>
+                    <TableCell className="text-right font-mono">
+                      {line.factor.toFixed(proration.precision)}
+                    </TableCell>
+                    <TableCell className="text-right">${line.amount.toFixed(2)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Proration Details */}
       {hasProration && (
         <Card>
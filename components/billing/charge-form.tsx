@@ -157,11 +157,9 @@ export function ChargeForm({ charge, billingPeriodId, onSuccess, onCancel }: Cha
       setError(null)
 
       if (isEditing && charge) {
+        // Type, staff and amount are fixed; they are corrected with adjustments
         const updateData: UpdateCharge = {
-          type: data.type,
-          amount: data.amount,
           description: data.description,
-          prorationFactor: 1,
           startDate: data.startDate,
           endDate: data.endDate,
           notes: data.notes,
@@ -240,7 +238,7 @@ export function ChargeForm({ charge, billingPeriodId, onSuccess, onCancel }: Cha
               render={({ field }) => (
                 <FormItem>
                   <FormLabel>Charge Type</FormLabel>
-                  <Select onValueChange={field.onChange} defaultValue={field.value}>
+                  <Select onValueChange={field.onChange} defaultValue={field.value} disabled={isEditing}>
                     <FormControl>
                       <SelectTrigger>
                         <SelectValue placeholder="Select charge type" />
@@ -274,7 +272,7 @@ export function ChargeForm({ charge, billingPeriodId, onSuccess, onCancel }: Cha
                 render={({ field }) => (
                   <FormItem>
                     <FormLabel>Staff Member</FormLabel>
-                    <Select onValueChange={field.onChange} defaultValue={field.value}>
+                    <Select onValueChange={field.onChange} defaultValue={field.value} disabled={isEditing}>
                       <FormControl>
                         <SelectTrigger>
                           <SelectValue placeholder="Select staff member" />
@@ -302,7 +300,7 @@ export function ChargeForm({ charge, billingPeriodId, onSuccess, onCancel }: Cha
                 render={({ field }) => (
                   <FormItem>
                     <FormLabel>Billing Period</FormLabel>
-                    <Select onValueChange={field.onChange} defaultValue={field.value}>
+                    <Select onValueChange={field.onChange} defaultValue={field.value} disabled={isEditing}>
                       <FormControl>
                         <SelectTrigger>
                           <SelectValue placeholder="Select billing period" />
@@ -342,12 +340,17 @@ export function ChargeForm({ charge, billingPeriodId, onSuccess, onCancel }: Cha
                           min="0"
                           placeholder="0.00"
                           className="pl-10"
+                          disabled={isEditing}
                           {...field}
                           onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
                         />
                       </div>
                     </FormControl>
-                    <FormDescription>The charge amount in dollars</FormDescription>
+                    <FormDescription>
+                      {isEditing
+                        ? 'Amounts cannot be edited; post a credit note or debit adjustment instead'
+                        : 'The charge amount in dollars'}
+                    </FormDescription>
                     <FormMessage />
                   </FormItem>
                 )}
@@ -0,0 +1,384 @@
+'use client'
+
+import { useState } from 'react'
+import { format } from 'date-fns'
+import { AlertTriangle, FileSpreadsheet, Loader2, Lock, Upload } from 'lucide-react'
+import { toast } from 'sonner'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { useBillingPeriods, useChargeImports } from '@/hooks/use-billing'
+import {
+  guessImportMapping,
+  readChargeImportFile,
+  REQUIRED_IMPORT_FIELDS,
+} from '@/lib/billing/charge-import'
+import { isPeriodLocked } from '@/lib/billing/period-lifecycle'
+import {
+  ChargeImportRowStatus,
+  type ChargeImportField,
+  type ChargeImportMapping,
+  type ChargeImportPreview,
+} from '@/lib/types/billing'
+
+interface ChargeImportWizardProps {
+  onClose: () => void
+  onImported?: () => void
+}
+
+type WizardStep = 'upload' | 'map' | 'preview'
+
+const fieldLabels: Record<ChargeImportField, string> = {
+  employeeId: 'Employee ID',
+  type: 'Charge type',
+  amount: 'Amount',
+  description: 'Description',
+  chargeDate: 'Charge date',
+  notes: 'Notes',
+}
+
+const fieldHints: Partial<Record<ChargeImportField, string>> = {
+  type: 'Rows are "other" charges when not mapped',
+  chargeDate: 'Picks the billing period covering the date; otherwise the period chosen above',
+}
+
+const rowStatusConfig: Record<
+  ChargeImportRowStatus,
+  { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline' }
+> = {
+  [ChargeImportRowStatus.VALID]: { label: 'Ready', variant: 'default' },
+  [ChargeImportRowStatus.INVALID]: { label: 'Error', variant: 'destructive' },
+  [ChargeImportRowStatus.LOCKED_PERIOD]: { label: 'Exported period', variant: 'secondary' },
+}
+
+const NOT_MAPPED = 'none'
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount)
+
+export function ChargeImportWizard({ onClose, onImported }: ChargeImportWizardProps) {
+  const { periods } = useBillingPeriods()
+  const { imports, previewImport, commitImport } = useChargeImports()
+  const [step, setStep] = useState<WizardStep>('upload')
+  const [file, setFile] = useState<File | null>(null)
+  const [periodId, setPeriodId] = useState<string | undefined>()
+  const [rows, setRows] = useState<string[][]>([])
+  const [mapping, setMapping] = useState<ChargeImportMapping>({})
+  const [preview, setPreview] = useState<ChargeImportPreview | null>(null)
+  const [skipInvalid, setSkipInvalid] = useState(false)
+  const [isWorking, setIsWorking] = useState(false)
+
+  const openPeriods = (periods || []).filter(period => !isPeriodLocked(period.status))
+  const header = rows[0] || []
+  const missingFields = REQUIRED_IMPORT_FIELDS.filter(field => mapping[field] === undefined)
+  const blockedRows = preview ? preview.summary.invalid + preview.summary.lockedPeriod : 0
+
+  const handleReadFile = async () => {
+    if (!file) return
+    setIsWorking(true)
+    try {
+      const fileRows = await readChargeImportFile(file)
+      setRows(fileRows)
+      setMapping(guessImportMapping(fileRows[0]))
+      setStep('map')
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Could not read the file')
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const handlePreview = async () => {
+    if (!file) return
+    setIsWorking(true)
+    try {
+      setPreview(await previewImport(file.name, rows, mapping, periodId))
+      setSkipInvalid(false)
+      setStep('preview')
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to check the rows')
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const handleCommit = async () => {
+    if (!preview) return
+    setIsWorking(true)
+    try {
+      const created = await commitImport(preview, skipInvalid)
+      toast.success(
+        `Imported ${created.rowCount} charges totalling ${formatCurrency(created.totalAmount)}; they are pending approval`
+      )
+      onImported?.()
+      onClose()
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Import failed; no charges were added')
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileSpreadsheet className="h-5 w-5" />
+            Import Charges
+          </DialogTitle>
+          <DialogDescription>
+            {step === 'upload' && 'Load one-off charges for many staff from a CSV or XLSX file.'}
+            {step === 'map' && `Match the columns of ${file?.name} to charge fields.`}
+            {step === 'preview' &&
+              'Check every row before importing. The file is imported as a whole: if any charge fails, none are added.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'upload' && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="charge-import-file">File</Label>
+              <Input
+                id="charge-import-file"
+                type="file"
+                accept=".csv,.xlsx"
+                onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+              />
+              <p className="text-xs text-muted-foreground">
+                The first row must be a header. Staff are matched by employee ID.
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label>Billing period</Label>
+              <Select value={periodId} onValueChange={setPeriodId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="For rows without a charge date" />
+                </SelectTrigger>
+                <SelectContent>
+                  {openPeriods.map(period => (
+                    <SelectItem key={period.id} value={period.id}>
+                      {format(new Date(period.startDate), 'MMM dd')} -{' '}
+                      {format(new Date(period.endDate), 'MMM dd, yyyy')} ({period.status})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {imports.length > 0 && (
+              <div className="space-y-1">
+                <p className="text-sm font-medium">Recent imports</p>
+                {imports.slice(0, 5).map(item => (
+                  <div key={item.id} className="flex justify-between text-sm text-muted-foreground">
+                    <span>{item.fileName}</span>
+                    <span>
+                      {item.rowCount} charges, {formatCurrency(item.totalAmount)} on{' '}
+                      {format(item.importedAt, 'MMM d, yyyy')}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {step === 'map' && (
+          <div className="grid grid-cols-2 gap-4">
+            {(Object.keys(fieldLabels) as ChargeImportField[]).map(field => (
+              <div key={field} className="space-y-2">
+                <Label>
+                  {fieldLabels[field]}
+                  {REQUIRED_IMPORT_FIELDS.includes(field) && ' *'}
+                </Label>
+                <Select
+                  value={mapping[field] === undefined ? NOT_MAPPED : String(mapping[field])}
+                  onValueChange={(value) =>
+                    setMapping(current => ({
+                      ...current,
+                      [field]: value === NOT_MAPPED ? undefined : Number(value),
+                    }))
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NOT_MAPPED}>Not in file</SelectItem>
+                    {header.map((name, index) => (
+                      <SelectItem key={index} value={String(index)}>
+                        {name || `Column ${index + 1}`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {fieldHints[field] && (
+                  <p className="text-xs text-muted-foreground">{fieldHints[field]}</p>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {step === 'preview' && preview && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              <Badge variant="default">{preview.summary.valid} ready</Badge>
+              {preview.summary.invalid > 0 && (
+                <Badge variant="destructive">{preview.summary.invalid} with errors</Badge>
+              )}
+              {preview.summary.lockedPeriod > 0 && (
+                <Badge variant="secondary">
+                  <Lock className="h-3 w-3 mr-1" />
+                  {preview.summary.lockedPeriod} in exported periods
+                </Badge>
+              )}
+              <Badge variant="outline">{formatCurrency(preview.summary.totalAmount)}</Badge>
+            </div>
+
+            <ScrollArea className="h-[360px] rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-14">Row</TableHead>
+                    <TableHead>Staff</TableHead>
+                    <TableHead>Charge</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {preview.rows.map(row => (
+                    <TableRow key={row.line}>
+                      <TableCell>{row.line}</TableCell>
+                      <TableCell>
+                        <div className="font-medium">{row.staffName ?? '—'}</div>
+                        <div className="text-xs text-muted-foreground">{row.employeeId || 'No ID'}</div>
+                      </TableCell>
+                      <TableCell>
+                        {row.charge ? (
+                          <>
+                            <div>{row.charge.description}</div>
+                            <div className="text-xs text-muted-foreground capitalize">
+                              {row.charge.type}
+                              {row.charge.startDate && ` · ${format(row.charge.startDate, 'MMM d, yyyy')}`}
+                            </div>
+                          </>
+                        ) : (
+                          <ul className="text-xs text-destructive space-y-0.5">
+                            {row.errors.map(message => (
+                              <li key={message}>{message}</li>
+                            ))}
+                          </ul>
+                        )}
+                        {row.warnings.map(message => (
+                          <div key={message} className="flex items-center gap-1 text-xs text-amber-600">
+                            <AlertTriangle className="h-3 w-3" />
+                            {message}
+                          </div>
+                        ))}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {row.charge ? formatCurrency(row.charge.amount) : '—'}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={rowStatusConfig[row.status].variant}>
+                          {rowStatusConfig[row.status].label}
+                        </Badge>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </ScrollArea>
+
+            {blockedRows > 0 && preview.summary.valid > 0 && (
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="skip-invalid-rows"
+                  checked={skipInvalid}
+                  onCheckedChange={(checked) => setSkipInvalid(checked === true)}
+                />
+                <Label htmlFor="skip-invalid-rows" className="font-normal">
+                  Leave out the {blockedRows} row{blockedRows === 1 ? '' : 's'} that cannot be
+                  imported and import the rest
+                </Label>
+              </div>
+            )}
+            {preview.summary.lockedPeriod > 0 && (
+              <p className="text-xs text-muted-foreground">
+                Charges for exported periods go into the period&apos;s corrections period or are
+                posted as adjustments instead.
+              </p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {step !== 'upload' && (
+            <Button
+              variant="outline"
+              onClick={() => setStep(step === 'preview' ? 'map' : 'upload')}
+              disabled={isWorking}
+            >
+              Back
+            </Button>
+          )}
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          {step === 'upload' && (
+            <Button onClick={handleReadFile} disabled={!file || isWorking}>
+              {isWorking ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+              Read File
+            </Button>
+          )}
+          {step === 'map' && (
+            <Button onClick={handlePreview} disabled={missingFields.length > 0 || isWorking}>
+              {isWorking && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Preview Rows
+            </Button>
+          )}
+          {step === 'preview' && preview && (
+            <Button
+              onClick={handleCommit}
+              disabled={
+                isWorking ||
+                preview.summary.valid === 0 ||
+                (blockedRows > 0 && !skipInvalid)
+              }
+            >
+              {isWorking && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Import {preview.summary.valid} Charge{preview.summary.valid === 1 ? '' : 's'}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -7,15 +7,18 @@ import {
   Filter,
   MoreHorizontal,
   Edit,
-  Trash2,
+  Undo2,
   Eye,
   DollarSign,
   Calendar,
   Users,
   FileText,
   AlertCircle,
-  Plus
+  Plus,
+  CheckCircle,
+  XCircle
 } from 'lucide-react'
+import { toast } from 'sonner'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Badge } from '@/components/ui/badge'
@@ -54,10 +57,31 @@ import {
   PopoverContent,
   PopoverTrigger,
 } from '@/components/ui/popover'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
 import { Calendar as CalendarComponent } from '@/components/ui/calendar'
 import { DateRange } from 'react-day-picker'
-import { useCharges } from '@/hooks/use-billing'
-import { ChargeType, type BillingFilters } from '@/lib/types/billing'
+import { useChargeApprovals, useCharges } from '@/hooks/use-billing'
+import { netChargeAmount } from '@/lib/billing/adjustments'
+import { effectiveAmount } from '@/lib/billing/charge-run'
+import { ChargeAdjustmentDialog } from './charge-adjustments'
+import {
+  ChargeApprovalDecision,
+  ChargeStatus,
+  ChargeType,
+  type BillingFilters,
+  type ChargeWithDetails,
+} from '@/lib/types/billing'
 import { cn } from '@/lib/utils'
 
 interface ChargeListProps {
@@ -65,7 +89,6 @@ interface ChargeListProps {
   onCreateCharge?: () => void
   onEditCharge?: (chargeId: string) => void
   onViewCharge?: (chargeId: string) => void
-  onDeleteCharge?: (chargeId: string) => void
 }
 
 const chargeTypeConfig = {
@@ -99,12 +122,20 @@ const chargeTypeConfig = {
   }
 }
 
+const chargeStatusConfig: Record<ChargeStatus, { label: string; className: string }> = {
+  [ChargeStatus.PENDING]: { label: 'Awaiting approval', className: 'bg-yellow-100 text-yellow-800' },
+  [ChargeStatus.APPROVED]: { label: 'Approved', className: 'bg-green-100 text-green-800' },
+  [ChargeStatus.REJECTED]: { label: 'Rejected', className: 'bg-red-100 text-red-800' },
+  [ChargeStatus.DISPUTED]: { label: 'Disputed', className: 'bg-orange-100 text-orange-800' },
+  [ChargeStatus.CANCELLED]: { label: 'Cancelled', className: 'bg-gray-100 text-gray-800' },
+  [ChargeStatus.PROCESSED]: { label: 'Processed', className: 'bg-blue-100 text-blue-800' },
+}
+
 export function ChargeList({ 
   billingPeriodId,
   onCreateCharge, 
   onEditCharge, 
-  onViewCharge,
-  onDeleteCharge 
+  onViewCharge
 }: ChargeListProps) {
   const [search, setSearch] = useState('')
   const [chargeTypeFilter, setChargeTypeFilter] = useState<ChargeType | 'all'>('all')
@@ -128,7 +159,27 @@ export function ChargeList({
     })
   }
   
-  const { charges, isLoading, error } = useCharges(filters)
+  const { charges, isLoading, error, refresh } = useCharges(filters)
+  const { decideCharges } = useChargeApprovals()
+  const [rejectingId, setRejectingId] = useState<string | null>(null)
+  const [rejectReason, setRejectReason] = useState('')
+  const [adjusting, setAdjusting] = useState<{ charge: ChargeWithDetails; reverse: boolean } | null>(null)
+
+  const decide = async (chargeId: string, decision: ChargeApprovalDecision, comment?: string) => {
+    try {
+      const result = await decideCharges([chargeId], decision, comment)
+      if (result.failed.length > 0) {
+        toast.error(result.failed[0].reason)
+        return false
+      }
+      toast.success(decision === ChargeApprovalDecision.APPROVE ? 'Charge approved' : 'Charge rejected')
+      await refresh()
+      return true
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to record the decision')
+      return false
+    }
+  }
 
   const handleAction = (action: string, chargeId: string) => {
     switch (action) {
@@ -138,8 +189,17 @@ export function ChargeList({
       case 'edit':
         onEditCharge?.(chargeId)
         break
-      case 'delete':
-        onDeleteCharge?.(chargeId)
+      case 'adjust':
+      case 'reverse': {
+        const charge = charges?.find(c => c.id === chargeId)
+        if (charge) setAdjusting({ charge, reverse: action === 'reverse' })
+        break
+      }
+      case 'approve':
+        decide(chargeId, ChargeApprovalDecision.APPROVE)
+        break
+      case 'reject':
+        setRejectingId(chargeId)
         break
       default:
         break
@@ -148,7 +208,10 @@ export function ChargeList({
 
   // Calculate summary statistics
   const totalCharges = charges?.length || 0
-  const totalAmount = charges?.reduce((sum, charge) => sum + charge.amount, 0) || 0
+  // Charges count net of their credit notes, debits and reversals
+  const netAmount = (charge: ChargeWithDetails) =>
+    netChargeAmount(effectiveAmount(Number(charge.amount), charge.prorationFactor), charge.adjustments)
+  const totalAmount = charges?.reduce((sum, charge) => sum + netAmount(charge), 0) || 0
   const averageAmount = totalCharges > 0 ? totalAmount / totalCharges : 0
   const chargesByType = charges?.reduce((acc, charge) => {
     acc[charge.type] = (acc[charge.type] || 0) + 1
@@ -386,6 +449,7 @@ export function ChargeList({
                   <TableHead>Description</TableHead>
                   <TableHead>Period</TableHead>
                   <TableHead className="text-right">Amount</TableHead>
+                  <TableHead>Status</TableHead>
                   <TableHead>Created</TableHead>
                   <TableHead className="text-right">Actions</TableHead>
                 </TableRow>
@@ -393,6 +457,7 @@ export function ChargeList({
               <TableBody>
                 {charges.map((charge) => {
                   const typeConfig = chargeTypeConfig[charge.type]
+                  const statusConfig = chargeStatusConfig[charge.status] ?? chargeStatusConfig[ChargeStatus.PENDING]
                   
                   return (
                     <TableRow key={charge.id}>
@@ -445,12 +510,20 @@ export function ChargeList({
                       </TableCell>
                       <TableCell className="text-right">
                         <div className="font-medium">${charge.amount.toLocaleString()}</div>
+                        {(charge.adjustments?.length ?? 0) > 0 && (
+                          <div className="text-xs text-muted-foreground">
+                            Net: ${netAmount(charge).toLocaleString()}
+                          </div>
+                        )}
                         {charge.metadata && (charge.metadata as any)?.baseAmount && (charge.metadata as any).baseAmount !== charge.amount && (
                           <div className="text-xs text-muted-foreground">
                             Base: ${((charge.metadata as any).baseAmount as number).toLocaleString()}
                           </div>
                         )}
                       </TableCell>
+                      <TableCell>
+                        <Badge className={statusConfig.className}>{statusConfig.label}</Badge>
+                      </TableCell>
                       <TableCell>
                         <div className="text-sm text-muted-foreground">
                           {format(new Date(charge.createdAt), 'MMM dd, yyyy')}
@@ -473,13 +546,30 @@ export function ChargeList({
                               <Edit className="h-4 w-4 mr-2" />
                               Edit Charge
                             </DropdownMenuItem>
+                            {charge.status === ChargeStatus.PENDING && (
+                              <>
+                                <DropdownMenuSeparator />
+                                <DropdownMenuItem onClick={() => handleAction('approve', charge.id)}>
+                                  <CheckCircle className="h-4 w-4 mr-2" />
+                                  Approve
+                                </DropdownMenuItem>
+                                <DropdownMenuItem onClick={() => handleAction('reject', charge.id)}>
+                                  <XCircle className="h-4 w-4 mr-2" />
+                                  Reject
+                                </DropdownMenuItem>
+                              </>
+                            )}
                             <DropdownMenuSeparator />
+                            <DropdownMenuItem onClick={() => handleAction('adjust', charge.id)}>
+                              <DollarSign className="h-4 w-4 mr-2" />
+                              Adjust Charge
+                            </DropdownMenuItem>
                             <DropdownMenuItem 
-                              onClick={() => handleAction('delete', charge.id)}
+                              onClick={() => handleAction('reverse', charge.id)}
                               className="text-red-600"
                             >
-                              <Trash2 className="h-4 w-4 mr-2" />
-                              Delete Charge
+                              <Undo2 className="h-4 w-4 mr-2" />
+                              Reverse Charge
                             </DropdownMenuItem>
                           </DropdownMenuContent>
                         </DropdownMenu>
@@ -508,6 +598,61 @@ export function ChargeList({
         </CardContent>
       </Card>
 
+      {adjusting && (
+        <ChargeAdjustmentDialog
+          charge={adjusting.charge}
+          reverse={adjusting.reverse}
+          onClose={() => setAdjusting(null)}
+          onAdjusted={() => refresh()}
+        />
+      )}
+
+      <AlertDialog
+        open={rejectingId !== null}
+        onOpenChange={(open) => {
+          if (!open) {
+            setRejectingId(null)
+            setRejectReason('')
+          }
+        }}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Reject charge?</AlertDialogTitle>
+            <AlertDialogDescription>
+              A rejected charge is not exported to payroll.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="charge-reject-reason">Reason</Label>
+            <Textarea
+              id="charge-reject-reason"
+              value={rejectReason}
+              maxLength={500}
+              onChange={(e) => setRejectReason(e.target.value)}
+            />
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={!rejectReason.trim()}
+              onClick={async (e) => {
+                e.preventDefault()
+                if (
+                  rejectingId &&
+                  (await decide(rejectingId, ChargeApprovalDecision.REJECT, rejectReason))
+                ) {
+                  setRejectingId(null)
+                  setRejectReason('')
+                }
+              }}
+            >
+              Reject Charge
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       {/* Type Distribution */}
       {totalCharges > 0 && (
         <Card>
@@ -0,0 +1,410 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { format } from 'date-fns'
+import {
+  AlertCircle,
+  CheckCircle,
+  Eye,
+  History,
+  Loader2,
+  Play,
+  RotateCcw,
+} from 'lucide-react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import { LoadingSpinner } from '@/components/shared'
+import { useBillingPeriods, useChargeRuns } from '@/hooks/use-billing'
+import { effectiveAmount } from '@/lib/billing/charge-run'
+import {
+  ChargeAdjustmentType,
+  ChargeRunAction,
+  ChargeRunSource,
+  ChargeRunStatus,
+  type ChargeRun,
+  type ChargeRunPreview as ChargeRunPreviewData,
+} from '@/lib/types/billing'
+
+interface ChargeRunPreviewProps {
+  billingPeriodId?: string
+}
+
+const sourceLabels: Record<ChargeRunSource, string> = {
+  [ChargeRunSource.HOUSING]: 'Housing',
+  [ChargeRunSource.TRANSPORT]: 'Transport',
+  [ChargeRunSource.UTILITIES]: 'Utilities',
+  [ChargeRunSource.RECURRING]: 'Recurring',
+}
+
+const actionConfig: Record<ChargeRunAction, { label: string; className: string }> = {
+  [ChargeRunAction.ADD]: { label: 'Add', className: 'bg-green-100 text-green-800' },
+  [ChargeRunAction.CHANGE]: { label: 'Change', className: 'bg-blue-100 text-blue-800' },
+  [ChargeRunAction.VOID]: { label: 'Void', className: 'bg-red-100 text-red-800' },
+  [ChargeRunAction.UNCHANGED]: { label: 'Unchanged', className: 'bg-gray-100 text-gray-800' },
+}
+
+// Billed charges are changed or voided with an adjustment
+const adjustmentTypeLabels: Record<ChargeAdjustmentType, string> = {
+  [ChargeAdjustmentType.CREDIT_NOTE]: 'credit note',
+  [ChargeAdjustmentType.DEBIT]: 'debit',
+  [ChargeAdjustmentType.REVERSAL]: 'reversal',
+}
+
+const currency = new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' })
+
+const formatDelta = (value: number) =>
+  `${value > 0 ? '+' : ''}${currency.format(value)}`
+
+export function ChargeRunPreview({ billingPeriodId: initialPeriodId }: ChargeRunPreviewProps) {
+  const { periods } = useBillingPeriods()
+  const [periodId, setPeriodId] = useState<string | undefined>(initialPeriodId)
+  const [sources, setSources] = useState<ChargeRunSource[]>(Object.values(ChargeRunSource))
+  const [preview, setPreview] = useState<ChargeRunPreviewData | null>(null)
+  const [showUnchanged, setShowUnchanged] = useState(false)
+  const [isPreviewing, setIsPreviewing] = useState(false)
+  const [isCommitting, setIsCommitting] = useState(false)
+  const [rollbackTarget, setRollbackTarget] = useState<ChargeRun | null>(null)
+
+  const { runs, isLoading, previewRun, commitRun, rollbackRun } = useChargeRuns(periodId)
+
+  useEffect(() => {
+    setPreview(null)
+  }, [periodId, sources])
+
+  const latestCommitted = runs?.find(run => run.status === ChargeRunStatus.COMMITTED)
+
+  const visibleItems = useMemo(
+    () =>
+      (preview?.items || []).filter(
+        item => showUnchanged || item.action !== ChargeRunAction.UNCHANGED
+      ),
+    [preview, showUnchanged]
+  )
+
+  const hasChanges = preview
+    ? preview.summary.added + preview.summary.changed + preview.summary.voided > 0
+    : false
+
+  const toggleSource = (source: ChargeRunSource, checked: boolean) => {
+    setSources(current =>
+      checked ? [...current, source] : current.filter(s => s !== source)
+    )
+  }
+
+  const handlePreview = async () => {
+    if (!periodId) return
+    setIsPreviewing(true)
+    try {
+      setPreview(await previewRun(periodId, sources))
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to preview charges')
+    } finally {
+      setIsPreviewing(false)
+    }
+  }
+
+  const handleCommit = async () => {
+    if (!preview) return
+    setIsCommitting(true)
+    try {
+      const run = await commitRun(preview)
+      toast.success(
+        `Charge run committed: ${run.addedCount} added, ${run.changedCount} changed, ${run.voidedCount} voided`
+      )
+      setPreview(null)
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to commit charge run')
+    } finally {
+      setIsCommitting(false)
+    }
+  }
+
+  const handleRollback = async () => {
+    if (!rollbackTarget) return
+    try {
+      await rollbackRun(rollbackTarget.id)
+      toast.success('Charge run rolled back')
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to roll back charge run')
+    } finally {
+      setRollbackTarget(null)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Play className="h-5 w-5" />
+            Charge Run
+          </CardTitle>
+          <CardDescription>
+            Preview generated charges against what is already billed, then commit the differences
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="space-y-2">
+              <Label>Billing Period</Label>
+              <Select value={periodId} onValueChange={setPeriodId}>
+                <SelectTrigger className="w-[260px]">
+                  <SelectValue placeholder="Select billing period" />
+                </SelectTrigger>
+                <SelectContent>
+                  {(periods || []).map(period => (
+                    <SelectItem key={period.id} value={period.id}>
+                      {format(new Date(period.startDate), 'MMM dd')} -{' '}
+                      {format(new Date(period.endDate), 'MMM dd, yyyy')} ({period.status})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center gap-4 pb-2">
+              {Object.values(ChargeRunSource).map(source => (
+                <div key={source} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`charge-run-${source}`}
+                    checked={sources.includes(source)}
+                    onCheckedChange={(checked) => toggleSource(source, checked === true)}
+                  />
+                  <Label htmlFor={`charge-run-${source}`}>{sourceLabels[source]}</Label>
+                </div>
+              ))}
+            </div>
+            <Button
+              variant="outline"
+              onClick={handlePreview}
+              disabled={!periodId || sources.length === 0 || isPreviewing}
+            >
+              {isPreviewing ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Eye className="h-4 w-4 mr-2" />
+              )}
+              Preview
+            </Button>
+          </div>
+
+          {preview && (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+                <SummaryTile label="Added" value={preview.summary.added} />
+                <SummaryTile label="Changed" value={preview.summary.changed} />
+                <SummaryTile label="Voided" value={preview.summary.voided} />
+                <SummaryTile label="Unchanged" value={preview.summary.unchanged} />
+                <SummaryTile label="Net Change" value={formatDelta(preview.summary.totalDelta)} />
+              </div>
+
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id="charge-run-unchanged"
+                    checked={showUnchanged}
+                    onCheckedChange={setShowUnchanged}
+                  />
+                  <Label htmlFor="charge-run-unchanged">Show unchanged charges</Label>
+                </div>
+                <Button onClick={handleCommit} disabled={!hasChanges || isCommitting}>
+                  {isCommitting ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <CheckCircle className="h-4 w-4 mr-2" />
+                  )}
+                  Commit Run
+                </Button>
+              </div>
+
+              {visibleItems.length > 0 ? (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Action</TableHead>
+                      <TableHead>Staff</TableHead>
+                      <TableHead>Description</TableHead>
+                      <TableHead className="text-right">Current</TableHead>
+                      <TableHead className="text-right">Proposed</TableHead>
+                      <TableHead className="text-right">Delta</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {visibleItems.map(item => (
+                      <TableRow key={`${item.action}:${item.existing?.id ?? item.key}`}>
+                        <TableCell>
+                          <Badge className={actionConfig[item.action].className}>
+                            {actionConfig[item.action].label}
+                          </Badge>
+                          {item.adjustment && (
+                            <div className="text-xs text-muted-foreground mt-1">
+                              by {adjustmentTypeLabels[item.adjustment.type]}
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell className="font-mono text-xs">{item.staffId}</TableCell>
+                        <TableCell className="text-sm">
+                          {item.proposed?.description ?? item.existing?.description}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {item.existing ? currency.format(item.existing.netAmount) : '—'}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {item.proposed
+                            ? currency.format(
+                                effectiveAmount(item.proposed.amount, item.proposed.prorationFactor)
+                              )
+                            : '—'}
+                        </TableCell>
+                        <TableCell className="text-right font-medium">
+                          {formatDelta(item.delta)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              ) : (
+                <div className="text-center py-8">
+                  <CheckCircle className="h-8 w-8 text-green-600 mx-auto mb-2" />
+                  <p className="text-sm text-muted-foreground">
+                    Stored charges already match the generated charges
+                  </p>
+                </div>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {periodId && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <History className="h-5 w-5" />
+              Run History
+            </CardTitle>
+            <CardDescription>
+              Only the latest committed run for a period can be rolled back
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex items-center justify-center py-8">
+                <LoadingSpinner />
+              </div>
+            ) : runs && runs.length > 0 ? (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Committed</TableHead>
+                    <TableHead>Sources</TableHead>
+                    <TableHead className="text-right">Added</TableHead>
+                    <TableHead className="text-right">Changed</TableHead>
+                    <TableHead className="text-right">Voided</TableHead>
+                    <TableHead className="text-right">Net Change</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {runs.map(run => (
+                    <TableRow key={run.id}>
+                      <TableCell className="text-sm">
+                        {format(run.committedAt, 'MMM dd, yyyy HH:mm')}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {run.sources.map(source => sourceLabels[source]).join(', ')}
+                      </TableCell>
+                      <TableCell className="text-right">{run.addedCount}</TableCell>
+                      <TableCell className="text-right">{run.changedCount}</TableCell>
+                      <TableCell className="text-right">{run.voidedCount}</TableCell>
+                      <TableCell className="text-right">{formatDelta(run.totalDelta)}</TableCell>
+                      <TableCell>
+                        <Badge variant={run.status === ChargeRunStatus.COMMITTED ? 'default' : 'outline'}>
+                          {run.status === ChargeRunStatus.COMMITTED ? 'Committed' : 'Rolled back'}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {run.id === latestCommitted?.id && (
+                          <Button variant="ghost" size="sm" onClick={() => setRollbackTarget(run)}>
+                            <RotateCcw className="h-4 w-4 mr-2" />
+                            Roll back
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            ) : (
+              <div className="text-center py-8">
+                <AlertCircle className="h-8 w-8 text-muted-foreground mx-auto mb-2" />
+                <p className="text-sm text-muted-foreground">No charge runs for this period yet</p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <AlertDialog open={!!rollbackTarget} onOpenChange={(open) => !open && setRollbackTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Roll back charge run?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Charges added by this run are removed, changed charges get their previous
+              amounts back and voided charges are restored.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleRollback}>Roll back</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
+
+function SummaryTile({ label, value }: { label: string; value: string | number }) {
+  return (
+    <div className="rounded-lg border p-3">
+      <p className="text-sm text-muted-foreground">{label}</p>
+      <p className="text-xl font-bold">{value}</p>
+    </div>
+  )
+}
@@ -0,0 +1,384 @@
+'use client'
+
+import { useState } from 'react'
+import { format } from 'date-fns'
+import { AlertTriangle, Calculator, Calendar, Loader2, Send } from 'lucide-react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Label } from '@/components/ui/label'
+import { useBillingPeriods, useCostAllocations } from '@/hooks/use-billing'
+import {
+  BillingStatus,
+  CostAllocationBasis,
+  CostAllocationStatus,
+  CostAllocationTarget,
+  CostSourceType,
+  type CostAllocationPreview,
+} from '@/lib/types/billing'
+
+interface CostAllocationProps {
+  billingPeriodId?: string
+}
+
+const basisLabels: Record<CostAllocationBasis, string> = {
+  [CostAllocationBasis.HEADCOUNT]: 'Headcount',
+  [CostAllocationBasis.USAGE]: 'Usage (bed-nights, distance)',
+}
+
+const targetLabels: Record<CostAllocationTarget, string> = {
+  [CostAllocationTarget.DEPARTMENT]: 'Department',
+  [CostAllocationTarget.COST_CENTER]: 'Cost centre',
+}
+
+const categoryLabels: Record<string, string> = {
+  rent: 'Rent',
+  utilities: 'Utilities',
+  maintenance: 'Maintenance',
+  insurance: 'Insurance',
+  other_expense: 'Services',
+  travel: 'Travel',
+}
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount)
+
+export function CostAllocation({ billingPeriodId }: CostAllocationProps) {
+  const [selectedPeriodId, setSelectedPeriodId] = useState(billingPeriodId || '')
+  const [basis, setBasis] = useState<CostAllocationBasis>(CostAllocationBasis.HEADCOUNT)
+  const [target, setTarget] = useState<CostAllocationTarget>(CostAllocationTarget.DEPARTMENT)
+  const [preview, setPreview] = useState<CostAllocationPreview | null>(null)
+  const [isPreviewing, setIsPreviewing] = useState(false)
+  const [isPosting, setIsPosting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const { periods } = useBillingPeriods()
+  const { allocations, previewAllocation, postAllocation } = useCostAllocations(
+    selectedPeriodId || undefined
+  )
+
+  // Corrections sub-periods are allocated with their main period
+  const allocatablePeriods = periods?.filter(p =>
+    !p.parentPeriodId &&
+    (p.status === BillingStatus.COMPLETED || p.status === BillingStatus.EXPORTED)
+  ) || []
+
+  const postedAllocation = allocations.find(a => a.status === CostAllocationStatus.POSTED)
+
+  const resetPreview = () => {
+    setPreview(null)
+    setError(null)
+  }
+
+  const handlePreview = async () => {
+    if (!selectedPeriodId) {
+      setError('Please select a billing period')
+      return
+    }
+
+    try {
+      setIsPreviewing(true)
+      setError(null)
+      setPreview(await previewAllocation(selectedPeriodId, basis, target))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to calculate the allocation')
+    } finally {
+      setIsPreviewing(false)
+    }
+  }
+
+  const handlePost = async () => {
+    if (!preview) return
+
+    try {
+      setIsPosting(true)
+      const created = await postAllocation(preview)
+      toast.success(`Posted ${created.entryCount} journal entries to finance`)
+      setPreview(null)
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to post the allocation')
+    } finally {
+      setIsPosting(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Calculator className="h-5 w-5" />
+          Cost Allocation
+        </CardTitle>
+        <CardDescription>
+          Housing and transport costs not recovered from staff, booked to departments as
+          finance expenses
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-4 md:grid-cols-3">
+          <div className="space-y-2">
+            <Label>Billing Period</Label>
+            <Select
+              value={selectedPeriodId}
+              onValueChange={(value) => {
+                setSelectedPeriodId(value)
+                resetPreview()
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Select period" />
+              </SelectTrigger>
+              <SelectContent>
+                {allocatablePeriods.map((period) => (
+                  <SelectItem key={period.id} value={period.id}>
+                    <div className="flex items-center gap-2">
+                      <Calendar className="h-4 w-4" />
+                      {format(new Date(period.startDate), 'MMM dd')} - {format(new Date(period.endDate), 'MMM dd, yyyy')}
+                    </div>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Split By</Label>
+            <Select
+              value={basis}
+              onValueChange={(value) => {
+                setBasis(value as CostAllocationBasis)
+                resetPreview()
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(basisLabels).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Book To</Label>
+            <Select
+              value={target}
+              onValueChange={(value) => {
+                setTarget(value as CostAllocationTarget)
+                resetPreview()
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(targetLabels).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {postedAllocation && (
+          <p className="text-sm text-muted-foreground">
+            {formatCurrency(postedAllocation.totalAllocated)} was posted for this period on{' '}
+            {format(postedAllocation.createdAt, 'MMM dd, yyyy')}. Posting again reverses those
+            transactions.
+          </p>
+        )}
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={handlePreview} disabled={!selectedPeriodId || isPreviewing}>
+            {isPreviewing && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Calculate
+          </Button>
+          <Button onClick={handlePost} disabled={!preview || preview.entries.length === 0 || isPosting}>
+            {isPosting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Send className="h-4 w-4 mr-2" />}
+            Post to Finance
+          </Button>
+        </div>
+
+        {preview && (
+          <div className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-4 text-sm">
+              <div>
+                <p className="text-muted-foreground">Total cost</p>
+                <p className="text-lg font-semibold">{formatCurrency(preview.summary.totalCost)}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Recovered from staff</p>
+                <p className="text-lg font-semibold">{formatCurrency(preview.summary.totalRecovered)}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">To allocate</p>
+                <p className="text-lg font-semibold">{formatCurrency(preview.summary.totalAllocated)}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Over-recovered</p>
+                <p className="text-lg font-semibold">{formatCurrency(preview.summary.overRecovered)}</p>
+              </div>
+            </div>
+
+            {preview.summary.unassigned > 0 && (
+              <Alert>
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>
+                  {formatCurrency(preview.summary.unassigned)} has no department to go to, because
+                  nobody used the source or their staff record has no department. It is posted as
+                  Unassigned.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <div>
+              <h4 className="font-medium mb-2">Journal Entries</h4>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{targetLabels[preview.target]}</TableHead>
+                    <TableHead>Category</TableHead>
+                    <TableHead>Description</TableHead>
+                    <TableHead className="text-right">Sources</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {preview.entries.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center text-muted-foreground">
+                        Staff charges covered every cost in this period
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    preview.entries.map((entry) => (
+                      <TableRow key={`${entry.key}-${entry.category}`}>
+                        <TableCell className="font-medium">{entry.key}</TableCell>
+                        <TableCell>{categoryLabels[entry.category] ?? entry.category}</TableCell>
+                        <TableCell className="text-sm text-muted-foreground">{entry.description}</TableCell>
+                        <TableCell className="text-right">{entry.sources}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(entry.amount)}</TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div>
+              <h4 className="font-medium mb-2">By Source</h4>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Source</TableHead>
+                    <TableHead>Category</TableHead>
+                    <TableHead className="text-right">Cost</TableHead>
+                    <TableHead className="text-right">Recovered</TableHead>
+                    <TableHead className="text-right">Allocated</TableHead>
+                    <TableHead>Shares</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {preview.lines.map((line) => (
+                    <TableRow key={`${line.sourceType}-${line.sourceId}-${line.category}`}>
+                      <TableCell>
+                        <div className="font-medium">{line.sourceName}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {line.sourceType === CostSourceType.PROPERTY ? 'Property' : 'Trip'}
+                        </div>
+                      </TableCell>
+                      <TableCell>{categoryLabels[line.category] ?? line.category}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(line.cost)}</TableCell>
+                      <TableCell className="text-right">
+                        {formatCurrency(line.recovered)}
+                        {line.overRecovered > 0 && (
+                          <Badge variant="secondary" className="ml-2">
+                            +{formatCurrency(line.overRecovered)}
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">{formatCurrency(line.remainder)}</TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {line.shares
+                          .map(share => `${share.key} ${formatCurrency(share.amount)}`)
+                          .join(', ')}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+
+        {allocations.length > 0 && (
+          <div>
+            <h4 className="font-medium mb-2">Posted Allocations</h4>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Posted</TableHead>
+                  <TableHead>Split By</TableHead>
+                  <TableHead>Book To</TableHead>
+                  <TableHead className="text-right">Entries</TableHead>
+                  <TableHead className="text-right">Allocated</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {allocations.map((allocation) => (
+                  <TableRow key={allocation.id}>
+                    <TableCell>{format(allocation.createdAt, 'MMM dd, yyyy HH:mm')}</TableCell>
+                    <TableCell>{basisLabels[allocation.basis]}</TableCell>
+                    <TableCell>{targetLabels[allocation.target]}</TableCell>
+                    <TableCell className="text-right">{allocation.entryCount}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(allocation.totalAllocated)}</TableCell>
+                    <TableCell>
+                      <Badge variant={allocation.status === CostAllocationStatus.POSTED ? 'default' : 'outline'}>
+                        {allocation.status === CostAllocationStatus.POSTED ? 'Posted' : 'Superseded'}
+                      </Badge>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
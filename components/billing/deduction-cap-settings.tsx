@@ -0,0 +1,337 @@
+'use client'
+
+import { useState } from 'react'
+import { format } from 'date-fns'
+import { CalendarIcon, Gauge, Loader2, Plus, Trash2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Calendar as CalendarComponent } from '@/components/ui/calendar'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { LoadingSpinner } from '@/components/shared'
+import { useStaff } from '@/hooks/use-auth'
+import { useDeductionCaps } from '@/hooks/use-billing'
+import { cn } from '@/lib/utils'
+import {
+  ChargeType,
+  DeductionCapType,
+  validateCreateDeductionCap,
+  type DeductionCap,
+} from '@/lib/types/billing'
+import { EmploymentStatus } from '@/lib/types/user'
+
+const ALL_STAFF = '__all__'
+const TOTAL = '__total__'
+
+const chargeTypeLabels: Record<ChargeType, string> = {
+  [ChargeType.RENT]: 'Rent',
+  [ChargeType.UTILITIES]: 'Utilities',
+  [ChargeType.TRANSPORT]: 'Transport',
+  [ChargeType.OTHER]: 'Other',
+}
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount)
+
+const describeLimit = (cap: DeductionCap) =>
+  cap.capType === DeductionCapType.PERCENT_OF_GROSS
+    ? `${cap.amount}% of gross pay`
+    : `${formatCurrency(cap.amount)} per paycheck`
+
+// Effective dates are UTC days; show them without shifting into local time
+const formatDay = (date: Date) =>
+  format(new Date(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()), 'MMM d, yyyy')
+
+function DatePicker({
+  value,
+  onChange,
+  placeholder,
+}: {
+  value?: Date
+  onChange: (date?: Date) => void
+  placeholder: string
+}) {
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          className={cn('w-full pl-3 text-left font-normal', !value && 'text-muted-foreground')}
+        >
+          {value ? format(value, 'PPP') : <span>{placeholder}</span>}
+          <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-auto p-0" align="start">
+        <CalendarComponent mode="single" selected={value} onSelect={onChange} initialFocus />
+      </PopoverContent>
+    </Popover>
+  )
+}
+
+export function DeductionCapSettings() {
+  const [staffId, setStaffId] = useState(ALL_STAFF)
+  const [chargeType, setChargeType] = useState<string>(TOTAL)
+  const [capType, setCapType] = useState<DeductionCapType>(DeductionCapType.FIXED)
+  const [amount, setAmount] = useState('')
+  const [effectiveFrom, setEffectiveFrom] = useState<Date | undefined>(new Date())
+  const [effectiveTo, setEffectiveTo] = useState<Date | undefined>()
+  const [notes, setNotes] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+
+  const { caps, isLoading, createCap, deleteCap } = useDeductionCaps()
+  const { staff } = useStaff({ employmentStatus: EmploymentStatus.ACTIVE })
+
+  const staffName = (id?: string) => {
+    if (!id) return 'All staff'
+    const member = staff?.find(s => s.id === id)
+    return member ? `${member.firstName} ${member.lastName}` : 'Unknown staff member'
+  }
+
+  const resetForm = () => {
+    setAmount('')
+    setEffectiveTo(undefined)
+    setNotes('')
+  }
+
+  const handleCreate = async () => {
+    if (amount === '') {
+      toast.error('Enter a cap amount')
+      return
+    }
+    if (!effectiveFrom) {
+      toast.error('Choose the date the cap takes effect')
+      return
+    }
+
+    const result = validateCreateDeductionCap({
+      staffId: staffId === ALL_STAFF ? undefined : staffId,
+      chargeType: chargeType === TOTAL ? undefined : chargeType,
+      capType,
+      amount: Number(amount),
+      effectiveFrom,
+      effectiveTo,
+      notes: notes.trim() || undefined,
+    })
+
+    if (!result.success) {
+      toast.error(result.error.errors[0]?.message ?? 'Invalid cap')
+      return
+    }
+    if (effectiveTo && effectiveTo < effectiveFrom) {
+      toast.error('Effective end date must be on or after the start date')
+      return
+    }
+
+    try {
+      setIsSaving(true)
+      await createCap(result.data)
+      resetForm()
+      toast.success(`Added cap for ${staffName(result.data.staffId).toLowerCase()}`)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to add cap')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async (cap: DeductionCap) => {
+    try {
+      await deleteCap(cap.id)
+      toast.success('Deduction cap removed')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to remove cap')
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Gauge className="h-5 w-5" />
+            Deduction Caps
+          </CardTitle>
+          <CardDescription>
+            Limit how much one paycheck may deduct. Anything over a cap carries forward to the
+            next billing period as an outstanding balance.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label>Staff member</Label>
+              <Select value={staffId} onValueChange={setStaffId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_STAFF}>All staff (default)</SelectItem>
+                  {staff?.map(member => (
+                    <SelectItem key={member.id} value={member.id}>
+                      {member.firstName} {member.lastName} ({member.employeeId})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Applies to</Label>
+              <Select value={chargeType} onValueChange={setChargeType}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={TOTAL}>Total deductions</SelectItem>
+                  {Object.values(ChargeType).map(type => (
+                    <SelectItem key={type} value={type}>
+                      {chargeTypeLabels[type]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Cap type</Label>
+              <Select value={capType} onValueChange={(value) => setCapType(value as DeductionCapType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={DeductionCapType.FIXED}>Fixed amount</SelectItem>
+                  <SelectItem value={DeductionCapType.PERCENT_OF_GROSS}>Percent of gross pay</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>{capType === DeductionCapType.FIXED ? 'Amount per paycheck ($)' : 'Percent of gross pay'}</Label>
+              <Input
+                type="number"
+                min={0}
+                max={capType === DeductionCapType.PERCENT_OF_GROSS ? 100 : undefined}
+                step="0.01"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Effective from</Label>
+              <DatePicker value={effectiveFrom} onChange={setEffectiveFrom} placeholder="Pick a date" />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Effective to</Label>
+              <DatePicker value={effectiveTo} onChange={setEffectiveTo} placeholder="Open-ended" />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Notes</Label>
+            <Input
+              value={notes}
+              maxLength={500}
+              placeholder="Optional, e.g. hardship agreement"
+              onChange={(e) => setNotes(e.target.value)}
+            />
+          </div>
+
+          <div className="flex justify-end">
+            <Button onClick={handleCreate} disabled={isSaving}>
+              {isSaving ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Plus className="mr-2 h-4 w-4" />
+              )}
+              Add Cap
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Configured Caps</CardTitle>
+          <CardDescription>
+            A staff member&apos;s own cap replaces the default for the same charge type
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <LoadingSpinner />
+          ) : caps.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No caps configured. Payroll deducts every charge in full.
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Staff</TableHead>
+                  <TableHead>Applies to</TableHead>
+                  <TableHead>Limit</TableHead>
+                  <TableHead>Effective</TableHead>
+                  <TableHead>Notes</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {caps.map(cap => (
+                  <TableRow key={cap.id}>
+                    <TableCell>
+                      {cap.staffId ? staffName(cap.staffId) : <Badge variant="outline">Default</Badge>}
+                    </TableCell>
+                    <TableCell>{cap.chargeType ? chargeTypeLabels[cap.chargeType] : 'Total'}</TableCell>
+                    <TableCell>{describeLimit(cap)}</TableCell>
+                    <TableCell>
+                      {formatDay(cap.effectiveFrom)}
+                      {' – '}
+                      {cap.effectiveTo ? formatDay(cap.effectiveTo) : 'ongoing'}
+                    </TableCell>
+                    <TableCell className="max-w-xs truncate">{cap.notes ?? ''}</TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="sm" onClick={() => handleDelete(cap)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,650 @@
+'use client'
+
+import { useState } from 'react'
+import { format, formatDistanceToNow } from 'date-fns'
+import {
+  CheckCircle,
+  Eye,
+  FileText,
+  Loader2,
+  Lock,
+  MessageSquare,
+  Paperclip,
+  Scale,
+  Search,
+  Send,
+  Upload,
+  UserCheck,
+} from 'lucide-react'
+import { toast } from 'sonner'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Separator } from '@/components/ui/separator'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { FileUpload, LoadingSpinner } from '@/components/shared'
+import { useAuth, useUserProfiles } from '@/hooks/use-auth'
+import { useDisputeQueue } from '@/hooks/use-billing'
+import { isDisputeOpen } from '@/lib/billing/disputes'
+import { cn } from '@/lib/utils'
+import {
+  DisputeResolution,
+  DisputeStatus,
+  DisputeType,
+  validateResolveBillingDispute,
+  type BillingDisputeWithDetails,
+} from '@/lib/types/billing'
+import { PERMISSIONS, getFullName, hasPermission } from '@/lib/types/user'
+
+const OPEN = 'open'
+const ALL = 'all'
+const UNASSIGNED = '__unassigned__'
+
+const statusLabels: Record<DisputeStatus, string> = {
+  [DisputeStatus.SUBMITTED]: 'Submitted',
+  [DisputeStatus.UNDER_REVIEW]: 'Under review',
+  [DisputeStatus.INVESTIGATING]: 'Investigating',
+  [DisputeStatus.RESOLVED]: 'Resolved',
+}
+
+const typeLabels: Record<DisputeType, string> = {
+  [DisputeType.INCORRECT_AMOUNT]: 'Incorrect amount',
+  [DisputeType.UNAUTHORIZED_CHARGE]: 'Unauthorized charge',
+  [DisputeType.BILLING_ERROR]: 'Billing error',
+  [DisputeType.PRORATION_ERROR]: 'Proration error',
+  [DisputeType.OTHER]: 'Other',
+}
+
+const resolutionLabels: Record<DisputeResolution, string> = {
+  [DisputeResolution.FULL_CREDIT]: 'Full credit',
+  [DisputeResolution.PARTIAL_CREDIT]: 'Partial credit',
+  [DisputeResolution.CHARGE_CONFIRMED]: 'Charge confirmed',
+}
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount)
+
+const staffName = (dispute: BillingDisputeWithDetails) =>
+  dispute.staff ? `${dispute.staff.firstName} ${dispute.staff.lastName}` : 'Unknown staff'
+
+function ResolveForm({
+  dispute,
+  resolveDispute,
+}: {
+  dispute: BillingDisputeWithDetails
+  resolveDispute: ReturnType<typeof useDisputeQueue>['resolveDispute']
+}) {
+  const [resolution, setResolution] = useState<DisputeResolution>(DisputeResolution.PARTIAL_CREDIT)
+  const [creditAmount, setCreditAmount] = useState(
+    dispute.expectedAmount !== undefined
+      ? Math.max(dispute.charge.amount - dispute.expectedAmount, 0).toFixed(2)
+      : ''
+  )
+  const [notes, setNotes] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+
+  const handleResolve = async () => {
+    if (resolution === DisputeResolution.PARTIAL_CREDIT && creditAmount === '') {
+      toast.error('Enter the amount to credit')
+      return
+    }
+
+    const result = validateResolveBillingDispute({
+      resolution,
+      creditAmount:
+        resolution === DisputeResolution.PARTIAL_CREDIT ? Number(creditAmount) : undefined,
+      notes: notes.trim(),
+    })
+
+    if (!result.success) {
+      toast.error(result.error.errors[0]?.message ?? 'Invalid resolution')
+      return
+    }
+
+    try {
+      setIsSaving(true)
+      const { credit, needsCorrections } = await resolveDispute(dispute.id, result.data)
+      toast.success(
+        credit > 0
+          ? `${formatCurrency(credit)} credited to ${staffName(dispute)}`
+          : 'Charge confirmed and released to payroll'
+      )
+      if (needsCorrections) {
+        toast.info('This period has already been exported; run an incremental export to send the change to payroll')
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to resolve dispute')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label>Resolution</Label>
+          <Select value={resolution} onValueChange={(value) => setResolution(value as DisputeResolution)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.values(DisputeResolution).map(value => (
+                <SelectItem key={value} value={value}>
+                  {resolutionLabels[value]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {resolution === DisputeResolution.PARTIAL_CREDIT && (
+          <div className="space-y-2">
+            <Label>Credit ($)</Label>
+            <Input
+              type="number"
+              min={0}
+              step="0.01"
+              value={creditAmount}
+              onChange={(e) => setCreditAmount(e.target.value)}
+            />
+          </div>
+        )}
+      </div>
+      <div className="space-y-2">
+        <Label>Decision</Label>
+        <Textarea
+          value={notes}
+          maxLength={1000}
+          placeholder="Explain the decision; the staff member sees this"
+          onChange={(e) => setNotes(e.target.value)}
+        />
+      </div>
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-xs text-muted-foreground">
+          Resolving releases the charge. Credits are taken off it in the next export of its period.
+        </p>
+        <Button onClick={handleResolve} disabled={isSaving}>
+          {isSaving ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <CheckCircle className="mr-2 h-4 w-4" />
+          )}
+          Resolve Dispute
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+function DisputeReview({
+  dispute,
+  reviewers,
+  queue,
+}: {
+  dispute: BillingDisputeWithDetails
+  reviewers: { userId: string; name: string }[]
+  queue: ReturnType<typeof useDisputeQueue>
+}) {
+  const { user } = useAuth()
+  const [comment, setComment] = useState('')
+  const [internal, setInternal] = useState(true)
+  const [files, setFiles] = useState<File[]>([])
+  const [uploadKey, setUploadKey] = useState(0)
+  const [isSaving, setIsSaving] = useState(false)
+  const open = isDisputeOpen(dispute.status)
+
+  const run = async (action: () => Promise<unknown>, success?: string) => {
+    try {
+      setIsSaving(true)
+      await action()
+      if (success) toast.success(success)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Something went wrong')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const reviewerName = (userId?: string) =>
+    reviewers.find(reviewer => reviewer.userId === userId)?.name ?? (userId ? 'Reviewer' : 'Unassigned')
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle>{dispute.subject}</CardTitle>
+            <CardDescription>
+              {staffName(dispute)} &middot; {typeLabels[dispute.type]} &middot; raised {format(dispute.createdAt, 'PPP')}
+            </CardDescription>
+          </div>
+          <Badge variant={open ? 'secondary' : 'outline'}>{statusLabels[dispute.status]}</Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 text-sm">
+          <div>
+            <p className="font-medium text-muted-foreground">Charge</p>
+            <p className="font-semibold">{formatCurrency(dispute.charge.amount)}</p>
+            <p className="text-xs text-muted-foreground">{dispute.charge.description}</p>
+          </div>
+          <div>
+            <p className="font-medium text-muted-foreground">Expected</p>
+            <p>{dispute.expectedAmount !== undefined ? formatCurrency(dispute.expectedAmount) : 'Not given'}</p>
+          </div>
+          <div>
+            <p className="font-medium text-muted-foreground">Billing Period</p>
+            <p>
+              {dispute.charge.periodStart
+                ? `${format(dispute.charge.periodStart, 'MMM d')} - ${format(dispute.charge.periodEnd ?? dispute.charge.periodStart, 'MMM d, yyyy')}`
+                : 'Unknown'}
+            </p>
+            {dispute.charge.periodStatus && (
+              <p className="text-xs text-muted-foreground capitalize">{dispute.charge.periodStatus}</p>
+            )}
+          </div>
+          <div>
+            <p className="font-medium text-muted-foreground">Reviewer</p>
+            <p>{reviewerName(dispute.assignedTo)}</p>
+          </div>
+        </div>
+
+        <p className="text-sm bg-muted p-3 rounded-md">{dispute.description}</p>
+
+        {open && (
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="space-y-2 w-64">
+              <Label>Assign to</Label>
+              <Select
+                value={dispute.assignedTo ?? UNASSIGNED}
+                onValueChange={(value) =>
+                  value !== UNASSIGNED &&
+                  run(() => queue.assignReviewer(dispute.id, value), 'Reviewer assigned')
+                }
+                disabled={isSaving}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={UNASSIGNED} disabled>
+                    Unassigned
+                  </SelectItem>
+                  {reviewers.map(reviewer => (
+                    <SelectItem key={reviewer.userId} value={reviewer.userId}>
+                      {reviewer.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {user && dispute.assignedTo !== user.id && (
+              <Button
+                variant="outline"
+                className="gap-2"
+                disabled={isSaving}
+                onClick={() => run(() => queue.assignReviewer(dispute.id, user.id), 'Dispute assigned to you')}
+              >
+                <UserCheck className="h-4 w-4" />
+                Assign to Me
+              </Button>
+            )}
+            {dispute.status === DisputeStatus.UNDER_REVIEW && (
+              <Button
+                variant="outline"
+                disabled={isSaving}
+                onClick={() => run(() => queue.moveDispute(dispute.id, DisputeStatus.INVESTIGATING))}
+              >
+                Start Investigating
+              </Button>
+            )}
+            {dispute.status === DisputeStatus.INVESTIGATING && (
+              <Button
+                variant="outline"
+                disabled={isSaving}
+                onClick={() => run(() => queue.moveDispute(dispute.id, DisputeStatus.UNDER_REVIEW))}
+              >
+                Back to Review
+              </Button>
+            )}
+          </div>
+        )}
+
+        <Separator />
+
+        <div className="space-y-2">
+          <p className="text-sm font-medium flex items-center gap-1">
+            <Paperclip className="h-4 w-4" />
+            Evidence ({dispute.evidence.length})
+          </p>
+          {dispute.evidence.map(evidence => (
+            <div key={evidence.id} className="flex items-center justify-between rounded-md border p-2">
+              <div className="flex items-center gap-2 text-sm">
+                <FileText className="h-4 w-4 text-muted-foreground" />
+                <span>{evidence.fileName}</span>
+                <span className="text-xs text-muted-foreground">
+                  {Math.ceil(evidence.fileSize / 1024)} KB &middot; {format(evidence.createdAt, 'PP')}
+                </span>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() =>
+                  run(async () => window.open(await queue.getEvidenceUrl(evidence), '_blank'))
+                }
+              >
+                <Eye className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          {open && (
+            <div className="space-y-2">
+              <FileUpload key={uploadKey} multiple maxFiles={5} onFilesChange={setFiles} />
+              {files.length > 0 && (
+                <Button
+                  size="sm"
+                  className="gap-2"
+                  disabled={isSaving}
+                  onClick={() =>
+                    run(async () => {
+                      await queue.addEvidence(dispute.id, files)
+                      setFiles([])
+                      setUploadKey(key => key + 1)
+                    }, 'Evidence attached')
+                  }
+                >
+                  <Upload className="h-4 w-4" />
+                  Attach {files.length} File{files.length === 1 ? '' : 's'}
+                </Button>
+              )}
+            </div>
+          )}
+        </div>
+
+        <Separator />
+
+        <div className="space-y-2">
+          <p className="text-sm font-medium flex items-center gap-1">
+            <MessageSquare className="h-4 w-4" />
+            Comments
+          </p>
+          {dispute.comments.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No comments yet.</p>
+          ) : (
+            dispute.comments.map(entry => (
+              <div
+                key={entry.id}
+                className={cn(
+                  'p-3 rounded-md text-sm',
+                  entry.internal ? 'bg-yellow-50 border border-yellow-200' : 'bg-muted'
+                )}
+              >
+                <p>{entry.body}</p>
+                <p className="text-xs text-muted-foreground mt-1 flex items-center gap-1">
+                  {entry.internal && <Lock className="h-3 w-3" />}
+                  {entry.authorId === dispute.createdBy ? staffName(dispute) : reviewerName(entry.authorId)} &middot; {format(entry.createdAt, 'PPp')}
+                </p>
+              </div>
+            ))
+          )}
+          {open && (
+            <div className="space-y-2">
+              <Textarea
+                value={comment}
+                placeholder="Reply to the staff member or leave a note for other reviewers"
+                onChange={(e) => setComment(e.target.value)}
+              />
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id={`internal-${dispute.id}`}
+                    checked={internal}
+                    onCheckedChange={(checked) => setInternal(checked === true)}
+                  />
+                  <Label htmlFor={`internal-${dispute.id}`} className="text-sm font-normal">
+                    Internal note (hidden from the staff member)
+                  </Label>
+                </div>
+                <Button
+                  size="sm"
+                  className="gap-2"
+                  disabled={isSaving || !comment.trim()}
+                  onClick={() =>
+                    run(async () => {
+                      await queue.addComment(dispute.id, comment, internal)
+                      setComment('')
+                    })
+                  }
+                >
+                  <Send className="h-4 w-4" />
+                  Post
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <Separator />
+
+        {open ? (
+          <ResolveForm key={dispute.id} dispute={dispute} resolveDispute={queue.resolveDispute} />
+        ) : (
+          <div className="bg-green-50 border border-green-200 p-3 rounded-md text-sm space-y-1">
+            <p className="font-medium">
+              {dispute.resolution && resolutionLabels[dispute.resolution]}
+              {dispute.creditAmount > 0 && ` - ${formatCurrency(dispute.creditAmount)}`}
+            </p>
+            {dispute.resolutionNotes && <p>{dispute.resolutionNotes}</p>}
+            {dispute.resolvedAt && (
+              <p className="text-xs text-muted-foreground">
+                Resolved by {reviewerName(dispute.resolvedBy)} on {format(dispute.resolvedAt, 'PPP')}
+              </p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+export function DisputeQueue() {
+  const { user } = useAuth()
+  const [statusFilter, setStatusFilter] = useState<string>(OPEN)
+  const [mineOnly, setMineOnly] = useState(false)
+  const [search, setSearch] = useState('')
+  const [selectedId, setSelectedId] = useState<string>()
+
+  const queue = useDisputeQueue({
+    status: statusFilter === ALL ? undefined : (statusFilter as DisputeStatus | typeof OPEN),
+    assignedTo: mineOnly ? user?.id : undefined,
+  })
+  const { disputes, isLoading } = queue
+  const { profiles } = useUserProfiles()
+
+  // Anyone who may update billing can review disputes
+  const reviewers = (profiles || [])
+    .filter(profile => hasPermission(profile.role, PERMISSIONS.BILLING_UPDATE))
+    .map(profile => ({
+      userId: profile.userId,
+      name: profile.staff ? getFullName(profile.staff) : profile.role,
+    }))
+
+  const filtered = disputes.filter(dispute => {
+    if (!search) return true
+    const term = search.toLowerCase()
+    return (
+      staffName(dispute).toLowerCase().includes(term) ||
+      dispute.subject.toLowerCase().includes(term) ||
+      (dispute.staff?.employeeId ?? '').toLowerCase().includes(term)
+    )
+  })
+  const selected = disputes.find(dispute => dispute.id === selectedId)
+
+  const openDisputes = disputes.filter(dispute => isDisputeOpen(dispute.status))
+  const heldAmount = openDisputes.reduce((sum, dispute) => sum + dispute.charge.amount, 0)
+  const credited = disputes.reduce((sum, dispute) => sum + dispute.creditAmount, 0)
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-sm font-medium text-muted-foreground">Open Disputes</p>
+            <p className="text-2xl font-bold">{openDisputes.length}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-sm font-medium text-muted-foreground">Unassigned</p>
+            <p className="text-2xl font-bold">{openDisputes.filter(dispute => !dispute.assignedTo).length}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-sm font-medium text-muted-foreground">Held From Payroll</p>
+            <p className="text-2xl font-bold">{formatCurrency(heldAmount)}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-sm font-medium text-muted-foreground">Credited</p>
+            <p className="text-2xl font-bold">{formatCurrency(credited)}</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Scale className="h-5 w-5" />
+            Dispute Queue
+          </CardTitle>
+          <CardDescription>
+            Disputed charges are held out of payroll exports until they are resolved here.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap items-center gap-4">
+            <div className="relative flex-1 min-w-[200px]">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search staff or subject..."
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                className="pl-10"
+              />
+            </div>
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={OPEN}>Open</SelectItem>
+                <SelectItem value={ALL}>All statuses</SelectItem>
+                {Object.values(DisputeStatus).map(status => (
+                  <SelectItem key={status} value={status}>
+                    {statusLabels[status]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="mine-only"
+                checked={mineOnly}
+                onCheckedChange={(checked) => setMineOnly(checked === true)}
+              />
+              <Label htmlFor="mine-only" className="text-sm font-normal">
+                Assigned to me
+              </Label>
+            </div>
+          </div>
+
+          {isLoading ? (
+            <LoadingSpinner />
+          ) : filtered.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No disputes match these filters.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Staff</TableHead>
+                  <TableHead>Dispute</TableHead>
+                  <TableHead className="text-right">Charge</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Reviewer</TableHead>
+                  <TableHead>Raised</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filtered.map(dispute => (
+                  <TableRow
+                    key={dispute.id}
+                    className={cn('cursor-pointer', dispute.id === selectedId && 'bg-muted')}
+                    onClick={() => setSelectedId(dispute.id)}
+                  >
+                    <TableCell>
+                      {staffName(dispute)}
+                      {dispute.staff && (
+                        <span className="text-muted-foreground"> ({dispute.staff.employeeId})</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <div className="font-medium">{dispute.subject}</div>
+                      <div className="text-xs text-muted-foreground">{typeLabels[dispute.type]}</div>
+                    </TableCell>
+                    <TableCell className="text-right">{formatCurrency(dispute.charge.amount)}</TableCell>
+                    <TableCell>
+                      <Badge variant={isDisputeOpen(dispute.status) ? 'secondary' : 'outline'}>
+                        {statusLabels[dispute.status]}
+                      </Badge>
+                      {dispute.resolution && (
+                        <div className="text-xs text-muted-foreground mt-1">
+                          {resolutionLabels[dispute.resolution]}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {dispute.assignedTo
+                        ? reviewers.find(reviewer => reviewer.userId === dispute.assignedTo)?.name ?? 'Reviewer'
+                        : <span className="text-muted-foreground">Unassigned</span>}
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {formatDistanceToNow(dispute.createdAt, { addSuffix: true })}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {selected && <DisputeReview dispute={selected} reviewers={reviewers} queue={queue} />}
+    </div>
+  )
+}
@@ -1,6 +1,6 @@
 'use client'
 
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import { format } from 'date-fns'
 import { 
   Eye,
@@ -52,10 +52,23 @@ import {
 import { Alert, AlertDescription } from '@/components/ui/alert'
 import { Progress } from '@/components/ui/progress'
 import { usePayrollExport } from '@/hooks/use-billing'
-import { ChargeType, type PayrollExportData } from '@/lib/types/billing'
+import { getFormatAdapter } from '@/lib/billing/formats'
+import {
+  MinimumWageAction,
+  PayrollFormat,
+  type MinimumWageDecision,
+  type MinimumWageMode,
+  type PayrollExportData,
+  type PayrollExportType,
+  type PayrollFile,
+} from '@/lib/types/billing'
 
 interface ExportPreviewProps {
   billingPeriodId: string
+  exportType?: PayrollExportType
+  payrollFormat?: PayrollFormat
+  companyCode?: string
+  minimumWageMode?: MinimumWageMode
   exportSettings?: {
     format: string
     includeDetails: boolean
@@ -67,71 +80,35 @@ interface ExportPreviewProps {
   onCancel?: () => void
 }
 
-// Mock export data - in real implementation, this would come from the API
-const generateMockExportData = (includeZeroAmounts: boolean = false): PayrollExportData[] => {
-  const baseData = [
-    {
-      employeeId: 'EMP001',
-      firstName: 'John',
-      lastName: 'Doe',
-      totalDeductions: 850.00,
-      rentCharges: 600.00,
-      utilityCharges: 150.00,
-      transportCharges: 100.00,
-      otherCharges: 0.00,
-      billingPeriod: 'March 2024'
-    },
-    {
-      employeeId: 'EMP002',
-      firstName: 'Jane',
-      lastName: 'Smith',
-      totalDeductions: 720.00,
-      rentCharges: 550.00,
-      utilityCharges: 120.00,
-      transportCharges: 50.00,
-      otherCharges: 0.00,
-      billingPeriod: 'March 2024'
-    },
-    {
-      employeeId: 'EMP003',
-      firstName: 'Mike',
-      lastName: 'Johnson',
-      totalDeductions: 950.00,
-      rentCharges: 700.00,
-      utilityCharges: 180.00,
-      transportCharges: 70.00,
-      otherCharges: 0.00,
-      billingPeriod: 'March 2024'
-    },
-    {
-      employeeId: 'EMP004',
-      firstName: 'Sarah',
-      lastName: 'Wilson',
-      totalDeductions: 0.00,
-      rentCharges: 0.00,
-      utilityCharges: 0.00,
-      transportCharges: 0.00,
-      otherCharges: 0.00,
-      billingPeriod: 'March 2024'
-    },
-    {
-      employeeId: 'EMP005',
-      firstName: 'David',
-      lastName: 'Brown',
-      totalDeductions: 1200.00,
-      rentCharges: 800.00,
-      utilityCharges: 200.00,
-      transportCharges: 150.00,
-      otherCharges: 50.00,
-      billingPeriod: 'March 2024'
-    }
-  ]
+const MAX_PREVIEW_BYTES = 64 * 1024
+
+const wageActionConfig: Partial<Record<MinimumWageAction, { label: string; variant: 'secondary' | 'destructive' | 'outline' }>> = {
+  [MinimumWageAction.CAPPED]: { label: 'Capped', variant: 'secondary' },
+  [MinimumWageAction.FLAGGED]: { label: 'Below minimum wage', variant: 'destructive' },
+  [MinimumWageAction.NO_HOURS]: { label: 'No hours on file', variant: 'outline' },
+}
 
-  return includeZeroAmounts ? baseData : baseData.filter(item => item.totalDeductions > 0)
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount)
+
+// Offset, hex bytes and printable characters, 16 bytes per line
+function hexDump(bytes: Uint8Array): string {
+  const lines: string[] = []
+  for (let offset = 0; offset < bytes.length; offset += 16) {
+    const chunk = Array.from(bytes.slice(offset, offset + 16))
+    const hex = chunk.map(b => b.toString(16).padStart(2, '0')).join(' ')
+    const text = chunk.map(b => (b >= 32 && b < 127 ? String.fromCharCode(b) : '.')).join('')
+    lines.push(`${offset.toString(16).padStart(8, '0')}  ${hex.padEnd(47)}  ${text}`)
+  }
+  return lines.join('\n')
 }
 
 export function ExportPreview({ 
   billingPeriodId, 
+  exportType,
+  payrollFormat = PayrollFormat.STANDARD_CSV,
+  companyCode,
+  minimumWageMode,
   exportSettings,
   onConfirmExport, 
   onCancel 
@@ -140,9 +117,58 @@ export function ExportPreview({
   const [sortBy, setSortBy] = useState<'name' | 'total' | 'employeeId'>('name')
   const [showValidationDetails, setShowValidationDetails] = useState(false)
   
-  const { isLoading } = usePayrollExport(billingPeriodId)
+  const [exportData, setExportData] = useState<PayrollExportData[]>([])
+  const [file, setFile] = useState<PayrollFile | null>(null)
+  const [wageDecisions, setWageDecisions] = useState<MinimumWageDecision[]>([])
+  const [staffNames, setStaffNames] = useState<Map<string, string>>(new Map())
+  const [heldCharges, setHeldCharges] = useState(0)
+  const [unapprovedCharges, setUnapprovedCharges] = useState(0)
+  const [previewError, setPreviewError] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
   
-  const exportData = generateMockExportData(exportSettings?.includeZeroAmounts)
+  const { previewExport } = usePayrollExport(billingPeriodId)
+  const adapter = getFormatAdapter(payrollFormat)
+
+  useEffect(() => {
+    let cancelled = false
+    setIsLoading(true)
+    setPreviewError(null)
+
+    previewExport(billingPeriodId, { exportType, format: payrollFormat, companyCode, minimumWageMode })
+      .then(result => {
+        if (cancelled) return
+        setExportData(
+          exportSettings?.includeZeroAmounts
+            ? result.rows
+            : result.rows.filter(item => item.totalDeductions !== 0)
+        )
+        setFile(result.file)
+        setWageDecisions(result.wageDecisions.filter(decision => decision.action !== MinimumWageAction.OK))
+        setStaffNames(new Map(
+          Array.from(result.staff.entries()).map(([id, info]) => [id, `${info.firstName} ${info.lastName}`])
+        ))
+        setHeldCharges(result.heldCharges)
+        setUnapprovedCharges(result.unapprovedCharges)
+      })
+      .catch(error => {
+        if (!cancelled) setPreviewError(error.message)
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [billingPeriodId, exportType, payrollFormat, companyCode, minimumWageMode, exportSettings?.includeZeroAmounts, previewExport])
+
+  // Text formats are shown as-is; binary ones as a hex dump
+  const previewBytes = file ? file.bytes.slice(0, MAX_PREVIEW_BYTES) : new Uint8Array()
+  const fileContent = !file
+    ? ''
+    : adapter.binary
+      ? hexDump(previewBytes)
+      : new TextDecoder().decode(previewBytes)
   
   // Filter and sort data
   const filteredData = exportData
@@ -175,6 +201,8 @@ export function ExportPreview({
   const totalUtilities = filteredData.reduce((sum, item) => sum + item.utilityCharges, 0)
   const totalTransport = filteredData.reduce((sum, item) => sum + item.transportCharges, 0)
   const totalOther = filteredData.reduce((sum, item) => sum + item.otherCharges, 0)
+  // Imputed income is an earning, so it is shown but not part of the deductions
+  const hasImputedIncome = filteredData.some(item => item.imputedIncome)
   const averageDeduction = totalStaff > 0 ? totalDeductions / totalStaff : 0
 
   // Validation checks
@@ -190,6 +218,41 @@ export function ExportPreview({
     })
   }
   
+  const flaggedWageCount = wageDecisions.filter(d => d.action === MinimumWageAction.FLAGGED).length
+  const missingHoursCount = wageDecisions.filter(d => d.action === MinimumWageAction.NO_HOURS).length
+
+  if (flaggedWageCount > 0) {
+    validationIssues.push({
+      type: 'warning',
+      message: `${flaggedWageCount} staff members would be paid below minimum wage`,
+      suggestion: 'Switch minimum wage protection to capping, or review these deductions before export'
+    })
+  }
+
+  if (missingHoursCount > 0) {
+    validationIssues.push({
+      type: 'info',
+      message: `${missingHoursCount} staff members have no hours on file for this period`,
+      suggestion: 'Import hours from ADP or upload an hours file so their deductions can be checked'
+    })
+  }
+
+  if (unapprovedCharges > 0) {
+    validationIssues.push({
+      type: 'warning',
+      message: `${unapprovedCharges} charges are awaiting approval and are held out of this export`,
+      suggestion: 'Approve them in the charge approval queue first; charges approved after this export go out with the period\'s next incremental export'
+    })
+  }
+
+  if (heldCharges > 0) {
+    validationIssues.push({
+      type: 'info',
+      message: `${heldCharges} disputed charges are held out of this export`,
+      suggestion: 'They will be picked up by the next export of this period once their disputes are resolved'
+    })
+  }
+
   if (highAmountCount > 0) {
     validationIssues.push({
       type: 'info',
@@ -208,6 +271,15 @@ export function ExportPreview({
     )
   }
 
+  if (previewError) {
+    return (
+      <Alert variant="destructive">
+        <AlertCircle className="h-4 w-4" />
+        <AlertDescription>{previewError}</AlertDescription>
+      </Alert>
+    )
+  }
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -225,7 +297,8 @@ export function ExportPreview({
             </Button>
           )}
           <Button 
-            onClick={() => onConfirmExport?.(filteredData)}
+            onClick={() => onConfirmExport?.(exportData)}
+            disabled={exportData.length === 0}
             className="gap-2"
           >
             <Download className="h-4 w-4" />
@@ -358,6 +431,59 @@ export function ExportPreview({
         </Card>
       )}
 
+      {/* Minimum Wage Decisions */}
+      {wageDecisions.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Minimum Wage Check</CardTitle>
+            <CardDescription>
+              Paychecks where deductions were capped, would breach minimum wage, or could not be checked
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Employee</TableHead>
+                    <TableHead>Result</TableHead>
+                    <TableHead className="text-right">Hours</TableHead>
+                    <TableHead className="text-right">Gross Pay</TableHead>
+                    <TableHead className="text-right">Minimum Wage</TableHead>
+                    <TableHead className="text-right">Requested</TableHead>
+                    <TableHead className="text-right">Deducted</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {wageDecisions.map(decision => {
+                    const config = wageActionConfig[decision.action]
+                    return (
+                      <TableRow key={decision.staffId}>
+                        <TableCell>{staffNames.get(decision.staffId) ?? decision.staffId}</TableCell>
+                        <TableCell>
+                          {config && <Badge variant={config.variant}>{config.label}</Badge>}
+                        </TableCell>
+                        <TableCell className="text-right">{decision.hoursWorked ?? '—'}</TableCell>
+                        <TableCell className="text-right">
+                          {decision.grossPay !== undefined ? formatCurrency(decision.grossPay) : '—'}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {decision.minimumWage !== undefined
+                            ? `${formatCurrency(decision.minimumWage)}/h (${decision.jurisdiction})`
+                            : '—'}
+                        </TableCell>
+                        <TableCell className="text-right">{formatCurrency(decision.requested)}</TableCell>
+                        <TableCell className="text-right font-medium">{formatCurrency(decision.deducted)}</TableCell>
+                      </TableRow>
+                    )
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Filters and Controls */}
       <Card>
         <CardHeader>
@@ -402,6 +528,9 @@ export function ExportPreview({
                   <TableHead className="text-right">Transport</TableHead>
                   <TableHead className="text-right">Other</TableHead>
                   <TableHead className="text-right">Total Deductions</TableHead>
+                  {hasImputedIncome && (
+                    <TableHead className="text-right">Imputed Income</TableHead>
+                  )}
                 </TableRow>
               </TableHeader>
               <TableBody>
@@ -444,6 +573,11 @@ export function ExportPreview({
                         </Badge>
                       )}
                     </TableCell>
+                    {hasImputedIncome && (
+                      <TableCell className="text-right text-muted-foreground">
+                        ${(item.imputedIncome ?? 0).toFixed(2)}
+                      </TableCell>
+                    )}
                   </TableRow>
                 ))}
               </TableBody>
@@ -462,6 +596,27 @@ export function ExportPreview({
         </CardContent>
       </Card>
 
+      {/* File Preview */}
+      {file && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <FileText className="h-5 w-5" />
+              File Preview
+            </CardTitle>
+            <CardDescription>
+              {file.fileName} · {adapter.label} · {file.bytes.length.toLocaleString()} bytes
+              {file.bytes.length > MAX_PREVIEW_BYTES && ' (first 64 KB shown)'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <pre className="max-h-96 overflow-auto rounded-md border bg-muted p-4 text-xs font-mono whitespace-pre">
+              {fileContent}
+            </pre>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Export Settings Summary */}
       {exportSettings && (
         <Card>
@@ -475,7 +630,7 @@ export function ExportPreview({
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <div className="space-y-2">
                 <p className="text-sm font-medium">Format</p>
-                <Badge variant="outline">{exportSettings.format.toUpperCase()}</Badge>
+                <Badge variant="outline">{adapter.label}</Badge>
               </div>
               <div className="space-y-2">
                 <p className="text-sm font-medium">Options</p>
@@ -0,0 +1,203 @@
+'use client'
+
+import { Fragment, useState } from 'react'
+import { format } from 'date-fns'
+import { AlertTriangle, ChevronDown, ChevronRight, Download, Receipt } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { LoadingSpinner } from '@/components/shared'
+import { useImputedIncomeReport } from '@/hooks/use-billing'
+import { toCsv } from '@/lib/billing/formats/shared'
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount)
+
+// Period dates are UTC calendar days
+const formatDay = (date: Date, pattern: string) =>
+  format(new Date(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()), pattern)
+
+// This year and the four before it
+const reportYears = Array.from({ length: 5 }, (_, i) => new Date().getFullYear() - i)
+
+export function ImputedIncomeReport() {
+  const [year, setYear] = useState(reportYears[0])
+  const [expanded, setExpanded] = useState<string | null>(null)
+
+  const { report, totals, isLoading, error } = useImputedIncomeReport(year)
+
+  const handleDownload = () => {
+    const csv = toCsv([
+      ['Employee ID', 'Name', 'Department', 'Fair Market Rent', 'Rent Charged', 'Imputed Income'],
+      ...report.map(entry => [
+        entry.employeeId ?? '',
+        entry.name,
+        entry.department ?? '',
+        entry.marketValue.toFixed(2),
+        entry.rentCharged.toFixed(2),
+        entry.imputedIncome.toFixed(2),
+      ]),
+    ])
+
+    const blob = new Blob([csv], { type: 'text/csv' })
+    const link = document.createElement('a')
+    link.href = URL.createObjectURL(blob)
+    link.download = `imputed-income-${year}.csv`
+    document.body.appendChild(link)
+    link.click()
+    document.body.removeChild(link)
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Receipt className="h-5 w-5" />
+              Imputed Income
+            </CardTitle>
+            <CardDescription>
+              Housing subsidy reported to payroll as taxable income, year to date. Periods count
+              towards the year they are paid in.
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Select value={String(year)} onValueChange={(value) => setYear(Number(value))}>
+              <SelectTrigger className="w-28">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {reportYears.map(option => (
+                  <SelectItem key={option} value={String(option)}>
+                    {option}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" className="gap-2" onClick={handleDownload} disabled={report.length === 0}>
+              <Download className="h-4 w-4" />
+              CSV
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error ? (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>Failed to load imputed income</AlertDescription>
+          </Alert>
+        ) : isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <LoadingSpinner />
+          </div>
+        ) : (
+          <>
+            <div className="grid gap-4 md:grid-cols-3 text-sm">
+              <div>
+                <p className="text-muted-foreground">Fair market rent</p>
+                <p className="text-lg font-semibold">{formatCurrency(totals.marketValue)}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Rent charged</p>
+                <p className="text-lg font-semibold">{formatCurrency(totals.rentCharged)}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Imputed income</p>
+                <p className="text-lg font-semibold">{formatCurrency(totals.imputedIncome)}</p>
+              </div>
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-8" />
+                  <TableHead>Staff Member</TableHead>
+                  <TableHead>Department</TableHead>
+                  <TableHead className="text-right">Periods</TableHead>
+                  <TableHead className="text-right">Fair Market Rent</TableHead>
+                  <TableHead className="text-right">Rent Charged</TableHead>
+                  <TableHead className="text-right">Imputed Income</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center text-muted-foreground">
+                      No imputed income was reported for {year}
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  report.map(entry => (
+                    <Fragment key={entry.staffId}>
+                      <TableRow
+                        className="cursor-pointer"
+                        onClick={() => setExpanded(expanded === entry.staffId ? null : entry.staffId)}
+                      >
+                        <TableCell>
+                          {expanded === entry.staffId ? (
+                            <ChevronDown className="h-4 w-4" />
+                          ) : (
+                            <ChevronRight className="h-4 w-4" />
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <div className="font-medium">{entry.name}</div>
+                          {entry.employeeId && (
+                            <div className="text-xs text-muted-foreground">{entry.employeeId}</div>
+                          )}
+                        </TableCell>
+                        <TableCell>{entry.department ?? '—'}</TableCell>
+                        <TableCell className="text-right">{entry.periods.length}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(entry.marketValue)}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(entry.rentCharged)}</TableCell>
+                        <TableCell className="text-right font-medium">
+                          {formatCurrency(entry.imputedIncome)}
+                        </TableCell>
+                      </TableRow>
+                      {expanded === entry.staffId &&
+                        entry.periods.map(period => (
+                          <TableRow key={period.billingPeriodId} className="bg-muted/50 text-sm">
+                            <TableCell />
+                            <TableCell colSpan={3} className="text-muted-foreground">
+                              {formatDay(period.startDate, 'MMM dd')} - {formatDay(period.endDate, 'MMM dd, yyyy')}
+                              {period.payDate && <> · paid {formatDay(period.payDate, 'MMM dd')}</>}
+                            </TableCell>
+                            <TableCell className="text-right">{formatCurrency(period.marketValue)}</TableCell>
+                            <TableCell className="text-right">{formatCurrency(period.rentCharged)}</TableCell>
+                            <TableCell className="text-right">{formatCurrency(period.imputedIncome)}</TableCell>
+                          </TableRow>
+                        ))}
+                    </Fragment>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
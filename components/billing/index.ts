@@ -5,15 +5,33 @@ export { BillingPeriodList } from "./billing-period-list";
 export { BillingPeriodForm } from "./billing-period-form";
 export { BillingPeriodDetails } from "./billing-period-details";
 export { BillingPeriodActions } from "./billing-period-actions";
+export { BillingCalendarGenerator } from "./billing-calendar-generator";
 
 // Charge Management Components
 export { ChargeCalculator } from "./charge-calculator";
 export { ChargeList } from "./charge-list";
 export { ChargeForm } from "./charge-form";
 export { ChargeBreakdown } from "./charge-breakdown";
+export { ChargeRunPreview } from "./charge-run-preview";
+export { UtilityBills } from "./utility-bills";
+export { RecurringCharges } from "./recurring-charges";
+export { ChargeApprovalQueue, ChargeApprovalRules } from "./charge-approvals";
+export { ChargeAdjustmentDialog } from "./charge-adjustments";
+export { ChargeImportWizard } from "./charge-import-wizard";
 
 // Payroll Export Components
 export { PayrollExport } from "./payroll-export";
 export { ExportPreview } from "./export-preview";
 export { ExportHistory } from "./export-history";
 export { ExportSettings } from "./export-settings";
+export { PayrollFormatMappingEditor } from "./payroll-format-mapping-editor";
+export { DeductionCapSettings } from "./deduction-cap-settings";
+export { MinimumWageSettings } from "./minimum-wage-settings";
+export { CostAllocation } from "./cost-allocation";
+export { ImputedIncomeReport } from "./imputed-income-report";
+
+// Staff Ledger Components
+export { StaffLedger } from "./staff-ledger";
+
+// Dispute Components
+export { DisputeQueue } from "./dispute-queue";
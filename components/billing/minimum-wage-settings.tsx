@@ -0,0 +1,416 @@
+'use client'
+
+import { useRef, useState } from 'react'
+import { format } from 'date-fns'
+import { CalendarIcon, Loader2, Plus, RefreshCw, Scale, Trash2, Upload } from 'lucide-react'
+import { toast } from 'sonner'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Calendar as CalendarComponent } from '@/components/ui/calendar'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { LoadingSpinner } from '@/components/shared'
+import { useBillingPeriods, useMinimumWageRates, usePayrollHours } from '@/hooks/use-billing'
+import { FEDERAL_JURISDICTION } from '@/lib/billing/minimum-wage'
+import { cn } from '@/lib/utils'
+import {
+  PayrollHoursSource,
+  validateCreateMinimumWageRate,
+  type MinimumWageRate,
+} from '@/lib/types/billing'
+
+const sourceLabels: Record<PayrollHoursSource, string> = {
+  [PayrollHoursSource.ADP]: 'ADP',
+  [PayrollHoursSource.UPLOAD]: 'Upload',
+  [PayrollHoursSource.MANUAL]: 'Manual',
+}
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount)
+
+// Effective and period dates are UTC days; show them without shifting into local time
+const formatDay = (date: Date) =>
+  format(new Date(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()), 'MMM d, yyyy')
+
+function DatePicker({
+  value,
+  onChange,
+  placeholder,
+}: {
+  value?: Date
+  onChange: (date?: Date) => void
+  placeholder: string
+}) {
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          className={cn('w-full pl-3 text-left font-normal', !value && 'text-muted-foreground')}
+        >
+          {value ? format(value, 'PPP') : <span>{placeholder}</span>}
+          <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-auto p-0" align="start">
+        <CalendarComponent mode="single" selected={value} onSelect={onChange} initialFocus />
+      </PopoverContent>
+    </Popover>
+  )
+}
+
+function MinimumWageRates() {
+  const [jurisdiction, setJurisdiction] = useState(FEDERAL_JURISDICTION)
+  const [hourlyRate, setHourlyRate] = useState('')
+  const [effectiveFrom, setEffectiveFrom] = useState<Date | undefined>(new Date())
+  const [effectiveTo, setEffectiveTo] = useState<Date | undefined>()
+  const [notes, setNotes] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+
+  const { rates, isLoading, createRate, deleteRate } = useMinimumWageRates()
+
+  const handleCreate = async () => {
+    if (hourlyRate === '') {
+      toast.error('Enter an hourly rate')
+      return
+    }
+    if (!effectiveFrom) {
+      toast.error('Choose the date the rate takes effect')
+      return
+    }
+
+    const result = validateCreateMinimumWageRate({
+      jurisdiction: jurisdiction.trim().toUpperCase(),
+      hourlyRate: Number(hourlyRate),
+      effectiveFrom,
+      effectiveTo,
+      notes: notes.trim() || undefined,
+    })
+
+    if (!result.success) {
+      toast.error(result.error.errors[0]?.message ?? 'Invalid rate')
+      return
+    }
+
+    try {
+      setIsSaving(true)
+      await createRate(result.data)
+      setHourlyRate('')
+      setEffectiveTo(undefined)
+      setNotes('')
+      toast.success(`Added ${result.data.jurisdiction} minimum wage`)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to add rate')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async (rate: MinimumWageRate) => {
+    try {
+      await deleteRate(rate.id)
+      toast.success('Minimum wage rate removed')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to remove rate')
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Scale className="h-5 w-5" />
+          Minimum Wage Rates
+        </CardTitle>
+        <CardDescription>
+          Federal and state hourly minimums. A worker is owed the higher of the federal rate and
+          the rate for their work state.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div className="space-y-2">
+            <Label>Jurisdiction</Label>
+            <Input
+              value={jurisdiction}
+              maxLength={2}
+              placeholder="US or state code"
+              onChange={(e) => setJurisdiction(e.target.value.toUpperCase())}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Hourly rate ($)</Label>
+            <Input
+              type="number"
+              min={0}
+              step="0.01"
+              value={hourlyRate}
+              onChange={(e) => setHourlyRate(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Effective from</Label>
+            <DatePicker value={effectiveFrom} onChange={setEffectiveFrom} placeholder="Pick a date" />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Effective to</Label>
+            <DatePicker value={effectiveTo} onChange={setEffectiveTo} placeholder="Open-ended" />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Notes</Label>
+          <Input
+            value={notes}
+            maxLength={500}
+            placeholder="Optional, e.g. statute reference"
+            onChange={(e) => setNotes(e.target.value)}
+          />
+        </div>
+
+        <div className="flex justify-end">
+          <Button onClick={handleCreate} disabled={isSaving}>
+            {isSaving ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Plus className="mr-2 h-4 w-4" />
+            )}
+            Add Rate
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <LoadingSpinner />
+        ) : rates.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No rates configured. Deductions are not checked against minimum wage.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Jurisdiction</TableHead>
+                <TableHead className="text-right">Hourly Rate</TableHead>
+                <TableHead>Effective</TableHead>
+                <TableHead>Notes</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rates.map(rate => (
+                <TableRow key={rate.id}>
+                  <TableCell>
+                    {rate.jurisdiction === FEDERAL_JURISDICTION ? (
+                      <Badge variant="outline">Federal</Badge>
+                    ) : (
+                      rate.jurisdiction
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">{formatCurrency(rate.hourlyRate)}</TableCell>
+                  <TableCell>
+                    {formatDay(rate.effectiveFrom)}
+                    {' – '}
+                    {rate.effectiveTo ? formatDay(rate.effectiveTo) : 'ongoing'}
+                  </TableCell>
+                  <TableCell className="max-w-xs truncate">{rate.notes ?? ''}</TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="ghost" size="sm" onClick={() => handleDelete(rate)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+function PayrollHoursImport() {
+  const [periodId, setPeriodId] = useState<string>()
+  const [isImporting, setIsImporting] = useState(false)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const { periods } = useBillingPeriods()
+  const { hours, isLoading, importFromADP, importFile } = usePayrollHours(periodId)
+
+  // Hours belong to the paycheck, so corrections sub-periods share their parent's
+  const rootPeriods = periods?.filter(period => !period.parentPeriodId) || []
+
+  const handleImportFromADP = async () => {
+    try {
+      setIsImporting(true)
+      const { imported, failed } = await importFromADP()
+      if (failed.length > 0) {
+        toast.warning(`Imported hours for ${imported} staff; ${failed.length} failed`, {
+          description: failed.slice(0, 3).map(f => `${f.employeeId}: ${f.error}`).join('\n'),
+        })
+      } else {
+        toast.success(`Imported hours for ${imported} staff from ADP`)
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to import hours from ADP')
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  const handleFile = async (file?: File) => {
+    if (!file) return
+    try {
+      setIsImporting(true)
+      const { imported, errors } = await importFile(file)
+      if (errors.length > 0) {
+        toast.warning(`Imported hours for ${imported} staff; ${errors.length} rows skipped`, {
+          description: errors.slice(0, 3).join('\n'),
+        })
+      } else {
+        toast.success(`Imported hours for ${imported} staff`)
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to import the hours file')
+    } finally {
+      setIsImporting(false)
+      if (fileInputRef.current) fileInputRef.current.value = ''
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Hours and Gross Pay</CardTitle>
+        <CardDescription>
+          Hours worked and gross pay per paycheck, from ADP time and attendance or a CSV with
+          employee_id, hours_worked and gross_pay columns
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-col md:flex-row gap-4 md:items-end">
+          <div className="space-y-2 flex-1">
+            <Label>Billing period</Label>
+            <Select value={periodId} onValueChange={setPeriodId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a billing period" />
+              </SelectTrigger>
+              <SelectContent>
+                {rootPeriods.map(period => (
+                  <SelectItem key={period.id} value={period.id}>
+                    {formatDay(period.startDate)} – {formatDay(period.endDate)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <Button variant="outline" onClick={handleImportFromADP} disabled={!periodId || isImporting}>
+            {isImporting ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <RefreshCw className="mr-2 h-4 w-4" />
+            )}
+            Import from ADP
+          </Button>
+
+          <Button
+            variant="outline"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={!periodId || isImporting}
+          >
+            <Upload className="mr-2 h-4 w-4" />
+            Upload CSV
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,text/csv"
+            className="hidden"
+            onChange={(e) => handleFile(e.target.files?.[0])}
+          />
+        </div>
+
+        {!periodId ? (
+          <p className="text-sm text-muted-foreground">Select a billing period to see its hours.</p>
+        ) : isLoading ? (
+          <LoadingSpinner />
+        ) : hours.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No hours imported for this period. Staff without hours are exported unchecked.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Employee</TableHead>
+                <TableHead className="text-right">Hours</TableHead>
+                <TableHead className="text-right">Gross Pay</TableHead>
+                <TableHead className="text-right">Hourly Pay</TableHead>
+                <TableHead>Source</TableHead>
+                <TableHead>Imported</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {hours.map(entry => (
+                <TableRow key={entry.id}>
+                  <TableCell>
+                    {entry.staff.firstName} {entry.staff.lastName}
+                    <span className="text-muted-foreground"> ({entry.staff.employeeId})</span>
+                  </TableCell>
+                  <TableCell className="text-right">{entry.hoursWorked}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(entry.grossPay)}</TableCell>
+                  <TableCell className="text-right">
+                    {entry.hoursWorked > 0 ? formatCurrency(entry.grossPay / entry.hoursWorked) : '—'}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline">{sourceLabels[entry.source]}</Badge>
+                  </TableCell>
+                  <TableCell>{format(entry.importedAt, 'MMM d, yyyy h:mm a')}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+export function MinimumWageSettings() {
+  return (
+    <div className="space-y-6">
+      <MinimumWageRates />
+      <PayrollHoursImport />
+    </div>
+  )
+}
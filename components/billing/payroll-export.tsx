@@ -14,8 +14,10 @@ import {
   Settings,
   Eye,
   Loader2,
-  RefreshCw
+  RefreshCw,
+  Send
 } from 'lucide-react'
+import { toast } from 'sonner'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import {
@@ -36,7 +38,6 @@ import {
   Dialog,
   DialogContent,
   DialogDescription,
-  DialogFooter,
   DialogHeader,
   DialogTitle,
   DialogTrigger,
@@ -53,16 +54,36 @@ import { Progress } from '@/components/ui/progress'
 import { Alert, AlertDescription } from '@/components/ui/alert'
 import { Checkbox } from '@/components/ui/checkbox'
 import { Label } from '@/components/ui/label'
-import { useBillingPeriods, usePayrollExport } from '@/hooks/use-billing'
-import { BillingStatus, PayrollExportStatus, type BillingPeriod } from '@/lib/types/billing'
+import { Input } from '@/components/ui/input'
+import { useBillingPeriods, usePayrollExport, usePayrollFormatMappings } from '@/hooks/use-billing'
+import { DEFAULT_COMPANY_CODE, getFormatAdapter, PAYROLL_FORMAT_ADAPTERS } from '@/lib/billing/formats'
+import {
+  BillingStatus,
+  MinimumWageMode,
+  PayrollDeliveryStatus,
+  PayrollExportStatus,
+  PayrollExportType,
+  PayrollFormat,
+  PayrollRowStatus,
+  type BillingPeriod,
+  type PayrollExportWithDetails
+} from '@/lib/types/billing'
+import { ExportPreview } from './export-preview'
 
 interface PayrollExportProps {
   billingPeriodId?: string
   onExportComplete?: (exportData: any) => void
 }
 
+const deliveryConfig: Record<PayrollDeliveryStatus, { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline' }> = {
+  [PayrollDeliveryStatus.NOT_SENT]: { label: 'Not sent', variant: 'outline' },
+  [PayrollDeliveryStatus.DELIVERED]: { label: 'Delivered', variant: 'default' },
+  [PayrollDeliveryStatus.PARTIAL]: { label: 'Partial', variant: 'secondary' },
+  [PayrollDeliveryStatus.FAILED]: { label: 'Failed', variant: 'destructive' },
+}
+
 interface ExportSettings {
-  format: 'csv' | 'excel' | 'json'
+  format: PayrollFormat
   includeDetails: boolean
   includeMetadata: boolean
   groupByDepartment: boolean
@@ -72,7 +93,7 @@ interface ExportSettings {
 export function PayrollExport({ billingPeriodId, onExportComplete }: PayrollExportProps) {
   const [selectedPeriodId, setSelectedPeriodId] = useState(billingPeriodId || '')
   const [exportSettings, setExportSettings] = useState<ExportSettings>({
-    format: 'csv',
+    format: PayrollFormat.STANDARD_CSV,
     includeDetails: true,
     includeMetadata: false,
     groupByDepartment: false,
@@ -82,9 +103,16 @@ export function PayrollExport({ billingPeriodId, onExportComplete }: PayrollExpo
   const [exportProgress, setExportProgress] = useState(0)
   const [showPreview, setShowPreview] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [exportType, setExportType] = useState<PayrollExportType | 'auto'>('auto')
+  const [companyCode, setCompanyCode] = useState('')
+  const [minimumWageMode, setMinimumWageMode] = useState<MinimumWageMode>(MinimumWageMode.CAP)
 
   const { periods } = useBillingPeriods()
-  const { createExport, exports, isLoading: exportsLoading } = usePayrollExport(selectedPeriodId)
+  const [deliveringId, setDeliveringId] = useState<string | null>(null)
+  const [deliveryDetails, setDeliveryDetails] = useState<PayrollExportWithDetails | null>(null)
+  const { runExport, deliverToADP, retryFailedRows, exports, isLoading: exportsLoading } = usePayrollExport(selectedPeriodId)
+  const { mappings } = usePayrollFormatMappings(exportSettings.format)
+  const adapter = getFormatAdapter(exportSettings.format)
 
   // Filter periods that are ready for export
   const exportablePeriods = periods?.filter(p => 
@@ -94,42 +122,7 @@ export function PayrollExport({ billingPeriodId, onExportComplete }: PayrollExpo
   const selectedPeriod = periods?.find(p => p.id === selectedPeriodId)
   const periodExports = exports?.filter(e => e.billingPeriodId === selectedPeriodId) || []
 
-  // Mock export data for preview - in real implementation, this would come from the API
-  const mockExportData = [
-    {
-      employeeId: 'EMP001',
-      firstName: 'John',
-      lastName: 'Doe',
-      totalDeductions: 850.00,
-      rentCharges: 600.00,
-      utilityCharges: 150.00,
-      transportCharges: 100.00,
-      otherCharges: 0.00,
-      billingPeriod: selectedPeriod ? `${format(new Date(selectedPeriod.startDate), 'MMM yyyy')}` : ''
-    },
-    {
-      employeeId: 'EMP002',
-      firstName: 'Jane',
-      lastName: 'Smith',
-      totalDeductions: 720.00,
-      rentCharges: 550.00,
-      utilityCharges: 120.00,
-      transportCharges: 50.00,
-      otherCharges: 0.00,
-      billingPeriod: selectedPeriod ? `${format(new Date(selectedPeriod.startDate), 'MMM yyyy')}` : ''
-    },
-    {
-      employeeId: 'EMP003',
-      firstName: 'Mike',
-      lastName: 'Johnson',
-      totalDeductions: 950.00,
-      rentCharges: 700.00,
-      utilityCharges: 180.00,
-      transportCharges: 70.00,
-      otherCharges: 0.00,
-      billingPeriod: selectedPeriod ? `${format(new Date(selectedPeriod.startDate), 'MMM yyyy')}` : ''
-    }
-  ]
+  const latestExport = periodExports[0]
 
   const handleExport = async () => {
     if (!selectedPeriodId) {
@@ -156,23 +149,22 @@ export function PayrollExport({ billingPeriodId, onExportComplete }: PayrollExpo
         await new Promise(resolve => setTimeout(resolve, 800))
       }
 
-      const exportData = await createExport({
-        billingPeriodId: selectedPeriodId,
-        exportDate: new Date(),
-        fileName: `payroll-export-${selectedPeriodId}.${exportSettings.format}`,
-        recordCount: 0,
-        totalAmount: 0,
-        status: PayrollExportStatus.PENDING,
+      const { payrollExport, fileName, mimeType, bytes } = await runExport(selectedPeriodId, {
+        exportType: exportType === 'auto' ? undefined : exportType,
         format: exportSettings.format,
-        metadata: {
-          includeDetails: exportSettings.includeDetails,
-          includeMetadata: exportSettings.includeMetadata,
-          groupByDepartment: exportSettings.groupByDepartment,
-          includeZeroAmounts: exportSettings.includeZeroAmounts
-        }
+        companyCode: companyCode || undefined,
+        minimumWageMode
       })
 
-      onExportComplete?.(exportData)
+      const blob = new Blob([bytes], { type: mimeType })
+      const link = document.createElement('a')
+      link.href = URL.createObjectURL(blob)
+      link.download = fileName
+      document.body.appendChild(link)
+      link.click()
+      document.body.removeChild(link)
+
+      onExportComplete?.(payrollExport)
     } catch (err) {
       console.error('Export error:', err)
       setError(err instanceof Error ? err.message : 'Failed to export payroll data')
@@ -182,19 +174,35 @@ export function PayrollExport({ billingPeriodId, onExportComplete }: PayrollExpo
     }
   }
 
+  const handleDeliver = async (exportId: string, retryFailedOnly: boolean) => {
+    try {
+      setDeliveringId(exportId)
+      const summary = retryFailedOnly
+        ? await retryFailedRows(exportId)
+        : await deliverToADP(exportId)
+
+      if (summary.failed > 0) {
+        toast.warning(`${summary.submitted} of ${summary.attempted} rows sent to ADP; ${summary.failed} failed`)
+      } else {
+        toast.success(`${summary.submitted} rows sent to ADP`)
+      }
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to send the export to ADP')
+    } finally {
+      setDeliveringId(null)
+    }
+  }
+
   const handleDownloadExport = (exportId: string) => {
     // In real implementation, this would download the actual file
     const link = document.createElement('a')
     link.href = `/api/billing/export/${exportId}/download`
-    link.download = `payroll-export-${exportId}.${exportSettings.format}`
+    link.download = `payroll-export-${exportId}.${adapter.extension}`
     document.body.appendChild(link)
     link.click()
     document.body.removeChild(link)
   }
 
-  const totalStaff = mockExportData.length
-  const totalDeductions = mockExportData.reduce((sum, item) => sum + item.totalDeductions, 0)
-
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -249,22 +257,100 @@ export function PayrollExport({ billingPeriodId, onExportComplete }: PayrollExpo
             </Select>
           </div>
 
+          {/* Export Type */}
+          <div className="space-y-2">
+            <Label htmlFor="export-type">Export Type</Label>
+            <Select
+              value={exportType}
+              onValueChange={(value) => setExportType(value as PayrollExportType | 'auto')}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="auto">Automatic (full first, then deltas)</SelectItem>
+                <SelectItem value={PayrollExportType.FULL}>Full - every charge in the period</SelectItem>
+                <SelectItem value={PayrollExportType.INCREMENTAL}>Incremental - new charges and net changes</SelectItem>
+                <SelectItem value={PayrollExportType.CORRECTIONS}>Corrections - reversing and replacement lines</SelectItem>
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              Incremental and corrections exports only contain what changed since the last successful export
+            </p>
+          </div>
+
           {/* Export Format */}
           <div className="space-y-2">
             <Label htmlFor="export-format">Export Format</Label>
             <Select 
               value={exportSettings.format} 
-              onValueChange={(value) => setExportSettings(prev => ({ ...prev, format: value as any }))}
+              onValueChange={(value) => {
+                setExportSettings(prev => ({ ...prev, format: value as PayrollFormat }))
+                setCompanyCode('')
+              }}
             >
               <SelectTrigger>
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="csv">CSV (Comma Separated Values)</SelectItem>
-                <SelectItem value="excel">Excel Spreadsheet</SelectItem>
-                <SelectItem value="json">JSON (JavaScript Object Notation)</SelectItem>
+                {Object.values(PAYROLL_FORMAT_ADAPTERS).map((formatAdapter) => (
+                  <SelectItem key={formatAdapter.format} value={formatAdapter.format}>
+                    {formatAdapter.label} (.{formatAdapter.extension})
+                  </SelectItem>
+                ))}
               </SelectContent>
             </Select>
+            <p className="text-xs text-muted-foreground">{adapter.description}</p>
+          </div>
+
+          {/* Company Mapping */}
+          {adapter.configurable && (
+            <div className="space-y-2">
+              <Label htmlFor="company-code">Company Code</Label>
+              {mappings.length > 0 ? (
+                <Select
+                  value={companyCode || DEFAULT_COMPANY_CODE}
+                  onValueChange={(value) => setCompanyCode(value === DEFAULT_COMPANY_CODE ? '' : value)}
+                >
+                  <SelectTrigger id="company-code">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={DEFAULT_COMPANY_CODE}>Default layout</SelectItem>
+                    {mappings.map((mapping) => (
+                      <SelectItem key={mapping.id} value={mapping.companyCode}>
+                        {mapping.companyCode}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ) : (
+                <Input id="company-code" value={DEFAULT_COMPANY_CODE} disabled />
+              )}
+              <p className="text-xs text-muted-foreground">
+                Column layout and deduction codes come from the company&apos;s saved mapping
+              </p>
+            </div>
+          )}
+
+          {/* Minimum Wage */}
+          <div className="space-y-2">
+            <Label htmlFor="minimum-wage-mode">Minimum Wage Protection</Label>
+            <Select
+              value={minimumWageMode}
+              onValueChange={(value) => setMinimumWageMode(value as MinimumWageMode)}
+            >
+              <SelectTrigger id="minimum-wage-mode">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={MinimumWageMode.CAP}>Cap deductions at the minimum wage floor</SelectItem>
+                <SelectItem value={MinimumWageMode.FLAG}>Flag breaches only</SelectItem>
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              Capped amounts carry forward as an outstanding balance; every decision is saved with the export
+            </p>
           </div>
 
           {/* Export Options */}
@@ -349,70 +435,28 @@ export function PayrollExport({ billingPeriodId, onExportComplete }: PayrollExpo
                   Preview Data
                 </Button>
               </DialogTrigger>
-              <DialogContent className="max-w-4xl">
+              <DialogContent className="max-w-6xl max-h-[90vh] overflow-y-auto">
                 <DialogHeader>
                   <DialogTitle>Export Preview</DialogTitle>
                   <DialogDescription>
-                    Preview of the data that will be exported for payroll processing
+                    The data and the exact file that will be sent to payroll
                   </DialogDescription>
                 </DialogHeader>
-                <div className="space-y-4">
-                  {/* Summary */}
-                  <div className="grid grid-cols-3 gap-4">
-                    <div className="text-center">
-                      <p className="text-sm font-medium text-muted-foreground">Total Staff</p>
-                      <p className="text-2xl font-bold">{totalStaff}</p>
-                    </div>
-                    <div className="text-center">
-                      <p className="text-sm font-medium text-muted-foreground">Total Deductions</p>
-                      <p className="text-2xl font-bold">${totalDeductions.toLocaleString()}</p>
-                    </div>
-                    <div className="text-center">
-                      <p className="text-sm font-medium text-muted-foreground">Average per Staff</p>
-                      <p className="text-2xl font-bold">${(totalDeductions / totalStaff).toFixed(0)}</p>
-                    </div>
-                  </div>
-
-                  {/* Data Table */}
-                  <div className="max-h-96 overflow-auto">
-                    <Table>
-                      <TableHeader>
-                        <TableRow>
-                          <TableHead>Employee</TableHead>
-                          <TableHead className="text-right">Rent</TableHead>
-                          <TableHead className="text-right">Utilities</TableHead>
-                          <TableHead className="text-right">Transport</TableHead>
-                          <TableHead className="text-right">Other</TableHead>
-                          <TableHead className="text-right">Total</TableHead>
-                        </TableRow>
-                      </TableHeader>
-                      <TableBody>
-                        {mockExportData.map((item, index) => (
-                          <TableRow key={index}>
-                            <TableCell>
-                              <div>
-                                <p className="font-medium">{item.firstName} {item.lastName}</p>
-                                <p className="text-sm text-muted-foreground">{item.employeeId}</p>
-                              </div>
-                            </TableCell>
-                            <TableCell className="text-right">${item.rentCharges.toFixed(2)}</TableCell>
-                            <TableCell className="text-right">${item.utilityCharges.toFixed(2)}</TableCell>
-                            <TableCell className="text-right">${item.transportCharges.toFixed(2)}</TableCell>
-                            <TableCell className="text-right">${item.otherCharges.toFixed(2)}</TableCell>
-                            <TableCell className="text-right font-medium">
-                              ${item.totalDeductions.toFixed(2)}
-                            </TableCell>
-                          </TableRow>
-                        ))}
-                      </TableBody>
-                    </Table>
-                  </div>
-                </div>
-                <DialogFooter>
-                  <Button variant="outline" onClick={() => setShowPreview(false)}>
-                    Close
-                  </Button>
-                </DialogFooter>
+                {showPreview && (
+                  <ExportPreview
+                    billingPeriodId={selectedPeriodId}
+                    exportType={exportType === 'auto' ? undefined : exportType}
+                    payrollFormat={exportSettings.format}
+                    companyCode={companyCode || undefined}
+                    minimumWageMode={minimumWageMode}
+                    exportSettings={exportSettings}
+                    onCancel={() => setShowPreview(false)}
+                    onConfirmExport={() => {
+                      setShowPreview(false)
+                      handleExport()
+                    }}
+                  />
+                )}
               </DialogContent>
             </Dialog>
 
@@ -449,9 +493,11 @@ export function PayrollExport({ billingPeriodId, onExportComplete }: PayrollExpo
               <TableHeader>
                 <TableRow>
                   <TableHead>Export Date</TableHead>
+                  <TableHead>Type</TableHead>
                   <TableHead>Format</TableHead>
                   <TableHead>Status</TableHead>
                   <TableHead>Records</TableHead>
+                  <TableHead>ADP Delivery</TableHead>
                   <TableHead className="text-right">Actions</TableHead>
                 </TableRow>
               </TableHeader>
@@ -461,6 +507,9 @@ export function PayrollExport({ billingPeriodId, onExportComplete }: PayrollExpo
                     <TableCell>
                       {format(new Date(exportItem.createdAt), 'MMM dd, yyyy HH:mm')}
                     </TableCell>
+                    <TableCell className="capitalize">
+                      {exportItem.exportType ?? PayrollExportType.FULL}
+                    </TableCell>
                     <TableCell>
                       <Badge variant="outline">
                         {exportItem.format.toUpperCase()}
@@ -484,17 +533,73 @@ export function PayrollExport({ billingPeriodId, onExportComplete }: PayrollExpo
                       </Badge>
                     </TableCell>
                     <TableCell>{exportItem.recordCount || 0}</TableCell>
+                    <TableCell>
+                      {(() => {
+                        const delivery = exportItem.deliveryStatus ?? PayrollDeliveryStatus.NOT_SENT
+                        const failedRows = exportItem.rowResults?.filter(r => r.status === PayrollRowStatus.FAILED).length ?? 0
+                        return (
+                          <button
+                            type="button"
+                            className="flex items-center gap-2"
+                            disabled={!exportItem.rowResults?.length}
+                            onClick={() => setDeliveryDetails(exportItem)}
+                          >
+                            <Badge variant={deliveryConfig[delivery].variant}>
+                              {deliveryConfig[delivery].label}
+                            </Badge>
+                            {failedRows > 0 && (
+                              <span className="text-xs text-red-600">{failedRows} failed</span>
+                            )}
+                          </button>
+                        )
+                      })()}
+                    </TableCell>
                     <TableCell className="text-right">
                       {exportItem.status === PayrollExportStatus.COMPLETED && (
-                        <Button 
-                          variant="ghost" 
-                          size="sm"
-                          onClick={() => handleDownloadExport(exportItem.id)}
-                          className="gap-1"
-                        >
-                          <Download className="h-3 w-3" />
-                          Download
-                        </Button>
+                        <div className="flex justify-end gap-1">
+                          {(exportItem.deliveryStatus ?? PayrollDeliveryStatus.NOT_SENT) === PayrollDeliveryStatus.NOT_SENT && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleDeliver(exportItem.id, false)}
+                              disabled={deliveringId === exportItem.id}
+                              className="gap-1"
+                            >
+                              {deliveringId === exportItem.id ? (
+                                <Loader2 className="h-3 w-3 animate-spin" />
+                              ) : (
+                                <Send className="h-3 w-3" />
+                              )}
+                              Send to ADP
+                            </Button>
+                          )}
+                          {(exportItem.deliveryStatus === PayrollDeliveryStatus.PARTIAL ||
+                            exportItem.deliveryStatus === PayrollDeliveryStatus.FAILED) && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleDeliver(exportItem.id, true)}
+                              disabled={deliveringId === exportItem.id}
+                              className="gap-1"
+                            >
+                              {deliveringId === exportItem.id ? (
+                                <Loader2 className="h-3 w-3 animate-spin" />
+                              ) : (
+                                <RefreshCw className="h-3 w-3" />
+                              )}
+                              Retry Failed
+                            </Button>
+                          )}
+                          <Button 
+                            variant="ghost" 
+                            size="sm"
+                            onClick={() => handleDownloadExport(exportItem.id)}
+                            className="gap-1"
+                          >
+                            <Download className="h-3 w-3" />
+                            Download
+                          </Button>
+                        </div>
                       )}
                     </TableCell>
                   </TableRow>
@@ -505,6 +610,50 @@ export function PayrollExport({ billingPeriodId, onExportComplete }: PayrollExpo
         </Card>
       )}
 
+      {/* ADP Delivery Details */}
+      <Dialog open={!!deliveryDetails} onOpenChange={(open) => !open && setDeliveryDetails(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>ADP Delivery</DialogTitle>
+            <DialogDescription>
+              Result of the last attempt for each row of {deliveryDetails?.fileName}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="max-h-96 overflow-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Employee</TableHead>
+                  <TableHead>Line</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Attempts</TableHead>
+                  <TableHead>Detail</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {deliveryDetails?.rowResults?.map((result) => (
+                  <TableRow key={`${result.employeeId}:${result.lineType ?? ''}`}>
+                    <TableCell className="font-medium">{result.employeeId}</TableCell>
+                    <TableCell className="capitalize">{result.lineType ?? 'original'}</TableCell>
+                    <TableCell className="text-right">${result.amount.toFixed(2)}</TableCell>
+                    <TableCell>
+                      <Badge variant={result.status === PayrollRowStatus.SUBMITTED ? 'default' : 'destructive'}>
+                        {result.status}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>{result.attempts}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {result.error ?? result.eventId ?? ''}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </DialogContent>
+      </Dialog>
+
       {/* Summary Information */}
       {selectedPeriod && (
         <Card>
@@ -523,12 +672,12 @@ export function PayrollExport({ billingPeriodId, onExportComplete }: PayrollExpo
                 </p>
               </div>
               <div className="text-center">
-                <p className="text-sm font-medium text-muted-foreground">Staff Count</p>
-                <p className="text-xl font-bold">{totalStaff}</p>
+                <p className="text-sm font-medium text-muted-foreground">Last Export Records</p>
+                <p className="text-xl font-bold">{latestExport?.recordCount ?? 0}</p>
               </div>
               <div className="text-center">
-                <p className="text-sm font-medium text-muted-foreground">Total Deductions</p>
-                <p className="text-xl font-bold">${totalDeductions.toLocaleString()}</p>
+                <p className="text-sm font-medium text-muted-foreground">Last Export Amount</p>
+                <p className="text-xl font-bold">${(latestExport?.totalAmount ?? 0).toLocaleString()}</p>
               </div>
               <div className="text-center">
                 <p className="text-sm font-medium text-muted-foreground">Export Status</p>
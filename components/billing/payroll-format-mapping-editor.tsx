@@ -0,0 +1,445 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import {
+  ArrowDown,
+  ArrowUp,
+  Loader2,
+  Plus,
+  Save,
+  Settings,
+  Trash2,
+} from 'lucide-react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { LoadingSpinner } from '@/components/shared'
+import { usePayrollFormatMappings } from '@/hooks/use-billing'
+import {
+  DEFAULT_DEDUCTION_CODES,
+  DEFAULT_IMPUTED_INCOME_CODE,
+  getFormatAdapter,
+  PAYROLL_FORMAT_ADAPTERS,
+} from '@/lib/billing/formats'
+import {
+  ChargeType,
+  PayrollField,
+  PayrollFormat,
+  validateCreatePayrollFormatMapping,
+  type PayrollColumn,
+} from '@/lib/types/billing'
+
+const NEW_COMPANY = '__new__'
+
+const fieldLabels: Record<PayrollField, string> = {
+  [PayrollField.COMPANY_CODE]: 'Company code',
+  [PayrollField.BATCH_ID]: 'Batch ID',
+  [PayrollField.EMPLOYEE_ID]: 'Employee ID',
+  [PayrollField.FIRST_NAME]: 'First name',
+  [PayrollField.LAST_NAME]: 'Last name',
+  [PayrollField.DEDUCTION_CODE]: 'Deduction code',
+  [PayrollField.AMOUNT]: 'Amount',
+  [PayrollField.CHARGE_TYPE]: 'Charge type',
+  [PayrollField.RECORD_TYPE]: 'Deduction or earning',
+  [PayrollField.LINE_TYPE]: 'Line type',
+  [PayrollField.PERIOD_START]: 'Period start',
+  [PayrollField.PERIOD_END]: 'Period end',
+  [PayrollField.CONSTANT]: 'Constant value',
+}
+
+const chargeTypeLabels: Record<ChargeType, string> = {
+  [ChargeType.RENT]: 'Rent',
+  [ChargeType.UTILITIES]: 'Utilities',
+  [ChargeType.TRANSPORT]: 'Transport',
+  [ChargeType.OTHER]: 'Other',
+}
+
+const configurableAdapters = Object.values(PAYROLL_FORMAT_ADAPTERS).filter(
+  adapter => adapter.configurable
+)
+
+const isDateField = (field: PayrollField) =>
+  field === PayrollField.PERIOD_START || field === PayrollField.PERIOD_END
+
+export function PayrollFormatMappingEditor() {
+  const [payrollFormat, setPayrollFormat] = useState<PayrollFormat>(PayrollFormat.ADP_CSV)
+  const [selectedCompany, setSelectedCompany] = useState(NEW_COMPANY)
+  const [companyCode, setCompanyCode] = useState('')
+  const [batchId, setBatchId] = useState('')
+  const [columns, setColumns] = useState<PayrollColumn[]>([])
+  const [deductionCodes, setDeductionCodes] = useState<Record<ChargeType, string>>(DEFAULT_DEDUCTION_CODES)
+  const [imputedIncomeCode, setImputedIncomeCode] = useState(DEFAULT_IMPUTED_INCOME_CODE)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const { mappings, isLoading, saveMapping, deleteMapping } = usePayrollFormatMappings(payrollFormat)
+  const adapter = getFormatAdapter(payrollFormat)
+  const existing = mappings.find(mapping => mapping.companyCode === selectedCompany)
+
+  // Load the saved mapping, or the adapter defaults for a new company
+  useEffect(() => {
+    setCompanyCode(existing?.companyCode ?? '')
+    setBatchId(existing?.batchId ?? '')
+    setColumns(existing?.columns.length ? existing.columns : adapter.defaultColumns)
+    setDeductionCodes({ ...DEFAULT_DEDUCTION_CODES, ...existing?.deductionCodes })
+    setImputedIncomeCode(existing?.imputedIncomeCode ?? DEFAULT_IMPUTED_INCOME_CODE)
+  }, [existing, adapter])
+
+  const updateColumn = (index: number, changes: Partial<PayrollColumn>) => {
+    setColumns(prev => prev.map((column, i) => (i === index ? { ...column, ...changes } : column)))
+  }
+
+  const moveColumn = (index: number, offset: number) => {
+    setColumns(prev => {
+      const next = [...prev]
+      const [column] = next.splice(index, 1)
+      next.splice(index + offset, 0, column)
+      return next
+    })
+  }
+
+  const handleSave = async () => {
+    const result = validateCreatePayrollFormatMapping({
+      companyCode: companyCode.trim(),
+      format: payrollFormat,
+      columns,
+      deductionCodes,
+      imputedIncomeCode: imputedIncomeCode.trim() || undefined,
+      batchId: batchId.trim() || undefined,
+    })
+
+    if (!result.success) {
+      toast.error(result.error.errors[0]?.message ?? 'Invalid mapping')
+      return
+    }
+
+    try {
+      setIsSaving(true)
+      const saved = await saveMapping(result.data)
+      setSelectedCompany(saved.companyCode)
+      toast.success(`Saved ${adapter.label} mapping for ${saved.companyCode}`)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save mapping')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!existing) return
+
+    try {
+      await deleteMapping(existing.id)
+      setSelectedCompany(NEW_COMPANY)
+      toast.success(`Removed ${adapter.label} mapping for ${existing.companyCode}`)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to delete mapping')
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Settings className="h-5 w-5" />
+          Payroll File Mapping
+        </CardTitle>
+        <CardDescription>
+          Column layout and deduction codes each company&apos;s payroll system expects
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Format</Label>
+            <Select
+              value={payrollFormat}
+              onValueChange={(value) => {
+                setPayrollFormat(value as PayrollFormat)
+                setSelectedCompany(NEW_COMPANY)
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {configurableAdapters.map(formatAdapter => (
+                  <SelectItem key={formatAdapter.format} value={formatAdapter.format}>
+                    {formatAdapter.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Company</Label>
+            <Select value={selectedCompany} onValueChange={setSelectedCompany}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NEW_COMPANY}>New company mapping</SelectItem>
+                {mappings.map(mapping => (
+                  <SelectItem key={mapping.id} value={mapping.companyCode}>
+                    {mapping.companyCode}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="mapping-company-code">Company Code</Label>
+            <Input
+              id="mapping-company-code"
+              value={companyCode}
+              onChange={(e) => setCompanyCode(e.target.value.toUpperCase())}
+              disabled={!!existing}
+              placeholder="e.g. ACM"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="mapping-batch-id">Batch ID</Label>
+            <Input
+              id="mapping-batch-id"
+              value={batchId}
+              onChange={(e) => setBatchId(e.target.value)}
+              placeholder="Optional"
+            />
+          </div>
+        </div>
+
+        {isLoading ? (
+          <LoadingSpinner />
+        ) : (
+          <>
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Columns</Label>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="gap-1"
+                  onClick={() =>
+                    setColumns(prev => [...prev, { field: PayrollField.AMOUNT, header: 'Amount' }])
+                  }
+                >
+                  <Plus className="h-3 w-3" />
+                  Add Column
+                </Button>
+              </div>
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Header</TableHead>
+                      <TableHead>Field</TableHead>
+                      <TableHead>Format</TableHead>
+                      {payrollFormat === PayrollFormat.FIXED_WIDTH && (
+                        <>
+                          <TableHead>Width</TableHead>
+                          <TableHead>Align</TableHead>
+                        </>
+                      )}
+                      <TableHead className="text-right">Order</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {columns.map((column, index) => (
+                      <TableRow key={index}>
+                        <TableCell>
+                          <Input
+                            value={column.header}
+                            onChange={(e) => updateColumn(index, { header: e.target.value })}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Select
+                            value={column.field}
+                            onValueChange={(value) => updateColumn(index, { field: value as PayrollField })}
+                          >
+                            <SelectTrigger className="w-[160px]">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {Object.values(PayrollField).map(field => (
+                                <SelectItem key={field} value={field}>
+                                  {fieldLabels[field]}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                        <TableCell>
+                          {column.field === PayrollField.CONSTANT ? (
+                            <Input
+                              value={column.value ?? ''}
+                              onChange={(e) => updateColumn(index, { value: e.target.value })}
+                              placeholder="Value"
+                            />
+                          ) : isDateField(column.field) ? (
+                            <Select
+                              value={column.dateFormat ?? 'iso'}
+                              onValueChange={(value) =>
+                                updateColumn(index, { dateFormat: value as PayrollColumn['dateFormat'] })
+                              }
+                            >
+                              <SelectTrigger className="w-[140px]">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="iso">YYYY-MM-DD</SelectItem>
+                                <SelectItem value="us">MM/DD/YYYY</SelectItem>
+                                <SelectItem value="compact">YYYYMMDD</SelectItem>
+                              </SelectContent>
+                            </Select>
+                          ) : (
+                            <span className="text-sm text-muted-foreground">—</span>
+                          )}
+                        </TableCell>
+                        {payrollFormat === PayrollFormat.FIXED_WIDTH && (
+                          <>
+                            <TableCell>
+                              <Input
+                                type="number"
+                                min={1}
+                                className="w-20"
+                                value={column.width ?? ''}
+                                onChange={(e) =>
+                                  updateColumn(index, {
+                                    width: e.target.value ? Number(e.target.value) : undefined,
+                                  })
+                                }
+                              />
+                            </TableCell>
+                            <TableCell>
+                              <Select
+                                value={column.align ?? 'left'}
+                                onValueChange={(value) =>
+                                  updateColumn(index, { align: value as PayrollColumn['align'] })
+                                }
+                              >
+                                <SelectTrigger className="w-[100px]">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  <SelectItem value="left">Left</SelectItem>
+                                  <SelectItem value="right">Right</SelectItem>
+                                </SelectContent>
+                              </Select>
+                            </TableCell>
+                          </>
+                        )}
+                        <TableCell className="text-right whitespace-nowrap">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            disabled={index === 0}
+                            onClick={() => moveColumn(index, -1)}
+                          >
+                            <ArrowUp className="h-3 w-3" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            disabled={index === columns.length - 1}
+                            onClick={() => moveColumn(index, 1)}
+                          >
+                            <ArrowDown className="h-3 w-3" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setColumns(prev => prev.filter((_, i) => i !== index))}
+                          >
+                            <Trash2 className="h-3 w-3" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Deduction Codes</Label>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                {Object.values(ChargeType).map(chargeType => (
+                  <div key={chargeType} className="space-y-1">
+                    <Label htmlFor={`code-${chargeType}`} className="text-sm text-muted-foreground">
+                      {chargeTypeLabels[chargeType]}
+                    </Label>
+                    <Input
+                      id={`code-${chargeType}`}
+                      value={deductionCodes[chargeType]}
+                      onChange={(e) =>
+                        setDeductionCodes(prev => ({ ...prev, [chargeType]: e.target.value }))
+                      }
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="imputed-income-code">Imputed Income Earnings Code</Label>
+              <Input
+                id="imputed-income-code"
+                className="max-w-[200px]"
+                value={imputedIncomeCode}
+                onChange={(e) => setImputedIncomeCode(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">
+                Housing charged below fair market rent is sent as a taxable earning under this code
+              </p>
+            </div>
+          </>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <Button
+            variant="outline"
+            onClick={() => setColumns(adapter.defaultColumns)}
+          >
+            Reset Columns
+          </Button>
+          {existing && (
+            <Button variant="outline" className="gap-2" onClick={handleDelete}>
+              <Trash2 className="h-4 w-4" />
+              Delete
+            </Button>
+          )}
+          <Button className="gap-2" onClick={handleSave} disabled={isSaving}>
+            {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+            Save Mapping
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
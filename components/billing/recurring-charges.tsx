@@ -0,0 +1,467 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { format } from 'date-fns'
+import { AlertCircle, Loader2, Pencil, Plus, Repeat, Trash2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { DatePicker, LoadingSpinner } from '@/components/shared'
+import { useStaff } from '@/hooks/use-auth'
+import { useRecurringCharges } from '@/hooks/use-billing'
+import { fromLocalDate } from '@/lib/dates'
+import {
+  RecurringChargeCategory,
+  RecurringChargeFrequency,
+  RecurringChargeScope,
+  validateCreateRecurringCharge,
+  type RecurringCharge,
+} from '@/lib/types/billing'
+import { EmploymentStatus } from '@/lib/types/user'
+
+const recurringCategoryLabels: Record<RecurringChargeCategory, string> = {
+  [RecurringChargeCategory.MEAL_PLAN]: 'Meal plan',
+  [RecurringChargeCategory.PARKING]: 'Parking',
+  [RecurringChargeCategory.EQUIPMENT_RENTAL]: 'Equipment rental',
+  [RecurringChargeCategory.OTHER]: 'Other',
+}
+
+const recurringFrequencyLabels: Record<RecurringChargeFrequency, string> = {
+  [RecurringChargeFrequency.PER_PERIOD]: 'per billing period',
+  [RecurringChargeFrequency.WEEKLY]: 'per week',
+  [RecurringChargeFrequency.MONTHLY]: 'per month',
+}
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount)
+
+// Schedule dates are UTC days; show and edit them without shifting into local time
+const toLocalDay = (date: Date) =>
+  new Date(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+
+const formatDay = (date: Date) => format(toLocalDay(date), 'MMM d, yyyy')
+
+interface RecurringChargeFormProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  charge?: RecurringCharge
+}
+
+function RecurringChargeForm({ open, onOpenChange, charge }: RecurringChargeFormProps) {
+  const { staff } = useStaff({ employmentStatus: EmploymentStatus.ACTIVE })
+  const { createRecurringCharge, updateRecurringCharge } = useRecurringCharges()
+  const [name, setName] = useState('')
+  const [category, setCategory] = useState<RecurringChargeCategory>(
+    RecurringChargeCategory.MEAL_PLAN
+  )
+  const [scope, setScope] = useState<RecurringChargeScope>(RecurringChargeScope.STAFF)
+  const [staffId, setStaffId] = useState<string | undefined>()
+  const [department, setDepartment] = useState('')
+  const [amount, setAmount] = useState('')
+  const [frequency, setFrequency] = useState<RecurringChargeFrequency>(
+    RecurringChargeFrequency.PER_PERIOD
+  )
+  const [startDate, setStartDate] = useState<Date | undefined>()
+  const [endDate, setEndDate] = useState<Date | undefined>()
+  const [prorate, setProrate] = useState(true)
+  const [isActive, setIsActive] = useState(true)
+  const [notes, setNotes] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    if (open) {
+      setName(charge?.name ?? '')
+      setCategory(charge?.category ?? RecurringChargeCategory.MEAL_PLAN)
+      setScope(charge?.scope ?? RecurringChargeScope.STAFF)
+      setStaffId(charge?.staffId)
+      setDepartment(charge?.department ?? '')
+      setAmount(charge?.amount.toString() ?? '')
+      setFrequency(charge?.frequency ?? RecurringChargeFrequency.PER_PERIOD)
+      setStartDate(charge ? toLocalDay(charge.startDate) : undefined)
+      setEndDate(charge?.endDate ? toLocalDay(charge.endDate) : undefined)
+      setProrate(charge?.prorate ?? true)
+      setIsActive(charge?.isActive ?? true)
+      setNotes(charge?.notes ?? '')
+    }
+  }, [open, charge])
+
+  const handleSave = async () => {
+    if (!startDate) {
+      toast.error('Choose the first day the charge applies')
+      return
+    }
+
+    const result = validateCreateRecurringCharge({
+      name: name.trim(),
+      category,
+      scope,
+      staffId: scope === RecurringChargeScope.STAFF ? staffId : undefined,
+      department:
+        scope === RecurringChargeScope.DEPARTMENT ? department.trim() || undefined : undefined,
+      amount: amount === '' ? undefined : Number(amount),
+      frequency,
+      startDate: fromLocalDate(startDate),
+      endDate: endDate ? fromLocalDate(endDate) : undefined,
+      prorate,
+      isActive,
+      notes: notes.trim() || undefined,
+    })
+
+    if (!result.success) {
+      toast.error(result.error.errors[0]?.message ?? 'Invalid recurring charge')
+      return
+    }
+
+    try {
+      setIsSaving(true)
+      if (charge) {
+        const { name, category, amount, frequency, startDate, endDate, prorate, isActive, notes } =
+          result.data
+        await updateRecurringCharge(charge.id, {
+          name,
+          category,
+          amount,
+          frequency,
+          startDate,
+          endDate: endDate ?? null,
+          prorate,
+          isActive,
+          notes,
+        })
+      } else {
+        await createRecurringCharge(result.data)
+      }
+      toast.success('Recurring charge saved; it is charged from the next charge run')
+      onOpenChange(false)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save recurring charge')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{charge ? 'Edit Recurring Charge' : 'New Recurring Charge'}</DialogTitle>
+          <DialogDescription>
+            Every charge run adds this charge to each billing period it is active in, for the
+            staff member or every active member of the department.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Name</Label>
+              <Input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. Canteen meal plan"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Category</Label>
+              <Select
+                value={category}
+                onValueChange={(value) => setCategory(value as RecurringChargeCategory)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(recurringCategoryLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Applies to</Label>
+              <Select
+                value={scope}
+                onValueChange={(value) => setScope(value as RecurringChargeScope)}
+                disabled={!!charge}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={RecurringChargeScope.STAFF}>Staff member</SelectItem>
+                  <SelectItem value={RecurringChargeScope.DEPARTMENT}>Department</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {scope === RecurringChargeScope.STAFF ? (
+              <div className="space-y-2">
+                <Label>Staff member</Label>
+                <Select value={staffId} onValueChange={setStaffId} disabled={!!charge}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select staff member" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {staff?.map(member => (
+                      <SelectItem key={member.id} value={member.id}>
+                        {member.firstName} {member.lastName}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <Label>Department</Label>
+                <Input
+                  value={department}
+                  onChange={(e) => setDepartment(e.target.value)}
+                  disabled={!!charge}
+                />
+              </div>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Amount (USD)</Label>
+              <Input
+                type="number"
+                min={0}
+                step="0.01"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Frequency</Label>
+              <Select
+                value={frequency}
+                onValueChange={(value) => setFrequency(value as RecurringChargeFrequency)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(recurringFrequencyLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label.charAt(0).toUpperCase() + label.slice(1)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Start Date</Label>
+              <DatePicker date={startDate} onDateChange={setStartDate} />
+            </div>
+            <div className="space-y-2">
+              <Label>End Date</Label>
+              <DatePicker date={endDate} onDateChange={setEndDate} />
+              <p className="text-xs text-muted-foreground">Leave empty to charge until stopped</p>
+            </div>
+          </div>
+
+          <div className="flex items-center gap-6">
+            <div className="flex items-center gap-2">
+              <Switch id="recurring-prorate" checked={prorate} onCheckedChange={setProrate} />
+              <Label htmlFor="recurring-prorate">Prorate partial periods</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch id="recurring-active" checked={isActive} onCheckedChange={setIsActive} />
+              <Label htmlFor="recurring-active">Active</Label>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Notes</Label>
+            <Textarea value={notes} onChange={(e) => setNotes(e.target.value)} rows={2} />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save Charge
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export function RecurringCharges() {
+  const { staff } = useStaff({ employmentStatus: EmploymentStatus.ACTIVE })
+  const { recurringCharges, isLoading, error, deleteRecurringCharge, refresh } =
+    useRecurringCharges()
+  const [form, setForm] = useState<{ charge?: RecurringCharge } | null>(null)
+
+  const targetName = (charge: RecurringCharge) => {
+    if (charge.scope === RecurringChargeScope.DEPARTMENT) return charge.department
+    const member = staff?.find(s => s.id === charge.staffId)
+    return member ? `${member.firstName} ${member.lastName}` : 'Unknown staff member'
+  }
+
+  const handleDelete = async (charge: RecurringCharge) => {
+    try {
+      await deleteRecurringCharge(charge.id)
+      toast.success('Recurring charge removed; open periods drop it on the next charge run')
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to remove recurring charge')
+    }
+  }
+
+  if (error) {
+    return (
+      <Card>
+        <CardContent className="flex items-center justify-center h-64">
+          <div className="text-center">
+            <AlertCircle className="h-12 w-12 text-red-500 mx-auto mb-4" />
+            <p className="text-lg font-semibold">Error loading recurring charges</p>
+            <p className="text-sm text-muted-foreground">{error.message}</p>
+            <Button onClick={() => refresh()} className="mt-4">
+              Try Again
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Repeat className="h-5 w-5" />
+              Recurring Charges
+            </CardTitle>
+            <CardDescription>
+              Meal plans, parking, equipment rental and other charges added to every billing period
+            </CardDescription>
+          </div>
+          <Button onClick={() => setForm({})} className="gap-2">
+            <Plus className="h-4 w-4" />
+            New Recurring Charge
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <LoadingSpinner />
+          </div>
+        ) : recurringCharges.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Charge</TableHead>
+                <TableHead>Applies to</TableHead>
+                <TableHead>Amount</TableHead>
+                <TableHead>Schedule</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {recurringCharges.map(charge => (
+                <TableRow key={charge.id}>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{charge.name}</span>
+                      {!charge.isActive && <Badge variant="secondary">Inactive</Badge>}
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      {recurringCategoryLabels[charge.category]}
+                    </p>
+                  </TableCell>
+                  <TableCell>
+                    {charge.scope === RecurringChargeScope.DEPARTMENT && (
+                      <Badge variant="outline" className="mr-2">Department</Badge>
+                    )}
+                    {targetName(charge)}
+                  </TableCell>
+                  <TableCell>
+                    {formatCurrency(charge.amount)}{' '}
+                    <span className="text-sm text-muted-foreground">
+                      {recurringFrequencyLabels[charge.frequency]}
+                    </span>
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {formatDay(charge.startDate)} –{' '}
+                    {charge.endDate ? formatDay(charge.endDate) : 'ongoing'}
+                    {!charge.prorate && (
+                      <span className="text-muted-foreground"> · not prorated</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-1">
+                      <Button variant="ghost" size="sm" onClick={() => setForm({ charge })}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => handleDelete(charge)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <p className="py-8 text-center text-sm text-muted-foreground">
+            No recurring charges set up
+          </p>
+        )}
+      </CardContent>
+
+      <RecurringChargeForm
+        open={!!form}
+        onOpenChange={(open) => !open && setForm(null)}
+        charge={form?.charge}
+      />
+    </Card>
+  )
+}
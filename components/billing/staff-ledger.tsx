@@ -0,0 +1,425 @@
+'use client'
+
+import { useState } from 'react'
+import { format } from 'date-fns'
+import { BookOpen, CalendarIcon, Loader2, Plus, Search } from 'lucide-react'
+import { toast } from 'sonner'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Calendar as CalendarComponent } from '@/components/ui/calendar'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { LoadingSpinner } from '@/components/shared'
+import { useLedgerBalances, useStaffLedger } from '@/hooks/use-billing'
+import { cn } from '@/lib/utils'
+import {
+  ChargeType,
+  LedgerEntryType,
+  MANUAL_LEDGER_ENTRY_TYPES,
+  validateCreateLedgerAdjustment,
+} from '@/lib/types/billing'
+
+const ANY_TYPE = '__any__'
+
+const entryTypeLabels: Record<LedgerEntryType, string> = {
+  [LedgerEntryType.CHARGE]: 'Charge',
+  [LedgerEntryType.PAYROLL_DEDUCTION]: 'Payroll deduction',
+  [LedgerEntryType.CASH_PAYMENT]: 'Cash payment',
+  [LedgerEntryType.CREDIT]: 'Credit',
+  [LedgerEntryType.WRITE_OFF]: 'Write-off',
+  [LedgerEntryType.REFUND]: 'Refund',
+}
+
+const chargeTypeLabels: Record<ChargeType, string> = {
+  [ChargeType.RENT]: 'Rent',
+  [ChargeType.UTILITIES]: 'Utilities',
+  [ChargeType.TRANSPORT]: 'Transport',
+  [ChargeType.OTHER]: 'Other',
+}
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount)
+
+// Ledger dates are UTC days; show them without shifting into local time
+const formatDay = (date: Date) =>
+  format(new Date(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()), 'MMM d, yyyy')
+
+type ManualEntryType = (typeof MANUAL_LEDGER_ENTRY_TYPES)[number]
+
+function RecordEntryForm({
+  staffId,
+  recordEntry,
+  onRecorded,
+}: {
+  staffId: string
+  recordEntry: ReturnType<typeof useStaffLedger>['recordEntry']
+  onRecorded: () => void
+}) {
+  const [entryType, setEntryType] = useState<ManualEntryType>(LedgerEntryType.CASH_PAYMENT)
+  const [chargeType, setChargeType] = useState<string>(ANY_TYPE)
+  const [amount, setAmount] = useState('')
+  const [entryDate, setEntryDate] = useState<Date | undefined>(new Date())
+  const [description, setDescription] = useState('')
+  const [reference, setReference] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+
+  const handleRecord = async () => {
+    if (amount === '') {
+      toast.error('Enter an amount')
+      return
+    }
+    if (!entryDate) {
+      toast.error('Choose the date of the entry')
+      return
+    }
+
+    const result = validateCreateLedgerAdjustment({
+      staffId,
+      entryType,
+      chargeType: chargeType === ANY_TYPE ? undefined : chargeType,
+      amount: Number(amount),
+      entryDate,
+      description: description.trim(),
+      reference: reference.trim() || undefined,
+    })
+
+    if (!result.success) {
+      toast.error(result.error.errors[0]?.message ?? 'Invalid entry')
+      return
+    }
+
+    try {
+      setIsSaving(true)
+      await recordEntry(result.data)
+      setAmount('')
+      setDescription('')
+      setReference('')
+      onRecorded()
+      toast.success(`${entryTypeLabels[entryType]} of ${formatCurrency(result.data.amount)} recorded`)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to record entry')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <div className="space-y-2">
+          <Label>Entry type</Label>
+          <Select value={entryType} onValueChange={(value) => setEntryType(value as ManualEntryType)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {MANUAL_LEDGER_ENTRY_TYPES.map(type => (
+                <SelectItem key={type} value={type}>
+                  {entryTypeLabels[type]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Applies to</Label>
+          <Select value={chargeType} onValueChange={setChargeType}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY_TYPE}>Whole balance</SelectItem>
+              {Object.values(ChargeType).map(type => (
+                <SelectItem key={type} value={type}>
+                  {chargeTypeLabels[type]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Amount ($)</Label>
+          <Input
+            type="number"
+            min={0}
+            step="0.01"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label>Date</Label>
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button
+                variant="outline"
+                className={cn('w-full pl-3 text-left font-normal', !entryDate && 'text-muted-foreground')}
+              >
+                {entryDate ? format(entryDate, 'PPP') : <span>Pick a date</span>}
+                <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-auto p-0" align="start">
+              <CalendarComponent mode="single" selected={entryDate} onSelect={setEntryDate} initialFocus />
+            </PopoverContent>
+          </Popover>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="space-y-2 md:col-span-2">
+          <Label>Description</Label>
+          <Input
+            value={description}
+            maxLength={500}
+            placeholder="e.g. Cash payment at front desk"
+            onChange={(e) => setDescription(e.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Reference</Label>
+          <Input
+            value={reference}
+            maxLength={100}
+            placeholder="Receipt or check number"
+            onChange={(e) => setReference(e.target.value)}
+          />
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-xs text-muted-foreground">
+          Payments, credits and write-offs also clear any balance payroll is carrying forward
+        </p>
+        <Button onClick={handleRecord} disabled={isSaving}>
+          {isSaving ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <Plus className="mr-2 h-4 w-4" />
+          )}
+          Record Entry
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+function StaffAccount({ staffId, name, onRecorded }: { staffId: string; name: string; onRecorded: () => void }) {
+  const { entries, balance, isLoading, recordEntry } = useStaffLedger(staffId)
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{name}</CardTitle>
+        <CardDescription>Current balance {formatCurrency(balance)}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <RecordEntryForm staffId={staffId} recordEntry={recordEntry} onRecorded={onRecorded} />
+
+        {isLoading ? (
+          <LoadingSpinner />
+        ) : (
+          <div className="border rounded-md">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Description</TableHead>
+                  <TableHead>Reference</TableHead>
+                  <TableHead className="text-right">Debit</TableHead>
+                  <TableHead className="text-right">Credit</TableHead>
+                  <TableHead className="text-right">Balance</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {entries.slice().reverse().map(entry => (
+                  <TableRow key={entry.id}>
+                    <TableCell>{formatDay(entry.entryDate)}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{entryTypeLabels[entry.entryType]}</Badge>
+                    </TableCell>
+                    <TableCell className="max-w-xs truncate">{entry.description}</TableCell>
+                    <TableCell className="font-mono text-sm">{entry.reference ?? ''}</TableCell>
+                    <TableCell className="text-right">{entry.debit ? formatCurrency(entry.debit) : ''}</TableCell>
+                    <TableCell className="text-right">{entry.credit ? formatCurrency(entry.credit) : ''}</TableCell>
+                    <TableCell className="text-right font-medium">{formatCurrency(entry.balance)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+export function StaffLedger() {
+  const [search, setSearch] = useState('')
+  const [selectedStaffId, setSelectedStaffId] = useState<string>()
+
+  const { balances, totalOutstanding, isLoading, refresh } = useLedgerBalances()
+
+  const filtered = balances.filter(account => {
+    if (!search) return true
+    const term = search.toLowerCase()
+    return (
+      `${account.staff.firstName} ${account.staff.lastName}`.toLowerCase().includes(term) ||
+      account.staff.employeeId.toLowerCase().includes(term)
+    )
+  })
+  const selected = balances.find(account => account.staffId === selectedStaffId)
+
+  const totalOf = (type: LedgerEntryType) =>
+    balances.reduce((sum, account) => sum + account.totals[type], 0)
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-sm font-medium text-muted-foreground">Outstanding</p>
+            <p className="text-2xl font-bold">{formatCurrency(totalOutstanding)}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-sm font-medium text-muted-foreground">Charged</p>
+            <p className="text-2xl font-bold">{formatCurrency(totalOf(LedgerEntryType.CHARGE))}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-sm font-medium text-muted-foreground">Collected</p>
+            <p className="text-2xl font-bold">
+              {formatCurrency(-(totalOf(LedgerEntryType.PAYROLL_DEDUCTION) + totalOf(LedgerEntryType.CASH_PAYMENT)))}
+            </p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-sm font-medium text-muted-foreground">Credited & Written Off</p>
+            <p className="text-2xl font-bold">
+              {formatCurrency(-(totalOf(LedgerEntryType.CREDIT) + totalOf(LedgerEntryType.WRITE_OFF)))}
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <BookOpen className="h-5 w-5" />
+            Staff Accounts
+          </CardTitle>
+          <CardDescription>
+            Balances from the staff ledger. Exports post charges and payroll deductions; record
+            cash payments, credits, write-offs and refunds here.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Search staff..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="pl-10"
+            />
+          </div>
+
+          {isLoading ? (
+            <LoadingSpinner />
+          ) : filtered.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No ledger activity yet. Entries appear once a payroll export is run.
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Staff</TableHead>
+                  <TableHead className="text-right">Charged</TableHead>
+                  <TableHead className="text-right">Deducted</TableHead>
+                  <TableHead className="text-right">Paid</TableHead>
+                  <TableHead className="text-right">Credits & Write-offs</TableHead>
+                  <TableHead className="text-right">Balance</TableHead>
+                  <TableHead>Last Activity</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filtered.map(account => (
+                  <TableRow
+                    key={account.staffId}
+                    className={cn('cursor-pointer', account.staffId === selectedStaffId && 'bg-muted')}
+                    onClick={() => setSelectedStaffId(account.staffId)}
+                  >
+                    <TableCell>
+                      {account.staff.firstName} {account.staff.lastName}
+                      <span className="text-muted-foreground"> ({account.staff.employeeId})</span>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatCurrency(account.totals[LedgerEntryType.CHARGE] + account.totals[LedgerEntryType.REFUND])}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatCurrency(-account.totals[LedgerEntryType.PAYROLL_DEDUCTION])}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatCurrency(-account.totals[LedgerEntryType.CASH_PAYMENT])}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatCurrency(-(account.totals[LedgerEntryType.CREDIT] + account.totals[LedgerEntryType.WRITE_OFF]))}
+                    </TableCell>
+                    <TableCell className={cn('text-right font-medium', account.balance > 0 && 'text-red-600')}>
+                      {formatCurrency(account.balance)}
+                    </TableCell>
+                    <TableCell>{formatDay(account.lastEntryDate)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {selected && (
+        <StaffAccount
+          staffId={selected.staffId}
+          name={`${selected.staff.firstName} ${selected.staff.lastName}`}
+          onRecorded={() => refresh()}
+        />
+      )}
+    </div>
+  )
+}
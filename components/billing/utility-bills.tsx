@@ -0,0 +1,572 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { format } from 'date-fns'
+import { AlertCircle, AlertTriangle, Eye, Loader2, Plus, Trash2, Zap } from 'lucide-react'
+import { toast } from 'sonner'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { DatePicker, LoadingSpinner } from '@/components/shared'
+import { useUtilityBills } from '@/hooks/use-billing'
+import { useProperties } from '@/hooks/use-housing'
+import { fromLocalDate } from '@/lib/dates'
+import {
+  UtilityAllocationRule,
+  UtilityType,
+  validateCreateUtilityBill,
+  type CreateUtilityBill,
+  type UtilityAllocation,
+  type UtilityBill,
+} from '@/lib/types/billing'
+
+const utilityLabels: Record<UtilityType, string> = {
+  [UtilityType.ELECTRICITY]: 'Electricity',
+  [UtilityType.WATER]: 'Water',
+  [UtilityType.GAS]: 'Gas',
+  [UtilityType.INTERNET]: 'Internet',
+  [UtilityType.TRASH]: 'Trash',
+  [UtilityType.OTHER]: 'Other',
+}
+
+const ruleLabels: Record<UtilityAllocationRule, string> = {
+  [UtilityAllocationRule.EQUAL]: 'Equal per bed-day',
+  [UtilityAllocationRule.BY_ROOM]: 'By room',
+  [UtilityAllocationRule.CAPPED]: 'Capped per person',
+}
+
+const ruleDescriptions: Record<UtilityAllocationRule, string> = {
+  [UtilityAllocationRule.EQUAL]: 'Every night someone spent in the property costs the same',
+  [UtilityAllocationRule.BY_ROOM]:
+    'Every occupied room-night costs the same and is shared by that night\'s roommates',
+  [UtilityAllocationRule.CAPPED]:
+    'Equal per bed-day, but nobody pays more than the cap for the days they were there',
+}
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount)
+
+// Service dates are UTC days; show them without shifting into local time
+const formatDay = (date: Date) =>
+  format(new Date(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()), 'MMM d, yyyy')
+
+type AllocationPreview = {
+  allocation: UtilityAllocation
+  staffNames: Record<string, string>
+}
+
+function AllocationTable({ allocation, staffNames }: AllocationPreview) {
+  if (allocation.shares.length === 0) {
+    return (
+      <div className="flex items-center gap-2 rounded-md border border-yellow-200 bg-yellow-50 p-3 text-sm text-yellow-800">
+        <AlertTriangle className="h-4 w-4" />
+        Nobody lived in the property during this service period; the bill will not be charged
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-muted-foreground">
+        {allocation.totalBedDays} occupied bed-days over {allocation.serviceDays} days
+      </p>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Staff Member</TableHead>
+            <TableHead>Rooms</TableHead>
+            <TableHead className="text-right">Bed-days</TableHead>
+            <TableHead className="text-right">Share</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {allocation.shares.map(share => (
+            <TableRow key={share.staffId}>
+              <TableCell className="font-medium">
+                {staffNames[share.staffId] ?? share.staffId}
+              </TableCell>
+              <TableCell>{share.rooms.join(', ')}</TableCell>
+              <TableCell className="text-right">{share.bedDays}</TableCell>
+              <TableCell className="text-right">
+                <div className="flex items-center justify-end gap-2">
+                  {share.capped && <Badge variant="secondary">Capped</Badge>}
+                  {formatCurrency(share.amount)}
+                </div>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+      {allocation.unallocated > 0 && (
+        <div className="flex items-center gap-2 rounded-md border border-yellow-200 bg-yellow-50 p-3 text-sm text-yellow-800">
+          <AlertTriangle className="h-4 w-4" />
+          {formatCurrency(allocation.unallocated)} is over the caps and stays with the property
+        </div>
+      )}
+    </div>
+  )
+}
+
+interface UtilityBillFormProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  propertyId?: string
+}
+
+function UtilityBillForm({ open, onOpenChange, propertyId: initialPropertyId }: UtilityBillFormProps) {
+  const { properties } = useProperties()
+  const { createBill, previewAllocation } = useUtilityBills()
+  const [propertyId, setPropertyId] = useState<string | undefined>(initialPropertyId)
+  const [utilityType, setUtilityType] = useState<UtilityType>(UtilityType.ELECTRICITY)
+  const [provider, setProvider] = useState('')
+  const [serviceStart, setServiceStart] = useState<Date | undefined>()
+  const [serviceEnd, setServiceEnd] = useState<Date | undefined>()
+  const [amount, setAmount] = useState('')
+  const [allocationRule, setAllocationRule] = useState<UtilityAllocationRule>(
+    UtilityAllocationRule.EQUAL
+  )
+  const [capPerPerson, setCapPerPerson] = useState('')
+  const [notes, setNotes] = useState('')
+  const [preview, setPreview] = useState<AllocationPreview | null>(null)
+  const [isPreviewing, setIsPreviewing] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    if (open) {
+      setPropertyId(initialPropertyId)
+      setUtilityType(UtilityType.ELECTRICITY)
+      setProvider('')
+      setServiceStart(undefined)
+      setServiceEnd(undefined)
+      setAmount('')
+      setAllocationRule(UtilityAllocationRule.EQUAL)
+      setCapPerPerson('')
+      setNotes('')
+      setPreview(null)
+    }
+  }, [open, initialPropertyId])
+
+  useEffect(() => {
+    setPreview(null)
+  }, [propertyId, serviceStart, serviceEnd, amount, allocationRule, capPerPerson])
+
+  const parseBill = (): CreateUtilityBill | null => {
+    if (!serviceStart || !serviceEnd) {
+      toast.error('Choose the first and last day of the service period')
+      return null
+    }
+
+    const result = validateCreateUtilityBill({
+      propertyId,
+      utilityType,
+      provider: provider.trim() || undefined,
+      serviceStart: fromLocalDate(serviceStart),
+      serviceEnd: fromLocalDate(serviceEnd),
+      amount: amount === '' ? undefined : Number(amount),
+      allocationRule,
+      capPerPerson:
+        allocationRule === UtilityAllocationRule.CAPPED && capPerPerson !== ''
+          ? Number(capPerPerson)
+          : undefined,
+      notes: notes.trim() || undefined,
+    })
+
+    if (!result.success) {
+      toast.error(result.error.errors[0]?.message ?? 'Invalid utility bill')
+      return null
+    }
+    return result.data
+  }
+
+  const handlePreview = async () => {
+    const bill = parseBill()
+    if (!bill) return
+
+    try {
+      setIsPreviewing(true)
+      setPreview(await previewAllocation(bill))
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to preview the split')
+    } finally {
+      setIsPreviewing(false)
+    }
+  }
+
+  const handleSave = async () => {
+    const bill = parseBill()
+    if (!bill) return
+
+    try {
+      setIsSaving(true)
+      await createBill(bill)
+      toast.success('Utility bill recorded; it is split on the next charge run')
+      onOpenChange(false)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to record utility bill')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Record Utility Bill</DialogTitle>
+          <DialogDescription>
+            The bill is split across everyone who lived in the property during the service
+            period, by the nights they were there. It is charged in the billing period the
+            service period ends in.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Property</Label>
+              <Select value={propertyId} onValueChange={setPropertyId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select property" />
+                </SelectTrigger>
+                <SelectContent>
+                  {properties.map(property => (
+                    <SelectItem key={property.id} value={property.id}>
+                      {property.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Utility</Label>
+              <Select
+                value={utilityType}
+                onValueChange={(value) => setUtilityType(value as UtilityType)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(utilityLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Service Start</Label>
+              <DatePicker date={serviceStart} onDateChange={setServiceStart} />
+            </div>
+            <div className="space-y-2">
+              <Label>Service End</Label>
+              <DatePicker date={serviceEnd} onDateChange={setServiceEnd} />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Amount (USD)</Label>
+              <Input
+                type="number"
+                min={0}
+                step="0.01"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Provider</Label>
+              <Input
+                value={provider}
+                onChange={(e) => setProvider(e.target.value)}
+                placeholder="Optional"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Split</Label>
+              <Select
+                value={allocationRule}
+                onValueChange={(value) => setAllocationRule(value as UtilityAllocationRule)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(ruleLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">{ruleDescriptions[allocationRule]}</p>
+            </div>
+            {allocationRule === UtilityAllocationRule.CAPPED && (
+              <div className="space-y-2">
+                <Label>Cap per Person (USD)</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={capPerPerson}
+                  onChange={(e) => setCapPerPerson(e.target.value)}
+                />
+                <p className="text-xs text-muted-foreground">
+                  For someone present the whole service period
+                </p>
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Notes</Label>
+            <Textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Invoice number or anything unusual about this bill"
+              rows={2}
+            />
+          </div>
+
+          {preview && <AllocationTable {...preview} />}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button variant="outline" onClick={handlePreview} disabled={isPreviewing || isSaving}>
+            {isPreviewing ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Eye className="h-4 w-4 mr-2" />
+            )}
+            Preview Split
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Record Bill
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+interface UtilityBillsProps {
+  propertyId?: string
+}
+
+export function UtilityBills({ propertyId: initialPropertyId }: UtilityBillsProps) {
+  const { properties } = useProperties()
+  const [propertyId, setPropertyId] = useState<string | undefined>(initialPropertyId)
+  const [showForm, setShowForm] = useState(false)
+  const [previewBill, setPreviewBill] = useState<UtilityBill | null>(null)
+  const [preview, setPreview] = useState<AllocationPreview | null>(null)
+
+  const { bills, isLoading, error, deleteBill, previewAllocation, refresh } =
+    useUtilityBills(propertyId)
+
+  const propertyName = (id: string) => properties.find(p => p.id === id)?.name ?? 'Unknown property'
+
+  const handlePreview = async (bill: UtilityBill) => {
+    setPreviewBill(bill)
+    setPreview(null)
+    try {
+      setPreview(await previewAllocation(bill))
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to preview the split')
+      setPreviewBill(null)
+    }
+  }
+
+  const handleDelete = async (bill: UtilityBill) => {
+    try {
+      await deleteBill(bill.id)
+      toast.success('Utility bill removed; its charges are voided on the next charge run')
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to remove utility bill')
+    }
+  }
+
+  if (error) {
+    return (
+      <Card>
+        <CardContent className="flex items-center justify-center h-64">
+          <div className="text-center">
+            <AlertCircle className="h-12 w-12 text-red-500 mx-auto mb-4" />
+            <p className="text-lg font-semibold">Error loading utility bills</p>
+            <p className="text-sm text-muted-foreground">{error.message}</p>
+            <Button onClick={() => refresh()} className="mt-4">
+              Try Again
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Zap className="h-5 w-5" />
+              Utility Bills
+            </CardTitle>
+            <CardDescription>
+              Property bills split across occupants by the billing period&apos;s charge run
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Select
+              value={propertyId ?? 'all'}
+              onValueChange={(value) => setPropertyId(value === 'all' ? undefined : value)}
+            >
+              <SelectTrigger className="w-[220px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All properties</SelectItem>
+                {properties.map(property => (
+                  <SelectItem key={property.id} value={property.id}>
+                    {property.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button onClick={() => setShowForm(true)} className="gap-2">
+              <Plus className="h-4 w-4" />
+              Record Bill
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <LoadingSpinner />
+          </div>
+        ) : bills.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Property</TableHead>
+                <TableHead>Utility</TableHead>
+                <TableHead>Service Period</TableHead>
+                <TableHead>Split</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {bills.map(bill => (
+                <TableRow key={bill.id}>
+                  <TableCell className="font-medium">{propertyName(bill.propertyId)}</TableCell>
+                  <TableCell>
+                    {utilityLabels[bill.utilityType]}
+                    {bill.provider && (
+                      <span className="text-sm text-muted-foreground"> · {bill.provider}</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {formatDay(bill.serviceStart)} – {formatDay(bill.serviceEnd)}
+                  </TableCell>
+                  <TableCell>
+                    {ruleLabels[bill.allocationRule]}
+                    {bill.allocationRule === UtilityAllocationRule.CAPPED && bill.capPerPerson && (
+                      <span className="text-sm text-muted-foreground">
+                        {' '}({formatCurrency(bill.capPerPerson)})
+                      </span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">{formatCurrency(bill.amount)}</TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-1">
+                      <Button variant="ghost" size="sm" onClick={() => handlePreview(bill)}>
+                        <Eye className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => handleDelete(bill)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <div className="text-center py-8">
+            <Zap className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+            <h3 className="text-lg font-semibold mb-2">No utility bills</h3>
+            <p className="text-muted-foreground">
+              Record a property&apos;s bills to charge them to the people who lived there
+            </p>
+          </div>
+        )}
+      </CardContent>
+
+      <UtilityBillForm open={showForm} onOpenChange={setShowForm} propertyId={propertyId} />
+
+      <Dialog open={!!previewBill} onOpenChange={(open) => !open && setPreviewBill(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>
+              {previewBill && `${utilityLabels[previewBill.utilityType]} · ${formatCurrency(previewBill.amount)}`}
+            </DialogTitle>
+            <DialogDescription>
+              {previewBill &&
+                `${propertyName(previewBill.propertyId)}, ${formatDay(previewBill.serviceStart)} – ${formatDay(previewBill.serviceEnd)}. ${ruleDescriptions[previewBill.allocationRule]}.`}
+            </DialogDescription>
+          </DialogHeader>
+          {preview ? (
+            <AllocationTable {...preview} />
+          ) : (
+            <div className="flex items-center justify-center py-8">
+              <LoadingSpinner />
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
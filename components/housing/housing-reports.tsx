@@ -4,6 +4,7 @@ import * as React from 'react'
 import { FileText, Download, Calendar, Filter, Building, Users, TrendingUp } from 'lucide-react'
 
 import { useHousingAnalytics, usePropertiesWithRooms, useRoomAssignments } from '@/hooks/use-housing'
+import { ImputedIncomeReport } from '@/components/billing/imputed-income-report'
 import { 
   ExportButton, 
   DateRangePicker, 
@@ -272,6 +273,7 @@ export function HousingReports({ className }: HousingReportsProps) {
           <TabsTrigger value="properties">Property Report</TabsTrigger>
           <TabsTrigger value="assignments">Assignment Report</TabsTrigger>
           <TabsTrigger value="occupancy">Occupancy Report</TabsTrigger>
+          <TabsTrigger value="imputed-income">Imputed Income</TabsTrigger>
         </TabsList>
 
         <TabsContent value="properties">
@@ -470,6 +472,10 @@ export function HousingReports({ className }: HousingReportsProps) {
             </CardContent>
           </Card>
         </TabsContent>
+
+        <TabsContent value="imputed-income">
+          <ImputedIncomeReport />
+        </TabsContent>
       </Tabs>
     </div>
   )
@@ -0,0 +1,548 @@
+'use client'
+
+import { useState } from 'react'
+import { format, formatDistanceToNow } from 'date-fns'
+import {
+  AlertTriangle,
+  BedDouble,
+  CheckCircle,
+  ClipboardList,
+  ListOrdered,
+  Loader2,
+  Search,
+  XCircle,
+} from 'lucide-react'
+import { toast } from 'sonner'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Separator } from '@/components/ui/separator'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { DatePicker, LoadingSpinner } from '@/components/shared'
+import { useHousingRequestQueue } from '@/hooks/use-housing'
+import { canMoveRequest, isRequestOpen, needsRoom } from '@/lib/housing/housing-requests'
+import { fromLocalDate } from '@/lib/dates'
+import { cn } from '@/lib/utils'
+import {
+  HousingRequestPriority,
+  HousingRequestStatus,
+  HousingRequestType,
+  type HousingMatch,
+  type HousingRequestWithStaff,
+} from '@/lib/types/housing'
+
+const OPEN = 'open'
+const ALL = 'all'
+
+const statusLabels: Record<HousingRequestStatus, string> = {
+  [HousingRequestStatus.PENDING]: 'Pending',
+  [HousingRequestStatus.UNDER_REVIEW]: 'Under review',
+  [HousingRequestStatus.WAITLISTED]: 'Waitlisted',
+  [HousingRequestStatus.APPROVED]: 'Approved',
+  [HousingRequestStatus.REJECTED]: 'Rejected',
+  [HousingRequestStatus.COMPLETED]: 'Completed',
+  [HousingRequestStatus.CANCELLED]: 'Cancelled',
+}
+
+const typeLabels: Record<HousingRequestType, string> = {
+  [HousingRequestType.NEW_HOUSING]: 'New housing',
+  [HousingRequestType.ROOM_CHANGE]: 'Room change',
+  [HousingRequestType.MOVE_OUT]: 'Move-out',
+  [HousingRequestType.MAINTENANCE]: 'Maintenance',
+  [HousingRequestType.ROOMMATE_CHANGE]: 'Roommate change',
+  [HousingRequestType.OTHER]: 'Other',
+}
+
+const priorityVariants: Record<HousingRequestPriority, 'destructive' | 'default' | 'secondary'> = {
+  [HousingRequestPriority.HIGH]: 'destructive',
+  [HousingRequestPriority.MEDIUM]: 'default',
+  [HousingRequestPriority.LOW]: 'secondary',
+}
+
+// Requested dates are UTC calendar days
+const formatDay = (date: Date, pattern: string) =>
+  format(new Date(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()), pattern)
+
+// A UTC day as the local date the picker shows
+const toLocalDate = (date: Date) =>
+  new Date(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+
+const staffName = (request: HousingRequestWithStaff) =>
+  request.staff ? `${request.staff.firstName} ${request.staff.lastName}` : 'Unknown staff'
+
+function RequestReview({
+  request,
+  queue,
+}: {
+  request: HousingRequestWithStaff
+  queue: ReturnType<typeof useHousingRequestQueue>
+}) {
+  const [effectiveDate, setEffectiveDate] = useState<Date | undefined>(
+    request.requestedStartDate ? toLocalDate(request.requestedStartDate) : undefined
+  )
+  const [response, setResponse] = useState(request.response ?? '')
+  const [result, setResult] = useState<{ matches: HousingMatch[]; blockers: string[] } | null>(null)
+  const [isSearching, setIsSearching] = useState(false)
+  const [savingId, setSavingId] = useState<string | null>(null)
+  const open = isRequestOpen(request.status)
+
+  const run = async (id: string, action: () => Promise<unknown>, success: string) => {
+    try {
+      setSavingId(id)
+      await action()
+      toast.success(success)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Something went wrong')
+    } finally {
+      setSavingId(null)
+    }
+  }
+
+  const handleFindMatches = async () => {
+    try {
+      setIsSearching(true)
+      setResult(await queue.findMatches(request))
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to find rooms')
+    } finally {
+      setIsSearching(false)
+    }
+  }
+
+  const approve = (match?: HousingMatch) =>
+    run(
+      match ? `${match.roomId}:${match.bedId ?? ''}` : 'approve',
+      () =>
+        queue.approveRequest(request, match, {
+          effectiveDate: effectiveDate ? fromLocalDate(effectiveDate) : undefined,
+          response,
+        }),
+      match
+        ? `${staffName(request)} assigned to room ${match.roomNumber}${match.bedLabel ? `, bed ${match.bedLabel}` : ''}`
+        : 'Request approved'
+    )
+
+  const move = (status: HousingRequestStatus, success: string) => {
+    if (status === HousingRequestStatus.REJECTED && !response.trim()) {
+      toast.error('Explain why the request is rejected')
+      return
+    }
+    run(status, () => queue.moveRequest(request, status, response), success)
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle>{request.title}</CardTitle>
+            <CardDescription>
+              {staffName(request)} &middot; {typeLabels[request.type]} &middot; raised {format(request.createdAt, 'PPP')}
+            </CardDescription>
+          </div>
+          <Badge variant={open ? 'secondary' : 'outline'}>{statusLabels[request.status]}</Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 text-sm">
+          <div>
+            <p className="font-medium text-muted-foreground">Department</p>
+            <p>{request.staff?.department ?? 'None'}</p>
+          </div>
+          <div>
+            <p className="font-medium text-muted-foreground">Housing Eligible</p>
+            <p>{request.staff?.housingEligible ? 'Yes' : 'No'}</p>
+          </div>
+          <div>
+            <p className="font-medium text-muted-foreground">Requested Date</p>
+            <p>
+              {request.requestedStartDate ? formatDay(request.requestedStartDate, 'PPP') : 'As soon as possible'}
+              {request.requestedEndDate && ` until ${formatDay(request.requestedEndDate, 'PPP')}`}
+            </p>
+          </div>
+          <div>
+            <p className="font-medium text-muted-foreground">Preferences</p>
+            <p>
+              {[request.preferredRoomType, ...request.preferredAmenities].filter(Boolean).join(', ') || 'None'}
+            </p>
+          </div>
+        </div>
+
+        {request.description && (
+          <p className="text-sm bg-muted p-3 rounded-md">{request.description}</p>
+        )}
+
+        {open ? (
+          <>
+            <Separator />
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Effective Date</Label>
+                <DatePicker
+                  date={effectiveDate}
+                  onDateChange={setEffectiveDate}
+                  placeholder="Requested date or today"
+                  showClearButton
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Response</Label>
+                <Textarea
+                  value={response}
+                  maxLength={1000}
+                  placeholder="The staff member sees this"
+                  onChange={(e) => setResponse(e.target.value)}
+                />
+              </div>
+            </div>
+
+            {needsRoom(request.type) ? (
+              <div className="space-y-4">
+                <div className="flex items-center justify-between">
+                  <p className="text-sm font-medium">Matching Rooms</p>
+                  <Button variant="outline" size="sm" className="gap-2" onClick={handleFindMatches} disabled={isSearching}>
+                    {isSearching ? <Loader2 className="h-4 w-4 animate-spin" /> : <Search className="h-4 w-4" />}
+                    Find Rooms
+                  </Button>
+                </div>
+
+                {result && result.blockers.length > 0 && (
+                  <Alert variant="destructive">
+                    <AlertTriangle className="h-4 w-4" />
+                    <AlertDescription>
+                      <ul className="space-y-1">
+                        {result.blockers.map(blocker => (
+                          <li key={blocker}>{blocker}</li>
+                        ))}
+                      </ul>
+                    </AlertDescription>
+                  </Alert>
+                )}
+
+                {result && result.blockers.length === 0 && result.matches.length === 0 && (
+                  <p className="text-sm text-muted-foreground">
+                    Nothing is free from this date. Waitlist the request to keep its place.
+                  </p>
+                )}
+
+                {result && result.matches.length > 0 && (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Room</TableHead>
+                        <TableHead>Bed</TableHead>
+                        <TableHead className="text-right">Free</TableHead>
+                        <TableHead>Why</TableHead>
+                        <TableHead />
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {result.matches.map(match => {
+                        const id = `${match.roomId}:${match.bedId ?? ''}`
+                        return (
+                          <TableRow key={id}>
+                            <TableCell>
+                              <div className="font-medium">Room {match.roomNumber}</div>
+                              <div className="text-xs text-muted-foreground">
+                                {[match.propertyName, match.roomType].filter(Boolean).join(' · ')}
+                              </div>
+                            </TableCell>
+                            <TableCell>{match.bedLabel ? `Bed ${match.bedLabel}` : '—'}</TableCell>
+                            <TableCell className="text-right">{match.freeBeds}</TableCell>
+                            <TableCell className="text-xs text-muted-foreground">
+                              {match.reasons.join('; ') || 'Free on the requested dates'}
+                            </TableCell>
+                            <TableCell className="text-right">
+                              <Button size="sm" onClick={() => approve(match)} disabled={savingId !== null}>
+                                {savingId === id ? (
+                                  <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+                                ) : (
+                                  <BedDouble className="mr-1 h-3 w-3" />
+                                )}
+                                Approve
+                              </Button>
+                            </TableCell>
+                          </TableRow>
+                        )
+                      })}
+                    </TableBody>
+                  </Table>
+                )}
+              </div>
+            ) : (
+              <div className="flex items-center justify-between gap-4">
+                <p className="text-xs text-muted-foreground">
+                  {request.type === HousingRequestType.MOVE_OUT
+                    ? 'Approving ends the current assignment on the effective date, with notice given the day the request was made.'
+                    : 'Approving records the decision; arrange the work separately.'}
+                </p>
+                <Button onClick={() => approve()} disabled={savingId !== null}>
+                  {savingId === 'approve' ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <CheckCircle className="mr-2 h-4 w-4" />
+                  )}
+                  {request.type === HousingRequestType.MOVE_OUT ? 'Approve Move-out' : 'Approve'}
+                </Button>
+              </div>
+            )}
+
+            <div className="flex flex-wrap gap-2">
+              {canMoveRequest(request.status, HousingRequestStatus.UNDER_REVIEW) && (
+                <Button
+                  variant="outline"
+                  disabled={savingId !== null}
+                  onClick={() => move(HousingRequestStatus.UNDER_REVIEW, 'Request under review')}
+                >
+                  Start Review
+                </Button>
+              )}
+              {canMoveRequest(request.status, HousingRequestStatus.WAITLISTED) && (
+                <Button
+                  variant="outline"
+                  className="gap-2"
+                  disabled={savingId !== null}
+                  onClick={() => move(HousingRequestStatus.WAITLISTED, 'Request waitlisted')}
+                >
+                  <ListOrdered className="h-4 w-4" />
+                  Waitlist
+                </Button>
+              )}
+              <Button
+                variant="outline"
+                className="gap-2 text-destructive"
+                disabled={savingId !== null}
+                onClick={() => move(HousingRequestStatus.REJECTED, 'Request rejected')}
+              >
+                <XCircle className="h-4 w-4" />
+                Reject
+              </Button>
+            </div>
+          </>
+        ) : (
+          <div className="bg-muted p-3 rounded-md text-sm space-y-1">
+            {request.response && <p>{request.response}</p>}
+            {request.reviewedAt && (
+              <p className="text-xs text-muted-foreground">
+                {statusLabels[request.status]} on {format(request.reviewedAt, 'PPP')}
+              </p>
+            )}
+            {canMoveRequest(request.status, HousingRequestStatus.COMPLETED) && (
+              <Button
+                size="sm"
+                variant="outline"
+                className="mt-2"
+                disabled={savingId !== null}
+                onClick={() => move(HousingRequestStatus.COMPLETED, 'Request completed')}
+              >
+                Mark Completed
+              </Button>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+export function HousingRequestQueue() {
+  const [statusFilter, setStatusFilter] = useState<string>(OPEN)
+  const [typeFilter, setTypeFilter] = useState<string>(ALL)
+  const [search, setSearch] = useState('')
+  const [selectedId, setSelectedId] = useState<string>()
+
+  const queue = useHousingRequestQueue({
+    status: statusFilter === ALL ? undefined : (statusFilter as HousingRequestStatus | typeof OPEN),
+    type: typeFilter === ALL ? undefined : (typeFilter as HousingRequestType),
+  })
+  const { requests, isLoading } = queue
+
+  const filtered = requests.filter(request => {
+    if (!search) return true
+    const term = search.toLowerCase()
+    return (
+      staffName(request).toLowerCase().includes(term) ||
+      request.title.toLowerCase().includes(term) ||
+      (request.staff?.department ?? '').toLowerCase().includes(term)
+    )
+  })
+  const selected = requests.find(request => request.id === selectedId)
+
+  // Places on the waitlist: open requests for a room, in queue order
+  const waitlist = requests.filter(request => isRequestOpen(request.status) && needsRoom(request.type))
+  const openRequests = requests.filter(request => isRequestOpen(request.status))
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-sm font-medium text-muted-foreground">Open Requests</p>
+            <p className="text-2xl font-bold">{openRequests.length}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-sm font-medium text-muted-foreground">Waiting for a Room</p>
+            <p className="text-2xl font-bold">{waitlist.length}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-sm font-medium text-muted-foreground">Waitlisted</p>
+            <p className="text-2xl font-bold">
+              {requests.filter(request => request.status === HousingRequestStatus.WAITLISTED).length}
+            </p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-sm font-medium text-muted-foreground">High Priority</p>
+            <p className="text-2xl font-bold">
+              {openRequests.filter(request => request.priority === HousingRequestPriority.HIGH).length}
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ClipboardList className="h-5 w-5" />
+            Housing Requests
+          </CardTitle>
+          <CardDescription>
+            Open requests for a room are served by priority, then requested date, then when they were made.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap items-center gap-4">
+            <div className="relative flex-1 min-w-[200px]">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search staff, department or request..."
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                className="pl-10"
+              />
+            </div>
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={OPEN}>Open</SelectItem>
+                <SelectItem value={ALL}>All statuses</SelectItem>
+                {Object.values(HousingRequestStatus).map(status => (
+                  <SelectItem key={status} value={status}>
+                    {statusLabels[status]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={typeFilter} onValueChange={setTypeFilter}>
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All types</SelectItem>
+                {Object.values(HousingRequestType).map(type => (
+                  <SelectItem key={type} value={type}>
+                    {typeLabels[type]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {isLoading ? (
+            <LoadingSpinner />
+          ) : filtered.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No requests match these filters.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-12">#</TableHead>
+                  <TableHead>Staff</TableHead>
+                  <TableHead>Request</TableHead>
+                  <TableHead>Priority</TableHead>
+                  <TableHead>Requested</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Raised</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filtered.map(request => {
+                  const position = waitlist.indexOf(request)
+                  return (
+                    <TableRow
+                      key={request.id}
+                      className={cn('cursor-pointer', request.id === selectedId && 'bg-muted')}
+                      onClick={() => setSelectedId(request.id)}
+                    >
+                      <TableCell className="text-muted-foreground">
+                        {position >= 0 ? position + 1 : ''}
+                      </TableCell>
+                      <TableCell>
+                        {staffName(request)}
+                        {request.staff?.department && (
+                          <div className="text-xs text-muted-foreground">{request.staff.department}</div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <div className="font-medium">{request.title}</div>
+                        <div className="text-xs text-muted-foreground">{typeLabels[request.type]}</div>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={priorityVariants[request.priority]}>{request.priority}</Badge>
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {request.requestedStartDate ? formatDay(request.requestedStartDate, 'MMM d, yyyy') : 'ASAP'}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={isRequestOpen(request.status) ? 'secondary' : 'outline'}>
+                          {statusLabels[request.status]}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {formatDistanceToNow(request.createdAt, { addSuffix: true })}
+                      </TableCell>
+                    </TableRow>
+                  )
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {selected && <RequestReview key={selected.id} request={selected} queue={queue} />}
+    </div>
+  )
+}
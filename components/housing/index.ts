@@ -6,6 +6,9 @@ export * from './property-details'
 export * from './room-grid'
 export * from './room-card'
 export * from './room-assignment-modal'
+export * from './rate-card-manager'
+export * from './property-cost-manager'
 export * from './occupancy-dashboard'
 export * from './occupancy-chart'
-export * from './housing-reports'
\ No newline at end of file
+export * from './housing-reports'
+export * from './housing-request-queue'
\ No newline at end of file
@@ -77,9 +77,9 @@ export function OccupancyDashboard({ className }: OccupancyDashboardProps) {
     if (!analytics) return []
     
     return [
-      { name: 'Occupied', value: analytics.occupiedRooms, color: '#3b82f6' },
-      { name: 'Available', value: analytics.availableRooms, color: '#10b981' },
-      { name: 'Maintenance', value: analytics.maintenanceRooms, color: '#f59e0b' },
+      { name: 'Occupied', value: analytics.occupiedBeds, color: '#3b82f6' },
+      { name: 'Available', value: analytics.availableBeds, color: '#10b981' },
+      { name: 'Out of Service', value: analytics.outOfServiceBeds, color: '#f59e0b' },
     ]
   }, [analytics])
 
@@ -210,8 +210,8 @@ export function OccupancyDashboard({ className }: OccupancyDashboardProps) {
         <TabsContent value="distribution" className="space-y-4">
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
             <CustomPieChart
-              title="Room Status Distribution"
-              description="Current status of all rooms"
+              title="Bed Status Distribution"
+              description="Current status of all beds"
               data={statusDistributionData}
               dataKey="value"
               nameKey="name"
@@ -0,0 +1,353 @@
+'use client'
+
+import * as React from 'react'
+import { Building2, CalendarX, History, Plus, Trash2, AlertCircle } from 'lucide-react'
+
+import { useProperties, usePropertyCosts } from '@/hooks/use-housing'
+import { PropertyCostCategory, type PropertyCost } from '@/lib/types/housing'
+import { addUtcDays, fromLocalDate, toDateKey, toUtcDay } from '@/lib/dates'
+import { DatePicker, LoadingSpinner } from '@/components/shared'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { toast } from 'sonner'
+
+interface PropertyCostManagerProps {
+  propertyId?: string
+  className?: string
+}
+
+const categoryLabels: Record<PropertyCostCategory, string> = {
+  [PropertyCostCategory.LEASE]: 'Lease',
+  [PropertyCostCategory.MAINTENANCE]: 'Maintenance',
+  [PropertyCostCategory.INSURANCE]: 'Insurance',
+  [PropertyCostCategory.SERVICES]: 'Services',
+}
+
+const currency = new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' })
+
+export function PropertyCostManager({ propertyId: initialPropertyId, className }: PropertyCostManagerProps) {
+  const { properties } = useProperties()
+  const [propertyId, setPropertyId] = React.useState<string | undefined>(initialPropertyId)
+  const [showForm, setShowForm] = React.useState(false)
+
+  React.useEffect(() => {
+    if (!propertyId && properties.length > 0) {
+      setPropertyId(properties[0].id)
+    }
+  }, [properties, propertyId])
+
+  const { propertyCosts, isLoading, error, updatePropertyCost, deletePropertyCost } =
+    usePropertyCosts(propertyId)
+
+  const today = toUtcDay(new Date())
+
+  const costStatus = (cost: PropertyCost) => {
+    if (cost.effectiveFrom > today) return { label: 'Scheduled', variant: 'secondary' as const }
+    if (cost.effectiveTo && cost.effectiveTo < today) return { label: 'Ended', variant: 'outline' as const }
+    return { label: 'Current', variant: 'default' as const }
+  }
+
+  const monthlyTotal = propertyCosts
+    .filter(cost => costStatus(cost).label === 'Current')
+    .reduce((sum, cost) => sum + cost.monthlyAmount, 0)
+
+  const handleDelete = async (cost: PropertyCost) => {
+    try {
+      await deletePropertyCost(cost.id)
+      toast.success('Scheduled cost removed')
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to remove cost')
+    }
+  }
+
+  // Costs that may already have been allocated are ended rather than deleted
+  const handleEnd = async (cost: PropertyCost) => {
+    try {
+      await updatePropertyCost(cost.id, { effectiveTo: addUtcDays(today, -1) })
+      toast.success('Cost ended')
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to end cost')
+    }
+  }
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Building2 className="h-5 w-5" />
+              Property Costs
+            </CardTitle>
+            <CardDescription>
+              What each property costs the company; the part not recovered from staff rent is
+              allocated to departments
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Select value={propertyId} onValueChange={setPropertyId}>
+              <SelectTrigger className="w-[220px]">
+                <SelectValue placeholder="Select property" />
+              </SelectTrigger>
+              <SelectContent>
+                {properties.map(p => (
+                  <SelectItem key={p.id} value={p.id}>
+                    {p.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button onClick={() => setShowForm(true)} disabled={!propertyId} className="gap-2">
+              <Plus className="h-4 w-4" />
+              Add Cost
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {error ? (
+          <div className="text-center py-8">
+            <AlertCircle className="h-8 w-8 text-red-500 mx-auto mb-2" />
+            <p className="text-sm text-muted-foreground">Failed to load property costs</p>
+          </div>
+        ) : isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <LoadingSpinner />
+          </div>
+        ) : propertyCosts.length > 0 ? (
+          <div className="space-y-2">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Category</TableHead>
+                  <TableHead>Description</TableHead>
+                  <TableHead className="text-right">Monthly Amount</TableHead>
+                  <TableHead>Effective</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {propertyCosts.map(cost => {
+                  const status = costStatus(cost)
+                  return (
+                    <TableRow key={cost.id}>
+                      <TableCell className="font-medium">{categoryLabels[cost.category]}</TableCell>
+                      <TableCell className="text-sm text-muted-foreground max-w-[240px] truncate">
+                        {cost.description}
+                      </TableCell>
+                      <TableCell className="text-right">{currency.format(cost.monthlyAmount)}</TableCell>
+                      <TableCell className="text-sm">
+                        {toDateKey(cost.effectiveFrom)} –{' '}
+                        {cost.effectiveTo ? toDateKey(cost.effectiveTo) : 'ongoing'}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={status.variant}>{status.label}</Badge>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {status.label === 'Scheduled' && (
+                          <Button variant="ghost" size="sm" onClick={() => handleDelete(cost)}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {status.label === 'Current' && !cost.effectiveTo && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleEnd(cost)}
+                            title="End yesterday"
+                          >
+                            <CalendarX className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  )
+                })}
+              </TableBody>
+            </Table>
+            <p className="text-sm text-muted-foreground text-right">
+              Current monthly total: {currency.format(monthlyTotal)}
+            </p>
+          </div>
+        ) : (
+          <div className="text-center py-8">
+            <History className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+            <h3 className="text-lg font-semibold mb-2">No costs recorded</h3>
+            <p className="text-muted-foreground">
+              Properties without costs are left out of cost allocation
+            </p>
+          </div>
+        )}
+      </CardContent>
+
+      {propertyId && (
+        <PropertyCostForm open={showForm} onOpenChange={setShowForm} propertyId={propertyId} />
+      )}
+    </Card>
+  )
+}
+
+interface PropertyCostFormProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  propertyId: string
+}
+
+function PropertyCostForm({ open, onOpenChange, propertyId }: PropertyCostFormProps) {
+  const { createPropertyCost } = usePropertyCosts(propertyId)
+  const [category, setCategory] = React.useState<PropertyCostCategory>(PropertyCostCategory.LEASE)
+  const [description, setDescription] = React.useState('')
+  const [monthlyAmount, setMonthlyAmount] = React.useState('')
+  const [effectiveFrom, setEffectiveFrom] = React.useState<Date | undefined>(new Date())
+  const [effectiveTo, setEffectiveTo] = React.useState<Date | undefined>()
+  const [notes, setNotes] = React.useState('')
+  const [saving, setSaving] = React.useState(false)
+
+  React.useEffect(() => {
+    if (open) {
+      setCategory(PropertyCostCategory.LEASE)
+      setDescription('')
+      setMonthlyAmount('')
+      setEffectiveFrom(new Date())
+      setEffectiveTo(undefined)
+      setNotes('')
+    }
+  }, [open])
+
+  const handleSubmit = async () => {
+    const amount = parseFloat(monthlyAmount)
+    if (!effectiveFrom || !(amount > 0)) {
+      toast.error('Enter a positive monthly amount and an effective date')
+      return
+    }
+    if (effectiveTo && effectiveTo < effectiveFrom) {
+      toast.error('The end date must be on or after the start date')
+      return
+    }
+
+    setSaving(true)
+    try {
+      await createPropertyCost({
+        propertyId,
+        category,
+        description: description || undefined,
+        monthlyAmount: amount,
+        effectiveFrom: fromLocalDate(effectiveFrom),
+        effectiveTo: effectiveTo ? fromLocalDate(effectiveTo) : undefined,
+        notes: notes || undefined,
+      })
+      toast.success('Cost added')
+      onOpenChange(false)
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to add cost')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Add Property Cost</DialogTitle>
+          <DialogDescription>
+            Monthly amounts are prorated by day for billing periods that cover part of a month.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Category</Label>
+              <Select
+                value={category}
+                onValueChange={(value) => setCategory(value as PropertyCostCategory)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(categoryLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Monthly Amount (USD)</Label>
+              <Input
+                type="number"
+                min={0}
+                step="0.01"
+                value={monthlyAmount}
+                onChange={(e) => setMonthlyAmount(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Description</Label>
+            <Input
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="e.g. Head lease with landlord"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Effective From</Label>
+              <DatePicker date={effectiveFrom} onDateChange={setEffectiveFrom} />
+            </div>
+            <div className="space-y-2">
+              <Label>Effective To</Label>
+              <DatePicker date={effectiveTo} onDateChange={setEffectiveTo} placeholder="Ongoing" />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Notes</Label>
+            <Textarea value={notes} onChange={(e) => setNotes(e.target.value)} rows={2} />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={saving}>
+            Add Cost
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,439 @@
+'use client'
+
+import * as React from 'react'
+import { DollarSign, History, Plus, Trash2, AlertCircle } from 'lucide-react'
+
+import { useProperties, useRateCards } from '@/hooks/use-housing'
+import { ProrationMethod, RateCardScope, type RateCard } from '@/lib/types/housing'
+import { isRateCardActiveOn } from '@/lib/housing/rate-cards'
+import { DEFAULT_PRORATION_METHOD } from '@/lib/billing/proration'
+import { fromLocalDate, toDateKey } from '@/lib/dates'
+import { DatePicker, LoadingSpinner } from '@/components/shared'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { toast } from 'sonner'
+
+interface RateCardManagerProps {
+  propertyId?: string
+  className?: string
+}
+
+const scopeLabels: Record<RateCardScope, string> = {
+  [RateCardScope.PROPERTY]: 'Property',
+  [RateCardScope.ROOM_TYPE]: 'Room Type',
+  [RateCardScope.ROOM]: 'Room',
+}
+
+const prorationLabels: Record<ProrationMethod, string> = {
+  [ProrationMethod.DAILY]: 'Actual days',
+  [ProrationMethod.THIRTY_DAY_MONTH]: '30-day month',
+  [ProrationMethod.THIRTY_360]: '30/360',
+  [ProrationMethod.WHOLE_WEEK]: 'Whole weeks',
+}
+
+const currency = new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' })
+
+export function RateCardManager({ propertyId: initialPropertyId, className }: RateCardManagerProps) {
+  const { properties } = useProperties()
+  const [propertyId, setPropertyId] = React.useState<string | undefined>(initialPropertyId)
+  const [showForm, setShowForm] = React.useState(false)
+
+  React.useEffect(() => {
+    if (!propertyId && properties.length > 0) {
+      setPropertyId(properties[0].id)
+    }
+  }, [properties, propertyId])
+
+  const property = properties.find(p => p.id === propertyId)
+  const { rateCards, isLoading, error, deleteRateCard } = useRateCards(
+    propertyId ? { propertyId } : undefined
+  )
+
+  const rooms = property?.rooms || []
+
+  const describeTarget = (card: RateCard) => {
+    switch (card.scope) {
+      case RateCardScope.ROOM:
+        return `Room ${rooms.find(r => r.id === card.roomId)?.roomNumber ?? card.roomId}`
+      case RateCardScope.ROOM_TYPE:
+        return `${card.roomType} rooms`
+      default:
+        return property?.name ?? 'All rooms'
+    }
+  }
+
+  const rateStatus = (card: RateCard) => {
+    const today = new Date()
+    if (isRateCardActiveOn(card, today)) return { label: 'Current', variant: 'default' as const }
+    if (card.effectiveFrom > today) return { label: 'Scheduled', variant: 'secondary' as const }
+    return { label: 'Expired', variant: 'outline' as const }
+  }
+
+  const handleDelete = async (card: RateCard) => {
+    try {
+      await deleteRateCard(card.id)
+      toast.success('Scheduled rate removed')
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to remove rate')
+    }
+  }
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <DollarSign className="h-5 w-5" />
+              Rent Rate Cards
+            </CardTitle>
+            <CardDescription>
+              Effective-dated rent rates used when generating housing charges
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Select value={propertyId} onValueChange={setPropertyId}>
+              <SelectTrigger className="w-[220px]">
+                <SelectValue placeholder="Select property" />
+              </SelectTrigger>
+              <SelectContent>
+                {properties.map(p => (
+                  <SelectItem key={p.id} value={p.id}>
+                    {p.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button onClick={() => setShowForm(true)} disabled={!propertyId} className="gap-2">
+              <Plus className="h-4 w-4" />
+              Schedule Rate
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {error ? (
+          <div className="text-center py-8">
+            <AlertCircle className="h-8 w-8 text-red-500 mx-auto mb-2" />
+            <p className="text-sm text-muted-foreground">Failed to load rate cards</p>
+          </div>
+        ) : isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <LoadingSpinner />
+          </div>
+        ) : rateCards && rateCards.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Applies To</TableHead>
+                <TableHead>Scope</TableHead>
+                <TableHead className="text-right">Monthly Rate</TableHead>
+                <TableHead className="text-right">Market Rent</TableHead>
+                <TableHead>Proration</TableHead>
+                <TableHead>Effective</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Notes</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rateCards.map(card => {
+                const status = rateStatus(card)
+                return (
+                  <TableRow key={card.id}>
+                    <TableCell className="font-medium">{describeTarget(card)}</TableCell>
+                    <TableCell>{scopeLabels[card.scope]}</TableCell>
+                    <TableCell className="text-right">{currency.format(card.monthlyRate)}</TableCell>
+                    <TableCell className="text-right text-muted-foreground">
+                      {card.fairMarketRent !== undefined ? currency.format(card.fairMarketRent) : '—'}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {prorationLabels[card.prorationMethod ?? DEFAULT_PRORATION_METHOD]}
+                      {!card.prorationMethod && (
+                        <span className="text-muted-foreground"> (default)</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {toDateKey(card.effectiveFrom)} –{' '}
+                      {card.effectiveTo ? toDateKey(card.effectiveTo) : 'ongoing'}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={status.variant}>{status.label}</Badge>
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground max-w-[200px] truncate">
+                      {card.notes}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {status.label === 'Scheduled' && (
+                        <Button variant="ghost" size="sm" onClick={() => handleDelete(card)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                )
+              })}
+            </TableBody>
+          </Table>
+        ) : (
+          <div className="text-center py-8">
+            <History className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+            <h3 className="text-lg font-semibold mb-2">No rates configured</h3>
+            <p className="text-muted-foreground">
+              Rooms without a rate card are charged their default monthly rate
+            </p>
+          </div>
+        )}
+      </CardContent>
+
+      {propertyId && (
+        <RateCardForm
+          open={showForm}
+          onOpenChange={setShowForm}
+          propertyId={propertyId}
+          rooms={rooms.map(r => ({ id: r.id, roomNumber: r.roomNumber, roomType: r.roomType }))}
+        />
+      )}
+    </Card>
+  )
+}
+
+interface RateCardFormProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  propertyId: string
+  rooms: { id: string; roomNumber: string; roomType?: string }[]
+}
+
+function RateCardForm({ open, onOpenChange, propertyId, rooms }: RateCardFormProps) {
+  const { createRateCard } = useRateCards({ propertyId })
+  const [scope, setScope] = React.useState<RateCardScope>(RateCardScope.PROPERTY)
+  const [roomId, setRoomId] = React.useState<string>()
+  const [roomType, setRoomType] = React.useState('')
+  const [monthlyRate, setMonthlyRate] = React.useState('')
+  const [fairMarketRent, setFairMarketRent] = React.useState('')
+  const [prorationMethod, setProrationMethod] = React.useState<ProrationMethod | 'default'>('default')
+  const [effectiveFrom, setEffectiveFrom] = React.useState<Date | undefined>(new Date())
+  const [notes, setNotes] = React.useState('')
+  const [saving, setSaving] = React.useState(false)
+
+  const roomTypes = Array.from(new Set(rooms.map(r => r.roomType).filter(Boolean))) as string[]
+
+  React.useEffect(() => {
+    if (open) {
+      setScope(RateCardScope.PROPERTY)
+      setRoomId(undefined)
+      setRoomType('')
+      setMonthlyRate('')
+      setFairMarketRent('')
+      setProrationMethod('default')
+      setEffectiveFrom(new Date())
+      setNotes('')
+    }
+  }, [open])
+
+  const handleSubmit = async () => {
+    const rate = parseFloat(monthlyRate)
+    if (!effectiveFrom || !(rate > 0)) {
+      toast.error('Enter a positive monthly rate and an effective date')
+      return
+    }
+    const marketRent = fairMarketRent ? parseFloat(fairMarketRent) : undefined
+    if (marketRent !== undefined && !(marketRent > 0)) {
+      toast.error('Fair market rent must be positive')
+      return
+    }
+
+    setSaving(true)
+    try {
+      await createRateCard({
+        scope,
+        propertyId,
+        roomType: scope === RateCardScope.ROOM_TYPE ? roomType : undefined,
+        roomId: scope === RateCardScope.ROOM ? roomId : undefined,
+        monthlyRate: rate,
+        fairMarketRent: marketRent,
+        prorationMethod: prorationMethod === 'default' ? undefined : prorationMethod,
+        effectiveFrom: fromLocalDate(effectiveFrom),
+        notes: notes || undefined,
+      })
+      toast.success('Rate scheduled')
+      onOpenChange(false)
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to schedule rate')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const targetMissing =
+    (scope === RateCardScope.ROOM && !roomId) ||
+    (scope === RateCardScope.ROOM_TYPE && !roomType)
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Schedule Rate Change</DialogTitle>
+          <DialogDescription>
+            The current rate for the same target ends the day before the new rate takes effect.
+            Charges for periods spanning the change are prorated day by day.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Applies To</Label>
+            <Select value={scope} onValueChange={(value) => setScope(value as RateCardScope)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(scopeLabels).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {scope === RateCardScope.ROOM && (
+            <div className="space-y-2">
+              <Label>Room</Label>
+              <Select value={roomId} onValueChange={setRoomId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select room" />
+                </SelectTrigger>
+                <SelectContent>
+                  {rooms.map(room => (
+                    <SelectItem key={room.id} value={room.id}>
+                      Room {room.roomNumber}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {scope === RateCardScope.ROOM_TYPE && (
+            <div className="space-y-2">
+              <Label>Room Type</Label>
+              <Input
+                list="rate-card-room-types"
+                value={roomType}
+                onChange={(e) => setRoomType(e.target.value)}
+                placeholder="e.g. double"
+              />
+              <datalist id="rate-card-room-types">
+                {roomTypes.map(type => (
+                  <option key={type} value={type} />
+                ))}
+              </datalist>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Monthly Rate (USD)</Label>
+              <Input
+                type="number"
+                min={0}
+                step="0.01"
+                value={monthlyRate}
+                onChange={(e) => setMonthlyRate(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Effective From</Label>
+              <DatePicker date={effectiveFrom} onDateChange={setEffectiveFrom} />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Fair Market Rent (USD, optional)</Label>
+            <Input
+              type="number"
+              min={0}
+              step="0.01"
+              value={fairMarketRent}
+              onChange={(e) => setFairMarketRent(e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">
+              Monthly open-market value; rent charged below it is reported as imputed income
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Proration</Label>
+            <Select
+              value={prorationMethod}
+              onValueChange={(value) => setProrationMethod(value as ProrationMethod | 'default')}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="default">
+                  System default ({prorationLabels[DEFAULT_PRORATION_METHOD]})
+                </SelectItem>
+                {Object.entries(prorationLabels).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              How rent for part of a month is worked out at this rate
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Notes</Label>
+            <Textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Reason for the rate change"
+              rows={2}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={saving || targetMissing}>
+            Schedule Rate
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
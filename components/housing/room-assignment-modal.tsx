@@ -2,12 +2,26 @@
 
 import * as React from 'react'
 import { z } from 'zod'
-import { CalendarIcon, User, Bed, Building } from 'lucide-react'
+import { CalendarIcon, User, Bed, Building, AlertTriangle } from 'lucide-react'
 import { format } from 'date-fns'
 
-import type { Room, CreateRoomAssignment, Staff } from '@/lib/types/housing'
-import { CreateRoomAssignmentSchema } from '@/lib/types/housing'
-import { useRoomAssignments } from '@/hooks/use-housing'
+import type {
+  Room,
+  CreateRoomAssignment,
+  Staff,
+  AssignmentCheck,
+  AlternativeRoom,
+  Bed as RoomBed,
+} from '@/lib/types/housing'
+import {
+  CreateRoomAssignmentSchema,
+  AssignmentConflictKind,
+  AssignmentStatus,
+  BedStatus,
+} from '@/lib/types/housing'
+import { useBeds, useRoomAssignments } from '@/hooks/use-housing'
+import { ROOM_CONFLICT_KINDS } from '@/lib/housing/assignment-conflicts'
+import { fromLocalDate } from '@/lib/dates'
 import { useStaff } from '@/hooks/use-auth'
 import { 
   Modal, 
@@ -22,8 +36,17 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Badge } from '@/components/ui/badge'
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar'
 import { Separator } from '@/components/ui/separator'
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
 import { toast } from 'sonner'
 
+const conflictLabels: Record<AssignmentConflictKind, string> = {
+  [AssignmentConflictKind.STAFF_OVERLAP]: 'Already housed',
+  [AssignmentConflictKind.CAPACITY]: 'Room full',
+  [AssignmentConflictKind.ROOM_STATUS]: 'Room unavailable',
+  [AssignmentConflictKind.BED_TAKEN]: 'Bed taken',
+  [AssignmentConflictKind.BED_STATUS]: 'Bed out of service',
+}
+
 interface RoomAssignmentModalProps {
   room: Room
   open: boolean
@@ -39,8 +62,15 @@ export function RoomAssignmentModal({
 }: RoomAssignmentModalProps) {
   const [selectedStaff, setSelectedStaff] = React.useState<Staff | null>(null)
   const [step, setStep] = React.useState<'select-staff' | 'assignment-details'>('select-staff')
+  // The last request that clashed, kept so an alternative room can take it
+  const [conflictCheck, setConflictCheck] = React.useState<{
+    request: CreateRoomAssignment
+    result: AssignmentCheck
+  } | null>(null)
+  const [assigningId, setAssigningId] = React.useState<string | null>(null)
   
-  const { createAssignment } = useRoomAssignments()
+  const { checkAssignment, createAssignment } = useRoomAssignments()
+  const { beds } = useBeds({ roomId: room.id })
   const { staff, isLoading: staffLoading } = useStaff({
     housingEligible: true,
     employmentStatus: 'active',
@@ -51,6 +81,7 @@ export function RoomAssignmentModal({
     if (open) {
       setStep('select-staff')
       setSelectedStaff(null)
+      setConflictCheck(null)
     }
   }, [open])
 
@@ -62,6 +93,14 @@ export function RoomAssignmentModal({
   const handleBack = () => {
     setStep('select-staff')
     setSelectedStaff(null)
+    setConflictCheck(null)
+  }
+
+  const assign = async (assignmentData: CreateRoomAssignment, roomNumber: string) => {
+    await createAssignment(assignmentData)
+    toast.success(`Room ${roomNumber} assigned to ${selectedStaff?.firstName} ${selectedStaff?.lastName}`)
+    onSuccess?.()
+    onOpenChange(false)
   }
 
   const handleAssignmentSubmit = async (data: any) => {
@@ -71,22 +110,57 @@ export function RoomAssignmentModal({
       const assignmentData: CreateRoomAssignment = {
         roomId: room.id,
         staffId: selectedStaff.id,
-        startDate: data.startDate,
-        endDate: data.endDate,
-        status: 'active',
-        moveInDate: data.moveInDate,
+        startDate: fromLocalDate(data.startDate),
+        endDate: data.endDate ? fromLocalDate(data.endDate) : undefined,
+        bedId: data.bedId || undefined,
+        status: AssignmentStatus.ACTIVE,
+        moveInDate: data.moveInDate ? fromLocalDate(data.moveInDate) : undefined,
+      }
+
+      // Show clashes next to the form instead of failing on save
+      const result = await checkAssignment(assignmentData)
+      if (result.conflicts.length > 0) {
+        setConflictCheck({ request: assignmentData, result })
+        return
       }
 
-      await createAssignment(assignmentData)
-      toast.success(`Room ${room.roomNumber} assigned to ${selectedStaff.firstName} ${selectedStaff.lastName}`)
-      onSuccess?.()
-      onOpenChange(false)
+      setConflictCheck(null)
+      await assign(assignmentData, room.roomNumber)
     } catch (error) {
       console.error('Assignment failed:', error)
       throw error
     }
   }
 
+  const handleAlternativeSelect = async (alternative: AlternativeRoom) => {
+    if (!conflictCheck) return
+
+    setAssigningId(alternative.roomId)
+    try {
+      await assign(
+        { ...conflictCheck.request, roomId: alternative.roomId, bedId: undefined },
+        alternative.roomNumber
+      )
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to assign room')
+    } finally {
+      setAssigningId(null)
+    }
+  }
+
+  const handleBedSelect = async (bed: Pick<RoomBed, 'id' | 'label'>) => {
+    if (!conflictCheck) return
+
+    setAssigningId(bed.id)
+    try {
+      await assign({ ...conflictCheck.request, bedId: bed.id }, room.roomNumber)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to assign bed')
+    } finally {
+      setAssigningId(null)
+    }
+  }
+
   return (
     <Modal
       open={open}
@@ -110,7 +184,12 @@ export function RoomAssignmentModal({
         <AssignmentDetailsStep
           room={room}
           staff={selectedStaff!}
+          beds={beds || []}
+          conflictCheck={conflictCheck?.result ?? null}
+          assigningId={assigningId}
           onSubmit={handleAssignmentSubmit}
+          onSelectAlternative={handleAlternativeSelect}
+          onSelectBed={handleBedSelect}
           onBack={handleBack}
         />
       )}
@@ -218,11 +297,26 @@ function StaffSelectionStep({ room, staff, loading, onSelect }: StaffSelectionSt
 interface AssignmentDetailsStepProps {
   room: Room
   staff: Staff
+  beds: RoomBed[]
+  conflictCheck: AssignmentCheck | null
+  assigningId: string | null
   onSubmit: (data: any) => Promise<void>
+  onSelectAlternative: (alternative: AlternativeRoom) => void
+  onSelectBed: (bed: Pick<RoomBed, 'id' | 'label'>) => void
   onBack: () => void
 }
 
-function AssignmentDetailsStep({ room, staff, onSubmit, onBack }: AssignmentDetailsStepProps) {
+function AssignmentDetailsStep({
+  room,
+  staff,
+  beds,
+  conflictCheck,
+  assigningId,
+  onSubmit,
+  onSelectAlternative,
+  onSelectBed,
+  onBack,
+}: AssignmentDetailsStepProps) {
   const [loading, setLoading] = React.useState(false)
 
   // Form fields
@@ -246,6 +340,21 @@ function AssignmentDetailsStep({ room, staff, onSubmit, onBack }: AssignmentDeta
       type: 'date',
       description: 'When the staff member is expected to move in',
     },
+    // Beds out of service cannot be picked
+    ...(beds.length > 0
+      ? [
+          {
+            name: 'bedId',
+            label: 'Bed',
+            type: 'select' as const,
+            placeholder: 'Any bed',
+            description: 'Leave empty to assign the room without a bed',
+            options: beds
+              .filter(bed => bed.status === BedStatus.IN_SERVICE)
+              .map(bed => ({ label: `Bed ${bed.label}`, value: bed.id })),
+          },
+        ]
+      : []),
   ]
 
   const defaultValues = {
@@ -303,6 +412,16 @@ function AssignmentDetailsStep({ room, staff, onSubmit, onBack }: AssignmentDeta
         </CardContent>
       </Card>
 
+      {/* Conflicts */}
+      {conflictCheck && (
+        <AssignmentConflicts
+          check={conflictCheck}
+          assigningId={assigningId}
+          onSelectAlternative={onSelectAlternative}
+          onSelectBed={onSelectBed}
+        />
+      )}
+
       {/* Assignment Form */}
       <Card>
         <CardHeader>
@@ -317,6 +436,7 @@ function AssignmentDetailsStep({ room, staff, onSubmit, onBack }: AssignmentDeta
               startDate: z.date(),
               endDate: z.date().optional(),
               moveInDate: z.date().optional(),
+              bedId: z.string().optional(),
             })}
             fields={fields}
             defaultValues={defaultValues}
@@ -330,4 +450,117 @@ function AssignmentDetailsStep({ room, staff, onSubmit, onBack }: AssignmentDeta
       </Card>
     </div>
   )
-}
\ No newline at end of file
+}
+
+// Conflicts Panel
+interface AssignmentConflictsProps {
+  check: AssignmentCheck
+  assigningId: string | null
+  onSelectAlternative: (alternative: AlternativeRoom) => void
+  onSelectBed: (bed: Pick<RoomBed, 'id' | 'label'>) => void
+}
+
+function AssignmentConflicts({
+  check,
+  assigningId,
+  onSelectAlternative,
+  onSelectBed,
+}: AssignmentConflictsProps) {
+  // Another room only helps when the room itself is the problem
+  const roomProblem = check.conflicts.some(
+    (conflict) => ROOM_CONFLICT_KINDS.includes(conflict.kind)
+  )
+
+  return (
+    <div className="space-y-4">
+      <Alert variant="destructive">
+        <AlertTriangle className="h-4 w-4" />
+        <AlertTitle>This assignment cannot be made</AlertTitle>
+        <AlertDescription>
+          <ul className="mt-2 space-y-1">
+            {check.conflicts.map((conflict, index) => (
+              <li key={index} className="flex items-start gap-2">
+                <Badge variant="outline" className="shrink-0">
+                  {conflictLabels[conflict.kind]}
+                </Badge>
+                <span>{conflict.message}</span>
+              </li>
+            ))}
+          </ul>
+        </AlertDescription>
+      </Alert>
+
+      {check.freeBeds.length > 0 && (
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-lg">Free Beds</CardTitle>
+            <CardDescription>
+              Other beds in this room that are free on every night of the same dates
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="flex flex-wrap gap-2">
+            {check.freeBeds.map((bed) => (
+              <Button
+                key={bed.id}
+                size="sm"
+                variant="outline"
+                onClick={() => onSelectBed(bed)}
+                disabled={assigningId !== null}
+              >
+                <Bed className="h-3 w-3 mr-1" />
+                {assigningId === bed.id ? 'Assigning...' : `Bed ${bed.label}`}
+              </Button>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {roomProblem && (
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-lg">Suggested Rooms</CardTitle>
+            <CardDescription>
+              Rooms with a bed free on every night of the same dates
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {check.alternatives.length > 0 ? (
+              check.alternatives.map((alternative) => (
+                <div
+                  key={alternative.roomId}
+                  className="flex items-center justify-between rounded-md border p-3"
+                >
+                  <div className="flex items-center space-x-3">
+                    <Building className="h-4 w-4 text-muted-foreground" />
+                    <div>
+                      <div className="font-medium">Room {alternative.roomNumber}</div>
+                      <div className="text-sm text-muted-foreground">
+                        {[alternative.propertyName, alternative.roomType].filter(Boolean).join(' • ')}
+                      </div>
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <Badge variant="secondary">
+                      {alternative.freeBeds} of {alternative.capacity} beds free
+                    </Badge>
+                    <Button
+                      size="sm"
+                      onClick={() => onSelectAlternative(alternative)}
+                      disabled={assigningId !== null}
+                    >
+                      {assigningId === alternative.roomId ? 'Assigning...' : 'Assign Here'}
+                    </Button>
+                  </div>
+                </div>
+              ))
+            ) : (
+              <div className="text-center py-4 text-sm text-muted-foreground">
+                No other room has space for these dates.
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
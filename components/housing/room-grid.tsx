@@ -1,14 +1,25 @@
 'use client'
 
 import * as React from 'react'
-import { Bed, Users, Settings, Plus, Eye, Edit, UserPlus } from 'lucide-react'
+import { Bed, Users, Settings, Plus, Eye, Edit, UserPlus, LayoutGrid, Wrench } from 'lucide-react'
 
-import type { Room, RoomWithAssignments, RoomStatus } from '@/lib/types/housing'
-import { useRooms } from '@/hooks/use-housing'
+import type {
+  Room,
+  RoomWithAssignments,
+  RoomStatus,
+  Bed as RoomBed,
+  BedOccupancy,
+} from '@/lib/types/housing'
+import { BedStatus } from '@/lib/types/housing'
+import { useBeds, useRooms } from '@/hooks/use-housing'
+import { summarizeBedOccupancy } from '@/lib/housing/beds'
+import type { BedStay } from '@/lib/housing/beds'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { Progress } from '@/components/ui/progress'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
 import { 
   Modal, 
   useModal, 
@@ -47,7 +58,19 @@ export function RoomGrid({
     status?: RoomStatus | 'all'
   }>({})
 
+  const [view, setView] = React.useState<'rooms' | 'beds'>('rooms')
+  const [bedToClose, setBedToClose] = React.useState<RoomBed | null>(null)
+  const [closeReason, setCloseReason] = React.useState('')
+  const [savingBedId, setSavingBedId] = React.useState<string | null>(null)
+
   const { rooms, isLoading, error } = useRooms(propertyId, filters)
+  const {
+    beds,
+    stays,
+    roomOccupancy,
+    updateBed,
+    isLoading: bedsLoading,
+  } = useBeds(propertyId ? { propertyId } : undefined)
 
   // Handle search
   const handleSearch = (query: string) => {
@@ -71,10 +94,51 @@ export function RoomGrid({
     const occupied = rooms.filter(r => r.status === 'occupied').length
     const maintenance = rooms.filter(r => r.status === 'maintenance').length
     const totalCapacity = rooms.reduce((sum, r) => sum + r.capacity, 0)
-    const occupancyRate = total > 0 ? (occupied / total) * 100 : 0
 
-    return { total, available, occupied, maintenance, totalCapacity, occupancyRate }
-  }, [rooms])
+    // Occupancy is counted in beds, which shared rooms fill one at a time
+    const bedCounts = summarizeBedOccupancy(rooms, beds || [], stays || [], new Date())
+    const usableBeds = bedCounts.occupiedBeds + bedCounts.availableBeds
+    const occupancyRate = usableBeds > 0 ? (bedCounts.occupiedBeds / usableBeds) * 100 : 0
+
+    return { total, available, occupied, maintenance, totalCapacity, occupancyRate, ...bedCounts }
+  }, [rooms, beds, stays])
+
+  // People living in a room today, placed in a bed or not
+  const occupancyOf = (roomId: string) => {
+    const { beds: roomBeds, unplaced } = roomOccupancy(roomId)
+    return roomBeds.filter(entry => entry.occupant).length + unplaced.length
+  }
+
+  const handleReturnToService = async (bed: RoomBed) => {
+    setSavingBedId(bed.id)
+    try {
+      await updateBed(bed.id, { status: BedStatus.IN_SERVICE })
+      toast.success(`Bed ${bed.label} is back in service`)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update bed')
+    } finally {
+      setSavingBedId(null)
+    }
+  }
+
+  const handleTakeOutOfService = async () => {
+    if (!bedToClose) return
+
+    setSavingBedId(bedToClose.id)
+    try {
+      await updateBed(bedToClose.id, {
+        status: BedStatus.OUT_OF_SERVICE,
+        outOfServiceReason: closeReason.trim() || undefined,
+      })
+      toast.success(`Bed ${bedToClose.label} is out of service`)
+      setBedToClose(null)
+      setCloseReason('')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update bed')
+    } finally {
+      setSavingBedId(null)
+    }
+  }
 
   if (error) {
     return (
@@ -104,14 +168,15 @@ export function RoomGrid({
             variant="success"
           />
           <KPICard
-            title="Occupied"
-            value={metrics.occupied}
+            title="Free Beds"
+            value={metrics.availableBeds}
+            description={`${metrics.outOfServiceBeds} out of service`}
             variant="default"
           />
           <KPICard
             title="Occupancy Rate"
             value={`${Math.round(metrics.occupancyRate)}%`}
-            description="current occupancy"
+            description="of beds in service"
           />
         </KPIGrid>
       )}
@@ -126,6 +191,24 @@ export function RoomGrid({
                 Manage rooms and their availability
               </CardDescription>
             </div>
+            <div className="flex items-center space-x-2">
+              <Button
+                variant={view === 'rooms' ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setView('rooms')}
+              >
+                <LayoutGrid className="h-3 w-3 mr-1" />
+                Rooms
+              </Button>
+              <Button
+                variant={view === 'beds' ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setView('beds')}
+              >
+                <Bed className="h-3 w-3 mr-1" />
+                Beds
+              </Button>
+            </div>
           </div>
         </CardHeader>
         <CardContent>
@@ -154,20 +237,37 @@ export function RoomGrid({
           </div>
 
           {/* Room Grid */}
-          {isLoading ? (
+          {isLoading || (view === 'beds' && bedsLoading) ? (
             <LoadingSpinner />
           ) : rooms && rooms.length > 0 ? (
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
-              {rooms.map((room) => (
-                <RoomCard
-                  key={room.id}
-                  room={room}
-                  onSelect={onRoomSelect}
-                  onAssign={onAssignRoom}
-                  showActions={showActions}
-                />
-              ))}
-            </div>
+            view === 'beds' ? (
+              <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+                {rooms.map((room) => (
+                  <RoomBedsCard
+                    key={room.id}
+                    room={room}
+                    occupancy={roomOccupancy(room.id)}
+                    savingBedId={savingBedId}
+                    showActions={showActions}
+                    onTakeOutOfService={setBedToClose}
+                    onReturnToService={handleReturnToService}
+                  />
+                ))}
+              </div>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
+                {rooms.map((room) => (
+                  <RoomCard
+                    key={room.id}
+                    room={room}
+                    currentOccupancy={occupancyOf(room.id)}
+                    onSelect={onRoomSelect}
+                    onAssign={onAssignRoom}
+                    showActions={showActions}
+                  />
+                ))}
+              </div>
+            )
           ) : (
             <div className="text-center py-12">
               <Bed className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
@@ -184,13 +284,153 @@ export function RoomGrid({
           )}
         </CardContent>
       </Card>
+
+      <Modal
+        open={!!bedToClose}
+        onOpenChange={(open) => {
+          if (!open) {
+            setBedToClose(null)
+            setCloseReason('')
+          }
+        }}
+        title={`Take Bed ${bedToClose?.label ?? ''} Out of Service`}
+        description="New assignments cannot use the bed until it is back in service"
+        size="sm"
+      >
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="bed-close-reason">Reason</Label>
+            <Input
+              id="bed-close-reason"
+              value={closeReason}
+              onChange={(e) => setCloseReason(e.target.value)}
+              placeholder="e.g. Broken frame"
+            />
+          </div>
+          <div className="flex justify-end space-x-2">
+            <Button variant="outline" onClick={() => setBedToClose(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleTakeOutOfService} disabled={savingBedId !== null}>
+              {savingBedId ? 'Saving...' : 'Take Out of Service'}
+            </Button>
+          </div>
+        </div>
+      </Modal>
     </div>
   )
 }
 
+// Room Beds Card Component
+interface RoomBedsCardProps {
+  room: Room
+  occupancy: { beds: BedOccupancy[]; unplaced: BedStay[] }
+  savingBedId: string | null
+  showActions?: boolean
+  onTakeOutOfService: (bed: RoomBed) => void
+  onReturnToService: (bed: RoomBed) => void
+}
+
+function RoomBedsCard({
+  room,
+  occupancy,
+  savingBedId,
+  showActions = true,
+  onTakeOutOfService,
+  onReturnToService,
+}: RoomBedsCardProps) {
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <Bed className="h-4 w-4 text-muted-foreground" />
+            <CardTitle className="text-lg">{room.roomNumber}</CardTitle>
+          </div>
+          <span className="text-xs text-muted-foreground">
+            {occupancy.beds.filter(entry => entry.occupant).length}/{occupancy.beds.length} beds taken
+          </span>
+        </div>
+      </CardHeader>
+
+      <CardContent className="space-y-2">
+        {occupancy.beds.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No beds recorded for this room</p>
+        ) : (
+          occupancy.beds.map(({ bed, occupant }) => {
+            const outOfService = bed.status === BedStatus.OUT_OF_SERVICE
+
+            return (
+              <div
+                key={bed.id}
+                className={cn(
+                  'flex items-center justify-between rounded-md border p-2 text-sm',
+                  outOfService && 'bg-muted'
+                )}
+              >
+                <div className="space-y-0.5">
+                  <div className="flex items-center space-x-2">
+                    <span className="font-medium">Bed {bed.label}</span>
+                    {outOfService ? (
+                      <Badge variant="destructive" className="text-xs">Out of service</Badge>
+                    ) : occupant ? (
+                      <Badge variant="secondary" className="text-xs">Occupied</Badge>
+                    ) : (
+                      <Badge variant="outline" className="text-xs">Free</Badge>
+                    )}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {occupant
+                      ? occupant.staffName ?? 'Assigned'
+                      : outOfService
+                        ? bed.outOfServiceReason ?? 'No reason given'
+                        : 'Nobody assigned'}
+                  </div>
+                </div>
+
+                {showActions && (
+                  outOfService ? (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => onReturnToService(bed)}
+                      disabled={savingBedId !== null}
+                    >
+                      {savingBedId === bed.id ? 'Saving...' : 'Return to Service'}
+                    </Button>
+                  ) : (
+                    // An occupied bed has to be vacated first
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => onTakeOutOfService(bed)}
+                      disabled={!!occupant || savingBedId !== null}
+                    >
+                      <Wrench className="h-3 w-3 mr-1" />
+                      Out of Service
+                    </Button>
+                  )
+                )}
+              </div>
+            )
+          })
+        )}
+
+        {occupancy.unplaced.length > 0 && (
+          <div className="pt-2 border-t text-xs text-muted-foreground">
+            No bed recorded for:{' '}
+            {occupancy.unplaced.map(stay => stay.staffName ?? 'Unknown').join(', ')}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
 // Individual Room Card Component
 interface RoomCardProps {
   room: Room
+  currentOccupancy: number
   onSelect?: (room: Room) => void
   onAssign?: (room: Room) => void
   showActions?: boolean
@@ -199,6 +439,7 @@ interface RoomCardProps {
 
 function RoomCard({
   room,
+  currentOccupancy,
   onSelect,
   onAssign,
   showActions = true,
@@ -235,7 +476,6 @@ function RoomCard({
   }
 
   const isAvailable = room.status === 'available'
-  const currentOccupancy = 0 // This would come from assignments data
   const occupancyPercentage = (currentOccupancy / room.capacity) * 100
 
   return (
@@ -274,7 +514,7 @@ function RoomCard({
         </div>
 
         {/* Occupancy Progress */}
-        {room.status === 'occupied' && (
+        {currentOccupancy > 0 && (
           <div className="space-y-1">
             <div className="flex items-center justify-between text-xs">
               <span className="text-muted-foreground">Occupancy</span>
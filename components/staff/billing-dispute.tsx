@@ -1,6 +1,6 @@
 'use client'
 
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import { format } from 'date-fns'
 import { 
   AlertTriangle,
@@ -12,7 +12,6 @@ import {
   XCircle,
   Eye,
   Search,
-  Filter,
   FileText,
   Upload,
   Paperclip
@@ -62,11 +61,21 @@ import {
   FormMessage,
 } from '@/components/ui/form'
 import { Separator } from '@/components/ui/separator'
+import { FileUpload } from '@/components/shared'
 import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
-import { z } from 'zod'
-import { useBillingDisputes } from '@/hooks/use-billing'
-import { ChargeType } from '@/lib/types/billing'
+import { toast } from 'sonner'
+import { useBillingDisputes, useStaffCharges } from '@/hooks/use-billing'
+import { isDisputeOpen } from '@/lib/billing/disputes'
+import {
+  CreateBillingDisputeSchema,
+  DisputeResolution,
+  DisputeStatus,
+  DisputeType,
+  type BillingDisputeWithDetails,
+  type CreateBillingDispute,
+  type DisputeEvidence,
+} from '@/lib/types/billing'
 import { cn } from '@/lib/utils'
 
 interface BillingDisputeProps {
@@ -75,23 +84,6 @@ interface BillingDisputeProps {
   onDisputeSubmitted?: (disputeId: string) => void
 }
 
-// Dispute types and statuses
-enum DisputeType {
-  INCORRECT_AMOUNT = 'incorrect_amount',
-  UNAUTHORIZED_CHARGE = 'unauthorized_charge',
-  BILLING_ERROR = 'billing_error',
-  PRORATION_ERROR = 'proration_error',
-  OTHER = 'other'
-}
-
-enum DisputeStatus {
-  SUBMITTED = 'submitted',
-  UNDER_REVIEW = 'under_review',
-  INVESTIGATING = 'investigating',
-  RESOLVED = 'resolved',
-  REJECTED = 'rejected'
-}
-
 const disputeTypeConfig = {
   [DisputeType.INCORRECT_AMOUNT]: {
     label: 'Incorrect Amount',
@@ -144,120 +136,283 @@ const statusConfig = {
     variant: 'outline' as const,
     icon: CheckCircle,
     color: 'text-green-600'
+  }
+}
+
+const resolutionConfig = {
+  [DisputeResolution.FULL_CREDIT]: {
+    label: 'Fully Credited',
+    icon: CheckCircle,
+    color: 'text-green-600'
+  },
+  [DisputeResolution.PARTIAL_CREDIT]: {
+    label: 'Partially Credited',
+    icon: CheckCircle,
+    color: 'text-green-600'
   },
-  [DisputeStatus.REJECTED]: {
-    label: 'Rejected',
-    variant: 'destructive' as const,
+  [DisputeResolution.CHARGE_CONFIRMED]: {
+    label: 'Charge Confirmed',
     icon: XCircle,
     color: 'text-red-600'
   }
 }
 
-// Form schema for new dispute
-const disputeSchema = z.object({
-  chargeId: z.string().min(1, 'Please select a charge'),
-  type: z.nativeEnum(DisputeType),
-  subject: z.string().min(1, 'Subject is required').max(100),
-  description: z.string().min(10, 'Please provide more details').max(1000),
-  expectedAmount: z.number().min(0).optional(),
-  attachments: z.array(z.string()).optional(),
-})
-
-type DisputeForm = z.infer<typeof disputeSchema>
-
-// Mock disputes data
-const mockDisputes = [
-  {
-    id: '1',
-    staffId: 'staff-1',
-    chargeId: 'charge-1',
-    type: DisputeType.INCORRECT_AMOUNT,
-    subject: 'Incorrect Utility Charge Amount',
-    description: 'The utility charge for January 2024 shows $125.50, but based on my usage and the rate card, it should be around $95.00. I was away for 10 days during the month.',
-    expectedAmount: 95.00,
-    status: DisputeStatus.UNDER_REVIEW,
-    createdAt: new Date('2024-01-25'),
-    updatedAt: new Date('2024-01-26'),
-    charge: {
-      id: 'charge-1',
-      type: ChargeType.UTILITIES,
-      amount: 125.50,
-      description: 'Electricity and water usage for January 2024',
-      billingPeriod: 'January 2024'
-    },
-    response: 'We are reviewing your utility usage records and will get back to you within 3 business days.',
-    responseDate: new Date('2024-01-26')
-  },
-  {
-    id: '2',
-    staffId: 'staff-1',
-    chargeId: 'charge-2',
-    type: DisputeType.PRORATION_ERROR,
-    subject: 'Incorrect Rent Proration',
-    description: 'I moved in on December 16th, but the rent charge shows full month amount instead of prorated amount for 15 days.',
-    expectedAmount: 425.00,
-    status: DisputeStatus.RESOLVED,
-    createdAt: new Date('2023-12-20'),
-    updatedAt: new Date('2023-12-22'),
-    charge: {
-      id: 'charge-2',
-      type: ChargeType.RENT,
-      amount: 850.00,
-      description: 'Monthly rent for Room 204',
-      billingPeriod: 'December 2023'
-    },
-    response: 'You are correct. The proration was not applied correctly. We have adjusted your charge to $425.00 and the difference will be credited to your next billing period.',
-    responseDate: new Date('2023-12-22'),
-    resolution: 'Charge adjusted from $850.00 to $425.00. Credit of $425.00 applied to January 2024 billing.'
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount)
+
+// The form only collects what the staff member fills in
+const disputeFormSchema = CreateBillingDisputeSchema.omit({ staffId: true })
+
+type DisputeForm = Omit<CreateBillingDispute, 'staffId'>
+
+function DisputeDetails({
+  dispute,
+  onComment,
+  onAttach,
+  onOpenEvidence
+}: {
+  dispute: BillingDisputeWithDetails
+  onComment: (body: string) => Promise<void>
+  onAttach: (files: File[]) => Promise<void>
+  onOpenEvidence: (evidence: DisputeEvidence) => Promise<void>
+}) {
+  const [comment, setComment] = useState('')
+  const [files, setFiles] = useState<File[]>([])
+  const [uploadKey, setUploadKey] = useState(0)
+  const [isSaving, setIsSaving] = useState(false)
+  const open = isDisputeOpen(dispute.status)
+  const resolution = dispute.resolution ? resolutionConfig[dispute.resolution] : null
+
+  const handleComment = async () => {
+    setIsSaving(true)
+    try {
+      await onComment(comment)
+      setComment('')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to add comment')
+    } finally {
+      setIsSaving(false)
+    }
   }
-]
-
-// Mock available charges for dispute
-const mockAvailableCharges = [
-  {
-    id: 'charge-1',
-    type: ChargeType.UTILITIES,
-    amount: 125.50,
-    description: 'Electricity and water usage for January 2024',
-    billingPeriod: 'January 2024',
-    date: new Date('2024-01-01')
-  },
-  {
-    id: 'charge-4',
-    type: ChargeType.RENT,
-    amount: 850.00,
-    description: 'Monthly rent for Room 204',
-    billingPeriod: 'February 2024',
-    date: new Date('2024-02-01')
+
+  const handleAttach = async () => {
+    setIsSaving(true)
+    try {
+      await onAttach(files)
+      setFiles([])
+      setUploadKey(key => key + 1)
+      toast.success('Evidence attached')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to attach evidence')
+    } finally {
+      setIsSaving(false)
+    }
   }
-]
+
+  return (
+    <div className="space-y-4 max-h-[70vh] overflow-y-auto pr-1">
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <p className="text-sm font-medium text-muted-foreground">Type</p>
+          <Badge variant="outline" className={disputeTypeConfig[dispute.type].color}>
+            {disputeTypeConfig[dispute.type].label}
+          </Badge>
+        </div>
+        <div>
+          <p className="text-sm font-medium text-muted-foreground">Status</p>
+          <Badge variant={statusConfig[dispute.status].variant} className="gap-1">
+            {(() => {
+              const IconComponent = statusConfig[dispute.status].icon
+              return <IconComponent className="h-3 w-3" />
+            })()}
+            {statusConfig[dispute.status].label}
+          </Badge>
+        </div>
+        <div>
+          <p className="text-sm font-medium text-muted-foreground">Disputed Charge</p>
+          <p className="text-sm font-semibold">{formatCurrency(dispute.charge.amount)}</p>
+          <p className="text-xs text-muted-foreground">{dispute.charge.description}</p>
+          {dispute.charge.periodStart && (
+            <p className="text-xs text-muted-foreground">
+              Billing period {format(dispute.charge.periodStart, 'MMM d')} - {format(dispute.charge.periodEnd ?? dispute.charge.periodStart, 'MMM d, yyyy')}
+            </p>
+          )}
+        </div>
+        <div>
+          <p className="text-sm font-medium text-muted-foreground">Submitted</p>
+          <p className="text-sm">{format(dispute.createdAt, 'PPP')}</p>
+        </div>
+        {dispute.expectedAmount !== undefined && (
+          <div>
+            <p className="text-sm font-medium text-muted-foreground">Expected Amount</p>
+            <p className="text-sm font-semibold">{formatCurrency(dispute.expectedAmount)}</p>
+          </div>
+        )}
+      </div>
+
+      <Separator />
+
+      <div>
+        <p className="text-sm font-medium text-muted-foreground mb-2">Description</p>
+        <p className="text-sm bg-muted p-3 rounded-md">{dispute.description}</p>
+      </div>
+
+      {open && (
+        <div className="bg-blue-50 border border-blue-200 p-3 rounded-md text-sm">
+          This charge is on hold and will not be deducted from your pay while the dispute is open.
+        </div>
+      )}
+
+      {resolution && (
+        <div>
+          <p className="text-sm font-medium text-muted-foreground mb-2">Resolution</p>
+          <div className="bg-green-50 border border-green-200 p-3 rounded-md space-y-1">
+            <p className={cn('text-sm font-medium flex items-center gap-1', resolution.color)}>
+              <resolution.icon className="h-4 w-4" />
+              {resolution.label}
+              {dispute.creditAmount > 0 && ` - ${formatCurrency(dispute.creditAmount)} credit`}
+            </p>
+            {dispute.resolutionNotes && <p className="text-sm">{dispute.resolutionNotes}</p>}
+            {dispute.creditAmount > 0 && (
+              <p className="text-xs text-muted-foreground">
+                The credit is taken off the charge in the next payroll export.
+              </p>
+            )}
+            {dispute.resolvedAt && (
+              <p className="text-xs text-muted-foreground">
+                Resolved on {format(dispute.resolvedAt, 'PPP')}
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+
+      <Separator />
+
+      <div className="space-y-2">
+        <p className="text-sm font-medium text-muted-foreground flex items-center gap-1">
+          <Paperclip className="h-4 w-4" />
+          Evidence ({dispute.evidence.length})
+        </p>
+        {dispute.evidence.map(evidence => (
+          <div key={evidence.id} className="flex items-center justify-between rounded-md border p-2">
+            <div className="flex items-center gap-2 text-sm">
+              <FileText className="h-4 w-4 text-muted-foreground" />
+              <span>{evidence.fileName}</span>
+              <span className="text-xs text-muted-foreground">{Math.ceil(evidence.fileSize / 1024)} KB</span>
+            </div>
+            <Button variant="ghost" size="sm" onClick={() => onOpenEvidence(evidence)}>
+              <Eye className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        {open && (
+          <div className="space-y-2">
+            <FileUpload key={uploadKey} multiple maxFiles={5} onFilesChange={setFiles} />
+            {files.length > 0 && (
+              <Button size="sm" className="gap-2" onClick={handleAttach} disabled={isSaving}>
+                <Upload className="h-4 w-4" />
+                Attach {files.length} File{files.length === 1 ? '' : 's'}
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+
+      <Separator />
+
+      <div className="space-y-2">
+        <p className="text-sm font-medium text-muted-foreground flex items-center gap-1">
+          <MessageSquare className="h-4 w-4" />
+          Conversation
+        </p>
+        {dispute.comments.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No comments yet.</p>
+        ) : (
+          dispute.comments.map(entry => (
+            <div
+              key={entry.id}
+              className={cn(
+                'p-3 rounded-md text-sm',
+                entry.authorId === dispute.createdBy ? 'bg-muted' : 'bg-blue-50 border border-blue-200'
+              )}
+            >
+              <p>{entry.body}</p>
+              <p className="text-xs text-muted-foreground mt-1">
+                {entry.authorId === dispute.createdBy ? 'You' : 'Billing team'} - {format(entry.createdAt, 'PPp')}
+              </p>
+            </div>
+          ))
+        )}
+        {open && (
+          <div className="flex gap-2">
+            <Textarea
+              placeholder="Add a comment for the reviewer..."
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              className="min-h-[60px]"
+            />
+            <Button
+              size="icon"
+              onClick={handleComment}
+              disabled={isSaving || !comment.trim()}
+            >
+              <Send className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
 
 export function BillingDispute({ staffId, chargeId, onDisputeSubmitted }: BillingDisputeProps) {
   const [searchTerm, setSearchTerm] = useState('')
   const [statusFilter, setStatusFilter] = useState<string>('all')
   const [typeFilter, setTypeFilter] = useState<string>('all')
   const [isNewDisputeOpen, setIsNewDisputeOpen] = useState(false)
-  const [selectedDispute, setSelectedDispute] = useState<any>(null)
+  const [selectedDisputeId, setSelectedDisputeId] = useState<string | null>(null)
+  const [evidenceFiles, setEvidenceFiles] = useState<File[]>([])
+  const [isSubmitting, setIsSubmitting] = useState(false)
 
-  // In real implementation, this would fetch data based on staffId
-  const { disputes, isLoading, error, submitDispute, refresh } = useBillingDisputes(staffId)
-  
-  // Use mock data for demonstration
-  const billingDisputes = mockDisputes
+  const {
+    disputes,
+    isLoading,
+    error,
+    submitDispute,
+    addComment,
+    addEvidence,
+    getEvidenceUrl,
+    refresh
+  } = useBillingDisputes(staffId)
+  const { charges } = useStaffCharges(staffId)
 
   const form = useForm<DisputeForm>({
-    resolver: zodResolver(disputeSchema),
+    resolver: zodResolver(disputeFormSchema),
     defaultValues: {
       chargeId: chargeId || '',
       type: DisputeType.INCORRECT_AMOUNT,
       subject: '',
       description: '',
-      attachments: [],
     },
   })
 
+  // Arriving from a charge's "Dispute Charge" button opens the form on it
+  useEffect(() => {
+    if (!chargeId) return
+    form.setValue('chargeId', chargeId)
+    setIsNewDisputeOpen(true)
+  }, [chargeId, form])
+
+  // A charge can only be under one open dispute at a time
+  const heldChargeIds = new Set(
+    disputes.filter(dispute => isDisputeOpen(dispute.status)).map(dispute => dispute.chargeId)
+  )
+  const availableCharges = (charges || []).filter(charge => !heldChargeIds.has(charge.id))
+  const selectedDispute = disputes.find(dispute => dispute.id === selectedDisputeId) ?? null
+
   // Filter disputes based on search and filters
-  const filteredDisputes = billingDisputes.filter(dispute => {
+  const filteredDisputes = disputes.filter(dispute => {
     const matchesSearch = searchTerm === '' || 
       dispute.subject.toLowerCase().includes(searchTerm.toLowerCase()) ||
       dispute.description.toLowerCase().includes(searchTerm.toLowerCase())
@@ -269,16 +424,26 @@ export function BillingDispute({ staffId, chargeId, onDisputeSubmitted }: Billin
   })
 
   const onSubmit = async (data: DisputeForm) => {
+    setIsSubmitting(true)
     try {
-      // In real implementation, this would call the API
-      console.log('Submitting dispute:', data)
-      
-      // Mock successful submission
+      const dispute = await submitDispute({ ...data, staffId }, evidenceFiles)
+      toast.success('Dispute submitted. The charge is on hold until it has been reviewed.')
       setIsNewDisputeOpen(false)
+      setEvidenceFiles([])
       form.reset()
-      onDisputeSubmitted?.('new-dispute-id')
+      onDisputeSubmitted?.(dispute.id)
     } catch (error) {
-      console.error('Failed to submit dispute:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to submit dispute')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const openEvidence = async (evidence: DisputeEvidence) => {
+    try {
+      window.open(await getEvidenceUrl(evidence), '_blank')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to open file')
     }
   }
 
@@ -300,7 +465,7 @@ export function BillingDispute({ staffId, chargeId, onDisputeSubmitted }: Billin
           <div className="text-center">
             <AlertTriangle className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
             <p className="text-muted-foreground">Failed to load billing disputes</p>
-            <Button variant="outline" className="mt-4" onClick={() => window.location.reload()}>
+            <Button variant="outline" className="mt-4" onClick={() => refresh()}>
               Try Again
             </Button>
           </div>
@@ -330,11 +495,11 @@ export function BillingDispute({ staffId, chargeId, onDisputeSubmitted }: Billin
                   New Dispute
                 </Button>
               </DialogTrigger>
-              <DialogContent className="max-w-2xl">
+              <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
                 <DialogHeader>
                   <DialogTitle>Submit Billing Dispute</DialogTitle>
                   <DialogDescription>
-                    Dispute a charge or report a billing issue
+                    The charge is held out of payroll deductions while the dispute is reviewed
                   </DialogDescription>
                 </DialogHeader>
                 
@@ -346,18 +511,18 @@ export function BillingDispute({ staffId, chargeId, onDisputeSubmitted }: Billin
                       render={({ field }) => (
                         <FormItem>
                           <FormLabel>Select Charge to Dispute</FormLabel>
-                          <Select onValueChange={field.onChange} defaultValue={field.value}>
+                          <Select onValueChange={field.onChange} value={field.value}>
                             <FormControl>
                               <SelectTrigger>
                                 <SelectValue placeholder="Select a charge" />
                               </SelectTrigger>
                             </FormControl>
                             <SelectContent>
-                              {mockAvailableCharges.map((charge) => (
+                              {availableCharges.map((charge) => (
                                 <SelectItem key={charge.id} value={charge.id}>
                                   <div className="flex items-center justify-between w-full">
                                     <span>{charge.description}</span>
-                                    <span className="ml-2 font-medium">${charge.amount}</span>
+                                    <span className="ml-2 font-medium">{formatCurrency(charge.amount)}</span>
                                   </div>
                                 </SelectItem>
                               ))}
@@ -446,6 +611,7 @@ export function BillingDispute({ staffId, chargeId, onDisputeSubmitted }: Billin
                               step="0.01"
                               placeholder="0.00"
                               {...field}
+                              value={field.value ?? ''}
                               onChange={(e) => field.onChange(e.target.value ? parseFloat(e.target.value) : undefined)}
                             />
                           </FormControl>
@@ -457,11 +623,19 @@ export function BillingDispute({ staffId, chargeId, onDisputeSubmitted }: Billin
                       )}
                     />
 
+                    <div className="space-y-2">
+                      <p className="text-sm font-medium">Evidence (Optional)</p>
+                      <FileUpload multiple maxFiles={5} onFilesChange={setEvidenceFiles} />
+                      <p className="text-sm text-muted-foreground">
+                        Receipts, leave approvals or anything else that supports your dispute
+                      </p>
+                    </div>
+
                     <DialogFooter>
                       <Button type="button" variant="outline" onClick={() => setIsNewDisputeOpen(false)}>
                         Cancel
                       </Button>
-                      <Button type="submit" className="gap-2">
+                      <Button type="submit" className="gap-2" disabled={isSubmitting}>
                         <Send className="h-4 w-4" />
                         Submit Dispute
                       </Button>
@@ -540,27 +714,29 @@ export function BillingDispute({ staffId, chargeId, onDisputeSubmitted }: Billin
                         </div>
                       </TableCell>
                       <TableCell>
-                        <Badge 
-                          variant="outline" 
-                          className={`${disputeTypeConfig[dispute.type as keyof typeof disputeTypeConfig]?.color || 'text-gray-600'}`}
-                        >
-                          {disputeTypeConfig[dispute.type as keyof typeof disputeTypeConfig]?.label || dispute.type}
+                        <Badge variant="outline" className={disputeTypeConfig[dispute.type].color}>
+                          {disputeTypeConfig[dispute.type].label}
                         </Badge>
                       </TableCell>
                       <TableCell>
                         <div className="text-sm">
-                          <div className="font-medium">${dispute.charge.amount}</div>
+                          <div className="font-medium">{formatCurrency(dispute.charge.amount)}</div>
                           <div className="text-muted-foreground">{dispute.charge.description}</div>
                         </div>
                       </TableCell>
                       <TableCell>
                         <Badge variant={statusConfig[dispute.status].variant} className="gap-1">
                           {(() => {
-                            const IconComponent = statusConfig[dispute.status].icon;
-                            return <IconComponent className="h-3 w-3" />;
+                            const IconComponent = statusConfig[dispute.status].icon
+                            return <IconComponent className="h-3 w-3" />
                           })()}
                           {statusConfig[dispute.status].label}
                         </Badge>
+                        {dispute.resolution && (
+                          <div className={cn('text-xs mt-1', resolutionConfig[dispute.resolution].color)}>
+                            {resolutionConfig[dispute.resolution].label}
+                          </div>
+                        )}
                       </TableCell>
                       <TableCell>
                         <span className="text-sm">
@@ -568,101 +744,13 @@ export function BillingDispute({ staffId, chargeId, onDisputeSubmitted }: Billin
                         </span>
                       </TableCell>
                       <TableCell className="text-right">
-                        <Dialog>
-                          <DialogTrigger asChild>
-                            <Button 
-                              variant="ghost" 
-                              size="sm"
-                              onClick={() => setSelectedDispute(dispute)}
-                            >
-                              <Eye className="h-4 w-4" />
-                            </Button>
-                          </DialogTrigger>
-                          <DialogContent className="max-w-2xl">
-                            <DialogHeader>
-                              <DialogTitle>Dispute Details</DialogTitle>
-                              <DialogDescription>
-                                {selectedDispute?.subject}
-                              </DialogDescription>
-                            </DialogHeader>
-                            {selectedDispute && (
-                              <div className="space-y-4">
-                                <div className="grid grid-cols-2 gap-4">
-                                  <div>
-                                    <p className="text-sm font-medium text-muted-foreground">Type</p>
-                                    <Badge 
-                                      variant="outline" 
-                                      className={disputeTypeConfig[selectedDispute.type as keyof typeof disputeTypeConfig]?.color || 'text-gray-600'}
-                                    >
-                                      {disputeTypeConfig[selectedDispute.type as keyof typeof disputeTypeConfig]?.label || selectedDispute.type}
-                                    </Badge>
-                                  </div>
-                                  <div>
-                                    <p className="text-sm font-medium text-muted-foreground">Status</p>
-                                    <Badge variant={statusConfig[selectedDispute.status as keyof typeof statusConfig]?.variant as any || 'secondary'} className="gap-1">
-                                      {(() => {
-                                        const config = statusConfig[selectedDispute.status as keyof typeof statusConfig];
-                                        if (config?.icon) {
-                                          const IconComponent = config.icon;
-                                          return <IconComponent className="h-3 w-3" />;
-                                        }
-                                        return null;
-                                      })()}
-                                      {statusConfig[selectedDispute.status as keyof typeof statusConfig]?.label || selectedDispute.status}
-                                    </Badge>
-                                  </div>
-                                  <div>
-                                    <p className="text-sm font-medium text-muted-foreground">Disputed Charge</p>
-                                    <p className="text-sm font-semibold">${selectedDispute.charge.amount}</p>
-                                    <p className="text-xs text-muted-foreground">{selectedDispute.charge.description}</p>
-                                  </div>
-                                  <div>
-                                    <p className="text-sm font-medium text-muted-foreground">Created</p>
-                                    <p className="text-sm">{format(selectedDispute.createdAt, 'PPP')}</p>
-                                  </div>
-                                  {selectedDispute.expectedAmount && (
-                                    <div>
-                                      <p className="text-sm font-medium text-muted-foreground">Expected Amount</p>
-                                      <p className="text-sm font-semibold">${selectedDispute.expectedAmount}</p>
-                                    </div>
-                                  )}
-                                </div>
-                                
-                                <Separator />
-                                
-                                <div>
-                                  <p className="text-sm font-medium text-muted-foreground mb-2">Description</p>
-                                  <p className="text-sm bg-muted p-3 rounded-md">
-                                    {selectedDispute.description}
-                                  </p>
-                                </div>
-                                
-                                {selectedDispute.response && (
-                                  <div>
-                                    <p className="text-sm font-medium text-muted-foreground mb-2">Response</p>
-                                    <div className="bg-blue-50 border border-blue-200 p-3 rounded-md">
-                                      <p className="text-sm">{selectedDispute.response}</p>
-                                      {selectedDispute.responseDate && (
-                                        <p className="text-xs text-muted-foreground mt-2">
-                                          Responded on {format(selectedDispute.responseDate, 'PPP')}
-                                        </p>
-                                      )}
-                                    </div>
-                                  </div>
-                                )}
-                                
-                                {selectedDispute.resolution && (
-                                  <div>
-                                    <p className="text-sm font-medium text-muted-foreground mb-2">Resolution</p>
-                                    <div className="bg-green-50 border border-green-200 p-3 rounded-md">
-                                      <p className="text-sm">{selectedDispute.resolution}</p>
-                                    </div>
-                                  </div>
-                                )}
-                              </div>
-                            )}
-                          </DialogContent>
-                        </Dialog>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setSelectedDisputeId(dispute.id)}
+                        >
+                          <Eye className="h-4 w-4" />
+                        </Button>
                       </TableCell>
                     </TableRow>
                   ))}
@@ -687,34 +775,53 @@ export function BillingDispute({ staffId, chargeId, onDisputeSubmitted }: Billin
           )}
 
           {/* Summary Stats */}
-          {billingDisputes.length > 0 && (
+          {disputes.length > 0 && (
             <div className="grid grid-cols-1 md:grid-cols-4 gap-4 pt-4 border-t">
               <div className="text-center">
-                <div className="text-2xl font-bold">{billingDisputes.length}</div>
+                <div className="text-2xl font-bold">{disputes.length}</div>
                 <div className="text-sm text-muted-foreground">Total Disputes</div>
               </div>
               <div className="text-center">
                 <div className="text-2xl font-bold">
-                  {billingDisputes.filter(d => d.status === DisputeStatus.SUBMITTED || d.status === DisputeStatus.UNDER_REVIEW || d.status === DisputeStatus.INVESTIGATING).length}
+                  {disputes.filter(d => isDisputeOpen(d.status)).length}
                 </div>
                 <div className="text-sm text-muted-foreground">Active</div>
               </div>
               <div className="text-center">
                 <div className="text-2xl font-bold">
-                  {billingDisputes.filter(d => d.status === DisputeStatus.RESOLVED).length}
+                  {formatCurrency(disputes.reduce((sum, d) => sum + d.creditAmount, 0))}
                 </div>
-                <div className="text-sm text-muted-foreground">Resolved</div>
+                <div className="text-sm text-muted-foreground">Credited</div>
               </div>
               <div className="text-center">
                 <div className="text-2xl font-bold">
-                  {billingDisputes.filter(d => d.status === DisputeStatus.REJECTED).length}
+                  {disputes.filter(d => d.resolution === DisputeResolution.CHARGE_CONFIRMED).length}
                 </div>
-                <div className="text-sm text-muted-foreground">Rejected</div>
+                <div className="text-sm text-muted-foreground">Charges Confirmed</div>
               </div>
             </div>
           )}
         </CardContent>
       </Card>
+
+      <Dialog open={!!selectedDispute} onOpenChange={(open) => !open && setSelectedDisputeId(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Dispute Details</DialogTitle>
+            <DialogDescription>
+              {selectedDispute?.subject}
+            </DialogDescription>
+          </DialogHeader>
+          {selectedDispute && (
+            <DisputeDetails
+              dispute={selectedDispute}
+              onComment={(body) => addComment(selectedDispute.id, body)}
+              onAttach={(files) => addEvidence(selectedDispute.id, files)}
+              onOpenEvidence={openEvidence}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   )
 }
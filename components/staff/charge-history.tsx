@@ -52,7 +52,8 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Progress } from "@/components/ui/progress";
 import { DateRangePicker } from "@/components/ui/date-range-picker";
 import { useChargeHistory } from "@/hooks/use-billing";
-import { ChargeType, type ChargeWithDetails } from "@/lib/types/billing";
+import { netChargeAmount } from "@/lib/billing/adjustments";
+import { ChargeStatus, ChargeType, type ChargeWithDetails } from "@/lib/types/billing";
 import { cn } from "@/lib/utils";
 import { DateRange } from "react-day-picker";
 
@@ -76,6 +77,8 @@ const mockChargeHistory: (ChargeWithDetails & {
     amount: 850.0,
     description: "Monthly rent for Room 204, Riverside Apartments",
     prorationFactor: 1.0,
+    status: ChargeStatus.APPROVED,
+    approvalStep: 1,
     createdAt: new Date("2024-01-01"),
     updatedAt: new Date("2024-01-01"),
     monthYear: "2024-01",
@@ -104,6 +107,8 @@ const mockChargeHistory: (ChargeWithDetails & {
     amount: 125.5,
     description: "Electricity and water usage",
     prorationFactor: 1.0,
+    status: ChargeStatus.APPROVED,
+    approvalStep: 1,
     createdAt: new Date("2024-01-01"),
     updatedAt: new Date("2024-01-01"),
     monthYear: "2024-01",
@@ -133,6 +138,8 @@ const mockChargeHistory: (ChargeWithDetails & {
     amount: 850.0,
     description: "Monthly rent for Room 204, Riverside Apartments",
     prorationFactor: 1.0,
+    status: ChargeStatus.APPROVED,
+    approvalStep: 1,
     createdAt: new Date("2023-12-01"),
     updatedAt: new Date("2023-12-01"),
     monthYear: "2023-12",
@@ -161,6 +168,8 @@ const mockChargeHistory: (ChargeWithDetails & {
     amount: 110.0,
     description: "Electricity and water usage",
     prorationFactor: 1.0,
+    status: ChargeStatus.APPROVED,
+    approvalStep: 1,
     createdAt: new Date("2023-12-01"),
     updatedAt: new Date("2023-12-01"),
     monthYear: "2023-12",
@@ -190,6 +199,8 @@ const mockChargeHistory: (ChargeWithDetails & {
     amount: 850.0,
     description: "Monthly rent for Room 204, Riverside Apartments",
     prorationFactor: 1.0,
+    status: ChargeStatus.APPROVED,
+    approvalStep: 1,
     createdAt: new Date("2023-11-01"),
     updatedAt: new Date("2023-11-01"),
     monthYear: "2023-11",
@@ -218,6 +229,8 @@ const mockChargeHistory: (ChargeWithDetails & {
     amount: 115.0,
     description: "Electricity and water usage",
     prorationFactor: 1.0,
+    status: ChargeStatus.APPROVED,
+    approvalStep: 1,
     createdAt: new Date("2023-11-01"),
     updatedAt: new Date("2023-11-01"),
     monthYear: "2023-11",
@@ -305,7 +318,7 @@ export function ChargeHistory({ staffId, onExportData }: ChargeHistoryProps) {
       acc[monthKey] = { charges: [], total: 0 };
     }
     acc[monthKey].charges.push(charge);
-    acc[monthKey].total += charge.amount;
+    acc[monthKey].total += netChargeAmount(charge.amount, charge.adjustments);
     return acc;
   }, {} as Record<string, { charges: any[]; total: number }>);
 
@@ -320,14 +333,17 @@ export function ChargeHistory({ staffId, onExportData }: ChargeHistoryProps) {
         monthlyTotals.length
       : 0;
 
+  // Totals are net of credit notes, debits and reversals
   const totalCharges = filteredCharges.reduce(
-    (sum, charge) => sum + charge.amount,
+    (sum, charge) => sum + netChargeAmount(charge.amount, charge.adjustments),
     0
   );
 
   // Calculate charge type distribution
   const chargesByType = filteredCharges.reduce((acc, charge) => {
-    acc[charge.type] = (acc[charge.type] || 0) + charge.amount;
+    acc[charge.type] =
+      (acc[charge.type] || 0) +
+      netChargeAmount(charge.amount, charge.adjustments);
     return acc;
   }, {} as Record<ChargeType, number>);
 
@@ -721,6 +737,15 @@ export function ChargeHistory({ staffId, onExportData }: ChargeHistoryProps) {
                             </TableCell>
                             <TableCell className="text-right font-medium">
                               ${charge.amount.toLocaleString()}
+                              {(charge.adjustments?.length ?? 0) > 0 && (
+                                <div className="text-xs font-normal text-muted-foreground">
+                                  Net: $
+                                  {netChargeAmount(
+                                    charge.amount,
+                                    charge.adjustments
+                                  ).toLocaleString()}
+                                </div>
+                              )}
                             </TableCell>
                             <TableCell className="text-right">
                               <Dialog>
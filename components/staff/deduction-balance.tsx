@@ -0,0 +1,212 @@
+'use client'
+
+import { format } from 'date-fns'
+import { AlertCircle, CalendarCheck, CheckCircle, Wallet } from 'lucide-react'
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
+import { Button } from '@/components/ui/button'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { useDeductionBalance, useDeductionCaps } from '@/hooks/use-billing'
+import { resolveCaps } from '@/lib/billing/deduction-caps'
+import { ChargeType, DeductionCapType } from '@/lib/types/billing'
+
+interface DeductionBalanceProps {
+  staffId: string
+}
+
+const chargeTypeLabels: Record<ChargeType, string> = {
+  [ChargeType.RENT]: 'Rent',
+  [ChargeType.UTILITIES]: 'Utilities',
+  [ChargeType.TRANSPORT]: 'Transport',
+  [ChargeType.OTHER]: 'Other',
+}
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount)
+
+// Period dates are UTC days; show them without shifting into local time
+const formatDay = (date: Date) =>
+  format(new Date(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()), 'MMM d, yyyy')
+
+export function DeductionBalance({ staffId }: DeductionBalanceProps) {
+  const { balance, total, schedule, isLoading, error } = useDeductionBalance(staffId)
+  const { caps } = useDeductionCaps(staffId)
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Loading your balance...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (error) {
+    return (
+      <Card>
+        <CardContent className="pt-6">
+          <div className="text-center">
+            <AlertCircle className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+            <p className="text-muted-foreground">Failed to load your balance</p>
+            <Button variant="outline" className="mt-4" onClick={() => window.location.reload()}>
+              Try Again
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  if (total <= 0) {
+    return (
+      <Card>
+        <CardContent className="pt-6">
+          <div className="text-center">
+            <CheckCircle className="h-12 w-12 text-green-600 mx-auto mb-4" />
+            <p className="font-medium">No outstanding balance</p>
+            <p className="text-sm text-muted-foreground">
+              All of your charges have been deducted in full
+            </p>
+          </div>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  const lastEntry = schedule[schedule.length - 1]
+  const paysOff = lastEntry?.remainingBalance === 0
+  const activeCaps = Array.from(resolveCaps(caps, staffId, new Date()).values())
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-muted-foreground">Outstanding Balance</p>
+                <p className="text-2xl font-bold">{formatCurrency(total)}</p>
+              </div>
+              <Wallet className="h-8 w-8 text-muted-foreground" />
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-muted-foreground">Expected Payoff</p>
+                <p className="text-2xl font-bold">
+                  {paysOff ? formatDay(lastEntry.periodEnd) : 'Not scheduled'}
+                </p>
+              </div>
+              <CalendarCheck className="h-8 w-8 text-muted-foreground" />
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-sm font-medium text-muted-foreground mb-2">By Charge Type</p>
+            <div className="space-y-1">
+              {Object.values(ChargeType)
+                .filter(type => balance[type] !== 0)
+                .map(type => (
+                  <div key={type} className="flex justify-between text-sm">
+                    <span>{chargeTypeLabels[type]}</span>
+                    <span className="font-medium">{formatCurrency(balance[type])}</span>
+                  </div>
+                ))}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {!paysOff && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>Balance is not expected to clear</AlertTitle>
+          <AlertDescription>
+            At your current charges, the deduction limit leaves little or no room to pay down this
+            balance. Please contact HR or Finance to arrange a repayment plan.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Payoff Schedule</CardTitle>
+          <CardDescription>
+            Estimated from your latest charges and current deduction limits. Actual amounts depend
+            on future charges.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Billing Period</TableHead>
+                <TableHead className="text-right">New Charges</TableHead>
+                <TableHead className="text-right">Balance Paid</TableHead>
+                <TableHead className="text-right">Remaining</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {schedule.map(entry => (
+                <TableRow key={entry.periodStart.toISOString()}>
+                  <TableCell>
+                    {formatDay(entry.periodStart)} – {formatDay(entry.periodEnd)}
+                  </TableCell>
+                  <TableCell className="text-right">{formatCurrency(entry.newCharges)}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(entry.recovered)}</TableCell>
+                  <TableCell className="text-right font-medium">
+                    {formatCurrency(entry.remainingBalance)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {activeCaps.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Your Deduction Limits</CardTitle>
+            <CardDescription>
+              The most that can be deducted from one paycheck
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {activeCaps.map(cap => (
+              <div key={cap.id} className="flex justify-between text-sm">
+                <span>{cap.chargeType ? chargeTypeLabels[cap.chargeType] : 'All charges'}</span>
+                <span className="font-medium">
+                  {cap.capType === DeductionCapType.PERCENT_OF_GROSS
+                    ? `${cap.amount}% of gross pay`
+                    : formatCurrency(cap.amount)}
+                </span>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
@@ -13,7 +13,8 @@ import {
   Filter,
   Search,
   Eye,
-  Download
+  Download,
+  ArrowRightLeft
 } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
@@ -90,9 +91,11 @@ const mockHousingHistory: RoomAssignmentWithDetails[] = [
     id: '1',
     staffId: 'staff-1',
     roomId: 'room-1',
-    startDate: new Date('2024-01-15'),
+    startDate: new Date('2024-01-10'),
     endDate: undefined,
     status: AssignmentStatus.ACTIVE,
+    transferredFromId: '2',
+    transferReason: 'Moved closer to the main site',
     createdAt: new Date('2024-01-10'),
     updatedAt: new Date('2024-01-15'),
     room: {
@@ -131,6 +134,7 @@ const mockHousingHistory: RoomAssignmentWithDetails[] = [
     startDate: new Date('2023-06-01'),
     endDate: new Date('2024-01-10'),
     status: AssignmentStatus.COMPLETED,
+    transferredToId: '1',
     createdAt: new Date('2023-05-25'),
     updatedAt: new Date('2024-01-10'),
     room: {
@@ -202,10 +206,28 @@ const mockHousingHistory: RoomAssignmentWithDetails[] = [
   }
 ]
 
+// Assignments joined by room transfers, first to last. A move between rooms
+// is one event in the history rather than a move-out and a separate move-in.
+const groupTransfers = (history: RoomAssignmentWithDetails[]) => {
+  const byId = new Map(history.map(assignment => [assignment.id, assignment]))
+
+  return history
+    .filter(assignment => !assignment.transferredFromId || !byId.has(assignment.transferredFromId))
+    .map(first => {
+      const stay = [first]
+      let next = first.transferredToId ? byId.get(first.transferredToId) : undefined
+      while (next && !stay.includes(next)) {
+        stay.push(next)
+        next = next.transferredToId ? byId.get(next.transferredToId) : undefined
+      }
+      return stay
+    })
+}
+
 export function HousingHistory({ staffId, onViewDetails }: HousingHistoryProps) {
   const [searchTerm, setSearchTerm] = useState('')
   const [statusFilter, setStatusFilter] = useState<string>('all')
-  const [selectedAssignment, setSelectedAssignment] = useState<RoomAssignmentWithDetails | null>(null)
+  const [selectedStay, setSelectedStay] = useState<RoomAssignmentWithDetails[] | null>(null)
 
   // In real implementation, this would fetch data based on staffId
   const { assignments, isLoading, error } = useHousingAssignments(staffId)
@@ -213,14 +235,16 @@ export function HousingHistory({ staffId, onViewDetails }: HousingHistoryProps)
   // Use mock data for demonstration
   const housingHistory = mockHousingHistory
 
-  // Filter assignments based on search and status
-  const filteredHistory = housingHistory.filter(assignment => {
-    const matchesSearch = searchTerm === '' || 
+  // Filter stays based on search and status; a transferred stay matches on
+  // any of its rooms and on where it is now
+  const filteredHistory = groupTransfers(housingHistory).filter(stay => {
+    const matchesSearch = searchTerm === '' || stay.some(assignment =>
       assignment.property.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
       assignment.room.roomNumber.toLowerCase().includes(searchTerm.toLowerCase()) ||
       assignment.property.address.toLowerCase().includes(searchTerm.toLowerCase())
+    )
     
-    const matchesStatus = statusFilter === 'all' || assignment.status === statusFilter
+    const matchesStatus = statusFilter === 'all' || stay[stay.length - 1].status === statusFilter
     
     return matchesSearch && matchesStatus
   })
@@ -324,130 +348,174 @@ export function HousingHistory({ staffId, onViewDetails }: HousingHistoryProps)
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {filteredHistory.map((assignment) => (
-                    <TableRow key={assignment.id}>
-                      <TableCell>
-                        <div>
-                          <div className="font-medium">{assignment.property.name}</div>
-                          <div className="text-sm text-muted-foreground">
-                            Room {assignment.room.roomNumber} • {assignment.property.address}
+                  {filteredHistory.map((stay) => {
+                    const first = stay[0]
+                    const assignment = stay[stay.length - 1]
+
+                    return (
+                      <TableRow key={first.id}>
+                        <TableCell>
+                          <div>
+                            <div className="font-medium">{assignment.property.name}</div>
+                            <div className="text-sm text-muted-foreground">
+                              Room {assignment.room.roomNumber} • {assignment.property.address}
+                            </div>
+                            {stay.slice(1).map((moved, index) => (
+                              <div key={moved.id} className="text-xs text-muted-foreground flex items-center gap-1 mt-1">
+                                <ArrowRightLeft className="h-3 w-3" />
+                                Moved from Room {stay[index].room.roomNumber} on {format(moved.startDate, 'MMM dd, yyyy')}
+                              </div>
+                            ))}
                           </div>
-                        </div>
-                      </TableCell>
-                      <TableCell>
-                        <div className="text-sm">
-                          <div>{format(assignment.startDate, 'MMM dd, yyyy')}</div>
-                          <div className="text-muted-foreground">
-                            {assignment.endDate ? 
-                              `to ${format(assignment.endDate, 'MMM dd, yyyy')}` : 
-                              'Present'
-                            }
+                        </TableCell>
+                        <TableCell>
+                          <div className="text-sm">
+                            <div>{format(first.startDate, 'MMM dd, yyyy')}</div>
+                            <div className="text-muted-foreground">
+                              {assignment.endDate ? 
+                                `to ${format(assignment.endDate, 'MMM dd, yyyy')}` : 
+                                'Present'
+                              }
+                            </div>
                           </div>
-                        </div>
-                      </TableCell>
-                      <TableCell>
-                        <span className="text-sm">
-                          {calculateDuration(assignment.startDate, assignment.endDate)}
-                        </span>
-                      </TableCell>
-                      <TableCell>
-                        <span className="font-medium">
-                          ${assignment.room.monthlyRate?.toLocaleString() || 'N/A'}
-                        </span>
-                      </TableCell>
-                      <TableCell>
-                        <Badge variant={statusConfig[assignment.status].variant} className="gap-1">
-                          {(() => {
-                            const IconComponent = statusConfig[assignment.status].icon;
-                            return <IconComponent className="h-3 w-3" />;
-                          })()}
-                          {statusConfig[assignment.status].label}
-                        </Badge>
-                      </TableCell>
-                      <TableCell className="text-right">
-                        <Dialog>
-                          <DialogTrigger asChild>
-                            <Button 
-                              variant="ghost" 
-                              size="sm"
-                              onClick={() => setSelectedAssignment(assignment)}
-                            >
-                              <Eye className="h-4 w-4" />
-                            </Button>
-                          </DialogTrigger>
-                          <DialogContent className="max-w-2xl">
-                            <DialogHeader>
-                              <DialogTitle>Assignment Details</DialogTitle>
-                              <DialogDescription>
-                                Detailed information about this housing assignment
-                              </DialogDescription>
-                            </DialogHeader>
-                            {selectedAssignment && (
-                              <div className="space-y-4">
-                                <div className="grid grid-cols-2 gap-4">
-                                  <div>
-                                    <p className="text-sm font-medium text-muted-foreground">Property</p>
-                                    <p className="text-sm">{selectedAssignment.property.name}</p>
-                                  </div>
-                                  <div>
-                                    <p className="text-sm font-medium text-muted-foreground">Room</p>
-                                    <p className="text-sm">Room {selectedAssignment.room.roomNumber}</p>
-                                  </div>
-                                  <div>
-                                    <p className="text-sm font-medium text-muted-foreground">Address</p>
-                                    <p className="text-sm">{selectedAssignment.property.address}</p>
-                                  </div>
-                                  <div>
-                                    <p className="text-sm font-medium text-muted-foreground">Monthly Rate</p>
-                                    <p className="text-sm">${selectedAssignment.room.monthlyRate?.toLocaleString() || 'N/A'}</p>
-                                  </div>
-                                  <div>
-                                    <p className="text-sm font-medium text-muted-foreground">Move-in Date</p>
-                                    <p className="text-sm">{format(selectedAssignment.startDate, 'PPP')}</p>
-                                  </div>
-                                  <div>
-                                    <p className="text-sm font-medium text-muted-foreground">Move-out Date</p>
-                                    <p className="text-sm">
-                                      {selectedAssignment.endDate ? format(selectedAssignment.endDate, 'PPP') : 'Current'}
-                                    </p>
-                                  </div>
-                                  <div>
-                                    <p className="text-sm font-medium text-muted-foreground">Duration</p>
-                                    <p className="text-sm">
-                                      {calculateDuration(selectedAssignment.startDate, selectedAssignment.endDate)}
-                                    </p>
-                                  </div>
-                                  <div>
-                                    <p className="text-sm font-medium text-muted-foreground">Status</p>
-                                    <Badge variant={statusConfig[selectedAssignment.status].variant} className="gap-1">
-                                      {(() => {
-                                        const IconComponent = statusConfig[selectedAssignment.status].icon;
-                                        return <IconComponent className="h-3 w-3" />;
-                                      })()}
-                                      {statusConfig[selectedAssignment.status].label}
-                                    </Badge>
-                                  </div>
-                                </div>
-                                
-                                {selectedAssignment.room.amenities && selectedAssignment.room.amenities.length > 0 && (
-                                  <div>
-                                    <p className="text-sm font-medium text-muted-foreground mb-2">Amenities</p>
-                                    <div className="flex flex-wrap gap-2">
-                                      {selectedAssignment.room.amenities.map((amenity) => (
-                                        <Badge key={amenity} variant="outline" className="text-xs">
-                                          {amenity}
+                        </TableCell>
+                        <TableCell>
+                          <span className="text-sm">
+                            {calculateDuration(first.startDate, assignment.endDate)}
+                          </span>
+                        </TableCell>
+                        <TableCell>
+                          <span className="font-medium">
+                            ${assignment.room.monthlyRate?.toLocaleString() || 'N/A'}
+                          </span>
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex flex-wrap gap-1">
+                            <Badge variant={statusConfig[assignment.status].variant} className="gap-1">
+                              {(() => {
+                                const IconComponent = statusConfig[assignment.status].icon;
+                                return <IconComponent className="h-3 w-3" />;
+                              })()}
+                              {statusConfig[assignment.status].label}
+                            </Badge>
+                            {stay.length > 1 && (
+                              <Badge variant="outline">Transferred</Badge>
+                            )}
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <Dialog>
+                            <DialogTrigger asChild>
+                              <Button 
+                                variant="ghost" 
+                                size="sm"
+                                onClick={() => setSelectedStay(stay)}
+                              >
+                                <Eye className="h-4 w-4" />
+                              </Button>
+                            </DialogTrigger>
+                            <DialogContent className="max-w-2xl">
+                              <DialogHeader>
+                                <DialogTitle>Assignment Details</DialogTitle>
+                                <DialogDescription>
+                                  Detailed information about this housing assignment
+                                </DialogDescription>
+                              </DialogHeader>
+                              {selectedStay && (() => {
+                                const selectedAssignment = selectedStay[selectedStay.length - 1]
+
+                                return (
+                                  <div className="space-y-4">
+                                    <div className="grid grid-cols-2 gap-4">
+                                      <div>
+                                        <p className="text-sm font-medium text-muted-foreground">Property</p>
+                                        <p className="text-sm">{selectedAssignment.property.name}</p>
+                                      </div>
+                                      <div>
+                                        <p className="text-sm font-medium text-muted-foreground">Room</p>
+                                        <p className="text-sm">Room {selectedAssignment.room.roomNumber}</p>
+                                      </div>
+                                      <div>
+                                        <p className="text-sm font-medium text-muted-foreground">Address</p>
+                                        <p className="text-sm">{selectedAssignment.property.address}</p>
+                                      </div>
+                                      <div>
+                                        <p className="text-sm font-medium text-muted-foreground">Monthly Rate</p>
+                                        <p className="text-sm">${selectedAssignment.room.monthlyRate?.toLocaleString() || 'N/A'}</p>
+                                      </div>
+                                      <div>
+                                        <p className="text-sm font-medium text-muted-foreground">Move-in Date</p>
+                                        <p className="text-sm">{format(selectedStay[0].startDate, 'PPP')}</p>
+                                      </div>
+                                      <div>
+                                        <p className="text-sm font-medium text-muted-foreground">Move-out Date</p>
+                                        <p className="text-sm">
+                                          {selectedAssignment.endDate ? format(selectedAssignment.endDate, 'PPP') : 'Current'}
+                                        </p>
+                                      </div>
+                                      <div>
+                                        <p className="text-sm font-medium text-muted-foreground">Duration</p>
+                                        <p className="text-sm">
+                                          {calculateDuration(selectedStay[0].startDate, selectedAssignment.endDate)}
+                                        </p>
+                                      </div>
+                                      <div>
+                                        <p className="text-sm font-medium text-muted-foreground">Status</p>
+                                        <Badge variant={statusConfig[selectedAssignment.status].variant} className="gap-1">
+                                          {(() => {
+                                            const IconComponent = statusConfig[selectedAssignment.status].icon;
+                                            return <IconComponent className="h-3 w-3" />;
+                                          })()}
+                                          {statusConfig[selectedAssignment.status].label}
                                         </Badge>
-                                      ))}
+                                      </div>
                                     </div>
+
+                                    {selectedStay.length > 1 && (
+                                      <div>
+                                        <p className="text-sm font-medium text-muted-foreground mb-2">Room Transfers</p>
+                                        <div className="space-y-2">
+                                          {selectedStay.slice(1).map((moved, index) => (
+                                            <div key={moved.id} className="flex items-start gap-2 text-sm">
+                                              <ArrowRightLeft className="h-4 w-4 mt-0.5 text-muted-foreground" />
+                                              <div>
+                                                <div>
+                                                  {format(moved.startDate, 'PPP')}: Room {selectedStay[index].room.roomNumber}
+                                                  {selectedStay[index].property.id !== moved.property.id && ` (${selectedStay[index].property.name})`}
+                                                  {' '}to Room {moved.room.roomNumber}
+                                                  {selectedStay[index].property.id !== moved.property.id && ` (${moved.property.name})`}
+                                                </div>
+                                                {moved.transferReason && (
+                                                  <div className="text-muted-foreground">{moved.transferReason}</div>
+                                                )}
+                                              </div>
+                                            </div>
+                                          ))}
+                                        </div>
+                                      </div>
+                                    )}
+                                    
+                                    {selectedAssignment.room.amenities && selectedAssignment.room.amenities.length > 0 && (
+                                      <div>
+                                        <p className="text-sm font-medium text-muted-foreground mb-2">Amenities</p>
+                                        <div className="flex flex-wrap gap-2">
+                                          {selectedAssignment.room.amenities.map((amenity) => (
+                                            <Badge key={amenity} variant="outline" className="text-xs">
+                                              {amenity}
+                                            </Badge>
+                                          ))}
+                                        </div>
+                                      </div>
+                                    )}
                                   </div>
-                                )}
-                              </div>
-                            )}
-                          </DialogContent>
-                        </Dialog>
-                      </TableCell>
-                    </TableRow>
-                  ))}
+                                )
+                              })()}
+                            </DialogContent>
+                          </Dialog>
+                        </TableCell>
+                      </TableRow>
+                    )
+                  })}
                 </TableBody>
               </Table>
             </div>
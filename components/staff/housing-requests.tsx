@@ -16,8 +16,10 @@ import {
   Search,
   Eye,
   Edit,
-  Trash2
+  Trash2,
+  ListOrdered
 } from 'lucide-react'
+import { toast } from 'sonner'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Input } from '@/components/ui/input'
@@ -71,7 +73,16 @@ import {
 import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { z } from 'zod'
-import { useHousingRequests } from '@/hooks/use-housing'
+import { useHousingRequests, useProperties } from '@/hooks/use-housing'
+import { isRequestOpen, needsRoom } from '@/lib/housing/housing-requests'
+import { fromLocalDate } from '@/lib/dates'
+import {
+  HousingRequestPriority,
+  HousingRequestStatus,
+  HousingRequestType,
+  type HousingRequest,
+} from '@/lib/types/housing'
+import { DatePicker } from '@/components/shared/date-picker'
 import { cn } from '@/lib/utils'
 
 interface HousingRequestsProps {
@@ -79,45 +90,33 @@ interface HousingRequestsProps {
   onRequestSubmitted?: (requestId: string) => void
 }
 
-// Housing request types
-enum RequestType {
-  ROOM_CHANGE = 'room_change',
-  MOVE_OUT = 'move_out',
-  MAINTENANCE = 'maintenance',
-  ROOMMATE_CHANGE = 'roommate_change',
-  OTHER = 'other'
-}
-
-enum RequestStatus {
-  PENDING = 'pending',
-  UNDER_REVIEW = 'under_review',
-  APPROVED = 'approved',
-  REJECTED = 'rejected',
-  COMPLETED = 'completed'
-}
-
 const requestTypeConfig = {
-  [RequestType.ROOM_CHANGE]: {
+  [HousingRequestType.NEW_HOUSING]: {
+    label: 'New Housing',
+    description: 'Request a room or bed in staff housing',
+    color: 'bg-green-100 text-green-800'
+  },
+  [HousingRequestType.ROOM_CHANGE]: {
     label: 'Room Change',
     description: 'Request to move to a different room',
     color: 'bg-blue-100 text-blue-800'
   },
-  [RequestType.MOVE_OUT]: {
+  [HousingRequestType.MOVE_OUT]: {
     label: 'Move Out',
     description: 'Request to terminate housing assignment',
     color: 'bg-red-100 text-red-800'
   },
-  [RequestType.MAINTENANCE]: {
+  [HousingRequestType.MAINTENANCE]: {
     label: 'Maintenance',
     description: 'Report maintenance issues',
     color: 'bg-yellow-100 text-yellow-800'
   },
-  [RequestType.ROOMMATE_CHANGE]: {
+  [HousingRequestType.ROOMMATE_CHANGE]: {
     label: 'Roommate Change',
     description: 'Request roommate reassignment',
     color: 'bg-purple-100 text-purple-800'
   },
-  [RequestType.OTHER]: {
+  [HousingRequestType.OTHER]: {
     label: 'Other',
     description: 'Other housing-related requests',
     color: 'bg-gray-100 text-gray-800'
@@ -125,121 +124,108 @@ const requestTypeConfig = {
 }
 
 const statusConfig = {
-  [RequestStatus.PENDING]: {
+  [HousingRequestStatus.PENDING]: {
     label: 'Pending',
     variant: 'secondary' as const,
     icon: Clock,
     color: 'text-yellow-600'
   },
-  [RequestStatus.UNDER_REVIEW]: {
+  [HousingRequestStatus.UNDER_REVIEW]: {
     label: 'Under Review',
     variant: 'default' as const,
     icon: MessageSquare,
     color: 'text-blue-600'
   },
-  [RequestStatus.APPROVED]: {
+  [HousingRequestStatus.WAITLISTED]: {
+    label: 'Waitlisted',
+    variant: 'secondary' as const,
+    icon: ListOrdered,
+    color: 'text-orange-600'
+  },
+  [HousingRequestStatus.APPROVED]: {
     label: 'Approved',
     variant: 'default' as const,
     icon: CheckCircle,
     color: 'text-green-600'
   },
-  [RequestStatus.REJECTED]: {
+  [HousingRequestStatus.REJECTED]: {
     label: 'Rejected',
     variant: 'destructive' as const,
     icon: XCircle,
     color: 'text-red-600'
   },
-  [RequestStatus.COMPLETED]: {
+  [HousingRequestStatus.COMPLETED]: {
     label: 'Completed',
     variant: 'outline' as const,
     icon: CheckCircle,
     color: 'text-gray-600'
+  },
+  [HousingRequestStatus.CANCELLED]: {
+    label: 'Cancelled',
+    variant: 'outline' as const,
+    icon: XCircle,
+    color: 'text-gray-600'
   }
 }
 
+// Requested dates are UTC calendar days
+const formatDay = (date: Date, pattern: string) =>
+  format(new Date(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()), pattern)
+
+// What the requested date means for each type of request
+const requestedDateLabels: Partial<Record<HousingRequestType, string>> = {
+  [HousingRequestType.NEW_HOUSING]: 'Move-in Date',
+  [HousingRequestType.ROOM_CHANGE]: 'Move Date',
+  [HousingRequestType.MOVE_OUT]: 'Move-out Date',
+}
+
+const NO_PREFERENCE = '__none__'
+
 // Form schema for new housing request
 const housingRequestSchema = z.object({
-  type: z.nativeEnum(RequestType),
+  type: z.nativeEnum(HousingRequestType),
   title: z.string().min(1, 'Title is required').max(100),
   description: z.string().min(10, 'Please provide more details').max(1000),
-  preferredDate: z.date().optional(),
-  priority: z.enum(['low', 'medium', 'high']).default('medium'),
-})
+  requestedStartDate: z.date().optional(),
+  requestedEndDate: z.date().optional(),
+  preferredPropertyId: z.string().optional(),
+  preferredRoomType: z.string().max(50).optional(),
+  // Comma-separated
+  preferredAmenities: z.string().optional(),
+}).refine(
+  (data) => !data.requestedStartDate || !data.requestedEndDate || data.requestedStartDate <= data.requestedEndDate,
+  { message: 'End date must be after the move-in date', path: ['requestedEndDate'] }
+)
 
 type HousingRequestForm = z.infer<typeof housingRequestSchema>
 
-// Mock housing requests data
-const mockHousingRequests = [
-  {
-    id: '1',
-    staffId: 'staff-1',
-    type: RequestType.ROOM_CHANGE,
-    title: 'Request for Room with Better Internet',
-    description: 'I work remotely and need a room with more reliable internet connection. My current room has frequent connectivity issues.',
-    preferredDate: new Date('2024-02-15'),
-    priority: 'medium',
-    status: RequestStatus.UNDER_REVIEW,
-    createdAt: new Date('2024-01-20'),
-    updatedAt: new Date('2024-01-22'),
-    response: 'We are reviewing available rooms with enhanced internet connectivity. Will update you within 3 business days.',
-    responseDate: new Date('2024-01-22')
-  },
-  {
-    id: '2',
-    staffId: 'staff-1',
-    type: RequestType.MAINTENANCE,
-    title: 'Air Conditioning Not Working',
-    description: 'The AC unit in my room has stopped working. It makes a loud noise but no cold air comes out.',
-    priority: 'high',
-    status: RequestStatus.COMPLETED,
-    createdAt: new Date('2024-01-10'),
-    updatedAt: new Date('2024-01-12'),
-    response: 'Maintenance team has replaced the AC unit. Please test and let us know if there are any issues.',
-    responseDate: new Date('2024-01-12')
-  },
-  {
-    id: '3',
-    staffId: 'staff-1',
-    type: RequestType.ROOMMATE_CHANGE,
-    title: 'Roommate Compatibility Issues',
-    description: 'Having some compatibility issues with current roommate regarding cleanliness and noise levels. Would appreciate a room change or roommate reassignment.',
-    priority: 'medium',
-    status: RequestStatus.APPROVED,
-    createdAt: new Date('2023-12-15'),
-    updatedAt: new Date('2023-12-20'),
-    response: 'Approved for room change. New room assignment will be available from February 1st. Please coordinate with property manager for move details.',
-    responseDate: new Date('2023-12-20')
-  }
-]
-
 export function HousingRequests({ staffId, onRequestSubmitted }: HousingRequestsProps) {
   const [searchTerm, setSearchTerm] = useState('')
   const [statusFilter, setStatusFilter] = useState<string>('all')
   const [typeFilter, setTypeFilter] = useState<string>('all')
   const [isNewRequestOpen, setIsNewRequestOpen] = useState(false)
-  const [selectedRequest, setSelectedRequest] = useState<any>(null)
+  const [selectedRequest, setSelectedRequest] = useState<HousingRequest | null>(null)
+
+  const { requests, isLoading, error, submitRequest, cancelRequest } = useHousingRequests(staffId)
+  const { properties } = useProperties()
 
-  // In real implementation, this would fetch data based on staffId
-  const { requests, isLoading, error, submitRequest, refresh } = useHousingRequests(staffId)
-  
-  // Use mock data for demonstration
-  const housingRequests = mockHousingRequests
+  const housingRequests = requests || []
 
   const form = useForm<HousingRequestForm>({
     resolver: zodResolver(housingRequestSchema),
     defaultValues: {
-      type: RequestType.ROOM_CHANGE,
+      type: HousingRequestType.ROOM_CHANGE,
       title: '',
       description: '',
-      priority: 'medium',
     },
   })
+  const requestType = form.watch('type')
 
   // Filter requests based on search and filters
   const filteredRequests = housingRequests.filter(request => {
     const matchesSearch = searchTerm === '' || 
       request.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      request.description.toLowerCase().includes(searchTerm.toLowerCase())
+      (request.description ?? '').toLowerCase().includes(searchTerm.toLowerCase())
     
     const matchesStatus = statusFilter === 'all' || request.status === statusFilter
     const matchesType = typeFilter === 'all' || request.type === typeFilter
@@ -247,14 +233,41 @@ export function HousingRequests({ staffId, onRequestSubmitted }: HousingRequests
     return matchesSearch && matchesStatus && matchesType
   })
 
-  const handleSubmitRequest = async (data: any) => {
+  const handleSubmitRequest = async (data: HousingRequestForm) => {
+    // Preferences only apply to requests for a room
+    const wantsRoom = needsRoom(data.type)
+
     try {
-      await submitRequest(data)
+      const created = await submitRequest({
+        type: data.type,
+        title: data.title,
+        description: data.description,
+        requestedStartDate: data.requestedStartDate ? fromLocalDate(data.requestedStartDate) : undefined,
+        requestedEndDate:
+          data.type === HousingRequestType.NEW_HOUSING && data.requestedEndDate
+            ? fromLocalDate(data.requestedEndDate)
+            : undefined,
+        preferredPropertyId: wantsRoom ? data.preferredPropertyId || undefined : undefined,
+        preferredRoomType: wantsRoom ? data.preferredRoomType?.trim() || undefined : undefined,
+        preferredAmenities: wantsRoom
+          ? (data.preferredAmenities ?? '').split(',').map(amenity => amenity.trim()).filter(Boolean)
+          : [],
+      })
+      toast.success('Housing request submitted')
       setIsNewRequestOpen(false)
       form.reset()
-      onRequestSubmitted?.('new-request-id')
+      onRequestSubmitted?.(created.id)
     } catch (error) {
-      console.error('Failed to submit request:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to submit request')
+    }
+  }
+
+  const handleCancelRequest = async (request: HousingRequest) => {
+    try {
+      await cancelRequest(request.id)
+      toast.success('Request cancelled')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to cancel request')
     }
   }
 
@@ -382,10 +395,10 @@ export function HousingRequests({ staffId, onRequestSubmitted }: HousingRequests
                     <div className="grid grid-cols-2 gap-4">
                       <FormField
                         control={form.control}
-                        name="preferredDate"
+                        name="requestedStartDate"
                         render={({ field }) => (
                           <FormItem className="flex flex-col">
-                            <FormLabel>Preferred Date (Optional)</FormLabel>
+                            <FormLabel>{requestedDateLabels[requestType] ?? 'Preferred Date'} (Optional)</FormLabel>
                             <Popover>
                               <PopoverTrigger asChild>
                                 <FormControl>
@@ -421,30 +434,96 @@ export function HousingRequests({ staffId, onRequestSubmitted }: HousingRequests
                           </FormItem>
                         )}
                       />
+                    </div>
 
+                    {requestType === HousingRequestType.NEW_HOUSING && (
                       <FormField
                         control={form.control}
-                        name="priority"
+                        name="requestedEndDate"
                         render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Priority</FormLabel>
-                            <Select onValueChange={field.onChange} defaultValue={field.value}>
-                              <FormControl>
-                                <SelectTrigger>
-                                  <SelectValue placeholder="Select priority" />
-                                </SelectTrigger>
-                              </FormControl>
-                              <SelectContent>
-                                <SelectItem value="low">Low</SelectItem>
-                                <SelectItem value="medium">Medium</SelectItem>
-                                <SelectItem value="high">High</SelectItem>
-                              </SelectContent>
-                            </Select>
+                          <FormItem className="flex flex-col">
+                            <FormLabel>Move-out Date (Optional)</FormLabel>
+                            <DatePicker
+                              date={field.value}
+                              onDateChange={field.onChange}
+                              placeholder="Open-ended"
+                              disablePast
+                              showClearButton
+                            />
+                            <FormDescription>Leave empty if you need housing until further notice</FormDescription>
                             <FormMessage />
                           </FormItem>
                         )}
                       />
-                    </div>
+                    )}
+
+                    {needsRoom(requestType) && (
+                      <div className="space-y-4 rounded-md border p-4">
+                        <div>
+                          <p className="text-sm font-medium">Preferences (Optional)</p>
+                          <p className="text-xs text-muted-foreground">
+                            We try to match these, but any suitable room may be offered
+                          </p>
+                        </div>
+                        <div className="grid grid-cols-2 gap-4">
+                          <FormField
+                            control={form.control}
+                            name="preferredPropertyId"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Property</FormLabel>
+                                <Select
+                                  onValueChange={(value) => field.onChange(value === NO_PREFERENCE ? undefined : value)}
+                                  value={field.value ?? NO_PREFERENCE}
+                                >
+                                  <FormControl>
+                                    <SelectTrigger>
+                                      <SelectValue />
+                                    </SelectTrigger>
+                                  </FormControl>
+                                  <SelectContent>
+                                    <SelectItem value={NO_PREFERENCE}>No preference</SelectItem>
+                                    {(properties || []).map(property => (
+                                      <SelectItem key={property.id} value={property.id}>
+                                        {property.name}
+                                      </SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                          <FormField
+                            control={form.control}
+                            name="preferredRoomType"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Room Type</FormLabel>
+                                <FormControl>
+                                  <Input placeholder="e.g. single" {...field} value={field.value ?? ''} />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                        </div>
+                        <FormField
+                          control={form.control}
+                          name="preferredAmenities"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Amenities</FormLabel>
+                              <FormControl>
+                                <Input placeholder="e.g. WiFi, Air Conditioning" {...field} value={field.value ?? ''} />
+                              </FormControl>
+                              <FormDescription>Separate amenities with commas</FormDescription>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      </div>
+                    )}
 
                     <DialogFooter>
                       <Button type="button" variant="outline" onClick={() => setIsNewRequestOpen(false)}>
@@ -513,6 +592,7 @@ export function HousingRequests({ staffId, onRequestSubmitted }: HousingRequests
                     <TableHead>Type</TableHead>
                     <TableHead>Priority</TableHead>
                     <TableHead>Status</TableHead>
+                    <TableHead>Requested</TableHead>
                     <TableHead>Created</TableHead>
                     <TableHead className="text-right">Actions</TableHead>
                   </TableRow>
@@ -538,8 +618,8 @@ export function HousingRequests({ staffId, onRequestSubmitted }: HousingRequests
                       </TableCell>
                       <TableCell>
                         <Badge 
-                          variant={request.priority === 'high' ? 'destructive' : 
-                                   request.priority === 'medium' ? 'default' : 'secondary'}
+                          variant={request.priority === HousingRequestPriority.HIGH ? 'destructive' : 
+                                   request.priority === HousingRequestPriority.MEDIUM ? 'default' : 'secondary'}
                         >
                           {request.priority}
                         </Badge>
@@ -553,6 +633,11 @@ export function HousingRequests({ staffId, onRequestSubmitted }: HousingRequests
                           {statusConfig[request.status].label}
                         </Badge>
                       </TableCell>
+                      <TableCell>
+                        <span className="text-sm">
+                          {request.requestedStartDate ? formatDay(request.requestedStartDate, 'MMM dd, yyyy') : '—'}
+                        </span>
+                      </TableCell>
                       <TableCell>
                         <span className="text-sm">
                           {format(request.createdAt, 'MMM dd, yyyy')}
@@ -591,8 +676,8 @@ export function HousingRequests({ staffId, onRequestSubmitted }: HousingRequests
                                   <div>
                                     <p className="text-sm font-medium text-muted-foreground">Priority</p>
                                     <Badge 
-                                      variant={selectedRequest.priority === 'high' ? 'destructive' : 
-                                               selectedRequest.priority === 'medium' ? 'default' : 'secondary'}
+                                      variant={selectedRequest.priority === HousingRequestPriority.HIGH ? 'destructive' : 
+                                               selectedRequest.priority === HousingRequestPriority.MEDIUM ? 'default' : 'secondary'}
                                     >
                                       {selectedRequest.priority}
                                     </Badge>
@@ -621,21 +706,43 @@ export function HousingRequests({ staffId, onRequestSubmitted }: HousingRequests
                                   </p>
                                 </div>
                                 
-                                {selectedRequest.preferredDate && (
+                                {selectedRequest.requestedStartDate && (
                                   <div>
-                                    <p className="text-sm font-medium text-muted-foreground">Preferred Date</p>
-                                    <p className="text-sm">{format(selectedRequest.preferredDate, 'PPP')}</p>
+                                    <p className="text-sm font-medium text-muted-foreground">
+                                      {requestedDateLabels[selectedRequest.type] ?? 'Preferred Date'}
+                                    </p>
+                                    <p className="text-sm">
+                                      {formatDay(selectedRequest.requestedStartDate, 'PPP')}
+                                      {selectedRequest.requestedEndDate && ` until ${formatDay(selectedRequest.requestedEndDate, 'PPP')}`}
+                                    </p>
                                   </div>
                                 )}
+
+                                {(selectedRequest.preferredRoomType || selectedRequest.preferredAmenities.length > 0) && (
+                                  <div>
+                                    <p className="text-sm font-medium text-muted-foreground">Preferences</p>
+                                    <p className="text-sm">
+                                      {[selectedRequest.preferredRoomType, ...selectedRequest.preferredAmenities]
+                                        .filter(Boolean)
+                                        .join(', ')}
+                                    </p>
+                                  </div>
+                                )}
+
+                                {selectedRequest.status === HousingRequestStatus.WAITLISTED && (
+                                  <p className="text-sm bg-orange-50 border border-orange-200 p-3 rounded-md">
+                                    Nothing suitable is free yet. You stay on the waitlist and will be offered a room as one becomes available.
+                                  </p>
+                                )}
                                 
                                 {selectedRequest.response && (
                                   <div>
                                     <p className="text-sm font-medium text-muted-foreground mb-2">Response</p>
                                     <div className="bg-blue-50 border border-blue-200 p-3 rounded-md">
                                       <p className="text-sm">{selectedRequest.response}</p>
-                                      {selectedRequest.responseDate && (
+                                      {selectedRequest.reviewedAt && (
                                         <p className="text-xs text-muted-foreground mt-2">
-                                          Responded on {format(selectedRequest.responseDate, 'PPP')}
+                                          Responded on {format(selectedRequest.reviewedAt, 'PPP')}
                                         </p>
                                       )}
                                     </div>
@@ -645,6 +752,16 @@ export function HousingRequests({ staffId, onRequestSubmitted }: HousingRequests
                             )}
                           </DialogContent>
                         </Dialog>
+                        {isRequestOpen(request.status) && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title="Cancel request"
+                            onClick={() => handleCancelRequest(request)}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
                       </TableCell>
                     </TableRow>
                   ))}
@@ -677,19 +794,19 @@ export function HousingRequests({ staffId, onRequestSubmitted }: HousingRequests
               </div>
               <div className="text-center">
                 <div className="text-2xl font-bold">
-                  {housingRequests.filter(r => r.status === RequestStatus.PENDING || r.status === RequestStatus.UNDER_REVIEW).length}
+                  {housingRequests.filter(r => isRequestOpen(r.status)).length}
                 </div>
                 <div className="text-sm text-muted-foreground">Active</div>
               </div>
               <div className="text-center">
                 <div className="text-2xl font-bold">
-                  {housingRequests.filter(r => r.status === RequestStatus.APPROVED || r.status === RequestStatus.COMPLETED).length}
+                  {housingRequests.filter(r => r.status === HousingRequestStatus.APPROVED || r.status === HousingRequestStatus.COMPLETED).length}
                 </div>
                 <div className="text-sm text-muted-foreground">Resolved</div>
               </div>
               <div className="text-center">
                 <div className="text-2xl font-bold">
-                  {housingRequests.filter(r => r.priority === 'high').length}
+                  {housingRequests.filter(r => r.priority === HousingRequestPriority.HIGH).length}
                 </div>
                 <div className="text-sm text-muted-foreground">High Priority</div>
               </div>
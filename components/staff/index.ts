@@ -9,6 +9,8 @@ export { StaffCharges } from './staff-charges'
 export { ChargeHistory } from './charge-history'
 export { BillingDispute } from './billing-dispute'
 export { PaymentHistory } from './payment-history'
+export { DeductionBalance } from './deduction-balance'
+export { StaffRecurringCharges } from './recurring-charges'
 
 // Staff Profile Components
 export { StaffProfile } from './staff-profile'
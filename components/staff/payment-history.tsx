@@ -1,21 +1,20 @@
 'use client'
 
 import { useState } from 'react'
-import { format, startOfMonth, endOfMonth, subMonths } from 'date-fns'
-import { 
+import { format, subMonths } from 'date-fns'
+import {
   CreditCard,
-  Calendar,
-  Filter,
   Search,
   Download,
-  Eye,
-  CheckCircle,
-  Clock,
   AlertCircle,
   TrendingUp,
   TrendingDown,
   DollarSign,
-  Receipt
+  Receipt,
+  Wallet,
+  FileText,
+  BadgeMinus,
+  Undo2
 } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
@@ -42,20 +41,14 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select'
-import {
-  Dialog,
-  DialogContent,
-  DialogDescription,
-  DialogHeader,
-  DialogTitle,
-  DialogTrigger,
-} from '@/components/ui/dialog'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { Progress } from '@/components/ui/progress'
 import { DatePickerWithRange } from '@/components/ui/date-range-picker'
 import { Separator } from '@/components/ui/separator'
-import { usePaymentHistory } from '@/hooks/use-billing'
-import { ChargeType } from '@/lib/types/billing'
+import { useBillingPeriods, useStaffLedger } from '@/hooks/use-billing'
+import { signedAmount } from '@/lib/billing/ledger'
+import { fromLocalDate } from '@/lib/dates'
+import { LedgerEntryType, type LedgerEntryWithBalance, type LedgerStatement } from '@/lib/types/billing'
 import { cn } from '@/lib/utils'
 
 interface PaymentHistoryProps {
@@ -63,249 +56,146 @@ interface PaymentHistoryProps {
   onExportData?: (data: any[]) => void
 }
 
-// Payment types and statuses
-enum PaymentMethod {
-  PAYROLL_DEDUCTION = 'payroll_deduction',
-  BANK_TRANSFER = 'bank_transfer',
-  CASH = 'cash',
-  CHECK = 'check',
-  OTHER = 'other'
-}
-
-enum PaymentStatus {
-  PENDING = 'pending',
-  PROCESSED = 'processed',
-  COMPLETED = 'completed',
-  FAILED = 'failed',
-  REFUNDED = 'refunded'
-}
-
-const paymentMethodConfig = {
-  [PaymentMethod.PAYROLL_DEDUCTION]: {
+const entryTypeConfig: Record<LedgerEntryType, {
+  label: string
+  description: string
+  color: string
+  icon: typeof CreditCard
+}> = {
+  [LedgerEntryType.CHARGE]: {
+    label: 'Charge',
+    description: 'Housing, utility, transport and other charges',
+    color: 'bg-gray-100 text-gray-800',
+    icon: Receipt
+  },
+  [LedgerEntryType.PAYROLL_DEDUCTION]: {
     label: 'Payroll Deduction',
     description: 'Automatic deduction from salary',
     color: 'bg-blue-100 text-blue-800',
     icon: CreditCard
   },
-  [PaymentMethod.BANK_TRANSFER]: {
-    label: 'Bank Transfer',
-    description: 'Direct bank transfer payment',
+  [LedgerEntryType.CASH_PAYMENT]: {
+    label: 'Cash Payment',
+    description: 'Cash, check or bank transfer payment',
     color: 'bg-green-100 text-green-800',
-    icon: CreditCard
-  },
-  [PaymentMethod.CASH]: {
-    label: 'Cash',
-    description: 'Cash payment',
-    color: 'bg-yellow-100 text-yellow-800',
     icon: DollarSign
   },
-  [PaymentMethod.CHECK]: {
-    label: 'Check',
-    description: 'Check payment',
+  [LedgerEntryType.CREDIT]: {
+    label: 'Credit',
+    description: 'Amount credited back to your account',
     color: 'bg-purple-100 text-purple-800',
-    icon: Receipt
+    icon: TrendingDown
   },
-  [PaymentMethod.OTHER]: {
-    label: 'Other',
-    description: 'Other payment method',
-    color: 'bg-gray-100 text-gray-800',
-    icon: CreditCard
-  }
-}
-
-const statusConfig = {
-  [PaymentStatus.PENDING]: {
-    label: 'Pending',
-    variant: 'secondary' as const,
-    icon: Clock,
-    color: 'text-yellow-600'
-  },
-  [PaymentStatus.PROCESSED]: {
-    label: 'Processed',
-    variant: 'default' as const,
-    icon: Clock,
-    color: 'text-blue-600'
-  },
-  [PaymentStatus.COMPLETED]: {
-    label: 'Completed',
-    variant: 'outline' as const,
-    icon: CheckCircle,
-    color: 'text-green-600'
-  },
-  [PaymentStatus.FAILED]: {
-    label: 'Failed',
-    variant: 'destructive' as const,
-    icon: AlertCircle,
-    color: 'text-red-600'
+  [LedgerEntryType.WRITE_OFF]: {
+    label: 'Write-off',
+    description: 'Balance forgiven',
+    color: 'bg-yellow-100 text-yellow-800',
+    icon: BadgeMinus
   },
-  [PaymentStatus.REFUNDED]: {
-    label: 'Refunded',
-    variant: 'outline' as const,
-    icon: TrendingDown,
-    color: 'text-orange-600'
+  [LedgerEntryType.REFUND]: {
+    label: 'Refund',
+    description: 'Money paid back to you',
+    color: 'bg-orange-100 text-orange-800',
+    icon: Undo2
   }
 }
 
-// Mock payment history data
-const mockPaymentHistory = [
-  {
-    id: '1',
-    staffId: 'staff-1',
-    amount: 975.50,
-    method: PaymentMethod.PAYROLL_DEDUCTION,
-    status: PaymentStatus.COMPLETED,
-    description: 'January 2024 - Rent, Utilities, Transport',
-    paymentDate: new Date('2024-01-31'),
-    processedDate: new Date('2024-01-31'),
-    reference: 'PAY-2024-01-001',
-    charges: [
-      { type: ChargeType.RENT, amount: 850.00, description: 'Monthly rent' },
-      { type: ChargeType.UTILITIES, amount: 125.50, description: 'Utilities' }
-    ],
-    monthYear: '2024-01',
-    createdAt: new Date('2024-01-31'),
-    updatedAt: new Date('2024-01-31')
-  },
-  {
-    id: '2',
-    staffId: 'staff-1',
-    amount: 960.00,
-    method: PaymentMethod.PAYROLL_DEDUCTION,
-    status: PaymentStatus.COMPLETED,
-    description: 'December 2023 - Rent, Utilities',
-    paymentDate: new Date('2023-12-31'),
-    processedDate: new Date('2023-12-31'),
-    reference: 'PAY-2023-12-001',
-    charges: [
-      { type: ChargeType.RENT, amount: 850.00, description: 'Monthly rent' },
-      { type: ChargeType.UTILITIES, amount: 110.00, description: 'Utilities' }
-    ],
-    monthYear: '2023-12',
-    createdAt: new Date('2023-12-31'),
-    updatedAt: new Date('2023-12-31')
-  },
-  {
-    id: '3',
-    staffId: 'staff-1',
-    amount: 965.00,
-    method: PaymentMethod.PAYROLL_DEDUCTION,
-    status: PaymentStatus.COMPLETED,
-    description: 'November 2023 - Rent, Utilities',
-    paymentDate: new Date('2023-11-30'),
-    processedDate: new Date('2023-11-30'),
-    reference: 'PAY-2023-11-001',
-    charges: [
-      { type: ChargeType.RENT, amount: 850.00, description: 'Monthly rent' },
-      { type: ChargeType.UTILITIES, amount: 115.00, description: 'Utilities' }
-    ],
-    monthYear: '2023-11',
-    createdAt: new Date('2023-11-30'),
-    updatedAt: new Date('2023-11-30')
-  },
-  {
-    id: '4',
-    staffId: 'staff-1',
-    amount: 45.00,
-    method: PaymentMethod.CASH,
-    status: PaymentStatus.COMPLETED,
-    description: 'Transport charges - Additional trips',
-    paymentDate: new Date('2024-01-15'),
-    processedDate: new Date('2024-01-15'),
-    reference: 'PAY-2024-01-002',
-    charges: [
-      { type: ChargeType.TRANSPORT, amount: 45.00, description: 'Company shuttle - 3 trips' }
-    ],
-    monthYear: '2024-01',
-    createdAt: new Date('2024-01-15'),
-    updatedAt: new Date('2024-01-15')
-  },
-  {
-    id: '5',
-    staffId: 'staff-1',
-    amount: 25.00,
-    method: PaymentMethod.BANK_TRANSFER,
-    status: PaymentStatus.PENDING,
-    description: 'Maintenance fee',
-    paymentDate: new Date('2024-02-01'),
-    reference: 'PAY-2024-02-001',
-    charges: [
-      { type: ChargeType.OTHER, amount: 25.00, description: 'Room maintenance fee' }
-    ],
-    monthYear: '2024-02',
-    createdAt: new Date('2024-02-01'),
-    updatedAt: new Date('2024-02-01')
-  }
+// Entry types that reduce the balance, shown as payments in the overview
+const PAYMENT_TYPES = [
+  LedgerEntryType.PAYROLL_DEDUCTION,
+  LedgerEntryType.CASH_PAYMENT,
+  LedgerEntryType.CREDIT,
+  LedgerEntryType.WRITE_OFF,
 ]
 
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount)
+
+// Ledger and period dates are UTC days; show them without shifting into local time
+const formatDay = (date: Date, pattern = 'MMM dd, yyyy') =>
+  format(new Date(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()), pattern)
+
+function downloadStatement(statement: LedgerStatement) {
+  const escape = (value: string) => `"${value.replace(/"/g, '""')}"`
+  const lines = [
+    ['Date', 'Type', 'Description', 'Reference', 'Debit', 'Credit', 'Balance'].join(','),
+    ['', '', 'Opening balance', '', '', '', statement.openingBalance.toFixed(2)].join(','),
+    ...statement.entries.map(entry => [
+      formatDay(entry.entryDate, 'yyyy-MM-dd'),
+      entryTypeConfig[entry.entryType].label,
+      escape(entry.description),
+      escape(entry.reference ?? ''),
+      entry.debit ? entry.debit.toFixed(2) : '',
+      entry.credit ? entry.credit.toFixed(2) : '',
+      entry.balance.toFixed(2),
+    ].join(',')),
+    ['', '', 'Closing balance', '', '', '', statement.closingBalance.toFixed(2)].join(','),
+  ]
+
+  const blob = new Blob([lines.join('\n')], { type: 'text/csv' })
+  const link = document.createElement('a')
+  link.href = URL.createObjectURL(blob)
+  link.download = `statement-${formatDay(statement.periodStart, 'yyyy-MM-dd')}-${formatDay(statement.periodEnd, 'yyyy-MM-dd')}.csv`
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+}
+
 export function PaymentHistory({ staffId, onExportData }: PaymentHistoryProps) {
   const [searchTerm, setSearchTerm] = useState('')
-  const [statusFilter, setStatusFilter] = useState<string>('all')
-  const [methodFilter, setMethodFilter] = useState<string>('all')
+  const [typeFilter, setTypeFilter] = useState<string>('all')
   const [dateRange, setDateRange] = useState<{ from?: Date; to?: Date }>({
     from: subMonths(new Date(), 6),
     to: new Date()
   })
-  const [selectedPayment, setSelectedPayment] = useState<any>(null)
-
-  // In real implementation, this would fetch data based on staffId and filters
-  const { payments, isLoading, error } = usePaymentHistory(staffId, dateRange.from && dateRange.to ? { start: dateRange.from, end: dateRange.to } : undefined)
-  
-  // Use mock data for demonstration
-  const paymentHistory = mockPaymentHistory
-
-  // Filter payments based on search and filters
-  const filteredPayments = paymentHistory.filter(payment => {
-    const matchesSearch = searchTerm === '' || 
-      payment.description.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      payment.reference.toLowerCase().includes(searchTerm.toLowerCase())
-    
-    const matchesStatus = statusFilter === 'all' || payment.status === statusFilter
-    const matchesMethod = methodFilter === 'all' || payment.method === methodFilter
-    
-    const paymentDate = payment.paymentDate
-    const matchesDateRange = !dateRange.from || !dateRange.to ||
-      (paymentDate >= dateRange.from && paymentDate <= dateRange.to)
-    
-    return matchesSearch && matchesStatus && matchesMethod && matchesDateRange
-  })
+  const [statementPeriodId, setStatementPeriodId] = useState<string>()
+
+  const range = dateRange.from && dateRange.to
+    ? { start: fromLocalDate(dateRange.from), end: fromLocalDate(dateRange.to) }
+    : undefined
+  const { entries, balance, statement, getStatement, isLoading, error } = useStaffLedger(staffId, range)
+  const { periods } = useBillingPeriods()
 
-  // Calculate summary statistics
-  const totalPaid = filteredPayments
-    .filter(p => p.status === PaymentStatus.COMPLETED)
-    .reduce((sum, payment) => sum + payment.amount, 0)
+  const statementPeriods = periods?.filter(period => !period.parentPeriodId) || []
+  const statementPeriod = statementPeriods.find(period => period.id === statementPeriodId)
+  const periodStatement = statementPeriod
+    ? getStatement(statementPeriod.startDate, statementPeriod.endDate)
+    : null
 
-  const pendingAmount = filteredPayments
-    .filter(p => p.status === PaymentStatus.PENDING)
-    .reduce((sum, payment) => sum + payment.amount, 0)
+  // Entries in the selected range, newest first
+  const rangeEntries = (statement?.entries ?? entries).slice().reverse()
+  const filteredEntries = rangeEntries.filter(entry => {
+    const matchesSearch = searchTerm === '' ||
+      entry.description.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      (entry.reference ?? '').toLowerCase().includes(searchTerm.toLowerCase())
+    const matchesType = typeFilter === 'all' || entry.entryType === typeFilter
 
-  const averagePayment = filteredPayments.length > 0 
-    ? totalPaid / filteredPayments.filter(p => p.status === PaymentStatus.COMPLETED).length 
+    return matchesSearch && matchesType
+  })
+
+  // Summary statistics for the selected range; payments are shown as positive amounts
+  const totals = statement?.totals
+  const totalCharged = totals
+    ? totals[LedgerEntryType.CHARGE] + totals[LedgerEntryType.REFUND]
     : 0
+  const paidByType = PAYMENT_TYPES.map(type => ({ type, amount: -(totals?.[type] ?? 0) }))
+    .filter(({ amount }) => amount > 0)
+  const totalPaid = paidByType.reduce((sum, { amount }) => sum + amount, 0)
+  const forgiven = -((totals?.[LedgerEntryType.CREDIT] ?? 0) + (totals?.[LedgerEntryType.WRITE_OFF] ?? 0))
 
-  // Group payments by month for trends
-  const paymentsByMonth = filteredPayments.reduce((acc, payment) => {
-    const monthKey = payment.monthYear
-    if (!acc[monthKey]) {
-      acc[monthKey] = { payments: [], total: 0 }
-    }
-    acc[monthKey].payments.push(payment)
-    if (payment.status === PaymentStatus.COMPLETED) {
-      acc[monthKey].total += payment.amount
-    }
-    return acc
-  }, {} as Record<string, { payments: any[], total: number }>)
-
-  const monthlyTotals = Object.entries(paymentsByMonth)
+  // Charged against paid per month for trends
+  const monthlyTotals = Object.entries(
+    (statement?.entries ?? []).reduce((acc, entry) => {
+      const monthKey = formatDay(entry.entryDate, 'yyyy-MM')
+      if (!acc[monthKey]) acc[monthKey] = { charged: 0, paid: 0 }
+      const amount = signedAmount(entry)
+      if (amount > 0) acc[monthKey].charged += amount
+      else acc[monthKey].paid -= amount
+      return acc
+    }, {} as Record<string, { charged: number; paid: number }>)
+  )
     .sort(([a], [b]) => a.localeCompare(b))
-    .map(([month, data]) => ({ month, total: data.total }))
-
-  // Payment method distribution
-  const paymentsByMethod = filteredPayments.reduce((acc, payment) => {
-    if (payment.status === PaymentStatus.COMPLETED) {
-      acc[payment.method] = (acc[payment.method] || 0) + payment.amount
-    }
-    return acc
-  }, {} as Record<PaymentMethod, number>)
+    .map(([month, data]) => ({ month, ...data }))
 
   if (isLoading) {
     return (
@@ -334,6 +224,38 @@ export function PaymentHistory({ staffId, onExportData }: PaymentHistoryProps) {
     )
   }
 
+  const renderEntryRows = (rows: LedgerEntryWithBalance[]) =>
+    rows.map(entry => {
+      const config = entryTypeConfig[entry.entryType]
+      return (
+        <TableRow key={entry.id}>
+          <TableCell>
+            <div className="text-sm">{formatDay(entry.entryDate)}</div>
+          </TableCell>
+          <TableCell>
+            <div className="font-medium">{entry.description}</div>
+          </TableCell>
+          <TableCell>
+            <Badge variant="outline" className={config.color}>
+              {config.label}
+            </Badge>
+          </TableCell>
+          <TableCell>
+            <span className="text-sm font-mono">{entry.reference ?? ''}</span>
+          </TableCell>
+          <TableCell className="text-right">
+            {entry.debit ? formatCurrency(entry.debit) : ''}
+          </TableCell>
+          <TableCell className="text-right text-green-600">
+            {entry.credit ? formatCurrency(entry.credit) : ''}
+          </TableCell>
+          <TableCell className="text-right font-medium">
+            {formatCurrency(entry.balance)}
+          </TableCell>
+        </TableRow>
+      )
+    })
+
   return (
     <div className="space-y-6">
       <Card>
@@ -345,11 +267,11 @@ export function PaymentHistory({ staffId, onExportData }: PaymentHistoryProps) {
                 Payment History
               </CardTitle>
               <CardDescription>
-                Track your payment history and deduction details
+                Everything charged to, paid on and credited to your account
               </CardDescription>
             </div>
             <div className="flex gap-2">
-              <Button variant="outline" className="gap-2" onClick={() => onExportData?.(filteredPayments)}>
+              <Button variant="outline" className="gap-2" onClick={() => onExportData?.(filteredEntries)}>
                 <Download className="h-4 w-4" />
                 Export
               </Button>
@@ -358,11 +280,23 @@ export function PaymentHistory({ staffId, onExportData }: PaymentHistoryProps) {
         </CardHeader>
         <CardContent>
           <Tabs defaultValue="overview" className="space-y-4">
-            <TabsList>
-              <TabsTrigger value="overview">Overview</TabsTrigger>
-              <TabsTrigger value="trends">Trends</TabsTrigger>
-              <TabsTrigger value="details">Details</TabsTrigger>
-            </TabsList>
+            <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+              <TabsList>
+                <TabsTrigger value="overview">Overview</TabsTrigger>
+                <TabsTrigger value="trends">Trends</TabsTrigger>
+                <TabsTrigger value="details">Details</TabsTrigger>
+                <TabsTrigger value="statements">Statements</TabsTrigger>
+              </TabsList>
+              <DatePickerWithRange
+                date={dateRange.from && dateRange.to ? { from: dateRange.from, to: dateRange.to } : undefined}
+                onDateChange={(range) => {
+                  setDateRange({
+                    from: range?.from,
+                    to: range?.to
+                  })
+                }}
+              />
+            </div>
 
             <TabsContent value="overview" className="space-y-4">
               {/* Summary Cards */}
@@ -371,15 +305,15 @@ export function PaymentHistory({ staffId, onExportData }: PaymentHistoryProps) {
                   <CardContent className="pt-6">
                     <div className="flex items-center justify-between">
                       <div>
-                        <p className="text-sm font-medium text-muted-foreground">Total Paid</p>
-                        <p className="text-2xl font-bold">${totalPaid.toLocaleString()}</p>
+                        <p className="text-sm font-medium text-muted-foreground">Current Balance</p>
+                        <p className="text-2xl font-bold">{formatCurrency(balance)}</p>
                       </div>
-                      <div className="bg-green-100 p-2 rounded-full">
-                        <CheckCircle className="h-4 w-4 text-green-600" />
+                      <div className="bg-blue-100 p-2 rounded-full">
+                        <Wallet className="h-4 w-4 text-blue-600" />
                       </div>
                     </div>
                     <p className="text-sm text-muted-foreground mt-2">
-                      {filteredPayments.filter(p => p.status === PaymentStatus.COMPLETED).length} completed payments
+                      {balance > 0 ? 'Still owed' : balance < 0 ? 'In your favor' : 'Fully paid'}
                     </p>
                   </CardContent>
                 </Card>
@@ -388,15 +322,15 @@ export function PaymentHistory({ staffId, onExportData }: PaymentHistoryProps) {
                   <CardContent className="pt-6">
                     <div className="flex items-center justify-between">
                       <div>
-                        <p className="text-sm font-medium text-muted-foreground">Pending</p>
-                        <p className="text-2xl font-bold">${pendingAmount.toLocaleString()}</p>
+                        <p className="text-sm font-medium text-muted-foreground">Charged</p>
+                        <p className="text-2xl font-bold">{formatCurrency(totalCharged)}</p>
                       </div>
-                      <div className="bg-yellow-100 p-2 rounded-full">
-                        <Clock className="h-4 w-4 text-yellow-600" />
+                      <div className="bg-gray-100 p-2 rounded-full">
+                        <Receipt className="h-4 w-4 text-gray-600" />
                       </div>
                     </div>
                     <p className="text-sm text-muted-foreground mt-2">
-                      {filteredPayments.filter(p => p.status === PaymentStatus.PENDING).length} pending payments
+                      In the selected range
                     </p>
                   </CardContent>
                 </Card>
@@ -405,15 +339,15 @@ export function PaymentHistory({ staffId, onExportData }: PaymentHistoryProps) {
                   <CardContent className="pt-6">
                     <div className="flex items-center justify-between">
                       <div>
-                        <p className="text-sm font-medium text-muted-foreground">Average Payment</p>
-                        <p className="text-2xl font-bold">${averagePayment.toLocaleString()}</p>
+                        <p className="text-sm font-medium text-muted-foreground">Paid</p>
+                        <p className="text-2xl font-bold">{formatCurrency(totalPaid - forgiven)}</p>
                       </div>
-                      <div className="bg-blue-100 p-2 rounded-full">
-                        <TrendingUp className="h-4 w-4 text-blue-600" />
+                      <div className="bg-green-100 p-2 rounded-full">
+                        <DollarSign className="h-4 w-4 text-green-600" />
                       </div>
                     </div>
                     <p className="text-sm text-muted-foreground mt-2">
-                      Per completed payment
+                      Payroll deductions and cash payments
                     </p>
                   </CardContent>
                 </Card>
@@ -422,104 +356,103 @@ export function PaymentHistory({ staffId, onExportData }: PaymentHistoryProps) {
                   <CardContent className="pt-6">
                     <div className="flex items-center justify-between">
                       <div>
-                        <p className="text-sm font-medium text-muted-foreground">This Month</p>
-                        <p className="text-2xl font-bold">
-                          ${paymentsByMonth['2024-01']?.total.toLocaleString() || '0'}
-                        </p>
+                        <p className="text-sm font-medium text-muted-foreground">Credits & Write-offs</p>
+                        <p className="text-2xl font-bold">{formatCurrency(forgiven)}</p>
                       </div>
                       <div className="bg-purple-100 p-2 rounded-full">
-                        <Calendar className="h-4 w-4 text-purple-600" />
+                        <TrendingDown className="h-4 w-4 text-purple-600" />
                       </div>
                     </div>
                     <p className="text-sm text-muted-foreground mt-2">
-                      January 2024
+                      Taken off your balance
                     </p>
                   </CardContent>
                 </Card>
               </div>
 
-              {/* Payment Method Distribution */}
+              {/* How the balance was paid down */}
               <Card>
                 <CardHeader>
-                  <CardTitle>Payment Methods</CardTitle>
-                  <CardDescription>Distribution of payments by method</CardDescription>
+                  <CardTitle>How Your Charges Were Settled</CardTitle>
+                  <CardDescription>Payments and credits in the selected range</CardDescription>
                 </CardHeader>
                 <CardContent>
-                  <div className="space-y-4">
-                    {Object.entries(paymentsByMethod).map(([method, amount]) => {
-                      const config = paymentMethodConfig[method as PaymentMethod]
-                      const percentage = totalPaid > 0 ? (amount / totalPaid) * 100 : 0
-                      
-                      return (
-                        <div key={method} className="space-y-2">
-                          <div className="flex justify-between items-center">
-                            <div className="flex items-center gap-2">
-                              <div className={cn('w-3 h-3 rounded-full', config.color.split(' ')[0])} />
-                              <span className="text-sm font-medium">{config.label}</span>
-                            </div>
-                            <div className="text-right">
-                              <span className="text-sm font-medium">${amount.toLocaleString()}</span>
-                              <span className="text-xs text-muted-foreground ml-2">
-                                {percentage.toFixed(1)}%
-                              </span>
+                  {paidByType.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No payments in the selected range.</p>
+                  ) : (
+                    <div className="space-y-4">
+                      {paidByType.map(({ type, amount }) => {
+                        const config = entryTypeConfig[type]
+                        const percentage = totalPaid > 0 ? (amount / totalPaid) * 100 : 0
+
+                        return (
+                          <div key={type} className="space-y-2">
+                            <div className="flex justify-between items-center">
+                              <div className="flex items-center gap-2">
+                                <div className={cn('w-3 h-3 rounded-full', config.color.split(' ')[0])} />
+                                <span className="text-sm font-medium">{config.label}</span>
+                              </div>
+                              <div className="text-right">
+                                <span className="text-sm font-medium">{formatCurrency(amount)}</span>
+                                <span className="text-xs text-muted-foreground ml-2">
+                                  {percentage.toFixed(1)}%
+                                </span>
+                              </div>
                             </div>
+                            <Progress value={percentage} className="h-2" />
                           </div>
-                          <Progress value={percentage} className="h-2" />
-                        </div>
-                      )
-                    })}
-                  </div>
+                        )
+                      })}
+                    </div>
+                  )}
                 </CardContent>
               </Card>
             </TabsContent>
 
             <TabsContent value="trends" className="space-y-4">
-              {/* Monthly Payment Trends */}
+              {/* Monthly Trends */}
               <Card>
                 <CardHeader>
-                  <CardTitle>Monthly Payment Trends</CardTitle>
-                  <CardDescription>Your payment patterns over time</CardDescription>
+                  <CardTitle>Monthly Activity</CardTitle>
+                  <CardDescription>Charged against paid, month by month</CardDescription>
                 </CardHeader>
                 <CardContent>
-                  <div className="space-y-4">
-                    {monthlyTotals.map((month, index) => {
-                      const previousMonth = monthlyTotals[index - 1]
-                      const change = previousMonth 
-                        ? ((month.total - previousMonth.total) / previousMonth.total) * 100 
-                        : 0
-                      
-                      return (
+                  {monthlyTotals.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No activity in the selected range.</p>
+                  ) : (
+                    <div className="space-y-4">
+                      {monthlyTotals.map(month => (
                         <div key={month.month} className="flex items-center justify-between p-3 border rounded-lg">
-                          <div>
-                            <p className="font-medium">
-                              {format(new Date(month.month + '-01'), 'MMMM yyyy')}
-                            </p>
-                            <p className="text-sm text-muted-foreground">
-                              {paymentsByMonth[month.month]?.payments.length || 0} payments
-                            </p>
-                          </div>
-                          <div className="text-right">
-                            <p className="font-semibold">${month.total.toLocaleString()}</p>
-                            {previousMonth && (
-                              <div className="flex items-center gap-1">
-                                {change >= 0 ? (
-                                  <TrendingUp className="h-3 w-3 text-red-500" />
-                                ) : (
-                                  <TrendingDown className="h-3 w-3 text-green-500" />
-                                )}
-                                <span className={cn(
-                                  "text-xs",
-                                  change >= 0 ? "text-red-600" : "text-green-600"
-                                )}>
-                                  {Math.abs(change).toFixed(1)}%
-                                </span>
-                              </div>
-                            )}
+                          <p className="font-medium">
+                            {format(new Date(`${month.month}-01T00:00:00`), 'MMMM yyyy')}
+                          </p>
+                          <div className="flex gap-6 text-right">
+                            <div>
+                              <p className="text-xs text-muted-foreground">Charged</p>
+                              <p className="font-semibold">{formatCurrency(month.charged)}</p>
+                            </div>
+                            <div>
+                              <p className="text-xs text-muted-foreground">Paid</p>
+                              <p className="font-semibold">{formatCurrency(month.paid)}</p>
+                            </div>
+                            <div className="flex items-center gap-1 w-24 justify-end">
+                              {month.charged > month.paid ? (
+                                <TrendingUp className="h-3 w-3 text-red-500" />
+                              ) : (
+                                <TrendingDown className="h-3 w-3 text-green-500" />
+                              )}
+                              <span className={cn(
+                                'text-xs',
+                                month.charged > month.paid ? 'text-red-600' : 'text-green-600'
+                              )}>
+                                {formatCurrency(Math.abs(month.charged - month.paid))}
+                              </span>
+                            </div>
                           </div>
                         </div>
-                      )
-                    })}
-                  </div>
+                      ))}
+                    </div>
+                  )}
                 </CardContent>
               </Card>
             </TabsContent>
@@ -531,208 +464,148 @@ export function PaymentHistory({ staffId, onExportData }: PaymentHistoryProps) {
                   <div className="relative">
                     <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
                     <Input
-                      placeholder="Search payments..."
+                      placeholder="Search entries..."
                       value={searchTerm}
                       onChange={(e) => setSearchTerm(e.target.value)}
                       className="pl-10"
                     />
                   </div>
                 </div>
-                <Select value={statusFilter} onValueChange={setStatusFilter}>
+                <Select value={typeFilter} onValueChange={setTypeFilter}>
                   <SelectTrigger className="w-48">
-                    <SelectValue placeholder="Filter by status" />
+                    <SelectValue placeholder="Filter by type" />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="all">All Statuses</SelectItem>
-                    {Object.entries(statusConfig).map(([value, config]) => (
+                    <SelectItem value="all">All Entries</SelectItem>
+                    {Object.entries(entryTypeConfig).map(([value, config]) => (
                       <SelectItem key={value} value={value}>
                         {config.label}
                       </SelectItem>
                     ))}
                   </SelectContent>
                 </Select>
-                <Select value={methodFilter} onValueChange={setMethodFilter}>
-                  <SelectTrigger className="w-48">
-                    <SelectValue placeholder="Filter by method" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="all">All Methods</SelectItem>
-                    {Object.entries(paymentMethodConfig).map(([value, config]) => (
-                      <SelectItem key={value} value={value}>
-                        {config.label}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
-                <DatePickerWithRange
-                  date={dateRange.from && dateRange.to ? { from: dateRange.from, to: dateRange.to } : undefined}
-                  onDateChange={(range) => {
-                    setDateRange({
-                      from: range?.from,
-                      to: range?.to
-                    })
-                  }}
-                />
               </div>
 
-              {/* Payments Table */}
-              {filteredPayments.length > 0 ? (
+              {/* Ledger Table */}
+              {filteredEntries.length > 0 ? (
                 <div className="border rounded-md">
                   <Table>
                     <TableHeader>
                       <TableRow>
                         <TableHead>Date</TableHead>
                         <TableHead>Description</TableHead>
-                        <TableHead>Method</TableHead>
-                        <TableHead>Status</TableHead>
+                        <TableHead>Type</TableHead>
                         <TableHead>Reference</TableHead>
-                        <TableHead className="text-right">Amount</TableHead>
-                        <TableHead className="text-right">Actions</TableHead>
+                        <TableHead className="text-right">Charged</TableHead>
+                        <TableHead className="text-right">Paid</TableHead>
+                        <TableHead className="text-right">Balance</TableHead>
                       </TableRow>
                     </TableHeader>
-                    <TableBody>
-                      {filteredPayments.map((payment) => {
-                        const methodConfig = paymentMethodConfig[payment.method]
-                        const statusConf = statusConfig[payment.status]
-                        
-                        return (
-                          <TableRow key={payment.id}>
-                            <TableCell>
-                              <div className="text-sm">
-                                {format(payment.paymentDate, 'MMM dd, yyyy')}
-                              </div>
-                            </TableCell>
-                            <TableCell>
-                              <div>
-                                <div className="font-medium">{payment.description}</div>
-                                <div className="text-sm text-muted-foreground">
-                                  {payment.charges.length} charge{payment.charges.length !== 1 ? 's' : ''}
-                                </div>
-                              </div>
-                            </TableCell>
-                            <TableCell>
-                              <Badge variant="outline" className={methodConfig.color}>
-                                {methodConfig.label}
-                              </Badge>
-                            </TableCell>
-                            <TableCell>
-                              <Badge variant={statusConf.variant} className="gap-1">
-                                {(() => {
-                                  const IconComponent = statusConf.icon;
-                                  return <IconComponent className="h-3 w-3" />;
-                                })()}
-                                {statusConf.label}
-                              </Badge>
-                            </TableCell>
-                            <TableCell>
-                              <span className="text-sm font-mono">{payment.reference}</span>
-                            </TableCell>
-                            <TableCell className="text-right font-medium">
-                              ${payment.amount.toLocaleString()}
-                            </TableCell>
-                            <TableCell className="text-right">
-                              <Dialog>
-                                <DialogTrigger asChild>
-                                  <Button 
-                                    variant="ghost" 
-                                    size="sm"
-                                    onClick={() => setSelectedPayment(payment)}
-                                  >
-                                    <Eye className="h-4 w-4" />
-                                  </Button>
-                                </DialogTrigger>
-                                <DialogContent className="max-w-2xl">
-                                  <DialogHeader>
-                                    <DialogTitle>Payment Details</DialogTitle>
-                                    <DialogDescription>
-                                      {selectedPayment?.description}
-                                    </DialogDescription>
-                                  </DialogHeader>
-                                  {selectedPayment && (
-                                    <div className="space-y-4">
-                                      <div className="grid grid-cols-2 gap-4">
-                                        <div>
-                                          <p className="text-sm font-medium text-muted-foreground">Payment Date</p>
-                                          <p className="text-sm">{format(selectedPayment.paymentDate, 'PPP')}</p>
-                                        </div>
-                                        <div>
-                                          <p className="text-sm font-medium text-muted-foreground">Amount</p>
-                                          <p className="text-lg font-semibold">${selectedPayment.amount.toLocaleString()}</p>
-                                        </div>
-                                        <div>
-                                          <p className="text-sm font-medium text-muted-foreground">Method</p>
-                                          <Badge variant="outline" className={paymentMethodConfig[selectedPayment.method as keyof typeof paymentMethodConfig]?.color || 'text-gray-600'}>
-                                            {paymentMethodConfig[selectedPayment.method as keyof typeof paymentMethodConfig]?.label || selectedPayment.method}
-                                          </Badge>
-                                        </div>
-                                        <div>
-                                          <p className="text-sm font-medium text-muted-foreground">Status</p>
-                                          <Badge variant={statusConfig[selectedPayment.status as keyof typeof statusConfig]?.variant as any || 'secondary'} className="gap-1">
-                                            {(() => {
-                                              const config = statusConfig[selectedPayment.status as keyof typeof statusConfig];
-                                              if (config?.icon) {
-                                                const IconComponent = config.icon;
-                                                return <IconComponent className="h-3 w-3" />;
-                                              }
-                                              return null;
-                                            })()}
-                                            {statusConfig[selectedPayment.status as keyof typeof statusConfig]?.label || selectedPayment.status}
-                                          </Badge>
-                                        </div>
-                                        <div>
-                                          <p className="text-sm font-medium text-muted-foreground">Reference</p>
-                                          <p className="text-sm font-mono">{selectedPayment.reference}</p>
-                                        </div>
-                                        {selectedPayment.processedDate && (
-                                          <div>
-                                            <p className="text-sm font-medium text-muted-foreground">Processed Date</p>
-                                            <p className="text-sm">{format(selectedPayment.processedDate, 'PPP')}</p>
-                                          </div>
-                                        )}
-                                      </div>
-                                      
-                                      <Separator />
-                                      
-                                      <div>
-                                        <p className="text-sm font-medium text-muted-foreground mb-3">Charge Breakdown</p>
-                                        <div className="space-y-2">
-                                          {selectedPayment.charges.map((charge: any, index: number) => (
-                                            <div key={index} className="flex justify-between items-center p-2 bg-muted rounded">
-                                              <div>
-                                                <span className="text-sm font-medium">{charge.description}</span>
-                                                <Badge variant="outline" className="ml-2 text-xs">
-                                                  {charge.type.replace('_', ' ').toLowerCase()}
-                                                </Badge>
-                                              </div>
-                                              <span className="text-sm font-medium">${charge.amount.toLocaleString()}</span>
-                                            </div>
-                                          ))}
-                                        </div>
-                                      </div>
-                                    </div>
-                                  )}
-                                </DialogContent>
-                              </Dialog>
-                            </TableCell>
-                          </TableRow>
-                        )
-                      })}
-                    </TableBody>
+                    <TableBody>{renderEntryRows(filteredEntries)}</TableBody>
                   </Table>
                 </div>
               ) : (
                 <div className="text-center py-8">
                   <CreditCard className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
-                  <h3 className="text-lg font-medium mb-2">No Payments Found</h3>
+                  <h3 className="text-lg font-medium mb-2">No Entries Found</h3>
                   <p className="text-muted-foreground">
-                    {searchTerm || statusFilter !== 'all' || methodFilter !== 'all'
-                      ? 'No payments match your current filters.'
-                      : 'No payment history available for the selected period.'
+                    {searchTerm || typeFilter !== 'all'
+                      ? 'No entries match your current filters.'
+                      : 'No account activity in the selected range.'
                     }
                   </p>
                 </div>
               )}
             </TabsContent>
+
+            <TabsContent value="statements" className="space-y-4">
+              <div className="flex flex-col md:flex-row gap-4 md:items-center">
+                <Select value={statementPeriodId} onValueChange={setStatementPeriodId}>
+                  <SelectTrigger className="md:w-80">
+                    <SelectValue placeholder="Select a billing period" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {statementPeriods.map(period => (
+                      <SelectItem key={period.id} value={period.id}>
+                        {formatDay(period.startDate)} – {formatDay(period.endDate)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {periodStatement && (
+                  <Button variant="outline" className="gap-2" onClick={() => downloadStatement(periodStatement)}>
+                    <Download className="h-4 w-4" />
+                    Download Statement
+                  </Button>
+                )}
+              </div>
+
+              {periodStatement ? (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <FileText className="h-5 w-5" />
+                      Statement
+                    </CardTitle>
+                    <CardDescription>
+                      {formatDay(periodStatement.periodStart)} – {formatDay(periodStatement.periodEnd)}
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div className="flex justify-between text-sm">
+                      <span className="text-muted-foreground">Opening balance</span>
+                      <span className="font-medium">{formatCurrency(periodStatement.openingBalance)}</span>
+                    </div>
+
+                    {periodStatement.entries.length > 0 ? (
+                      <div className="border rounded-md">
+                        <Table>
+                          <TableHeader>
+                            <TableRow>
+                              <TableHead>Date</TableHead>
+                              <TableHead>Description</TableHead>
+                              <TableHead>Type</TableHead>
+                              <TableHead>Reference</TableHead>
+                              <TableHead className="text-right">Charged</TableHead>
+                              <TableHead className="text-right">Paid</TableHead>
+                              <TableHead className="text-right">Balance</TableHead>
+                            </TableRow>
+                          </TableHeader>
+                          <TableBody>{renderEntryRows(periodStatement.entries)}</TableBody>
+                        </Table>
+                      </div>
+                    ) : (
+                      <p className="text-sm text-muted-foreground">No activity in this period.</p>
+                    )}
+
+                    <Separator />
+
+                    <div className="space-y-1">
+                      {Object.values(LedgerEntryType)
+                        .filter(type => periodStatement.totals[type] !== 0)
+                        .map(type => (
+                          <div key={type} className="flex justify-between text-sm">
+                            <span>{entryTypeConfig[type].label}</span>
+                            <span>{formatCurrency(periodStatement.totals[type])}</span>
+                          </div>
+                        ))}
+                    </div>
+
+                    <div className="flex justify-between font-semibold">
+                      <span>Closing balance</span>
+                      <span>{formatCurrency(periodStatement.closingBalance)}</span>
+                    </div>
+                  </CardContent>
+                </Card>
+              ) : (
+                <div className="text-center py-8">
+                  <FileText className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                  <p className="text-muted-foreground">
+                    Select a billing period to see its statement.
+                  </p>
+                </div>
+              )}
+            </TabsContent>
           </Tabs>
         </CardContent>
       </Card>
@@ -0,0 +1,155 @@
+'use client'
+
+import { format } from 'date-fns'
+import { AlertCircle, Repeat } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { useRecurringCharges } from '@/hooks/use-billing'
+import { fromLocalDate } from '@/lib/dates'
+import {
+  RecurringChargeCategory,
+  RecurringChargeFrequency,
+  RecurringChargeScope,
+} from '@/lib/types/billing'
+
+interface StaffRecurringChargesProps {
+  staffId: string
+}
+
+const categoryLabels: Record<RecurringChargeCategory, string> = {
+  [RecurringChargeCategory.MEAL_PLAN]: 'Meal plan',
+  [RecurringChargeCategory.PARKING]: 'Parking',
+  [RecurringChargeCategory.EQUIPMENT_RENTAL]: 'Equipment rental',
+  [RecurringChargeCategory.OTHER]: 'Other',
+}
+
+const frequencyLabels: Record<RecurringChargeFrequency, string> = {
+  [RecurringChargeFrequency.PER_PERIOD]: 'per billing period',
+  [RecurringChargeFrequency.WEEKLY]: 'per week',
+  [RecurringChargeFrequency.MONTHLY]: 'per month',
+}
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount)
+
+// Schedule dates are UTC days; show them without shifting into local time
+const formatDay = (date: Date) =>
+  format(new Date(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()), 'MMM d, yyyy')
+
+export function StaffRecurringCharges({ staffId }: StaffRecurringChargesProps) {
+  const { recurringCharges, isLoading, error } = useRecurringCharges(staffId)
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Loading your recurring charges...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (error) {
+    return (
+      <Card>
+        <CardContent className="pt-6">
+          <div className="text-center">
+            <AlertCircle className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+            <p className="text-muted-foreground">Failed to load your recurring charges</p>
+            <Button variant="outline" className="mt-4" onClick={() => window.location.reload()}>
+              Try Again
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  const today = fromLocalDate(new Date())
+  const active = recurringCharges.filter(
+    charge => charge.isActive && (!charge.endDate || charge.endDate >= today)
+  )
+
+  if (active.length === 0) {
+    return (
+      <Card>
+        <CardContent className="pt-6">
+          <div className="text-center">
+            <Repeat className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+            <p className="font-medium">No recurring charges</p>
+            <p className="text-sm text-muted-foreground">
+              Meal plans, parking and rentals you sign up for will show here
+            </p>
+          </div>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Repeat className="h-5 w-5" />
+          Active Recurring Charges
+        </CardTitle>
+        <CardDescription>
+          Added to each billing period while they run; partial periods may be prorated
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Charge</TableHead>
+              <TableHead>Amount</TableHead>
+              <TableHead>Runs</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {active.map(charge => (
+              <TableRow key={charge.id}>
+                <TableCell>
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{charge.name}</span>
+                    {charge.scope === RecurringChargeScope.DEPARTMENT && (
+                      <Badge variant="outline">Department</Badge>
+                    )}
+                  </div>
+                  <p className="text-sm text-muted-foreground">{categoryLabels[charge.category]}</p>
+                </TableCell>
+                <TableCell>
+                  {formatCurrency(charge.amount)}{' '}
+                  <span className="text-sm text-muted-foreground">
+                    {frequencyLabels[charge.frequency]}
+                  </span>
+                </TableCell>
+                <TableCell className="text-sm">
+                  {charge.startDate > today ? 'Starts ' : 'Since '}
+                  {formatDay(charge.startDate)}
+                  {charge.endDate && <> until {formatDay(charge.endDate)}</>}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  )
+}
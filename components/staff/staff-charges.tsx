@@ -53,8 +53,17 @@ import {
 } from '@/components/ui/dialog'
 import { Progress } from '@/components/ui/progress'
 import { Separator } from '@/components/ui/separator'
-import { useStaffCharges } from '@/hooks/use-billing'
-import { BillingStatus, ChargeType, type ChargeWithDetails } from '@/lib/types/billing'
+import { toast } from 'sonner'
+import { useBillingStatements, useStaffCharges } from '@/hooks/use-billing'
+import { netChargeAmount, isCreditAdjustment } from '@/lib/billing/adjustments'
+import {
+  AdjustmentReasonCode,
+  BillingStatus,
+  ChargeAdjustmentType,
+  ChargeStatus,
+  ChargeType,
+  type ChargeWithDetails,
+} from '@/lib/types/billing'
 import { cn } from '@/lib/utils'
 
 interface StaffChargesProps {
@@ -90,6 +99,16 @@ const chargeTypeConfig = {
   }
 }
 
+const adjustmentTypeLabels: Record<ChargeAdjustmentType, string> = {
+  [ChargeAdjustmentType.CREDIT_NOTE]: 'Credit note',
+  [ChargeAdjustmentType.DEBIT]: 'Debit adjustment',
+  [ChargeAdjustmentType.REVERSAL]: 'Reversal',
+}
+
+// What the staff member actually pays once credit notes, debits and reversals apply
+const netAmount = (charge: ChargeWithDetails) =>
+  netChargeAmount(charge.amount, charge.adjustments)
+
 // Mock staff charges data - in real implementation, this would come from the API
 const mockStaffCharges: ChargeWithDetails[] = [
   {
@@ -100,6 +119,8 @@ const mockStaffCharges: ChargeWithDetails[] = [
     amount: 850.00,
     description: 'Monthly rent for Room 204, Riverside Apartments',
     prorationFactor: 1.0,
+    status: ChargeStatus.APPROVED,
+    approvalStep: 1,
     startDate: new Date('2024-01-01'),
     endDate: new Date('2024-01-31'),
     createdAt: new Date('2024-01-01'),
@@ -127,8 +148,23 @@ const mockStaffCharges: ChargeWithDetails[] = [
     amount: 125.50,
     description: 'Electricity and water usage for January 2024',
     prorationFactor: 1.0,
+    status: ChargeStatus.APPROVED,
+    approvalStep: 1,
     createdAt: new Date('2024-01-01'),
     updatedAt: new Date('2024-01-01'),
+    adjustments: [
+      {
+        id: 'adj-1',
+        chargeId: '2',
+        staffId: 'staff-1',
+        billingPeriodId: 'bp-1',
+        type: ChargeAdjustmentType.CREDIT_NOTE,
+        reasonCode: AdjustmentReasonCode.BILLING_ERROR,
+        amount: 25.50,
+        description: 'Meter reading corrected',
+        createdAt: new Date('2024-01-20')
+      }
+    ],
     staff: {
       id: 'staff-1',
       firstName: 'John',
@@ -152,6 +188,8 @@ const mockStaffCharges: ChargeWithDetails[] = [
     amount: 45.00,
     description: 'Company shuttle service - 3 trips',
     prorationFactor: 1.0,
+    status: ChargeStatus.APPROVED,
+    approvalStep: 1,
     createdAt: new Date('2024-01-15'),
     updatedAt: new Date('2024-01-15'),
     staff: {
@@ -177,6 +215,8 @@ const mockStaffCharges: ChargeWithDetails[] = [
     amount: 425.00,
     description: 'Prorated rent for Room 204 (15 days)',
     prorationFactor: 0.5,
+    status: ChargeStatus.APPROVED,
+    approvalStep: 1,
     startDate: new Date('2023-12-16'),
     endDate: new Date('2023-12-31'),
     createdAt: new Date('2023-12-01'),
@@ -203,13 +243,42 @@ export function StaffCharges({ staffId, onViewDetails, onDispute }: StaffCharges
   const [typeFilter, setTypeFilter] = useState<string>('all')
   const [periodFilter, setPeriodFilter] = useState<string>('current')
   const [selectedCharge, setSelectedCharge] = useState<ChargeWithDetails | null>(null)
+  const [statementPeriodId, setStatementPeriodId] = useState<string>('')
+  const [isDownloading, setIsDownloading] = useState(false)
 
   // In real implementation, this would fetch data based on staffId
   const { charges, isLoading, error } = useStaffCharges(staffId)
+  const { generateStatement } = useBillingStatements()
   
   // Use mock data for demonstration
   const staffCharges = mockStaffCharges
 
+  // Periods this staff member has charges in, newest first
+  const statementPeriods = Array.from(
+    new Map(staffCharges.map(charge => [charge.billingPeriodId, charge.billingPeriod])).entries()
+  ).sort(([, a], [, b]) => b.startDate.getTime() - a.startDate.getTime())
+  const activeStatementPeriodId = statementPeriodId || statementPeriods[0]?.[0] || ''
+
+  const handleDownloadStatement = async (billingPeriodId: string) => {
+    try {
+      setIsDownloading(true)
+      const { fileName, mimeType, bytes } = await generateStatement(staffId, billingPeriodId)
+
+      const blob = new Blob([bytes], { type: mimeType })
+      const link = document.createElement('a')
+      link.href = URL.createObjectURL(blob)
+      link.download = fileName
+      document.body.appendChild(link)
+      link.click()
+      document.body.removeChild(link)
+    } catch (err) {
+      console.error('Error generating statement:', err)
+      toast.error(err instanceof Error ? err.message : 'Failed to generate statement')
+    } finally {
+      setIsDownloading(false)
+    }
+  }
+
   // Filter charges based on search and filters
   const filteredCharges = staffCharges.filter(charge => {
     const matchesSearch = searchTerm === '' || 
@@ -227,19 +296,19 @@ export function StaffCharges({ staffId, onViewDetails, onDispute }: StaffCharges
   })
 
   // Calculate summary statistics
-  const totalCharges = filteredCharges.reduce((sum, charge) => sum + charge.amount, 0)
+  const totalCharges = filteredCharges.reduce((sum, charge) => sum + netAmount(charge), 0)
   const chargesByType = filteredCharges.reduce((acc, charge) => {
-    acc[charge.type] = (acc[charge.type] || 0) + charge.amount
+    acc[charge.type] = (acc[charge.type] || 0) + netAmount(charge)
     return acc
   }, {} as Record<ChargeType, number>)
 
   const currentMonthCharges = staffCharges.filter(charge => 
     charge.billingPeriod.status === BillingStatus.PROCESSING
-  ).reduce((sum, charge) => sum + charge.amount, 0)
+  ).reduce((sum, charge) => sum + netAmount(charge), 0)
 
   const previousMonthCharges = staffCharges.filter(charge => 
     charge.billingPeriod.status === 'completed'
-  ).reduce((sum, charge) => sum + charge.amount, 0)
+  ).reduce((sum, charge) => sum + netAmount(charge), 0)
 
   const monthlyChange = previousMonthCharges > 0 
     ? ((currentMonthCharges - previousMonthCharges) / previousMonthCharges) * 100 
@@ -344,7 +413,7 @@ export function StaffCharges({ staffId, onViewDetails, onDispute }: StaffCharges
               <div>
                 <p className="text-sm font-medium text-muted-foreground">Largest Charge</p>
                 <p className="text-2xl font-bold">
-                  ${Math.max(...filteredCharges.map(c => c.amount)).toLocaleString()}
+                  ${Math.max(...filteredCharges.map(netAmount)).toLocaleString()}
                 </p>
               </div>
               <div className="bg-orange-100 p-2 rounded-full">
@@ -352,7 +421,7 @@ export function StaffCharges({ staffId, onViewDetails, onDispute }: StaffCharges
               </div>
             </div>
             <p className="text-sm text-muted-foreground mt-2">
-              {chargeTypeConfig[filteredCharges.find(c => c.amount === Math.max(...filteredCharges.map(c => c.amount)))?.type || ChargeType.RENT].label}
+              {chargeTypeConfig[filteredCharges.find(c => netAmount(c) === Math.max(...filteredCharges.map(netAmount)))?.type || ChargeType.RENT].label}
             </p>
           </CardContent>
         </Card>
@@ -405,10 +474,29 @@ export function StaffCharges({ staffId, onViewDetails, onDispute }: StaffCharges
                 Detailed breakdown of all charges applied to your account
               </CardDescription>
             </div>
-            <Button variant="outline" className="gap-2">
-              <Download className="h-4 w-4" />
-              Export
-            </Button>
+            <div className="flex items-center gap-2">
+              <Select value={activeStatementPeriodId} onValueChange={setStatementPeriodId}>
+                <SelectTrigger className="w-40">
+                  <SelectValue placeholder="Select period" />
+                </SelectTrigger>
+                <SelectContent>
+                  {statementPeriods.map(([periodId, period]) => (
+                    <SelectItem key={periodId} value={periodId}>
+                      {format(period.startDate, 'MMM yyyy')}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="outline"
+                className="gap-2"
+                disabled={!activeStatementPeriodId || isDownloading}
+                onClick={() => handleDownloadStatement(activeStatementPeriodId)}
+              >
+                <Download className="h-4 w-4" />
+                Statement (PDF)
+              </Button>
+            </div>
           </div>
         </CardHeader>
         <CardContent className="space-y-4">
@@ -513,6 +601,11 @@ export function StaffCharges({ staffId, onViewDetails, onDispute }: StaffCharges
                         </TableCell>
                         <TableCell className="text-right font-medium">
                           ${charge.amount.toLocaleString()}
+                          {(charge.adjustments?.length ?? 0) > 0 && (
+                            <div className="text-xs font-normal text-muted-foreground">
+                              Net: ${netAmount(charge).toLocaleString()}
+                            </div>
+                          )}
                         </TableCell>
                         <TableCell className="text-right">
                           <div className="flex items-center justify-end gap-2">
@@ -565,6 +658,29 @@ export function StaffCharges({ staffId, onViewDetails, onDispute }: StaffCharges
                                     
                                     <Separator />
                                     
+                                    {selectedCharge.adjustments && selectedCharge.adjustments.length > 0 && (
+                                      <div>
+                                        <p className="text-sm font-medium text-muted-foreground mb-2">Adjustments</p>
+                                        <div className="space-y-2">
+                                          {selectedCharge.adjustments.map(adjustment => (
+                                            <div key={adjustment.id} className="flex items-center justify-between text-sm">
+                                              <div>
+                                                <p>{adjustmentTypeLabels[adjustment.type]}</p>
+                                                <p className="text-muted-foreground">{adjustment.description}</p>
+                                              </div>
+                                              <span className="font-medium">
+                                                {isCreditAdjustment(adjustment.type) ? '-' : '+'}${Number(adjustment.amount).toLocaleString()}
+                                              </span>
+                                            </div>
+                                          ))}
+                                          <div className="flex items-center justify-between text-sm font-semibold">
+                                            <span>You pay</span>
+                                            <span>${netAmount(selectedCharge).toLocaleString()}</span>
+                                          </div>
+                                        </div>
+                                      </div>
+                                    )}
+
                                     <div>
                                       <p className="text-sm font-medium text-muted-foreground mb-2">Description</p>
                                       <p className="text-sm bg-muted p-3 rounded-md">
@@ -590,9 +706,14 @@ export function StaffCharges({ staffId, onViewDetails, onDispute }: StaffCharges
                                         <AlertCircle className="h-4 w-4" />
                                         Dispute Charge
                                       </Button>
-                                      <Button variant="outline" className="gap-2">
+                                      <Button
+                                        variant="outline"
+                                        className="gap-2"
+                                        disabled={isDownloading}
+                                        onClick={() => handleDownloadStatement(selectedCharge.billingPeriodId)}
+                                      >
                                         <Download className="h-4 w-4" />
-                                        Download Receipt
+                                        Download Statement
                                       </Button>
                                     </div>
                                   </div>
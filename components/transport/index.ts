@@ -11,6 +11,7 @@ export { TripLogger } from "./trip-logger";
 export { TripList } from "./trip-list";
 export { TripForm } from "./trip-form";
 export { PassengerSelector } from "./passenger-selector";
+export { TransportFares } from "./transport-fares";
 
 // Transport Analytics Components
 export { TransportDashboard } from "./transport-dashboard";
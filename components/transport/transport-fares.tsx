@@ -0,0 +1,712 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { AlertCircle, Loader2, Pencil, Percent, Plus, Ticket, Trash2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { LoadingSpinner } from '@/components/shared'
+import { useTransportFares } from '@/hooks/use-billing'
+import { ERP_CONFIG } from '@/lib/config/erp'
+import {
+  AbsentPassengerTreatment,
+  TransportSplitStrategy,
+  TransportSubsidyScope,
+  validateCreateTransportFareRule,
+  validateCreateTransportSubsidy,
+  type TransportFareRule,
+  type TransportSubsidy,
+} from '@/lib/types/transport'
+
+const strategyLabels: Record<TransportSplitStrategy, string> = {
+  [TransportSplitStrategy.EQUAL]: 'Equal',
+  [TransportSplitStrategy.DISTANCE]: 'By distance',
+  [TransportSplitStrategy.FLAT_FARE]: 'Flat fare',
+  [TransportSplitStrategy.EMPLOYER_PAID]: 'Employer paid',
+}
+
+const strategyDescriptions: Record<TransportSplitStrategy, string> = {
+  [TransportSplitStrategy.EQUAL]: 'The trip cost is shared evenly by its passengers',
+  [TransportSplitStrategy.DISTANCE]:
+    'The trip cost is shared by the miles each passenger rode between pickup and dropoff',
+  [TransportSplitStrategy.FLAT_FARE]: 'Every passenger pays the same fare, whatever the trip cost',
+  [TransportSplitStrategy.EMPLOYER_PAID]: 'Passengers are not charged',
+}
+
+const treatmentLabels: Record<AbsentPassengerTreatment, string> = {
+  [AbsentPassengerTreatment.CHARGE_SHARE]: 'Charge a share',
+  [AbsentPassengerTreatment.CHARGE_FEE]: 'Charge a fee',
+  [AbsentPassengerTreatment.WAIVE]: 'Waive',
+}
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount)
+
+const treatmentSummary = (treatment: AbsentPassengerTreatment, fee?: number) =>
+  treatment === AbsentPassengerTreatment.CHARGE_FEE && fee !== undefined
+    ? `Fee ${formatCurrency(fee)}`
+    : treatmentLabels[treatment]
+
+interface TreatmentFieldProps {
+  label: string
+  treatment: AbsentPassengerTreatment
+  fee: string
+  onTreatmentChange: (treatment: AbsentPassengerTreatment) => void
+  onFeeChange: (fee: string) => void
+}
+
+function TreatmentField({ label, treatment, fee, onTreatmentChange, onFeeChange }: TreatmentFieldProps) {
+  return (
+    <div className="space-y-2">
+      <Label>{label}</Label>
+      <Select
+        value={treatment}
+        onValueChange={(value) => onTreatmentChange(value as AbsentPassengerTreatment)}
+      >
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {Object.entries(treatmentLabels).map(([value, text]) => (
+            <SelectItem key={value} value={value}>
+              {text}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {treatment === AbsentPassengerTreatment.CHARGE_FEE && (
+        <Input
+          type="number"
+          min={0}
+          step="0.01"
+          value={fee}
+          onChange={(e) => onFeeChange(e.target.value)}
+          placeholder="Fee (USD)"
+        />
+      )}
+    </div>
+  )
+}
+
+interface FareRuleFormProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  rule?: TransportFareRule
+}
+
+function FareRuleForm({ open, onOpenChange, rule }: FareRuleFormProps) {
+  const { createRule, updateRule } = useTransportFares()
+  const [route, setRoute] = useState('')
+  const [splitStrategy, setSplitStrategy] = useState<TransportSplitStrategy>(
+    TransportSplitStrategy.EQUAL
+  )
+  const [flatFare, setFlatFare] = useState('')
+  const [purposes, setPurposes] = useState('')
+  const [noShowTreatment, setNoShowTreatment] = useState<AbsentPassengerTreatment>(
+    AbsentPassengerTreatment.CHARGE_SHARE
+  )
+  const [noShowFee, setNoShowFee] = useState('')
+  const [cancelledTreatment, setCancelledTreatment] = useState<AbsentPassengerTreatment>(
+    AbsentPassengerTreatment.WAIVE
+  )
+  const [cancelledFee, setCancelledFee] = useState('')
+  const [isActive, setIsActive] = useState(true)
+  const [notes, setNotes] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    if (open) {
+      setRoute(rule?.route ?? '')
+      setSplitStrategy(
+        rule?.splitStrategy ??
+          (ERP_CONFIG.transport.defaultSplitStrategy as TransportSplitStrategy)
+      )
+      setFlatFare(rule?.flatFare?.toString() ?? '')
+      setPurposes(rule?.employerPaidPurposes.join(', ') ?? '')
+      setNoShowTreatment(
+        rule?.noShowTreatment ??
+          (ERP_CONFIG.transport.noShowTreatment as AbsentPassengerTreatment)
+      )
+      setNoShowFee(rule?.noShowFee?.toString() ?? '')
+      setCancelledTreatment(
+        rule?.cancelledTreatment ??
+          (ERP_CONFIG.transport.cancelledTreatment as AbsentPassengerTreatment)
+      )
+      setCancelledFee(rule?.cancelledFee?.toString() ?? '')
+      setIsActive(rule?.isActive ?? true)
+      setNotes(rule?.notes ?? '')
+    }
+  }, [open, rule])
+
+  const handleSave = async () => {
+    const result = validateCreateTransportFareRule({
+      route: route.trim() || undefined,
+      splitStrategy,
+      flatFare:
+        splitStrategy === TransportSplitStrategy.FLAT_FARE && flatFare !== ''
+          ? Number(flatFare)
+          : undefined,
+      employerPaidPurposes: purposes
+        .split(',')
+        .map(purpose => purpose.trim())
+        .filter(Boolean),
+      noShowTreatment,
+      noShowFee:
+        noShowTreatment === AbsentPassengerTreatment.CHARGE_FEE && noShowFee !== ''
+          ? Number(noShowFee)
+          : undefined,
+      cancelledTreatment,
+      cancelledFee:
+        cancelledTreatment === AbsentPassengerTreatment.CHARGE_FEE && cancelledFee !== ''
+          ? Number(cancelledFee)
+          : undefined,
+      isActive,
+      notes: notes.trim() || undefined,
+    })
+
+    if (!result.success) {
+      toast.error(result.error.errors[0]?.message ?? 'Invalid fare rule')
+      return
+    }
+
+    try {
+      setIsSaving(true)
+      if (rule) {
+        await updateRule(rule.id, { ...result.data, route: result.data.route ?? '' })
+      } else {
+        await createRule(result.data)
+      }
+      toast.success('Fare rule saved; it applies from the next charge run')
+      onOpenChange(false)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save fare rule')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{rule ? 'Edit Fare Rule' : 'New Fare Rule'}</DialogTitle>
+          <DialogDescription>
+            How completed trips on a route are charged to their passengers. Leave the route
+            empty for the default rule used by every route without its own.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Route</Label>
+              <Input
+                value={route}
+                onChange={(e) => setRoute(e.target.value)}
+                placeholder="All other routes"
+              />
+            </div>
+            <div className="flex items-end gap-2 pb-2">
+              <Switch id="fare-rule-active" checked={isActive} onCheckedChange={setIsActive} />
+              <Label htmlFor="fare-rule-active">Active</Label>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Split</Label>
+              <Select
+                value={splitStrategy}
+                onValueChange={(value) => setSplitStrategy(value as TransportSplitStrategy)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(strategyLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">{strategyDescriptions[splitStrategy]}</p>
+            </div>
+            {splitStrategy === TransportSplitStrategy.FLAT_FARE && (
+              <div className="space-y-2">
+                <Label>Fare per Passenger (USD)</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={flatFare}
+                  onChange={(e) => setFlatFare(e.target.value)}
+                />
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Employer-paid Purposes</Label>
+            <Input
+              value={purposes}
+              onChange={(e) => setPurposes(e.target.value)}
+              placeholder="e.g. Training, Medical appointment"
+            />
+            <p className="text-xs text-muted-foreground">
+              Comma separated. Trips with one of these purposes are not charged to passengers.
+            </p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <TreatmentField
+              label="No-shows"
+              treatment={noShowTreatment}
+              fee={noShowFee}
+              onTreatmentChange={setNoShowTreatment}
+              onFeeChange={setNoShowFee}
+            />
+            <TreatmentField
+              label="Cancellations"
+              treatment={cancelledTreatment}
+              fee={cancelledFee}
+              onTreatmentChange={setCancelledTreatment}
+              onFeeChange={setCancelledFee}
+            />
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Waived passengers are left out of the split, so riders share the whole trip cost.
+          </p>
+
+          <div className="space-y-2">
+            <Label>Notes</Label>
+            <Textarea value={notes} onChange={(e) => setNotes(e.target.value)} rows={2} />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save Rule
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+interface SubsidyFormProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  subsidy?: TransportSubsidy
+}
+
+function SubsidyForm({ open, onOpenChange, subsidy }: SubsidyFormProps) {
+  const { createSubsidy, updateSubsidy } = useTransportFares()
+  const [scope, setScope] = useState<TransportSubsidyScope>(TransportSubsidyScope.ROUTE)
+  const [target, setTarget] = useState('')
+  const [subsidyPercent, setSubsidyPercent] = useState('')
+  const [subsidyCap, setSubsidyCap] = useState('')
+  const [isActive, setIsActive] = useState(true)
+  const [notes, setNotes] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    if (open) {
+      setScope(subsidy?.scope ?? TransportSubsidyScope.ROUTE)
+      setTarget(subsidy?.route ?? subsidy?.department ?? '')
+      setSubsidyPercent(subsidy?.subsidyPercent?.toString() ?? '')
+      setSubsidyCap(subsidy?.subsidyCap?.toString() ?? '')
+      setIsActive(subsidy?.isActive ?? true)
+      setNotes(subsidy?.notes ?? '')
+    }
+  }, [open, subsidy])
+
+  const handleSave = async () => {
+    const result = validateCreateTransportSubsidy({
+      scope,
+      route: scope === TransportSubsidyScope.ROUTE ? target.trim() || undefined : undefined,
+      department:
+        scope === TransportSubsidyScope.DEPARTMENT ? target.trim() || undefined : undefined,
+      subsidyPercent: subsidyPercent === '' ? undefined : Number(subsidyPercent),
+      subsidyCap: subsidyCap === '' ? undefined : Number(subsidyCap),
+      isActive,
+      notes: notes.trim() || undefined,
+    })
+
+    if (!result.success) {
+      toast.error(result.error.errors[0]?.message ?? 'Invalid subsidy')
+      return
+    }
+
+    try {
+      setIsSaving(true)
+      if (subsidy) {
+        await updateSubsidy(subsidy.id, {
+          subsidyPercent: result.data.subsidyPercent ?? null,
+          subsidyCap: result.data.subsidyCap ?? null,
+          isActive: result.data.isActive,
+          notes: result.data.notes,
+        })
+      } else {
+        await createSubsidy(result.data)
+      }
+      toast.success('Subsidy saved; it applies from the next charge run')
+      onOpenChange(false)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save subsidy')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{subsidy ? 'Edit Subsidy' : 'New Subsidy'}</DialogTitle>
+          <DialogDescription>
+            The part of a passenger&apos;s trip share the employer pays. When a route and a
+            department subsidy both apply, the passenger gets the larger one.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Applies to</Label>
+              <Select
+                value={scope}
+                onValueChange={(value) => setScope(value as TransportSubsidyScope)}
+                disabled={!!subsidy}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={TransportSubsidyScope.ROUTE}>Route</SelectItem>
+                  <SelectItem value={TransportSubsidyScope.DEPARTMENT}>Department</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>{scope === TransportSubsidyScope.ROUTE ? 'Route' : 'Department'}</Label>
+              <Input
+                value={target}
+                onChange={(e) => setTarget(e.target.value)}
+                disabled={!!subsidy}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Subsidy (%)</Label>
+              <Input
+                type="number"
+                min={0}
+                max={100}
+                step="0.01"
+                value={subsidyPercent}
+                onChange={(e) => setSubsidyPercent(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Cap per Trip (USD)</Label>
+              <Input
+                type="number"
+                min={0}
+                step="0.01"
+                value={subsidyCap}
+                onChange={(e) => setSubsidyCap(e.target.value)}
+                placeholder="No cap"
+              />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            A cap without a percentage pays the passenger&apos;s share up to the cap.
+          </p>
+
+          <div className="flex items-center gap-2">
+            <Switch id="subsidy-active" checked={isActive} onCheckedChange={setIsActive} />
+            <Label htmlFor="subsidy-active">Active</Label>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Notes</Label>
+            <Textarea value={notes} onChange={(e) => setNotes(e.target.value)} rows={2} />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save Subsidy
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export function TransportFares() {
+  const { rules, subsidies, isLoading, error, deleteRule, deleteSubsidy, refresh } =
+    useTransportFares()
+  const [ruleForm, setRuleForm] = useState<{ rule?: TransportFareRule } | null>(null)
+  const [subsidyForm, setSubsidyForm] = useState<{ subsidy?: TransportSubsidy } | null>(null)
+
+  const handleDeleteRule = async (rule: TransportFareRule) => {
+    try {
+      await deleteRule(rule.id)
+      toast.success('Fare rule removed')
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to remove fare rule')
+    }
+  }
+
+  const handleDeleteSubsidy = async (subsidy: TransportSubsidy) => {
+    try {
+      await deleteSubsidy(subsidy.id)
+      toast.success('Subsidy removed')
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to remove subsidy')
+    }
+  }
+
+  if (error) {
+    return (
+      <Card>
+        <CardContent className="flex items-center justify-center h-64">
+          <div className="text-center">
+            <AlertCircle className="h-12 w-12 text-red-500 mx-auto mb-4" />
+            <p className="text-lg font-semibold">Error loading transport fares</p>
+            <p className="text-sm text-muted-foreground">{error.message}</p>
+            <Button onClick={() => refresh()} className="mt-4">
+              Try Again
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <LoadingSpinner />
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <Ticket className="h-5 w-5" />
+                Fare Rules
+              </CardTitle>
+              <CardDescription>
+                How the charge run splits completed trips between passengers
+              </CardDescription>
+            </div>
+            <Button onClick={() => setRuleForm({})} className="gap-2">
+              <Plus className="h-4 w-4" />
+              New Rule
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {rules.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Route</TableHead>
+                  <TableHead>Split</TableHead>
+                  <TableHead>Employer-paid Purposes</TableHead>
+                  <TableHead>No-shows</TableHead>
+                  <TableHead>Cancellations</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rules.map(rule => (
+                  <TableRow key={rule.id}>
+                    <TableCell className="font-medium">
+                      <div className="flex items-center gap-2">
+                        {rule.route ?? 'All other routes'}
+                        {!rule.isActive && <Badge variant="secondary">Inactive</Badge>}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      {strategyLabels[rule.splitStrategy]}
+                      {rule.splitStrategy === TransportSplitStrategy.FLAT_FARE &&
+                        rule.flatFare !== undefined && (
+                          <span className="text-sm text-muted-foreground">
+                            {' '}({formatCurrency(rule.flatFare)})
+                          </span>
+                        )}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {rule.employerPaidPurposes.length > 0
+                        ? rule.employerPaidPurposes.join(', ')
+                        : '—'}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {treatmentSummary(rule.noShowTreatment, rule.noShowFee)}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {treatmentSummary(rule.cancelledTreatment, rule.cancelledFee)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-1">
+                        <Button variant="ghost" size="sm" onClick={() => setRuleForm({ rule })}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => handleDeleteRule(rule)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <p className="py-8 text-center text-sm text-muted-foreground">
+              No fare rules yet. Trips are split {strategyLabels[
+                ERP_CONFIG.transport.defaultSplitStrategy as TransportSplitStrategy
+              ].toLowerCase()} between their passengers.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <Percent className="h-5 w-5" />
+                Employer Subsidies
+              </CardTitle>
+              <CardDescription>
+                The part of passengers&apos; fares the employer pays, by route or department
+              </CardDescription>
+            </div>
+            <Button onClick={() => setSubsidyForm({})} className="gap-2">
+              <Plus className="h-4 w-4" />
+              New Subsidy
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {subsidies.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Applies to</TableHead>
+                  <TableHead className="text-right">Subsidy</TableHead>
+                  <TableHead className="text-right">Cap per Trip</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {subsidies.map(subsidy => (
+                  <TableRow key={subsidy.id}>
+                    <TableCell className="font-medium">
+                      <div className="flex items-center gap-2">
+                        <Badge variant="outline">
+                          {subsidy.scope === TransportSubsidyScope.ROUTE ? 'Route' : 'Department'}
+                        </Badge>
+                        {subsidy.route ?? subsidy.department}
+                        {!subsidy.isActive && <Badge variant="secondary">Inactive</Badge>}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {subsidy.subsidyPercent !== undefined ? `${subsidy.subsidyPercent}%` : '—'}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {subsidy.subsidyCap !== undefined ? formatCurrency(subsidy.subsidyCap) : '—'}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-1">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setSubsidyForm({ subsidy })}
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleDeleteSubsidy(subsidy)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <p className="py-8 text-center text-sm text-muted-foreground">
+              No subsidies; passengers pay their full fare
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      <FareRuleForm
+        open={!!ruleForm}
+        onOpenChange={(open) => !open && setRuleForm(null)}
+        rule={ruleForm?.rule}
+      />
+      <SubsidyForm
+        open={!!subsidyForm}
+        onOpenChange={(open) => !open && setSubsidyForm(null)}
+        subsidy={subsidyForm?.subsidy}
+      />
+    </div>
+  )
+}
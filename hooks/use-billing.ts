@@ -3,6 +3,116 @@
 import { useState, useCallback } from "react";
 import useSWR from "swr";
 import { createClient } from "@/lib/supabase/client";
+import {
+  calculateStayMarketRent,
+  calculateStayRent,
+  rateCardFromRow,
+} from "@/lib/housing/rate-cards";
+import {
+  DEFAULT_PRORATION_METHOD,
+  prorationFactor,
+} from "@/lib/billing/proration";
+import { useAuth } from "@/hooks/use-auth";
+import { ERP_CONFIG } from "@/lib/config/erp";
+import {
+  diffChargeRun,
+  effectiveAmount,
+  existingChargeFromRow,
+} from "@/lib/billing/charge-run";
+import {
+  buildExportLines,
+  summarizeExportLines,
+} from "@/lib/billing/payroll-delta";
+import {
+  getFormatAdapter,
+  renderPayrollFile,
+  resolveMapping,
+} from "@/lib/billing/formats";
+import {
+  applyDeductionCaps,
+  balanceChange,
+  buildPayoffSchedule,
+  emptyAmounts,
+  resolveCaps,
+  sumAmounts,
+  toBalanceRows,
+} from "@/lib/billing/deduction-caps";
+import { checkMinimumWage, parseHoursFile } from "@/lib/billing/minimum-wage";
+import {
+  buildStatement,
+  exportLedgerRows,
+  ledgerBalance,
+  ledgerTotals,
+  settleCarriedBalance,
+  toDebitCredit,
+  withRunningBalance,
+} from "@/lib/billing/ledger";
+import {
+  canMoveDispute,
+  creditedAmount,
+  creditsByCharge,
+  isDisputeOpen,
+  OPEN_DISPUTE_STATUSES,
+  resolutionCredit,
+} from "@/lib/billing/disputes";
+import { allocateUtilityBill } from "@/lib/billing/utility-allocation";
+import { recurringChargeForPeriod } from "@/lib/billing/recurring-charges";
+import {
+  calendarSpan,
+  generateBillingCalendar,
+} from "@/lib/billing/billing-calendar";
+import {
+  fareTermsForRoute,
+  splitTripCost,
+} from "@/lib/billing/transport-split";
+import {
+  applyApprovalDecision,
+  approvalRequirement,
+  isChargeHeld,
+  isChargeUnbilled,
+} from "@/lib/billing/charge-approvals";
+import {
+  adjustmentAmount,
+  adjustmentsByCharge,
+  netChargeAmount,
+  summarizeAdjustments,
+} from "@/lib/billing/adjustments";
+import {
+  buildChargeImportRows,
+  summarizeChargeImport,
+} from "@/lib/billing/charge-import";
+import {
+  buildStaffStatement,
+  renderStatementPdf,
+  statementFileName,
+  toStatementCharge,
+} from "@/lib/billing/statements";
+import { createZip } from "@/lib/zip";
+import {
+  addImputedIncomeToRows,
+  buildImputedIncomeItems,
+  buildImputedIncomeLines,
+  summarizeImputedIncomeYtd,
+  type StayMarketValue,
+} from "@/lib/billing/imputed-income";
+import {
+  buildCostAllocationPreview,
+  PROPERTY_COST_TRANSACTION_CATEGORIES,
+} from "@/lib/billing/cost-allocation";
+import {
+  assertTransition,
+  isPeriodLocked,
+  REOPEN_PERMISSION,
+} from "@/lib/billing/period-lifecycle";
+import {
+  addUtcDays,
+  daysBetween,
+  fromLocalDate,
+  maxDate,
+  minDate,
+  toDateKey,
+  toUtcDay,
+} from "@/lib/dates";
 import type {
   BillingPeriod,
   Charge,
@@ -14,624 +124,4746 @@ import type {
   UpdateBillingPeriod,
   CreateCharge,
   UpdateCharge,
-  CreatePayrollExport,
   UpdatePayrollExport,
   BillingFilters,
   BillingMetrics,
   StaffBillingSummary,
   PayrollExportData,
+  ChargeRun,
+  ChargeRunPreview,
+  BillingPeriodGuardContext,
+  PayrollExportLine,
+  PayrollFile,
+  PayrollFormatMapping,
+  CreatePayrollFormatMapping,
+  PayrollDeliverySummary,
+  PayrollRowResult,
+  ChargeAmounts,
+  DeductionCap,
+  DeductionCapOutcome,
+  DeductionBalanceEntry,
+  CreateDeductionCap,
+  UpdateDeductionCap,
+  MinimumWageDecision,
+  MinimumWageRate,
+  CreateMinimumWageRate,
+  UpdateMinimumWageRate,
+  PayrollHours,
+  LedgerEntry,
+  LedgerStatement,
+  CreateLedgerAdjustment,
+  StaffLedgerBalance,
+  BillingDisputeWithDetails,
+  CreateBillingDispute,
+  ResolveBillingDispute,
+  DisputeComment,
+  DisputeEvidence,
+  OccupancyStay,
+  UtilityAllocation,
+  UtilityBill,
+  CreateUtilityBill,
+  UpdateUtilityBill,
+  RecurringCharge,
+  CreateRecurringCharge,
+  UpdateRecurringCharge,
+  BillingCalendar,
+  BillingCalendarSettings,
+  ChargeApprovalResult,
+  ChargeApprovalRule,
+  ChargeApprovalState,
+  CreateChargeApprovalRule,
+  PendingChargeApproval,
+  UpdateChargeApprovalRule,
+  ChargeAdjustment,
+  CreateChargeAdjustment,
+  ChargeImport,
+  ChargeImportMapping,
+  ChargeImportPreview,
+  CostAllocation,
+  CostAllocationPreview,
+  CostPool,
+  CostUsage,
+  StaffBillingStatement,
+  ImputedIncomeItem,
+  ImputedIncomeLine,
+  ImputedIncomeYtd,
 } from "@/lib/types/billing";
 import {
+  AdjustmentReasonCode,
   BillingStatus,
+  ChargeAdjustmentType,
+  ChargeApprovalDecision,
+  ChargeImportRowStatus,
+  ChargeStatus,
+  ChargeRunAction,
+  ChargeRunSource,
+  ChargeRunStatus,
   ChargeType,
+  CostAllocationBasis,
+  CostAllocationStatus,
+  CostAllocationTarget,
+  CostSourceType,
+  DeductionCapType,
+  DisputeStatus,
+  DisputeType,
+  LedgerEntryType,
+  MinimumWageAction,
+  MinimumWageMode,
+  PayrollHoursSource,
+  PayrollExportLineType,
+  PayrollDeliveryStatus,
   PayrollExportStatus,
+  PayrollExportType,
+  PayrollFormat,
+  UtilityAllocationRule,
+  UtilityType,
+  RecurringChargeCategory,
+  RecurringChargeFrequency,
+  RecurringChargeScope,
 } from "@/lib/types/billing";
+import { ProrationMethod } from "@/lib/types/housing";
+import {
+  propertyCostForPeriod,
+  propertyCostFromRow,
+} from "@/lib/housing/property-costs";
+import { TransactionCategory } from "@/lib/supabase/types/transaction";
+import type {
+  TransportFareRule,
+  CreateTransportFareRule,
+  UpdateTransportFareRule,
+  TransportSubsidy,
+  CreateTransportSubsidy,
+  UpdateTransportSubsidy,
+} from "@/lib/types/transport";
+import {
+  AbsentPassengerTreatment,
+  PassengerStatus,
+  TransportSplitStrategy,
+  TransportSubsidyScope,
+} from "@/lib/types/transport";
+import { AuditAction, PERMISSIONS } from "@/lib/types/user";
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+async function fetchBillingPeriod(supabase: SupabaseClient, id: string) {
+  const { data: period } = await supabase
+    .from("billing_periods")
+    .select("*")
+    .eq("id", id)
+    .single();
+
+  if (!period) throw new Error("Billing period not found");
+  return period;
+}
+
+// Facts the lifecycle guards need about a period
+async function fetchPeriodGuardContext(
+  supabase: SupabaseClient,
+  billingPeriodId: string
+): Promise<BillingPeriodGuardContext> {
+  const { data, error } = await supabase
+    .from("charges")
+    .select("status")
+    .eq("billing_period_id", billingPeriodId)
+    .neq("status", "cancelled");
+
+  if (error) throw error;
+  return {
+    pendingDisputes: (data || []).filter(
+      (charge) => charge.status === ChargeStatus.DISPUTED
+    ).length,
+    chargeCount: (data || []).length,
+  };
+}
+
+// Move a period along its lifecycle after checking guards and permissions
+async function applyPeriodTransition(
+  supabase: SupabaseClient,
+  id: string,
+  to: BillingStatus,
+  can: (permission: string) => boolean
+) {
+  const period = await fetchBillingPeriod(supabase, id);
+  const context = await fetchPeriodGuardContext(supabase, id);
+  assertTransition(period.status, to, context, can);
+
+  const { data, error } = await supabase
+    .from("billing_periods")
+    .update({
+      status: to,
+      payroll_export_date:
+        to === BillingStatus.EXPORTED
+          ? new Date().toISOString()
+          : period.payroll_export_date,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", id)
+    // Fails if someone else moved the period in the meantime
+    .eq("status", period.status)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return { period, data };
+}
+
+// The billing calendar for the settings, checked against the periods that
+// already exist around it (corrections share their parent's dates and are
+// left out)
+async function previewBillingCalendar(
+  supabase: SupabaseClient,
+  settings: BillingCalendarSettings
+): Promise<BillingCalendar> {
+  const span = calendarSpan(settings);
+  const { data, error } = await supabase
+    .from("billing_periods")
+    .select("id, start_date, end_date")
+    .is("parent_period_id", null)
+    .neq("status", BillingStatus.CANCELLED)
+    .lte("start_date", toDateKey(addUtcDays(span.endDate, settings.cycleDays)))
+    .gte("end_date", toDateKey(addUtcDays(span.startDate, -settings.cycleDays)));
+
+  if (error) throw error;
+  return generateBillingCalendar(
+    settings,
+    (data || []).map((row: any) => ({
+      id: row.id,
+      startDate: toUtcDay(row.start_date),
+      endDate: toUtcDay(row.end_date),
+    }))
+  );
+}
+
+// Rent charges for every assignment that overlaps the period. Completed
+// assignments are included so move-outs and short notice are charged.
+async function buildHousingCharges(
+  supabase: SupabaseClient,
+  period: any
+): Promise<CreateCharge[]> {
+  const { data: assignments } = await supabase
+    .from("room_assignments")
+    .select(
+      `
+        *,
+        room:rooms(*),
+        staff:staff(*)
+      `
+    )
+    .in("status", ["active", "completed"])
+    .lte("start_date", period.end_date)
+    .or(`end_date.is.null,end_date.gte.${period.start_date}`);
+
+  if (!assignments) return [];
+
+  // Rates in force at any point during the period
+  const { data: rateCardRows, error: rateCardError } = await supabase
+    .from("rate_cards")
+    .select("*")
+    .lte("effective_from", period.end_date)
+    .or(`effective_to.is.null,effective_to.gte.${period.start_date}`);
+
+  if (rateCardError) throw rateCardError;
+  const rateCards = (rateCardRows || []).map(rateCardFromRow);
+
+  const charges: CreateCharge[] = [];
+  for (const assignment of assignments) {
+    const rent = calculateStayRent(
+      rateCards,
+      {
+        id: assignment.room.id,
+        propertyId: assignment.room.property_id,
+        roomNumber: assignment.room.room_number,
+        roomType: assignment.room.room_type ?? undefined,
+        monthlyRate: assignment.room.monthly_rate
+          ? Number(assignment.room.monthly_rate)
+          : undefined,
+      },
+      {
+        startDate: toUtcDay(assignment.start_date),
+        endDate: assignment.end_date ? toUtcDay(assignment.end_date) : undefined,
+        moveOutNoticeDate: assignment.move_out_notice_date
+          ? toUtcDay(assignment.move_out_notice_date)
+          : undefined,
+        transferredFromId: assignment.transferred_from_id ?? undefined,
+        transferredToId: assignment.transferred_to_id ?? undefined,
+      },
+      {
+        startDate: toUtcDay(period.start_date),
+        endDate: toUtcDay(period.end_date),
+      }
+    );
+
+    if (!rent || rent.amount <= 0) continue;
+
+    // The amount is already prorated from the rate cards; the breakdown
+    // explains it on the charge
+    charges.push({
+      staffId: assignment.staff_id,
+      billingPeriodId: period.id,
+      type: ChargeType.RENT,
+      amount: rent.amount,
+      description: `Room rent for ${assignment.room.room_number}`,
+      prorationFactor: 1,
+      sourceId: assignment.id,
+      startDate: rent.billedFrom,
+      endDate: rent.billedTo,
+      metadata: { rateSegments: rent.segments, proration: rent.breakdown },
+    });
+  }
+
+  return charges;
+}
+
+function transportFareRuleFromRow(row: any): TransportFareRule {
+  return {
+    id: row.id,
+    route: row.route ?? undefined,
+    splitStrategy: row.split_strategy as TransportSplitStrategy,
+    flatFare: row.flat_fare === null ? undefined : Number(row.flat_fare),
+    employerPaidPurposes: row.employer_paid_purposes || [],
+    noShowTreatment: row.no_show_treatment as AbsentPassengerTreatment,
+    noShowFee: row.no_show_fee === null ? undefined : Number(row.no_show_fee),
+    cancelledTreatment: row.cancelled_treatment as AbsentPassengerTreatment,
+    cancelledFee:
+      row.cancelled_fee === null ? undefined : Number(row.cancelled_fee),
+    isActive: row.is_active,
+    notes: row.notes ?? undefined,
+    createdBy: row.created_by ?? undefined,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+  };
+}
+
+function transportSubsidyFromRow(row: any): TransportSubsidy {
+  return {
+    id: row.id,
+    scope: row.scope as TransportSubsidyScope,
+    route: row.route ?? undefined,
+    department: row.department ?? undefined,
+    subsidyPercent:
+      row.subsidy_percent === null ? undefined : Number(row.subsidy_percent),
+    subsidyCap: row.subsidy_cap === null ? undefined : Number(row.subsidy_cap),
+    isActive: row.is_active,
+    notes: row.notes ?? undefined,
+    createdBy: row.created_by ?? undefined,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+  };
+}
+
+async function fetchTransportFareTerms(supabase: SupabaseClient) {
+  const [{ data: rules, error: rulesError }, { data: subsidies, error }] =
+    await Promise.all([
+      supabase.from("transport_fare_rules").select("*").eq("is_active", true),
+      supabase.from("transport_subsidies").select("*").eq("is_active", true),
+    ]);
+
+  if (rulesError) throw rulesError;
+  if (error) throw error;
+  return {
+    rules: (rules || []).map(transportFareRuleFromRow),
+    subsidies: (subsidies || []).map(transportSubsidyFromRow),
+  };
+}
+
+// Transport charges splitting each completed trip's cost across passengers
+async function buildTransportCharges(
+  supabase: SupabaseClient,
+  period: any
+): Promise<CreateCharge[]> {
+  // Get completed trips during the period
+  const { data: trips } = await supabase
+    .from("trips")
+    .select(
+      `
+        *,
+        passengers:trip_passengers(
+          *,
+          staff:staff(*)
+        )
+      `
+    )
+    .eq("status", "completed")
+    .gte("date", period.start_date)
+    .lte("date", period.end_date);
+
+  if (!trips) return [];
+
+  const { rules, subsidies } = await fetchTransportFareTerms(supabase);
+
+  const charges: CreateCharge[] = [];
+  for (const trip of trips) {
+    if (!trip.passengers || trip.passengers.length === 0) continue;
+
+    const terms = fareTermsForRoute(rules, trip.route);
+    const split = splitTripCost(
+      {
+        id: trip.id,
+        route: trip.route,
+        purpose: trip.purpose,
+        cost: trip.cost ?? undefined,
+        distance: trip.distance ?? undefined,
+      },
+      trip.passengers.map((passenger: any) => ({
+        staffId: passenger.staff_id,
+        status: (passenger.status ?? PassengerStatus.CONFIRMED) as PassengerStatus,
+        distance:
+          passenger.distance === null || passenger.distance === undefined
+            ? undefined
+            : Number(passenger.distance),
+        department: passenger.staff?.department ?? undefined,
+      })),
+      terms,
+      subsidies
+    );
+
+    const tripDate = toDateKey(new Date(trip.date));
+    for (const fare of split.fares) {
+      if (fare.amount <= 0) continue;
+
+      charges.push({
+        staffId: fare.staffId,
+        billingPeriodId: period.id,
+        type: ChargeType.TRANSPORT,
+        amount: fare.amount,
+        description:
+          fare.treatment === AbsentPassengerTreatment.CHARGE_FEE
+            ? `${
+                fare.status === PassengerStatus.NO_SHOW
+                  ? "No-show"
+                  : "Cancellation"
+              } fee for ${trip.route} on ${tripDate}`
+            : `Transport for ${trip.route} on ${tripDate}`,
+        prorationFactor: 1,
+        sourceId: trip.id,
+        metadata: {
+          splitStrategy: split.strategy,
+          tripCost: split.tripCost,
+          passengerStatus: fare.status,
+          absentTreatment: fare.treatment,
+          weight: fare.weight,
+          fare: fare.fare,
+          subsidy: fare.subsidy,
+          subsidySource: fare.subsidySource,
+        },
+      });
+    }
+  }
+
+  return charges;
+}
+
+function utilityBillFromRow(row: any): UtilityBill {
+  return {
+    id: row.id,
+    propertyId: row.property_id,
+    utilityType: row.utility_type as UtilityType,
+    provider: row.provider ?? undefined,
+    accountNumber: row.account_number ?? undefined,
+    serviceStart: toUtcDay(row.service_start),
+    serviceEnd: toUtcDay(row.service_end),
+    amount: Number(row.amount),
+    allocationRule: row.allocation_rule as UtilityAllocationRule,
+    capPerPerson:
+      row.cap_per_person === null || row.cap_per_person === undefined
+        ? undefined
+        : Number(row.cap_per_person),
+    notes: row.notes ?? undefined,
+    createdBy: row.created_by ?? undefined,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+  };
+}
+
+// Stays in the property's rooms that overlap the service period. Completed
+// assignments count too: people who moved out still used the utilities.
+async function fetchOccupancyStays(
+  supabase: SupabaseClient,
+  propertyId: string,
+  serviceStart: Date,
+  serviceEnd: Date
+) {
+  const { data, error } = await supabase
+    .from("room_assignments")
+    .select(
+      `
+        *,
+        room:rooms!inner(id, room_number, property_id),
+        staff:staff(first_name, last_name, employee_id)
+      `
+    )
+    .eq("room.property_id", propertyId)
+    .in("status", ["active", "completed"])
+    .lte("start_date", toDateKey(serviceEnd))
+    .or(`end_date.is.null,end_date.gt.${toDateKey(serviceStart)}`);
+
+  if (error) throw error;
+
+  const stays: OccupancyStay[] = (data || []).map((row: any) => ({
+    assignmentId: row.id,
+    staffId: row.staff_id,
+    roomId: row.room.id,
+    roomNumber: row.room.room_number,
+    startDate: toUtcDay(row.start_date),
+    endDate: row.end_date ? toUtcDay(row.end_date) : undefined,
+  }));
+
+  const staffNames: Record<string, string> = {};
+  (data || []).forEach((row: any) => {
+    if (row.staff) {
+      staffNames[row.staff_id] = `${row.staff.first_name} ${row.staff.last_name}`;
+    }
+  });
+
+  return { stays, staffNames };
+}
+
+// Utilities charges splitting every bill whose service period ends in the
+// billing period across the property's occupants
+async function buildUtilityCharges(
+  supabase: SupabaseClient,
+  period: any
+): Promise<CreateCharge[]> {
+  const { data: billRows, error } = await supabase
+    .from("utility_bills")
+    .select("*")
+    .gte("service_end", period.start_date)
+    .lte("service_end", period.end_date);
+
+  if (error) throw error;
+
+  const charges: CreateCharge[] = [];
+  for (const bill of (billRows || []).map(utilityBillFromRow)) {
+    const { stays } = await fetchOccupancyStays(
+      supabase,
+      bill.propertyId,
+      bill.serviceStart,
+      bill.serviceEnd
+    );
+    const allocation = allocateUtilityBill(bill, stays);
+
+    allocation.shares
+      .filter((share) => share.amount > 0)
+      .forEach((share) => {
+        charges.push({
+          staffId: share.staffId,
+          billingPeriodId: period.id,
+          type: ChargeType.UTILITIES,
+          amount: share.amount,
+          description: `${
+            bill.utilityType.charAt(0).toUpperCase() + bill.utilityType.slice(1)
+          } for ${toDateKey(bill.serviceStart)} to ${toDateKey(bill.serviceEnd)}`,
+          prorationFactor: 1,
+          sourceId: bill.id,
+          startDate: bill.serviceStart,
+          endDate: bill.serviceEnd,
+          metadata: {
+            utilityBillId: bill.id,
+            utilityType: bill.utilityType,
+            allocationRule: bill.allocationRule,
+            billAmount: bill.amount,
+            bedDays: share.bedDays,
+            totalBedDays: allocation.totalBedDays,
+            rooms: share.rooms,
+            capped: share.capped,
+          },
+        });
+      });
+  }
+
+  return charges;
+}
+
+function recurringChargeFromRow(row: any): RecurringCharge {
+  return {
+    id: row.id,
+    name: row.name,
+    category: row.category as RecurringChargeCategory,
+    scope: row.scope as RecurringChargeScope,
+    staffId: row.staff_id ?? undefined,
+    department: row.department ?? undefined,
+    amount: Number(row.amount),
+    frequency: row.frequency as RecurringChargeFrequency,
+    startDate: toUtcDay(row.start_date),
+    endDate: row.end_date ? toUtcDay(row.end_date) : undefined,
+    prorate: row.prorate,
+    isActive: row.is_active,
+    notes: row.notes ?? undefined,
+    createdBy: row.created_by ?? undefined,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+  };
+}
+
+// Other charges materialized from every active recurring charge for each staff
+// member it applies to. Department charges go to the department's active staff.
+async function buildRecurringCharges(
+  supabase: SupabaseClient,
+  period: any
+): Promise<CreateCharge[]> {
+  const { data: rows, error } = await supabase
+    .from("recurring_charges")
+    .select("*")
+    .eq("is_active", true)
+    .lte("start_date", period.end_date)
+    .or(`end_date.is.null,end_date.gte.${period.start_date}`);
+
+  if (error) throw error;
+  const schedules = (rows || []).map(recurringChargeFromRow);
+
+  const departments = Array.from(
+    new Set(
+      schedules
+        .filter((schedule) => schedule.scope === RecurringChargeScope.DEPARTMENT)
+        .map((schedule) => schedule.department as string)
+    )
+  );
+  const members = new Map<string, string[]>();
+  if (departments.length > 0) {
+    const { data: staff, error: staffError } = await supabase
+      .from("staff")
+      .select("id, department")
+      .eq("employment_status", "active")
+      .in("department", departments);
+
+    if (staffError) throw staffError;
+    (staff || []).forEach((member: any) =>
+      members.set(member.department, [
+        ...(members.get(member.department) ?? []),
+        member.id,
+      ])
+    );
+  }
+
+  const charges: CreateCharge[] = [];
+  for (const schedule of schedules) {
+    const occurrence = recurringChargeForPeriod(schedule, {
+      startDate: toUtcDay(period.start_date),
+      endDate: toUtcDay(period.end_date),
+    });
+    if (!occurrence) continue;
+
+    const staffIds =
+      schedule.scope === RecurringChargeScope.STAFF
+        ? [schedule.staffId as string]
+        : members.get(schedule.department as string) ?? [];
+
+    for (const staffId of staffIds) {
+      charges.push({
+        staffId,
+        billingPeriodId: period.id,
+        type: ChargeType.OTHER,
+        amount: occurrence.amount,
+        description: schedule.name,
+        prorationFactor: occurrence.prorationFactor,
+        sourceId: schedule.id,
+        startDate: occurrence.activeFrom,
+        endDate: occurrence.activeTo,
+        metadata: {
+          recurringChargeId: schedule.id,
+          category: schedule.category,
+          frequency: schedule.frequency,
+          scheduleAmount: schedule.amount,
+        },
+      });
+    }
+  }
+
+  return charges;
+}
+
+const chargeBuilders: Record<
+  ChargeRunSource,
+  (supabase: SupabaseClient, period: any) => Promise<CreateCharge[]>
+> = {
+  [ChargeRunSource.HOUSING]: buildHousingCharges,
+  [ChargeRunSource.TRANSPORT]: buildTransportCharges,
+  [ChargeRunSource.UTILITIES]: buildUtilityCharges,
+  [ChargeRunSource.RECURRING]: buildRecurringCharges,
+};
+
+// Generate charges for a period and diff them against what is stored,
+// without writing anything
+async function previewChargeRun(
+  supabase: SupabaseClient,
+  billingPeriodId: string,
+  sources: ChargeRunSource[]
+): Promise<ChargeRunPreview> {
+  const period = await fetchBillingPeriod(supabase, billingPeriodId);
+  if (
+    period.status === BillingStatus.EXPORTED ||
+    period.status === BillingStatus.CANCELLED
+  ) {
+    throw new Error(`Cannot run charges for a ${period.status} period`);
+  }
+  if (period.parent_period_id) {
+    throw new Error(
+      "Corrections periods take manual charges and adjustments only; charges are generated in the main period"
+    );
+  }
+
+  const proposed = (
+    await Promise.all(sources.map((source) => chargeBuilders[source](supabase, period)))
+  ).flat();
+
+  const { data: existingRows, error } = await supabase
+    .from("charges")
+    .select("*, charge_adjustments(type, amount, charge_run_id)")
+    .eq("billing_period_id", billingPeriodId)
+    .neq("status", "cancelled");
+
+  if (error) throw error;
+
+  return diffChargeRun(
+    billingPeriodId,
+    sources,
+    proposed,
+    (existingRows || []).map(existingChargeFromRow)
+  );
+}
+
+// Apply a preview atomically; stale previews are rejected by the database
+async function commitChargeRun(
+  supabase: SupabaseClient,
+  preview: ChargeRunPreview,
+  notes?: string
+): Promise<ChargeRun> {
+  const items = preview.items
+    .filter((item) => item.action !== ChargeRunAction.UNCHANGED)
+    .map((item) => ({
+      action: item.action,
+      charge_id: item.existing?.id,
+      expected_updated_at: item.existing?.updatedAt,
+      // Billed charges are corrected with an adjustment instead of an edit
+      adjustment: item.adjustment && {
+        type: item.adjustment.type,
+        reason_code: item.adjustment.reasonCode,
+        amount: item.adjustment.amount,
+        expected_net_amount: item.existing?.netAmount,
+        description:
+          item.adjustment.type === ChargeAdjustmentType.REVERSAL
+            ? `No longer generated by the charge run: ${item.existing?.description}`
+            : `Recalculated by the charge run: ${item.proposed?.description}`,
+      },
+      new_values: item.proposed && {
+        staff_id: item.proposed.staffId,
+        type: item.proposed.type,
+        amount: item.proposed.amount,
+        description: item.proposed.description,
+        proration_factor: item.proposed.prorationFactor,
+        source_id: item.proposed.sourceId,
+        start_date: item.proposed.startDate
+          ? toDateKey(item.proposed.startDate)
+          : undefined,
+        metadata: item.proposed.metadata,
+      },
+    }));
+
+  const { data, error } = await supabase.rpc("commit_charge_run", {
+    p_billing_period_id: preview.billingPeriodId,
+    p_sources: preview.sources,
+    p_items: items,
+    p_unchanged_count: preview.summary.unchanged,
+    p_notes: notes ?? null,
+  });
+
+  if (error) throw error;
+  return chargeRunFromRow(data);
+}
+
+function chargeRunFromRow(row: any): ChargeRun {
+  return {
+    id: row.id,
+    billingPeriodId: row.billing_period_id,
+    sources: row.sources as ChargeRunSource[],
+    status: row.status as ChargeRunStatus,
+    addedCount: row.added_count,
+    changedCount: row.changed_count,
+    voidedCount: row.voided_count,
+    unchangedCount: row.unchanged_count,
+    totalDelta: Number(row.total_delta),
+    notes: row.notes ?? undefined,
+    committedBy: row.committed_by ?? undefined,
+    committedAt: new Date(row.committed_at),
+    rolledBackBy: row.rolled_back_by ?? undefined,
+    rolledBackAt: row.rolled_back_at ? new Date(row.rolled_back_at) : undefined,
+    createdAt: new Date(row.created_at),
+  };
+}
+
+function payrollExportLineFromRow(row: any): PayrollExportLine {
+  return {
+    chargeId: row.charge_id,
+    staffId: row.staff_id,
+    chargeType: row.charge_type as ChargeType,
+    lineType: row.line_type as PayrollExportLineType,
+    amount: Number(row.amount),
+  };
+}
+
+function payrollExportFromRow(row: any): PayrollExportWithDetails {
+  return {
+    id: row.id,
+    billingPeriodId: row.billing_period_id,
+    exportDate: new Date(row.created_at),
+    fileName: row.file_name,
+    recordCount: row.total_records ?? 0,
+    totalAmount: Number(row.total_amount ?? 0),
+    status: row.status as PayrollExportStatus,
+    format: row.format,
+    exportType: row.export_type as PayrollExportType,
+    supersedesExportId: row.supersedes_export_id ?? undefined,
+    fileSize: row.file_size ?? undefined,
+    errorMessage: row.error_message ?? undefined,
+    metadata: row.export_parameters ?? undefined,
+    deliveryStatus: row.delivery_status as PayrollDeliveryStatus,
+    rowResults: (row.row_results ?? []).map((result: any) => ({
+      ...result,
+      submittedAt: new Date(result.submittedAt),
+    })) as PayrollRowResult[],
+    deliveredAt: row.delivered_at ? new Date(row.delivered_at) : undefined,
+    createdAt: new Date(row.created_at),
+    updatedAt: row.updated_at ? new Date(row.updated_at) : undefined,
+    billingPeriod: row.billing_period as BillingPeriod,
+    charges: [],
+  };
+}
+
+function payrollFormatMappingFromRow(row: any): PayrollFormatMapping {
+  return {
+    id: row.id,
+    companyCode: row.company_code,
+    format: row.format as PayrollFormat,
+    columns: row.columns ?? [],
+    deductionCodes: row.deduction_codes ?? {},
+    imputedIncomeCode: row.imputed_income_code ?? undefined,
+    batchId: row.batch_id ?? undefined,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+  };
+}
+
+async function fetchFormatMapping(
+  supabase: SupabaseClient,
+  format: PayrollFormat,
+  companyCode?: string
+): Promise<PayrollFormatMapping | null> {
+  if (!companyCode) return null;
+
+  const { data, error } = await supabase
+    .from("payroll_format_mappings")
+    .select("*")
+    .eq("company_code", companyCode)
+    .eq("format", format)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? payrollFormatMappingFromRow(data) : null;
+}
+
+function deductionCapFromRow(row: any): DeductionCap {
+  return {
+    id: row.id,
+    staffId: row.staff_id ?? undefined,
+    chargeType: (row.charge_type as ChargeType) ?? undefined,
+    capType: row.cap_type as DeductionCapType,
+    amount: Number(row.amount),
+    effectiveFrom: toUtcDay(row.effective_from),
+    effectiveTo: row.effective_to ? toUtcDay(row.effective_to) : undefined,
+    notes: row.notes ?? undefined,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+  };
+}
+
+function minimumWageRateFromRow(row: any): MinimumWageRate {
+  return {
+    id: row.id,
+    jurisdiction: row.jurisdiction,
+    hourlyRate: Number(row.hourly_rate),
+    effectiveFrom: toUtcDay(row.effective_from),
+    effectiveTo: row.effective_to ? toUtcDay(row.effective_to) : undefined,
+    notes: row.notes ?? undefined,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+  };
+}
+
+function ledgerEntryFromRow(row: any): LedgerEntry {
+  return {
+    id: row.id,
+    staffId: row.staff_id,
+    entryType: row.entry_type as LedgerEntryType,
+    chargeType: (row.charge_type as ChargeType) ?? undefined,
+    debit: Number(row.debit),
+    credit: Number(row.credit),
+    entryDate: toUtcDay(row.entry_date),
+    description: row.description,
+    reference: row.reference ?? undefined,
+    chargeId: row.charge_id ?? undefined,
+    billingPeriodId: row.billing_period_id ?? undefined,
+    payrollExportId: row.payroll_export_id ?? undefined,
+    createdBy: row.created_by ?? undefined,
+    createdAt: new Date(row.created_at),
+  };
+}
+
+// A dispute with its charge, comments and evidence
+const DISPUTE_SELECT = `
+  *,
+  charge:charges(
+    type,
+    amount,
+    proration_factor,
+    description,
+    billing_period_id,
+    billing_period:billing_periods(start_date, end_date, status)
+  ),
+  staff:staff(first_name, last_name, employee_id),
+  comments:billing_dispute_comments(*),
+  evidence:billing_dispute_evidence(*)
+`;
+
+const EVIDENCE_BUCKET = "dispute-evidence";
+
+function disputeCommentFromRow(row: any): DisputeComment {
+  return {
+    id: row.id,
+    disputeId: row.dispute_id,
+    authorId: row.author_id ?? undefined,
+    body: row.body,
+    internal: row.internal,
+    createdAt: new Date(row.created_at),
+  };
+}
+
+function disputeEvidenceFromRow(row: any): DisputeEvidence {
+  return {
+    id: row.id,
+    disputeId: row.dispute_id,
+    fileName: row.file_name,
+    filePath: row.file_path,
+    contentType: row.content_type ?? undefined,
+    fileSize: row.file_size,
+    uploadedBy: row.uploaded_by ?? undefined,
+    createdAt: new Date(row.created_at),
+  };
+}
+
+function billingDisputeFromRow(row: any): BillingDisputeWithDetails {
+  const period = row.charge?.billing_period;
+  return {
+    id: row.id,
+    chargeId: row.charge_id,
+    staffId: row.staff_id,
+    type: row.dispute_type as DisputeType,
+    subject: row.subject,
+    description: row.description,
+    expectedAmount:
+      row.expected_amount == null ? undefined : Number(row.expected_amount),
+    status: row.status as DisputeStatus,
+    previousChargeStatus: row.previous_charge_status,
+    assignedTo: row.assigned_to ?? undefined,
+    assignedAt: row.assigned_at ? new Date(row.assigned_at) : undefined,
+    resolution: row.resolution ?? undefined,
+    creditAmount: Number(row.credit_amount),
+    resolutionNotes: row.resolution_notes ?? undefined,
+    resolvedBy: row.resolved_by ?? undefined,
+    resolvedAt: row.resolved_at ? new Date(row.resolved_at) : undefined,
+    createdBy: row.created_by ?? undefined,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+    charge: {
+      type: row.charge?.type as ChargeType,
+      amount: effectiveAmount(
+        Number(row.charge?.amount ?? 0),
+        row.charge?.proration_factor ?? 1
+      ),
+      description: row.charge?.description ?? "",
+      billingPeriodId: row.charge?.billing_period_id,
+      periodStart: period ? toUtcDay(period.start_date) : undefined,
+      periodEnd: period ? toUtcDay(period.end_date) : undefined,
+      periodStatus: period?.status as BillingStatus | undefined,
+    },
+    staff: row.staff
+      ? {
+          firstName: row.staff.first_name,
+          lastName: row.staff.last_name,
+          employeeId: row.staff.employee_id,
+        }
+      : undefined,
+    comments: (row.comments || [])
+      .map(disputeCommentFromRow)
+      .sort(
+        (a: DisputeComment, b: DisputeComment) =>
+          a.createdAt.getTime() - b.createdAt.getTime()
+      ),
+    evidence: (row.evidence || []).map(disputeEvidenceFromRow),
+  };
+}
+
+async function fetchDispute(supabase: SupabaseClient, id: string) {
+  const { data, error } = await supabase
+    .from("billing_disputes")
+    .select(DISPUTE_SELECT)
+    .eq("id", id)
+    .single();
+
+  if (error || !data) throw new Error("Dispute not found");
+  return billingDisputeFromRow(data);
+}
+
+async function addDisputeComment(
+  supabase: SupabaseClient,
+  disputeId: string,
+  body: string,
+  authorId: string,
+  internal: boolean
+) {
+  if (!body.trim()) throw new Error("Comment cannot be empty");
+
+  const { error } = await supabase.from("billing_dispute_comments").insert([
+    {
+      dispute_id: disputeId,
+      author_id: authorId,
+      body: body.trim(),
+      internal,
+    },
+  ]);
+
+  if (error) throw error;
+}
+
+// Files go under the dispute's folder in the evidence bucket, then get a row
+async function uploadDisputeEvidence(
+  supabase: SupabaseClient,
+  disputeId: string,
+  files: File[],
+  uploadedBy: string
+) {
+  for (const file of files) {
+    const path = `${disputeId}/${Date.now()}-${file.name}`;
+    const { error: uploadError } = await supabase.storage
+      .from(EVIDENCE_BUCKET)
+      .upload(path, file, { contentType: file.type || undefined });
+
+    if (uploadError) throw uploadError;
+
+    const { error } = await supabase.from("billing_dispute_evidence").insert([
+      {
+        dispute_id: disputeId,
+        file_name: file.name,
+        file_path: path,
+        content_type: file.type || null,
+        file_size: file.size,
+        uploaded_by: uploadedBy,
+      },
+    ]);
+
+    if (error) throw error;
+  }
+}
+
+// Short-lived link to a private evidence file
+async function signedEvidenceUrl(
+  supabase: SupabaseClient,
+  evidence: DisputeEvidence
+) {
+  const { data, error } = await supabase.storage
+    .from(EVIDENCE_BUCKET)
+    .createSignedUrl(evidence.filePath, 60);
+
+  if (error) throw error;
+  return data.signedUrl;
+}
+
+function payrollHoursFromRow(row: any): PayrollHours {
+  return {
+    id: row.id,
+    staffId: row.staff_id,
+    billingPeriodId: row.billing_period_id,
+    hoursWorked: Number(row.hours_worked),
+    grossPay: Number(row.gross_pay),
+    source: row.source as PayrollHoursSource,
+    importedAt: new Date(row.imported_at),
+  };
+}
+
+function deductionBalanceEntryFromRow(row: any): DeductionBalanceEntry {
+  return {
+    id: row.id,
+    staffId: row.staff_id,
+    chargeType: row.charge_type as ChargeType,
+    amount: Number(row.amount),
+    billingPeriodId: row.billing_period_id ?? undefined,
+    payrollExportId: row.payroll_export_id ?? undefined,
+    ledgerEntryId: row.ledger_entry_id ?? undefined,
+    createdAt: new Date(row.created_at),
+  };
+}
+
+type StaffPayrollInfo = {
+  employeeId: string;
+  firstName: string;
+  lastName: string;
+};
+
+// A stay with its room and staff member; both are to-one joins
+type StayWithRoomRow = {
+  id: string;
+  staff_id: string;
+  start_date: string;
+  end_date: string | null;
+  room: {
+    id: string;
+    property_id: string;
+    room_number: string;
+    room_type: string | null;
+    monthly_rate: number | null;
+  } | null;
+  staff: { employee_id: string; first_name: string; last_name: string } | null;
+};
+
+const addAmount = (
+  totals: Map<string, ChargeAmounts>,
+  staffId: string,
+  chargeType: ChargeType,
+  amount: number
+) => {
+  const amounts = totals.get(staffId) ?? emptyAmounts();
+  amounts[chargeType] += amount;
+  totals.set(staffId, amounts);
+};
+
+/**
+ * Hold back whatever an export's lines would deduct beyond each staff
+ * member's caps or below their minimum wage, and collect carried balances
+ * where there is room. Staff with a balance but no new lines are included so
+ * it keeps paying down.
+ */
+async function applyCapsToExport(
+  supabase: SupabaseClient,
+  period: { id: string; parent_period_id: string | null; end_date: string },
+  lines: PayrollExportLine[],
+  previousLines: PayrollExportLine[],
+  previousExportIds: string[],
+  minimumWageMode: MinimumWageMode
+) {
+  const [capsResult, balancesResult, ratesResult, hoursResult] =
+    await Promise.all([
+      supabase.from("deduction_caps").select("*"),
+      supabase.from("deduction_balances").select("*"),
+      supabase.from("minimum_wage_rates").select("*"),
+      // Hours belong to the paycheck, which corrections sub-periods share
+      supabase
+        .from("payroll_hours")
+        .select("*")
+        .eq("billing_period_id", period.parent_period_id ?? period.id),
+    ]);
+  if (capsResult.error) throw capsResult.error;
+  if (balancesResult.error) throw balancesResult.error;
+  if (ratesResult.error) throw ratesResult.error;
+  if (hoursResult.error) throw hoursResult.error;
+
+  const caps = (capsResult.data || []).map(deductionCapFromRow);
+  const entries = (balancesResult.data || []).map(deductionBalanceEntryFromRow);
+  const rates = (ratesResult.data || []).map(minimumWageRateFromRow);
+  const hoursByStaff = new Map(
+    (hoursResult.data || [])
+      .map(payrollHoursFromRow)
+      .map((hours) => [hours.staffId, hours])
+  );
+
+  const due = new Map<string, ChargeAmounts>();
+  lines.forEach((line) =>
+    addAmount(due, line.staffId, line.chargeType, line.amount)
+  );
+
+  const carriedIn = new Map<string, ChargeAmounts>();
+  entries.forEach((entry) =>
+    addAmount(carriedIn, entry.staffId, entry.chargeType, entry.amount)
+  );
+
+  // What earlier exports of this period already took from the same paycheck
+  const alreadyDeducted = new Map<string, ChargeAmounts>();
+  previousLines.forEach((line) =>
+    addAmount(alreadyDeducted, line.staffId, line.chargeType, line.amount)
+  );
+  entries
+    .filter(
+      (entry) =>
+        entry.payrollExportId &&
+        previousExportIds.includes(entry.payrollExportId)
+    )
+    .forEach((entry) =>
+      addAmount(alreadyDeducted, entry.staffId, entry.chargeType, -entry.amount)
+    );
+
+  const owing = Array.from(carriedIn.entries())
+    .filter(([, amounts]) => Object.values(amounts).some((v) => Math.abs(v) >= 0.005))
+    .map(([staffId]) => staffId);
+  const staffIds = Array.from(new Set([...due.keys(), ...owing]));
+  if (staffIds.length === 0) {
+    return {
+      outcomes: [],
+      wageDecisions: [],
+      staff: new Map<string, StaffPayrollInfo>(),
+    };
+  }
+
+  const { data: staffRows, error: staffError } = await supabase
+    .from("staff")
+    .select(
+      "id, employee_id, first_name, last_name, expected_gross_pay, work_state"
+    )
+    .in("id", staffIds);
+
+  if (staffError) throw staffError;
+  const staffById = new Map((staffRows || []).map((row) => [row.id, row]));
+
+  const capDate = toUtcDay(period.end_date);
+  const outcomes: DeductionCapOutcome[] = [];
+  const wageDecisions: MinimumWageDecision[] = [];
+
+  staffIds.forEach((staffId) => {
+    const member = staffById.get(staffId);
+    const hours = hoursByStaff.get(staffId);
+    const expectedGrossPay =
+      member?.expected_gross_pay === null ||
+      member?.expected_gross_pay === undefined
+        ? undefined
+        : Number(member.expected_gross_pay);
+    const already = alreadyDeducted.get(staffId) ?? emptyAmounts();
+
+    const capInput = {
+      staffId,
+      due: due.get(staffId) ?? emptyAmounts(),
+      carriedIn: carriedIn.get(staffId) ?? emptyAmounts(),
+      caps: resolveCaps(caps, staffId, capDate),
+      // Actual gross pay for the paycheck beats the expected figure
+      grossPay: hours?.grossPay ?? expectedGrossPay,
+      alreadyDeducted: already,
+    };
+    let outcome = applyDeductionCaps(capInput);
+
+    const decision = checkMinimumWage({
+      staffId,
+      requested: sumAmounts(outcome.deducted) + sumAmounts(already),
+      hours,
+      rates,
+      state: member?.work_state ?? undefined,
+      onDate: capDate,
+      mode: minimumWageMode,
+    });
+    if (decision.action === MinimumWageAction.CAPPED) {
+      outcome = applyDeductionCaps({
+        ...capInput,
+        wageLimit: decision.maxDeduction,
+      });
+    }
+
+    outcomes.push(outcome);
+    wageDecisions.push(decision);
+  });
+
+  const staff = new Map<string, StaffPayrollInfo>(
+    (staffRows || []).map((row) => [
+      row.id,
+      {
+        employeeId: row.employee_id,
+        firstName: row.first_name,
+        lastName: row.last_name,
+      },
+    ])
+  );
+
+  return { outcomes, wageDecisions, staff };
+}
+
+// The housing subsidy of everyone who stayed in company housing during the
+// period, from the fair market rent on the rate cards and the rent they were
+// charged. Staff housed free of charge have no charges, so their details come
+// back too.
+async function buildImputedIncome(
+  supabase: SupabaseClient,
+  period: any,
+  rentCharged: Map<string, number>
+): Promise<{ items: ImputedIncomeItem[]; staff: Map<string, StaffPayrollInfo> }> {
+  const [
+    { data: assignments, error: assignmentsError },
+    { data: rateCardRows, error: rateCardError },
+  ] = await Promise.all([
+    supabase
+      .from("room_assignments")
+      .select(
+        `
+          id, staff_id, start_date, end_date,
+          room:rooms(id, property_id, room_number, room_type, monthly_rate),
+          staff:staff(employee_id, first_name, last_name)
+        `
+      )
+      .in("status", ["active", "completed"])
+      .lte("start_date", period.end_date)
+      .or(`end_date.is.null,end_date.gt.${period.start_date}`)
+      .returns<StayWithRoomRow[]>(),
+    supabase
+      .from("rate_cards")
+      .select("*")
+      .not("fair_market_rent", "is", null)
+      .lte("effective_from", period.end_date)
+      .or(`effective_to.is.null,effective_to.gte.${period.start_date}`),
+  ]);
+
+  if (assignmentsError) throw assignmentsError;
+  if (rateCardError) throw rateCardError;
+  const rateCards = (rateCardRows || []).map(rateCardFromRow);
+
+  const stays: StayMarketValue[] = [];
+  const staff = new Map<string, StaffPayrollInfo>();
+  for (const assignment of assignments || []) {
+    if (!assignment.room) continue;
+
+    const value = calculateStayMarketRent(
+      rateCards,
+      {
+        id: assignment.room.id,
+        propertyId: assignment.room.property_id,
+        roomNumber: assignment.room.room_number,
+        roomType: assignment.room.room_type ?? undefined,
+        monthlyRate: assignment.room.monthly_rate
+          ? Number(assignment.room.monthly_rate)
+          : undefined,
+      },
+      {
+        startDate: toUtcDay(assignment.start_date),
+        endDate: assignment.end_date ? toUtcDay(assignment.end_date) : undefined,
+      },
+      {
+        startDate: toUtcDay(period.start_date),
+        endDate: toUtcDay(period.end_date),
+      }
+    );
+    if (!value) continue;
+
+    stays.push({
+      staffId: assignment.staff_id,
+      marketValue: value.amount,
+      nights: value.nights,
+      unvaluedNights: value.unvaluedNights,
+    });
+    if (assignment.staff) {
+      staff.set(assignment.staff_id, {
+        employeeId: assignment.staff.employee_id,
+        firstName: assignment.staff.first_name,
+        lastName: assignment.staff.last_name,
+      });
+    }
+  }
+
+  return { items: buildImputedIncomeItems(stays, rentCharged), staff };
+}
+
+type PayrollExportOptions = {
+  exportType?: PayrollExportType;
+  format?: PayrollFormat;
+  companyCode?: string;
+  // Defaults to capping deductions at the minimum wage floor
+  minimumWageMode?: MinimumWageMode;
+};
+
+/**
+ * Work out what the next export of a completed period would send, without
+ * writing anything. A period and its corrections sub-periods share one export
+ * chain, so only what payroll has not yet seen is included. An exported period
+ * can be exported again incrementally to send adjustments, dispute credits and
+ * carried-forward deductions made since.
+ */
+async function buildPayrollExport(
+  supabase: SupabaseClient,
+  billingPeriodId: string,
+  options: PayrollExportOptions = {}
+) {
+  const period = await fetchBillingPeriod(supabase, billingPeriodId);
+  if (
+    period.status !== BillingStatus.COMPLETED &&
+    period.status !== BillingStatus.EXPORTED
+  ) {
+    throw new Error("Only completed or exported billing periods can be exported");
+  }
+
+  const rootPeriodId = period.parent_period_id ?? period.id;
+  const { data: family, error: familyError } = await supabase
+    .from("billing_periods")
+    .select("id")
+    .or(`id.eq.${rootPeriodId},parent_period_id.eq.${rootPeriodId}`);
+
+  if (familyError) throw familyError;
+  const familyIds = (family || []).map((p) => p.id);
+
+  const { data: previousExports, error: exportsError } = await supabase
+    .from("payroll_exports")
+    .select("id")
+    .in("billing_period_id", familyIds)
+    .eq("status", PayrollExportStatus.COMPLETED)
+    .order("created_at", { ascending: false });
+
+  if (exportsError) throw exportsError;
+  const supersedes = previousExports?.[0];
+
+  const exportType =
+    options.exportType ??
+    (!supersedes
+      ? PayrollExportType.FULL
+      : period.parent_period_id
+      ? PayrollExportType.CORRECTIONS
+      : PayrollExportType.INCREMENTAL);
+
+  if (exportType === PayrollExportType.FULL && supersedes) {
+    throw new Error(
+      "This period has already been exported; use an incremental or corrections export"
+    );
+  }
+  if (exportType !== PayrollExportType.FULL && !supersedes) {
+    throw new Error(
+      "Nothing has been exported for this period yet; run a full export first"
+    );
+  }
+
+  let previousLines: PayrollExportLine[] = [];
+  let previousImputedLines: Pick<ImputedIncomeLine, "staffId" | "amount">[] = [];
+  if (supersedes) {
+    const exportIds = previousExports!.map((e) => e.id);
+    const [
+      { data: lineRows, error: linesError },
+      { data: imputedRows, error: imputedError },
+    ] = await Promise.all([
+      supabase
+        .from("payroll_export_lines")
+        .select("*")
+        .in("payroll_export_id", exportIds),
+      supabase
+        .from("imputed_income_lines")
+        .select("staff_id, amount")
+        .in("payroll_export_id", exportIds),
+    ]);
+
+    if (linesError) throw linesError;
+    if (imputedError) throw imputedError;
+    previousLines = (lineRows || []).map(payrollExportLineFromRow);
+    previousImputedLines = (imputedRows || []).map((row) => ({
+      staffId: row.staff_id,
+      amount: Number(row.amount),
+    }));
+  }
+
+  const { data: chargeRows, error: chargesError } = await supabase
+    .from("charges")
+    .select(
+      `
+        *,
+        staff:staff(*)
+      `
+    )
+    .in("billing_period_id", familyIds);
+
+  if (chargesError) throw chargesError;
+
+  const { data: creditRows, error: creditsError } = await supabase
+    .from("billing_disputes")
+    .select("charge_id, status, credit_amount")
+    .in(
+      "charge_id",
+      (chargeRows || []).map((c) => c.id)
+    )
+    .eq("status", DisputeStatus.RESOLVED);
+
+  if (creditsError) throw creditsError;
+  const credits = creditsByCharge(
+    (creditRows || []).map((row) => ({
+      chargeId: row.charge_id,
+      status: row.status as DisputeStatus,
+      creditAmount: Number(row.credit_amount),
+    }))
+  );
+
+  const { data: adjustmentRows, error: adjustmentsError } = await supabase
+    .from("charge_adjustments")
+    .select("charge_id, type, amount")
+    .in("billing_period_id", familyIds);
+
+  if (adjustmentsError) throw adjustmentsError;
+  const adjustments = adjustmentsByCharge(
+    (adjustmentRows || []).map((row) => ({
+      chargeId: row.charge_id,
+      type: row.type as ChargeAdjustmentType,
+      amount: Number(row.amount),
+    }))
+  );
+
+  // Charges go out net of their adjustments and dispute credits.
+  // Only approved charges are exported. Pending and disputed charges are held:
+  // payroll keeps whatever it already has for them until they are approved or
+  // the dispute is resolved
+  const lines = buildExportLines(
+    exportType,
+    (chargeRows || [])
+      .filter((c) => !isChargeHeld(c.status))
+      .map((c) => ({
+        id: c.id,
+        staffId: c.staff_id,
+        type: c.type as ChargeType,
+        amount:
+          isChargeUnbilled(c.status)
+            ? 0
+            : creditedAmount(
+                netChargeAmount(
+                  effectiveAmount(Number(c.amount), c.proration_factor ?? 1),
+                  adjustments.get(c.id)
+                ),
+                credits.get(c.id)
+              ),
+      })),
+    previousLines
+  );
+  // Imputed income compares market rent with all rent billed for the stay,
+  // held charges included; a later export corrects it if they change
+  const rentCharged = new Map<string, number>();
+  (chargeRows || [])
+    .filter((c) => c.type === ChargeType.RENT && !isChargeUnbilled(c.status))
+    .forEach((c) => {
+      const amount = creditedAmount(
+        netChargeAmount(
+          effectiveAmount(Number(c.amount), c.proration_factor ?? 1),
+          adjustments.get(c.id)
+        ),
+        credits.get(c.id)
+      );
+      rentCharged.set(c.staff_id, (rentCharged.get(c.staff_id) ?? 0) + amount);
+    });
+  const imputed = await buildImputedIncome(supabase, period, rentCharged);
+  const imputedLines = buildImputedIncomeLines(
+    exportType,
+    imputed.items,
+    previousImputedLines
+  );
+
+  const heldCharges = (chargeRows || []).filter(
+    (c) => c.status === ChargeStatus.DISPUTED
+  ).length;
+  const unapprovedCharges = (chargeRows || []).filter(
+    (c) => c.status === ChargeStatus.PENDING
+  ).length;
+
+  const staff = new Map<string, StaffPayrollInfo>(
+    (chargeRows || [])
+      .filter((c) => c.staff)
+      .map((c) => [
+        c.staff_id,
+        {
+          employeeId: c.staff.employee_id,
+          firstName: c.staff.first_name,
+          lastName: c.staff.last_name,
+        },
+      ])
+  );
+  const billingPeriod = `${new Date(
+    period.start_date
+  ).toLocaleDateString()} - ${new Date(period.end_date).toLocaleDateString()}`;
+
+  // Lines stay at the billed amounts; caps add deferral and recovery rows
+  const minimumWageMode = options.minimumWageMode ?? MinimumWageMode.CAP;
+  const capped = await applyCapsToExport(
+    supabase,
+    period,
+    lines,
+    previousLines,
+    (previousExports || []).map((e) => e.id),
+    minimumWageMode
+  );
+  [capped.staff, imputed.staff].forEach((known) =>
+    known.forEach((info, staffId) => {
+      if (!staff.has(staffId)) staff.set(staffId, info);
+    })
+  );
+  const { outcomes: capOutcomes, wageDecisions } = capped;
+
+  // Imputed income rides on the same rows under its own earnings code
+  const rows = addImputedIncomeToRows(
+    [
+      ...summarizeExportLines(lines, staff, billingPeriod),
+      ...toBalanceRows(
+        new Map(
+          capOutcomes.map((outcome) => [outcome.staffId, balanceChange(outcome)])
+        ),
+        staff,
+        billingPeriod
+      ),
+    ],
+    imputedLines,
+    staff,
+    billingPeriod
+  );
+
+  // Render through the chosen adapter and the company's stored mapping
+  const format = options.format ?? PayrollFormat.STANDARD_CSV;
+  const mapping = await fetchFormatMapping(supabase, format, options.companyCode);
+  const file = renderPayrollFile(
+    format,
+    rows,
+    {
+      exportType,
+      periodStart: new Date(period.start_date),
+      periodEnd: new Date(period.end_date),
+      generatedAt: new Date(),
+    },
+    resolveMapping(format, mapping)
+  );
+
+  return {
+    period,
+    exportType,
+    supersedes,
+    lines,
+    imputedItems: imputed.items,
+    imputedLines,
+    rows,
+    mapping,
+    file,
+    capOutcomes,
+    minimumWageMode,
+    wageDecisions,
+    staff,
+    billingPeriod,
+    heldCharges,
+    unapprovedCharges,
+  };
+}
+
+// Billing Periods Hook
+export function useBillingPeriods(filters?: BillingFilters) {
+  const supabase = createClient();
+  const { checkPermission, logAudit } = useAuth();
+
+  const fetcher = useCallback(async () => {
+    let query = supabase
+      .from("billing_periods")
+      .select("*")
+      .order("start_date", { ascending: false });
+
+    if (filters?.status) {
+      query = query.eq("status", filters.status);
+    }
+
+    if (filters?.dateRange) {
+      query = query
+        .gte("start_date", filters.dateRange.start.toISOString())
+        .lte("end_date", filters.dateRange.end.toISOString());
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return data as BillingPeriod[];
+  }, [filters]);
+
+  const {
+    data: periods,
+    error,
+    mutate,
+    isLoading,
+  } = useSWR(["billing_periods", filters], fetcher);
+
+  const createPeriod = useCallback(
+    async (periodData: CreateBillingPeriod) => {
+      if (!checkPermission(PERMISSIONS.BILLING_CREATE)) {
+        throw new Error("You do not have permission to create billing periods");
+      }
+
+      // Check for overlapping periods; corrections sub-periods share their
+      // parent's dates and are exempt
+      const { data: existingPeriods } = await supabase
+        .from("billing_periods")
+        .select("id")
+        .or(
+          `start_date.lte.${periodData.endDate.toISOString()},end_date.gte.${periodData.startDate.toISOString()}`
+        )
+        .is("parent_period_id", null)
+        .neq("status", "cancelled");
+
+      if (existingPeriods && existingPeriods.length > 0) {
+        throw new Error("Billing period overlaps with existing period");
+      }
+
+      const { data, error } = await supabase
+        .from("billing_periods")
+        .insert([{ ...periodData, status: BillingStatus.DRAFT }])
+        .select()
+        .single();
+
+      if (error) throw error;
+      await mutate();
+      return data as BillingPeriod;
+    },
+    [supabase, mutate, checkPermission]
+  );
+
+  const transitionPeriod = useCallback(
+    async (id: string, to: BillingStatus) => {
+      const { period, data } = await applyPeriodTransition(
+        supabase,
+        id,
+        to,
+        checkPermission
+      );
+
+      await logAudit({
+        action: AuditAction.UPDATE,
+        tableName: "billing_periods",
+        recordId: id,
+        oldValues: { status: period.status },
+        newValues: { status: to },
+      });
+
+      await mutate();
+      return data as BillingPeriod;
+    },
+    [supabase, mutate, checkPermission, logAudit]
+  );
+
+  const updatePeriod = useCallback(
+    async (id: string, updates: UpdateBillingPeriod) => {
+      const { status, ...fields } = updates;
+      const period = await fetchBillingPeriod(supabase, id);
+
+      if (status && status !== period.status) {
+        await transitionPeriod(id, status);
+      }
+
+      if (Object.keys(fields).length === 0) {
+        return fetchBillingPeriod(supabase, id) as Promise<BillingPeriod>;
+      }
+
+      if (!checkPermission(PERMISSIONS.BILLING_UPDATE)) {
+        throw new Error("You do not have permission to update billing periods");
+      }
+      if (isPeriodLocked(status ?? period.status)) {
+        throw new Error(
+          "Exported and cancelled periods cannot be edited; reopen the period for corrections instead"
+        );
+      }
+
+      const { data, error } = await supabase
+        .from("billing_periods")
+        .update({ ...fields, updated_at: new Date().toISOString() })
+        .eq("id", id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      await mutate();
+      return data as BillingPeriod;
+    },
+    [supabase, mutate, checkPermission, transitionPeriod]
+  );
+
+  const processPeriod = useCallback(
+    async (id: string) => {
+      const period = await fetchBillingPeriod(supabase, id);
+      await transitionPeriod(id, BillingStatus.PROCESSING);
+
+      try {
+        // Corrections periods hold only manual charges and adjustments; their
+        // main period already has every generated charge
+        if (!period.parent_period_id) {
+          // Utility bills are only split automatically when configured to be
+          const sources = Object.values(ChargeRunSource).filter(
+            (source) =>
+              source !== ChargeRunSource.UTILITIES ||
+              ERP_CONFIG.billing.autoCalculateUtilities
+          );
+          const preview = await previewChargeRun(supabase, id, sources);
+          await commitChargeRun(supabase, preview, "Generated on period processing");
+        }
+        return await transitionPeriod(id, BillingStatus.COMPLETED);
+      } catch (err) {
+        // Report why processing failed, not whether the rollback did
+        await transitionPeriod(id, BillingStatus.DRAFT).catch(() => undefined);
+        throw err;
+      }
+    },
+    [supabase, transitionPeriod]
+  );
+
+  const cancelPeriod = useCallback(
+    async (id: string) => {
+      return transitionPeriod(id, BillingStatus.CANCELLED);
+    },
+    [transitionPeriod]
+  );
+
+  // Exported periods are never edited in place. Corrections go into a draft
+  // sub-period covering the same dates that is billed and exported on its own.
+  const reopenPeriod = useCallback(
+    async (id: string, reason: string) => {
+      if (!checkPermission(REOPEN_PERMISSION)) {
+        throw new Error("You do not have permission to reopen billing periods");
+      }
+      if (!reason.trim()) {
+        throw new Error("A reason is required to reopen a billing period");
+      }
+
+      const period = await fetchBillingPeriod(supabase, id);
+      if (period.status !== BillingStatus.EXPORTED) {
+        throw new Error("Only exported periods can be reopened for corrections");
+      }
+
+      const { data: openCorrections } = await supabase
+        .from("billing_periods")
+        .select("id")
+        .eq("parent_period_id", id)
+        .in("status", [
+          BillingStatus.DRAFT,
+          BillingStatus.PROCESSING,
+          BillingStatus.COMPLETED,
+        ]);
+
+      if (openCorrections && openCorrections.length > 0) {
+        throw new Error("This period already has an open corrections period");
+      }
+
+      const { data, error } = await supabase
+        .from("billing_periods")
+        .insert([
+          {
+            start_date: period.start_date,
+            end_date: period.end_date,
+            status: BillingStatus.DRAFT,
+            parent_period_id: id,
+            reopen_reason: reason.trim(),
+          },
+        ])
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      await logAudit({
+        action: AuditAction.CREATE,
+        tableName: "billing_periods",
+        recordId: data.id,
+        newValues: { parentPeriodId: id, reopenReason: reason.trim() },
+      });
+
+      await mutate();
+      return data as BillingPeriod;
+    },
+    [supabase, mutate, checkPermission, logAudit]
+  );
+
+  const previewCalendar = useCallback(
+    async (settings: BillingCalendarSettings) =>
+      previewBillingCalendar(supabase, settings),
+    [supabase]
+  );
+
+  // Creates every calendar entry that does not collide with an existing
+  // period, as drafts, in a single insert
+  const generateCalendar = useCallback(
+    async (settings: BillingCalendarSettings) => {
+      if (!checkPermission(PERMISSIONS.BILLING_CREATE)) {
+        throw new Error("You do not have permission to create billing periods");
+      }
+
+      const calendar = await previewBillingCalendar(supabase, settings);
+      const entries = calendar.entries.filter((entry) => !entry.conflict);
+      if (entries.length === 0) {
+        throw new Error("Every period in this calendar already exists");
+      }
+
+      const { data, error } = await supabase
+        .from("billing_periods")
+        .insert(
+          entries.map((entry) => ({
+            start_date: toDateKey(entry.startDate),
+            end_date: toDateKey(entry.endDate),
+            status: BillingStatus.DRAFT,
+            pay_date: toDateKey(entry.payDate),
+            payroll_run_date: toDateKey(entry.payrollRunDate),
+          }))
+        )
+        .select();
+
+      if (error) throw error;
+
+      for (const period of data || []) {
+        await logAudit({
+          action: AuditAction.CREATE,
+          tableName: "billing_periods",
+          recordId: period.id,
+          newValues: {
+            startDate: period.start_date,
+            endDate: period.end_date,
+            payDate: period.pay_date,
+            payrollRunDate: period.payroll_run_date,
+            source: "billing_calendar",
+          },
+        });
+      }
+
+      await mutate();
+      return { calendar, created: (data || []) as BillingPeriod[] };
+    },
+    [supabase, mutate, checkPermission, logAudit]
+  );
+
+  return {
+    periods,
+    isLoading,
+    error,
+    createPeriod,
+    updatePeriod,
+    transitionPeriod,
+    processPeriod,
+    cancelPeriod,
+    reopenPeriod,
+    previewCalendar,
+    generateCalendar,
+    refresh: mutate,
+  };
+}
+
+// Charges Hook
+export function useCharges(filters?: BillingFilters) {
+  const supabase = createClient();
+
+  const fetcher = useCallback(async () => {
+    let query = supabase
+      .from("charges")
+      .select(
+        `
+        *,
+        staff:staff(*),
+        billing_period:billing_periods(*),
+        adjustments:charge_adjustments(*)
+      `
+      )
+      .order("created_at", { ascending: false });
+
+    if (filters?.billingPeriodId) {
+      query = query.eq("billing_period_id", filters.billingPeriodId);
+    }
+
+    if (filters?.staffId) {
+      query = query.eq("staff_id", filters.staffId);
+    }
+
+    if (filters?.chargeType) {
+      query = query.eq("type", filters.chargeType);
+    }
+
+    if (filters?.amountRange) {
+      query = query
+        .gte("amount", filters.amountRange.min)
+        .lte("amount", filters.amountRange.max);
+    }
+
+    if (filters?.search) {
+      query = query.ilike("description", `%${filters.search}%`);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return data as ChargeWithDetails[];
+  }, [filters]);
+
+  const {
+    data: charges,
+    error,
+    mutate,
+    isLoading,
+  } = useSWR(["charges", filters], fetcher);
+
+  const createCharge = useCallback(
+    async (chargeData: CreateCharge) => {
+      // Validate billing period is not exported
+      const { data: period } = await supabase
+        .from("billing_periods")
+        .select("status")
+        .eq("id", chargeData.billingPeriodId)
+        .single();
+
+      if (!period) throw new Error("Billing period not found");
+      if (isPeriodLocked(period.status))
+        throw new Error(`Cannot add charges to a ${period.status} period`);
+
+      const { data, error } = await supabase
+        .from("charges")
+        .insert([chargeData])
+        .select()
+        .single();
+
+      if (error) throw error;
+      await mutate();
+      return data as Charge;
+    },
+    [supabase, mutate]
+  );
+
+  // Only descriptive fields are edited; amounts are corrected with adjustments
+  const updateCharge = useCallback(
+    async (id: string, updates: UpdateCharge) => {
+      const moneyFields = ["amount", "type", "prorationFactor", "staffId"];
+      if (moneyFields.some((field) => field in updates)) {
+        throw new Error(
+          "A charge's amount, type and staff member cannot be edited; post an adjustment instead"
+        );
+      }
+
+      const { data: charge } = await supabase
+        .from("charges")
+        .select(
+          `
+        billing_period:billing_periods(status)
+      `
+        )
+        .eq("id", id)
+        .single<{ billing_period: { status: BillingStatus } | null }>();
+
+      const periodStatus = charge?.billing_period?.status;
+      if (periodStatus && isPeriodLocked(periodStatus)) {
+        throw new Error(`Cannot change charges in a ${periodStatus} period`);
+      }
+
+      const { data, error } = await supabase
+        .from("charges")
+        .update({ ...updates, updated_at: new Date().toISOString() })
+        .eq("id", id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      await mutate();
+      return data as Charge;
+    },
+    [supabase, mutate]
+  );
+
+  // Share of a billing period charged for part of it; all dates inclusive
+  const calculateProration = useCallback(
+    (
+      baseAmount: number,
+      startDate: Date,
+      endDate: Date,
+      periodStart: Date,
+      periodEnd: Date,
+      method: ProrationMethod = DEFAULT_PRORATION_METHOD
+    ): number =>
+      prorationFactor(method, startDate, endDate, periodStart, periodEnd),
+    []
+  );
+
+  const generateHousingCharges = useCallback(
+    async (billingPeriodId: string) => {
+      const preview = await previewChargeRun(supabase, billingPeriodId, [
+        ChargeRunSource.HOUSING,
+      ]);
+      const run = await commitChargeRun(supabase, preview);
+      await mutate();
+      return run;
+    },
+    [supabase, mutate]
+  );
+
+  const generateTransportCharges = useCallback(
+    async (billingPeriodId: string) => {
+      const preview = await previewChargeRun(supabase, billingPeriodId, [
+        ChargeRunSource.TRANSPORT,
+      ]);
+      const run = await commitChargeRun(supabase, preview);
+      await mutate();
+      return run;
+    },
+    [supabase, mutate]
+  );
+
+  return {
+    charges,
+    isLoading,
+    error,
+    createCharge,
+    updateCharge,
+    generateHousingCharges,
+    generateTransportCharges,
+    calculateProration,
+    refresh: mutate,
+  };
+}
+
+// Charge Runs Hook
+export function useChargeRuns(billingPeriodId?: string) {
+  const supabase = createClient();
+
+  const fetcher = useCallback(async () => {
+    if (!billingPeriodId) return [];
+
+    const { data, error } = await supabase
+      .from("charge_runs")
+      .select("*")
+      .eq("billing_period_id", billingPeriodId)
+      .order("committed_at", { ascending: false });
+
+    if (error) throw error;
+    return (data || []).map(chargeRunFromRow);
+  }, [billingPeriodId]);
+
+  const {
+    data: runs,
+    error,
+    mutate,
+    isLoading,
+  } = useSWR(
+    billingPeriodId ? ["charge_runs", billingPeriodId] : null,
+    fetcher
+  );
+
+  const previewRun = useCallback(
+    async (periodId: string, sources: ChargeRunSource[]) => {
+      if (sources.length === 0) {
+        throw new Error("Select at least one charge source");
+      }
+      return previewChargeRun(supabase, periodId, sources);
+    },
+    [supabase]
+  );
+
+  const commitRun = useCallback(
+    async (preview: ChargeRunPreview, notes?: string) => {
+      const run = await commitChargeRun(supabase, preview, notes);
+      await mutate();
+      return run;
+    },
+    [supabase, mutate]
+  );
+
+  const rollbackRun = useCallback(
+    async (runId: string) => {
+      const { data, error } = await supabase.rpc("rollback_charge_run", {
+        p_charge_run_id: runId,
+      });
+
+      if (error) throw error;
+      await mutate();
+      return chargeRunFromRow(data);
+    },
+    [supabase, mutate]
+  );
+
+  return {
+    runs,
+    isLoading,
+    error,
+    previewRun,
+    commitRun,
+    rollbackRun,
+    refresh: mutate,
+  };
+}
+
+function chargeAdjustmentFromRow(row: any): ChargeAdjustment {
+  return {
+    id: row.id,
+    chargeId: row.charge_id,
+    staffId: row.staff_id,
+    billingPeriodId: row.billing_period_id,
+    type: row.type as ChargeAdjustmentType,
+    reasonCode: row.reason_code as AdjustmentReasonCode,
+    amount: Number(row.amount),
+    description: row.description,
+    createdBy: row.created_by ?? undefined,
+    createdAt: new Date(row.created_at),
+  };
+}
+
+// Charge Adjustments Hook
+// Charges are not edited or deleted once billed; credit notes, debits and
+// reversals against the original charge correct them. Adjustments to charges
+// in an exported period reach payroll with its next incremental export.
+export function useChargeAdjustments(filters?: {
+  chargeId?: string;
+  billingPeriodId?: string;
+  staffId?: string;
+}) {
+  const supabase = createClient();
+  const { checkPermission, logAudit } = useAuth();
+
+  const fetcher = useCallback(async () => {
+    let query = supabase
+      .from("charge_adjustments")
+      .select("*")
+      .order("created_at", { ascending: false });
+
+    if (filters?.chargeId) {
+      query = query.eq("charge_id", filters.chargeId);
+    }
+
+    if (filters?.billingPeriodId) {
+      query = query.eq("billing_period_id", filters.billingPeriodId);
+    }
+
+    if (filters?.staffId) {
+      query = query.eq("staff_id", filters.staffId);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return (data || []).map(chargeAdjustmentFromRow);
+  }, [filters]);
+
+  const {
+    data: adjustments,
+    error,
+    mutate,
+    isLoading,
+  } = useSWR(["charge_adjustments", filters], fetcher);
+
+  // Post an adjustment. The database checks it again against the charge's
+  // current adjustments, so two people adjusting at once cannot over-credit.
+  const createAdjustment = useCallback(
+    async (adjustment: CreateChargeAdjustment) => {
+      const permission =
+        adjustment.type === ChargeAdjustmentType.REVERSAL
+          ? PERMISSIONS.BILLING_DELETE
+          : PERMISSIONS.BILLING_UPDATE;
+      if (!checkPermission(permission)) {
+        throw new Error("You do not have permission to adjust charges");
+      }
+
+      const { data: charge, error: chargeError } = await supabase
+        .from("charges")
+        .select(
+          `
+        id, status, amount, proration_factor,
+        billing_period:billing_periods(status),
+        charge_adjustments(type, amount)
+      `
+        )
+        .eq("id", adjustment.chargeId)
+        .single<{
+          id: string;
+          status: ChargeStatus;
+          amount: number;
+          proration_factor: number | null;
+          billing_period: { status: BillingStatus } | null;
+          charge_adjustments: { type: ChargeAdjustmentType; amount: number }[] | null;
+        }>();
+
+      if (chargeError) throw chargeError;
+      if (isChargeUnbilled(charge.status)) {
+        throw new Error(
+          `A ${charge.status} charge is not billed and cannot be adjusted`
+        );
+      }
+
+      const periodStatus = charge.billing_period?.status;
+      if (periodStatus === BillingStatus.CANCELLED) {
+        throw new Error("Charges in a cancelled period cannot be adjusted");
+      }
+
+      const summary = summarizeAdjustments(
+        effectiveAmount(Number(charge.amount), charge.proration_factor ?? 1),
+        (charge.charge_adjustments || []).map((row) => ({
+          type: row.type,
+          amount: Number(row.amount),
+        }))
+      );
+      const amount = adjustmentAmount(adjustment, summary);
+
+      const { data, error } = await supabase
+        .from("charge_adjustments")
+        .insert([
+          {
+            charge_id: adjustment.chargeId,
+            type: adjustment.type,
+            reason_code: adjustment.reasonCode,
+            amount,
+            description: adjustment.description.trim(),
+          },
+        ])
+        .select()
+        .single();
+
+      if (error) throw error;
+      const created = chargeAdjustmentFromRow(data);
+
+      await logAudit({
+        action: AuditAction.CREATE,
+        tableName: "charge_adjustments",
+        recordId: created.id,
+        newValues: {
+          charge_id: created.chargeId,
+          type: created.type,
+          reason_code: created.reasonCode,
+          amount: created.amount,
+        },
+      });
+
+      await mutate();
+      return {
+        adjustment: created,
+        netAmount: netChargeAmount(summary.netAmount, [created]),
+        // The period has already gone to payroll, so the adjustment waits
+        // for an incremental export
+        needsCorrections: periodStatus === BillingStatus.EXPORTED,
+      };
+    },
+    [supabase, mutate, checkPermission, logAudit]
+  );
+
+  // Cancel what is left of a charge; this replaces deleting it
+  const reverseCharge = useCallback(
+    (chargeId: string, reasonCode: AdjustmentReasonCode, description: string) =>
+      createAdjustment({
+        chargeId,
+        type: ChargeAdjustmentType.REVERSAL,
+        reasonCode,
+        description,
+      }),
+    [createAdjustment]
+  );
+
+  return {
+    adjustments: adjustments || [],
+    isLoading,
+    error,
+    createAdjustment,
+    reverseCharge,
+    refresh: mutate,
+  };
+}
+
+function chargeImportFromRow(row: any): ChargeImport {
+  return {
+    id: row.id,
+    fileName: row.file_name,
+    rowCount: row.row_count,
+    totalAmount: Number(row.total_amount),
+    importedBy: row.imported_by ?? undefined,
+    importedAt: new Date(row.imported_at),
+  };
+}
+
+// Charge Imports Hook
+// One-off charges loaded from a CSV or XLSX file. Rows are checked against
+// staff and billing periods for a preview first; committing writes the whole
+// file in one transaction.
+export function useChargeImports() {
+  const supabase = createClient();
+  const { checkPermission, logAudit } = useAuth();
+
+  const fetcher = useCallback(async () => {
+    const { data, error } = await supabase
+      .from("charge_imports")
+      .select("*")
+      .order("imported_at", { ascending: false })
+      .limit(20);
+
+    if (error) throw error;
+    return (data || []).map(chargeImportFromRow);
+  }, []);
+
+  const {
+    data: imports,
+    error,
+    mutate,
+    isLoading,
+  } = useSWR("charge_imports", fetcher);
+
+  // Check a file's rows (header first) without writing anything
+  const previewImport = useCallback(
+    async (
+      fileName: string,
+      rows: string[][],
+      mapping: ChargeImportMapping,
+      defaultPeriodId?: string
+    ): Promise<ChargeImportPreview> => {
+      const employeeIds = Array.from(
+        new Set(
+          rows
+            .slice(1)
+            .map((cells) =>
+              mapping.employeeId === undefined
+                ? ""
+                : (cells[mapping.employeeId] ?? "").trim()
+            )
+            .filter(Boolean)
+        )
+      );
+
+      const [{ data: staff, error: staffError }, { data: periods, error: periodsError }] =
+        await Promise.all([
+          employeeIds.length > 0
+            ? supabase
+                .from("staff")
+                .select("id, employee_id, first_name, last_name")
+                .in("employee_id", employeeIds)
+            : Promise.resolve({ data: [], error: null }),
+          supabase
+            .from("billing_periods")
+            .select("id, start_date, end_date, status, parent_period_id"),
+        ]);
+
+      if (staffError) throw staffError;
+      if (periodsError) throw periodsError;
+
+      const importRows = buildChargeImportRows(rows, mapping, {
+        staffByEmployeeId: new Map(
+          (staff || []).map((member: any) => [
+            member.employee_id,
+            {
+              id: member.id,
+              name: `${member.first_name} ${member.last_name}`,
+            },
+          ])
+        ),
+        periods: (periods || []).map((period: any) => ({
+          id: period.id,
+          startDate: new Date(period.start_date),
+          endDate: new Date(period.end_date),
+          status: period.status as BillingStatus,
+          parentPeriodId: period.parent_period_id ?? undefined,
+        })),
+        defaultPeriodId,
+      });
+
+      return {
+        fileName,
+        rows: importRows,
+        summary: summarizeChargeImport(importRows),
+      };
+    },
+    [supabase]
+  );
+
+  // Write the preview's charges together; any failing row rolls back the
+  // whole import. Rows with errors must be fixed in the file first unless
+  // `skipInvalid` leaves them out.
+  const commitImport = useCallback(
+    async (preview: ChargeImportPreview, skipInvalid = false) => {
+      if (!checkPermission(PERMISSIONS.BILLING_CREATE)) {
+        throw new Error("You do not have permission to import charges");
+      }
+
+      const blocked = preview.rows.filter(
+        (row) => row.status !== ChargeImportRowStatus.VALID
+      );
+      if (blocked.length > 0 && !skipInvalid) {
+        throw new Error(
+          `${blocked.length} row${blocked.length === 1 ? " has" : "s have"} errors; fix the file or leave them out`
+        );
+      }
+
+      const rows = preview.rows.flatMap((row) =>
+        row.status === ChargeImportRowStatus.VALID && row.charge
+          ? [
+              {
+                line: row.line,
+                staff_id: row.charge.staffId,
+                billing_period_id: row.charge.billingPeriodId,
+                type: row.charge.type,
+                amount: row.charge.amount,
+                description: row.charge.description,
+                start_date: row.charge.startDate
+                  ? toDateKey(row.charge.startDate)
+                  : undefined,
+                notes: row.charge.notes,
+              },
+            ]
+          : []
+      );
+      if (rows.length === 0) throw new Error("There are no valid rows to import");
+
+      const { data, error } = await supabase.rpc("import_charges", {
+        p_file_name: preview.fileName,
+        p_rows: rows,
+      });
+
+      if (error) throw error;
+      const created = chargeImportFromRow(data);
+
+      await logAudit({
+        action: AuditAction.CREATE,
+        tableName: "charge_imports",
+        recordId: created.id,
+        newValues: {
+          file_name: created.fileName,
+          row_count: created.rowCount,
+          total_amount: created.totalAmount,
+          skipped_rows: blocked.map((row) => row.line),
+        },
+      });
+
+      await mutate();
+      return created;
+    },
+    [supabase, mutate, checkPermission, logAudit]
+  );
+
+  return {
+    imports: imports || [],
+    isLoading,
+    error,
+    previewImport,
+    commitImport,
+    refresh: mutate,
+  };
+}
+
+function chargeApprovalRuleFromRow(row: any): ChargeApprovalRule {
+  return {
+    id: row.id,
+    name: row.name,
+    chargeType: row.charge_type ?? undefined,
+    amountThreshold:
+      row.amount_threshold == null ? undefined : Number(row.amount_threshold),
+    isActive: row.is_active,
+    notes: row.notes ?? undefined,
+    createdBy: row.created_by ?? undefined,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+  };
+}
+
+function chargeApprovalStateFromRow(row: any): ChargeApprovalState {
+  return {
+    status: row.status as ChargeStatus,
+    approvalStep: row.approval_step ?? 0,
+    firstApprovedBy: row.first_approved_by ?? undefined,
+    approvedBy: row.approved_by ?? undefined,
+    approvedAt: row.approved_at ? new Date(row.approved_at) : undefined,
+  };
+}
+
+async function fetchChargeApprovalRules(supabase: SupabaseClient) {
+  const { data, error } = await supabase
+    .from("charge_approval_rules")
+    .select("*")
+    .order("name", { ascending: true });
+
+  if (error) throw error;
+  return (data || []).map(chargeApprovalRuleFromRow);
+}
+
+// Charge Approvals Hook
+// Every charge is approved before it is exported; charges matched by an
+// approval rule need a second, different approver. Pass a billing period to
+// limit the queue to it.
+export function useChargeApprovals(billingPeriodId?: string) {
+  const supabase = createClient();
+  const { user, checkPermission, logAudit } = useAuth();
+
+  const rulesFetcher = useCallback(
+    async () => fetchChargeApprovalRules(supabase),
+    []
+  );
+
+  const queueFetcher = useCallback(async () => {
+    const rules = await fetchChargeApprovalRules(supabase);
+    let query = supabase
+      .from("charges")
+      .select(
+        `
+        *,
+        staff:staff(first_name, last_name, employee_id),
+        billing_period:billing_periods(start_date, end_date)
+      `
+      )
+      .eq("status", ChargeStatus.PENDING)
+      .order("created_at", { ascending: true });
+
+    if (billingPeriodId) {
+      query = query.eq("billing_period_id", billingPeriodId);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return (data || []).map((row: any): PendingChargeApproval => {
+      const amount = effectiveAmount(
+        Number(row.amount),
+        row.proration_factor ?? 1
+      );
+      return {
+        chargeId: row.id,
+        staffId: row.staff_id,
+        staffName: row.staff
+          ? `${row.staff.first_name} ${row.staff.last_name}`
+          : row.staff_id,
+        employeeId: row.staff?.employee_id ?? undefined,
+        billingPeriodId: row.billing_period_id,
+        periodStart: toUtcDay(row.billing_period?.start_date ?? row.created_at),
+        periodEnd: toUtcDay(row.billing_period?.end_date ?? row.created_at),
+        type: row.type as ChargeType,
+        description: row.description,
+        amount,
+        approvalStep: row.approval_step ?? 0,
+        firstApprovedBy: row.first_approved_by ?? undefined,
+        requirement: approvalRequirement({ type: row.type, amount }, rules),
+        createdAt: new Date(row.created_at),
+      };
+    });
+  }, [billingPeriodId]);
+
+  const {
+    data: rules,
+    error: rulesError,
+    mutate: mutateRules,
+    isLoading: rulesLoading,
+  } = useSWR("charge_approval_rules", rulesFetcher);
+
+  const {
+    data: queue,
+    error: queueError,
+    mutate: mutateQueue,
+    isLoading: queueLoading,
+  } = useSWR(["charge_approval_queue", billingPeriodId], queueFetcher);
+
+  const refresh = useCallback(async () => {
+    await Promise.all([mutateRules(), mutateQueue()]);
+  }, [mutateRules, mutateQueue]);
+
+  // Decide each charge on its own: one that fails (already decided, changed
+  // meanwhile, or needing someone else's approval) does not stop the rest
+  const decideCharges = useCallback(
+    async (
+      chargeIds: string[],
+      decision: ChargeApprovalDecision,
+      comment?: string
+    ): Promise<ChargeApprovalResult> => {
+      if (!user) throw new Error("You must be signed in to approve charges");
+      if (!checkPermission(PERMISSIONS.BILLING_APPROVE)) {
+        throw new Error("You do not have permission to approve charges");
+      }
+      if (decision === ChargeApprovalDecision.REJECT && !comment?.trim()) {
+        throw new Error("A reason is required to reject charges");
+      }
+
+      const currentRules = await fetchChargeApprovalRules(supabase);
+      const { data: rows, error } = await supabase
+        .from("charges")
+        .select("*")
+        .in("id", chargeIds);
+
+      if (error) throw error;
+      const chargesById = new Map((rows || []).map((row) => [row.id, row]));
+      const result: ChargeApprovalResult = { decided: [], failed: [] };
+
+      for (const chargeId of chargeIds) {
+        const row = chargesById.get(chargeId);
+        if (!row) {
+          result.failed.push({ chargeId, reason: "Charge not found" });
+          continue;
+        }
+
+        try {
+          const amount = effectiveAmount(
+            Number(row.amount),
+            row.proration_factor ?? 1
+          );
+          const current = chargeApprovalStateFromRow(row);
+          const next = applyApprovalDecision(
+            current,
+            approvalRequirement({ type: row.type, amount }, currentRules),
+            decision,
+            user.id
+          );
+
+          const { data: updated, error: updateError } = await supabase
+            .from("charges")
+            .update({
+              status: next.status,
+              approval_step: next.approvalStep,
+              first_approved_by: next.firstApprovedBy ?? null,
+              approved_by: next.approvedBy ?? null,
+              approved_at: next.approvedAt?.toISOString() ?? null,
+              updated_at: new Date().toISOString(),
+            })
+            .eq("id", chargeId)
+            // Fails if someone else decided the charge in the meantime
+            .eq("status", current.status)
+            .eq("approval_step", current.approvalStep)
+            .select("id");
+
+          if (updateError) throw updateError;
+          if (!updated || updated.length === 0) {
+            throw new Error("The charge changed since it was loaded; refresh and try again");
+          }
+
+          const { error: decisionError } = await supabase
+            .from("charge_approvals")
+            .insert([
+              {
+                charge_id: chargeId,
+                step: current.approvalStep + 1,
+                decision,
+                amount,
+                comment: comment?.trim() || null,
+                decided_by: user.id,
+              },
+            ]);
+
+          if (decisionError) throw decisionError;
+
+          await logAudit({
+            action: AuditAction.UPDATE,
+            tableName: "charges",
+            recordId: chargeId,
+            oldValues: {
+              status: current.status,
+              approval_step: current.approvalStep,
+            },
+            newValues: {
+              status: next.status,
+              approval_step: next.approvalStep,
+              decision,
+              comment: comment?.trim() || undefined,
+            },
+          });
+
+          result.decided.push(chargeId);
+        } catch (err) {
+          result.failed.push({
+            chargeId,
+            reason: err instanceof Error ? err.message : "Decision failed",
+          });
+        }
+      }
+
+      await mutateQueue();
+      return result;
+    },
+    [supabase, user, mutateQueue, checkPermission, logAudit]
+  );
+
+  const createRule = useCallback(
+    async (rule: CreateChargeApprovalRule) => {
+      if (!checkPermission(PERMISSIONS.BILLING_UPDATE)) {
+        throw new Error("You do not have permission to change approval rules");
+      }
+
+      const { data, error } = await supabase
+        .from("charge_approval_rules")
+        .insert([
+          {
+            name: rule.name,
+            charge_type: rule.chargeType ?? null,
+            amount_threshold: rule.amountThreshold ?? null,
+            is_active: rule.isActive,
+            notes: rule.notes ?? null,
+            created_by: user?.id ?? null,
+          },
+        ])
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      await logAudit({
+        action: AuditAction.CREATE,
+        tableName: "charge_approval_rules",
+        recordId: data.id,
+        newValues: data,
+      });
+
+      await refresh();
+      return chargeApprovalRuleFromRow(data);
+    },
+    [supabase, user, refresh, checkPermission, logAudit]
+  );
+
+  // A null type or threshold removes that criterion
+  const updateRule = useCallback(
+    async (
+      id: string,
+      updates: Omit<UpdateChargeApprovalRule, "chargeType" | "amountThreshold"> & {
+        chargeType?: ChargeType | null;
+        amountThreshold?: number | null;
+      }
+    ) => {
+      if (!checkPermission(PERMISSIONS.BILLING_UPDATE)) {
+        throw new Error("You do not have permission to change approval rules");
+      }
+
+      const { data, error } = await supabase
+        .from("charge_approval_rules")
+        .update({
+          ...(updates.name !== undefined && { name: updates.name }),
+          ...(updates.chargeType !== undefined && {
+            charge_type: updates.chargeType,
+          }),
+          ...(updates.amountThreshold !== undefined && {
+            amount_threshold: updates.amountThreshold,
+          }),
+          ...(updates.isActive !== undefined && {
+            is_active: updates.isActive,
+          }),
+          ...(updates.notes !== undefined && { notes: updates.notes }),
+        })
+        .eq("id", id)
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      await logAudit({
+        action: AuditAction.UPDATE,
+        tableName: "charge_approval_rules",
+        recordId: id,
+        newValues: updates,
+      });
+
+      await refresh();
+      return chargeApprovalRuleFromRow(data);
+    },
+    [supabase, refresh, checkPermission, logAudit]
+  );
+
+  const deleteRule = useCallback(
+    async (id: string) => {
+      if (!checkPermission(PERMISSIONS.BILLING_DELETE)) {
+        throw new Error("You do not have permission to change approval rules");
+      }
+
+      const { error } = await supabase
+        .from("charge_approval_rules")
+        .delete()
+        .eq("id", id);
+
+      if (error) throw error;
+
+      await logAudit({
+        action: AuditAction.DELETE,
+        tableName: "charge_approval_rules",
+        recordId: id,
+      });
+
+      await refresh();
+    },
+    [supabase, refresh, checkPermission, logAudit]
+  );
+
+  return {
+    rules: rules || [],
+    queue: queue || [],
+    isLoading: rulesLoading || queueLoading,
+    error: rulesError || queueError,
+    decideCharges,
+    createRule,
+    updateRule,
+    deleteRule,
+    refresh,
+  };
+}
+
+// Payroll Export Hook
+export function usePayrollExport(billingPeriodId?: string) {
+  const supabase = createClient();
+  const { user, checkPermission } = useAuth();
+
+  const fetcher = useCallback(async () => {
+    if (!billingPeriodId) return [];
+
+    const { data, error } = await supabase
+      .from("payroll_exports")
+      .select(
+        `
+        *,
+        billing_period:billing_periods(*)
+      `
+      )
+      .eq("billing_period_id", billingPeriodId)
+      .order("created_at", { ascending: false });
+
+    if (error) throw error;
+    return (data || []).map(payrollExportFromRow);
+  }, [billingPeriodId]);
+
+  const {
+    data: exports,
+    error,
+    mutate,
+    isLoading,
+  } = useSWR(
+    billingPeriodId ? ["payroll_exports", billingPeriodId] : null,
+    fetcher
+  );
+
+  // What the next export would contain, rendered byte for byte
+  const previewExport = useCallback(
+    async (
+      billingPeriodId: string,
+      options: PayrollExportOptions = {}
+    ): Promise<{
+      exportType: PayrollExportType;
+      rows: PayrollExportData[];
+      file: PayrollFile;
+      capOutcomes: DeductionCapOutcome[];
+      wageDecisions: MinimumWageDecision[];
+      staff: Map<string, StaffPayrollInfo>;
+      imputedItems: ImputedIncomeItem[];
+      heldCharges: number;
+      unapprovedCharges: number;
+    }> => {
+      const {
+        exportType,
+        rows,
+        file,
+        capOutcomes,
+        wageDecisions,
+        staff,
+        imputedItems,
+        heldCharges,
+        unapprovedCharges,
+      } = await buildPayrollExport(supabase, billingPeriodId, options);
+      return {
+        exportType,
+        rows,
+        file,
+        capOutcomes,
+        wageDecisions,
+        staff,
+        imputedItems,
+        heldCharges,
+        unapprovedCharges,
+      };
+    },
+    [supabase]
+  );
+
+  // Export a completed period, sending only what payroll has not yet seen
+  // when the period (or its corrections sub-periods) was exported before
+  const runExport = useCallback(
+    async (billingPeriodId: string, options: PayrollExportOptions = {}) => {
+      if (!user) throw new Error("You must be signed in to export payroll");
+      if (!checkPermission(PERMISSIONS.BILLING_EXPORT)) {
+        throw new Error("You do not have permission to export payroll");
+      }
+
+      const {
+        period,
+        exportType,
+        supersedes,
+        lines,
+        imputedLines,
+        rows,
+        mapping,
+        file,
+        capOutcomes,
+        minimumWageMode,
+        wageDecisions,
+        billingPeriod,
+      } = await buildPayrollExport(supabase, billingPeriodId, options);
+
+      // One ledger entry per staff member and charge type the caps moved
+      const balanceEntries = capOutcomes.flatMap((outcome) =>
+        Object.entries(balanceChange(outcome))
+          .filter(([, amount]) => amount !== 0)
+          .map(([chargeType, amount]) => ({
+            staff_id: outcome.staffId,
+            charge_type: chargeType,
+            amount,
+            billing_period_id: billingPeriodId,
+          }))
+      );
+
+      if (
+        lines.length === 0 &&
+        balanceEntries.length === 0 &&
+        imputedLines.length === 0
+      ) {
+        throw new Error("No charges were added or changed since the last export");
+      }
+
+      const totalAmount = lines.reduce((sum, line) => sum + line.amount, 0);
+
+      // The export and everything it posts are written together: balance
+      // rows left behind by a failed export would be carried forward later
+      const { data: exportRow, error: exportError } = await supabase.rpc(
+        "record_payroll_export",
+        {
+          p_export: {
+            billing_period_id: billingPeriodId,
+            export_type: exportType,
+            format: getFormatAdapter(file.format).fileType,
+            file_name: file.fileName,
+            file_size: file.bytes.length,
+            total_records: rows.length,
+            total_amount: Math.round(totalAmount * 100) / 100,
+            status: PayrollExportStatus.COMPLETED,
+            exported_by: user.id,
+            supersedes_export_id: supersedes?.id ?? null,
+            export_parameters: {
+              adapter: file.format,
+              company_code: mapping?.companyCode ?? null,
+              mapping_id: mapping?.id ?? null,
+              deduction_caps: capOutcomes
+                .filter(
+                  (outcome) =>
+                    outcome.limitedBy.length > 0 || outcome.warnings.length > 0
+                )
+                .map((outcome) => ({
+                  staff_id: outcome.staffId,
+                  limited_by: outcome.limitedBy,
+                  warnings: outcome.warnings,
+                })),
+              // Every staff member's wage check, including those that passed
+              minimum_wage: {
+                mode: minimumWageMode,
+                decisions: wageDecisions.map((decision) => ({
+                  staff_id: decision.staffId,
+                  action: decision.action,
+                  jurisdiction: decision.jurisdiction ?? null,
+                  minimum_wage: decision.minimumWage ?? null,
+                  hours_worked: decision.hoursWorked ?? null,
+                  gross_pay: decision.grossPay ?? null,
+                  max_deduction: decision.maxDeduction ?? null,
+                  requested: decision.requested,
+                  deducted: decision.deducted,
+                })),
+              },
+            },
+          },
+          p_lines: lines.map((line) => ({
+            charge_id: line.chargeId,
+            staff_id: line.staffId,
+            charge_type: line.chargeType,
+            line_type: line.lineType,
+            amount: line.amount,
+          })),
+          // Imputed income is recorded against the main period, so a year's
+          // total does not depend on which correction reported it
+          p_imputed_lines: imputedLines.map((line) => ({
+            billing_period_id: period.parent_period_id ?? period.id,
+            staff_id: line.staffId,
+            line_type: line.lineType,
+            amount: line.amount,
+            market_value: line.marketValue,
+            rent_charged: line.rentCharged,
+          })),
+          p_balances: balanceEntries,
+          // The staff ledger records what was charged and what each paycheck took
+          p_ledger_entries: exportLedgerRows({
+            billingPeriodId,
+            entryDate: toUtcDay(period.end_date),
+            periodLabel: billingPeriod,
+            lines,
+            outcomes: capOutcomes,
+            createdBy: user.id,
+          }),
+        }
+      );
+
+      if (exportError) throw exportError;
+
+      // Incremental exports of an exported period leave it where it is
+      const exportedPeriod =
+        period.status === BillingStatus.EXPORTED
+          ? period
+          : (
+              await applyPeriodTransition(
+                supabase,
+                billingPeriodId,
+                BillingStatus.EXPORTED,
+                checkPermission
+              )
+            ).data;
+
+      await mutate();
+      return {
+        payrollExport: exportRow as PayrollExport,
+        period: exportedPeriod as BillingPeriod,
+        fileName: file.fileName,
+        mimeType: file.mimeType,
+        bytes: file.bytes,
+      };
+    },
+    [supabase, mutate, user, checkPermission]
+  );
+
+  const exportToCSV = useCallback(
+    async (billingPeriodId: string): Promise<string> => {
+      const { bytes } = await runExport(billingPeriodId);
+      return new TextDecoder().decode(bytes);
+    },
+    [runExport]
+  );
+
+  // Push an export to ADP through the server, which holds the credentials
+  const deliverToADP = useCallback(
+    async (
+      exportId: string,
+      options: { retryFailedOnly?: boolean } = {}
+    ): Promise<PayrollDeliverySummary> => {
+      if (!checkPermission(PERMISSIONS.BILLING_EXPORT)) {
+        throw new Error("You do not have permission to export payroll");
+      }
+
+      const response = await fetch(`/api/payroll-exports/${exportId}/adp`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(options),
+      });
+      const body = await response.json();
+
+      // Row results are saved even when some rows fail, so refresh either way
+      await mutate();
+      if (!response.ok) {
+        throw new Error(body.error || "Failed to send the export to ADP");
+      }
+      return body as PayrollDeliverySummary;
+    },
+    [mutate, checkPermission]
+  );
+
+  const retryFailedRows = useCallback(
+    (exportId: string) => deliverToADP(exportId, { retryFailedOnly: true }),
+    [deliverToADP]
+  );
+  return {
+    exports,
+    isLoading,
+    error,
+    previewExport,
+    runExport,
+    exportToCSV,
+    deliverToADP,
+    retryFailedRows,
+    refresh: mutate,
+  };
+}
+
+function costAllocationFromRow(row: any): CostAllocation {
+  return {
+    id: row.id,
+    billingPeriodId: row.billing_period_id,
+    basis: row.basis as CostAllocationBasis,
+    target: row.target as CostAllocationTarget,
+    status: row.status as CostAllocationStatus,
+    totalCost: Number(row.total_cost),
+    totalRecovered: Number(row.total_recovered),
+    totalAllocated: Number(row.total_allocated),
+    entryCount: row.entry_count,
+    createdBy: row.created_by ?? undefined,
+    createdAt: new Date(row.created_at),
+    supersededAt: row.superseded_at ? new Date(row.superseded_at) : undefined,
+  };
+}
+
+/**
+ * Everything housing and transport cost the company in a period, source by
+ * source, with what staff were charged for it and who used it. Property costs
+ * are prorated to the period; utility bills count in the period their service
+ * ends in and trips in the period they ran, as they do for charges. Charges
+ * from the period's corrections sub-periods count as recoveries too.
+ */
+async function buildCostPools(
+  supabase: SupabaseClient,
+  period: any
+): Promise<CostPool[]> {
+  const periodStart = toUtcDay(period.start_date);
+  const periodEnd = toUtcDay(period.end_date);
+
+  const { data: family, error: familyError } = await supabase
+    .from("billing_periods")
+    .select("id")
+    .or(`id.eq.${period.id},parent_period_id.eq.${period.id}`);
+
+  if (familyError) throw familyError;
+  const familyIds = (family || []).map((p) => p.id);
+
+  const [
+    { data: properties, error: propertiesError },
+    { data: costRows, error: costsError },
+    { data: billRows, error: billsError },
+    { data: assignments, error: assignmentsError },
+    { data: trips, error: tripsError },
+    { data: chargeRows, error: chargesError },
+  ] = await Promise.all([
+    supabase.from("properties").select("id, name"),
+    supabase
+      .from("property_costs")
+      .select("*")
+      .lte("effective_from", period.end_date)
+      .or(`effective_to.is.null,effective_to.gte.${period.start_date}`),
+    supabase
+      .from("utility_bills")
+      .select("*")
+      .gte("service_end", period.start_date)
+      .lte("service_end", period.end_date),
+    supabase
+      .from("room_assignments")
+      .select(
+        `
+          id, staff_id, start_date, end_date,
+          room:rooms!inner(property_id),
+          staff:staff(department)
+        `
+      )
+      .in("status", ["active", "completed"])
+      .lte("start_date", period.end_date)
+      .or(`end_date.is.null,end_date.gt.${period.start_date}`),
+    supabase
+      .from("trips")
+      .select(
+        `
+          id, route, date, cost, distance,
+          passengers:trip_passengers(
+            staff_id, status, distance,
+            staff:staff(department)
+          )
+        `
+      )
+      .eq("status", "completed")
+      .gte("date", period.start_date)
+      .lte("date", period.end_date),
+    supabase
+      .from("charges")
+      .select("id, type, amount, proration_factor, status, source_id")
+      .in("billing_period_id", familyIds)
+      .in("type", [ChargeType.RENT, ChargeType.UTILITIES, ChargeType.TRANSPORT])
+      .not("source_id", "is", null),
+  ]);
+
+  if (propertiesError) throw propertiesError;
+  if (costsError) throw costsError;
+  if (billsError) throw billsError;
+  if (assignmentsError) throw assignmentsError;
+  if (tripsError) throw tripsError;
+  if (chargesError) throw chargesError;
+
+  const chargeIds = (chargeRows || []).map((c) => c.id);
+  const [{ data: adjustmentRows, error: adjustmentsError }, { data: creditRows, error: creditsError }] =
+    await Promise.all([
+      supabase
+        .from("charge_adjustments")
+        .select("charge_id, type, amount")
+        .in("billing_period_id", familyIds),
+      supabase
+        .from("billing_disputes")
+        .select("charge_id, status, credit_amount")
+        .in("charge_id", chargeIds)
+        .eq("status", DisputeStatus.RESOLVED),
+    ]);
+
+  if (adjustmentsError) throw adjustmentsError;
+  if (creditsError) throw creditsError;
+  const adjustments = adjustmentsByCharge(
+    (adjustmentRows || []).map((row) => ({
+      chargeId: row.charge_id,
+      type: row.type as ChargeAdjustmentType,
+      amount: Number(row.amount),
+    }))
+  );
+  const credits = creditsByCharge(
+    (creditRows || []).map((row) => ({
+      chargeId: row.charge_id,
+      status: row.status as DisputeStatus,
+      creditAmount: Number(row.credit_amount),
+    }))
+  );
+
+  const propertyNames = new Map<string, string>(
+    (properties || []).map((p: any) => [p.id, p.name])
+  );
+  const pools = new Map<string, CostPool>();
+  const poolFor = (
+    sourceType: CostSourceType,
+    sourceId: string,
+    category: TransactionCategory,
+    sourceName: string
+  ) => {
+    const key = `${sourceType}:${sourceId}:${category}`;
+    const pool = pools.get(key) ?? {
+      sourceType,
+      sourceId,
+      sourceName,
+      category,
+      cost: 0,
+      recovered: 0,
+      usage: [],
+    };
+    pools.set(key, pool);
+    return pool;
+  };
+
+  // Bed-nights each resident spent in each property during the period
+  const usageByProperty = new Map<string, CostUsage[]>();
+  const propertyOfAssignment = new Map<string, string>();
+  (assignments || []).forEach((assignment: any) => {
+    const propertyId = assignment.room.property_id;
+    propertyOfAssignment.set(assignment.id, propertyId);
+
+    const from = maxDate(toUtcDay(assignment.start_date), periodStart);
+    const until = assignment.end_date
+      ? minDate(toUtcDay(assignment.end_date), addUtcDays(periodEnd, 1))
+      : addUtcDays(periodEnd, 1);
+    const nights = daysBetween(from, until);
+    if (nights <= 0) return;
+
+    const usage = usageByProperty.get(propertyId) ?? [];
+    usage.push({
+      staffId: assignment.staff_id,
+      department: assignment.staff?.department ?? undefined,
+      units: nights,
+    });
+    usageByProperty.set(propertyId, usage);
+  });
+
+  const propertyPool = (propertyId: string, category: TransactionCategory) => {
+    const pool = poolFor(
+      CostSourceType.PROPERTY,
+      propertyId,
+      category,
+      propertyNames.get(propertyId) ?? "Unknown property"
+    );
+    pool.usage = usageByProperty.get(propertyId) ?? [];
+    return pool;
+  };
+
+  (costRows || []).map(propertyCostFromRow).forEach((cost) => {
+    const pool = propertyPool(
+      cost.propertyId,
+      PROPERTY_COST_TRANSACTION_CATEGORIES[cost.category]
+    );
+    pool.cost += propertyCostForPeriod(cost, periodStart, periodEnd);
+  });
+
+  const billProperty = new Map<string, string>();
+  (billRows || []).map(utilityBillFromRow).forEach((bill) => {
+    billProperty.set(bill.id, bill.propertyId);
+    propertyPool(bill.propertyId, TransactionCategory.UTILITIES).cost +=
+      bill.amount;
+  });
+
+  (trips || []).forEach((trip: any) => {
+    const pool = poolFor(
+      CostSourceType.TRIP,
+      trip.id,
+      TransactionCategory.TRAVEL,
+      `${trip.route} on ${toDateKey(toUtcDay(trip.date))}`
+    );
+    pool.cost += trip.cost ? Number(trip.cost) : 0;
+    // Passengers who rode; distance when the trip records it, else one ride
+    pool.usage = (trip.passengers || [])
+      .filter((passenger: any) =>
+        [PassengerStatus.CONFIRMED, PassengerStatus.COMPLETED].includes(
+          (passenger.status ?? PassengerStatus.CONFIRMED) as PassengerStatus
+        )
+      )
+      .map((passenger: any) => ({
+        staffId: passenger.staff_id,
+        department: passenger.staff?.department ?? undefined,
+        units: Number(passenger.distance ?? trip.distance ?? 1) || 1,
+      }));
+  });
+
+  // Charges name their source: the assignment for rent, the bill for
+  // utilities and the trip for transport
+  (chargeRows || []).forEach((c: any) => {
+    if (isChargeUnbilled(c.status)) return;
+    const amount = creditedAmount(
+      netChargeAmount(
+        effectiveAmount(Number(c.amount), c.proration_factor ?? 1),
+        adjustments.get(c.id)
+      ),
+      credits.get(c.id)
+    );
+
+    if (c.type === ChargeType.RENT) {
+      const propertyId = propertyOfAssignment.get(c.source_id);
+      if (propertyId) propertyPool(propertyId, TransactionCategory.RENT).recovered += amount;
+    } else if (c.type === ChargeType.UTILITIES) {
+      const propertyId = billProperty.get(c.source_id);
+      if (propertyId)
+        propertyPool(propertyId, TransactionCategory.UTILITIES).recovered += amount;
+    } else {
+      const pool = pools.get(
+        `${CostSourceType.TRIP}:${c.source_id}:${TransactionCategory.TRAVEL}`
+      );
+      if (pool) pool.recovered += amount;
+    }
+  });
+
+  return Array.from(pools.values()).map((pool) => ({
+    ...pool,
+    cost: Math.round(pool.cost * 100) / 100,
+    recovered: Math.round(pool.recovered * 100) / 100,
+  }));
+}
+
+// Cost Allocations Hook
+// The part of a period's housing and transport costs staff charges did not
+// recover, split across departments or cost centres and posted to finance
+// as expense transactions.
+export function useCostAllocations(billingPeriodId?: string) {
+  const supabase = createClient();
+  const { checkPermission, logAudit } = useAuth();
+
+  const fetcher = useCallback(async () => {
+    let query = supabase
+      .from("cost_allocations")
+      .select("*")
+      .order("created_at", { ascending: false });
+
+    if (billingPeriodId) {
+      query = query.eq("billing_period_id", billingPeriodId);
+    }
+
+    const { data, error } = await query.limit(20);
+    if (error) throw error;
+    return (data || []).map(costAllocationFromRow);
+  }, [billingPeriodId]);
+
+  const {
+    data: allocations,
+    error,
+    mutate,
+    isLoading,
+  } = useSWR(["cost_allocations", billingPeriodId], fetcher);
+
+  const previewAllocation = useCallback(
+    async (
+      periodId: string,
+      basis: CostAllocationBasis,
+      target: CostAllocationTarget
+    ): Promise<CostAllocationPreview> => {
+      const period = await fetchBillingPeriod(supabase, periodId);
+      if (period.parent_period_id) {
+        throw new Error(
+          "Allocate the main billing period; its corrections are included"
+        );
+      }
+
+      const { data: departments, error: departmentsError } = await supabase
+        .from("departments")
+        .select("id, name, cost_center");
+
+      if (departmentsError) throw departmentsError;
+
+      const pools = await buildCostPools(supabase, period);
+      return buildCostAllocationPreview(pools, {
+        billingPeriodId: period.id,
+        basis,
+        target,
+        departments: (departments || []).map((department: any) => ({
+          id: department.id,
+          name: department.name,
+          costCenter: department.cost_center ?? undefined,
+        })),
+        periodLabel: `${period.start_date} to ${period.end_date}`,
+      });
+    },
+    [supabase]
+  );
+
+  // Posting again for a period replaces the earlier allocation: its
+  // transactions are reversed in the same database transaction
+  const postAllocation = useCallback(
+    async (preview: CostAllocationPreview) => {
+      if (!checkPermission(PERMISSIONS.BILLING_EXPORT)) {
+        throw new Error("You do not have permission to post cost allocations");
+      }
+
+      const period = await fetchBillingPeriod(supabase, preview.billingPeriodId);
+      if (
+        period.status !== BillingStatus.COMPLETED &&
+        period.status !== BillingStatus.EXPORTED
+      ) {
+        throw new Error(
+          "Costs can only be allocated once the billing period is completed"
+        );
+      }
+      if (preview.entries.length === 0) {
+        throw new Error("There is nothing to allocate for this period");
+      }
+
+      const { data, error } = await supabase.rpc("post_cost_allocation", {
+        p_billing_period_id: preview.billingPeriodId,
+        p_basis: preview.basis,
+        p_target: preview.target,
+        p_lines: preview.lines,
+        p_entries: preview.entries.map((entry) => ({
+          allocation_key: entry.key,
+          department_id: entry.departmentId ?? null,
+          cost_center: entry.costCenter ?? null,
+          category: entry.category,
+          amount: entry.amount,
+          description: entry.description,
+        })),
+      });
+
+      if (error) throw error;
+      const created = costAllocationFromRow(data);
+
+      await logAudit({
+        action: AuditAction.CREATE,
+        tableName: "cost_allocations",
+        recordId: created.id,
+        newValues: {
+          billing_period_id: created.billingPeriodId,
+          basis: created.basis,
+          target: created.target,
+          total_allocated: created.totalAllocated,
+          entry_count: created.entryCount,
+        },
+      });
+
+      await mutate();
+      return created;
+    },
+    [supabase, mutate, checkPermission, logAudit]
+  );
+
+  return {
+    allocations: allocations || [],
+    isLoading,
+    error,
+    previewAllocation,
+    postAllocation,
+    refresh: mutate,
+  };
+}
+
+// Payroll Format Mappings Hook
+export function usePayrollFormatMappings(format?: PayrollFormat) {
+  const supabase = createClient();
+  const { checkPermission } = useAuth();
+
+  const fetcher = useCallback(async () => {
+    let query = supabase
+      .from("payroll_format_mappings")
+      .select("*")
+      .order("company_code", { ascending: true });
+
+    if (format) {
+      query = query.eq("format", format);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return (data || []).map(payrollFormatMappingFromRow);
+  }, [format]);
+
+  const {
+    data: mappings,
+    error,
+    mutate,
+    isLoading,
+  } = useSWR(["payroll_format_mappings", format], fetcher);
+
+  // One mapping per company and format; saving again replaces it
+  const saveMapping = useCallback(
+    async (mapping: CreatePayrollFormatMapping) => {
+      if (!checkPermission(PERMISSIONS.BILLING_EXPORT)) {
+        throw new Error("You do not have permission to change payroll formats");
+      }
+      if (!getFormatAdapter(mapping.format).configurable) {
+        throw new Error("This payroll format cannot be remapped");
+      }
+
+      const { data, error } = await supabase
+        .from("payroll_format_mappings")
+        .upsert(
+          [
+            {
+              company_code: mapping.companyCode,
+              format: mapping.format,
+              columns: mapping.columns,
+              deduction_codes: mapping.deductionCodes,
+              imputed_income_code: mapping.imputedIncomeCode || null,
+              batch_id: mapping.batchId ?? null,
+            },
+          ],
+          { onConflict: "company_code,format" }
+        )
+        .select()
+        .single();
 
-// Billing Periods Hook
-export function useBillingPeriods(filters?: BillingFilters) {
+      if (error) throw error;
+      await mutate();
+      return payrollFormatMappingFromRow(data);
+    },
+    [supabase, mutate, checkPermission]
+  );
+
+  const deleteMapping = useCallback(
+    async (id: string) => {
+      if (!checkPermission(PERMISSIONS.BILLING_EXPORT)) {
+        throw new Error("You do not have permission to change payroll formats");
+      }
+
+      const { error } = await supabase
+        .from("payroll_format_mappings")
+        .delete()
+        .eq("id", id);
+
+      if (error) throw error;
+      await mutate();
+    },
+    [supabase, mutate, checkPermission]
+  );
+
+  return {
+    mappings: mappings || [],
+    isLoading,
+    error,
+    saveMapping,
+    deleteMapping,
+    refresh: mutate,
+  };
+}
+
+// Deduction Caps Hook
+export function useDeductionCaps(staffId?: string) {
   const supabase = createClient();
+  const { checkPermission, logAudit } = useAuth();
 
   const fetcher = useCallback(async () => {
     let query = supabase
-      .from("billing_periods")
+      .from("deduction_caps")
       .select("*")
-      .order("start_date", { ascending: false });
-
-    if (filters?.status) {
-      query = query.eq("status", filters.status);
-    }
+      .order("effective_from", { ascending: false });
 
-    if (filters?.dateRange) {
-      query = query
-        .gte("start_date", filters.dateRange.start.toISOString())
-        .lte("end_date", filters.dateRange.end.toISOString());
+    // A staff member's view includes the defaults that apply to them
+    if (staffId) {
+      query = query.or(`staff_id.is.null,staff_id.eq.${staffId}`);
     }
 
     const { data, error } = await query;
     if (error) throw error;
-    return data as BillingPeriod[];
-  }, [filters]);
+    return (data || []).map(deductionCapFromRow);
+  }, [staffId]);
 
   const {
-    data: periods,
+    data: caps,
     error,
     mutate,
     isLoading,
-  } = useSWR(["billing_periods", filters], fetcher);
-
-  const createPeriod = useCallback(
-    async (periodData: CreateBillingPeriod) => {
-      // Check for overlapping periods
-      const { data: existingPeriods } = await supabase
-        .from("billing_periods")
-        .select("id")
-        .or(
-          `start_date.lte.${periodData.endDate.toISOString()},end_date.gte.${periodData.startDate.toISOString()}`
-        )
-        .neq("status", "cancelled");
+  } = useSWR(["deduction_caps", staffId], fetcher);
 
-      if (existingPeriods && existingPeriods.length > 0) {
-        throw new Error("Billing period overlaps with existing period");
+  const createCap = useCallback(
+    async (cap: CreateDeductionCap) => {
+      if (!checkPermission(PERMISSIONS.BILLING_UPDATE)) {
+        throw new Error("You do not have permission to change deduction caps");
       }
 
       const { data, error } = await supabase
-        .from("billing_periods")
-        .insert([periodData])
+        .from("deduction_caps")
+        .insert([
+          {
+            staff_id: cap.staffId ?? null,
+            charge_type: cap.chargeType ?? null,
+            cap_type: cap.capType,
+            amount: cap.amount,
+            effective_from: toDateKey(fromLocalDate(cap.effectiveFrom)),
+            effective_to: cap.effectiveTo
+              ? toDateKey(fromLocalDate(cap.effectiveTo))
+              : null,
+            notes: cap.notes ?? null,
+          },
+        ])
         .select()
         .single();
 
       if (error) throw error;
+
+      await logAudit({
+        action: AuditAction.CREATE,
+        tableName: "deduction_caps",
+        recordId: data.id,
+        newValues: data,
+      });
+
       await mutate();
-      return data as BillingPeriod;
+      return deductionCapFromRow(data);
     },
-    [supabase, mutate]
+    [supabase, mutate, checkPermission, logAudit]
   );
 
-  const updatePeriod = useCallback(
-    async (id: string, updates: UpdateBillingPeriod) => {
+  const updateCap = useCallback(
+    async (id: string, updates: UpdateDeductionCap) => {
+      if (!checkPermission(PERMISSIONS.BILLING_UPDATE)) {
+        throw new Error("You do not have permission to change deduction caps");
+      }
+
       const { data, error } = await supabase
-        .from("billing_periods")
-        .update({ ...updates, updated_at: new Date().toISOString() })
+        .from("deduction_caps")
+        .update({
+          ...(updates.capType !== undefined && { cap_type: updates.capType }),
+          ...(updates.amount !== undefined && { amount: updates.amount }),
+          ...(updates.effectiveTo !== undefined && {
+            effective_to: toDateKey(fromLocalDate(updates.effectiveTo)),
+          }),
+          ...(updates.notes !== undefined && { notes: updates.notes }),
+        })
         .eq("id", id)
         .select()
         .single();
 
       if (error) throw error;
+
+      await logAudit({
+        action: AuditAction.UPDATE,
+        tableName: "deduction_caps",
+        recordId: id,
+        newValues: updates,
+      });
+
       await mutate();
-      return data as BillingPeriod;
+      return deductionCapFromRow(data);
     },
-    [supabase, mutate]
+    [supabase, mutate, checkPermission, logAudit]
   );
 
-  const processPeriod = useCallback(
+  const deleteCap = useCallback(
     async (id: string) => {
-      // Generate charges for the billing period
-      const { data: period } = await supabase
-        .from("billing_periods")
-        .select("*")
-        .eq("id", id)
+      if (!checkPermission(PERMISSIONS.BILLING_DELETE)) {
+        throw new Error("You do not have permission to change deduction caps");
+      }
+
+      const { error } = await supabase
+        .from("deduction_caps")
+        .delete()
+        .eq("id", id);
+
+      if (error) throw error;
+
+      await logAudit({
+        action: AuditAction.DELETE,
+        tableName: "deduction_caps",
+        recordId: id,
+      });
+
+      await mutate();
+    },
+    [supabase, mutate, checkPermission, logAudit]
+  );
+
+  return {
+    caps: caps || [],
+    isLoading,
+    error,
+    createCap,
+    updateCap,
+    deleteCap,
+    refresh: mutate,
+  };
+}
+
+// Deduction Balance Hook (for staff self-service)
+export function useDeductionBalance(staffId?: string) {
+  const supabase = createClient();
+
+  const fetcher = useCallback(async () => {
+    if (!staffId) return null;
+
+    const [entriesResult, capsResult, staffResult, periodResult] =
+      await Promise.all([
+        supabase
+          .from("deduction_balances")
+          .select("*")
+          .eq("staff_id", staffId)
+          .order("created_at", { ascending: false }),
+        supabase
+          .from("deduction_caps")
+          .select("*")
+          .or(`staff_id.is.null,staff_id.eq.${staffId}`),
+        supabase
+          .from("staff")
+          .select("expected_gross_pay")
+          .eq("id", staffId)
+          .maybeSingle(),
+        supabase
+          .from("billing_periods")
+          .select("id, start_date, end_date")
+          .is("parent_period_id", null)
+          .order("end_date", { ascending: false })
+          .limit(1)
+          .maybeSingle(),
+      ]);
+
+    if (entriesResult.error) throw entriesResult.error;
+    if (capsResult.error) throw capsResult.error;
+    if (staffResult.error) throw staffResult.error;
+    if (periodResult.error) throw periodResult.error;
+
+    const entries = (entriesResult.data || []).map(deductionBalanceEntryFromRow);
+    const balance = emptyAmounts();
+    entries.forEach((entry) => {
+      balance[entry.chargeType] += entry.amount;
+    });
+    Object.values(ChargeType).forEach((type) => {
+      balance[type] = Math.round(balance[type] * 100) / 100;
+    });
+
+    const grossPay = staffResult.data?.expected_gross_pay;
+    const latestPeriod = periodResult.data;
+
+    // Assume future periods bring the same charges as the latest one
+    const expectedCharges = emptyAmounts();
+    if (latestPeriod) {
+      const { data: chargeRows, error: chargesError } = await supabase
+        .from("charges")
+        .select("type, amount, proration_factor, status, charge_adjustments(type, amount)")
+        .eq("staff_id", staffId)
+        .eq("billing_period_id", latestPeriod.id);
+
+      if (chargesError) throw chargesError;
+      (chargeRows || [])
+        .filter((c) => c.status !== "cancelled")
+        .forEach((c) => {
+          expectedCharges[c.type as ChargeType] += netChargeAmount(
+            effectiveAmount(Number(c.amount), c.proration_factor ?? 1),
+            c.charge_adjustments
+          );
+        });
+    }
+
+    const schedule = latestPeriod
+      ? buildPayoffSchedule({
+          balance,
+          expectedCharges,
+          caps: resolveCaps(
+            (capsResult.data || []).map(deductionCapFromRow),
+            staffId,
+            toUtcDay(new Date())
+          ),
+          grossPay:
+            grossPay === null || grossPay === undefined
+              ? undefined
+              : Number(grossPay),
+          lastPeriod: {
+            startDate: toUtcDay(latestPeriod.start_date),
+            endDate: toUtcDay(latestPeriod.end_date),
+          },
+        })
+      : [];
+
+    return {
+      balance,
+      total: sumAmounts(balance),
+      entries,
+      schedule,
+    };
+  }, [staffId]);
+
+  const { data, error, mutate, isLoading } = useSWR(
+    staffId ? ["deduction_balance", staffId] : null,
+    fetcher
+  );
+
+  return {
+    balance: data?.balance ?? emptyAmounts(),
+    total: data?.total ?? 0,
+    entries: data?.entries ?? [],
+    schedule: data?.schedule ?? [],
+    isLoading,
+    error,
+    refresh: mutate,
+  };
+}
+
+// Minimum Wage Rates Hook
+export function useMinimumWageRates() {
+  const supabase = createClient();
+  const { checkPermission, logAudit } = useAuth();
+
+  const fetcher = useCallback(async () => {
+    const { data, error } = await supabase
+      .from("minimum_wage_rates")
+      .select("*")
+      .order("jurisdiction", { ascending: true })
+      .order("effective_from", { ascending: false });
+
+    if (error) throw error;
+    return (data || []).map(minimumWageRateFromRow);
+  }, []);
+
+  const {
+    data: rates,
+    error,
+    mutate,
+    isLoading,
+  } = useSWR("minimum_wage_rates", fetcher);
+
+  const createRate = useCallback(
+    async (rate: CreateMinimumWageRate) => {
+      if (!checkPermission(PERMISSIONS.BILLING_UPDATE)) {
+        throw new Error("You do not have permission to change minimum wage rates");
+      }
+
+      const { data, error } = await supabase
+        .from("minimum_wage_rates")
+        .insert([
+          {
+            jurisdiction: rate.jurisdiction,
+            hourly_rate: rate.hourlyRate,
+            effective_from: toDateKey(fromLocalDate(rate.effectiveFrom)),
+            effective_to: rate.effectiveTo
+              ? toDateKey(fromLocalDate(rate.effectiveTo))
+              : null,
+            notes: rate.notes ?? null,
+          },
+        ])
+        .select()
         .single();
 
-      if (!period) throw new Error("Billing period not found");
-      if (period.status !== "draft")
-        throw new Error("Only draft periods can be processed");
+      if (error) throw error;
+
+      await logAudit({
+        action: AuditAction.CREATE,
+        tableName: "minimum_wage_rates",
+        recordId: data.id,
+        newValues: data,
+      });
+
+      await mutate();
+      return minimumWageRateFromRow(data);
+    },
+    [supabase, mutate, checkPermission, logAudit]
+  );
+
+  const updateRate = useCallback(
+    async (id: string, updates: UpdateMinimumWageRate) => {
+      if (!checkPermission(PERMISSIONS.BILLING_UPDATE)) {
+        throw new Error("You do not have permission to change minimum wage rates");
+      }
+
+      const { data, error } = await supabase
+        .from("minimum_wage_rates")
+        .update({
+          ...(updates.hourlyRate !== undefined && {
+            hourly_rate: updates.hourlyRate,
+          }),
+          ...(updates.effectiveTo !== undefined && {
+            effective_to: toDateKey(fromLocalDate(updates.effectiveTo)),
+          }),
+          ...(updates.notes !== undefined && { notes: updates.notes }),
+        })
+        .eq("id", id)
+        .select()
+        .single();
 
-      // Update status to processing
-      await updatePeriod(id, { status: BillingStatus.PROCESSING });
+      if (error) throw error;
 
-      // Auto-generate charges would happen here
-      // For now, just mark as completed
-      await updatePeriod(id, { status: BillingStatus.COMPLETED });
+      await logAudit({
+        action: AuditAction.UPDATE,
+        tableName: "minimum_wage_rates",
+        recordId: id,
+        newValues: updates,
+      });
 
-      return period;
+      await mutate();
+      return minimumWageRateFromRow(data);
     },
-    [updatePeriod]
+    [supabase, mutate, checkPermission, logAudit]
   );
 
-  const cancelPeriod = useCallback(
+  const deleteRate = useCallback(
     async (id: string) => {
-      return updatePeriod(id, { status: BillingStatus.CANCELLED });
+      if (!checkPermission(PERMISSIONS.BILLING_DELETE)) {
+        throw new Error("You do not have permission to change minimum wage rates");
+      }
+
+      const { error } = await supabase
+        .from("minimum_wage_rates")
+        .delete()
+        .eq("id", id);
+
+      if (error) throw error;
+
+      await logAudit({
+        action: AuditAction.DELETE,
+        tableName: "minimum_wage_rates",
+        recordId: id,
+      });
+
+      await mutate();
     },
-    [updatePeriod]
+    [supabase, mutate, checkPermission, logAudit]
   );
 
   return {
-    periods,
+    rates: rates || [],
     isLoading,
     error,
-    createPeriod,
-    updatePeriod,
-    processPeriod,
-    cancelPeriod,
+    createRate,
+    updateRate,
+    deleteRate,
     refresh: mutate,
   };
 }
 
-// Charges Hook
-export function useCharges(filters?: BillingFilters) {
+// Payroll Hours Hook
+// Hours are kept against the original period; pass a corrections
+// sub-period and its parent's hours are used.
+export function usePayrollHours(billingPeriodId?: string) {
   const supabase = createClient();
+  const { user, checkPermission } = useAuth();
 
   const fetcher = useCallback(async () => {
-    let query = supabase
-      .from("charges")
+    if (!billingPeriodId) return [];
+
+    const period = await fetchBillingPeriod(supabase, billingPeriodId);
+    const { data, error } = await supabase
+      .from("payroll_hours")
       .select(
         `
         *,
-        staff:staff(*),
-        billing_period:billing_periods(*)
+        staff:staff(employee_id, first_name, last_name)
       `
       )
-      .order("created_at", { ascending: false });
+      .eq("billing_period_id", period.parent_period_id ?? period.id)
+      .order("imported_at", { ascending: false });
 
-    if (filters?.billingPeriodId) {
-      query = query.eq("billing_period_id", filters.billingPeriodId);
-    }
+    if (error) throw error;
+    return (data || []).map((row) => ({
+      ...payrollHoursFromRow(row),
+      staff: {
+        employeeId: row.staff?.employee_id ?? "",
+        firstName: row.staff?.first_name ?? "",
+        lastName: row.staff?.last_name ?? "",
+      },
+    }));
+  }, [billingPeriodId]);
 
-    if (filters?.staffId) {
-      query = query.eq("staff_id", filters.staffId);
-    }
+  const {
+    data: hours,
+    error,
+    mutate,
+    isLoading,
+  } = useSWR(
+    billingPeriodId ? ["payroll_hours", billingPeriodId] : null,
+    fetcher
+  );
 
-    if (filters?.chargeType) {
-      query = query.eq("type", filters.chargeType);
+  // Pull time and attendance through the server, which holds the credentials
+  const importFromADP = useCallback(async (): Promise<{
+    imported: number;
+    failed: { employeeId: string; error: string }[];
+  }> => {
+    if (!billingPeriodId) throw new Error("Choose a billing period first");
+    if (!checkPermission(PERMISSIONS.BILLING_EXPORT)) {
+      throw new Error("You do not have permission to import hours");
     }
 
-    if (filters?.amountRange) {
-      query = query
-        .gte("amount", filters.amountRange.min)
-        .lte("amount", filters.amountRange.max);
+    const response = await fetch(
+      `/api/billing-periods/${billingPeriodId}/adp-hours`,
+      { method: "POST" }
+    );
+    const body = await response.json();
+    if (!response.ok) {
+      throw new Error(body.error || "Failed to import hours from ADP");
     }
 
-    if (filters?.search) {
-      query = query.ilike("description", `%${filters.search}%`);
+    await mutate();
+    return body;
+  }, [billingPeriodId, mutate, checkPermission]);
+
+  // Load a CSV of employee ID, hours worked and gross pay
+  const importFile = useCallback(
+    async (file: File): Promise<{ imported: number; errors: string[] }> => {
+      if (!billingPeriodId) throw new Error("Choose a billing period first");
+      if (!checkPermission(PERMISSIONS.BILLING_EXPORT)) {
+        throw new Error("You do not have permission to import hours");
+      }
+
+      const { rows, errors } = parseHoursFile(await file.text());
+      if (rows.length === 0) return { imported: 0, errors };
+
+      const period = await fetchBillingPeriod(supabase, billingPeriodId);
+      const { data: staffRows, error: staffError } = await supabase
+        .from("staff")
+        .select("id, employee_id")
+        .in(
+          "employee_id",
+          rows.map((row) => row.employeeId)
+        );
+
+      if (staffError) throw staffError;
+      const staffIds = new Map(
+        (staffRows || []).map((row) => [row.employee_id, row.id])
+      );
+
+      const records = rows
+        .filter((row) => {
+          if (staffIds.has(row.employeeId)) return true;
+          errors.push(`No staff member with employee ID ${row.employeeId}`);
+          return false;
+        })
+        .map((row) => ({
+          staff_id: staffIds.get(row.employeeId),
+          billing_period_id: period.parent_period_id ?? period.id,
+          hours_worked: row.hoursWorked,
+          gross_pay: row.grossPay,
+          source: PayrollHoursSource.UPLOAD,
+          imported_by: user?.id ?? null,
+          imported_at: new Date().toISOString(),
+        }));
+
+      if (records.length > 0) {
+        const { error } = await supabase
+          .from("payroll_hours")
+          .upsert(records, { onConflict: "staff_id,billing_period_id" });
+
+        if (error) throw error;
+      }
+
+      await mutate();
+      return { imported: records.length, errors };
+    },
+    [supabase, billingPeriodId, mutate, user, checkPermission]
+  );
+
+  return {
+    hours: hours || [],
+    isLoading,
+    error,
+    importFromADP,
+    importFile,
+    refresh: mutate,
+  };
+}
+
+// Utility Bills Hook
+export function useUtilityBills(propertyId?: string) {
+  const supabase = createClient();
+  const { user, checkPermission, logAudit } = useAuth();
+
+  const fetcher = useCallback(async () => {
+    let query = supabase
+      .from("utility_bills")
+      .select("*")
+      .order("service_end", { ascending: false });
+
+    if (propertyId) {
+      query = query.eq("property_id", propertyId);
     }
 
     const { data, error } = await query;
+
     if (error) throw error;
-    return data as ChargeWithDetails[];
-  }, [filters]);
+    return (data || []).map(utilityBillFromRow);
+  }, [propertyId]);
 
   const {
-    data: charges,
+    data: bills,
     error,
-    mutate,
-    isLoading,
-  } = useSWR(["charges", filters], fetcher);
-
-  const createCharge = useCallback(
-    async (chargeData: CreateCharge) => {
-      // Validate billing period is not exported
-      const { data: period } = await supabase
-        .from("billing_periods")
-        .select("status")
-        .eq("id", chargeData.billingPeriodId)
-        .single();
+    mutate,
+    isLoading,
+  } = useSWR(["utility_bills", propertyId], fetcher);
 
-      if (!period) throw new Error("Billing period not found");
-      if (period.status === "exported")
-        throw new Error("Cannot add charges to exported period");
+  const createBill = useCallback(
+    async (bill: CreateUtilityBill) => {
+      if (!checkPermission(PERMISSIONS.BILLING_CREATE)) {
+        throw new Error("You do not have permission to record utility bills");
+      }
 
       const { data, error } = await supabase
-        .from("charges")
-        .insert([chargeData])
+        .from("utility_bills")
+        .insert([
+          {
+            property_id: bill.propertyId,
+            utility_type: bill.utilityType,
+            provider: bill.provider ?? null,
+            account_number: bill.accountNumber ?? null,
+            service_start: toDateKey(bill.serviceStart),
+            service_end: toDateKey(bill.serviceEnd),
+            amount: bill.amount,
+            allocation_rule: bill.allocationRule,
+            cap_per_person:
+              bill.allocationRule === UtilityAllocationRule.CAPPED
+                ? bill.capPerPerson
+                : null,
+            notes: bill.notes ?? null,
+            created_by: user?.id,
+          },
+        ])
         .select()
         .single();
 
       if (error) throw error;
+
+      await logAudit({
+        action: AuditAction.CREATE,
+        tableName: "utility_bills",
+        recordId: data.id,
+        newValues: data,
+      });
+
       await mutate();
-      return data as Charge;
+      return utilityBillFromRow(data);
     },
-    [supabase, mutate]
+    [supabase, mutate, user, checkPermission, logAudit]
   );
 
-  const updateCharge = useCallback(
-    async (id: string, updates: UpdateCharge) => {
+  // Changes reach charges the next time the period's charge run is committed
+  const updateBill = useCallback(
+    async (id: string, updates: UpdateUtilityBill) => {
+      if (!checkPermission(PERMISSIONS.BILLING_UPDATE)) {
+        throw new Error("You do not have permission to change utility bills");
+      }
+
       const { data, error } = await supabase
-        .from("charges")
-        .update({ ...updates, updated_at: new Date().toISOString() })
+        .from("utility_bills")
+        .update({
+          ...(updates.utilityType !== undefined && {
+            utility_type: updates.utilityType,
+          }),
+          ...(updates.provider !== undefined && { provider: updates.provider }),
+          ...(updates.accountNumber !== undefined && {
+            account_number: updates.accountNumber,
+          }),
+          ...(updates.serviceStart !== undefined && {
+            service_start: toDateKey(updates.serviceStart),
+          }),
+          ...(updates.serviceEnd !== undefined && {
+            service_end: toDateKey(updates.serviceEnd),
+          }),
+          ...(updates.amount !== undefined && { amount: updates.amount }),
+          ...(updates.allocationRule !== undefined && {
+            allocation_rule: updates.allocationRule,
+          }),
+          ...(updates.capPerPerson !== undefined && {
+            cap_per_person: updates.capPerPerson,
+          }),
+          ...(updates.notes !== undefined && { notes: updates.notes }),
+        })
         .eq("id", id)
         .select()
         .single();
 
       if (error) throw error;
+
+      await logAudit({
+        action: AuditAction.UPDATE,
+        tableName: "utility_bills",
+        recordId: id,
+        newValues: updates,
+      });
+
       await mutate();
-      return data as Charge;
+      return utilityBillFromRow(data);
     },
-    [supabase, mutate]
+    [supabase, mutate, checkPermission, logAudit]
   );
 
-  const deleteCharge = useCallback(
+  const deleteBill = useCallback(
     async (id: string) => {
-      // Check if charge is in exported period
-      const { data: charge } = await supabase
-        .from("charges")
-        .select(
-          `
-        billing_period:billing_periods(status)
-      `
-        )
-        .eq("id", id)
-        .single();
-
-      if ((charge?.billing_period as any)?.status === "exported") {
-        throw new Error("Cannot delete charges from exported period");
+      if (!checkPermission(PERMISSIONS.BILLING_DELETE)) {
+        throw new Error("You do not have permission to delete utility bills");
       }
 
-      const { error } = await supabase.from("charges").delete().eq("id", id);
+      const { error } = await supabase
+        .from("utility_bills")
+        .delete()
+        .eq("id", id);
 
       if (error) throw error;
+
+      await logAudit({
+        action: AuditAction.DELETE,
+        tableName: "utility_bills",
+        recordId: id,
+      });
+
       await mutate();
     },
-    [supabase, mutate]
+    [supabase, mutate, checkPermission, logAudit]
   );
 
-  const calculateProration = useCallback(
-    (
-      baseAmount: number,
-      startDate: Date,
-      endDate: Date,
-      periodStart: Date,
-      periodEnd: Date
-    ): number => {
-      const totalPeriodDays = Math.ceil(
-        (periodEnd.getTime() - periodStart.getTime()) / (1000 * 60 * 60 * 24)
+  // How a bill, saved or not, would be split across the occupants today
+  const previewAllocation = useCallback(
+    async (
+      bill: CreateUtilityBill & { id?: string }
+    ): Promise<{
+      allocation: UtilityAllocation;
+      staffNames: Record<string, string>;
+    }> => {
+      const { stays, staffNames } = await fetchOccupancyStays(
+        supabase,
+        bill.propertyId,
+        bill.serviceStart,
+        bill.serviceEnd
       );
-      const actualDays = Math.ceil(
-        (endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24)
-      );
-
-      return Math.min(actualDays / totalPeriodDays, 1);
+      return { allocation: allocateUtilityBill(bill, stays), staffNames };
     },
-    []
+    [supabase]
   );
 
-  const generateHousingCharges = useCallback(
-    async (billingPeriodId: string) => {
-      // Get billing period
-      const { data: period } = await supabase
-        .from("billing_periods")
-        .select("*")
-        .eq("id", billingPeriodId)
+  return {
+    bills: bills || [],
+    isLoading,
+    error,
+    createBill,
+    updateBill,
+    deleteBill,
+    previewAllocation,
+    refresh: mutate,
+  };
+}
+
+// Columns for a fare rule's terms. Fares and fees that the chosen strategy or
+// treatment does not use are cleared.
+function transportFareRuleRow(rule: UpdateTransportFareRule) {
+  return {
+    ...(rule.route !== undefined && { route: rule.route || null }),
+    ...(rule.splitStrategy !== undefined && {
+      split_strategy: rule.splitStrategy,
+      flat_fare:
+        rule.splitStrategy === TransportSplitStrategy.FLAT_FARE
+          ? rule.flatFare ?? null
+          : null,
+    }),
+    ...(rule.employerPaidPurposes !== undefined && {
+      employer_paid_purposes: rule.employerPaidPurposes,
+    }),
+    ...(rule.noShowTreatment !== undefined && {
+      no_show_treatment: rule.noShowTreatment,
+      no_show_fee:
+        rule.noShowTreatment === AbsentPassengerTreatment.CHARGE_FEE
+          ? rule.noShowFee ?? null
+          : null,
+    }),
+    ...(rule.cancelledTreatment !== undefined && {
+      cancelled_treatment: rule.cancelledTreatment,
+      cancelled_fee:
+        rule.cancelledTreatment === AbsentPassengerTreatment.CHARGE_FEE
+          ? rule.cancelledFee ?? null
+          : null,
+    }),
+    ...(rule.isActive !== undefined && { is_active: rule.isActive }),
+    ...(rule.notes !== undefined && { notes: rule.notes }),
+  };
+}
+
+// Transport Fares Hook: fare rules and subsidies the charge run splits trip
+// costs with. Changes reach charges the next time a period's charge run is
+// committed.
+export function useTransportFares() {
+  const supabase = createClient();
+  const { user, checkPermission, logAudit } = useAuth();
+
+  const fetcher = useCallback(async () => {
+    const [{ data: rules, error: rulesError }, { data: subsidies, error }] =
+      await Promise.all([
+        supabase
+          .from("transport_fare_rules")
+          .select("*")
+          .order("route", { ascending: true, nullsFirst: true }),
+        supabase
+          .from("transport_subsidies")
+          .select("*")
+          .order("scope")
+          .order("created_at"),
+      ]);
+
+    if (rulesError) throw rulesError;
+    if (error) throw error;
+    return {
+      rules: (rules || []).map(transportFareRuleFromRow),
+      subsidies: (subsidies || []).map(transportSubsidyFromRow),
+    };
+  }, []);
+
+  const { data, error, mutate, isLoading } = useSWR(
+    "transport_fares",
+    fetcher
+  );
+
+  const createRule = useCallback(
+    async (rule: CreateTransportFareRule) => {
+      if (!checkPermission(PERMISSIONS.BILLING_CREATE)) {
+        throw new Error("You do not have permission to set transport fares");
+      }
+
+      const { data: row, error } = await supabase
+        .from("transport_fare_rules")
+        .insert([
+          {
+            ...transportFareRuleRow(rule),
+            created_by: user?.id,
+          },
+        ])
+        .select()
         .single();
 
-      if (!period) throw new Error("Billing period not found");
+      if (error) throw error;
 
-      // Get active room assignments during the period
-      const { data: assignments } = await supabase
-        .from("room_assignments")
-        .select(
-          `
-        *,
-        room:rooms(*),
-        staff:staff(*)
-      `
-        )
-        .eq("status", "active")
-        .lte("start_date", period.end_date)
-        .or(`end_date.is.null,end_date.gte.${period.start_date}`);
-
-      if (!assignments) return [];
-
-      const charges = [];
-      for (const assignment of assignments) {
-        const assignmentStart = new Date(
-          Math.max(
-            new Date(assignment.start_date).getTime(),
-            new Date(period.start_date).getTime()
-          )
-        );
-        const assignmentEnd = assignment.end_date
-          ? new Date(
-              Math.min(
-                new Date(assignment.end_date).getTime(),
-                new Date(period.end_date).getTime()
-              )
-            )
-          : new Date(period.end_date);
-
-        const prorationFactor = calculateProration(
-          1,
-          assignmentStart,
-          assignmentEnd,
-          new Date(period.start_date),
-          new Date(period.end_date)
-        );
+      await logAudit({
+        action: AuditAction.CREATE,
+        tableName: "transport_fare_rules",
+        recordId: row.id,
+        newValues: row,
+      });
 
-        // Base rent charge (this would come from configuration)
-        const baseRent = 500; // This should come from room/property configuration
-        const rentCharge: CreateCharge = {
-          staffId: assignment.staff_id,
-          billingPeriodId: period.id,
-          type: ChargeType.RENT,
-          amount: baseRent,
-          description: `Room rent for ${assignment.room.room_number}`,
-          prorationFactor,
-          sourceId: assignment.id,
-        };
+      await mutate();
+      return transportFareRuleFromRow(row);
+    },
+    [supabase, mutate, user, checkPermission, logAudit]
+  );
 
-        charges.push(rentCharge);
+  const updateRule = useCallback(
+    async (id: string, updates: UpdateTransportFareRule) => {
+      if (!checkPermission(PERMISSIONS.BILLING_UPDATE)) {
+        throw new Error("You do not have permission to change transport fares");
       }
 
-      // Create all charges
-      const createdCharges = [];
-      for (const charge of charges) {
-        const created = await createCharge(charge);
-        createdCharges.push(created);
+      const { data: row, error } = await supabase
+        .from("transport_fare_rules")
+        .update(transportFareRuleRow(updates))
+        .eq("id", id)
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      await logAudit({
+        action: AuditAction.UPDATE,
+        tableName: "transport_fare_rules",
+        recordId: id,
+        newValues: updates,
+      });
+
+      await mutate();
+      return transportFareRuleFromRow(row);
+    },
+    [supabase, mutate, checkPermission, logAudit]
+  );
+
+  const deleteRule = useCallback(
+    async (id: string) => {
+      if (!checkPermission(PERMISSIONS.BILLING_DELETE)) {
+        throw new Error("You do not have permission to delete transport fares");
       }
 
-      return createdCharges;
+      const { error } = await supabase
+        .from("transport_fare_rules")
+        .delete()
+        .eq("id", id);
+
+      if (error) throw error;
+
+      await logAudit({
+        action: AuditAction.DELETE,
+        tableName: "transport_fare_rules",
+        recordId: id,
+      });
+
+      await mutate();
     },
-    [supabase, createCharge, calculateProration]
+    [supabase, mutate, checkPermission, logAudit]
   );
 
-  const generateTransportCharges = useCallback(
-    async (billingPeriodId: string) => {
-      // Get billing period
-      const { data: period } = await supabase
-        .from("billing_periods")
-        .select("*")
-        .eq("id", billingPeriodId)
+  const createSubsidy = useCallback(
+    async (subsidy: CreateTransportSubsidy) => {
+      if (!checkPermission(PERMISSIONS.BILLING_CREATE)) {
+        throw new Error("You do not have permission to set transport subsidies");
+      }
+
+      const { data: row, error } = await supabase
+        .from("transport_subsidies")
+        .insert([
+          {
+            scope: subsidy.scope,
+            route:
+              subsidy.scope === TransportSubsidyScope.ROUTE
+                ? subsidy.route
+                : null,
+            department:
+              subsidy.scope === TransportSubsidyScope.DEPARTMENT
+                ? subsidy.department
+                : null,
+            subsidy_percent: subsidy.subsidyPercent ?? null,
+            subsidy_cap: subsidy.subsidyCap ?? null,
+            is_active: subsidy.isActive,
+            notes: subsidy.notes ?? null,
+            created_by: user?.id,
+          },
+        ])
+        .select()
         .single();
 
-      if (!period) throw new Error("Billing period not found");
+      if (error) throw error;
 
-      // Get completed trips during the period
-      const { data: trips } = await supabase
-        .from("trips")
-        .select(
-          `
-        *,
-        passengers:trip_passengers(
-          *,
-          staff:staff(*)
-        )
-      `
-        )
-        .eq("status", "completed")
-        .gte("date", period.start_date)
-        .lte("date", period.end_date);
-
-      if (!trips) return [];
-
-      const charges = [];
-      for (const trip of trips) {
-        if (trip.passengers && trip.passengers.length > 0 && trip.cost) {
-          const costPerPassenger = trip.cost / trip.passengers.length;
-
-          for (const passenger of trip.passengers) {
-            const transportCharge: CreateCharge = {
-              staffId: passenger.staff_id,
-              billingPeriodId: period.id,
-              type: ChargeType.TRANSPORT,
-              amount: costPerPassenger,
-              description: `Transport for ${trip.route} on ${new Date(
-                trip.date
-              ).toLocaleDateString()}`,
-              prorationFactor: 1,
-              sourceId: trip.id,
-            };
-
-            charges.push(transportCharge);
-          }
-        }
+      await logAudit({
+        action: AuditAction.CREATE,
+        tableName: "transport_subsidies",
+        recordId: row.id,
+        newValues: row,
+      });
+
+      await mutate();
+      return transportSubsidyFromRow(row);
+    },
+    [supabase, mutate, user, checkPermission, logAudit]
+  );
+
+  // A percentage or cap passed as null is removed
+  const updateSubsidy = useCallback(
+    async (
+      id: string,
+      updates: Omit<UpdateTransportSubsidy, "subsidyPercent" | "subsidyCap"> & {
+        subsidyPercent?: number | null;
+        subsidyCap?: number | null;
       }
+    ) => {
+      if (!checkPermission(PERMISSIONS.BILLING_UPDATE)) {
+        throw new Error(
+          "You do not have permission to change transport subsidies"
+        );
+      }
+
+      const { data: row, error } = await supabase
+        .from("transport_subsidies")
+        .update({
+          ...(updates.subsidyPercent !== undefined && {
+            subsidy_percent: updates.subsidyPercent,
+          }),
+          ...(updates.subsidyCap !== undefined && {
+            subsidy_cap: updates.subsidyCap,
+          }),
+          ...(updates.isActive !== undefined && {
+            is_active: updates.isActive,
+          }),
+          ...(updates.notes !== undefined && { notes: updates.notes }),
+        })
+        .eq("id", id)
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      await logAudit({
+        action: AuditAction.UPDATE,
+        tableName: "transport_subsidies",
+        recordId: id,
+        newValues: updates,
+      });
 
-      // Create all charges
-      const createdCharges = [];
-      for (const charge of charges) {
-        const created = await createCharge(charge);
-        createdCharges.push(created);
+      await mutate();
+      return transportSubsidyFromRow(row);
+    },
+    [supabase, mutate, checkPermission, logAudit]
+  );
+
+  const deleteSubsidy = useCallback(
+    async (id: string) => {
+      if (!checkPermission(PERMISSIONS.BILLING_DELETE)) {
+        throw new Error(
+          "You do not have permission to delete transport subsidies"
+        );
       }
 
-      return createdCharges;
+      const { error } = await supabase
+        .from("transport_subsidies")
+        .delete()
+        .eq("id", id);
+
+      if (error) throw error;
+
+      await logAudit({
+        action: AuditAction.DELETE,
+        tableName: "transport_subsidies",
+        recordId: id,
+      });
+
+      await mutate();
     },
-    [supabase, createCharge]
+    [supabase, mutate, checkPermission, logAudit]
   );
 
   return {
-    charges,
+    rules: data?.rules || [],
+    subsidies: data?.subsidies || [],
     isLoading,
     error,
-    createCharge,
-    updateCharge,
-    deleteCharge,
-    generateHousingCharges,
-    generateTransportCharges,
-    calculateProration,
+    createRule,
+    updateRule,
+    deleteRule,
+    createSubsidy,
+    updateSubsidy,
+    deleteSubsidy,
     refresh: mutate,
   };
 }
 
-// Payroll Export Hook
-export function usePayrollExport(billingPeriodId?: string) {
+// Recurring Charges Hook. With a staff member, only the charges that apply to
+// them: their own and their department's.
+export function useRecurringCharges(staffId?: string) {
   const supabase = createClient();
+  const { user, checkPermission, logAudit } = useAuth();
 
   const fetcher = useCallback(async () => {
-    if (!billingPeriodId) return [];
+    let query = supabase
+      .from("recurring_charges")
+      .select("*")
+      .order("start_date", { ascending: false });
 
-    const { data, error } = await supabase
-      .from("payroll_exports")
-      .select(
-        `
-        *,
-        billing_period:billing_periods(*)
-      `
-      )
-      .eq("billing_period_id", billingPeriodId)
-      .order("export_date", { ascending: false });
+    if (staffId) {
+      const { data: staff, error: staffError } = await supabase
+        .from("staff")
+        .select("department")
+        .eq("id", staffId)
+        .single();
+
+      if (staffError) throw staffError;
+      query = staff?.department
+        ? query.or(
+            `staff_id.eq.${staffId},department.eq."${staff.department}"`
+          )
+        : query.eq("staff_id", staffId);
+    }
+
+    const { data, error } = await query;
 
     if (error) throw error;
-    return data as PayrollExportWithDetails[];
-  }, [billingPeriodId]);
+    return (data || []).map(recurringChargeFromRow);
+  }, [staffId]);
 
   const {
-    data: exports,
+    data: recurringCharges,
     error,
     mutate,
     isLoading,
-  } = useSWR(
-    billingPeriodId ? ["payroll_exports", billingPeriodId] : null,
-    fetcher
-  );
-
-  const generateExportData = useCallback(
-    async (billingPeriodId: string): Promise<PayrollExportData[]> => {
-      // Get all charges for the billing period
-      const { data: charges } = await supabase
-        .from("charges")
-        .select(
-          `
-        *,
-        staff:staff(*)
-      `
-        )
-        .eq("billing_period_id", billingPeriodId);
+  } = useSWR(["recurring_charges", staffId], fetcher);
 
-      if (!charges) return [];
+  const createRecurringCharge = useCallback(
+    async (charge: CreateRecurringCharge) => {
+      if (!checkPermission(PERMISSIONS.BILLING_CREATE)) {
+        throw new Error("You do not have permission to set up recurring charges");
+      }
 
-      // Group charges by staff
-      const staffCharges = new Map<string, any[]>();
-      charges.forEach((charge) => {
-        if (!staffCharges.has(charge.staff_id)) {
-          staffCharges.set(charge.staff_id, []);
-        }
-        staffCharges.get(charge.staff_id)!.push(charge);
-      });
+      const { data, error } = await supabase
+        .from("recurring_charges")
+        .insert([
+          {
+            name: charge.name,
+            category: charge.category,
+            scope: charge.scope,
+            staff_id:
+              charge.scope === RecurringChargeScope.STAFF ? charge.staffId : null,
+            department:
+              charge.scope === RecurringChargeScope.DEPARTMENT
+                ? charge.department
+                : null,
+            amount: charge.amount,
+            frequency: charge.frequency,
+            start_date: toDateKey(charge.startDate),
+            end_date: charge.endDate ? toDateKey(charge.endDate) : null,
+            prorate: charge.prorate,
+            is_active: charge.isActive,
+            notes: charge.notes ?? null,
+            created_by: user?.id,
+          },
+        ])
+        .select()
+        .single();
 
-      // Generate export data
-      const exportData: PayrollExportData[] = [];
-      for (const [staffId, staffChargeList] of staffCharges.entries()) {
-        const staff = staffChargeList[0].staff;
-        const totalDeductions = staffChargeList.reduce(
-          (sum, c) => sum + c.amount * (c.proration_factor || 1),
-          0
-        );
-        const rentCharges = staffChargeList
-          .filter((c) => c.type === "rent")
-          .reduce((sum, c) => sum + c.amount * (c.proration_factor || 1), 0);
-        const utilityCharges = staffChargeList
-          .filter((c) => c.type === "utilities")
-          .reduce((sum, c) => sum + c.amount * (c.proration_factor || 1), 0);
-        const transportCharges = staffChargeList
-          .filter((c) => c.type === "transport")
-          .reduce((sum, c) => sum + c.amount * (c.proration_factor || 1), 0);
-        const otherCharges = staffChargeList
-          .filter((c) => c.type === "other")
-          .reduce((sum, c) => sum + c.amount * (c.proration_factor || 1), 0);
-
-        // Get billing period info
-        const { data: period } = await supabase
-          .from("billing_periods")
-          .select("start_date, end_date")
-          .eq("id", billingPeriodId)
-          .single();
+      if (error) throw error;
 
-        exportData.push({
-          employeeId: staff.employee_id,
-          firstName: staff.first_name,
-          lastName: staff.last_name,
-          totalDeductions,
-          rentCharges,
-          utilityCharges,
-          transportCharges,
-          otherCharges,
-          billingPeriod: period
-            ? `${new Date(period.start_date).toLocaleDateString()} - ${new Date(
-                period.end_date
-              ).toLocaleDateString()}`
-            : "",
-        });
-      }
+      await logAudit({
+        action: AuditAction.CREATE,
+        tableName: "recurring_charges",
+        recordId: data.id,
+        newValues: data,
+      });
 
-      return exportData.sort((a, b) =>
-        a.employeeId.localeCompare(b.employeeId)
-      );
+      await mutate();
+      return recurringChargeFromRow(data);
     },
-    [supabase]
+    [supabase, mutate, user, checkPermission, logAudit]
   );
 
-  const createExport = useCallback(
-    async (exportData: CreatePayrollExport) => {
+  // Changes reach charges the next time a period's charge run is committed.
+  // An end date passed as null makes the charge open-ended again.
+  const updateRecurringCharge = useCallback(
+    async (
+      id: string,
+      updates: Omit<UpdateRecurringCharge, "endDate"> & { endDate?: Date | null }
+    ) => {
+      if (!checkPermission(PERMISSIONS.BILLING_UPDATE)) {
+        throw new Error("You do not have permission to change recurring charges");
+      }
+
       const { data, error } = await supabase
-        .from("payroll_exports")
-        .insert([exportData])
+        .from("recurring_charges")
+        .update({
+          ...(updates.name !== undefined && { name: updates.name }),
+          ...(updates.category !== undefined && { category: updates.category }),
+          ...(updates.amount !== undefined && { amount: updates.amount }),
+          ...(updates.frequency !== undefined && {
+            frequency: updates.frequency,
+          }),
+          ...(updates.startDate !== undefined && {
+            start_date: toDateKey(updates.startDate),
+          }),
+          ...(updates.endDate !== undefined && {
+            end_date: updates.endDate ? toDateKey(updates.endDate) : null,
+          }),
+          ...(updates.prorate !== undefined && { prorate: updates.prorate }),
+          ...(updates.isActive !== undefined && {
+            is_active: updates.isActive,
+          }),
+          ...(updates.notes !== undefined && { notes: updates.notes }),
+        })
+        .eq("id", id)
         .select()
         .single();
 
       if (error) throw error;
 
-      // Update billing period status to exported
-      await supabase
-        .from("billing_periods")
-        .update({
-          status: BillingStatus.EXPORTED,
-          payroll_export_date: new Date().toISOString(),
-        })
-        .eq("id", exportData.billingPeriodId);
+      await logAudit({
+        action: AuditAction.UPDATE,
+        tableName: "recurring_charges",
+        recordId: id,
+        newValues: updates,
+      });
 
       await mutate();
-      return data as PayrollExport;
+      return recurringChargeFromRow(data);
     },
-    [supabase, mutate]
+    [supabase, mutate, checkPermission, logAudit]
   );
 
-  const exportToCSV = useCallback(
-    async (billingPeriodId: string): Promise<string> => {
-      const data = await generateExportData(billingPeriodId);
-
-      const headers = [
-        "Employee ID",
-        "First Name",
-        "Last Name",
-        "Total Deductions",
-        "Rent Charges",
-        "Utility Charges",
-        "Transport Charges",
-        "Other Charges",
-        "Billing Period",
-      ];
-
-      const csvContent = [
-        headers.join(","),
-        ...data.map((row) =>
-          [
-            row.employeeId,
-            row.firstName,
-            row.lastName,
-            row.totalDeductions.toFixed(2),
-            row.rentCharges.toFixed(2),
-            row.utilityCharges.toFixed(2),
-            row.transportCharges.toFixed(2),
-            row.otherCharges.toFixed(2),
-            `"${row.billingPeriod}"`,
-          ].join(",")
-        ),
-      ].join("\n");
+  const deleteRecurringCharge = useCallback(
+    async (id: string) => {
+      if (!checkPermission(PERMISSIONS.BILLING_DELETE)) {
+        throw new Error("You do not have permission to delete recurring charges");
+      }
 
-      // Create export record
-      const fileName = `payroll_export_${
-        new Date().toISOString().split("T")[0]
-      }.csv`;
-      await createExport({
-        billingPeriodId,
-        exportDate: new Date(),
-        fileName,
-        recordCount: data.length,
-        totalAmount: data.reduce((sum, row) => sum + row.totalDeductions, 0),
-        status: PayrollExportStatus.COMPLETED,
-        format: "csv",
+      const { error } = await supabase
+        .from("recurring_charges")
+        .delete()
+        .eq("id", id);
+
+      if (error) throw error;
+
+      await logAudit({
+        action: AuditAction.DELETE,
+        tableName: "recurring_charges",
+        recordId: id,
       });
 
-      return csvContent;
+      await mutate();
     },
-    [generateExportData, createExport]
+    [supabase, mutate, checkPermission, logAudit]
   );
+
   return {
-    exports,
+    recurringCharges: recurringCharges || [],
     isLoading,
     error,
-    generateExportData,
-    createExport,
-    exportToCSV,
+    createRecurringCharge,
+    updateRecurringCharge,
+    deleteRecurringCharge,
     refresh: mutate,
   };
 }
@@ -657,7 +4889,9 @@ export function useBillingAnalytics(dateRange?: { start: Date; end: Date }) {
     // Get charges
     let chargeQuery = supabase
       .from("charges")
-      .select("id, type, amount, proration_factor, created_at");
+      .select(
+        "id, type, amount, proration_factor, created_at, charge_adjustments(type, amount)"
+      );
 
     if (dateRange) {
       chargeQuery = chargeQuery
@@ -671,12 +4905,16 @@ export function useBillingAnalytics(dateRange?: { start: Date; end: Date }) {
     const activeBillingPeriods =
       periods?.filter((p) => p.status === "draft" || p.status === "processing")
         .length || 0;
+    // Amounts are net of credit notes, debits and reversals
+    const netAmount = (c: any) =>
+      netChargeAmount(
+        effectiveAmount(Number(c.amount), c.proration_factor || 1),
+        c.charge_adjustments
+      );
+
     const totalCharges = charges?.length || 0;
     const totalAmount =
-      charges?.reduce(
-        (sum, c) => sum + c.amount * (c.proration_factor || 1),
-        0
-      ) || 0;
+      charges?.reduce((sum, c) => sum + netAmount(c), 0) || 0;
     const averageChargeAmount =
       totalCharges > 0 ? totalAmount / totalCharges : 0;
 
@@ -692,7 +4930,7 @@ export function useBillingAnalytics(dateRange?: { start: Date; end: Date }) {
     };
 
     charges?.forEach((charge) => {
-      const adjustedAmount = charge.amount * (charge.proration_factor || 1);
+      const adjustedAmount = netAmount(charge);
       chargesByType[charge.type as ChargeType].count++;
       chargesByType[charge.type as ChargeType].amount += adjustedAmount;
     });
@@ -763,7 +5001,8 @@ export function useStaffBillingSummary(
     let query = supabase.from("charges").select(`
         *,
         staff:staff(*),
-        billing_period:billing_periods(*)
+        billing_period:billing_periods(*),
+        charge_adjustments(type, amount)
       `);
 
     if (staffId) {
@@ -788,13 +5027,20 @@ export function useStaffBillingSummary(
       staffMap.get(charge.staff_id)!.push(charge);
     });
 
+    // Amounts are net of credit notes, debits and reversals
+    const netAmount = (c: any) =>
+      netChargeAmount(
+        effectiveAmount(Number(c.amount), c.proration_factor || 1),
+        c.charge_adjustments
+      );
+
     // Generate summaries
     const summaries: StaffBillingSummary[] = [];
     for (const [staffId, staffCharges] of staffMap.entries()) {
       const staff = staffCharges[0].staff;
       const totalCharges = staffCharges.length;
       const totalAmount = staffCharges.reduce(
-        (sum, c) => sum + c.amount * (c.proration_factor || 1),
+        (sum, c) => sum + netAmount(c),
         0
       );
 
@@ -806,8 +5052,7 @@ export function useStaffBillingSummary(
       };
 
       staffCharges.forEach((charge) => {
-        chargesByType[charge.type as ChargeType] +=
-          charge.amount * (charge.proration_factor || 1);
+        chargesByType[charge.type as ChargeType] += netAmount(charge);
       });
 
       const lastBillingDate = new Date(
@@ -869,7 +5114,8 @@ export function useStaffCharges(staffId?: string, filters?: BillingFilters) {
       .select(
         `
         *,
-        billing_period:billing_periods (*)
+        billing_period:billing_periods (*),
+        adjustments:charge_adjustments (*)
       `
       )
       .eq("staff_id", staffId)
@@ -924,7 +5170,8 @@ export function useChargeHistory(
       .select(
         `
         *,
-        billing_period:billing_periods (*)
+        billing_period:billing_periods (*),
+        adjustments:charge_adjustments (*)
       `
       )
       .eq("staff_id", staffId)
@@ -956,44 +5203,23 @@ export function useChargeHistory(
   };
 }
 
-// Billing Disputes Hook (for staff self-service)
+// Billing Disputes Hook (for staff self-service). Raising a dispute holds the
+// charge out of payroll exports until a reviewer resolves it.
 export function useBillingDisputes(staffId?: string) {
   const supabase = createClient();
+  const { user, logAudit } = useAuth();
 
   const fetcher = useCallback(async () => {
     if (!staffId) return [];
 
-    // Mock data for now - replace with actual API call
-    return [
-      {
-        id: "1",
-        staffId,
-        chargeId: "charge-1",
-        type: "incorrect_amount",
-        status: "submitted",
-        amount: 100.0,
-        description: "Rent amount seems incorrect for partial month",
-        evidence: "lease-agreement.pdf",
-        submittedAt: new Date("2024-01-20"),
-        updatedAt: new Date("2024-01-20"),
-        response: null,
-        resolvedAt: null,
-      },
-      {
-        id: "2",
-        staffId,
-        chargeId: "charge-2",
-        type: "unauthorized_charge",
-        status: "resolved",
-        amount: 50.0,
-        description: "Charged for utilities during vacation period",
-        evidence: "vacation-request.pdf",
-        submittedAt: new Date("2024-01-10"),
-        updatedAt: new Date("2024-01-15"),
-        response: "Charge has been reversed. Refund processed.",
-        resolvedAt: new Date("2024-01-15"),
-      },
-    ];
+    const { data, error } = await supabase
+      .from("billing_disputes")
+      .select(DISPUTE_SELECT)
+      .eq("staff_id", staffId)
+      .order("created_at", { ascending: false });
+
+    if (error) throw error;
+    return (data || []).map(billingDisputeFromRow);
   }, [staffId]);
 
   const {
@@ -1004,80 +5230,761 @@ export function useBillingDisputes(staffId?: string) {
   } = useSWR(staffId ? ["billing_disputes", staffId] : null, fetcher);
 
   const submitDispute = useCallback(
-    async (disputeData: any) => {
-      // Mock implementation - replace with actual API call
-      const newDispute = {
-        id: Date.now().toString(),
-        staffId,
-        ...disputeData,
-        status: "submitted",
-        submittedAt: new Date(),
-        updatedAt: new Date(),
-      };
+    async (dispute: CreateBillingDispute, files: File[] = []) => {
+      if (!user) throw new Error("You must be signed in to dispute a charge");
+
+      // The database holds the charge and remembers its status
+      const { data, error } = await supabase
+        .from("billing_disputes")
+        .insert([
+          {
+            charge_id: dispute.chargeId,
+            staff_id: dispute.staffId,
+            dispute_type: dispute.type,
+            subject: dispute.subject,
+            description: dispute.description,
+            expected_amount: dispute.expectedAmount ?? null,
+            created_by: user.id,
+          },
+        ])
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      await uploadDisputeEvidence(supabase, data.id, files, user.id);
+      await logAudit({
+        action: AuditAction.CREATE,
+        tableName: "billing_disputes",
+        recordId: data.id,
+        newValues: data,
+      });
+
+      await mutate();
+      return data;
+    },
+    [supabase, mutate, user, logAudit]
+  );
+
+  const addComment = useCallback(
+    async (disputeId: string, body: string) => {
+      if (!user) throw new Error("You must be signed in to comment");
+      await addDisputeComment(supabase, disputeId, body, user.id, false);
+      await mutate();
+    },
+    [supabase, mutate, user]
+  );
 
-      await mutate([...(disputes || []), newDispute], false);
-      return newDispute;
+  const addEvidence = useCallback(
+    async (disputeId: string, files: File[]) => {
+      if (!user) throw new Error("You must be signed in to attach evidence");
+      await uploadDisputeEvidence(supabase, disputeId, files, user.id);
+      await mutate();
     },
-    [staffId, disputes, mutate]
+    [supabase, mutate, user]
+  );
+
+  const getEvidenceUrl = useCallback(
+    (evidence: DisputeEvidence) => signedEvidenceUrl(supabase, evidence),
+    [supabase]
   );
 
   return {
-    disputes,
+    disputes: disputes || [],
     isLoading,
     error,
     submitDispute,
+    addComment,
+    addEvidence,
+    getEvidenceUrl,
+    refresh: mutate,
+  };
+}
+
+// Dispute Queue Hook: every dispute, for reviewers
+export function useDisputeQueue(filters?: {
+  status?: DisputeStatus | "open";
+  assignedTo?: string;
+}) {
+  const supabase = createClient();
+  const { user, checkPermission, logAudit } = useAuth();
+
+  const fetcher = useCallback(async () => {
+    let query = supabase
+      .from("billing_disputes")
+      .select(DISPUTE_SELECT)
+      .order("created_at", { ascending: true });
+
+    if (filters?.status === "open") {
+      query = query.in("status", OPEN_DISPUTE_STATUSES);
+    } else if (filters?.status) {
+      query = query.eq("status", filters.status);
+    }
+
+    if (filters?.assignedTo) {
+      query = query.eq("assigned_to", filters.assignedTo);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return (data || []).map(billingDisputeFromRow);
+  }, [filters]);
+
+  const {
+    data: disputes,
+    error,
+    mutate,
+    isLoading,
+  } = useSWR(["dispute_queue", filters], fetcher);
+
+  const requireReviewer = useCallback(() => {
+    if (!user) throw new Error("You must be signed in to review disputes");
+    if (!checkPermission(PERMISSIONS.BILLING_UPDATE)) {
+      throw new Error("You do not have permission to review billing disputes");
+    }
+    return user;
+  }, [user, checkPermission]);
+
+  // Assigning a submitted dispute starts its review
+  const assignReviewer = useCallback(
+    async (id: string, reviewerId: string) => {
+      requireReviewer();
+      const dispute = await fetchDispute(supabase, id);
+      if (!isDisputeOpen(dispute.status)) {
+        throw new Error("Resolved disputes cannot be reassigned");
+      }
+
+      const updates = {
+        assigned_to: reviewerId,
+        assigned_at: new Date().toISOString(),
+        status:
+          dispute.status === DisputeStatus.SUBMITTED
+            ? DisputeStatus.UNDER_REVIEW
+            : dispute.status,
+      };
+      const { error } = await supabase
+        .from("billing_disputes")
+        .update(updates)
+        .eq("id", id);
+
+      if (error) throw error;
+      await logAudit({
+        action: AuditAction.UPDATE,
+        tableName: "billing_disputes",
+        recordId: id,
+        oldValues: { assigned_to: dispute.assignedTo, status: dispute.status },
+        newValues: updates,
+      });
+
+      await mutate();
+    },
+    [supabase, mutate, requireReviewer, logAudit]
+  );
+
+  const moveDispute = useCallback(
+    async (id: string, status: DisputeStatus) => {
+      requireReviewer();
+      const dispute = await fetchDispute(supabase, id);
+      if (!canMoveDispute(dispute.status, status)) {
+        throw new Error(
+          `A dispute that is ${dispute.status.replace("_", " ")} cannot be moved to ${status.replace("_", " ")}`
+        );
+      }
+
+      const { error } = await supabase
+        .from("billing_disputes")
+        .update({ status })
+        .eq("id", id)
+        .eq("status", dispute.status);
+
+      if (error) throw error;
+      await logAudit({
+        action: AuditAction.UPDATE,
+        tableName: "billing_disputes",
+        recordId: id,
+        oldValues: { status: dispute.status },
+        newValues: { status },
+      });
+
+      await mutate();
+    },
+    [supabase, mutate, requireReviewer, logAudit]
+  );
+
+  const addComment = useCallback(
+    async (disputeId: string, body: string, internal = false) => {
+      const reviewer = requireReviewer();
+      await addDisputeComment(supabase, disputeId, body, reviewer.id, internal);
+      await mutate();
+    },
+    [supabase, mutate, requireReviewer]
+  );
+
+  const addEvidence = useCallback(
+    async (disputeId: string, files: File[]) => {
+      const reviewer = requireReviewer();
+      await uploadDisputeEvidence(supabase, disputeId, files, reviewer.id);
+      await mutate();
+    },
+    [supabase, mutate, requireReviewer]
+  );
+
+  const getEvidenceUrl = useCallback(
+    (evidence: DisputeEvidence) => signedEvidenceUrl(supabase, evidence),
+    [supabase]
+  );
+
+  // Settle a dispute. The charge is released from its hold; any credit is
+  // taken off it the next time its period (or a corrections sub-period of
+  // it) is exported, which also posts it to the staff ledger.
+  const resolveDispute = useCallback(
+    async (id: string, resolution: ResolveBillingDispute) => {
+      const reviewer = requireReviewer();
+      const dispute = await fetchDispute(supabase, id);
+      if (!isDisputeOpen(dispute.status)) {
+        throw new Error("This dispute has already been resolved");
+      }
+
+      const { data: earlier, error: earlierError } = await supabase
+        .from("billing_disputes")
+        .select("charge_id, status, credit_amount")
+        .eq("charge_id", dispute.chargeId)
+        .eq("status", DisputeStatus.RESOLVED);
+
+      if (earlierError) throw earlierError;
+      const alreadyCredited =
+        creditsByCharge(
+          (earlier || []).map((row) => ({
+            chargeId: row.charge_id,
+            status: row.status as DisputeStatus,
+            creditAmount: Number(row.credit_amount),
+          }))
+        ).get(dispute.chargeId) || 0;
+
+      const credit = resolutionCredit(
+        resolution,
+        dispute.charge.amount,
+        alreadyCredited
+      );
+      const updates = {
+        status: DisputeStatus.RESOLVED,
+        resolution: resolution.resolution,
+        credit_amount: credit,
+        resolution_notes: resolution.notes,
+        resolved_by: reviewer.id,
+        resolved_at: new Date().toISOString(),
+      };
+
+      const { data, error } = await supabase
+        .from("billing_disputes")
+        .update(updates)
+        .eq("id", id)
+        // Fails if someone else resolved it in the meantime
+        .eq("status", dispute.status)
+        .select()
+        .single();
+
+      if (error) throw error;
+      await logAudit({
+        action: AuditAction.UPDATE,
+        tableName: "billing_disputes",
+        recordId: id,
+        oldValues: { status: dispute.status },
+        newValues: updates,
+      });
+
+      await mutate();
+      return {
+        dispute: data,
+        credit,
+        // The period has already gone to payroll, so the credit waits for an
+        // incremental export
+        needsCorrections: dispute.charge.periodStatus === BillingStatus.EXPORTED,
+      };
+    },
+    [supabase, mutate, requireReviewer, logAudit]
+  );
+
+  return {
+    disputes: disputes || [],
+    isLoading,
+    error,
+    assignReviewer,
+    moveDispute,
+    addComment,
+    addEvidence,
+    getEvidenceUrl,
+    resolveDispute,
     refresh: mutate,
   };
 }
 
-// Payment History Hook (for staff self-service)
-export function usePaymentHistory(
+// Staff Ledger Hook: one staff member's account, for self-service and finance
+export function useStaffLedger(
   staffId?: string,
   dateRange?: { start: Date; end: Date }
 ) {
   const supabase = createClient();
+  const { user, checkPermission, logAudit } = useAuth();
 
+  // The whole account is loaded so running balances start from zero
   const fetcher = useCallback(async () => {
     if (!staffId) return [];
 
-    // Mock data for now - replace with actual API call
-    return [
-      {
-        id: "1",
-        staffId,
-        amount: 850.0,
-        method: "payroll_deduction",
-        status: "completed",
-        processedAt: new Date("2024-01-15"),
-        description: "Housing rent - January 2024",
-        reference: "PAY-2024-001",
-        charges: [
-          {
-            id: "charge-1",
-            type: "rent",
-            amount: 800.0,
-            description: "Monthly rent",
-          },
+    const { data, error } = await supabase
+      .from("staff_ledger_entries")
+      .select("*")
+      .eq("staff_id", staffId)
+      .order("entry_date", { ascending: true })
+      .order("created_at", { ascending: true });
+
+    if (error) throw error;
+    return (data || []).map(ledgerEntryFromRow);
+  }, [staffId]);
+
+  const {
+    data: allEntries,
+    error,
+    mutate,
+    isLoading,
+  } = useSWR(staffId ? ["staff_ledger", staffId] : null, fetcher);
+
+  const entries = allEntries || [];
+  const statement =
+    staffId && dateRange
+      ? buildStatement(staffId, entries, dateRange.start, dateRange.end)
+      : null;
+
+  // Statement for any range, e.g. one billing period
+  const getStatement = useCallback(
+    (start: Date, end: Date): LedgerStatement | null =>
+      staffId ? buildStatement(staffId, allEntries || [], start, end) : null,
+    [staffId, allEntries]
+  );
+
+  // Record a cash payment, credit, write-off or refund. Anything that reduces
+  // the balance also settles what payroll is carrying forward, so it is not
+  // deducted again.
+  const recordEntry = useCallback(
+    async (adjustment: CreateLedgerAdjustment) => {
+      if (!checkPermission(PERMISSIONS.BILLING_UPDATE)) {
+        throw new Error("You do not have permission to record ledger entries");
+      }
+
+      const { data: entryRow, error: entryError } = await supabase
+        .from("staff_ledger_entries")
+        .insert([
           {
-            id: "charge-2",
-            type: "utilities",
-            amount: 50.0,
-            description: "Utilities",
+            staff_id: adjustment.staffId,
+            entry_type: adjustment.entryType,
+            charge_type: adjustment.chargeType ?? null,
+            ...toDebitCredit(adjustment.entryType, adjustment.amount),
+            entry_date: toDateKey(fromLocalDate(adjustment.entryDate)),
+            description: adjustment.description,
+            reference: adjustment.reference ?? null,
+            created_by: user?.id ?? null,
           },
-        ],
-      },
-    ];
-  }, [staffId, dateRange]);
+        ])
+        .select()
+        .single();
+
+      if (entryError) throw entryError;
+
+      if (adjustment.entryType !== LedgerEntryType.REFUND) {
+        const { data: balanceRows, error: balanceError } = await supabase
+          .from("deduction_balances")
+          .select("charge_type, amount")
+          .eq("staff_id", adjustment.staffId);
+
+        if (balanceError) throw balanceError;
+        const carried = emptyAmounts();
+        (balanceRows || []).forEach((row) => {
+          carried[row.charge_type as ChargeType] += Number(row.amount);
+        });
+
+        const settled = settleCarriedBalance(
+          carried,
+          adjustment.amount,
+          adjustment.chargeType
+        );
+        const settlements = Object.values(ChargeType)
+          .filter((type) => settled[type] > 0)
+          .map((type) => ({
+            staff_id: adjustment.staffId,
+            charge_type: type,
+            amount: -settled[type],
+            ledger_entry_id: entryRow.id,
+          }));
+
+        if (settlements.length > 0) {
+          const { error: settleError } = await supabase
+            .from("deduction_balances")
+            .insert(settlements);
+
+          if (settleError) throw settleError;
+        }
+      }
+
+      await logAudit({
+        action: AuditAction.CREATE,
+        tableName: "staff_ledger_entries",
+        recordId: entryRow.id,
+        newValues: entryRow,
+      });
+
+      await mutate();
+      return ledgerEntryFromRow(entryRow);
+    },
+    [supabase, mutate, user, checkPermission, logAudit]
+  );
+
+  return {
+    entries: withRunningBalance(entries),
+    balance: ledgerBalance(entries),
+    totals: ledgerTotals(entries),
+    statement,
+    getStatement,
+    isLoading,
+    error,
+    recordEntry,
+    refresh: mutate,
+  };
+}
+
+/**
+ * Statements for a billing period, one per staff member with charges in it
+ * (or just `staffId`'s). A corrections sub-period is read as its main period,
+ * so every statement covers the whole period family.
+ */
+async function buildStaffStatements(
+  supabase: SupabaseClient,
+  billingPeriodId: string,
+  staffId?: string
+): Promise<StaffBillingStatement[]> {
+  const requested = await fetchBillingPeriod(supabase, billingPeriodId);
+  const period = requested.parent_period_id
+    ? await fetchBillingPeriod(supabase, requested.parent_period_id)
+    : requested;
+
+  const { data: family, error: familyError } = await supabase
+    .from("billing_periods")
+    .select("id")
+    .or(`id.eq.${period.id},parent_period_id.eq.${period.id}`);
+
+  if (familyError) throw familyError;
+
+  let chargesQuery = supabase
+    .from("charges")
+    .select(
+      `
+        *,
+        adjustments:charge_adjustments(*),
+        staff:staff(id, first_name, last_name, employee_id, department)
+      `
+    )
+    .in(
+      "billing_period_id",
+      (family || []).map((p) => p.id)
+    );
+
+  if (staffId) {
+    chargesQuery = chargesQuery.eq("staff_id", staffId);
+  }
+
+  const { data: chargeRows, error: chargesError } = await chargesQuery;
+  if (chargesError) throw chargesError;
+
+  // Cancelled and rejected charges were never billed
+  const billed = (chargeRows || []).filter((c) => !isChargeUnbilled(c.status));
+
+  const { data: creditRows, error: creditsError } = await supabase
+    .from("billing_disputes")
+    .select("charge_id, status, credit_amount")
+    .in(
+      "charge_id",
+      billed.map((c) => c.id)
+    )
+    .eq("status", DisputeStatus.RESOLVED);
+
+  if (creditsError) throw creditsError;
+  const credits = creditsByCharge(
+    (creditRows || []).map((row) => ({
+      chargeId: row.charge_id,
+      status: row.status as DisputeStatus,
+      creditAmount: Number(row.credit_amount),
+    }))
+  );
+
+  const staffById = new Map<string, any>();
+  billed.forEach((c) => {
+    if (c.staff) staffById.set(c.staff_id, c.staff);
+  });
+  if (staffId && !staffById.has(staffId)) {
+    const { data: member, error: staffError } = await supabase
+      .from("staff")
+      .select("id, first_name, last_name, employee_id, department")
+      .eq("id", staffId)
+      .single();
+
+    if (staffError) throw staffError;
+    staffById.set(staffId, member);
+  }
+
+  const staffIds = Array.from(staffById.keys());
+  if (staffIds.length === 0) return [];
+
+  // Everything up to the period end, so balances open where they left off
+  const { data: ledgerRows, error: ledgerError } = await supabase
+    .from("staff_ledger_entries")
+    .select("*")
+    .in("staff_id", staffIds)
+    .lte("entry_date", period.end_date);
+
+  if (ledgerError) throw ledgerError;
+  const ledgerEntries = (ledgerRows || []).map(ledgerEntryFromRow);
+
+  return staffIds
+    .map((id) => {
+      const member = staffById.get(id);
+      return buildStaffStatement({
+        staff: {
+          id,
+          name: `${member.first_name} ${member.last_name}`,
+          employeeId: member.employee_id ?? undefined,
+          department: member.department ?? undefined,
+        },
+        period: {
+          id: period.id,
+          startDate: toUtcDay(period.start_date),
+          endDate: toUtcDay(period.end_date),
+          payDate: period.pay_date ? toUtcDay(period.pay_date) : undefined,
+        },
+        charges: billed
+          .filter((c) => c.staff_id === id)
+          .map((c) =>
+            toStatementCharge({
+              id: c.id,
+              type: c.type as ChargeType,
+              status: c.status as ChargeStatus,
+              description: c.description,
+              amount: effectiveAmount(Number(c.amount), c.proration_factor ?? 1),
+              startDate: c.charge_date ? toUtcDay(c.charge_date) : undefined,
+              metadata: c.metadata ?? undefined,
+              adjustments: (c.adjustments || []).map(chargeAdjustmentFromRow),
+              disputeCredit: credits.get(c.id),
+            })
+          ),
+        ledgerEntries,
+      });
+    })
+    .sort((a, b) => a.staff.name.localeCompare(b.staff.name));
+}
+
+// Billing Statements Hook: per-staff PDF statements of a billing period, one
+// at a time for the staff portal or all together as a zip for finance
+export function useBillingStatements() {
+  const supabase = createClient();
+  const { checkPermission, logAudit } = useAuth();
+
+  const generateStatement = useCallback(
+    async (staffId: string, billingPeriodId: string) => {
+      const [statement] = await buildStaffStatements(
+        supabase,
+        billingPeriodId,
+        staffId
+      );
+
+      return {
+        statement,
+        fileName: statementFileName(statement),
+        mimeType: "application/pdf",
+        bytes: renderStatementPdf(statement),
+      };
+    },
+    [supabase]
+  );
+
+  const generatePeriodStatements = useCallback(
+    async (billingPeriodId: string) => {
+      if (!checkPermission(PERMISSIONS.BILLING_EXPORT)) {
+        throw new Error("You do not have permission to generate statements");
+      }
+
+      const statements = await buildStaffStatements(supabase, billingPeriodId);
+      if (statements.length === 0) {
+        throw new Error("No staff have charges in this billing period");
+      }
+
+      const bytes = createZip(
+        statements.map((statement) => ({
+          name: statementFileName(statement),
+          data: renderStatementPdf(statement),
+        }))
+      );
+
+      await logAudit({
+        action: AuditAction.EXPORT,
+        tableName: "billing_periods",
+        recordId: statements[0].period.id,
+        newValues: { statements: statements.length },
+      });
+
+      return {
+        count: statements.length,
+        fileName: `statements-${toDateKey(statements[0].period.startDate)}.zip`,
+        mimeType: "application/zip",
+        bytes,
+      };
+    },
+    [supabase, checkPermission, logAudit]
+  );
+
+  return {
+    generateStatement,
+    generatePeriodStatements,
+  };
+}
+
+// Ledger Balances Hook: every staff member's position, for finance reports
+export function useLedgerBalances(asOf?: Date) {
+  const supabase = createClient();
+
+  const fetcher = useCallback(async (): Promise<StaffLedgerBalance[]> => {
+    let query = supabase.from("staff_ledger_entries").select(
+      `
+        *,
+        staff:staff(first_name, last_name, employee_id)
+      `
+    );
+
+    if (asOf) {
+      query = query.lte("entry_date", toDateKey(fromLocalDate(asOf)));
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    const byStaff = new Map<string, { staff: any; entries: LedgerEntry[] }>();
+    (data || []).forEach((row) => {
+      const account = byStaff.get(row.staff_id) ?? {
+        staff: row.staff,
+        entries: [],
+      };
+      account.entries.push(ledgerEntryFromRow(row));
+      byStaff.set(row.staff_id, account);
+    });
+
+    return Array.from(byStaff.entries())
+      .map(([staffId, { staff, entries }]) => ({
+        staffId,
+        staff: {
+          firstName: staff?.first_name ?? "",
+          lastName: staff?.last_name ?? "",
+          employeeId: staff?.employee_id ?? "",
+        },
+        totals: ledgerTotals(entries),
+        balance: ledgerBalance(entries),
+        lastEntryDate: new Date(
+          Math.max(...entries.map((entry) => entry.entryDate.getTime()))
+        ),
+      }))
+      .sort((a, b) => b.balance - a.balance);
+  }, [asOf]);
+
+  const {
+    data: balances,
+    error,
+    mutate,
+    isLoading,
+  } = useSWR(["ledger_balances", asOf], fetcher);
+
+  const totalOutstanding = (balances || []).reduce(
+    (sum, account) => sum + Math.max(account.balance, 0),
+    0
+  );
+
+  return {
+    balances: balances || [],
+    totalOutstanding: Math.round(totalOutstanding * 100) / 100,
+    isLoading,
+    error,
+    refresh: mutate,
+  };
+}
+
+// Imputed Income Hook: housing subsidy reported to payroll as taxable income,
+// year to date per staff member. Periods count towards the year they are paid
+// in, so the query reaches back into December of the year before.
+export function useImputedIncomeReport(year: number = new Date().getFullYear()) {
+  const supabase = createClient();
+
+  const fetcher = useCallback(async (): Promise<ImputedIncomeYtd[]> => {
+    const { data, error } = await supabase
+      .from("imputed_income_lines")
+      .select(
+        `
+          *,
+          payroll_export:payroll_exports!inner(status),
+          billing_period:billing_periods!inner(id, start_date, end_date, pay_date),
+          staff:staff(employee_id, first_name, last_name, department)
+        `
+      )
+      .eq("payroll_export.status", PayrollExportStatus.COMPLETED)
+      .gte("billing_period.end_date", `${year - 1}-12-01`)
+      .lte("billing_period.end_date", `${year}-12-31`);
+
+    if (error) throw error;
+
+    return summarizeImputedIncomeYtd(
+      (data || []).map((row: any) => ({
+        staffId: row.staff_id,
+        lineType: row.line_type as PayrollExportLineType,
+        amount: Number(row.amount),
+        marketValue: Number(row.market_value),
+        rentCharged: Number(row.rent_charged),
+        billingPeriodId: row.billing_period_id,
+        periodStart: toUtcDay(row.billing_period.start_date),
+        periodEnd: toUtcDay(row.billing_period.end_date),
+        payDate: row.billing_period.pay_date
+          ? toUtcDay(row.billing_period.pay_date)
+          : undefined,
+        exportedAt: new Date(row.created_at),
+        staff: row.staff
+          ? {
+              employeeId: row.staff.employee_id ?? undefined,
+              name: `${row.staff.first_name} ${row.staff.last_name}`,
+              department: row.staff.department ?? undefined,
+            }
+          : undefined,
+      })),
+      year
+    );
+  }, [year]);
 
   const {
-    data: payments,
+    data: report,
     error,
     mutate,
     isLoading,
-  } = useSWR(staffId ? ["payment_history", staffId, dateRange] : null, fetcher);
+  } = useSWR(["imputed_income", year], fetcher);
+
+  const totals = (report || []).reduce(
+    (sum, entry) => ({
+      marketValue: sum.marketValue + entry.marketValue,
+      rentCharged: sum.rentCharged + entry.rentCharged,
+      imputedIncome: sum.imputedIncome + entry.imputedIncome,
+    }),
+    { marketValue: 0, rentCharged: 0, imputedIncome: 0 }
+  );
+  const round = (value: number) => Math.round(value * 100) / 100;
 
   return {
-    payments,
+    report: report || [],
+    totals: {
+      marketValue: round(totals.marketValue),
+      rentCharged: round(totals.rentCharged),
+      imputedIncome: round(totals.imputedIncome),
+    },
     isLoading,
     error,
     refresh: mutate,
@@ -3,7 +3,39 @@
 import { useState, useCallback } from "react";
 import useSWR from "swr";
 import { createClient } from "@/lib/supabase/client";
+import { useAuth } from "@/hooks/use-auth";
 import { mockHousingAPI, shouldUseMockData } from "@/lib/api/housing-mock";
+import {
+  rateCardFromRow,
+} from "@/lib/housing/rate-cards";
+import { propertyCostFromRow } from "@/lib/housing/property-costs";
+import {
+  assignableRoomFromRow,
+  assignmentSpanFromRow,
+  BED_CONFLICT_KINDS,
+  BLOCKING_ASSIGNMENT_STATUSES,
+  findAssignmentConflicts,
+  freeBeds,
+  ROOM_CONFLICT_KINDS,
+  suggestAlternativeRooms,
+} from "@/lib/housing/assignment-conflicts";
+import type { AssignmentSpan } from "@/lib/housing/assignment-conflicts";
+import {
+  bedFromRow,
+  bedStayFromRow,
+  roomBedOccupancy,
+  summarizeBedOccupancy,
+} from "@/lib/housing/beds";
+import {
+  ASSIGNMENT_REQUEST_TYPES,
+  canMoveRequest,
+  compareWaitlist,
+  housingRequestFromRow,
+  isRequestOpen,
+  matchHousingRequest,
+  OPEN_REQUEST_STATUSES,
+} from "@/lib/housing/housing-requests";
+import { addUtcDays, toDateKey, toUtcDay } from "@/lib/dates";
 import type {
   Property,
   Room,
@@ -20,10 +52,24 @@ import type {
   HousingFilters,
   OccupancyMetrics,
   RoomAvailability,
+  AssignmentCheck,
+  Bed,
+  CreateBed,
+  UpdateBed,
+  CreateRateCard,
+  UpdateRateCard,
+  RateCardFilters,
+  CreatePropertyCost,
+  UpdatePropertyCost,
   PropertyStatus,
   RoomStatus,
+  CreateHousingRequest,
+  HousingRequestWithStaff,
+  HousingMatch,
+  HousingRequestType,
 } from "@/lib/types/housing";
-import { AssignmentStatus } from "@/lib/types/housing";
+import { AssignmentStatus, HousingRequestStatus } from "@/lib/types/housing";
+import { AuditAction, PERMISSIONS } from "@/lib/types/user";
 
 // Properties Hook
 export function useProperties(filters?: HousingFilters) {
@@ -333,6 +379,429 @@ export function useRooms(propertyId?: string, filters?: HousingFilters) {
   };
 }
 
+// Beds Hook
+export function useBeds(filters?: { propertyId?: string; roomId?: string }) {
+  const supabase = createClient();
+
+  const fetcher = useCallback(async () => {
+    let bedsQuery = supabase
+      .from("beds")
+      .select("*, room:rooms!inner(property_id)")
+      .order("label");
+    let staysQuery = supabase
+      .from("room_assignments")
+      .select(
+        `
+        id, room_id, bed_id, staff_id, start_date, end_date, status,
+        room:rooms!inner(property_id),
+        staff:staff(first_name, last_name)
+      `
+      )
+      .eq("status", AssignmentStatus.ACTIVE);
+
+    if (filters?.roomId) {
+      bedsQuery = bedsQuery.eq("room_id", filters.roomId);
+      staysQuery = staysQuery.eq("room_id", filters.roomId);
+    }
+
+    if (filters?.propertyId) {
+      bedsQuery = bedsQuery.eq("room.property_id", filters.propertyId);
+      staysQuery = staysQuery.eq("room.property_id", filters.propertyId);
+    }
+
+    const [
+      { data: bedRows, error: bedsError },
+      { data: stayRows, error: staysError },
+    ] = await Promise.all([bedsQuery, staysQuery]);
+
+    if (bedsError) throw bedsError;
+    if (staysError) throw staysError;
+
+    return {
+      beds: (bedRows || []).map(bedFromRow),
+      stays: (stayRows || []).map(bedStayFromRow),
+    };
+  }, [filters]);
+
+  const { data, error, mutate, isLoading } = useSWR(
+    ["beds", filters],
+    fetcher
+  );
+
+  // Who is in each of a room's beds today
+  const roomOccupancy = useCallback(
+    (roomId: string) =>
+      roomBedOccupancy(roomId, data?.beds || [], data?.stays || [], new Date()),
+    [data]
+  );
+
+  const createBed = useCallback(
+    async (bedData: CreateBed) => {
+      const { data: created, error } = await supabase
+        .from("beds")
+        .insert([
+          {
+            room_id: bedData.roomId,
+            label: bedData.label,
+            status: bedData.status,
+            out_of_service_reason: bedData.outOfServiceReason ?? null,
+          },
+        ])
+        .select()
+        .single();
+
+      if (error) throw error;
+      await mutate();
+      return bedFromRow(created);
+    },
+    [supabase, mutate]
+  );
+
+  // Putting a bed back in service clears the reason it was taken out
+  const updateBed = useCallback(
+    async (id: string, updates: UpdateBed) => {
+      const { data: updated, error } = await supabase
+        .from("beds")
+        .update({
+          ...(updates.label !== undefined && { label: updates.label }),
+          ...(updates.status !== undefined && { status: updates.status }),
+          ...((updates.outOfServiceReason !== undefined ||
+            updates.status !== undefined) && {
+            out_of_service_reason: updates.outOfServiceReason ?? null,
+          }),
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      await mutate();
+      return bedFromRow(updated) as Bed;
+    },
+    [supabase, mutate]
+  );
+
+  const deleteBed = useCallback(
+    async (id: string) => {
+      const { error } = await supabase.from("beds").delete().eq("id", id);
+
+      if (error) throw error;
+      await mutate();
+    },
+    [supabase, mutate]
+  );
+
+  return {
+    beds: data?.beds,
+    stays: data?.stays,
+    roomOccupancy,
+    isLoading,
+    error,
+    createBed,
+    updateBed,
+    deleteBed,
+    refresh: mutate,
+  };
+}
+
+// Rate Cards Hook
+export function useRateCards(filters?: RateCardFilters) {
+  const supabase = createClient();
+
+  const fetcher = useCallback(async () => {
+    let query = supabase
+      .from("rate_cards")
+      .select("*")
+      .order("effective_from", { ascending: false });
+
+    if (filters?.propertyId) {
+      query = query.eq("property_id", filters.propertyId);
+    }
+
+    if (filters?.roomId) {
+      query = query.eq("room_id", filters.roomId);
+    }
+
+    if (filters?.scope) {
+      query = query.eq("scope", filters.scope);
+    }
+
+    if (filters?.activeOn) {
+      const day = toDateKey(filters.activeOn);
+      query = query
+        .lte("effective_from", day)
+        .or(`effective_to.is.null,effective_to.gte.${day}`);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return (data || []).map(rateCardFromRow);
+  }, [filters]);
+
+  const {
+    data: rateCards,
+    error,
+    mutate,
+    isLoading,
+  } = useSWR(["rate_cards", filters], fetcher);
+
+  // Schedule a new rate. The currently open rate for the same target is
+  // closed the day before so the history stays contiguous.
+  // Closing the rate it supersedes happens in the same transaction
+  const createRateCard = useCallback(
+    async (rateCardData: CreateRateCard) => {
+      const { data, error } = await supabase.rpc("create_rate_card", {
+        p_rate_card: {
+          scope: rateCardData.scope,
+          property_id: rateCardData.propertyId ?? null,
+          room_type: rateCardData.roomType ?? null,
+          room_id: rateCardData.roomId ?? null,
+          monthly_rate: rateCardData.monthlyRate,
+          fair_market_rent: rateCardData.fairMarketRent ?? null,
+          proration_method: rateCardData.prorationMethod ?? null,
+          effective_from: toDateKey(rateCardData.effectiveFrom),
+          effective_to: rateCardData.effectiveTo
+            ? toDateKey(rateCardData.effectiveTo)
+            : null,
+          notes: rateCardData.notes ?? null,
+        },
+      });
+
+      if (error) throw error;
+      await mutate();
+      return rateCardFromRow(data);
+    },
+    [supabase, mutate]
+  );
+
+  const updateRateCard = useCallback(
+    async (id: string, updates: UpdateRateCard) => {
+      const { data, error } = await supabase
+        .from("rate_cards")
+        .update({
+          ...(updates.monthlyRate !== undefined && {
+            monthly_rate: updates.monthlyRate,
+          }),
+          ...(updates.fairMarketRent !== undefined && {
+            fair_market_rent: updates.fairMarketRent,
+          }),
+          ...(updates.prorationMethod !== undefined && {
+            proration_method: updates.prorationMethod,
+          }),
+          ...(updates.effectiveTo !== undefined && {
+            effective_to: toDateKey(updates.effectiveTo),
+          }),
+          ...(updates.notes !== undefined && { notes: updates.notes }),
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      await mutate();
+      return rateCardFromRow(data);
+    },
+    [supabase, mutate]
+  );
+
+  // Deleting a scheduled rate reopens the rate it closed, atomically
+  const deleteRateCard = useCallback(
+    async (id: string) => {
+      const { error } = await supabase.rpc("delete_rate_card", {
+        p_rate_card_id: id,
+      });
+
+      if (error) throw error;
+      await mutate();
+    },
+    [supabase, mutate]
+  );
+
+  return {
+    rateCards,
+    isLoading,
+    error,
+    createRateCard,
+    updateRateCard,
+    deleteRateCard,
+    refresh: mutate,
+  };
+}
+
+// Property Costs Hook
+export function usePropertyCosts(propertyId?: string) {
+  const supabase = createClient();
+
+  const fetcher = useCallback(async () => {
+    let query = supabase
+      .from("property_costs")
+      .select("*")
+      .order("effective_from", { ascending: false });
+
+    if (propertyId) {
+      query = query.eq("property_id", propertyId);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return (data || []).map(propertyCostFromRow);
+  }, [propertyId]);
+
+  const {
+    data: propertyCosts,
+    error,
+    mutate,
+    isLoading,
+  } = useSWR(["property_costs", propertyId], fetcher);
+
+  const createPropertyCost = useCallback(
+    async (costData: CreatePropertyCost) => {
+      const { data, error } = await supabase
+        .from("property_costs")
+        .insert([
+          {
+            property_id: costData.propertyId,
+            category: costData.category,
+            description: costData.description ?? null,
+            monthly_amount: costData.monthlyAmount,
+            effective_from: toDateKey(costData.effectiveFrom),
+            effective_to: costData.effectiveTo
+              ? toDateKey(costData.effectiveTo)
+              : null,
+            notes: costData.notes ?? null,
+          },
+        ])
+        .select()
+        .single();
+
+      if (error) throw error;
+      await mutate();
+      return propertyCostFromRow(data);
+    },
+    [supabase, mutate]
+  );
+
+  const updatePropertyCost = useCallback(
+    async (id: string, updates: UpdatePropertyCost) => {
+      const { data, error } = await supabase
+        .from("property_costs")
+        .update({
+          ...(updates.description !== undefined && {
+            description: updates.description,
+          }),
+          ...(updates.monthlyAmount !== undefined && {
+            monthly_amount: updates.monthlyAmount,
+          }),
+          ...(updates.effectiveTo !== undefined && {
+            effective_to: toDateKey(updates.effectiveTo),
+          }),
+          ...(updates.notes !== undefined && { notes: updates.notes }),
+        })
+        .eq("id", id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      await mutate();
+      return propertyCostFromRow(data);
+    },
+    [supabase, mutate]
+  );
+
+  // Costs already in force may have been allocated; they are ended instead
+  const deletePropertyCost = useCallback(
+    async (id: string) => {
+      const { data: cost } = await supabase
+        .from("property_costs")
+        .select("effective_from")
+        .eq("id", id)
+        .single();
+
+      if (!cost) throw new Error("Property cost not found");
+      if (new Date(cost.effective_from) <= new Date())
+        throw new Error(
+          "Costs already in force cannot be deleted; set an end date instead"
+        );
+
+      const { error } = await supabase
+        .from("property_costs")
+        .delete()
+        .eq("id", id);
+
+      if (error) throw error;
+      await mutate();
+    },
+    [supabase, mutate]
+  );
+
+  return {
+    propertyCosts: propertyCosts || [],
+    isLoading,
+    error,
+    createPropertyCost,
+    updatePropertyCost,
+    deletePropertyCost,
+    refresh: mutate,
+  };
+}
+
+// Most people any room may hold, as the database enforces it
+async function fetchMaxOccupancy(supabase: ReturnType<typeof createClient>) {
+  const { data, error } = await supabase
+    .from("housing_settings")
+    .select("max_occupancy_per_room")
+    .single();
+
+  if (error) throw error;
+  return Number(data.max_occupancy_per_room);
+}
+
+// Rooms, and the active and pending assignments that share a night with the
+// requested stay, for the conflict engine. Suggestions need every room.
+async function fetchAssignmentContext(
+  supabase: ReturnType<typeof createClient>,
+  request: AssignmentSpan
+) {
+  let assignmentsQuery = supabase
+    .from("room_assignments")
+    .select("id, room_id, bed_id, staff_id, start_date, end_date, status")
+    .in("status", BLOCKING_ASSIGNMENT_STATUSES)
+    .or(`end_date.is.null,end_date.gte.${toDateKey(request.startDate)}`);
+
+  if (request.endDate) {
+    assignmentsQuery = assignmentsQuery.lte(
+      "start_date",
+      toDateKey(addUtcDays(request.endDate, 1))
+    );
+  }
+
+  const [
+    { data: rooms, error: roomsError },
+    { data: assignments, error: assignmentsError },
+    maxOccupancy,
+  ] = await Promise.all([
+    supabase
+      .from("rooms")
+      .select(
+        "id, property_id, room_number, room_type, capacity, status, property:properties(name), beds(id, label, status)"
+      ),
+    assignmentsQuery,
+    fetchMaxOccupancy(supabase),
+  ]);
+
+  if (roomsError) throw roomsError;
+  if (assignmentsError) throw assignmentsError;
+
+  return {
+    rooms: (rooms || []).map((row: any) =>
+      assignableRoomFromRow(row, maxOccupancy)
+    ),
+    assignments: (assignments || []).map(assignmentSpanFromRow),
+  };
+}
+
 // Room Assignments Hook
 export function useRoomAssignments(filters?: HousingFilters) {
   const supabase = createClient();
@@ -372,31 +841,69 @@ export function useRoomAssignments(filters?: HousingFilters) {
     isLoading,
   } = useSWR(["room_assignments", filters], fetcher);
 
-  const createAssignment = useCallback(
-    async (assignmentData: CreateRoomAssignment) => {
-      // First check room availability
-      const { data: room } = await supabase
-        .from("room")
-        .select("capacity")
-        .eq("id", assignmentData.roomId)
-        .single();
-
-      if (!room) throw new Error("Room not found");
+  // Conflicts for a stay, with rooms it would fit in when the room itself
+  // is the problem. Room status is checked for new stays unless told
+  // otherwise.
+  const checkAssignment = useCallback(
+    async (
+      request: AssignmentSpan,
+      options: { checkRoomStatus?: boolean } = {}
+    ): Promise<AssignmentCheck> => {
+      const { rooms, assignments } = await fetchAssignmentContext(
+        supabase,
+        request
+      );
+      const conflicts = findAssignmentConflicts(request, rooms, assignments, {
+        checkRoomStatus: options.checkRoomStatus ?? !request.id,
+      });
+      const roomProblem = conflicts.some((conflict) =>
+        ROOM_CONFLICT_KINDS.includes(conflict.kind)
+      );
+      const bedProblem = conflicts.some((conflict) =>
+        BED_CONFLICT_KINDS.includes(conflict.kind)
+      );
+      const room = rooms.find((candidate) => candidate.id === request.roomId);
 
-      // Check current occupancy
-      const { data: currentAssignments } = await supabase
-        .from("room_assignments")
-        .select("*")
-        .eq("room_id", assignmentData.roomId)
-        .eq("status", "active");
+      return {
+        conflicts,
+        alternatives: roomProblem
+          ? suggestAlternativeRooms(request, rooms, assignments)
+          : [],
+        freeBeds:
+          bedProblem && !roomProblem && room
+            ? freeBeds(request, room, assignments)
+            : [],
+      };
+    },
+    [supabase]
+  );
 
-      if (currentAssignments && currentAssignments.length >= room.capacity) {
-        throw new Error("Room is at full capacity");
+  const createAssignment = useCallback(
+    async (assignmentData: CreateRoomAssignment) => {
+      if (BLOCKING_ASSIGNMENT_STATUSES.includes(assignmentData.status)) {
+        const { conflicts } = await checkAssignment(assignmentData);
+        if (conflicts.length > 0) {
+          throw new Error(conflicts.map((conflict) => conflict.message).join("; "));
+        }
       }
 
       const { data, error } = await supabase
         .from("room_assignments")
-        .insert([assignmentData])
+        .insert([
+          {
+            room_id: assignmentData.roomId,
+            bed_id: assignmentData.bedId ?? null,
+            staff_id: assignmentData.staffId,
+            start_date: assignmentData.startDate.toISOString(),
+            end_date: assignmentData.endDate?.toISOString() ?? null,
+            status: assignmentData.status,
+            move_in_date: assignmentData.moveInDate?.toISOString() ?? null,
+            move_out_date: assignmentData.moveOutDate?.toISOString() ?? null,
+            move_out_notice_date: assignmentData.moveOutNoticeDate
+              ? toDateKey(assignmentData.moveOutNoticeDate)
+              : null,
+          },
+        ])
         .select()
         .single();
 
@@ -404,14 +911,64 @@ export function useRoomAssignments(filters?: HousingFilters) {
       await mutate();
       return data as RoomAssignment;
     },
-    [supabase, mutate]
+    [supabase, mutate, checkAssignment]
   );
 
   const updateAssignment = useCallback(
     async (id: string, updates: UpdateRoomAssignment) => {
+      // Longer stays or reopened ones may clash with later bookings
+      if (updates.startDate || updates.endDate || updates.status) {
+        const { data: current, error: currentError } = await supabase
+          .from("room_assignments")
+          .select("id, room_id, bed_id, staff_id, start_date, end_date, status")
+          .eq("id", id)
+          .single();
+
+        if (currentError) throw currentError;
+
+        const existing = assignmentSpanFromRow(current);
+        const request: AssignmentSpan = {
+          ...existing,
+          startDate: updates.startDate ?? existing.startDate,
+          endDate: updates.endDate ?? existing.endDate,
+          status: updates.status ?? existing.status,
+        };
+
+        if (BLOCKING_ASSIGNMENT_STATUSES.includes(request.status)) {
+          // A cancelled or completed stay brought back counts as a new one
+          const { conflicts } = await checkAssignment(
+            BLOCKING_ASSIGNMENT_STATUSES.includes(existing.status)
+              ? request
+              : { ...request, id: undefined }
+          );
+          if (conflicts.length > 0) {
+            throw new Error(conflicts.map((conflict) => conflict.message).join("; "));
+          }
+        }
+      }
+
       const { data, error } = await supabase
         .from("room_assignments")
-        .update({ ...updates, updated_at: new Date().toISOString() })
+        .update({
+          ...(updates.bedId !== undefined && { bed_id: updates.bedId }),
+          ...(updates.startDate !== undefined && {
+            start_date: updates.startDate.toISOString(),
+          }),
+          ...(updates.endDate !== undefined && {
+            end_date: updates.endDate.toISOString(),
+          }),
+          ...(updates.status !== undefined && { status: updates.status }),
+          ...(updates.moveInDate !== undefined && {
+            move_in_date: updates.moveInDate.toISOString(),
+          }),
+          ...(updates.moveOutDate !== undefined && {
+            move_out_date: updates.moveOutDate.toISOString(),
+          }),
+          ...(updates.moveOutNoticeDate !== undefined && {
+            move_out_notice_date: toDateKey(updates.moveOutNoticeDate),
+          }),
+          updated_at: new Date().toISOString(),
+        })
         .eq("id", id)
         .select()
         .single();
@@ -420,15 +977,68 @@ export function useRoomAssignments(filters?: HousingFilters) {
       await mutate();
       return data as RoomAssignment;
     },
-    [supabase, mutate]
+    [supabase, mutate, checkAssignment]
   );
 
+  // Move a staff member to another room, and optionally a bed in it, from
+  // `effectiveDate`. The old assignment ends and the new one starts that day
+  // in one transaction, so each room is billed for its own nights. A future
+  // transfer stays pending until its date.
+  const transferAssignment = useCallback(
+    async (
+      id: string,
+      toRoomId: string,
+      effectiveDate: Date,
+      reason?: string,
+      bedId?: string
+    ) => {
+      const { data: current, error: currentError } = await supabase
+        .from("room_assignments")
+        .select("id, room_id, bed_id, staff_id, start_date, end_date, status")
+        .eq("id", id)
+        .single();
+
+      if (currentError) throw currentError;
+
+      // The stay carries on in the new room, so its own nights there are
+      // left out of the check
+      const existing = assignmentSpanFromRow(current);
+      const { conflicts } = await checkAssignment(
+        {
+          ...existing,
+          roomId: toRoomId,
+          bedId,
+          startDate: toUtcDay(effectiveDate),
+        },
+        { checkRoomStatus: true }
+      );
+      if (conflicts.length > 0) {
+        throw new Error(conflicts.map((conflict) => conflict.message).join("; "));
+      }
+
+      const { data, error } = await supabase.rpc("transfer_room_assignment", {
+        p_assignment_id: id,
+        p_to_room_id: toRoomId,
+        p_effective_date: toDateKey(effectiveDate),
+        p_reason: reason ?? null,
+        p_bed_id: bedId ?? null,
+      });
+
+      if (error) throw error;
+      await mutate();
+      return data as RoomAssignment;
+    },
+    [supabase, mutate, checkAssignment]
+  );
+
+  // Pass the date notice was given so short notice can be charged
   const completeAssignment = useCallback(
-    async (id: string, moveOutDate?: Date) => {
+    async (id: string, moveOutDate?: Date, noticeDate?: Date) => {
       const updates: UpdateRoomAssignment = {
         status: AssignmentStatus.COMPLETED,
         moveOutDate: moveOutDate || new Date(),
         endDate: moveOutDate || new Date(),
+        ...(noticeDate && { moveOutNoticeDate: noticeDate }),
       };
 
       return updateAssignment(id, updates);
@@ -451,10 +1061,12 @@ export function useRoomAssignments(filters?: HousingFilters) {
     assignments,
     isLoading,
     error,
+    checkAssignment,
     createAssignment,
     updateAssignment,
     completeAssignment,
     cancelAssignment,
+    transferAssignment,
     refresh: mutate,
   };
 }
@@ -474,16 +1086,25 @@ export function useHousingAnalytics(dateRange?: { start: Date; end: Date }) {
       .from("room")
       .select("id, capacity, status");
 
+    const { data: beds } = await supabase.from("beds").select("*");
+
     // Get current active assignments
     const { data: activeAssignments } = await supabase
       .from("room_assignments")
-      .select("room_id")
+      .select("id, room_id, bed_id, staff_id, start_date, end_date, status")
       .eq("status", "active");
 
+    // Occupancy is counted in beds, as of today
+    const bedCounts = summarizeBedOccupancy(
+      rooms || [],
+      (beds || []).map(bedFromRow),
+      (activeAssignments || []).map(bedStayFromRow),
+      new Date()
+    );
+
     const totalProperties = properties?.length || 0;
     const totalRooms = rooms?.length || 0;
-    const totalCapacity =
-      rooms?.reduce((sum, room) => sum + room.capacity, 0) || 0;
+    const totalCapacity = bedCounts.occupiedBeds + bedCounts.availableBeds;
     const occupiedRooms = new Set(activeAssignments?.map((a) => a.room_id))
       .size;
     const availableRooms =
@@ -491,7 +1112,7 @@ export function useHousingAnalytics(dateRange?: { start: Date; end: Date }) {
     const maintenanceRooms =
       rooms?.filter((r) => r.status === "maintenance").length || 0;
     const occupancyRate =
-      totalCapacity > 0 ? (occupiedRooms / totalCapacity) * 100 : 0;
+      totalCapacity > 0 ? (bedCounts.occupiedBeds / totalCapacity) * 100 : 0;
 
     return {
       totalProperties,
@@ -501,6 +1122,7 @@ export function useHousingAnalytics(dateRange?: { start: Date; end: Date }) {
       occupancyRate,
       availableRooms,
       maintenanceRooms,
+      ...bedCounts,
     };
   }, [dateRange]);
 
@@ -670,27 +1292,19 @@ export function useRoomDetails(roomId?: string) {
 // Housing Requests Hook (for staff self-service)
 export function useHousingRequests(staffId?: string) {
   const supabase = createClient();
+  const { user } = useAuth();
 
   const fetcher = useCallback(async () => {
     if (!staffId) return [];
 
-    // Mock data for now - replace with actual API call
-    return [
-      {
-        id: "1",
-        staffId,
-        type: "room_change",
-        title: "Request room change",
-        description: "Current room is too noisy",
-        status: "pending",
-        priority: "medium",
-        submittedAt: new Date("2024-01-15"),
-        reviewedAt: null,
-        reviewedBy: null,
-        notes: null,
-        attachments: [],
-      },
-    ];
+    const { data, error } = await supabase
+      .from("housing_requests")
+      .select("*")
+      .eq("staff_id", staffId)
+      .order("created_at", { ascending: false });
+
+    if (error) throw error;
+    return (data || []).map(housingRequestFromRow);
   }, [staffId]);
 
   const {
@@ -701,26 +1315,76 @@ export function useHousingRequests(staffId?: string) {
   } = useSWR(staffId ? ["housing_requests", staffId] : null, fetcher);
 
   const submitRequest = useCallback(
-    async (request: any) => {
+    async (request: Omit<CreateHousingRequest, "staffId">) => {
       if (!staffId) throw new Error("Staff ID is required");
 
-      // Mock submission - replace with actual API call
-      const newRequest = {
-        id: Date.now().toString(),
-        staffId,
-        ...request,
-        status: "pending",
-        submittedAt: new Date(),
-        reviewedAt: null,
-        reviewedBy: null,
-        notes: null,
-      };
+      // Room changes and move-outs are about the assignment held now
+      let currentAssignmentId = request.currentAssignmentId;
+      if (!currentAssignmentId && ASSIGNMENT_REQUEST_TYPES.includes(request.type)) {
+        const { data: current, error: currentError } = await supabase
+          .from("room_assignments")
+          .select("id")
+          .eq("staff_id", staffId)
+          .eq("status", AssignmentStatus.ACTIVE)
+          .order("start_date", { ascending: false })
+          .limit(1)
+          .maybeSingle();
+
+        if (currentError) throw currentError;
+        if (!current) {
+          throw new Error("You have no active room assignment to change");
+        }
+        currentAssignmentId = current.id;
+      }
+
+      const { data, error } = await supabase
+        .from("housing_requests")
+        .insert([
+          {
+            staff_id: staffId,
+            request_type: request.type,
+            title: request.title,
+            description: request.description ?? null,
+            requested_start_date: request.requestedStartDate
+              ? toDateKey(request.requestedStartDate)
+              : null,
+            requested_end_date: request.requestedEndDate
+              ? toDateKey(request.requestedEndDate)
+              : null,
+            preferred_property_id: request.preferredPropertyId ?? null,
+            preferred_room_type: request.preferredRoomType ?? null,
+            preferred_amenities: request.preferredAmenities || [],
+            current_assignment_id: currentAssignmentId ?? null,
+            created_by: user?.id ?? null,
+          },
+        ])
+        .select()
+        .single();
+
+      if (error) throw error;
+      await mutate();
+      return housingRequestFromRow(data);
+    },
+    [supabase, staffId, user, mutate]
+  );
 
-      mutate([...(requests || []), newRequest], false);
+  // Staff may withdraw a request until it is decided
+  const cancelRequest = useCallback(
+    async (id: string) => {
+      const { data, error } = await supabase
+        .from("housing_requests")
+        .update({ status: HousingRequestStatus.CANCELLED })
+        .eq("id", id)
+        .in("status", OPEN_REQUEST_STATUSES)
+        .select("id");
 
-      return newRequest;
+      if (error) throw error;
+      if (!data?.length) {
+        throw new Error("Only requests that are still open can be cancelled");
+      }
+      await mutate();
     },
-    [staffId, requests, mutate]
+    [supabase, mutate]
   );
 
   return {
@@ -728,6 +1392,213 @@ export function useHousingRequests(staffId?: string) {
     isLoading,
     error,
     submitRequest,
+    cancelRequest,
+    refresh: mutate,
+  };
+}
+
+// Rooms with their amenities, and the active and pending assignments from
+// `startDate` on with their staff member's department, for the matcher
+async function fetchMatchingContext(
+  supabase: ReturnType<typeof createClient>,
+  startDate: Date
+) {
+  const [
+    { data: rooms, error: roomsError },
+    { data: assignments, error: assignmentsError },
+    maxOccupancy,
+  ] = await Promise.all([
+    supabase
+      .from("rooms")
+      .select(
+        "id, property_id, room_number, room_type, capacity, status, amenities, property:properties(name), beds(id, label, status)"
+      ),
+    supabase
+      .from("room_assignments")
+      .select(
+        "id, room_id, bed_id, staff_id, start_date, end_date, status, staff:staff(department)"
+      )
+      .in("status", BLOCKING_ASSIGNMENT_STATUSES)
+      .or(`end_date.is.null,end_date.gte.${toDateKey(startDate)}`),
+    fetchMaxOccupancy(supabase),
+  ]);
+
+  if (roomsError) throw roomsError;
+  if (assignmentsError) throw assignmentsError;
+
+  return {
+    rooms: (rooms || []).map((row: any) => ({
+      ...assignableRoomFromRow(row, maxOccupancy),
+      amenities: row.amenities || [],
+    })),
+    assignments: (assignments || []).map((row: any) => ({
+      ...assignmentSpanFromRow(row),
+      department: row.staff?.department ?? undefined,
+    })),
+  };
+}
+
+// Housing Request Queue Hook: every request, for property managers
+export function useHousingRequestQueue(filters?: {
+  status?: HousingRequestStatus | "open";
+  type?: HousingRequestType;
+}) {
+  const supabase = createClient();
+  const { user, checkPermission, logAudit } = useAuth();
+
+  const fetcher = useCallback(async () => {
+    let query = supabase
+      .from("housing_requests")
+      .select(
+        "*, staff:staff(first_name, last_name, employee_id, department, housing_eligible)"
+      )
+      .order("created_at", { ascending: false });
+
+    if (filters?.status === "open") {
+      query = query.in("status", OPEN_REQUEST_STATUSES);
+    } else if (filters?.status) {
+      query = query.eq("status", filters.status);
+    }
+
+    if (filters?.type) {
+      query = query.eq("request_type", filters.type);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    // Open requests come first in waitlist order, then the rest newest first
+    return (data || [])
+      .map(housingRequestFromRow)
+      .sort(
+        (a, b) =>
+          Number(isRequestOpen(b.status)) - Number(isRequestOpen(a.status)) ||
+          (isRequestOpen(a.status) ? compareWaitlist(a, b) : 0)
+      );
+  }, [filters]);
+
+  const {
+    data: requests,
+    error,
+    mutate,
+    isLoading,
+  } = useSWR(["housing_request_queue", filters], fetcher);
+
+  const requireReviewer = useCallback(() => {
+    if (!user) throw new Error("You must be signed in to review housing requests");
+    if (!checkPermission(PERMISSIONS.HOUSING_UPDATE)) {
+      throw new Error("You do not have permission to review housing requests");
+    }
+    return user;
+  }, [user, checkPermission]);
+
+  // Rooms, or beds, that could take the request, best first
+  const findMatches = useCallback(
+    async (request: HousingRequestWithStaff, limit?: number) => {
+      const { rooms, assignments } = await fetchMatchingContext(
+        supabase,
+        toUtcDay(request.requestedStartDate ?? new Date())
+      );
+
+      return matchHousingRequest(
+        request,
+        {
+          department: request.staff?.department,
+          housingEligible: request.staff?.housingEligible ?? false,
+        },
+        rooms,
+        assignments,
+        { limit }
+      );
+    },
+    [supabase]
+  );
+
+  // Approving makes the assignment, transfer or move-out in one transaction
+  const approveRequest = useCallback(
+    async (
+      request: HousingRequestWithStaff,
+      match?: Pick<HousingMatch, "roomId" | "bedId">,
+      options: { effectiveDate?: Date; response?: string } = {}
+    ) => {
+      requireReviewer();
+
+      const { data, error } = await supabase.rpc("approve_housing_request", {
+        p_request_id: request.id,
+        p_room_id: match?.roomId ?? null,
+        p_bed_id: match?.bedId ?? null,
+        p_effective_date: options.effectiveDate
+          ? toDateKey(options.effectiveDate)
+          : null,
+        p_response: options.response?.trim() || null,
+      });
+
+      if (error) throw error;
+      await logAudit({
+        action: AuditAction.UPDATE,
+        tableName: "housing_requests",
+        recordId: request.id,
+        oldValues: { status: request.status },
+        newValues: {
+          status: HousingRequestStatus.APPROVED,
+          room_id: match?.roomId ?? null,
+          bed_id: match?.bedId ?? null,
+          assignment_id: data?.assignment_id ?? null,
+        },
+      });
+
+      await mutate();
+      return housingRequestFromRow(data);
+    },
+    [supabase, mutate, requireReviewer, logAudit]
+  );
+
+  // Review, waitlist, reject or complete a request
+  const moveRequest = useCallback(
+    async (
+      request: HousingRequestWithStaff,
+      status: HousingRequestStatus,
+      response?: string
+    ) => {
+      const reviewer = requireReviewer();
+      if (!canMoveRequest(request.status, status)) {
+        throw new Error(
+          `A ${request.status.replace("_", " ")} request cannot be moved to ${status.replace("_", " ")}`
+        );
+      }
+
+      const updates = {
+        status,
+        ...(response?.trim() && { response: response.trim() }),
+        reviewed_by: reviewer.id,
+        reviewed_at: new Date().toISOString(),
+      };
+      const { error } = await supabase
+        .from("housing_requests")
+        .update(updates)
+        .eq("id", request.id);
+
+      if (error) throw error;
+      await logAudit({
+        action: AuditAction.UPDATE,
+        tableName: "housing_requests",
+        recordId: request.id,
+        oldValues: { status: request.status, response: request.response },
+        newValues: updates,
+      });
+
+      await mutate();
+    },
+    [supabase, mutate, requireReviewer, logAudit]
+  );
+
+  return {
+    requests: requests || [],
+    isLoading,
+    error,
+    findMatches,
+    approveRequest,
+    moveRequest,
     refresh: mutate,
   };
 }
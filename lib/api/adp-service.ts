@@ -1,4 +1,11 @@
 import axios from 'axios';
+import { netDeductionInputs, netEarningInputs } from '@/lib/billing/payroll-delivery';
+import {
+  PayrollRowStatus,
+  type ChargeType,
+  type PayrollExportData,
+  type PayrollRowResult,
+} from '@/lib/types/billing';
 
 // ADP API configuration
 const ADP_AUTH_URL = 'https://accounts.adp.com/auth/oauth/v2/token';
@@ -10,11 +17,39 @@ const WFN_ENDPOINTS = {
   payroll: '/payroll/v1/workers',
   timeAndAttendance: '/time/v2/workers',
   benefits: '/benefits/v1/workers',
+  payDataInput: '/events/payroll/v1/pay-data-input.modify',
+  timeCards: (associateOID: string) => `/time/v2/workers/${associateOID}/time-cards`,
+  payStatements: (associateOID: string) => `/payroll/v1/workers/${associateOID}/pay-statements`,
 };
 
 interface ADPCredentials {
   clientId: string;
   clientSecret: string;
+  // Override to point at a sandbox or the local mock server
+  apiBaseUrl?: string;
+  authUrl?: string;
+}
+
+interface ADPPayDataOptions {
+  payrollGroupCode?: string;
+  batchId?: string;
+  // Earnings code for imputed income; rows with some are not sent without it
+  imputedIncomeCode?: string;
+}
+
+interface ADPDeductionInput {
+  deductionCode: string;
+  amount: number;
+}
+
+interface ADPEarningInput {
+  earningCode: string;
+  amount: number;
+}
+
+interface ADPPeriodPay {
+  hoursWorked: number;
+  grossPay: number;
 }
 
 interface ADPTokenResponse {
@@ -30,11 +65,17 @@ class ADPService {
   private accessToken: string = "";
   private tokenExpiry: number = 0;
   private product: string;
+  private apiBaseUrl: string;
+  private authUrl: string;
 
   constructor(credentials: ADPCredentials, product: string = 'Workforce Now') {
     this.clientId = credentials.clientId;
     this.clientSecret = credentials.clientSecret;
     this.product = product;
+    this.apiBaseUrl = credentials.apiBaseUrl || ADP_API_BASE_URL;
+    // The mock server serves the token endpoint next to the API
+    this.authUrl = credentials.authUrl ||
+      (credentials.apiBaseUrl ? `${credentials.apiBaseUrl}/auth/oauth/v2/token` : ADP_AUTH_URL);
   }
 
   /**
@@ -52,7 +93,7 @@ class ADPService {
       const auth = Buffer.from(`${this.clientId}:${this.clientSecret}`).toString('base64');
       
       const response = await axios.post<ADPTokenResponse>(
-        ADP_AUTH_URL,
+        this.authUrl,
         'grant_type=client_credentials',
         {
           headers: {
@@ -81,7 +122,7 @@ class ADPService {
     const token = await this.getAccessToken();
     
     return axios.create({
-      baseURL: ADP_API_BASE_URL,
+      baseURL: this.apiBaseUrl,
       headers: {
         'Authorization': `Bearer ${token}`,
         'Content-Type': 'application/json'
@@ -170,6 +211,200 @@ class ADPService {
     }
   }
 
+  /**
+   * Find a worker's associate OID from their employee (file) number
+   */
+  async getWorkerByEmployeeId(employeeId: string): Promise<string | null> {
+    const client = await this.createApiClient();
+    const response = await client.get(WFN_ENDPOINTS.workers, {
+      params: {
+        $filter: `workers/workerID/idValue eq '${employeeId.replace(/'/g, "''")}'`,
+        $top: 1
+      }
+    });
+
+    return response.data?.workers?.[0]?.associateOID ?? null;
+  }
+
+  /**
+   * Submit one-time deduction inputs, and any earning inputs such as imputed
+   * income, for a worker's next pay run
+   */
+  async submitDeductionInputs(
+    associateOID: string,
+    deductions: ADPDeductionInput[],
+    options: ADPPayDataOptions = {},
+    earnings: ADPEarningInput[] = []
+  ): Promise<{ eventId?: string }> {
+    const client = await this.createApiClient();
+    const response = await client.post(WFN_ENDPOINTS.payDataInput, {
+      events: [
+        {
+          data: {
+            eventContext: {
+              worker: { associateOID }
+            },
+            transform: {
+              payDataInput: {
+                payeePayInputs: [
+                  {
+                    payrollGroupCode: options.payrollGroupCode
+                      ? { codeValue: options.payrollGroupCode }
+                      : undefined,
+                    payrollBatchNumber: options.batchId || undefined,
+                    payInputs: [
+                      {
+                        deductionInputs: deductions.map((deduction) => ({
+                          deductionCode: { codeValue: deduction.deductionCode },
+                          deductionAmount: {
+                            amountValue: Number(deduction.amount.toFixed(2)),
+                            currencyCode: 'USD'
+                          }
+                        })),
+                        earningInputs: earnings.length
+                          ? earnings.map((earning) => ({
+                              earningCode: { codeValue: earning.earningCode },
+                              earningAmount: {
+                                amountValue: Number(earning.amount.toFixed(2)),
+                                currencyCode: 'USD'
+                              }
+                            }))
+                          : undefined
+                      }
+                    ]
+                  }
+                ]
+              }
+            }
+          }
+        }
+      ]
+    });
+
+    return { eventId: response.data?.events?.[0]?.eventID };
+  }
+
+  /**
+   * Push payroll export rows to ADP as deduction inputs, one event per
+   * employee. An employee's rows are netted per deduction code first, since
+   * ADP takes no negative deductions; a code that still nets to a credit fails
+   * the employee's rows so the refund is paid another way. Each employee
+   * succeeds or fails on their own; failures are returned, not thrown.
+   */
+  async submitPayrollDeductions(
+    rows: PayrollExportData[],
+    deductionCodes: Record<ChargeType, string>,
+    options: ADPPayDataOptions = {}
+  ): Promise<PayrollRowResult[]> {
+    const byEmployee = new Map<string, PayrollExportData[]>();
+    rows.forEach((row) => {
+      byEmployee.set(row.employeeId, [...(byEmployee.get(row.employeeId) ?? []), row]);
+    });
+
+    const results: PayrollRowResult[] = [];
+
+    for (const [employeeId, employeeRows] of byEmployee) {
+      const outcome = (result: Partial<PayrollRowResult>) =>
+        employeeRows.forEach((row) =>
+          results.push({
+            employeeId,
+            lineType: row.lineType,
+            amount: row.totalDeductions,
+            status: PayrollRowStatus.FAILED,
+            attempts: 1,
+            submittedAt: new Date(),
+            ...result
+          })
+        );
+      let associateOID: string | null = null;
+
+      try {
+        associateOID = await this.getWorkerByEmployeeId(employeeId);
+        if (!associateOID) {
+          throw new Error(`No ADP worker found for employee ${employeeId}`);
+        }
+
+        const earnings = netEarningInputs(employeeRows, options.imputedIncomeCode ?? '');
+        if (earnings.length && !options.imputedIncomeCode) {
+          throw new Error('No earnings code is configured for imputed income');
+        }
+
+        const deductions = netDeductionInputs(employeeRows, deductionCodes);
+        const credits = deductions.filter((deduction) => deduction.amount < 0);
+        if (credits.length) {
+          throw new Error(
+            `Employee ${employeeId} is owed ${credits
+              .map((credit) => `${(-credit.amount).toFixed(2)} under ${credit.deductionCode}`)
+              .join(', ')}; ADP does not take negative deductions, so refund it outside this export`
+          );
+        }
+
+        // Lines that cancel out leave nothing to send
+        const { eventId } =
+          deductions.length || earnings.length
+            ? await this.submitDeductionInputs(associateOID, deductions, options, earnings)
+            : { eventId: undefined };
+        outcome({ status: PayrollRowStatus.SUBMITTED, workerId: associateOID, eventId });
+      } catch (error) {
+        const message = adpErrorMessage(error);
+        console.error(`Error submitting deductions for ${employeeId} to ADP:`, message);
+        outcome({ workerId: associateOID ?? undefined, error: message });
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Hours from a worker's time cards and gross pay from their pay statements
+   * for one pay period (dates as YYYY-MM-DD)
+   */
+  async getPeriodHoursAndPay(
+    employeeId: string,
+    startDate: string,
+    endDate: string
+  ): Promise<ADPPeriodPay> {
+    const associateOID = await this.getWorkerByEmployeeId(employeeId);
+    if (!associateOID) {
+      throw new Error(`No ADP worker found for employee ${employeeId}`);
+    }
+
+    const client = await this.createApiClient();
+    const [timeCards, payStatements] = await Promise.all([
+      client.get(WFN_ENDPOINTS.timeCards(associateOID), {
+        params: { startDate, endDate }
+      }),
+      client.get(WFN_ENDPOINTS.payStatements(associateOID), {
+        params: { numberoflastpaydates: 6 }
+      })
+    ]);
+
+    const overlaps = (period?: { startDate?: string; endDate?: string }) =>
+      !!period?.startDate && period.startDate <= endDate && (period.endDate ?? period.startDate) >= startDate;
+
+    const hoursWorked = (timeCards.data?.timeCards ?? [])
+      .filter((card: any) => overlaps(card.timePeriod))
+      .flatMap((card: any) => card.periodTotals ?? [])
+      .reduce((sum: number, total: any) => sum + durationHours(total.timeDuration), 0);
+
+    // Statements for the period, or paid within it when no pay period is given
+    const grossPay = (payStatements.data?.payStatements ?? [])
+      .filter((statement: any) =>
+        statement.payPeriod
+          ? overlaps(statement.payPeriod)
+          : statement.payDate >= startDate && statement.payDate <= endDate
+      )
+      .reduce(
+        (sum: number, statement: any) => sum + Number(statement.grossPayAmount?.amountValue ?? 0),
+        0
+      );
+
+    return {
+      hoursWorked: Math.round(hoursWorked * 100) / 100,
+      grossPay: Math.round(grossPay * 100) / 100
+    };
+  }
+
   /**
    * Test the connection to ADP API
    */
@@ -189,4 +424,22 @@ class ADPService {
   }
 }
 
+// ISO 8601 durations as ADP reports them, e.g. "PT38H30M"
+function durationHours(duration?: string): number {
+  const match = /^PT(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?$/.exec(duration ?? '');
+  if (!match) return 0;
+  return Number(match[1] ?? 0) + Number(match[2] ?? 0) / 60;
+}
+
+// ADP puts the useful text in confirmMessage; fall back to the HTTP error
+function adpErrorMessage(error: unknown): string {
+  if (axios.isAxiosError(error)) {
+    const message =
+      error.response?.data?.confirmMessage?.processMessages?.[0]?.userMessage?.messageTxt;
+    return message || error.message;
+  }
+  return error instanceof Error ? error.message : 'Unknown error';
+}
+
+export { adpErrorMessage };
 export default ADPService;
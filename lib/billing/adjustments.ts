@@ -0,0 +1,109 @@
+import type {
+  ChargeAdjustment,
+  ChargeAdjustmentSummary,
+  CreateChargeAdjustment,
+} from "@/lib/types/billing";
+import { ChargeAdjustmentType } from "@/lib/types/billing";
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+// Adjustments as stored; amounts may still be the database's decimal strings
+type AdjustmentAmount = Pick<ChargeAdjustment, "type"> & {
+  amount: number | string;
+};
+
+export const isCreditAdjustment = (type: ChargeAdjustmentType) =>
+  type === ChargeAdjustmentType.CREDIT_NOTE ||
+  type === ChargeAdjustmentType.REVERSAL;
+
+// What an adjustment adds to (debits) or takes off (credits) its charge
+export const signedAdjustmentAmount = (adjustment: AdjustmentAmount) =>
+  isCreditAdjustment(adjustment.type)
+    ? -Number(adjustment.amount)
+    : Number(adjustment.amount);
+
+/**
+ * A charge's effective (prorated) amount with its adjustments applied. Credits
+ * never take a charge below zero.
+ */
+export function summarizeAdjustments(
+  effectiveAmount: number,
+  adjustments: AdjustmentAmount[] = []
+): ChargeAdjustmentSummary {
+  const credited = roundCurrency(
+    adjustments
+      .filter((adjustment) => isCreditAdjustment(adjustment.type))
+      .reduce((sum, adjustment) => sum + Number(adjustment.amount), 0)
+  );
+  const debited = roundCurrency(
+    adjustments
+      .filter((adjustment) => !isCreditAdjustment(adjustment.type))
+      .reduce((sum, adjustment) => sum + Number(adjustment.amount), 0)
+  );
+  return {
+    effectiveAmount: roundCurrency(effectiveAmount),
+    credited,
+    debited,
+    netAmount: roundCurrency(Math.max(effectiveAmount + debited - credited, 0)),
+    reversed: adjustments.some(
+      (adjustment) => adjustment.type === ChargeAdjustmentType.REVERSAL
+    ),
+  };
+}
+
+export const netChargeAmount = (
+  effectiveAmount: number,
+  adjustments: AdjustmentAmount[] = []
+) => summarizeAdjustments(effectiveAmount, adjustments).netAmount;
+
+// Adjustments grouped by the charge they adjust
+export function adjustmentsByCharge<
+  T extends AdjustmentAmount & { chargeId: string }
+>(adjustments: T[]): Map<string, T[]> {
+  const byCharge = new Map<string, T[]>();
+  adjustments.forEach((adjustment) => {
+    byCharge.set(adjustment.chargeId, [
+      ...(byCharge.get(adjustment.chargeId) || []),
+      adjustment,
+    ]);
+  });
+  return byCharge;
+}
+
+/**
+ * Amount a new adjustment is recorded at. Reversals take whatever is left of
+ * the charge and credit notes cannot take more than that; a reversed charge
+ * cannot be adjusted again. Throws when the adjustment is not allowed.
+ */
+export function adjustmentAmount(
+  adjustment: Pick<CreateChargeAdjustment, "type" | "amount">,
+  summary: ChargeAdjustmentSummary
+): number {
+  if (summary.reversed) {
+    throw new Error("This charge has been reversed and cannot be adjusted");
+  }
+
+  switch (adjustment.type) {
+    case ChargeAdjustmentType.REVERSAL:
+      if (summary.netAmount === 0) {
+        throw new Error("Nothing is left of this charge to reverse");
+      }
+      return summary.netAmount;
+    case ChargeAdjustmentType.CREDIT_NOTE: {
+      const credit = roundCurrency(adjustment.amount ?? 0);
+      if (credit <= 0 || credit > summary.netAmount) {
+        throw new Error(
+          `A credit note must be more than $0.00 and at most $${summary.netAmount.toFixed(2)}`
+        );
+      }
+      return credit;
+    }
+    case ChargeAdjustmentType.DEBIT: {
+      const debit = roundCurrency(adjustment.amount ?? 0);
+      if (debit <= 0) {
+        throw new Error("A debit adjustment must be more than $0.00");
+      }
+      return debit;
+    }
+  }
+}
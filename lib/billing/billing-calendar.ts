@@ -0,0 +1,264 @@
+import type {
+  BillingCalendar,
+  BillingCalendarEntry,
+  BillingCalendarIssue,
+  BillingCalendarSettings,
+  CalendarPeriod,
+  PayrollHoliday,
+} from "@/lib/types/billing";
+import { BillingCalendarIssueType, PayDateShift } from "@/lib/types/billing";
+import { ERP_CONFIG } from "@/lib/config/erp";
+import { addUtcDays, daysBetween, toDateKey, toUtcDay } from "@/lib/dates";
+
+export const DEFAULT_CALENDAR_SETTINGS: Omit<
+  BillingCalendarSettings,
+  "seedPayDate"
+> = {
+  cycleDays: ERP_CONFIG.billing.billingCycleDays,
+  payDateLagDays: ERP_CONFIG.billing.payDateLagDays,
+  payrollLeadDays: ERP_CONFIG.billing.payrollLeadDays,
+  payDateShift: ERP_CONFIG.billing.payDateShift as PayDateShift,
+  extraHolidays: [],
+};
+
+const WEEKDAY_NAMES = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+// The nth (1-based) given weekday of a month; n = -1 is the last one
+function nthWeekday(year: number, month: number, weekday: number, n: number) {
+  if (n < 0) {
+    const last = new Date(Date.UTC(year, month + 1, 0));
+    return addUtcDays(last, -((last.getUTCDay() - weekday + 7) % 7));
+  }
+  const first = new Date(Date.UTC(year, month, 1));
+  return addUtcDays(first, ((weekday - first.getUTCDay() + 7) % 7) + (n - 1) * 7);
+}
+
+// Fixed-date holidays on a Saturday are observed the Friday before, and on a
+// Sunday the Monday after
+function observed(date: Date) {
+  const weekday = date.getUTCDay();
+  if (weekday === 6) return addUtcDays(date, -1);
+  if (weekday === 0) return addUtcDays(date, 1);
+  return date;
+}
+
+/**
+ * The US federal holidays observed in a year. New Year's Day falling on a
+ * Saturday is observed on Dec 31 of the year before, so it is listed there.
+ */
+export function federalHolidays(year: number): PayrollHoliday[] {
+  const fixed = (month: number, day: number) =>
+    observed(new Date(Date.UTC(year, month, day)));
+
+  const holidays: PayrollHoliday[] = [
+    { date: fixed(0, 1), name: "New Year's Day" },
+    { date: nthWeekday(year, 0, 1, 3), name: "Martin Luther King Jr. Day" },
+    { date: nthWeekday(year, 1, 1, 3), name: "Presidents' Day" },
+    { date: nthWeekday(year, 4, 1, -1), name: "Memorial Day" },
+    { date: fixed(5, 19), name: "Juneteenth" },
+    { date: fixed(6, 4), name: "Independence Day" },
+    { date: nthWeekday(year, 8, 1, 1), name: "Labor Day" },
+    { date: nthWeekday(year, 9, 1, 2), name: "Columbus Day" },
+    { date: fixed(10, 11), name: "Veterans Day" },
+    { date: nthWeekday(year, 10, 4, 4), name: "Thanksgiving Day" },
+    { date: fixed(11, 25), name: "Christmas Day" },
+  ];
+
+  const nextNewYear = observed(new Date(Date.UTC(year + 1, 0, 1)));
+  if (nextNewYear.getUTCFullYear() === year) {
+    holidays.push({ date: nextNewYear, name: "New Year's Day" });
+  }
+
+  return holidays.filter((holiday) => holiday.date.getUTCFullYear() === year);
+}
+
+// Holidays by date key for every year between `from` and `to`, plus the
+// company's own
+function holidayCalendar(from: Date, to: Date, extra: Date[]) {
+  const holidays = new Map<string, string>();
+  for (
+    let year = from.getUTCFullYear();
+    year <= to.getUTCFullYear();
+    year += 1
+  ) {
+    federalHolidays(year).forEach((holiday) =>
+      holidays.set(toDateKey(holiday.date), holiday.name)
+    );
+  }
+  extra.forEach((date) => {
+    if (!holidays.has(toDateKey(date))) {
+      holidays.set(toDateKey(date), "Company holiday");
+    }
+  });
+  return holidays;
+}
+
+// Why a day is not a business day, or undefined when it is one
+function dayOffReason(day: Date, holidays: Map<string, string>) {
+  const weekday = day.getUTCDay();
+  if (weekday === 0 || weekday === 6) return WEEKDAY_NAMES[weekday];
+  return holidays.get(toDateKey(day));
+}
+
+// The same calendar day a year later; Feb 29 becomes Mar 1
+function addUtcYear(value: Date) {
+  const day = toUtcDay(value);
+  return new Date(
+    Date.UTC(day.getUTCFullYear() + 1, day.getUTCMonth(), day.getUTCDate())
+  );
+}
+
+// Pay dates one cycle apart from the seed pay date, for one year
+export function scheduledPayDates(
+  settings: Pick<BillingCalendarSettings, "seedPayDate" | "cycleDays">
+): Date[] {
+  const seed = toUtcDay(settings.seedPayDate);
+  const until = addUtcYear(seed);
+  const dates: Date[] = [];
+  for (let day = seed; day < until; day = addUtcDays(day, settings.cycleDays)) {
+    dates.push(day);
+  }
+  return dates;
+}
+
+// First and last day the calendar's periods cover
+export function calendarSpan(settings: BillingCalendarSettings) {
+  const payDates = scheduledPayDates(settings);
+  const lastDay = (payDate: Date) =>
+    addUtcDays(payDate, -settings.payDateLagDays);
+  return {
+    startDate: addUtcDays(lastDay(payDates[0]), 1 - settings.cycleDays),
+    endDate: lastDay(payDates[payDates.length - 1]),
+  };
+}
+
+const overlaps = (a: CalendarPeriod, b: CalendarPeriod) =>
+  toUtcDay(a.startDate) <= toUtcDay(b.endDate) &&
+  toUtcDay(b.startDate) <= toUtcDay(a.endDate);
+
+const sameDates = (a: CalendarPeriod, b: CalendarPeriod) =>
+  toDateKey(a.startDate) === toDateKey(b.startDate) &&
+  toDateKey(a.endDate) === toDateKey(b.endDate);
+
+/**
+ * Gaps and overlaps between consecutive periods, both days included. Days
+ * before the first period and after the last are not gaps.
+ */
+export function findCalendarIssues(
+  periods: CalendarPeriod[]
+): BillingCalendarIssue[] {
+  const sorted = [...periods].sort(
+    (a, b) =>
+      toUtcDay(a.startDate).getTime() - toUtcDay(b.startDate).getTime() ||
+      toUtcDay(a.endDate).getTime() - toUtcDay(b.endDate).getTime()
+  );
+  const issues: BillingCalendarIssue[] = [];
+  const ids = (...list: CalendarPeriod[]) =>
+    list.flatMap((period) => (period.id ? [period.id] : []));
+
+  let covering: CalendarPeriod | undefined;
+  sorted.forEach((period) => {
+    const startDate = toUtcDay(period.startDate);
+    const endDate = toUtcDay(period.endDate);
+
+    if (covering) {
+      const coveredTo = toUtcDay(covering.endDate);
+      if (startDate > addUtcDays(coveredTo, 1)) {
+        issues.push({
+          type: BillingCalendarIssueType.GAP,
+          startDate: addUtcDays(coveredTo, 1),
+          endDate: addUtcDays(startDate, -1),
+          days: daysBetween(coveredTo, startDate) - 1,
+          periodIds: ids(covering, period),
+        });
+      } else if (startDate <= coveredTo) {
+        const overlapEnd = endDate < coveredTo ? endDate : coveredTo;
+        issues.push({
+          type: BillingCalendarIssueType.OVERLAP,
+          startDate,
+          endDate: overlapEnd,
+          days: daysBetween(startDate, overlapEnd) + 1,
+          periodIds: ids(covering, period),
+        });
+      }
+    }
+
+    if (!covering || endDate > toUtcDay(covering.endDate)) covering = period;
+  });
+
+  return issues;
+}
+
+/**
+ * A year of back-to-back billing periods, one per pay date. Pay dates are
+ * `cycleDays` apart from the seed; each period ends `payDateLagDays` before
+ * its scheduled pay date, so moving a pay date off a weekend or holiday never
+ * moves the period. Payroll is run `payrollLeadDays` business days before the
+ * (moved) pay date.
+ *
+ * Entries that collide with an existing period are marked and left out of the
+ * gap and overlap check, which covers the existing periods and the entries
+ * that would be created.
+ */
+export function generateBillingCalendar(
+  settings: BillingCalendarSettings,
+  existing: CalendarPeriod[] = []
+): BillingCalendar {
+  const payDates = scheduledPayDates(settings);
+  const holidays = holidayCalendar(
+    addUtcDays(payDates[0], -31),
+    addUtcDays(payDates[payDates.length - 1], 31),
+    settings.extraHolidays
+  );
+  const step = settings.payDateShift === PayDateShift.NEXT_BUSINESS_DAY ? 1 : -1;
+
+  const entries = payDates.map((scheduledPayDate): BillingCalendarEntry => {
+    const endDate = addUtcDays(scheduledPayDate, -settings.payDateLagDays);
+    const startDate = addUtcDays(endDate, 1 - settings.cycleDays);
+
+    const shiftReason = dayOffReason(scheduledPayDate, holidays);
+    let payDate = scheduledPayDate;
+    while (dayOffReason(payDate, holidays)) {
+      payDate = addUtcDays(payDate, step);
+    }
+
+    let payrollRunDate = payDate;
+    for (let lead = 0; lead < settings.payrollLeadDays; ) {
+      payrollRunDate = addUtcDays(payrollRunDate, -1);
+      if (!dayOffReason(payrollRunDate, holidays)) lead += 1;
+    }
+
+    const entry: BillingCalendarEntry = {
+      startDate,
+      endDate,
+      scheduledPayDate,
+      payDate,
+      payrollRunDate,
+      ...(shiftReason && { shiftReason }),
+    };
+    const clash = existing.find((period) => overlaps(period, entry));
+    if (clash?.id) {
+      entry.conflict = {
+        type: sameDates(clash, entry) ? "exists" : "overlap",
+        periodId: clash.id,
+      };
+    }
+    return entry;
+  });
+
+  return {
+    entries,
+    issues: findCalendarIssues([
+      ...existing,
+      ...entries.filter((entry) => !entry.conflict),
+    ]),
+  };
+}
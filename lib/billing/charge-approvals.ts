@@ -0,0 +1,93 @@
+import type {
+  ChargeApprovalRequirement,
+  ChargeApprovalRule,
+  ChargeApprovalState,
+  ChargeType,
+} from "@/lib/types/billing";
+import { ChargeApprovalDecision, ChargeStatus } from "@/lib/types/billing";
+
+// Charges payroll does not receive yet: awaiting approval, or held by a dispute
+export const HELD_CHARGE_STATUSES: string[] = [
+  ChargeStatus.PENDING,
+  ChargeStatus.DISPUTED,
+];
+
+// Charges that are exported as nothing
+export const UNBILLED_CHARGE_STATUSES: string[] = [
+  ChargeStatus.CANCELLED,
+  ChargeStatus.REJECTED,
+];
+
+export function isChargeHeld(status: string): boolean {
+  return HELD_CHARGE_STATUSES.includes(status);
+}
+
+export function isChargeUnbilled(status: string): boolean {
+  return UNBILLED_CHARGE_STATUSES.includes(status);
+}
+
+/**
+ * Every charge needs one approval; a second approver is needed when an active
+ * rule matches the charge's type, its effective amount is above the rule's
+ * threshold, or both when the rule sets both.
+ */
+export function approvalRequirement(
+  charge: { type: ChargeType; amount: number },
+  rules: ChargeApprovalRule[]
+): ChargeApprovalRequirement {
+  const matching = rules.filter(
+    (rule) =>
+      rule.isActive &&
+      (!rule.chargeType || rule.chargeType === charge.type) &&
+      (rule.amountThreshold === undefined ||
+        charge.amount > rule.amountThreshold)
+  );
+  return {
+    approvalsRequired: matching.length > 0 ? 2 : 1,
+    rules: matching,
+  };
+}
+
+/**
+ * A charge's approval after `approverId` decides on it. Only pending charges
+ * can be decided, and no one may give both approvals of a two-step charge.
+ * Throws when the decision is not allowed.
+ */
+export function applyApprovalDecision(
+  charge: ChargeApprovalState,
+  requirement: ChargeApprovalRequirement,
+  decision: ChargeApprovalDecision,
+  approverId: string,
+  decidedAt: Date = new Date()
+): ChargeApprovalState {
+  if (charge.status !== ChargeStatus.PENDING) {
+    throw new Error(`Only pending charges can be decided; this one is ${charge.status}`);
+  }
+
+  if (decision === ChargeApprovalDecision.REJECT) {
+    return { ...charge, status: ChargeStatus.REJECTED };
+  }
+
+  if (charge.firstApprovedBy === approverId) {
+    throw new Error("The second approval must come from a different approver");
+  }
+
+  const approvalStep = charge.approvalStep + 1;
+  const firstApprovedBy = charge.firstApprovedBy ?? approverId;
+  if (approvalStep < requirement.approvalsRequired) {
+    return {
+      ...charge,
+      status: ChargeStatus.PENDING,
+      approvalStep,
+      firstApprovedBy,
+    };
+  }
+
+  return {
+    status: ChargeStatus.APPROVED,
+    approvalStep,
+    firstApprovedBy,
+    approvedBy: approverId,
+    approvedAt: decidedAt,
+  };
+}
@@ -0,0 +1,429 @@
+import type {
+  BillingPeriod,
+  ChargeImportField,
+  ChargeImportMapping,
+  ChargeImportPreview,
+  ChargeImportRow,
+} from "@/lib/types/billing";
+import {
+  ChargeImportRowStatus,
+  ChargeType,
+  validateCreateCharge,
+} from "@/lib/types/billing";
+import { isPeriodLocked } from "@/lib/billing/period-lifecycle";
+import { MS_PER_DAY, toDateKey, toUtcDay } from "@/lib/dates";
+import { readZip } from "@/lib/zip";
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+export const CHARGE_IMPORT_COLUMNS: Record<ChargeImportField, string[]> = {
+  employeeId: ["employee_id", "employee", "emp_id", "file_number"],
+  type: ["type", "charge_type", "category"],
+  amount: ["amount", "charge_amount", "total"],
+  description: ["description", "memo", "details"],
+  chargeDate: ["charge_date", "date", "start_date"],
+  notes: ["notes", "note", "comments"],
+};
+
+// Without a type column every row is an "other" charge, and without a charge
+// date every row goes into the period picked for the import
+export const REQUIRED_IMPORT_FIELDS: ChargeImportField[] = [
+  "employeeId",
+  "amount",
+  "description",
+];
+
+const normalizeHeader = (name: string) =>
+  name.toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_|_$/g, "");
+
+// Blank cells are invalid rather than zero; currency formatting is allowed
+const toNumber = (cell = "") =>
+  cell === "" ? NaN : Number(cell.replace(/[$,]/g, ""));
+
+/**
+ * Split CSV text into rows of cells. Quoted cells may contain commas, escaped
+ * quotes and line breaks; blank lines are dropped.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  const endRow = () => {
+    row.push(cell.trim());
+    if (row.some((value) => value !== "")) rows.push(row);
+    row = [];
+    cell = "";
+  };
+
+  const source = text.replace(/^\uFEFF/, "");
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(cell.trim());
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && source[i + 1] === "\n") i++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+
+  endRow();
+  return rows;
+}
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+};
+
+const decodeXml = (value: string) =>
+  value.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+    if (code[0] !== "#") return XML_ENTITIES[code] ?? entity;
+    return String.fromCodePoint(
+      code[1] === "x" || code[1] === "X"
+        ? parseInt(code.slice(2), 16)
+        : parseInt(code.slice(1), 10)
+    );
+  });
+
+// Text of every <t> run inside an element (shared strings may be rich text)
+const textRuns = (xml: string) =>
+  Array.from(xml.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g))
+    .map((match) => decodeXml(match[1]))
+    .join("");
+
+// Zero-based column of a cell reference such as "AB12"
+function columnIndex(reference: string): number {
+  const letters = reference.replace(/[^A-Z]/gi, "").toUpperCase();
+  return (
+    Array.from(letters).reduce(
+      (index, letter) => index * 26 + letter.charCodeAt(0) - 64,
+      0
+    ) - 1
+  );
+}
+
+// Path of the workbook's first sheet, following the workbook relationships
+function firstSheetPath(files: Map<string, Uint8Array>): string {
+  const decoder = new TextDecoder();
+  const workbook = files.get("xl/workbook.xml");
+  const rels = files.get("xl/_rels/workbook.xml.rels");
+  const fallback = "xl/worksheets/sheet1.xml";
+  if (!workbook || !rels) return fallback;
+
+  const sheetId = decoder
+    .decode(workbook)
+    .match(/<sheet\b[^>]*\br:id="([^"]+)"/)?.[1];
+  const target = Array.from(
+    decoder.decode(rels).matchAll(/<Relationship\b([^>]*)\/?>/g)
+  )
+    .map((match) => match[1])
+    .find((attributes) => attributes.includes(`Id="${sheetId}"`))
+    ?.match(/Target="([^"]+)"/)?.[1];
+  if (!target) return fallback;
+
+  return target.startsWith("/")
+    ? target.slice(1)
+    : `xl/${target.replace(/^\.\//, "")}`;
+}
+
+/**
+ * Read the first sheet of an XLSX workbook into rows of cells. Numbers come
+ * back as Excel stores them, so dates are day serials (see `parseImportDate`).
+ */
+export async function parseXlsx(bytes: Uint8Array): Promise<string[][]> {
+  const files = await readZip(bytes);
+  const decoder = new TextDecoder();
+
+  const sharedStringsXml = files.get("xl/sharedStrings.xml");
+  const sharedStrings = sharedStringsXml
+    ? Array.from(
+        decoder.decode(sharedStringsXml).matchAll(/<si>([\s\S]*?)<\/si>/g)
+      ).map((match) => textRuns(match[1]))
+    : [];
+
+  const sheet = files.get(firstSheetPath(files));
+  if (!sheet) throw new Error("The workbook has no worksheet");
+
+  const rows: string[][] = [];
+  const rowPattern = /<row\b[^>]*>([\s\S]*?)<\/row>/g;
+  const cellPattern = /<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g;
+
+  for (const rowMatch of Array.from(decoder.decode(sheet).matchAll(rowPattern))) {
+    const row: string[] = [];
+    for (const cellMatch of Array.from(rowMatch[1].matchAll(cellPattern))) {
+      const attributes = cellMatch[1];
+      const content = cellMatch[2] ?? "";
+      const reference = attributes.match(/\br="([A-Z]+\d+)"/i)?.[1];
+      const type = attributes.match(/\bt="(\w+)"/)?.[1];
+      const raw = content.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+
+      let value = "";
+      if (type === "s") {
+        value = sharedStrings[Number(raw)] ?? "";
+      } else if (type === "inlineStr") {
+        value = textRuns(content);
+      } else if (raw !== undefined) {
+        value = decodeXml(raw);
+      }
+
+      const index = reference ? columnIndex(reference) : row.length;
+      while (row.length < index) row.push("");
+      row[index] = value.trim();
+    }
+    if (row.some((value) => value !== "")) rows.push(row);
+  }
+
+  return rows;
+}
+
+/**
+ * Read an uploaded charge file into rows of cells, header first. CSV and XLSX
+ * are supported; legacy .xls workbooks have to be saved as one of those.
+ */
+export async function readChargeImportFile(file: File): Promise<string[][]> {
+  const extension = file.name.split(".").pop()?.toLowerCase();
+  const rows =
+    extension === "xlsx"
+      ? await parseXlsx(new Uint8Array(await file.arrayBuffer()))
+      : extension === "csv" || extension === "txt"
+        ? parseCsv(await file.text())
+        : null;
+
+  if (!rows) throw new Error("Upload a .csv or .xlsx file");
+  if (rows.length < 2) throw new Error("The file has no charges below its header row");
+  return rows;
+}
+
+// Map header cells to charge fields by their usual names
+export function guessImportMapping(header: string[]): ChargeImportMapping {
+  const names = header.map(normalizeHeader);
+  const mapping: ChargeImportMapping = {};
+  (Object.keys(CHARGE_IMPORT_COLUMNS) as ChargeImportField[]).forEach((field) => {
+    const index = names.findIndex((name) =>
+      CHARGE_IMPORT_COLUMNS[field].includes(name)
+    );
+    if (index !== -1) mapping[field] = index;
+  });
+  return mapping;
+}
+
+// Days from Excel's epoch (1899-12-30, which absorbs its 1900 leap-year bug)
+const EXCEL_EPOCH = Date.UTC(1899, 11, 30);
+
+/**
+ * A charge date cell as a UTC day: ISO dates, US-style M/D/YYYY dates or the
+ * day serials XLSX stores dates as. Returns undefined when unreadable.
+ */
+export function parseImportDate(cell: string): Date | undefined {
+  const value = cell.trim();
+
+  if (/^\d+(\.\d+)?$/.test(value)) {
+    const serial = Math.floor(Number(value));
+    // Serials outside 1950-2100 are more likely a typo than a date
+    if (serial < 18264 || serial > 73051) return undefined;
+    return new Date(EXCEL_EPOCH + serial * MS_PER_DAY);
+  }
+
+  const iso = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  const us = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  const [year, month, day] = iso
+    ? [iso[1], iso[2], iso[3]]
+    : us
+      ? [us[3], us[1], us[2]]
+      : [];
+  if (!year) return undefined;
+
+  const date = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)));
+  // Reject dates that rolled over, such as 2/30
+  return date.getUTCDate() === Number(day) &&
+    date.getUTCMonth() === Number(month) - 1
+    ? date
+    : undefined;
+}
+
+// Accepts the stored value or its label in any case ("Rent", "UTILITIES")
+export function parseImportChargeType(cell: string): ChargeType | undefined {
+  const value = normalizeHeader(cell);
+  return Object.values(ChargeType).find((type) => type === value);
+}
+
+type ImportPeriod = Pick<
+  BillingPeriod,
+  "id" | "startDate" | "endDate" | "status" | "parentPeriodId"
+>;
+
+/**
+ * Check each data row of an import file and turn it into a charge. Staff are
+ * matched by employee ID; a row with a charge date goes into the regular
+ * (not corrections) period covering it, otherwise into `defaultPeriodId`.
+ * Rows landing in an exported or cancelled period are flagged with their own
+ * status, since they need a corrections period or an adjustment instead.
+ */
+export function buildChargeImportRows(
+  rows: string[][],
+  mapping: ChargeImportMapping,
+  context: {
+    staffByEmployeeId: Map<string, { id: string; name: string }>;
+    periods: ImportPeriod[];
+    defaultPeriodId?: string;
+  }
+): ChargeImportRow[] {
+  const cellOf = (cells: string[], field: ChargeImportField) =>
+    mapping[field] === undefined ? "" : (cells[mapping[field]!] ?? "").trim();
+  const seen = new Map<string, number>();
+
+  return rows.slice(1).flatMap((cells, index): ChargeImportRow[] => {
+    if (cells.every((cell) => cell.trim() === "")) return [];
+
+    const line = index + 2;
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    const employeeId = cellOf(cells, "employeeId");
+    const staff = context.staffByEmployeeId.get(employeeId);
+    if (!employeeId) {
+      errors.push("Employee ID is missing");
+    } else if (!staff) {
+      errors.push(`No staff member has employee ID ${employeeId}`);
+    }
+
+    const typeCell = cellOf(cells, "type");
+    const type = typeCell ? parseImportChargeType(typeCell) : ChargeType.OTHER;
+    if (!type) {
+      errors.push(
+        `Unknown charge type "${typeCell}"; use ${Object.values(ChargeType).join(", ")}`
+      );
+    }
+
+    const amount = toNumber(cellOf(cells, "amount"));
+    if (!Number.isFinite(amount)) {
+      errors.push("Amount is missing or not a number");
+    }
+
+    const dateCell = cellOf(cells, "chargeDate");
+    const chargeDate = dateCell ? parseImportDate(dateCell) : undefined;
+    if (dateCell && !chargeDate) {
+      errors.push(`Charge date "${dateCell}" is not a date`);
+    }
+
+    let period: ImportPeriod | undefined;
+    if (chargeDate) {
+      period = context.periods.find(
+        (candidate) =>
+          !candidate.parentPeriodId &&
+          toUtcDay(candidate.startDate) <= chargeDate &&
+          chargeDate <= toUtcDay(candidate.endDate)
+      );
+      if (!period) {
+        errors.push(`No billing period covers ${toDateKey(chargeDate)}`);
+      }
+    } else if (!dateCell) {
+      period = context.periods.find(
+        (candidate) => candidate.id === context.defaultPeriodId
+      );
+      if (!period) {
+        errors.push("Choose a billing period for rows without a charge date");
+      }
+    }
+
+    const locked = !!period && isPeriodLocked(period.status);
+    if (period && locked) {
+      errors.push(
+        `The billing period ${toDateKey(toUtcDay(period.startDate))} to ${toDateKey(
+          toUtcDay(period.endDate)
+        )} is ${period.status} and cannot take new charges`
+      );
+    }
+
+    const notes = cellOf(cells, "notes");
+    const candidate = {
+      staffId: staff?.id,
+      billingPeriodId: period?.id,
+      type,
+      amount: Number.isFinite(amount) ? roundCurrency(amount) : undefined,
+      description: cellOf(cells, "description"),
+      prorationFactor: 1,
+      startDate: chargeDate,
+      notes: notes || undefined,
+    };
+
+    // Fields already reported above are not reported twice
+    const result = validateCreateCharge(candidate);
+    if (!result.success) {
+      result.error.errors
+        .filter(
+          (issue) =>
+            !["staffId", "billingPeriodId", "type"].includes(String(issue.path[0])) &&
+            !(issue.path[0] === "amount" && candidate.amount === undefined)
+        )
+        .forEach((issue) => errors.push(issue.message));
+    }
+
+    if (errors.length === 0 && result.success) {
+      const key = [
+        result.data.staffId,
+        result.data.billingPeriodId,
+        result.data.type,
+        result.data.amount,
+        result.data.description.toLowerCase(),
+      ].join("|");
+      const earlier = seen.get(key);
+      if (earlier) {
+        warnings.push(`Same charge as row ${earlier}`);
+      } else {
+        seen.set(key, line);
+      }
+    }
+
+    return [
+      {
+        line,
+        employeeId,
+        staffName: staff?.name,
+        billingPeriodId: period?.id,
+        charge: errors.length === 0 && result.success ? result.data : undefined,
+        status: locked
+          ? ChargeImportRowStatus.LOCKED_PERIOD
+          : errors.length === 0
+            ? ChargeImportRowStatus.VALID
+            : ChargeImportRowStatus.INVALID,
+        errors,
+        warnings,
+      },
+    ];
+  });
+}
+
+export function summarizeChargeImport(
+  rows: ChargeImportRow[]
+): ChargeImportPreview["summary"] {
+  const count = (status: ChargeImportRowStatus) =>
+    rows.filter((row) => row.status === status).length;
+  return {
+    valid: count(ChargeImportRowStatus.VALID),
+    invalid: count(ChargeImportRowStatus.INVALID),
+    lockedPeriod: count(ChargeImportRowStatus.LOCKED_PERIOD),
+    totalAmount: roundCurrency(
+      rows.reduce((sum, row) => sum + (row.charge?.amount ?? 0), 0)
+    ),
+  };
+}
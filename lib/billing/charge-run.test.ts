@@ -0,0 +1,278 @@
+import { describe, expect, it } from "vitest";
+import {
+  chargeKey,
+  diffChargeRun,
+  effectiveAmount,
+  existingChargeFromRow,
+} from "@/lib/billing/charge-run";
+import type { CreateCharge } from "@/lib/types/billing";
+import {
+  AdjustmentReasonCode,
+  ChargeAdjustmentType,
+  ChargeRunAction,
+  ChargeRunSource,
+  ChargeStatus,
+  ChargeType,
+} from "@/lib/types/billing";
+
+const PERIOD_ID = "period-1";
+
+type AdjustmentRow = {
+  type: ChargeAdjustmentType;
+  amount: number;
+  charge_run_id?: string | null;
+};
+
+const chargeRow = (
+  id: string,
+  amount: number,
+  status: ChargeStatus,
+  adjustments: AdjustmentRow[] = [],
+  overrides: Record<string, unknown> = {}
+) => ({
+  id,
+  staff_id: `staff-${id}`,
+  type: ChargeType.RENT,
+  amount,
+  proration_factor: 1,
+  description: "Rent",
+  source_id: `assignment-${id}`,
+  status,
+  charge_adjustments: adjustments,
+  updated_at: "2026-01-31T00:00:00Z",
+  ...overrides,
+});
+
+const proposed = (
+  id: string,
+  amount: number,
+  overrides: Partial<CreateCharge> = {}
+): CreateCharge => ({
+  staffId: `staff-${id}`,
+  billingPeriodId: PERIOD_ID,
+  type: ChargeType.RENT,
+  amount,
+  description: "Rent",
+  prorationFactor: 1,
+  sourceId: `assignment-${id}`,
+  ...overrides,
+});
+
+const run = (charges: CreateCharge[], rows: ReturnType<typeof chargeRow>[]) =>
+  diffChargeRun(
+    PERIOD_ID,
+    [ChargeRunSource.HOUSING],
+    charges,
+    rows.map(existingChargeFromRow)
+  );
+
+describe("effectiveAmount", () => {
+  it("prorates and rounds to cents", () => {
+    expect(effectiveAmount(1000, 0.3333)).toBe(333.3);
+    expect(effectiveAmount(99.99)).toBe(99.99);
+  });
+});
+
+describe("existingChargeFromRow", () => {
+  it("treats approved and adjusted charges as billed", () => {
+    const billed = (row: ReturnType<typeof chargeRow>) =>
+      existingChargeFromRow(row).billed;
+
+    expect(billed(chargeRow("1", 100, ChargeStatus.PENDING))).toBe(false);
+    expect(billed(chargeRow("1", 100, ChargeStatus.APPROVED))).toBe(true);
+    expect(
+      billed(
+        chargeRow("1", 100, ChargeStatus.PENDING, [
+          { type: ChargeAdjustmentType.CREDIT_NOTE, amount: 10 },
+        ])
+      )
+    ).toBe(true);
+  });
+
+  it("separates what runs generated from hand-made adjustments", () => {
+    const charge = existingChargeFromRow(
+      chargeRow("1", 100, ChargeStatus.APPROVED, [
+        { type: ChargeAdjustmentType.DEBIT, amount: 20, charge_run_id: "run-1" },
+        { type: ChargeAdjustmentType.CREDIT_NOTE, amount: 30, charge_run_id: null },
+      ])
+    );
+
+    expect(charge.generatedAmount).toBe(120);
+    expect(charge.netAmount).toBe(90);
+    expect(charge.reversed).toBe(false);
+  });
+});
+
+describe("diffChargeRun", () => {
+  it("adds charges with no stored match", () => {
+    const preview = run([proposed("1", 450)], []);
+
+    expect(preview.items).toHaveLength(1);
+    expect(preview.items[0]).toMatchObject({
+      action: ChargeRunAction.ADD,
+      key: chargeKey(proposed("1", 450)),
+      delta: 450,
+    });
+    expect(preview.summary).toMatchObject({ added: 1, totalDelta: 450 });
+  });
+
+  it("leaves charges that still match unchanged", () => {
+    const preview = run(
+      [proposed("1", 100)],
+      [chargeRow("1", 100, ChargeStatus.PENDING)]
+    );
+
+    expect(preview.items[0]).toMatchObject({
+      action: ChargeRunAction.UNCHANGED,
+      delta: 0,
+    });
+  });
+
+  it("changes pending charges in place", () => {
+    const [item] = run(
+      [proposed("1", 90)],
+      [chargeRow("1", 100, ChargeStatus.PENDING)]
+    ).items;
+
+    expect(item.action).toBe(ChargeRunAction.CHANGE);
+    expect(item.adjustment).toBeUndefined();
+    expect(item.delta).toBe(-10);
+  });
+
+  it("posts a debit when a billed charge goes up", () => {
+    const [item] = run(
+      [proposed("1", 120)],
+      [chargeRow("1", 100, ChargeStatus.APPROVED)]
+    ).items;
+
+    expect(item.action).toBe(ChargeRunAction.CHANGE);
+    expect(item.adjustment).toEqual({
+      type: ChargeAdjustmentType.DEBIT,
+      reasonCode: AdjustmentReasonCode.RATE_CHANGE,
+      amount: 20,
+    });
+    expect(item.delta).toBe(20);
+  });
+
+  it("credits a billed charge that went down, on top of hand-made credits", () => {
+    const [item] = run(
+      [proposed("1", 80)],
+      [
+        chargeRow("1", 100, ChargeStatus.APPROVED, [
+          { type: ChargeAdjustmentType.CREDIT_NOTE, amount: 30 },
+        ]),
+      ]
+    ).items;
+
+    expect(item.action).toBe(ChargeRunAction.CHANGE);
+    expect(item.adjustment).toMatchObject({
+      type: ChargeAdjustmentType.CREDIT_NOTE,
+      amount: 20,
+    });
+    expect(item.delta).toBe(-20);
+  });
+
+  it("never credits more than is left of a charge", () => {
+    const [item] = run(
+      [proposed("1", 10)],
+      [
+        chargeRow("1", 100, ChargeStatus.APPROVED, [
+          { type: ChargeAdjustmentType.CREDIT_NOTE, amount: 60 },
+        ]),
+      ]
+    ).items;
+
+    expect(item.adjustment).toMatchObject({
+      type: ChargeAdjustmentType.CREDIT_NOTE,
+      amount: 40,
+    });
+  });
+
+  it("does not post again what an earlier run already posted", () => {
+    const [item] = run(
+      [proposed("1", 120)],
+      [
+        chargeRow("1", 100, ChargeStatus.APPROVED, [
+          { type: ChargeAdjustmentType.DEBIT, amount: 20, charge_run_id: "run-1" },
+        ]),
+      ]
+    ).items;
+
+    expect(item.action).toBe(ChargeRunAction.UNCHANGED);
+    expect(item.delta).toBe(0);
+  });
+
+  it("leaves reversed charges alone", () => {
+    const [item] = run(
+      [proposed("1", 150)],
+      [
+        chargeRow("1", 100, ChargeStatus.APPROVED, [
+          { type: ChargeAdjustmentType.REVERSAL, amount: 100 },
+        ]),
+      ]
+    ).items;
+
+    expect(item.action).toBe(ChargeRunAction.UNCHANGED);
+    expect(item.adjustment).toBeUndefined();
+  });
+
+  it("voids pending charges in place and reverses billed ones", () => {
+    const preview = run(
+      [],
+      [
+        chargeRow("1", 100, ChargeStatus.PENDING),
+        chargeRow("2", 100, ChargeStatus.APPROVED, [
+          { type: ChargeAdjustmentType.CREDIT_NOTE, amount: 25 },
+        ]),
+      ]
+    );
+
+    expect(preview.items.map((item) => item.action)).toEqual([
+      ChargeRunAction.VOID,
+      ChargeRunAction.VOID,
+    ]);
+    expect(preview.items[0].adjustment).toBeUndefined();
+    expect(preview.items[1].adjustment).toEqual({
+      type: ChargeAdjustmentType.REVERSAL,
+      reasonCode: AdjustmentReasonCode.BILLING_ERROR,
+      amount: 75,
+    });
+    expect(preview.summary).toMatchObject({ voided: 2, totalDelta: -175 });
+  });
+
+  it("voids duplicates left by earlier runs", () => {
+    const preview = run(
+      [proposed("1", 100)],
+      [
+        chargeRow("1", 100, ChargeStatus.PENDING),
+        chargeRow("1", 100, ChargeStatus.PENDING, [], { id: "1-copy" }),
+      ]
+    );
+
+    expect(preview.summary).toMatchObject({ unchanged: 1, voided: 1 });
+    expect(
+      preview.items.find((item) => item.action === ChargeRunAction.VOID)
+        ?.existing?.id
+    ).toBe("1-copy");
+  });
+
+  it("never touches manual charges or types other sources own", () => {
+    const preview = run(
+      [],
+      [
+        chargeRow("1", 100, ChargeStatus.PENDING, [], { source_id: null }),
+        chargeRow("2", 100, ChargeStatus.PENDING, [], {
+          type: ChargeType.TRANSPORT,
+        }),
+      ]
+    );
+
+    expect(preview.items).toEqual([]);
+  });
+
+  it("rejects duplicate generated charges", () => {
+    expect(() => run([proposed("1", 100), proposed("1", 50)], [])).toThrow(
+      /duplicate charge/
+    );
+  });
+});
@@ -0,0 +1,250 @@
+import type {
+  ChargeRunItem,
+  ChargeRunPreview,
+  CreateCharge,
+  ExistingCharge,
+} from "@/lib/types/billing";
+import {
+  AdjustmentReasonCode,
+  ChargeAdjustmentType,
+  ChargeRunAction,
+  ChargeRunSource,
+  ChargeStatus,
+  ChargeType,
+} from "@/lib/types/billing";
+import {
+  signedAdjustmentAmount,
+  summarizeAdjustments,
+} from "@/lib/billing/adjustments";
+
+// Charge types each generator owns. A run only adds, changes or voids
+// sourced charges of these types; manual charges are never touched.
+export const CHARGE_RUN_SOURCE_TYPES: Record<ChargeRunSource, ChargeType[]> = {
+  [ChargeRunSource.HOUSING]: [ChargeType.RENT],
+  [ChargeRunSource.TRANSPORT]: [ChargeType.TRANSPORT],
+  [ChargeRunSource.UTILITIES]: [ChargeType.UTILITIES],
+  [ChargeRunSource.RECURRING]: [ChargeType.OTHER],
+};
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+export function effectiveAmount(amount: number, prorationFactor?: number) {
+  return roundCurrency(amount * (prorationFactor ?? 1));
+}
+
+// Identity of a generated charge within a billing period
+export function chargeKey(charge: {
+  staffId: string;
+  type: ChargeType;
+  sourceId?: string;
+}): string {
+  return [charge.type, charge.sourceId ?? "", charge.staffId].join(":");
+}
+
+// Charges in these statuses have reached the approval or payroll stage
+const BILLED_STATUSES = [
+  ChargeStatus.APPROVED,
+  ChargeStatus.PROCESSED,
+  ChargeStatus.DISPUTED,
+];
+
+// Map a `charges` row, with its `charge_adjustments(type, amount,
+// charge_run_id)`, to the shape a charge run compares against
+export function existingChargeFromRow(row: any): ExistingCharge {
+  const amount = Number(row.amount);
+  const prorationFactor =
+    row.proration_factor === null || row.proration_factor === undefined
+      ? 1
+      : Number(row.proration_factor);
+  const adjustments: any[] = row.charge_adjustments || [];
+  const effective = effectiveAmount(amount, prorationFactor);
+  const summary = summarizeAdjustments(effective, adjustments);
+
+  return {
+    id: row.id,
+    staffId: row.staff_id,
+    type: row.type as ChargeType,
+    amount,
+    prorationFactor,
+    description: row.description,
+    sourceId: row.source_id ?? undefined,
+    chargeRunId: row.charge_run_id ?? undefined,
+    billed:
+      adjustments.length > 0 ||
+      BILLED_STATUSES.includes(row.status as ChargeStatus),
+    generatedAmount: roundCurrency(
+      adjustments
+        .filter((adjustment) => adjustment.charge_run_id)
+        .reduce((sum, adjustment) => sum + signedAdjustmentAmount(adjustment), effective)
+    ),
+    netAmount: summary.netAmount,
+    reversed: summary.reversed,
+    updatedAt: row.updated_at,
+  };
+}
+
+// The adjustment that moves a billed charge by `difference`. Credits stop at
+// what is left of the charge; nothing is posted when nothing would change.
+function adjustmentFor(
+  charge: ExistingCharge,
+  difference: number
+): ChargeRunItem["adjustment"] {
+  if (difference > 0) {
+    return {
+      type: ChargeAdjustmentType.DEBIT,
+      reasonCode: AdjustmentReasonCode.RATE_CHANGE,
+      amount: difference,
+    };
+  }
+
+  const credit = Math.min(-difference, charge.netAmount);
+  if (credit <= 0) return undefined;
+  return {
+    type: ChargeAdjustmentType.CREDIT_NOTE,
+    reasonCode: AdjustmentReasonCode.RATE_CHANGE,
+    amount: credit,
+  };
+}
+
+function hasChanged(proposed: CreateCharge, existing: ExistingCharge) {
+  return (
+    effectiveAmount(proposed.amount, proposed.prorationFactor) !==
+      effectiveAmount(existing.amount, existing.prorationFactor) ||
+    proposed.description !== existing.description
+  );
+}
+
+/**
+ * Compare freshly generated charges with what is already stored in the
+ * period. Proposed charges with no stored match are added, stored charges that
+ * are no longer generated are voided, and duplicates left behind by earlier
+ * non-idempotent runs are voided as well.
+ *
+ * Pending charges are changed or voided in place. Billed charges keep their
+ * amount: a debit or credit note takes their net amount (after any hand-made
+ * adjustments) to the new one, and a reversal voids them. Reversed charges
+ * stay reversed.
+ */
+export function diffChargeRun(
+  billingPeriodId: string,
+  sources: ChargeRunSource[],
+  proposed: CreateCharge[],
+  existing: ExistingCharge[]
+): ChargeRunPreview {
+  const ownedTypes = new Set(
+    sources.flatMap((source) => CHARGE_RUN_SOURCE_TYPES[source])
+  );
+
+  const existingByKey = new Map<string, ExistingCharge[]>();
+  existing
+    .filter((charge) => charge.sourceId && ownedTypes.has(charge.type))
+    .forEach((charge) => {
+      const key = chargeKey(charge);
+      existingByKey.set(key, [...(existingByKey.get(key) || []), charge]);
+    });
+
+  const items: ChargeRunItem[] = [];
+  const seen = new Set<string>();
+  const leftovers: ExistingCharge[] = [];
+
+  for (const charge of proposed) {
+    const key = chargeKey(charge);
+    if (seen.has(key)) {
+      throw new Error(`Charge generator produced a duplicate charge (${key})`);
+    }
+    seen.add(key);
+
+    const [match, ...duplicates] = existingByKey.get(key) || [];
+    existingByKey.delete(key);
+    const proposedAmount = effectiveAmount(
+      charge.amount,
+      charge.prorationFactor
+    );
+
+    if (!match) {
+      items.push({
+        action: ChargeRunAction.ADD,
+        key,
+        staffId: charge.staffId,
+        type: charge.type,
+        sourceId: charge.sourceId,
+        proposed: charge,
+        delta: proposedAmount,
+      });
+    } else if (match.billed) {
+      const adjustment = match.reversed
+        ? undefined
+        : adjustmentFor(
+            match,
+            roundCurrency(proposedAmount - match.generatedAmount)
+          );
+      items.push({
+        action: adjustment ? ChargeRunAction.CHANGE : ChargeRunAction.UNCHANGED,
+        key,
+        staffId: charge.staffId,
+        type: charge.type,
+        sourceId: charge.sourceId,
+        proposed: charge,
+        existing: match,
+        adjustment,
+        delta: adjustment ? signedAdjustmentAmount(adjustment) : 0,
+      });
+    } else {
+      items.push({
+        action: hasChanged(charge, match)
+          ? ChargeRunAction.CHANGE
+          : ChargeRunAction.UNCHANGED,
+        key,
+        staffId: charge.staffId,
+        type: charge.type,
+        sourceId: charge.sourceId,
+        proposed: charge,
+        existing: match,
+        delta: roundCurrency(proposedAmount - match.netAmount),
+      });
+    }
+
+    leftovers.push(...duplicates);
+  }
+
+  // Anything left over is no longer produced by the generators
+  leftovers.push(...Array.from(existingByKey.values()).flat());
+  // Billed charges are voided by reversing what is left of them
+  for (const charge of leftovers.filter(
+    (leftover) => !leftover.billed || leftover.netAmount > 0
+  )) {
+    items.push({
+      action: ChargeRunAction.VOID,
+      key: chargeKey(charge),
+      staffId: charge.staffId,
+      type: charge.type,
+      sourceId: charge.sourceId,
+      existing: charge,
+      adjustment: charge.billed
+        ? {
+            type: ChargeAdjustmentType.REVERSAL,
+            reasonCode: AdjustmentReasonCode.BILLING_ERROR,
+            amount: charge.netAmount,
+          }
+        : undefined,
+      delta: -charge.netAmount,
+    });
+  }
+
+  const count = (action: ChargeRunAction) =>
+    items.filter((item) => item.action === action).length;
+
+  return {
+    billingPeriodId,
+    sources,
+    items,
+    summary: {
+      added: count(ChargeRunAction.ADD),
+      changed: count(ChargeRunAction.CHANGE),
+      voided: count(ChargeRunAction.VOID),
+      unchanged: count(ChargeRunAction.UNCHANGED),
+      totalDelta: roundCurrency(items.reduce((sum, item) => sum + item.delta, 0)),
+    },
+    generatedAt: new Date(),
+  };
+}
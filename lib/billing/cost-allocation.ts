@@ -0,0 +1,230 @@
+import { splitCents } from "@/lib/billing/utility-allocation";
+import type {
+  CostAllocationLine,
+  CostAllocationPreview,
+  CostAllocationShare,
+  CostJournalEntry,
+  CostPool,
+} from "@/lib/types/billing";
+import {
+  CostAllocationBasis,
+  CostAllocationTarget,
+} from "@/lib/types/billing";
+import { PropertyCostCategory } from "@/lib/types/housing";
+import { TransactionCategory } from "@/lib/supabase/types/transaction";
+
+const toCents = (value: number) => Math.round(value * 100);
+const fromCents = (cents: number) => cents / 100;
+
+// Where costs go when nobody from a department used the source
+export const UNASSIGNED = "Unassigned";
+
+// Finance category each kind of property cost is booked under
+export const PROPERTY_COST_TRANSACTION_CATEGORIES: Record<
+  PropertyCostCategory,
+  TransactionCategory
+> = {
+  [PropertyCostCategory.LEASE]: TransactionCategory.RENT,
+  [PropertyCostCategory.MAINTENANCE]: TransactionCategory.MAINTENANCE,
+  [PropertyCostCategory.INSURANCE]: TransactionCategory.INSURANCE,
+  [PropertyCostCategory.SERVICES]: TransactionCategory.OTHER_EXPENSE,
+};
+
+const categoryLabels: Partial<Record<TransactionCategory, string>> = {
+  [TransactionCategory.RENT]: "Housing rent",
+  [TransactionCategory.UTILITIES]: "Housing utilities",
+  [TransactionCategory.MAINTENANCE]: "Housing maintenance",
+  [TransactionCategory.INSURANCE]: "Housing insurance",
+  [TransactionCategory.OTHER_EXPENSE]: "Housing services",
+  [TransactionCategory.TRAVEL]: "Staff transport",
+};
+
+export type CostAllocationDepartment = {
+  id: string;
+  name: string;
+  costCenter?: string;
+};
+
+type AllocationOptions = {
+  basis: CostAllocationBasis;
+  target: CostAllocationTarget;
+  departments: CostAllocationDepartment[];
+};
+
+type ShareGroup = {
+  key: string;
+  departments: Set<string>;
+  staff: Set<string>;
+  units: number;
+};
+
+/**
+ * Allocate what staff charges did not recover of one cost source. Users are
+ * grouped by department, or by their department's cost centre (departments
+ * without one are booked under their own name), and the remainder is split
+ * by head count or by units used. Splits are done in cents so the shares
+ * always add up to the remainder.
+ */
+export function allocateCostPool(
+  pool: CostPool,
+  { basis, target, departments }: AllocationOptions
+): CostAllocationLine {
+  const { usage, ...source } = pool;
+  const remainderCents = Math.max(toCents(pool.cost) - toCents(pool.recovered), 0);
+  const overRecoveredCents = Math.max(
+    toCents(pool.recovered) - toCents(pool.cost),
+    0
+  );
+
+  const departmentsByName = new Map(
+    departments.map((department) => [
+      department.name.trim().toLowerCase(),
+      department,
+    ])
+  );
+
+  const groups = new Map<string, ShareGroup>();
+  usage.forEach((entry) => {
+    const department = entry.department
+      ? departmentsByName.get(entry.department.trim().toLowerCase())
+      : undefined;
+    const departmentName = department?.name ?? entry.department ?? UNASSIGNED;
+    const key =
+      target === CostAllocationTarget.COST_CENTER
+        ? department?.costCenter || departmentName
+        : departmentName;
+
+    const group = groups.get(key) ?? {
+      key,
+      departments: new Set<string>(),
+      staff: new Set<string>(),
+      units: 0,
+    };
+    group.departments.add(departmentName);
+    group.staff.add(entry.staffId);
+    group.units += entry.units;
+    groups.set(key, group);
+  });
+
+  const ordered = Array.from(groups.values()).sort((a, b) =>
+    a.key.localeCompare(b.key)
+  );
+  const weights = ordered.map((group) =>
+    basis === CostAllocationBasis.USAGE ? group.units : group.staff.size
+  );
+
+  let shares: CostAllocationShare[];
+  if (remainderCents === 0) {
+    shares = [];
+  } else if (weights.reduce((sum, weight) => sum + weight, 0) <= 0) {
+    shares = [
+      {
+        key: UNASSIGNED,
+        headcount: 0,
+        units: 0,
+        amount: fromCents(remainderCents),
+      },
+    ];
+  } else {
+    const parts = splitCents(remainderCents, weights);
+    shares = ordered
+      .map((group, index) => {
+        // A department id only makes sense when the share is one department
+        const [onlyDepartment] =
+          group.departments.size === 1 ? Array.from(group.departments) : [];
+        const department = onlyDepartment
+          ? departmentsByName.get(onlyDepartment.toLowerCase())
+          : undefined;
+
+        return {
+          key: group.key,
+          department: onlyDepartment,
+          departmentId: department?.id,
+          costCenter:
+            target === CostAllocationTarget.COST_CENTER && group.key !== UNASSIGNED
+              ? departments.find((d) => d.costCenter === group.key)?.costCenter
+              : department?.costCenter,
+          headcount: group.staff.size,
+          units: group.units,
+          amount: fromCents(parts[index]),
+        };
+      })
+      .filter((share) => share.amount > 0);
+  }
+
+  return {
+    ...source,
+    remainder: fromCents(remainderCents),
+    overRecovered: fromCents(overRecoveredCents),
+    shares,
+  };
+}
+
+// Sum the shares of every line into one journal entry per department or
+// cost centre and finance category
+export function buildCostJournalEntries(
+  lines: CostAllocationLine[],
+  periodLabel: string
+): CostJournalEntry[] {
+  const entries = new Map<string, CostJournalEntry & { cents: number }>();
+
+  lines.forEach((line) => {
+    line.shares.forEach((share) => {
+      const id = `${share.key}\u0000${line.category}`;
+      const entry = entries.get(id) ?? {
+        key: share.key,
+        departmentId: share.departmentId,
+        costCenter: share.costCenter,
+        category: line.category,
+        amount: 0,
+        cents: 0,
+        description: `${categoryLabels[line.category] ?? "Housing and transport"} – ${share.key} – ${periodLabel}`,
+        sources: 0,
+      };
+      // Shares of one key can come from different departments on other lines
+      if (entry.departmentId !== share.departmentId) entry.departmentId = undefined;
+      entry.cents += toCents(share.amount);
+      entry.sources += 1;
+      entries.set(id, entry);
+    });
+  });
+
+  return Array.from(entries.values())
+    .map(({ cents, ...entry }) => ({ ...entry, amount: fromCents(cents) }))
+    .sort(
+      (a, b) => a.key.localeCompare(b.key) || a.category.localeCompare(b.category)
+    );
+}
+
+export function buildCostAllocationPreview(
+  pools: CostPool[],
+  options: AllocationOptions & { billingPeriodId: string; periodLabel: string }
+): CostAllocationPreview {
+  const lines = pools
+    .filter((pool) => pool.cost > 0 || pool.recovered > 0)
+    .map((pool) => allocateCostPool(pool, options));
+  const entries = buildCostJournalEntries(lines, options.periodLabel);
+
+  const sumCents = (values: number[]) =>
+    fromCents(values.reduce((sum, value) => sum + toCents(value), 0));
+
+  return {
+    billingPeriodId: options.billingPeriodId,
+    basis: options.basis,
+    target: options.target,
+    lines,
+    entries,
+    summary: {
+      totalCost: sumCents(lines.map((line) => line.cost)),
+      totalRecovered: sumCents(lines.map((line) => line.recovered)),
+      totalAllocated: sumCents(entries.map((entry) => entry.amount)),
+      overRecovered: sumCents(lines.map((line) => line.overRecovered)),
+      unassigned: sumCents(
+        entries
+          .filter((entry) => entry.key === UNASSIGNED)
+          .map((entry) => entry.amount)
+      ),
+    },
+    generatedAt: new Date(),
+  };
+}
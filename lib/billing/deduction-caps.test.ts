@@ -0,0 +1,264 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyDeductionCaps,
+  balanceChange,
+  buildPayoffSchedule,
+  capLimit,
+  emptyAmounts,
+  resolveCaps,
+  toBalanceRows,
+} from "@/lib/billing/deduction-caps";
+import type { ChargeAmounts, DeductionCap } from "@/lib/types/billing";
+import {
+  ChargeType,
+  DeductionCapType,
+  PayrollExportLineType,
+} from "@/lib/types/billing";
+
+const day = (date: string) => new Date(`${date}T00:00:00Z`);
+
+const cap = (overrides: Partial<DeductionCap> = {}): DeductionCap => ({
+  id: "cap-1",
+  capType: DeductionCapType.FIXED,
+  amount: 500,
+  effectiveFrom: day("2026-01-01"),
+  createdAt: day("2026-01-01"),
+  updatedAt: day("2026-01-01"),
+  ...overrides,
+});
+
+const amounts = (values: Partial<ChargeAmounts>): ChargeAmounts => ({
+  ...emptyAmounts(),
+  ...values,
+});
+
+const capsOf = (...entries: DeductionCap[]) =>
+  new Map(entries.map((entry) => [entry.chargeType ?? "total", entry] as const));
+
+describe("resolveCaps", () => {
+  it("lets a staff member's own cap replace the default", () => {
+    const caps = resolveCaps(
+      [
+        cap({ id: "own", staffId: "staff-1", amount: 200 }),
+        cap({ id: "default" }),
+        cap({ id: "rent", chargeType: ChargeType.RENT, amount: 300 }),
+      ],
+      "staff-1",
+      day("2026-02-15")
+    );
+
+    expect(caps.get("total")?.id).toBe("own");
+    expect(caps.get(ChargeType.RENT)?.id).toBe("rent");
+  });
+
+  it("ignores caps outside their dates or for other staff", () => {
+    const caps = resolveCaps(
+      [
+        cap({ id: "ended", effectiveTo: day("2026-01-31") }),
+        cap({ id: "future", effectiveFrom: day("2026-03-01") }),
+        cap({ id: "other", staffId: "staff-2" }),
+      ],
+      "staff-1",
+      day("2026-02-15")
+    );
+
+    expect(caps.size).toBe(0);
+  });
+});
+
+describe("capLimit", () => {
+  it("takes a percentage of gross pay, or nothing without it", () => {
+    const percent = cap({
+      capType: DeductionCapType.PERCENT_OF_GROSS,
+      amount: 15,
+    });
+
+    expect(capLimit(percent, 2000)).toBe(300);
+    expect(capLimit(percent)).toBeNull();
+    expect(capLimit(cap({ amount: 250 }))).toBe(250);
+  });
+});
+
+describe("applyDeductionCaps", () => {
+  it("deducts everything owed when no cap bites", () => {
+    const outcome = applyDeductionCaps({
+      staffId: "staff-1",
+      due: amounts({ [ChargeType.RENT]: 400 }),
+      carriedIn: amounts({ [ChargeType.RENT]: 50 }),
+      caps: capsOf(cap()),
+    });
+
+    expect(outcome.deducted[ChargeType.RENT]).toBe(450);
+    expect(outcome.carryForward).toEqual(emptyAmounts());
+    expect(outcome.limitedBy).toEqual([]);
+  });
+
+  it("holds back the least essential charges first under the total cap", () => {
+    const outcome = applyDeductionCaps({
+      staffId: "staff-1",
+      due: amounts({
+        [ChargeType.RENT]: 400,
+        [ChargeType.TRANSPORT]: 80,
+        [ChargeType.OTHER]: 60,
+      }),
+      carriedIn: emptyAmounts(),
+      caps: capsOf(cap({ amount: 450 })),
+    });
+
+    expect(outcome.deducted).toEqual(
+      amounts({ [ChargeType.RENT]: 400, [ChargeType.TRANSPORT]: 50 })
+    );
+    expect(outcome.carryForward).toEqual(
+      amounts({ [ChargeType.TRANSPORT]: 30, [ChargeType.OTHER]: 60 })
+    );
+    expect(outcome.limitedBy).toEqual(["total"]);
+  });
+
+  it("applies per-type caps and counts what earlier exports took", () => {
+    const outcome = applyDeductionCaps({
+      staffId: "staff-1",
+      due: amounts({ [ChargeType.RENT]: 300 }),
+      carriedIn: emptyAmounts(),
+      caps: capsOf(cap({ chargeType: ChargeType.RENT, amount: 400 })),
+      alreadyDeducted: amounts({ [ChargeType.RENT]: 250 }),
+    });
+
+    expect(outcome.deducted[ChargeType.RENT]).toBe(150);
+    expect(outcome.carryForward[ChargeType.RENT]).toBe(150);
+    expect(outcome.limitedBy).toEqual([ChargeType.RENT]);
+  });
+
+  it("never holds back credits", () => {
+    const outcome = applyDeductionCaps({
+      staffId: "staff-1",
+      due: amounts({ [ChargeType.RENT]: -40 }),
+      carriedIn: emptyAmounts(),
+      caps: capsOf(cap({ amount: 0 })),
+    });
+
+    expect(outcome.deducted[ChargeType.RENT]).toBe(-40);
+    expect(outcome.carryForward[ChargeType.RENT]).toBe(0);
+  });
+
+  it("holds back down to the minimum wage limit", () => {
+    const outcome = applyDeductionCaps({
+      staffId: "staff-1",
+      due: amounts({ [ChargeType.RENT]: 300, [ChargeType.UTILITIES]: 50 }),
+      carriedIn: emptyAmounts(),
+      caps: new Map(),
+      wageLimit: 320,
+    });
+
+    expect(outcome.deducted).toEqual(
+      amounts({ [ChargeType.RENT]: 300, [ChargeType.UTILITIES]: 20 })
+    );
+    expect(outcome.limitedBy).toEqual(["minimum_wage"]);
+  });
+
+  it("warns when a percentage cap cannot be applied", () => {
+    const outcome = applyDeductionCaps({
+      staffId: "staff-1",
+      due: amounts({ [ChargeType.RENT]: 900 }),
+      carriedIn: emptyAmounts(),
+      caps: capsOf(
+        cap({ capType: DeductionCapType.PERCENT_OF_GROSS, amount: 20 })
+      ),
+    });
+
+    expect(outcome.deducted[ChargeType.RENT]).toBe(900);
+    expect(outcome.warnings).toHaveLength(1);
+  });
+});
+
+describe("balance rows", () => {
+  it("defers what is held back and recovers what is collected", () => {
+    const outcome = applyDeductionCaps({
+      staffId: "staff-1",
+      due: amounts({ [ChargeType.TRANSPORT]: 100 }),
+      carriedIn: amounts({ [ChargeType.RENT]: 60 }),
+      caps: capsOf(cap({ chargeType: ChargeType.TRANSPORT, amount: 70 })),
+    });
+    const change = balanceChange(outcome);
+
+    expect(change).toEqual(
+      amounts({ [ChargeType.RENT]: -60, [ChargeType.TRANSPORT]: 30 })
+    );
+
+    const rows = toBalanceRows(
+      new Map([["staff-1", change]]),
+      new Map([
+        ["staff-1", { employeeId: "E1", firstName: "Ann", lastName: "Lee" }],
+      ]),
+      "Feb 2026"
+    );
+
+    expect(rows).toEqual([
+      expect.objectContaining({
+        employeeId: "E1",
+        lineType: PayrollExportLineType.DEFERRAL,
+        transportCharges: -30,
+        rentCharges: 0,
+        totalDeductions: -30,
+      }),
+      expect.objectContaining({
+        employeeId: "E1",
+        lineType: PayrollExportLineType.RECOVERY,
+        rentCharges: 60,
+        transportCharges: 0,
+        totalDeductions: 60,
+      }),
+    ]);
+  });
+});
+
+describe("buildPayoffSchedule", () => {
+  it("pays a balance down over following calendar months", () => {
+    const schedule = buildPayoffSchedule({
+      balance: amounts({ [ChargeType.RENT]: 250 }),
+      expectedCharges: amounts({ [ChargeType.RENT]: 400 }),
+      caps: capsOf(cap()),
+      lastPeriod: { startDate: day("2026-01-01"), endDate: day("2026-01-31") },
+    });
+
+    expect(schedule).toEqual([
+      {
+        periodStart: day("2026-02-01"),
+        periodEnd: day("2026-02-28"),
+        newCharges: 400,
+        recovered: 100,
+        remainingBalance: 150,
+      },
+      {
+        periodStart: day("2026-03-01"),
+        periodEnd: day("2026-03-31"),
+        newCharges: 400,
+        recovered: 100,
+        remainingBalance: 50,
+      },
+      {
+        periodStart: day("2026-04-01"),
+        periodEnd: day("2026-04-30"),
+        newCharges: 400,
+        recovered: 50,
+        remainingBalance: 0,
+      },
+    ]);
+  });
+
+  it("stops when new charges use up the whole cap", () => {
+    const schedule = buildPayoffSchedule({
+      balance: amounts({ [ChargeType.RENT]: 250 }),
+      expectedCharges: amounts({ [ChargeType.RENT]: 500 }),
+      caps: capsOf(cap()),
+      lastPeriod: { startDate: day("2026-01-01"), endDate: day("2026-01-14") },
+    });
+
+    expect(schedule).toHaveLength(1);
+    expect(schedule[0]).toMatchObject({
+      periodStart: day("2026-01-15"),
+      periodEnd: day("2026-01-28"),
+      recovered: 0,
+      remainingBalance: 250,
+    });
+  });
+});
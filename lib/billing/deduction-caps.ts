@@ -0,0 +1,280 @@
+import type {
+  ChargeAmounts,
+  DeductionCap,
+  DeductionCapOutcome,
+  PayoffScheduleEntry,
+  PayrollExportData,
+} from "@/lib/types/billing";
+import {
+  ChargeType,
+  DeductionCapType,
+  PayrollExportLineType,
+} from "@/lib/types/billing";
+import {
+  addUtcDays,
+  daysBetween,
+  daysInUtcMonth,
+  toUtcDay,
+} from "@/lib/dates";
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+const CHARGE_TYPES = Object.values(ChargeType);
+
+// When the total cap bites, the least essential charges are held back first
+const RELEASE_ORDER = [
+  ChargeType.OTHER,
+  ChargeType.TRANSPORT,
+  ChargeType.UTILITIES,
+  ChargeType.RENT,
+];
+
+export function emptyAmounts(): ChargeAmounts {
+  return {
+    [ChargeType.RENT]: 0,
+    [ChargeType.UTILITIES]: 0,
+    [ChargeType.TRANSPORT]: 0,
+    [ChargeType.OTHER]: 0,
+  };
+}
+
+export function sumAmounts(amounts: ChargeAmounts): number {
+  return roundCurrency(CHARGE_TYPES.reduce((sum, type) => sum + amounts[type], 0));
+}
+
+const isActive = (cap: DeductionCap, onDate: Date) =>
+  toUtcDay(cap.effectiveFrom) <= onDate &&
+  (!cap.effectiveTo || onDate <= toUtcDay(cap.effectiveTo));
+
+/**
+ * Caps in force for one staff member on `onDate`, keyed by charge type or
+ * "total". A staff member's own cap replaces the default for the same key.
+ */
+export function resolveCaps(
+  caps: DeductionCap[],
+  staffId: string,
+  onDate: Date
+): Map<ChargeType | "total", DeductionCap> {
+  const day = toUtcDay(onDate);
+  const resolved = new Map<ChargeType | "total", DeductionCap>();
+
+  caps
+    .filter((cap) => isActive(cap, day) && (!cap.staffId || cap.staffId === staffId))
+    // Defaults first so staff-specific caps overwrite them
+    .sort((a, b) => Number(!!a.staffId) - Number(!!b.staffId))
+    .forEach((cap) => resolved.set(cap.chargeType ?? "total", cap));
+
+  return resolved;
+}
+
+// Dollar limit for one paycheck; null when a percentage cap has no gross pay
+export function capLimit(cap: DeductionCap, grossPay?: number): number | null {
+  if (cap.capType === DeductionCapType.FIXED) return cap.amount;
+  if (grossPay === undefined) return null;
+  return roundCurrency((grossPay * cap.amount) / 100);
+}
+
+/**
+ * Split what is owed this paycheck (new charges plus the balance carried in)
+ * into what may be deducted and what carries forward. Credits are never held
+ * back, so a negative amount passes straight through. `alreadyDeducted` is
+ * what earlier exports took from the same paycheck and counts against the caps;
+ * `wageLimit` is the most the whole paycheck can bear under minimum wage.
+ */
+export function applyDeductionCaps(input: {
+  staffId: string;
+  due: ChargeAmounts;
+  carriedIn: ChargeAmounts;
+  caps: Map<ChargeType | "total", DeductionCap>;
+  grossPay?: number;
+  alreadyDeducted?: ChargeAmounts;
+  wageLimit?: number;
+}): DeductionCapOutcome {
+  const { staffId, due, carriedIn, caps, grossPay } = input;
+  const already = input.alreadyDeducted ?? emptyAmounts();
+  const available = emptyAmounts();
+  const deducted = emptyAmounts();
+  const limitedBy: DeductionCapOutcome["limitedBy"] = [];
+  const warnings: string[] = [];
+
+  const limitFor = (key: ChargeType | "total") => {
+    const cap = caps.get(key);
+    if (!cap) return null;
+    const limit = capLimit(cap, grossPay);
+    if (limit === null) {
+      warnings.push(
+        `No gross pay on file, so the ${key === "total" ? "total" : key} percentage cap was not applied`
+      );
+    }
+    return limit;
+  };
+
+  CHARGE_TYPES.forEach((type) => {
+    available[type] = roundCurrency(due[type] + carriedIn[type]);
+    deducted[type] = available[type];
+
+    const cap = limitFor(type);
+    const limit = cap === null ? null : Math.max(roundCurrency(cap - already[type]), 0);
+    if (limit !== null && deducted[type] > limit) {
+      deducted[type] = limit;
+      limitedBy.push(type);
+    }
+  });
+
+  const totalCap = limitFor("total");
+  const totalLimit =
+    totalCap === null ? null : Math.max(roundCurrency(totalCap - sumAmounts(already)), 0);
+  const holdBack = (limit: number | null, reason: "total" | "minimum_wage") => {
+    let excess = limit === null ? 0 : roundCurrency(sumAmounts(deducted) - limit);
+    if (excess <= 0) return;
+
+    limitedBy.push(reason);
+    for (const type of RELEASE_ORDER) {
+      const cut = Math.min(excess, Math.max(deducted[type], 0));
+      deducted[type] = roundCurrency(deducted[type] - cut);
+      excess = roundCurrency(excess - cut);
+      if (excess <= 0) break;
+    }
+  };
+
+  holdBack(totalLimit, "total");
+  if (input.wageLimit !== undefined) {
+    holdBack(
+      Math.max(roundCurrency(input.wageLimit - sumAmounts(already)), 0),
+      "minimum_wage"
+    );
+  }
+
+  const carryForward = emptyAmounts();
+  CHARGE_TYPES.forEach((type) => {
+    carryForward[type] = roundCurrency(available[type] - deducted[type]);
+  });
+
+  return { staffId, due, carriedIn, deducted, carryForward, limitedBy, warnings };
+}
+
+// Signed change in the carried balance per charge type: held back minus collected
+export function balanceChange(outcome: DeductionCapOutcome): ChargeAmounts {
+  const change = emptyAmounts();
+  CHARGE_TYPES.forEach((type) => {
+    change[type] = roundCurrency(outcome.carryForward[type] - outcome.carriedIn[type]);
+  });
+  return change;
+}
+
+/**
+ * Export rows that move the cap's effect into the payroll file: a negative
+ * deferral row for amounts held back and a positive recovery row for earlier
+ * holdbacks collected now. `changes` is the balance change per staff member.
+ */
+export function toBalanceRows(
+  changes: Map<string, ChargeAmounts>,
+  staff: Map<string, { employeeId: string; firstName: string; lastName: string }>,
+  billingPeriod: string
+): PayrollExportData[] {
+  const rows: PayrollExportData[] = [];
+
+  changes.forEach((change, staffId) => {
+    const person = staff.get(staffId);
+
+    const row = (lineType: PayrollExportLineType, pick: (value: number) => number) => {
+      const amounts = emptyAmounts();
+      CHARGE_TYPES.forEach((type) => {
+        amounts[type] = roundCurrency(pick(-change[type])) || 0;
+      });
+      if (CHARGE_TYPES.every((type) => amounts[type] === 0)) return;
+
+      rows.push({
+        employeeId: person?.employeeId ?? staffId,
+        firstName: person?.firstName ?? "",
+        lastName: person?.lastName ?? "",
+        totalDeductions: sumAmounts(amounts),
+        rentCharges: amounts[ChargeType.RENT],
+        utilityCharges: amounts[ChargeType.UTILITIES],
+        transportCharges: amounts[ChargeType.TRANSPORT],
+        otherCharges: amounts[ChargeType.OTHER],
+        billingPeriod,
+        lineType,
+      });
+    };
+
+    row(PayrollExportLineType.DEFERRAL, (value) => Math.min(value, 0));
+    row(PayrollExportLineType.RECOVERY, (value) => Math.max(value, 0));
+  });
+
+  return rows;
+}
+
+// Calendar-month periods repeat by month, anything else by its length in days
+function nextPeriod(period: { startDate: Date; endDate: Date }) {
+  const start = toUtcDay(period.startDate);
+  const end = toUtcDay(period.endDate);
+  const wholeMonth =
+    start.getUTCDate() === 1 &&
+    end.getUTCDate() === daysInUtcMonth(end) &&
+    start.getUTCMonth() === end.getUTCMonth();
+
+  if (wholeMonth) {
+    const nextStart = addUtcDays(end, 1);
+    return {
+      startDate: nextStart,
+      endDate: addUtcDays(nextStart, daysInUtcMonth(nextStart) - 1),
+    };
+  }
+
+  const length = daysBetween(start, end) + 1;
+  return {
+    startDate: addUtcDays(end, 1),
+    endDate: addUtcDays(end, length),
+  };
+}
+
+/**
+ * Expected paydown of a carried balance, assuming each future period brings
+ * the same charges as `expectedCharges` and the same caps apply. Stops when the
+ * balance is cleared, when it stops shrinking, or after `maxPeriods`.
+ */
+export function buildPayoffSchedule(input: {
+  balance: ChargeAmounts;
+  expectedCharges: ChargeAmounts;
+  caps: Map<ChargeType | "total", DeductionCap>;
+  grossPay?: number;
+  // The period after which payoff starts; later periods repeat its length
+  lastPeriod: { startDate: Date; endDate: Date };
+  maxPeriods?: number;
+}): PayoffScheduleEntry[] {
+  const { expectedCharges, caps, grossPay, maxPeriods = 24 } = input;
+  const schedule: PayoffScheduleEntry[] = [];
+
+  let balance = { ...input.balance };
+  let period = nextPeriod(input.lastPeriod);
+
+  while (sumAmounts(balance) > 0 && schedule.length < maxPeriods) {
+    const outcome = applyDeductionCaps({
+      staffId: "",
+      due: expectedCharges,
+      carriedIn: balance,
+      caps,
+      grossPay,
+    });
+    const recovered = roundCurrency(
+      sumAmounts(balance) - sumAmounts(outcome.carryForward)
+    );
+
+    schedule.push({
+      periodStart: period.startDate,
+      periodEnd: period.endDate,
+      newCharges: sumAmounts(expectedCharges),
+      recovered,
+      remainingBalance: sumAmounts(outcome.carryForward),
+    });
+
+    // New charges eat the whole cap; the balance will never come down
+    if (recovered <= 0) break;
+
+    balance = outcome.carryForward;
+    period = nextPeriod(period);
+  }
+
+  return schedule;
+}
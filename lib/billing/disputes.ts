@@ -0,0 +1,78 @@
+import type { BillingDispute, ResolveBillingDispute } from "@/lib/types/billing";
+import { DisputeResolution, DisputeStatus } from "@/lib/types/billing";
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+// Statuses a dispute can be in while its charge is held
+export const OPEN_DISPUTE_STATUSES = [
+  DisputeStatus.SUBMITTED,
+  DisputeStatus.UNDER_REVIEW,
+  DisputeStatus.INVESTIGATING,
+];
+
+export const isDisputeOpen = (status: DisputeStatus) =>
+  OPEN_DISPUTE_STATUSES.includes(status);
+
+// Where a reviewer may move an open dispute; resolving goes through
+// `resolutionCredit` instead
+const REVIEW_TRANSITIONS: Record<DisputeStatus, DisputeStatus[]> = {
+  [DisputeStatus.SUBMITTED]: [DisputeStatus.UNDER_REVIEW],
+  [DisputeStatus.UNDER_REVIEW]: [DisputeStatus.INVESTIGATING],
+  [DisputeStatus.INVESTIGATING]: [DisputeStatus.UNDER_REVIEW],
+  [DisputeStatus.RESOLVED]: [],
+};
+
+export const canMoveDispute = (from: DisputeStatus, to: DisputeStatus) =>
+  REVIEW_TRANSITIONS[from].includes(to);
+
+/**
+ * Credit a resolution issues against a charge whose effective amount is
+ * `chargeAmount`, less what earlier disputes on it already credited. Throws
+ * when a partial credit is not strictly between zero and what is left.
+ */
+export function resolutionCredit(
+  resolution: ResolveBillingDispute,
+  chargeAmount: number,
+  alreadyCredited = 0
+): number {
+  const remaining = roundCurrency(Math.max(chargeAmount - alreadyCredited, 0));
+
+  switch (resolution.resolution) {
+    case DisputeResolution.CHARGE_CONFIRMED:
+      return 0;
+    case DisputeResolution.FULL_CREDIT:
+      if (remaining === 0) {
+        throw new Error("This charge has already been fully credited");
+      }
+      return remaining;
+    case DisputeResolution.PARTIAL_CREDIT: {
+      const credit = roundCurrency(resolution.creditAmount ?? 0);
+      if (credit <= 0 || credit >= remaining) {
+        throw new Error(
+          `A partial credit must be more than $0.00 and less than $${remaining.toFixed(2)}; use a full credit otherwise`
+        );
+      }
+      return credit;
+    }
+  }
+}
+
+// Total credited per charge by resolved disputes
+export function creditsByCharge(
+  disputes: Pick<BillingDispute, "chargeId" | "status" | "creditAmount">[]
+): Map<string, number> {
+  const credits = new Map<string, number>();
+  disputes
+    .filter((dispute) => dispute.status === DisputeStatus.RESOLVED)
+    .forEach((dispute) => {
+      credits.set(
+        dispute.chargeId,
+        roundCurrency((credits.get(dispute.chargeId) || 0) + dispute.creditAmount)
+      );
+    });
+  return credits;
+}
+
+// What payroll should hold for a charge once its credits are taken off
+export const creditedAmount = (effectiveAmount: number, credited = 0) =>
+  roundCurrency(Math.max(effectiveAmount - credited, 0));
@@ -0,0 +1,22 @@
+import { PayrollField, PayrollFormat } from "@/lib/types/billing";
+import { renderMappedCsv, type PayrollFormatAdapter } from "./shared";
+
+// ADP Workforce Now "Deductions" import: one row per employee deduction
+export const adpCsvAdapter: PayrollFormatAdapter = {
+  format: PayrollFormat.ADP_CSV,
+  label: "ADP Workforce Now",
+  description: "Deduction import CSV keyed by company code and file number",
+  extension: "csv",
+  mimeType: "text/csv",
+  fileType: "csv",
+  binary: false,
+  configurable: true,
+  defaultColumns: [
+    { field: PayrollField.COMPANY_CODE, header: "Co Code" },
+    { field: PayrollField.BATCH_ID, header: "Batch ID" },
+    { field: PayrollField.EMPLOYEE_ID, header: "File #" },
+    { field: PayrollField.DEDUCTION_CODE, header: "Adjust Ded Code" },
+    { field: PayrollField.AMOUNT, header: "Adjust Ded Amount" },
+  ],
+  render: renderMappedCsv,
+};
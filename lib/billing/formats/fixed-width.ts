@@ -0,0 +1,52 @@
+import type { PayrollColumn } from "@/lib/types/billing";
+import { PayrollField, PayrollFormat } from "@/lib/types/billing";
+import {
+  encodeText,
+  fieldValue,
+  toDeductionRecords,
+  type PayrollFormatAdapter,
+} from "./shared";
+
+const DEFAULT_WIDTH = 10;
+
+// Values are never cut to fit: a truncated amount or employee ID would be
+// read as a different deduction, so the export fails instead
+function pad(value: string, column: PayrollColumn): string {
+  const width = column.width ?? DEFAULT_WIDTH;
+  if (value.length > width) {
+    throw new Error(
+      `${column.header} "${value}" does not fit its ${width}-character column; widen the column in the format mapping`
+    );
+  }
+  return column.align === "right" ? value.padStart(width) : value.padEnd(width);
+}
+
+// Headerless fixed-column records for legacy payroll systems
+export const fixedWidthAdapter: PayrollFormatAdapter = {
+  format: PayrollFormat.FIXED_WIDTH,
+  label: "Fixed width",
+  description: "Padded fixed-position records without a header row",
+  extension: "txt",
+  mimeType: "text/plain",
+  fileType: "txt",
+  binary: false,
+  configurable: true,
+  defaultColumns: [
+    { field: PayrollField.COMPANY_CODE, header: "Company", width: 8 },
+    { field: PayrollField.EMPLOYEE_ID, header: "Employee", width: 12 },
+    { field: PayrollField.DEDUCTION_CODE, header: "Code", width: 6 },
+    { field: PayrollField.AMOUNT, header: "Amount", width: 12, align: "right" },
+    {
+      field: PayrollField.PERIOD_END,
+      header: "Period End",
+      width: 8,
+      dateFormat: "compact",
+    },
+  ],
+  render(rows, mapping, context) {
+    const lines = toDeductionRecords(rows, mapping, context).map((record) =>
+      mapping.columns.map((column) => pad(fieldValue(record, column), column)).join("")
+    );
+    return encodeText(lines.map((line) => `${line}\r\n`).join(""));
+  },
+};
@@ -0,0 +1,191 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_COMPANY_CODE,
+  renderPayrollFile,
+  resolveMapping,
+} from "@/lib/billing/formats";
+import type { PayrollExportData, PayrollFileContext } from "@/lib/types/billing";
+import {
+  ChargeType,
+  PayrollExportLineType,
+  PayrollExportType,
+  PayrollField,
+  PayrollFormat,
+} from "@/lib/types/billing";
+import { readZip } from "@/lib/zip";
+
+const context: PayrollFileContext = {
+  exportType: PayrollExportType.FULL,
+  periodStart: new Date("2026-01-01T00:00:00Z"),
+  periodEnd: new Date("2026-01-31T00:00:00Z"),
+  generatedAt: new Date("2026-02-02T09:30:00Z"),
+};
+
+const row = (
+  overrides: Partial<PayrollExportData> = {}
+): PayrollExportData => ({
+  employeeId: "E100",
+  firstName: "Ann",
+  lastName: "O'Neil, Jr",
+  totalDeductions: 500,
+  rentCharges: 450,
+  utilityCharges: 0,
+  transportCharges: 50,
+  otherCharges: 0,
+  billingPeriod: "Jan 2026",
+  lineType: PayrollExportLineType.ORIGINAL,
+  ...overrides,
+});
+
+const text = (bytes: Uint8Array) => new TextDecoder().decode(bytes);
+
+type StoredMapping = NonNullable<Parameters<typeof resolveMapping>[1]>;
+
+const stored = (overrides: Partial<StoredMapping> = {}): StoredMapping => ({
+  companyCode: "ACME",
+  batchId: "B7",
+  columns: [],
+  deductionCodes: { [ChargeType.RENT]: "RNT" },
+  ...overrides,
+});
+
+const render = (
+  format: PayrollFormat,
+  rows: PayrollExportData[],
+  mapping = resolveMapping(format, stored())
+) => renderPayrollFile(format, rows, context, mapping);
+
+describe("resolveMapping", () => {
+  it("fills in the adapter defaults", () => {
+    const mapping = resolveMapping(PayrollFormat.ADP_CSV);
+
+    expect(mapping.companyCode).toBe(DEFAULT_COMPANY_CODE);
+    expect(mapping.columns.map((column) => column.header)).toEqual([
+      "Co Code",
+      "Batch ID",
+      "File #",
+      "Adjust Ded Code",
+      "Adjust Ded Amount",
+    ]);
+    expect(mapping.deductionCodes[ChargeType.RENT]).toBe("HSG");
+  });
+
+  it("ignores stored columns for layouts that cannot be remapped", () => {
+    const mapping = resolveMapping(
+      PayrollFormat.STANDARD_CSV,
+      stored({ columns: [{ field: PayrollField.EMPLOYEE_ID, header: "ID" }] })
+    );
+
+    expect(mapping.columns).toEqual([]);
+  });
+});
+
+describe("renderPayrollFile", () => {
+  it("names the file after the export type and date", () => {
+    const file = render(PayrollFormat.ADP_CSV, [row()]);
+
+    expect(file.fileName).toBe("payroll_full_2026-02-02.csv");
+    expect(file.mimeType).toBe("text/csv");
+  });
+
+  it("writes one ADP row per non-zero deduction with mapped codes", () => {
+    const file = render(PayrollFormat.ADP_CSV, [row()]);
+
+    expect(text(file.bytes)).toBe(
+      [
+        "Co Code,Batch ID,File #,Adjust Ded Code,Adjust Ded Amount",
+        "ACME,B7,E100,RNT,450.00",
+        "ACME,B7,E100,TRN,50.00",
+        "",
+      ].join("\r\n")
+    );
+  });
+
+  it("quotes CSV values that need it and formats dates per column", () => {
+    const mapping = resolveMapping(
+      PayrollFormat.PAYCHEX_CSV,
+      stored({
+        columns: [
+          { field: PayrollField.LAST_NAME, header: "Name" },
+          { field: PayrollField.PERIOD_END, header: "Line Date", dateFormat: "us" },
+        ],
+      })
+    );
+    const file = render(
+      PayrollFormat.PAYCHEX_CSV,
+      [row({ transportCharges: 0, lastName: 'Say "hi", Jr' })],
+      mapping
+    );
+
+    expect(text(file.bytes)).toBe(
+      'Name,Line Date\r\n"Say ""hi"", Jr",01/31/2026\r\n'
+    );
+  });
+
+  it("adds imputed income as an earnings record", () => {
+    const file = render(PayrollFormat.ADP_CSV, [
+      row({ rentCharges: 0, transportCharges: 0, imputedIncome: 120.5 }),
+    ]);
+
+    expect(text(file.bytes)).toContain("ACME,B7,E100,IMP,120.50");
+  });
+
+  it("adds the line type column to delta standard CSV exports", () => {
+    const file = renderPayrollFile(
+      PayrollFormat.STANDARD_CSV,
+      [row({ lineType: PayrollExportLineType.ADJUSTMENT })],
+      { ...context, exportType: PayrollExportType.INCREMENTAL }
+    );
+    const [header, first] = text(file.bytes).split("\n");
+
+    expect(header.split(",").pop()).toBe("Line Type");
+    expect(first.split(",").pop()).toBe(PayrollExportLineType.ADJUSTMENT);
+  });
+
+  it("escapes values in XML", () => {
+    const file = render(PayrollFormat.XML, [row({ transportCharges: 0 })]);
+    const xml = text(file.bytes);
+
+    expect(xml).toContain('<PayrollDeductions company="ACME" batch="B7"');
+    expect(xml).toContain("<LastName>O&apos;Neil, Jr</LastName>");
+    expect(xml).toContain("<Amount>450.00</Amount>");
+  });
+
+  it("pads fixed-width records to their columns", () => {
+    const file = render(PayrollFormat.FIXED_WIDTH, [
+      row({ transportCharges: 0 }),
+    ]);
+
+    expect(text(file.bytes)).toBe(
+      "ACME    E100        RNT         450.0020260131\r\n"
+    );
+  });
+
+  it("fails rather than cut a value to fit its fixed-width column", () => {
+    expect(() =>
+      render(PayrollFormat.FIXED_WIDTH, [row({ rentCharges: 1234567890.5 })])
+    ).toThrow(/Amount "1234567890.50" does not fit its 12-character column/);
+  });
+
+  it("fits the default company code in the default fixed-width layout", () => {
+    const file = renderPayrollFile(
+      PayrollFormat.FIXED_WIDTH,
+      [row({ transportCharges: 0 })],
+      context
+    );
+
+    expect(text(file.bytes).startsWith("DEFAULT E100")).toBe(true);
+  });
+
+  it("writes an XLSX workbook with numeric amounts", async () => {
+    const file = render(PayrollFormat.XLSX, [row({ transportCharges: 0 })]);
+    const entries = await readZip(file.bytes);
+
+    expect(Array.from(entries.keys())).toContain("xl/worksheets/sheet1.xml");
+    const sheet = text(entries.get("xl/worksheets/sheet1.xml")!);
+    expect(sheet).toContain(
+      '<c r="A1" t="inlineStr"><is><t>Employee ID</t></is></c>'
+    );
+    expect(sheet).toContain('<c r="E2"><v>450.00</v></c>');
+  });
+});
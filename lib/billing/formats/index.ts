@@ -0,0 +1,84 @@
+import type {
+  PayrollExportData,
+  PayrollFile,
+  PayrollFileContext,
+  PayrollFormatMapping,
+} from "@/lib/types/billing";
+import { PayrollFormat } from "@/lib/types/billing";
+import { toDateKey } from "@/lib/dates";
+import { adpCsvAdapter } from "./adp-csv";
+import { fixedWidthAdapter } from "./fixed-width";
+import { paychexCsvAdapter } from "./paychex-csv";
+import {
+  DEFAULT_DEDUCTION_CODES,
+  DEFAULT_IMPUTED_INCOME_CODE,
+  type PayrollFormatAdapter,
+  type ResolvedPayrollMapping,
+} from "./shared";
+import { standardCsvAdapter } from "./standard-csv";
+import { xlsxAdapter } from "./xlsx";
+import { xmlAdapter } from "./xml";
+
+export {
+  DEFAULT_DEDUCTION_CODES,
+  DEFAULT_IMPUTED_INCOME_CODE,
+  type PayrollFormatAdapter,
+  type ResolvedPayrollMapping,
+} from "./shared";
+
+export const DEFAULT_COMPANY_CODE = "DEFAULT";
+
+export const PAYROLL_FORMAT_ADAPTERS: Record<PayrollFormat, PayrollFormatAdapter> = {
+  [PayrollFormat.STANDARD_CSV]: standardCsvAdapter,
+  [PayrollFormat.ADP_CSV]: adpCsvAdapter,
+  [PayrollFormat.PAYCHEX_CSV]: paychexCsvAdapter,
+  [PayrollFormat.FIXED_WIDTH]: fixedWidthAdapter,
+  [PayrollFormat.XML]: xmlAdapter,
+  [PayrollFormat.XLSX]: xlsxAdapter,
+};
+
+export function getFormatAdapter(format: PayrollFormat): PayrollFormatAdapter {
+  const adapter = PAYROLL_FORMAT_ADAPTERS[format];
+  if (!adapter) throw new Error(`Unsupported payroll format: ${format}`);
+  return adapter;
+}
+
+// Stored company mapping layered over the adapter's defaults
+export function resolveMapping(
+  format: PayrollFormat,
+  stored?: Pick<
+    PayrollFormatMapping,
+    | "companyCode"
+    | "columns"
+    | "deductionCodes"
+    | "imputedIncomeCode"
+    | "batchId"
+  > | null
+): ResolvedPayrollMapping {
+  const adapter = getFormatAdapter(format);
+  return {
+    companyCode: stored?.companyCode ?? DEFAULT_COMPANY_CODE,
+    batchId: stored?.batchId ?? "",
+    columns:
+      adapter.configurable && stored?.columns?.length
+        ? stored.columns
+        : adapter.defaultColumns,
+    deductionCodes: { ...DEFAULT_DEDUCTION_CODES, ...stored?.deductionCodes },
+    imputedIncomeCode: stored?.imputedIncomeCode || DEFAULT_IMPUTED_INCOME_CODE,
+  };
+}
+
+export function renderPayrollFile(
+  format: PayrollFormat,
+  rows: PayrollExportData[],
+  context: PayrollFileContext,
+  mapping: ResolvedPayrollMapping = resolveMapping(format)
+): PayrollFile {
+  const adapter = getFormatAdapter(format);
+  return {
+    format,
+    fileName: `payroll_${context.exportType}_${toDateKey(context.generatedAt)}.${adapter.extension}`,
+    mimeType: adapter.mimeType,
+    bytes: adapter.render(rows, mapping, context),
+  };
+}
@@ -0,0 +1,22 @@
+import { PayrollField, PayrollFormat } from "@/lib/types/billing";
+import { renderMappedCsv, type PayrollFormatAdapter } from "./shared";
+
+// Paychex Flex style one-time deduction import
+export const paychexCsvAdapter: PayrollFormatAdapter = {
+  format: PayrollFormat.PAYCHEX_CSV,
+  label: "Paychex",
+  description: "Pay component CSV with one row per worker deduction",
+  extension: "csv",
+  mimeType: "text/csv",
+  fileType: "csv",
+  binary: false,
+  configurable: true,
+  defaultColumns: [
+    { field: PayrollField.COMPANY_CODE, header: "Client ID" },
+    { field: PayrollField.EMPLOYEE_ID, header: "Worker ID" },
+    { field: PayrollField.DEDUCTION_CODE, header: "Pay Component" },
+    { field: PayrollField.AMOUNT, header: "Amount" },
+    { field: PayrollField.PERIOD_END, header: "Line Date", dateFormat: "us" },
+  ],
+  render: renderMappedCsv,
+};
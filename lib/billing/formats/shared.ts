@@ -0,0 +1,185 @@
+import type {
+  PayrollColumn,
+  PayrollDeductionRecord,
+  PayrollExport,
+  PayrollExportData,
+  PayrollFileContext,
+} from "@/lib/types/billing";
+import {
+  ChargeType,
+  IMPUTED_INCOME,
+  PayrollField,
+  PayrollFormat,
+} from "@/lib/types/billing";
+import { toDateKey } from "@/lib/dates";
+
+// Mapping with every default filled in, as adapters consume it
+export type ResolvedPayrollMapping = {
+  companyCode: string;
+  batchId: string;
+  columns: PayrollColumn[];
+  deductionCodes: Record<ChargeType, string>;
+  imputedIncomeCode: string;
+};
+
+export interface PayrollFormatAdapter {
+  format: PayrollFormat;
+  label: string;
+  description: string;
+  extension: string;
+  mimeType: string;
+  // Value stored in payroll_exports.format
+  fileType: PayrollExport["format"];
+  binary: boolean;
+  // Whether columns and deduction codes can be mapped per company
+  configurable: boolean;
+  defaultColumns: PayrollColumn[];
+  render(
+    rows: PayrollExportData[],
+    mapping: ResolvedPayrollMapping,
+    context: PayrollFileContext
+  ): Uint8Array;
+}
+
+export const DEFAULT_DEDUCTION_CODES: Record<ChargeType, string> = {
+  [ChargeType.RENT]: "HSG",
+  [ChargeType.UTILITIES]: "UTL",
+  [ChargeType.TRANSPORT]: "TRN",
+  [ChargeType.OTHER]: "OTH",
+};
+
+// Earnings code for the taxable housing subsidy
+export const DEFAULT_IMPUTED_INCOME_CODE = "IMP";
+
+const amountColumns: [ChargeType, keyof PayrollExportData][] = [
+  [ChargeType.RENT, "rentCharges"],
+  [ChargeType.UTILITIES, "utilityCharges"],
+  [ChargeType.TRANSPORT, "transportCharges"],
+  [ChargeType.OTHER, "otherCharges"],
+];
+
+// Split per-employee rows into one record per non-zero deduction, followed
+// by an earnings record for any imputed income
+export function toDeductionRecords(
+  rows: PayrollExportData[],
+  mapping: ResolvedPayrollMapping,
+  context: PayrollFileContext
+): PayrollDeductionRecord[] {
+  return rows.flatMap((row) => {
+    const record = (
+      chargeType: PayrollDeductionRecord["chargeType"],
+      code: string,
+      amount: number
+    ): PayrollDeductionRecord => ({
+      companyCode: mapping.companyCode,
+      batchId: mapping.batchId,
+      employeeId: row.employeeId,
+      firstName: row.firstName,
+      lastName: row.lastName,
+      chargeType,
+      deductionCode: code,
+      amount,
+      lineType: row.lineType,
+      periodStart: context.periodStart,
+      periodEnd: context.periodEnd,
+    });
+
+    return [
+      ...amountColumns
+        .filter(([, column]) => Number(row[column]) !== 0)
+        .map(([chargeType, column]) =>
+          record(chargeType, mapping.deductionCodes[chargeType], Number(row[column]))
+        ),
+      ...(row.imputedIncome
+        ? [record(IMPUTED_INCOME, mapping.imputedIncomeCode, row.imputedIncome)]
+        : []),
+    ];
+  });
+}
+
+export function formatDate(
+  value: Date,
+  style: PayrollColumn["dateFormat"] = "iso"
+): string {
+  const [year, month, day] = toDateKey(value).split("-");
+  switch (style) {
+    case "us":
+      return `${month}/${day}/${year}`;
+    case "compact":
+      return `${year}${month}${day}`;
+    default:
+      return `${year}-${month}-${day}`;
+  }
+}
+
+export function fieldValue(
+  record: PayrollDeductionRecord,
+  column: PayrollColumn
+): string {
+  switch (column.field) {
+    case PayrollField.COMPANY_CODE:
+      return record.companyCode;
+    case PayrollField.BATCH_ID:
+      return record.batchId;
+    case PayrollField.EMPLOYEE_ID:
+      return record.employeeId;
+    case PayrollField.FIRST_NAME:
+      return record.firstName;
+    case PayrollField.LAST_NAME:
+      return record.lastName;
+    case PayrollField.DEDUCTION_CODE:
+      return record.deductionCode;
+    case PayrollField.AMOUNT:
+      return record.amount.toFixed(2);
+    case PayrollField.CHARGE_TYPE:
+      return record.chargeType;
+    case PayrollField.RECORD_TYPE:
+      return record.chargeType === IMPUTED_INCOME ? "earning" : "deduction";
+    case PayrollField.LINE_TYPE:
+      return record.lineType ?? "";
+    case PayrollField.PERIOD_START:
+      return formatDate(record.periodStart, column.dateFormat);
+    case PayrollField.PERIOD_END:
+      return formatDate(record.periodEnd, column.dateFormat);
+    case PayrollField.CONSTANT:
+      return column.value ?? "";
+  }
+}
+
+function csvCell(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function toCsv(rows: string[][], lineEnding = "\r\n"): string {
+  return rows.map((row) => row.map(csvCell).join(",")).join(lineEnding) + lineEnding;
+}
+
+export function encodeText(text: string): Uint8Array {
+  return new TextEncoder().encode(text);
+}
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+// Column-mapped CSV shared by the ADP and Paychex layouts
+export function renderMappedCsv(
+  rows: PayrollExportData[],
+  mapping: ResolvedPayrollMapping,
+  context: PayrollFileContext
+): Uint8Array {
+  const records = toDeductionRecords(rows, mapping, context);
+  return encodeText(
+    toCsv([
+      mapping.columns.map((column) => column.header),
+      ...records.map((record) =>
+        mapping.columns.map((column) => fieldValue(record, column))
+      ),
+    ])
+  );
+}
@@ -0,0 +1,64 @@
+import {
+  PayrollExportLineType,
+  PayrollExportType,
+  PayrollFormat,
+} from "@/lib/types/billing";
+import { encodeText, type PayrollFormatAdapter } from "./shared";
+
+// The original one-row-per-employee layout; not remappable
+export const standardCsvAdapter: PayrollFormatAdapter = {
+  format: PayrollFormat.STANDARD_CSV,
+  label: "Standard CSV",
+  description: "One row per employee with a column per charge type",
+  extension: "csv",
+  mimeType: "text/csv",
+  fileType: "csv",
+  binary: false,
+  configurable: false,
+  defaultColumns: [],
+  render(rows, _mapping, context) {
+    // Delta exports tell payroll how each line relates to earlier files, as
+    // do deduction cap deferral and recovery rows
+    const isDelta =
+      context.exportType !== PayrollExportType.FULL ||
+      rows.some(
+        (row) => row.lineType && row.lineType !== PayrollExportLineType.ORIGINAL
+      );
+    // Only periods with subsidised housing carry the earnings column
+    const hasImputedIncome = rows.some((row) => row.imputedIncome);
+    const headers = [
+      "Employee ID",
+      "First Name",
+      "Last Name",
+      "Total Deductions",
+      "Rent Charges",
+      "Utility Charges",
+      "Transport Charges",
+      "Other Charges",
+      "Billing Period",
+      ...(hasImputedIncome ? ["Imputed Income"] : []),
+      ...(isDelta ? ["Line Type"] : []),
+    ];
+
+    return encodeText(
+      [
+        headers.join(","),
+        ...rows.map((row) =>
+          [
+            row.employeeId,
+            row.firstName,
+            row.lastName,
+            row.totalDeductions.toFixed(2),
+            row.rentCharges.toFixed(2),
+            row.utilityCharges.toFixed(2),
+            row.transportCharges.toFixed(2),
+            row.otherCharges.toFixed(2),
+            `"${row.billingPeriod}"`,
+            ...(hasImputedIncome ? [(row.imputedIncome ?? 0).toFixed(2)] : []),
+            ...(isDelta ? [row.lineType ?? ""] : []),
+          ].join(",")
+        ),
+      ].join("\n")
+    );
+  },
+};
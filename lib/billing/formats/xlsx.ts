@@ -0,0 +1,102 @@
+import { PayrollField, PayrollFormat } from "@/lib/types/billing";
+import { createZip } from "@/lib/zip";
+import {
+  escapeXml,
+  fieldValue,
+  toDeductionRecords,
+  type PayrollFormatAdapter,
+} from "./shared";
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>
+</Types>`;
+
+const ROOT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>
+</Relationships>`;
+
+const WORKBOOK = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+<sheets><sheet name="Deductions" sheetId="1" r:id="rId1"/></sheets>
+</workbook>`;
+
+const WORKBOOK_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>
+</Relationships>`;
+
+// A1-style column letters: 0 -> A, 26 -> AA
+function columnLetter(index: number): string {
+  let letter = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letter = String.fromCharCode(65 + ((n - 1) % 26)) + letter;
+  }
+  return letter;
+}
+
+function cell(ref: string, value: string, numeric: boolean): string {
+  return numeric
+    ? `<c r="${ref}"><v>${value}</v></c>`
+    : `<c r="${ref}" t="inlineStr"><is><t>${escapeXml(value)}</t></is></c>`;
+}
+
+// Single-sheet workbook with inline strings, so no shared string table is needed
+export const xlsxAdapter: PayrollFormatAdapter = {
+  format: PayrollFormat.XLSX,
+  label: "Excel (XLSX)",
+  description: "Workbook with one deduction per row",
+  extension: "xlsx",
+  mimeType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  fileType: "excel",
+  binary: true,
+  configurable: true,
+  defaultColumns: [
+    { field: PayrollField.EMPLOYEE_ID, header: "Employee ID" },
+    { field: PayrollField.FIRST_NAME, header: "First Name" },
+    { field: PayrollField.LAST_NAME, header: "Last Name" },
+    { field: PayrollField.DEDUCTION_CODE, header: "Deduction Code" },
+    { field: PayrollField.AMOUNT, header: "Amount" },
+    { field: PayrollField.PERIOD_END, header: "Period End" },
+  ],
+  render(rows, mapping, context) {
+    const records = toDeductionRecords(rows, mapping, context);
+    const sheetRows = [
+      `<row r="1">${mapping.columns
+        .map((column, i) => cell(`${columnLetter(i)}1`, column.header, false))
+        .join("")}</row>`,
+      ...records.map((record, r) => {
+        const rowNumber = r + 2;
+        return `<row r="${rowNumber}">${mapping.columns
+          .map((column, i) =>
+            cell(
+              `${columnLetter(i)}${rowNumber}`,
+              fieldValue(record, column),
+              column.field === PayrollField.AMOUNT
+            )
+          )
+          .join("")}</row>`;
+      }),
+    ];
+
+    const sheet = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<sheetData>${sheetRows.join("")}</sheetData>
+</worksheet>`;
+
+    return createZip(
+      [
+        { name: "[Content_Types].xml", data: CONTENT_TYPES },
+        { name: "_rels/.rels", data: ROOT_RELS },
+        { name: "xl/workbook.xml", data: WORKBOOK },
+        { name: "xl/_rels/workbook.xml.rels", data: WORKBOOK_RELS },
+        { name: "xl/worksheets/sheet1.xml", data: sheet },
+      ],
+      context.generatedAt
+    );
+  },
+};
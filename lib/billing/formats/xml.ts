@@ -0,0 +1,67 @@
+import { PayrollField, PayrollFormat } from "@/lib/types/billing";
+import {
+  encodeText,
+  escapeXml,
+  fieldValue,
+  formatDate,
+  toDeductionRecords,
+  type PayrollFormatAdapter,
+} from "./shared";
+
+// "Adjust Ded Code" -> "AdjustDedCode"; element names cannot start with a digit
+function elementName(header: string): string {
+  const name = header
+    .replace(/[^A-Za-z0-9]+(.)?/g, (_, next: string = "") => next.toUpperCase())
+    .replace(/^[^A-Za-z_]+/, "");
+  return name || "Field";
+}
+
+export const xmlAdapter: PayrollFormatAdapter = {
+  format: PayrollFormat.XML,
+  label: "Generic XML",
+  description: "One <Deduction> element per employee deduction",
+  extension: "xml",
+  mimeType: "application/xml",
+  fileType: "xml",
+  binary: false,
+  configurable: true,
+  defaultColumns: [
+    { field: PayrollField.EMPLOYEE_ID, header: "EmployeeId" },
+    { field: PayrollField.FIRST_NAME, header: "FirstName" },
+    { field: PayrollField.LAST_NAME, header: "LastName" },
+    { field: PayrollField.DEDUCTION_CODE, header: "Code" },
+    { field: PayrollField.AMOUNT, header: "Amount" },
+    { field: PayrollField.LINE_TYPE, header: "LineType" },
+  ],
+  render(rows, mapping, context) {
+    const attributes = [
+      `company="${escapeXml(mapping.companyCode)}"`,
+      `batch="${escapeXml(mapping.batchId)}"`,
+      `exportType="${context.exportType}"`,
+      `periodStart="${formatDate(context.periodStart)}"`,
+      `periodEnd="${formatDate(context.periodEnd)}"`,
+    ].join(" ");
+
+    const deductions = toDeductionRecords(rows, mapping, context).map(
+      (record) =>
+        [
+          "  <Deduction>",
+          ...mapping.columns.map((column) => {
+            const name = elementName(column.header);
+            return `    <${name}>${escapeXml(fieldValue(record, column))}</${name}>`;
+          }),
+          "  </Deduction>",
+        ].join("\n")
+    );
+
+    return encodeText(
+      [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        `<PayrollDeductions ${attributes}>`,
+        ...deductions,
+        "</PayrollDeductions>",
+        "",
+      ].join("\n")
+    );
+  },
+};
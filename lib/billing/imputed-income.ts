@@ -0,0 +1,261 @@
+import type {
+  ImputedIncomeItem,
+  ImputedIncomeLine,
+  ImputedIncomeYtd,
+  PayrollExportData,
+} from "@/lib/types/billing";
+import {
+  PayrollExportLineType,
+  PayrollExportType,
+} from "@/lib/types/billing";
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+// Market value of one stay in a billing period, from `calculateStayMarketRent`
+export type StayMarketValue = {
+  staffId: string;
+  marketValue: number;
+  nights: number;
+  unvaluedNights: number;
+};
+
+/**
+ * The housing subsidy each staff member received: the market value of their
+ * stays less the rent they were charged. Rent is spread evenly over the
+ * nights, and the share for nights without a fair market rent is left out so
+ * both sides cover the same nights.
+ */
+export function buildImputedIncomeItems(
+  stays: StayMarketValue[],
+  rentCharged: Map<string, number>
+): ImputedIncomeItem[] {
+  const byStaff = new Map<string, Omit<ImputedIncomeItem, "amount" | "rentCharged">>();
+
+  stays.forEach((stay) => {
+    const item = byStaff.get(stay.staffId) ?? {
+      staffId: stay.staffId,
+      marketValue: 0,
+      nights: 0,
+      unvaluedNights: 0,
+    };
+    item.marketValue = roundCurrency(item.marketValue + stay.marketValue);
+    item.nights += stay.nights;
+    item.unvaluedNights += stay.unvaluedNights;
+    byStaff.set(stay.staffId, item);
+  });
+
+  return Array.from(byStaff.values()).map((item) => {
+    const rent = rentCharged.get(item.staffId) ?? 0;
+    const valuedShare =
+      item.nights > 0 ? (item.nights - item.unvaluedNights) / item.nights : 0;
+    const comparableRent = roundCurrency(rent * valuedShare);
+
+    return {
+      ...item,
+      rentCharged: comparableRent,
+      amount: roundCurrency(Math.max(item.marketValue - comparableRent, 0)),
+    };
+  });
+}
+
+// Net imputed income payroll has received so far for each staff member
+export function exportedImputedIncome(
+  lines: Pick<ImputedIncomeLine, "staffId" | "amount">[]
+): Map<string, number> {
+  const totals = new Map<string, number>();
+  lines.forEach((line) => {
+    totals.set(
+      line.staffId,
+      roundCurrency((totals.get(line.staffId) || 0) + line.amount)
+    );
+  });
+  return totals;
+}
+
+/**
+ * Imputed income lines that bring payroll up to date, the way
+ * `buildExportLines` does for charges: an original line the first time,
+ * then a delta (incremental) or a reversal and replacement (corrections).
+ * Staff who were reported before but no longer have a subsidy get theirs
+ * taken back.
+ */
+export function buildImputedIncomeLines(
+  exportType: PayrollExportType,
+  items: ImputedIncomeItem[],
+  previousLines: Pick<ImputedIncomeLine, "staffId" | "amount">[]
+): ImputedIncomeLine[] {
+  const exported = exportedImputedIncome(previousLines);
+  const current = new Map(items.map((item) => [item.staffId, item]));
+  const staffIds = new Set([...current.keys(), ...exported.keys()]);
+  const lines: ImputedIncomeLine[] = [];
+
+  staffIds.forEach((staffId) => {
+    const item = current.get(staffId);
+    const amount = roundCurrency(item?.amount ?? 0);
+    const line = (lineType: PayrollExportLineType, value: number) =>
+      lines.push({
+        staffId,
+        lineType,
+        amount: roundCurrency(value),
+        marketValue: item?.marketValue ?? 0,
+        rentCharged: item?.rentCharged ?? 0,
+      });
+
+    if (!exported.has(staffId)) {
+      if (amount !== 0) line(PayrollExportLineType.ORIGINAL, amount);
+      return;
+    }
+
+    if (exportType === PayrollExportType.FULL) {
+      throw new Error(
+        "Imputed income for this period has already been exported; use an incremental or corrections export"
+      );
+    }
+
+    const previous = exported.get(staffId)!;
+    if (previous === amount) return;
+
+    if (exportType === PayrollExportType.INCREMENTAL) {
+      line(PayrollExportLineType.ADJUSTMENT, amount - previous);
+    } else {
+      if (previous !== 0) line(PayrollExportLineType.REVERSAL, -previous);
+      if (amount !== 0) line(PayrollExportLineType.REPLACEMENT, amount);
+    }
+  });
+
+  return lines;
+}
+
+/**
+ * Put imputed income on the employee's row of the same line type, adding a
+ * row with no deductions for staff who were charged nothing
+ */
+export function addImputedIncomeToRows(
+  rows: PayrollExportData[],
+  lines: ImputedIncomeLine[],
+  staff: Map<string, { employeeId: string; firstName: string; lastName: string }>,
+  billingPeriod: string
+): PayrollExportData[] {
+  if (lines.length === 0) return rows;
+
+  const merged = rows.map((row) => ({ ...row }));
+  lines.forEach((line) => {
+    const person = staff.get(line.staffId);
+    const employeeId = person?.employeeId ?? line.staffId;
+    let row = merged.find(
+      (candidate) =>
+        candidate.employeeId === employeeId &&
+        (candidate.lineType ?? PayrollExportLineType.ORIGINAL) === line.lineType
+    );
+
+    if (!row) {
+      row = {
+        employeeId,
+        firstName: person?.firstName ?? "",
+        lastName: person?.lastName ?? "",
+        totalDeductions: 0,
+        rentCharges: 0,
+        utilityCharges: 0,
+        transportCharges: 0,
+        otherCharges: 0,
+        billingPeriod,
+        lineType: line.lineType,
+      };
+      merged.push(row);
+    }
+    row.imputedIncome = roundCurrency((row.imputedIncome ?? 0) + line.amount);
+  });
+
+  const lineOrder = Object.values(PayrollExportLineType);
+  return merged.sort(
+    (a, b) =>
+      a.employeeId.localeCompare(b.employeeId) ||
+      lineOrder.indexOf(a.lineType ?? PayrollExportLineType.ORIGINAL) -
+        lineOrder.indexOf(b.lineType ?? PayrollExportLineType.ORIGINAL)
+  );
+}
+
+// An exported imputed income line with the period and staff member it is for
+export type ReportedImputedIncome = ImputedIncomeLine & {
+  billingPeriodId: string;
+  periodStart: Date;
+  periodEnd: Date;
+  payDate?: Date;
+  exportedAt: Date;
+  staff?: { employeeId?: string; name: string; department?: string };
+};
+
+// Income is taxed in the year it is paid, so a period counts towards the
+// year of its pay date when it has one
+export const imputedIncomeTaxYear = (line: {
+  periodEnd: Date;
+  payDate?: Date;
+}) => (line.payDate ?? line.periodEnd).getUTCFullYear();
+
+/**
+ * Year-to-date imputed income per staff member. Amounts are what was
+ * reported to payroll; market value and rent are those of the latest export
+ * for each period.
+ */
+export function summarizeImputedIncomeYtd(
+  lines: ReportedImputedIncome[],
+  year: number
+): ImputedIncomeYtd[] {
+  const totals = new Map<string, ImputedIncomeYtd>();
+
+  lines
+    .filter((line) => imputedIncomeTaxYear(line) === year)
+    .sort((a, b) => a.exportedAt.getTime() - b.exportedAt.getTime())
+    .forEach((line) => {
+      const summary = totals.get(line.staffId) ?? {
+        staffId: line.staffId,
+        employeeId: line.staff?.employeeId,
+        name: line.staff?.name ?? line.staffId,
+        department: line.staff?.department,
+        year,
+        marketValue: 0,
+        rentCharged: 0,
+        imputedIncome: 0,
+        periods: [],
+      };
+
+      let period = summary.periods.find(
+        (entry) => entry.billingPeriodId === line.billingPeriodId
+      );
+      if (!period) {
+        period = {
+          billingPeriodId: line.billingPeriodId,
+          startDate: line.periodStart,
+          endDate: line.periodEnd,
+          payDate: line.payDate,
+          marketValue: 0,
+          rentCharged: 0,
+          imputedIncome: 0,
+        };
+        summary.periods.push(period);
+      }
+      period.marketValue = line.marketValue;
+      period.rentCharged = line.rentCharged;
+      period.imputedIncome = roundCurrency(period.imputedIncome + line.amount);
+      totals.set(line.staffId, summary);
+    });
+
+  return Array.from(totals.values())
+    .map((summary) => {
+      const periods = summary.periods.sort(
+        (a, b) => a.startDate.getTime() - b.startDate.getTime()
+      );
+      const sum = (pick: (period: (typeof periods)[number]) => number) =>
+        roundCurrency(periods.reduce((total, period) => total + pick(period), 0));
+
+      return {
+        ...summary,
+        periods,
+        marketValue: sum((period) => period.marketValue),
+        rentCharged: sum((period) => period.rentCharged),
+        imputedIncome: sum((period) => period.imputedIncome),
+      };
+    })
+    .filter((summary) => summary.imputedIncome !== 0 || summary.marketValue !== 0)
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
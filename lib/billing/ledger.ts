@@ -0,0 +1,222 @@
+import type {
+  ChargeAmounts,
+  DeductionCapOutcome,
+  LedgerEntry,
+  LedgerEntryWithBalance,
+  LedgerStatement,
+  PayrollExportLine,
+} from "@/lib/types/billing";
+import {
+  ChargeType,
+  LedgerEntryType,
+  PayrollExportLineType,
+} from "@/lib/types/billing";
+import { emptyAmounts } from "@/lib/billing/deduction-caps";
+import { toDateKey, toUtcDay } from "@/lib/dates";
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+// Entry types that add to what the staff member owes; every other type reduces it
+const DEBIT_TYPES = new Set([LedgerEntryType.CHARGE, LedgerEntryType.REFUND]);
+
+// Settlements clear carried payroll balances least essential charge first,
+// matching the order deduction caps hold them back in
+const SETTLEMENT_ORDER = [
+  ChargeType.OTHER,
+  ChargeType.TRANSPORT,
+  ChargeType.UTILITIES,
+  ChargeType.RENT,
+];
+
+const chargeTypeLabels: Record<ChargeType, string> = {
+  [ChargeType.RENT]: "Rent",
+  [ChargeType.UTILITIES]: "Utilities",
+  [ChargeType.TRANSPORT]: "Transport",
+  [ChargeType.OTHER]: "Other",
+};
+
+export const isDebitType = (entryType: LedgerEntryType) =>
+  DEBIT_TYPES.has(entryType);
+
+/**
+ * Debit and credit columns for a signed movement of `entryType`. A negative
+ * amount lands on the opposite side, e.g. a reversed charge is a credit.
+ */
+export function toDebitCredit(
+  entryType: LedgerEntryType,
+  amount: number
+): { debit: number; credit: number } {
+  const owed = roundCurrency(isDebitType(entryType) ? amount : -amount);
+  return owed >= 0
+    ? { debit: owed, credit: 0 }
+    : { debit: 0, credit: -owed };
+}
+
+// Effect of one entry on the balance: positive when the staff member owes more
+export const signedAmount = (entry: Pick<LedgerEntry, "debit" | "credit">) =>
+  roundCurrency(entry.debit - entry.credit);
+
+const byPostingOrder = (a: LedgerEntry, b: LedgerEntry) =>
+  a.entryDate.getTime() - b.entryDate.getTime() ||
+  a.createdAt.getTime() - b.createdAt.getTime();
+
+/**
+ * Entries in posting order with the balance after each one. `openingBalance`
+ * is the balance before the first entry.
+ */
+export function withRunningBalance(
+  entries: LedgerEntry[],
+  openingBalance = 0
+): LedgerEntryWithBalance[] {
+  let balance = openingBalance;
+  return [...entries].sort(byPostingOrder).map((entry) => {
+    balance = roundCurrency(balance + signedAmount(entry));
+    return { ...entry, balance };
+  });
+}
+
+export function emptyLedgerTotals(): Record<LedgerEntryType, number> {
+  return {
+    [LedgerEntryType.CHARGE]: 0,
+    [LedgerEntryType.PAYROLL_DEDUCTION]: 0,
+    [LedgerEntryType.CASH_PAYMENT]: 0,
+    [LedgerEntryType.CREDIT]: 0,
+    [LedgerEntryType.WRITE_OFF]: 0,
+    [LedgerEntryType.REFUND]: 0,
+  };
+}
+
+export function ledgerTotals(
+  entries: LedgerEntry[]
+): Record<LedgerEntryType, number> {
+  const totals = emptyLedgerTotals();
+  entries.forEach((entry) => {
+    totals[entry.entryType] = roundCurrency(
+      totals[entry.entryType] + signedAmount(entry)
+    );
+  });
+  return totals;
+}
+
+export const ledgerBalance = (entries: LedgerEntry[]) =>
+  roundCurrency(entries.reduce((sum, entry) => sum + signedAmount(entry), 0));
+
+/**
+ * A statement of one staff member's account from `periodStart` to
+ * `periodEnd` (UTC days, inclusive). Earlier entries only feed the opening
+ * balance.
+ */
+export function buildStatement(
+  staffId: string,
+  entries: LedgerEntry[],
+  periodStart: Date,
+  periodEnd: Date
+): LedgerStatement {
+  const start = toUtcDay(periodStart);
+  const end = toUtcDay(periodEnd);
+  const own = entries.filter((entry) => entry.staffId === staffId);
+
+  const openingBalance = ledgerBalance(
+    own.filter((entry) => toUtcDay(entry.entryDate) < start)
+  );
+  const inRange = own.filter((entry) => {
+    const day = toUtcDay(entry.entryDate);
+    return start <= day && day <= end;
+  });
+  const withBalance = withRunningBalance(inRange, openingBalance);
+
+  return {
+    staffId,
+    periodStart: start,
+    periodEnd: end,
+    openingBalance,
+    entries: withBalance,
+    totals: ledgerTotals(inRange),
+    closingBalance: roundCurrency(openingBalance + ledgerBalance(inRange)),
+  };
+}
+
+const lineDescriptions: Record<PayrollExportLineType, string> = {
+  [PayrollExportLineType.ORIGINAL]: "charge",
+  [PayrollExportLineType.ADJUSTMENT]: "charge adjusted",
+  [PayrollExportLineType.REVERSAL]: "charge reversed",
+  [PayrollExportLineType.REPLACEMENT]: "charge corrected",
+  [PayrollExportLineType.DEFERRAL]: "deduction deferred",
+  [PayrollExportLineType.RECOVERY]: "deferred deduction recovered",
+};
+
+/**
+ * Ledger rows (snake_case) for one payroll export: a charge entry per export
+ * line and a payroll deduction entry per staff member and charge type for what
+ * the paycheck actually takes after caps. `record_payroll_export` links them
+ * to the export it creates.
+ */
+export function exportLedgerRows(input: {
+  billingPeriodId: string;
+  entryDate: Date;
+  periodLabel: string;
+  lines: PayrollExportLine[];
+  outcomes: DeductionCapOutcome[];
+  createdBy: string;
+}) {
+  const base = {
+    billing_period_id: input.billingPeriodId,
+    entry_date: toDateKey(input.entryDate),
+    created_by: input.createdBy,
+  };
+
+  const chargeRows = input.lines
+    .filter((line) => roundCurrency(line.amount) !== 0)
+    .map((line) => ({
+      ...base,
+      staff_id: line.staffId,
+      entry_type: LedgerEntryType.CHARGE,
+      charge_type: line.chargeType,
+      charge_id: line.chargeId,
+      ...toDebitCredit(LedgerEntryType.CHARGE, line.amount),
+      description: `${chargeTypeLabels[line.chargeType]} ${lineDescriptions[line.lineType]} - ${input.periodLabel}`,
+    }));
+
+  const deductionRows = input.outcomes.flatMap((outcome) =>
+    Object.values(ChargeType)
+      .filter((type) => roundCurrency(outcome.deducted[type]) !== 0)
+      .map((type) => ({
+        ...base,
+        staff_id: outcome.staffId,
+        entry_type: LedgerEntryType.PAYROLL_DEDUCTION,
+        charge_type: type,
+        charge_id: null,
+        ...toDebitCredit(
+          LedgerEntryType.PAYROLL_DEDUCTION,
+          outcome.deducted[type]
+        ),
+        description: `${chargeTypeLabels[type]} payroll deduction - ${input.periodLabel}`,
+      }))
+  );
+
+  return [...chargeRows, ...deductionRows];
+}
+
+/**
+ * How much of a payment, credit or write-off clears the balance payroll is
+ * still carrying forward, per charge type. Without this, payroll would go on
+ * recovering an amount the staff member no longer owes. A `chargeType`
+ * restricts the settlement to that type.
+ */
+export function settleCarriedBalance(
+  carried: ChargeAmounts,
+  amount: number,
+  chargeType?: ChargeType
+): ChargeAmounts {
+  const settled = emptyAmounts();
+  let remaining = roundCurrency(amount);
+
+  for (const type of chargeType ? [chargeType] : SETTLEMENT_ORDER) {
+    const cleared = Math.min(remaining, Math.max(roundCurrency(carried[type]), 0));
+    settled[type] = cleared;
+    remaining = roundCurrency(remaining - cleared);
+    if (remaining <= 0) break;
+  }
+
+  return settled;
+}
@@ -0,0 +1,199 @@
+import type {
+  MinimumWageDecision,
+  MinimumWageRate,
+} from "@/lib/types/billing";
+import { MinimumWageAction, MinimumWageMode } from "@/lib/types/billing";
+import { toUtcDay } from "@/lib/dates";
+
+export const FEDERAL_JURISDICTION = "US";
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+// The rate in force for one jurisdiction; a later start supersedes an earlier one
+function rateOn(rates: MinimumWageRate[], jurisdiction: string, day: Date) {
+  return rates
+    .filter(
+      (rate) =>
+        rate.jurisdiction === jurisdiction &&
+        toUtcDay(rate.effectiveFrom) <= day &&
+        (!rate.effectiveTo || day <= toUtcDay(rate.effectiveTo))
+    )
+    .sort((a, b) => b.effectiveFrom.getTime() - a.effectiveFrom.getTime())[0];
+}
+
+/**
+ * Minimum wage for a worker in `state` on `onDate`. Where federal and state
+ * rates both apply, the worker is owed the higher one.
+ */
+export function applicableMinimumWage(
+  rates: MinimumWageRate[],
+  state: string | undefined,
+  onDate: Date
+): { jurisdiction: string; hourlyRate: number } | null {
+  const day = toUtcDay(onDate);
+  const candidates = [
+    rateOn(rates, FEDERAL_JURISDICTION, day),
+    state ? rateOn(rates, state.toUpperCase(), day) : undefined,
+  ].filter((rate): rate is MinimumWageRate => !!rate);
+
+  if (candidates.length === 0) return null;
+  const highest = candidates.reduce((a, b) => (b.hourlyRate > a.hourlyRate ? b : a));
+  return { jurisdiction: highest.jurisdiction, hourlyRate: highest.hourlyRate };
+}
+
+// Most a paycheck can deduct and still pay `hourlyRate` for every hour worked
+export function maxWageDeduction(
+  hoursWorked: number,
+  grossPay: number,
+  hourlyRate: number
+): number {
+  return Math.max(roundCurrency(grossPay - hoursWorked * hourlyRate), 0);
+}
+
+/**
+ * Decide whether one paycheck's deductions keep effective hourly pay at or
+ * above minimum wage. `requested` is everything the paycheck would deduct,
+ * including earlier exports against it. In CAP mode the excess is held back;
+ * in FLAG mode it is deducted and the breach recorded.
+ */
+export function checkMinimumWage(input: {
+  staffId: string;
+  requested: number;
+  hours?: { hoursWorked: number; grossPay: number };
+  rates: MinimumWageRate[];
+  state?: string;
+  onDate: Date;
+  mode: MinimumWageMode;
+}): MinimumWageDecision {
+  const { staffId, hours, mode } = input;
+  const requested = roundCurrency(input.requested);
+  const decision: MinimumWageDecision = {
+    staffId,
+    action: MinimumWageAction.OK,
+    requested,
+    deducted: requested,
+  };
+
+  // Credits and empty paychecks cannot breach the floor
+  if (requested <= 0) return decision;
+  if (!hours) return { ...decision, action: MinimumWageAction.NO_HOURS };
+
+  const floor = applicableMinimumWage(input.rates, input.state, input.onDate);
+  if (!floor) return { ...decision, ...hours };
+
+  const maxDeduction = maxWageDeduction(
+    hours.hoursWorked,
+    hours.grossPay,
+    floor.hourlyRate
+  );
+  const checked = {
+    ...decision,
+    jurisdiction: floor.jurisdiction,
+    minimumWage: floor.hourlyRate,
+    hoursWorked: hours.hoursWorked,
+    grossPay: hours.grossPay,
+    maxDeduction,
+  };
+
+  if (requested <= maxDeduction) return checked;
+  return mode === MinimumWageMode.CAP
+    ? { ...checked, action: MinimumWageAction.CAPPED, deducted: maxDeduction }
+    : { ...checked, action: MinimumWageAction.FLAGGED };
+}
+
+export type HoursFileRow = {
+  employeeId: string;
+  hoursWorked: number;
+  grossPay: number;
+};
+
+const HOURS_COLUMNS: Record<keyof HoursFileRow, string[]> = {
+  employeeId: ["employee_id", "employee", "file_number", "emp_id"],
+  hoursWorked: ["hours_worked", "hours", "total_hours"],
+  grossPay: ["gross_pay", "gross", "gross_earnings"],
+};
+
+// Blank cells are invalid rather than zero; currency formatting is allowed
+const toNumber = (cell = "") =>
+  cell === "" ? NaN : Number(cell.replace(/[$,]/g, ""));
+
+function splitCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      cells.push(cell.trim());
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  cells.push(cell.trim());
+  return cells;
+}
+
+/**
+ * Read an uploaded hours file: a CSV with employee ID, hours worked and gross
+ * pay columns, in any order. Bad rows are reported by line number and skipped.
+ */
+export function parseHoursFile(text: string): {
+  rows: HoursFileRow[];
+  errors: string[];
+} {
+  const lines = text.split(/\r?\n/).filter((line) => line.trim() !== "");
+  if (lines.length === 0) return { rows: [], errors: ["The file is empty"] };
+
+  const header = splitCsvLine(lines[0]).map((name) =>
+    name.toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_|_$/g, "")
+  );
+  const columnIndex = Object.fromEntries(
+    Object.entries(HOURS_COLUMNS).map(([field, names]) => [
+      field,
+      header.findIndex((name) => names.includes(name)),
+    ])
+  ) as Record<keyof HoursFileRow, number>;
+
+  const missing = Object.entries(columnIndex)
+    .filter(([, index]) => index === -1)
+    .map(([field]) => HOURS_COLUMNS[field as keyof HoursFileRow][0]);
+  if (missing.length > 0) {
+    return { rows: [], errors: [`Missing column: ${missing.join(", ")}`] };
+  }
+
+  const rows: HoursFileRow[] = [];
+  const errors: string[] = [];
+
+  lines.slice(1).forEach((line, index) => {
+    const cells = splitCsvLine(line);
+    const employeeId = cells[columnIndex.employeeId] ?? "";
+    const hoursWorked = toNumber(cells[columnIndex.hoursWorked]);
+    const grossPay = toNumber(cells[columnIndex.grossPay]);
+
+    if (!employeeId) {
+      errors.push(`Line ${index + 2}: missing employee ID`);
+    } else if (!Number.isFinite(hoursWorked) || hoursWorked < 0) {
+      errors.push(`Line ${index + 2}: invalid hours for ${employeeId}`);
+    } else if (!Number.isFinite(grossPay) || grossPay < 0) {
+      errors.push(`Line ${index + 2}: invalid gross pay for ${employeeId}`);
+    } else {
+      rows.push({ employeeId, hoursWorked, grossPay });
+    }
+  });
+
+  return { rows, errors };
+}
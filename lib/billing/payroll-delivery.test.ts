@@ -0,0 +1,167 @@
+import { describe, expect, it } from "vitest";
+import {
+  deliveryStatusFor,
+  mergeRowResults,
+  netDeductionInputs,
+  netEarningInputs,
+  selectRowsForDelivery,
+  toDeductionInputs,
+} from "@/lib/billing/payroll-delivery";
+import { DEFAULT_DEDUCTION_CODES } from "@/lib/billing/formats";
+import type { PayrollExportData, PayrollRowResult } from "@/lib/types/billing";
+import {
+  ChargeType,
+  PayrollDeliveryStatus,
+  PayrollExportLineType,
+  PayrollRowStatus,
+} from "@/lib/types/billing";
+
+const row = (
+  employeeId: string,
+  overrides: Partial<PayrollExportData> = {}
+): PayrollExportData => ({
+  employeeId,
+  firstName: "Ann",
+  lastName: "Lee",
+  totalDeductions: 450,
+  rentCharges: 450,
+  utilityCharges: 0,
+  transportCharges: 0,
+  otherCharges: 0,
+  billingPeriod: "Jan 2026",
+  ...overrides,
+});
+
+const result = (
+  employeeId: string,
+  status: PayrollRowStatus,
+  overrides: Partial<PayrollRowResult> = {}
+): PayrollRowResult => ({
+  employeeId,
+  amount: 450,
+  status,
+  attempts: 1,
+  submittedAt: new Date("2026-02-02T09:30:00Z"),
+  ...overrides,
+});
+
+describe("toDeductionInputs", () => {
+  it("sends each non-zero amount under its deduction code", () => {
+    expect(
+      toDeductionInputs(
+        row("E1", { transportCharges: -12.5 }),
+        DEFAULT_DEDUCTION_CODES
+      )
+    ).toEqual([
+      { chargeType: ChargeType.RENT, deductionCode: "HSG", amount: 450 },
+      { chargeType: ChargeType.TRANSPORT, deductionCode: "TRN", amount: -12.5 },
+    ]);
+  });
+
+});
+
+describe("netDeductionInputs", () => {
+  it("offsets reversal lines against what they correct", () => {
+    const rows = [
+      row("E1", { transportCharges: 40 }),
+      row("E1", {
+        lineType: PayrollExportLineType.REVERSAL,
+        rentCharges: -450,
+        transportCharges: -15.25,
+      }),
+    ];
+
+    expect(netDeductionInputs(rows, DEFAULT_DEDUCTION_CODES)).toEqual([
+      { chargeType: ChargeType.TRANSPORT, deductionCode: "TRN", amount: 24.75 },
+    ]);
+  });
+
+  it("keeps a code that nets to a credit negative", () => {
+    const rows = [
+      row("E1", {
+        lineType: PayrollExportLineType.ADJUSTMENT,
+        rentCharges: -120,
+      }),
+    ];
+
+    expect(netDeductionInputs(rows, DEFAULT_DEDUCTION_CODES)).toEqual([
+      { chargeType: ChargeType.RENT, deductionCode: "HSG", amount: -120 },
+    ]);
+  });
+});
+
+describe("netEarningInputs", () => {
+  it("sends imputed income as one earning", () => {
+    const rows = [
+      row("E1", { imputedIncome: 80 }),
+      row("E1", { imputedIncome: -20.5 }),
+    ];
+
+    expect(netEarningInputs(rows, "IMP")).toEqual([
+      { earningCode: "IMP", amount: 59.5 },
+    ]);
+    expect(netEarningInputs([row("E1")], "IMP")).toEqual([]);
+  });
+});
+
+describe("selectRowsForDelivery", () => {
+  const rows = [
+    row("E1"),
+    row("E2"),
+    row("E3"),
+    row("E1", { lineType: PayrollExportLineType.DEFERRAL }),
+  ];
+  const previous = [
+    result("E1", PayrollRowStatus.SUBMITTED),
+    result("E2", PayrollRowStatus.FAILED),
+  ];
+
+  it("never sends a row the provider accepted", () => {
+    expect(
+      selectRowsForDelivery(rows, previous, false).map(
+        (selected) => `${selected.employeeId}:${selected.lineType ?? ""}`
+      )
+    ).toEqual(["E2:", "E3:", "E1:deferral"]);
+  });
+
+  it("sends only failed rows on a retry", () => {
+    expect(
+      selectRowsForDelivery(rows, previous, true).map(
+        (selected) => selected.employeeId
+      )
+    ).toEqual(["E2"]);
+  });
+});
+
+describe("mergeRowResults", () => {
+  it("keeps the latest result per row and counts every attempt", () => {
+    const merged = mergeRowResults(
+      [
+        result("E1", PayrollRowStatus.SUBMITTED),
+        result("E2", PayrollRowStatus.FAILED, { attempts: 2, error: "Timeout" }),
+      ],
+      [result("E2", PayrollRowStatus.SUBMITTED)]
+    );
+
+    expect(merged).toEqual([
+      result("E1", PayrollRowStatus.SUBMITTED),
+      result("E2", PayrollRowStatus.SUBMITTED, { attempts: 3 }),
+    ]);
+  });
+});
+
+describe("deliveryStatusFor", () => {
+  it("reports how much of the export the provider accepted", () => {
+    const submitted = result("E1", PayrollRowStatus.SUBMITTED);
+    const failed = result("E2", PayrollRowStatus.FAILED);
+
+    expect(deliveryStatusFor([], 2)).toBe(PayrollDeliveryStatus.NOT_SENT);
+    expect(deliveryStatusFor([failed], 2)).toBe(PayrollDeliveryStatus.FAILED);
+    expect(deliveryStatusFor([submitted, failed], 2)).toBe(
+      PayrollDeliveryStatus.PARTIAL
+    );
+    expect(
+      deliveryStatusFor([submitted, result("E2", PayrollRowStatus.SUBMITTED)], 2)
+    ).toBe(PayrollDeliveryStatus.DELIVERED);
+  });
+});
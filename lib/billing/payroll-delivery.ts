@@ -0,0 +1,146 @@
+import type {
+  PayrollExportData,
+  PayrollRowResult,
+} from "@/lib/types/billing";
+import {
+  ChargeType,
+  PayrollDeliveryStatus,
+  PayrollExportLineType,
+  PayrollRowStatus,
+} from "@/lib/types/billing";
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+export type DeductionInput = {
+  chargeType: ChargeType;
+  deductionCode: string;
+  amount: number;
+};
+
+// Rows are one per employee and line type, so that pair identifies a row
+export function rowKey(row: {
+  employeeId: string;
+  lineType?: PayrollExportLineType;
+}): string {
+  return `${row.employeeId}:${row.lineType ?? PayrollExportLineType.ORIGINAL}`;
+}
+
+// Non-zero deductions in a row, with the provider's code for each
+export function toDeductionInputs(
+  row: PayrollExportData,
+  deductionCodes: Record<ChargeType, string>
+): DeductionInput[] {
+  const amounts: [ChargeType, number][] = [
+    [ChargeType.RENT, row.rentCharges],
+    [ChargeType.UTILITIES, row.utilityCharges],
+    [ChargeType.TRANSPORT, row.transportCharges],
+    [ChargeType.OTHER, row.otherCharges],
+  ];
+
+  return amounts
+    .filter(([, amount]) => amount !== 0)
+    .map(([chargeType, amount]) => ({
+      chargeType,
+      deductionCode: deductionCodes[chargeType],
+      amount,
+    }));
+}
+
+/**
+ * One employee's deductions across all of their rows, netted per deduction
+ * code so reversal and correction lines offset what they correct. Codes that
+ * net to zero are left out; a negative amount means the employee is owed a
+ * refund for that code.
+ */
+export function netDeductionInputs(
+  rows: PayrollExportData[],
+  deductionCodes: Record<ChargeType, string>
+): DeductionInput[] {
+  const byCode = new Map<string, DeductionInput>();
+  rows
+    .flatMap((row) => toDeductionInputs(row, deductionCodes))
+    .forEach((input) => {
+      const current = byCode.get(input.deductionCode);
+      byCode.set(input.deductionCode, {
+        ...(current ?? input),
+        amount: roundCurrency((current?.amount ?? 0) + input.amount),
+      });
+    });
+
+  return Array.from(byCode.values()).filter((input) => input.amount !== 0);
+}
+
+export type EarningInput = {
+  earningCode: string;
+  amount: number;
+};
+
+// One employee's imputed income across all of their rows, sent as one earning
+// rather than a deduction
+export function netEarningInputs(
+  rows: PayrollExportData[],
+  imputedIncomeCode: string
+): EarningInput[] {
+  const amount = roundCurrency(
+    rows.reduce((sum, row) => sum + (row.imputedIncome ?? 0), 0)
+  );
+  return amount ? [{ earningCode: imputedIncomeCode, amount }] : [];
+}
+
+/**
+ * Rows to send on this attempt. A row the provider already accepted is never
+ * sent again; a retry sends only rows whose last attempt failed.
+ */
+export function selectRowsForDelivery(
+  rows: PayrollExportData[],
+  previous: PayrollRowResult[],
+  retryFailedOnly: boolean
+): PayrollExportData[] {
+  const lastStatus = new Map(
+    previous.map((result) => [rowKey(result), result.status])
+  );
+
+  return rows.filter((row) => {
+    const status = lastStatus.get(rowKey(row));
+    if (status === PayrollRowStatus.SUBMITTED) return false;
+    return retryFailedOnly ? status === PayrollRowStatus.FAILED : true;
+  });
+}
+
+// Latest result per row, keeping a running count of attempts
+export function mergeRowResults(
+  previous: PayrollRowResult[],
+  latest: PayrollRowResult[]
+): PayrollRowResult[] {
+  const merged = new Map(previous.map((result) => [rowKey(result), result]));
+
+  latest.forEach((result) => {
+    const key = rowKey(result);
+    const earlier = merged.get(key);
+    merged.set(key, {
+      ...result,
+      attempts: (earlier?.attempts ?? 0) + result.attempts,
+    });
+  });
+
+  return Array.from(merged.values());
+}
+
+export function deliveryStatusFor(
+  results: PayrollRowResult[],
+  totalRows: number
+): PayrollDeliveryStatus {
+  const submitted = results.filter(
+    (result) => result.status === PayrollRowStatus.SUBMITTED
+  ).length;
+
+  if (submitted === 0) {
+    return results.length === 0
+      ? PayrollDeliveryStatus.NOT_SENT
+      : PayrollDeliveryStatus.FAILED;
+  }
+
+  return submitted >= totalRows
+    ? PayrollDeliveryStatus.DELIVERED
+    : PayrollDeliveryStatus.PARTIAL;
+}
@@ -0,0 +1,150 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildExportLines,
+  exportedAmountsByCharge,
+  summarizeExportLines,
+} from "@/lib/billing/payroll-delta";
+import type { ExportableCharge, PayrollExportLine } from "@/lib/types/billing";
+import {
+  ChargeType,
+  PayrollExportLineType,
+  PayrollExportType,
+} from "@/lib/types/billing";
+
+const charge = (
+  id: string,
+  amount: number,
+  type: ChargeType = ChargeType.RENT
+): ExportableCharge => ({ id, staffId: "staff-1", type, amount });
+
+const exportedLine = (
+  chargeId: string,
+  amount: number,
+  lineType: PayrollExportLineType = PayrollExportLineType.ORIGINAL
+): PayrollExportLine => ({
+  chargeId,
+  staffId: "staff-1",
+  chargeType: ChargeType.RENT,
+  lineType,
+  amount,
+});
+
+const described = (lines: PayrollExportLine[]) =>
+  lines.map(({ chargeId, lineType, amount }) => [chargeId, lineType, amount]);
+
+describe("exportedAmountsByCharge", () => {
+  it("nets every line sent for a charge", () => {
+    const totals = exportedAmountsByCharge([
+      exportedLine("c1", 100),
+      exportedLine("c1", -100, PayrollExportLineType.REVERSAL),
+      exportedLine("c1", 80.1, PayrollExportLineType.REPLACEMENT),
+      exportedLine("c2", 20),
+    ]);
+
+    expect(totals.get("c1")).toBe(80.1);
+    expect(totals.get("c2")).toBe(20);
+  });
+});
+
+describe("buildExportLines", () => {
+  it("sends every non-zero charge in a full export", () => {
+    const lines = buildExportLines(
+      PayrollExportType.FULL,
+      [charge("c1", 450), charge("c2", 0)],
+      []
+    );
+
+    expect(lines).toEqual([
+      {
+        chargeId: "c1",
+        staffId: "staff-1",
+        chargeType: ChargeType.RENT,
+        lineType: PayrollExportLineType.ORIGINAL,
+        amount: 450,
+      },
+    ]);
+  });
+
+  it("refuses a full export of charges already sent", () => {
+    expect(() =>
+      buildExportLines(
+        PayrollExportType.FULL,
+        [charge("c1", 450)],
+        [exportedLine("c1", 450)]
+      )
+    ).toThrow(/already been exported/);
+  });
+
+  it("sends one delta line per changed charge in an incremental export", () => {
+    const lines = buildExportLines(
+      PayrollExportType.INCREMENTAL,
+      [charge("c1", 400), charge("c2", 50), charge("c3", 30)],
+      [exportedLine("c1", 450), exportedLine("c2", 50)]
+    );
+
+    expect(described(lines)).toEqual([
+      ["c1", PayrollExportLineType.ADJUSTMENT, -50],
+      ["c3", PayrollExportLineType.ORIGINAL, 30],
+    ]);
+  });
+
+  it("reverses and replaces changed charges in a corrections export", () => {
+    const lines = buildExportLines(
+      PayrollExportType.CORRECTIONS,
+      [charge("c1", 400), charge("c2", 0)],
+      [exportedLine("c1", 450), exportedLine("c2", 50)]
+    );
+
+    expect(described(lines)).toEqual([
+      ["c1", PayrollExportLineType.REVERSAL, -450],
+      ["c1", PayrollExportLineType.REPLACEMENT, 400],
+      ["c2", PayrollExportLineType.REVERSAL, -50],
+    ]);
+  });
+
+  it("sends nothing when nothing changed", () => {
+    expect(
+      buildExportLines(
+        PayrollExportType.INCREMENTAL,
+        [charge("c1", 450)],
+        [exportedLine("c1", 450)]
+      )
+    ).toEqual([]);
+  });
+});
+
+describe("summarizeExportLines", () => {
+  it("rolls lines up per employee and line type, reversals first", () => {
+    const staff = new Map([
+      ["staff-1", { employeeId: "E1", firstName: "Ann", lastName: "Lee" }],
+    ]);
+    const rows = summarizeExportLines(
+      [
+        exportedLine("c1", 400, PayrollExportLineType.REPLACEMENT),
+        {
+          ...exportedLine("c2", 25, PayrollExportLineType.REPLACEMENT),
+          chargeType: ChargeType.TRANSPORT,
+        },
+        exportedLine("c1", -450, PayrollExportLineType.REVERSAL),
+      ],
+      staff,
+      "Jan 2026"
+    );
+
+    expect(rows).toEqual([
+      expect.objectContaining({
+        employeeId: "E1",
+        lineType: PayrollExportLineType.REVERSAL,
+        rentCharges: -450,
+        totalDeductions: -450,
+      }),
+      expect.objectContaining({
+        employeeId: "E1",
+        lineType: PayrollExportLineType.REPLACEMENT,
+        rentCharges: 400,
+        transportCharges: 25,
+        totalDeductions: 425,
+      }),
+    ]);
+  });
+});
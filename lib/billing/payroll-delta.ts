@@ -0,0 +1,125 @@
+import type {
+  ExportableCharge,
+  PayrollExportData,
+  PayrollExportLine,
+} from "@/lib/types/billing";
+import {
+  ChargeType,
+  PayrollExportLineType,
+  PayrollExportType,
+} from "@/lib/types/billing";
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+// Net amount payroll has received so far for each charge
+export function exportedAmountsByCharge(
+  lines: PayrollExportLine[]
+): Map<string, number> {
+  const totals = new Map<string, number>();
+  lines.forEach((line) => {
+    totals.set(
+      line.chargeId,
+      roundCurrency((totals.get(line.chargeId) || 0) + line.amount)
+    );
+  });
+  return totals;
+}
+
+/**
+ * Lines needed to bring payroll from what earlier exports sent to the current
+ * state of the charges. A full export sends every charge. Incremental exports
+ * send new charges and a single delta line per changed charge; corrections
+ * exports reverse the previously exported amount and send a replacement.
+ */
+export function buildExportLines(
+  exportType: PayrollExportType,
+  charges: ExportableCharge[],
+  previousLines: PayrollExportLine[]
+): PayrollExportLine[] {
+  const exported = exportedAmountsByCharge(previousLines);
+  const lines: PayrollExportLine[] = [];
+
+  for (const charge of charges) {
+    const current = roundCurrency(charge.amount);
+    const line = (lineType: PayrollExportLineType, amount: number) =>
+      lines.push({
+        chargeId: charge.id,
+        staffId: charge.staffId,
+        chargeType: charge.type,
+        lineType,
+        amount: roundCurrency(amount),
+      });
+
+    if (!exported.has(charge.id)) {
+      if (current !== 0) line(PayrollExportLineType.ORIGINAL, current);
+      continue;
+    }
+
+    if (exportType === PayrollExportType.FULL) {
+      throw new Error(
+        "Charges in this period have already been exported; use an incremental or corrections export"
+      );
+    }
+
+    const previous = exported.get(charge.id)!;
+    if (previous === current) continue;
+
+    if (exportType === PayrollExportType.INCREMENTAL) {
+      line(PayrollExportLineType.ADJUSTMENT, current - previous);
+    } else {
+      if (previous !== 0) line(PayrollExportLineType.REVERSAL, -previous);
+      if (current !== 0) line(PayrollExportLineType.REPLACEMENT, current);
+    }
+  }
+
+  return lines;
+}
+
+const typeColumns: Record<
+  ChargeType,
+  "rentCharges" | "utilityCharges" | "transportCharges" | "otherCharges"
+> = {
+  [ChargeType.RENT]: "rentCharges",
+  [ChargeType.UTILITIES]: "utilityCharges",
+  [ChargeType.TRANSPORT]: "transportCharges",
+  [ChargeType.OTHER]: "otherCharges",
+};
+
+// Roll lines up into one row per employee and line type
+export function summarizeExportLines(
+  lines: PayrollExportLine[],
+  staff: Map<string, { employeeId: string; firstName: string; lastName: string }>,
+  billingPeriod: string
+): PayrollExportData[] {
+  const rows = new Map<string, PayrollExportData>();
+
+  lines.forEach((line) => {
+    const key = `${line.staffId}:${line.lineType}`;
+    const person = staff.get(line.staffId);
+    const row = rows.get(key) || {
+      employeeId: person?.employeeId ?? line.staffId,
+      firstName: person?.firstName ?? "",
+      lastName: person?.lastName ?? "",
+      totalDeductions: 0,
+      rentCharges: 0,
+      utilityCharges: 0,
+      transportCharges: 0,
+      otherCharges: 0,
+      billingPeriod,
+      lineType: line.lineType,
+    };
+
+    const column = typeColumns[line.chargeType] ?? "otherCharges";
+    row[column] = roundCurrency(row[column] + line.amount);
+    row.totalDeductions = roundCurrency(row.totalDeductions + line.amount);
+    rows.set(key, row);
+  });
+
+  // Reversals come before their replacements for each employee
+  const lineOrder = Object.values(PayrollExportLineType);
+  return Array.from(rows.values()).sort(
+    (a, b) =>
+      a.employeeId.localeCompare(b.employeeId) ||
+      lineOrder.indexOf(a.lineType!) - lineOrder.indexOf(b.lineType!)
+  );
+}
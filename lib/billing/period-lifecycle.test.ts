@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import {
+  assertTransition,
+  getAvailableTransitions,
+  isPeriodLocked,
+} from "@/lib/billing/period-lifecycle";
+import { BillingStatus } from "@/lib/types/billing";
+import { PERMISSIONS } from "@/lib/types/user";
+
+const everyone = () => true;
+
+describe("getAvailableTransitions", () => {
+  it("offers no way out of an exported period", () => {
+    expect(getAvailableTransitions(BillingStatus.EXPORTED)).toEqual([]);
+  });
+
+  it("hides transitions the user has no permission for", () => {
+    const canUpdate = (permission: string) =>
+      permission === PERMISSIONS.BILLING_UPDATE;
+
+    expect(
+      getAvailableTransitions(BillingStatus.COMPLETED, canUpdate).map(
+        (transition) => transition.to
+      )
+    ).toEqual([BillingStatus.DRAFT]);
+  });
+});
+
+describe("assertTransition", () => {
+  it("allows a listed transition", () => {
+    expect(
+      assertTransition(
+        BillingStatus.DRAFT,
+        BillingStatus.PROCESSING,
+        { pendingDisputes: 0, chargeCount: 0 },
+        everyone
+      ).label
+    ).toBe("Process charges");
+  });
+
+  it("rejects transitions that are not listed", () => {
+    expect(() =>
+      assertTransition(
+        BillingStatus.EXPORTED,
+        BillingStatus.DRAFT,
+        { pendingDisputes: 0, chargeCount: 3 },
+        everyone
+      )
+    ).toThrow("A exported billing period cannot be moved to draft");
+  });
+
+  it("rejects users without the permission", () => {
+    expect(() =>
+      assertTransition(
+        BillingStatus.COMPLETED,
+        BillingStatus.EXPORTED,
+        { pendingDisputes: 0, chargeCount: 3 },
+        () => false
+      )
+    ).toThrow("You do not have permission to export to payroll");
+  });
+
+  it("will not complete a period with open disputes", () => {
+    expect(() =>
+      assertTransition(
+        BillingStatus.PROCESSING,
+        BillingStatus.COMPLETED,
+        { pendingDisputes: 2, chargeCount: 3 },
+        everyone
+      )
+    ).toThrow("2 disputed charge(s) must be resolved");
+  });
+
+  it("will not export a period with no charges", () => {
+    expect(() =>
+      assertTransition(
+        BillingStatus.COMPLETED,
+        BillingStatus.EXPORTED,
+        { pendingDisputes: 0, chargeCount: 0 },
+        everyone
+      )
+    ).toThrow("The period has no charges to export");
+  });
+});
+
+describe("isPeriodLocked", () => {
+  it("locks exported and cancelled periods", () => {
+    expect(isPeriodLocked(BillingStatus.EXPORTED)).toBe(true);
+    expect(isPeriodLocked(BillingStatus.CANCELLED)).toBe(true);
+    expect(isPeriodLocked(BillingStatus.COMPLETED)).toBe(false);
+  });
+});
@@ -0,0 +1,131 @@
+import type {
+  BillingPeriodGuardContext,
+  BillingPeriodTransition,
+} from "@/lib/types/billing";
+import { BillingStatus } from "@/lib/types/billing";
+import { PERMISSIONS } from "@/lib/types/user";
+
+// Every status change a billing period may make. Exported periods are final:
+// adjustments to their charges go out in incremental exports, and new charges
+// go into a sub-period opened with `reopenPeriod`.
+export const BILLING_PERIOD_TRANSITIONS: BillingPeriodTransition[] = [
+  {
+    from: BillingStatus.DRAFT,
+    to: BillingStatus.PROCESSING,
+    permission: PERMISSIONS.BILLING_UPDATE,
+    label: "Process charges",
+  },
+  {
+    from: BillingStatus.DRAFT,
+    to: BillingStatus.CANCELLED,
+    permission: PERMISSIONS.BILLING_DELETE,
+    label: "Cancel period",
+  },
+  {
+    from: BillingStatus.PROCESSING,
+    to: BillingStatus.COMPLETED,
+    permission: PERMISSIONS.BILLING_UPDATE,
+    label: "Complete period",
+  },
+  {
+    from: BillingStatus.PROCESSING,
+    to: BillingStatus.DRAFT,
+    permission: PERMISSIONS.BILLING_UPDATE,
+    label: "Return to draft",
+  },
+  {
+    from: BillingStatus.PROCESSING,
+    to: BillingStatus.CANCELLED,
+    permission: PERMISSIONS.BILLING_DELETE,
+    label: "Cancel period",
+  },
+  {
+    from: BillingStatus.COMPLETED,
+    to: BillingStatus.EXPORTED,
+    permission: PERMISSIONS.BILLING_EXPORT,
+    label: "Export to payroll",
+  },
+  {
+    from: BillingStatus.COMPLETED,
+    to: BillingStatus.DRAFT,
+    permission: PERMISSIONS.BILLING_UPDATE,
+    label: "Return to draft",
+  },
+  {
+    from: BillingStatus.CANCELLED,
+    to: BillingStatus.DRAFT,
+    permission: PERMISSIONS.BILLING_UPDATE,
+    label: "Reactivate period",
+  },
+];
+
+// Permission needed to open a corrections sub-period on an exported period
+export const REOPEN_PERMISSION = PERMISSIONS.BILLING_EXPORT;
+
+export function findTransition(
+  from: BillingStatus,
+  to: BillingStatus
+): BillingPeriodTransition | undefined {
+  return BILLING_PERIOD_TRANSITIONS.find(
+    (transition) => transition.from === from && transition.to === to
+  );
+}
+
+export function getAvailableTransitions(
+  status: BillingStatus,
+  can: (permission: string) => boolean = () => true
+): BillingPeriodTransition[] {
+  return BILLING_PERIOD_TRANSITIONS.filter(
+    (transition) => transition.from === status && can(transition.permission)
+  );
+}
+
+// Reasons the period cannot move to `to` right now; empty when it can
+export function getTransitionBlockers(
+  to: BillingStatus,
+  context: BillingPeriodGuardContext
+): string[] {
+  const blockers: string[] = [];
+
+  if (to === BillingStatus.COMPLETED && context.pendingDisputes > 0) {
+    blockers.push(
+      `${context.pendingDisputes} disputed charge(s) must be resolved before the period can be completed`
+    );
+  }
+
+  // Exports need no guard for disputes: they hold disputed charges back until
+  // the dispute is resolved
+  if (to === BillingStatus.EXPORTED && context.chargeCount === 0) {
+    blockers.push("The period has no charges to export");
+  }
+
+  return blockers;
+}
+
+export function assertTransition(
+  from: BillingStatus,
+  to: BillingStatus,
+  context: BillingPeriodGuardContext,
+  can: (permission: string) => boolean
+): BillingPeriodTransition {
+  const transition = findTransition(from, to);
+  if (!transition) {
+    throw new Error(`A ${from} billing period cannot be moved to ${to}`);
+  }
+
+  if (!can(transition.permission)) {
+    throw new Error(`You do not have permission to ${transition.label.toLowerCase()}`);
+  }
+
+  const blockers = getTransitionBlockers(to, context);
+  if (blockers.length > 0) {
+    throw new Error(blockers.join("; "));
+  }
+
+  return transition;
+}
+
+// Charges may only be added, changed or removed while the period is open
+export function isPeriodLocked(status: BillingStatus): boolean {
+  return status === BillingStatus.EXPORTED || status === BillingStatus.CANCELLED;
+}
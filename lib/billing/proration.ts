@@ -0,0 +1,130 @@
+import { ERP_CONFIG } from "@/lib/config/erp";
+import { ProrationMethod } from "@/lib/types/housing";
+import {
+  addUtcDays,
+  daysBetween,
+  daysInUtcMonth,
+  minDate,
+  toUtcDay,
+} from "@/lib/dates";
+
+export const DEFAULT_PRORATION_METHOD = ERP_CONFIG.housing
+  .defaultRentProrationMethod as ProrationMethod;
+
+export function roundFactor(value: number): number {
+  const scale = 10 ** ERP_CONFIG.billing.prorationPrecision;
+  return Math.round(value * scale) / scale;
+}
+
+// Days from `start` up to `endExclusive` on a 30/360 calendar: every month
+// has 30 days and the 31st is never counted
+export function days360(start: Date, endExclusive: Date): number {
+  const from = toUtcDay(start);
+  const to = toUtcDay(endExclusive);
+  const d1 = Math.min(from.getUTCDate(), 30);
+  const d2 = to.getUTCDate() === 31 && d1 === 30 ? 30 : to.getUTCDate();
+
+  return (
+    (to.getUTCFullYear() - from.getUTCFullYear()) * 360 +
+    (to.getUTCMonth() - from.getUTCMonth()) * 30 +
+    (d2 - d1)
+  );
+}
+
+/**
+ * Share of a month's rent owed for the nights from `start` up to
+ * `endExclusive`, which must lie within one calendar month:
+ * - daily: nights over the days in that month
+ * - 30-day month: nights over 30, a full calendar month being exactly one
+ * - 30/360: 30/360 days over 30
+ * - whole week: nights at a weekly rate of 12/52 of the monthly rate; rounding
+ *   up to whole weeks is done per stay by `wholeWeekTopUp`
+ */
+export function monthFraction(
+  method: ProrationMethod,
+  start: Date,
+  endExclusive: Date
+): number {
+  const nights = daysBetween(start, endExclusive);
+  const monthDays = daysInUtcMonth(start);
+
+  switch (method) {
+    case ProrationMethod.DAILY:
+      return roundFactor(nights / monthDays);
+    case ProrationMethod.THIRTY_DAY_MONTH:
+      return roundFactor(nights >= monthDays ? 1 : Math.min(nights, 30) / 30);
+    case ProrationMethod.THIRTY_360:
+      return roundFactor(Math.min(days360(start, endExclusive), 30) / 30);
+    case ProrationMethod.WHOLE_WEEK:
+      return roundFactor((nights * 12) / 364);
+  }
+}
+
+// Months of rent owed for a range that may span several calendar months
+export function monthsCharged(
+  method: ProrationMethod,
+  start: Date,
+  endExclusive: Date
+): number {
+  let months = 0;
+  let from = toUtcDay(start);
+  const until = toUtcDay(endExclusive);
+
+  while (from < until) {
+    const monthEnd = new Date(
+      Date.UTC(from.getUTCFullYear(), from.getUTCMonth() + 1, 1)
+    );
+    const to = minDate(monthEnd, until);
+    months += monthFraction(method, from, to);
+    from = to;
+  }
+
+  return roundFactor(months);
+}
+
+/**
+ * Share of a full billing period charged for part of it. Both ranges include
+ * their end dates.
+ */
+export function prorationFactor(
+  method: ProrationMethod,
+  start: Date,
+  end: Date,
+  periodStart: Date,
+  periodEnd: Date
+): number {
+  const full = monthsCharged(method, periodStart, addUtcDays(periodEnd, 1));
+  if (full <= 0) return 0;
+
+  const charged = monthsCharged(method, start, addUtcDays(end, 1));
+  return roundFactor(Math.min(charged / full, 1));
+}
+
+// Nights at the start of a stay that are not charged
+export function graceNights(
+  stayStart: Date,
+  billedFrom: Date,
+  billedUntil: Date
+): number {
+  const graceEnd = minDate(
+    addUtcDays(stayStart, ERP_CONFIG.housing.moveInGracePeriod),
+    billedUntil
+  );
+  return Math.max(daysBetween(billedFrom, graceEnd), 0);
+}
+
+// Nights of notice owed for a move-out given with less than the required
+// notice. Nothing is owed when no notice date was recorded.
+export function shortNoticeNights(noticeDate: Date | undefined, moveOut: Date) {
+  if (!noticeDate) return 0;
+  const given = Math.max(daysBetween(noticeDate, moveOut), 0);
+  return Math.max(ERP_CONFIG.housing.moveOutNoticePeriod - given, 0);
+}
+
+// Extra nights that round a whole-week stay up to full weeks, never going past
+// the nights the billing period has room for
+export function wholeWeekTopUp(nights: number, maxNights: number): number {
+  const partial = nights % 7;
+  if (partial === 0) return 0;
+  return Math.max(Math.min(7 - partial, maxNights - nights), 0);
+}
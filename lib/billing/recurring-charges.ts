@@ -0,0 +1,88 @@
+import type {
+  RecurringCharge,
+  RecurringChargeOccurrence,
+} from "@/lib/types/billing";
+import { RecurringChargeFrequency } from "@/lib/types/billing";
+import {
+  DEFAULT_PRORATION_METHOD,
+  monthsCharged,
+  prorationFactor,
+  roundFactor,
+} from "@/lib/billing/proration";
+import {
+  addUtcDays,
+  daysBetween,
+  maxDate,
+  minDate,
+  toUtcDay,
+} from "@/lib/dates";
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+type ScheduleTerms = Pick<
+  RecurringCharge,
+  "amount" | "frequency" | "startDate" | "endDate" | "prorate"
+>;
+
+/**
+ * What a recurring charge comes to in a billing period, or null when it is not
+ * active in any of it. The amount is due once per frequency:
+ * - per period: the amount each billing period
+ * - weekly: the amount per 7 days of the period
+ * - monthly: the amount per month of the period, measured with the default
+ *   rent proration method
+ * A period the charge only partly covers is charged in proportion when the
+ * charge prorates, and in full otherwise. Both ranges include their end dates.
+ */
+export function recurringChargeForPeriod(
+  schedule: ScheduleTerms,
+  period: { startDate: Date; endDate: Date }
+): RecurringChargeOccurrence | null {
+  const periodStart = toUtcDay(period.startDate);
+  const periodEnd = toUtcDay(period.endDate);
+  const activeFrom = maxDate(toUtcDay(schedule.startDate), periodStart);
+  const activeTo = schedule.endDate
+    ? minDate(toUtcDay(schedule.endDate), periodEnd)
+    : periodEnd;
+
+  if (activeFrom > activeTo) return null;
+
+  const periodDays = daysBetween(periodStart, addUtcDays(periodEnd, 1));
+  const activeDays = daysBetween(activeFrom, addUtcDays(activeTo, 1));
+
+  let amount: number;
+  let factor: number;
+  switch (schedule.frequency) {
+    case RecurringChargeFrequency.PER_PERIOD:
+      amount = schedule.amount;
+      factor = roundFactor(activeDays / periodDays);
+      break;
+    case RecurringChargeFrequency.WEEKLY:
+      amount = (schedule.amount * periodDays) / 7;
+      factor = roundFactor(activeDays / periodDays);
+      break;
+    case RecurringChargeFrequency.MONTHLY:
+      amount =
+        schedule.amount *
+        monthsCharged(
+          DEFAULT_PRORATION_METHOD,
+          periodStart,
+          addUtcDays(periodEnd, 1)
+        );
+      factor = prorationFactor(
+        DEFAULT_PRORATION_METHOD,
+        activeFrom,
+        activeTo,
+        periodStart,
+        periodEnd
+      );
+      break;
+  }
+
+  return {
+    activeFrom,
+    activeTo,
+    amount: roundCurrency(amount),
+    prorationFactor: schedule.prorate ? factor : 1,
+  };
+}
@@ -0,0 +1,510 @@
+import type {
+  ChargeAdjustment,
+  LedgerEntry,
+  StaffBillingStatement,
+  StatementCharge,
+} from "@/lib/types/billing";
+import {
+  AdjustmentReasonCode,
+  ChargeAdjustmentType,
+  ChargeStatus,
+  ChargeType,
+  LedgerEntryType,
+} from "@/lib/types/billing";
+import type { ProrationBreakdown, ProrationLine } from "@/lib/types/housing";
+import { netChargeAmount, signedAdjustmentAmount } from "@/lib/billing/adjustments";
+import { creditedAmount } from "@/lib/billing/disputes";
+import { emptyAmounts, sumAmounts } from "@/lib/billing/deduction-caps";
+import { buildStatement } from "@/lib/billing/ledger";
+import { toDateKey, toUtcDay } from "@/lib/dates";
+import {
+  createPdf,
+  fitText,
+  PDF_PAGE_HEIGHT,
+  PDF_PAGE_WIDTH,
+  textWidth,
+  wrapText,
+  type PdfFont,
+  type PdfPage,
+} from "@/lib/pdf";
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+const chargeTypeLabels: Record<ChargeType, string> = {
+  [ChargeType.RENT]: "Rent",
+  [ChargeType.UTILITIES]: "Utilities",
+  [ChargeType.TRANSPORT]: "Transport",
+  [ChargeType.OTHER]: "Other",
+};
+
+const adjustmentTypeLabels: Record<ChargeAdjustmentType, string> = {
+  [ChargeAdjustmentType.CREDIT_NOTE]: "Credit note",
+  [ChargeAdjustmentType.DEBIT]: "Debit",
+  [ChargeAdjustmentType.REVERSAL]: "Reversal",
+};
+
+const reasonLabels: Record<AdjustmentReasonCode, string> = {
+  [AdjustmentReasonCode.BILLING_ERROR]: "billing error",
+  [AdjustmentReasonCode.DUPLICATE_CHARGE]: "duplicate charge",
+  [AdjustmentReasonCode.RATE_CHANGE]: "rate change",
+  [AdjustmentReasonCode.PRORATION_CORRECTION]: "proration correction",
+  [AdjustmentReasonCode.WAIVER]: "waiver",
+  [AdjustmentReasonCode.GOODWILL]: "goodwill",
+  [AdjustmentReasonCode.OTHER]: "other",
+};
+
+const prorationLineLabels: Record<ProrationLine["kind"], string> = {
+  rent: "Rent",
+  grace: "Move-in grace",
+  short_notice: "Short move-out notice",
+  week_rounding: "Rounded up to whole weeks",
+};
+
+// Charges not yet final are flagged next to their description
+const heldStatusLabels: Partial<Record<ChargeStatus, string>> = {
+  [ChargeStatus.PENDING]: "pending approval",
+  [ChargeStatus.DISPUTED]: "disputed",
+};
+
+// Proration breakdowns are stored as JSON, so their dates come back as strings
+export function reviveProration(raw: any): ProrationBreakdown | undefined {
+  if (!raw || !Array.isArray(raw.lines)) return undefined;
+  return {
+    ...raw,
+    periodStart: toUtcDay(raw.periodStart),
+    periodEnd: toUtcDay(raw.periodEnd),
+    lines: raw.lines.map((line: any) => ({
+      ...line,
+      startDate: line.startDate ? toUtcDay(line.startDate) : undefined,
+      endDate: line.endDate ? toUtcDay(line.endDate) : undefined,
+    })),
+  };
+}
+
+/**
+ * A charge as the statement shows it. `amount` is the effective (prorated)
+ * amount; the net amount takes off adjustments and any dispute credit, the
+ * same way the payroll export does.
+ */
+export function toStatementCharge(charge: {
+  id: string;
+  type: ChargeType;
+  status: ChargeStatus;
+  description: string;
+  amount: number;
+  startDate?: Date;
+  endDate?: Date;
+  metadata?: Record<string, any>;
+  adjustments?: ChargeAdjustment[];
+  disputeCredit?: number;
+}): StatementCharge {
+  const adjustments = [...(charge.adjustments || [])].sort(
+    (a, b) => a.createdAt.getTime() - b.createdAt.getTime()
+  );
+  const disputeCredit = charge.disputeCredit ?? 0;
+
+  return {
+    chargeId: charge.id,
+    type: charge.type,
+    status: charge.status,
+    description: charge.description,
+    startDate: charge.startDate,
+    endDate: charge.endDate,
+    amount: roundCurrency(charge.amount),
+    proration: reviveProration(charge.metadata?.proration),
+    adjustments,
+    disputeCredit,
+    netAmount: creditedAmount(
+      netChargeAmount(charge.amount, adjustments),
+      disputeCredit
+    ),
+  };
+}
+
+/**
+ * A staff member's statement for one billing period. The account section is
+ * the ledger over the period's dates; payroll deductions for an export are
+ * posted on the period's end date, so they fall inside it.
+ */
+export function buildStaffStatement(input: {
+  staff: StaffBillingStatement["staff"];
+  period: StaffBillingStatement["period"];
+  charges: StatementCharge[];
+  ledgerEntries: LedgerEntry[];
+}): StaffBillingStatement {
+  const account = buildStatement(
+    input.staff.id,
+    input.ledgerEntries,
+    input.period.startDate,
+    input.period.endDate
+  );
+
+  const deductions = emptyAmounts();
+  account.entries
+    .filter((entry) => entry.entryType === LedgerEntryType.PAYROLL_DEDUCTION)
+    .forEach((entry) => {
+      const type = entry.chargeType ?? ChargeType.OTHER;
+      deductions[type] = roundCurrency(deductions[type] + entry.credit - entry.debit);
+    });
+
+  const charges = [...input.charges].sort(
+    (a, b) =>
+      (a.startDate?.getTime() ?? 0) - (b.startDate?.getTime() ?? 0) ||
+      a.type.localeCompare(b.type)
+  );
+  const charged = roundCurrency(charges.reduce((sum, c) => sum + c.amount, 0));
+  const net = roundCurrency(charges.reduce((sum, c) => sum + c.netAmount, 0));
+
+  return {
+    staff: input.staff,
+    period: input.period,
+    charges,
+    deductions,
+    account,
+    totals: {
+      charged,
+      adjustments: roundCurrency(net - charged),
+      net,
+      deducted: roundCurrency(sumAmounts(deductions)),
+    },
+    generatedAt: new Date(),
+  };
+}
+
+export const statementFileName = (statement: StaffBillingStatement) =>
+  `statement-${statement.staff.employeeId || statement.staff.id}-${toDateKey(
+    statement.period.startDate
+  )}.pdf`;
+
+const currency = new Intl.NumberFormat("en-US", {
+  style: "currency",
+  currency: "USD",
+});
+const formatMoney = (value: number) => currency.format(roundCurrency(value));
+
+// Statement dates are UTC days
+const dayFormat = new Intl.DateTimeFormat("en-US", {
+  year: "numeric",
+  month: "short",
+  day: "2-digit",
+  timeZone: "UTC",
+});
+const formatDay = (value: Date) => dayFormat.format(value);
+const formatShortDay = (value: Date) =>
+  formatDay(value).replace(/, \d{4}$/, "");
+
+const MARGIN = 50;
+const CONTENT_BOTTOM = PDF_PAGE_HEIGHT - 60;
+const RIGHT = PDF_PAGE_WIDTH - MARGIN;
+
+// Cursor-based page filler: writes rows top to bottom, starting a new page
+// (with the current table header repeated) when a row would not fit
+function statementLayout() {
+  const pages: PdfPage[] = [];
+  let page: PdfPage = [];
+  let y = MARGIN;
+  let repeatHeader: (() => void) | null = null;
+
+  const newPage = () => {
+    page = [];
+    pages.push(page);
+    y = MARGIN;
+    repeatHeader?.();
+  };
+  newPage();
+
+  const text = (
+    x: number,
+    value: string,
+    size: number,
+    font: PdfFont = "regular",
+    align: "left" | "right" = "left"
+  ) => {
+    page.push({
+      kind: "text",
+      x: align === "right" ? x - textWidth(value, size, font) : x,
+      y,
+      text: value,
+      size,
+      font,
+    });
+  };
+
+  return {
+    pages,
+    text,
+    rule: (width = 0.5) => {
+      page.push({ kind: "line", x1: MARGIN, y1: y, x2: RIGHT, y2: y, width });
+    },
+    // Make room for `height` points, moving to a new page if needed
+    need: (height: number) => {
+      if (y + height > CONTENT_BOTTOM) newPage();
+    },
+    advance: (height: number) => {
+      y += height;
+    },
+    setRepeatHeader: (header: (() => void) | null) => {
+      repeatHeader = header;
+    },
+  };
+}
+
+type Layout = ReturnType<typeof statementLayout>;
+
+function sectionTitle(layout: Layout, title: string) {
+  layout.need(40);
+  layout.advance(18);
+  layout.text(MARGIN, title, 12, "bold");
+  layout.advance(6);
+  layout.rule(1);
+  layout.advance(12);
+}
+
+function prorationDetail(proration: ProrationBreakdown): string[] {
+  return proration.lines.map((line) => {
+    const dates =
+      line.startDate && line.endDate
+        ? `${formatShortDay(line.startDate)} – ${formatShortDay(line.endDate)}, `
+        : "";
+    const rate =
+      line.monthlyRate !== undefined
+        ? ` of ${formatMoney(line.monthlyRate)}/month`
+        : "";
+    return `${prorationLineLabels[line.kind]}: ${dates}${line.days} night${
+      line.days === 1 ? "" : "s"
+    }, factor ${line.factor.toFixed(proration.precision)}${rate} = ${formatMoney(
+      line.amount
+    )}`;
+  });
+}
+
+function adjustmentDetail(adjustment: ChargeAdjustment): string {
+  const signed = signedAdjustmentAmount(adjustment);
+  return `${adjustmentTypeLabels[adjustment.type]} (${
+    reasonLabels[adjustment.reasonCode]
+  }) ${formatShortDay(adjustment.createdAt)}: ${adjustment.description} ${
+    signed < 0 ? "-" : "+"
+  }${formatMoney(Math.abs(signed))}`;
+}
+
+function renderCharges(layout: Layout, statement: StaffBillingStatement) {
+  sectionTitle(layout, "Charges");
+
+  const header = () => {
+    layout.text(MARGIN, "Dates", 8, "bold");
+    layout.text(140, "Type", 8, "bold");
+    layout.text(200, "Description", 8, "bold");
+    layout.text(430, "Billed", 8, "bold", "right");
+    layout.text(495, "Adjusted", 8, "bold", "right");
+    layout.text(RIGHT, "Net", 8, "bold", "right");
+    layout.advance(5);
+    layout.rule();
+    layout.advance(12);
+  };
+  header();
+  layout.setRepeatHeader(header);
+
+  if (statement.charges.length === 0) {
+    layout.text(MARGIN, "No charges in this period.", 9);
+    layout.advance(14);
+  }
+
+  statement.charges.forEach((charge) => {
+    const held = heldStatusLabels[charge.status];
+    const description = held
+      ? `${charge.description} (${held})`
+      : charge.description;
+    const descriptionLines = wrapText(description, 170, 9);
+    const details = [
+      ...(charge.proration ? prorationDetail(charge.proration) : []),
+      ...charge.adjustments.map(adjustmentDetail),
+      ...(charge.disputeCredit > 0
+        ? [`Dispute credit: -${formatMoney(charge.disputeCredit)}`]
+        : []),
+    ].flatMap((detail) => wrapText(detail, RIGHT - 210, 7.5));
+
+    layout.need(descriptionLines.length * 12 + details.length * 10 + 6);
+    layout.text(
+      MARGIN,
+      charge.startDate && charge.endDate
+        ? `${formatShortDay(charge.startDate)} – ${formatShortDay(charge.endDate)}`
+        : charge.startDate
+        ? formatShortDay(charge.startDate)
+        : "—",
+      9
+    );
+    layout.text(140, chargeTypeLabels[charge.type], 9);
+    layout.text(430, formatMoney(charge.amount), 9, "regular", "right");
+    layout.text(
+      495,
+      charge.netAmount === charge.amount
+        ? "—"
+        : formatMoney(charge.netAmount - charge.amount),
+      9,
+      "regular",
+      "right"
+    );
+    layout.text(RIGHT, formatMoney(charge.netAmount), 9, "bold", "right");
+    descriptionLines.forEach((line, index) => {
+      if (index > 0) layout.advance(12);
+      layout.text(200, line, 9);
+    });
+    layout.advance(11);
+    details.forEach((detail) => {
+      layout.text(210, detail, 7.5);
+      layout.advance(10);
+    });
+    layout.advance(4);
+  });
+
+  layout.setRepeatHeader(null);
+  layout.need(20);
+  layout.rule();
+  layout.advance(12);
+  layout.text(200, "Total", 9, "bold");
+  layout.text(430, formatMoney(statement.totals.charged), 9, "bold", "right");
+  layout.text(495, formatMoney(statement.totals.adjustments), 9, "bold", "right");
+  layout.text(RIGHT, formatMoney(statement.totals.net), 9, "bold", "right");
+  layout.advance(14);
+}
+
+function renderDeductions(layout: Layout, statement: StaffBillingStatement) {
+  sectionTitle(layout, "Payroll Deductions");
+
+  const types = Object.values(ChargeType).filter(
+    (type) => statement.deductions[type] !== 0
+  );
+  if (types.length === 0) {
+    layout.text(MARGIN, "Nothing has been deducted from pay for this period yet.", 9);
+    layout.advance(14);
+    return;
+  }
+
+  types.forEach((type) => {
+    layout.need(14);
+    layout.text(MARGIN, chargeTypeLabels[type], 9);
+    layout.text(RIGHT, formatMoney(statement.deductions[type]), 9, "regular", "right");
+    layout.advance(13);
+  });
+  layout.rule();
+  layout.advance(12);
+  layout.text(MARGIN, "Total deducted", 9, "bold");
+  layout.text(RIGHT, formatMoney(statement.totals.deducted), 9, "bold", "right");
+  layout.advance(14);
+}
+
+function renderAccount(layout: Layout, statement: StaffBillingStatement) {
+  sectionTitle(layout, "Account Activity");
+
+  const header = () => {
+    layout.text(MARGIN, "Date", 8, "bold");
+    layout.text(120, "Description", 8, "bold");
+    layout.text(420, "Debit", 8, "bold", "right");
+    layout.text(490, "Credit", 8, "bold", "right");
+    layout.text(RIGHT, "Balance", 8, "bold", "right");
+    layout.advance(5);
+    layout.rule();
+    layout.advance(12);
+  };
+  header();
+  layout.setRepeatHeader(header);
+
+  layout.text(120, "Opening balance", 9, "bold");
+  layout.text(RIGHT, formatMoney(statement.account.openingBalance), 9, "bold", "right");
+  layout.advance(13);
+
+  statement.account.entries.forEach((entry) => {
+    layout.need(14);
+    layout.text(MARGIN, formatDay(entry.entryDate), 9);
+    layout.text(120, fitText(entry.description, 250, 9), 9);
+    if (entry.debit) layout.text(420, formatMoney(entry.debit), 9, "regular", "right");
+    if (entry.credit) layout.text(490, formatMoney(entry.credit), 9, "regular", "right");
+    layout.text(RIGHT, formatMoney(entry.balance), 9, "regular", "right");
+    layout.advance(13);
+  });
+
+  layout.setRepeatHeader(null);
+  layout.need(20);
+  layout.rule();
+  layout.advance(12);
+  layout.text(120, "Closing balance", 9, "bold");
+  layout.text(RIGHT, formatMoney(statement.account.closingBalance), 9, "bold", "right");
+  layout.advance(12);
+  layout.text(
+    120,
+    statement.account.closingBalance > 0
+      ? "Amount you owe, carried to future pay periods"
+      : statement.account.closingBalance < 0
+      ? "Amount owed to you"
+      : "Your account is settled",
+    8
+  );
+  layout.advance(12);
+}
+
+// Render a statement as a PDF: header, charges with their proration and
+// adjustments, payroll deductions and the account with its running balance
+export function renderStatementPdf(statement: StaffBillingStatement): Uint8Array {
+  const layout = statementLayout();
+  const { staff, period } = statement;
+  const periodLabel = `${formatDay(period.startDate)} – ${formatDay(period.endDate)}`;
+
+  layout.text(MARGIN, "Billing Statement", 18, "bold");
+  layout.text(RIGHT, `Generated ${formatDay(statement.generatedAt)}`, 8, "regular", "right");
+  layout.advance(24);
+  layout.text(MARGIN, staff.name, 11, "bold");
+  layout.text(RIGHT, periodLabel, 11, "bold", "right");
+  layout.advance(14);
+  layout.text(
+    MARGIN,
+    [staff.employeeId && `Employee ID ${staff.employeeId}`, staff.department]
+      .filter(Boolean)
+      .join(" · "),
+    9
+  );
+  if (period.payDate) {
+    layout.text(RIGHT, `Pay date ${formatDay(period.payDate)}`, 9, "regular", "right");
+  }
+  layout.advance(20);
+
+  const summary: [string, number][] = [
+    ["Opening balance", statement.account.openingBalance],
+    ["Charges this period", statement.totals.net],
+    ["Deducted from pay", statement.totals.deducted],
+    ["Closing balance", statement.account.closingBalance],
+  ];
+  const columnWidth = (RIGHT - MARGIN) / summary.length;
+  layout.rule();
+  layout.advance(14);
+  summary.forEach(([label], index) => {
+    layout.text(MARGIN + index * columnWidth, label, 8);
+  });
+  layout.advance(14);
+  summary.forEach(([, value], index) => {
+    layout.text(MARGIN + index * columnWidth, formatMoney(value), 12, "bold");
+  });
+  layout.advance(10);
+  layout.rule();
+
+  renderCharges(layout, statement);
+  renderDeductions(layout, statement);
+  renderAccount(layout, statement);
+
+  const footer = `${staff.name} · ${periodLabel}`;
+  layout.pages.forEach((page, index) => {
+    const y = PDF_PAGE_HEIGHT - 35;
+    page.push({ kind: "text", x: MARGIN, y, text: footer, size: 7.5 });
+    const pageLabel = `Page ${index + 1} of ${layout.pages.length}`;
+    page.push({
+      kind: "text",
+      x: RIGHT - textWidth(pageLabel, 7.5),
+      y,
+      text: pageLabel,
+      size: 7.5,
+    });
+  });
+
+  return createPdf(layout.pages, {
+    title: `Billing statement – ${staff.name} – ${periodLabel}`,
+  });
+}
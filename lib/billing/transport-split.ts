@@ -0,0 +1,257 @@
+import { ERP_CONFIG } from "@/lib/config/erp";
+import { splitCents } from "@/lib/billing/utility-allocation";
+import type {
+  FarePassenger,
+  PassengerFare,
+  TransportFareRule,
+  TransportSubsidy,
+  TripFareSplit,
+} from "@/lib/types/transport";
+import {
+  AbsentPassengerTreatment,
+  PassengerStatus,
+  TransportSplitStrategy,
+  TransportSubsidyScope,
+} from "@/lib/types/transport";
+
+const toCents = (value: number) => Math.round(value * 100);
+
+export type FareTerms = Pick<
+  TransportFareRule,
+  | "splitStrategy"
+  | "flatFare"
+  | "employerPaidPurposes"
+  | "noShowTreatment"
+  | "noShowFee"
+  | "cancelledTreatment"
+  | "cancelledFee"
+>;
+
+export const DEFAULT_FARE_TERMS: FareTerms = {
+  splitStrategy: ERP_CONFIG.transport
+    .defaultSplitStrategy as TransportSplitStrategy,
+  employerPaidPurposes: [],
+  noShowTreatment: ERP_CONFIG.transport
+    .noShowTreatment as AbsentPassengerTreatment,
+  cancelledTreatment: ERP_CONFIG.transport
+    .cancelledTreatment as AbsentPassengerTreatment,
+};
+
+// Routes, purposes and departments are free text, so they are matched
+// ignoring case and surrounding spaces
+const sameLabel = (a?: string, b?: string) =>
+  !!a && !!b && a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// The active rule for a route, else the active default rule, else the
+// configured defaults
+export function fareTermsForRoute(
+  rules: TransportFareRule[],
+  route: string
+): FareTerms {
+  const active = rules.filter((rule) => rule.isActive);
+  return (
+    active.find((rule) => sameLabel(rule.route, route)) ??
+    active.find((rule) => !rule.route) ??
+    DEFAULT_FARE_TERMS
+  );
+}
+
+// The most generous of the route's and the passenger's department's
+// subsidies on a share of a trip
+function bestSubsidy(
+  shareCents: number,
+  route: string,
+  department: string | undefined,
+  subsidies: TransportSubsidy[]
+): { cents: number; source?: string } {
+  let best: { cents: number; source?: string } = { cents: 0 };
+
+  subsidies.forEach((subsidy) => {
+    if (!subsidy.isActive) return;
+    const applies =
+      subsidy.scope === TransportSubsidyScope.ROUTE
+        ? sameLabel(subsidy.route, route)
+        : sameLabel(subsidy.department, department);
+    if (!applies) return;
+
+    let cents =
+      subsidy.subsidyPercent !== undefined
+        ? Math.round((shareCents * subsidy.subsidyPercent) / 100)
+        : shareCents;
+    if (subsidy.subsidyCap !== undefined) {
+      cents = Math.min(cents, toCents(subsidy.subsidyCap));
+    }
+
+    if (cents > best.cents) {
+      best = {
+        cents,
+        source:
+          subsidy.scope === TransportSubsidyScope.ROUTE
+            ? `Route ${subsidy.route}`
+            : `Department ${subsidy.department}`,
+      };
+    }
+  });
+
+  return best;
+}
+
+function absentTreatment(
+  terms: FareTerms,
+  status: PassengerStatus
+): AbsentPassengerTreatment | undefined {
+  if (status === PassengerStatus.NO_SHOW) return terms.noShowTreatment;
+  if (status === PassengerStatus.CANCELLED) return terms.cancelledTreatment;
+  return undefined;
+}
+
+function absentFee(terms: FareTerms, status: PassengerStatus): number {
+  return toCents(
+    (status === PassengerStatus.NO_SHOW ? terms.noShowFee : terms.cancelledFee) ??
+      0
+  );
+}
+
+// Miles each passenger is counted for. A passenger without a recorded
+// distance rode the whole trip, or as far as the furthest recorded rider when
+// the trip has no distance either; with nothing recorded everyone counts once.
+function distanceWeights(
+  passengers: FarePassenger[],
+  tripDistance?: number
+): number[] {
+  const known = passengers
+    .map((passenger) => passenger.distance)
+    .filter((distance): distance is number => !!distance && distance > 0);
+  const whole =
+    tripDistance && tripDistance > 0
+      ? tripDistance
+      : known.length > 0
+        ? Math.max(...known)
+        : undefined;
+
+  if (whole === undefined) return passengers.map(() => 1);
+  return passengers.map((passenger) =>
+    passenger.distance && passenger.distance > 0 ? passenger.distance : whole
+  );
+}
+
+/**
+ * Work out what each passenger of a trip pays:
+ * - equal: the trip cost split evenly between the sharing passengers
+ * - distance: the trip cost split by the miles each of them rode
+ * - flat fare: the rule's fare each, whatever the trip cost
+ * - employer paid: nothing, also used whenever the trip's purpose is one of
+ *   the rule's employer-paid purposes
+ * Cancelled and no-show passengers either share like a rider, pay the rule's
+ * fee instead, or are waived and left out of the split. Subsidies reduce
+ * shares only, never fees. `employerCost` is negative when fares recover more
+ * than the trip cost.
+ */
+export function splitTripCost(
+  trip: {
+    id?: string;
+    route: string;
+    purpose: string;
+    cost?: number;
+    distance?: number;
+  },
+  passengers: FarePassenger[],
+  terms: FareTerms,
+  subsidies: TransportSubsidy[] = []
+): TripFareSplit {
+  const employerPaidPurpose = terms.employerPaidPurposes.find((purpose) =>
+    sameLabel(purpose, trip.purpose)
+  );
+  const strategy = employerPaidPurpose
+    ? TransportSplitStrategy.EMPLOYER_PAID
+    : terms.splitStrategy;
+  const tripCents = toCents(trip.cost ?? 0);
+
+  const treatments = passengers.map((passenger) =>
+    absentTreatment(terms, passenger.status)
+  );
+  const sharing = passengers.filter(
+    (_, index) =>
+      treatments[index] === undefined ||
+      treatments[index] === AbsentPassengerTreatment.CHARGE_SHARE
+  );
+
+  const weights =
+    strategy === TransportSplitStrategy.DISTANCE
+      ? distanceWeights(sharing, trip.distance)
+      : sharing.map(() => 1);
+
+  let shares: number[];
+  switch (strategy) {
+    case TransportSplitStrategy.EQUAL:
+    case TransportSplitStrategy.DISTANCE:
+      shares = splitCents(tripCents, weights);
+      break;
+    case TransportSplitStrategy.FLAT_FARE:
+      shares = sharing.map(() => toCents(terms.flatFare ?? 0));
+      break;
+    case TransportSplitStrategy.EMPLOYER_PAID:
+      shares = sharing.map(() => 0);
+      break;
+  }
+
+  const fares: PassengerFare[] = passengers.map((passenger, index) => {
+    const treatment = treatments[index];
+    const shareIndex = sharing.indexOf(passenger);
+
+    if (shareIndex >= 0) {
+      const fareCents = shares[shareIndex];
+      const subsidy = bestSubsidy(
+        fareCents,
+        trip.route,
+        passenger.department,
+        subsidies
+      );
+      return {
+        staffId: passenger.staffId,
+        status: passenger.status,
+        treatment,
+        weight: weights[shareIndex],
+        fare: fareCents / 100,
+        subsidy: subsidy.cents / 100,
+        subsidySource: subsidy.source,
+        amount: (fareCents - subsidy.cents) / 100,
+      };
+    }
+
+    const feeCents =
+      treatment === AbsentPassengerTreatment.CHARGE_FEE &&
+      strategy !== TransportSplitStrategy.EMPLOYER_PAID
+        ? absentFee(terms, passenger.status)
+        : 0;
+    return {
+      staffId: passenger.staffId,
+      status: passenger.status,
+      treatment,
+      weight: 0,
+      fare: feeCents / 100,
+      subsidy: 0,
+      amount: feeCents / 100,
+    };
+  });
+
+  const chargedCents = fares.reduce(
+    (sum, fare) => sum + toCents(fare.amount),
+    0
+  );
+  const subsidizedCents = fares.reduce(
+    (sum, fare) => sum + toCents(fare.subsidy),
+    0
+  );
+
+  return {
+    tripId: trip.id,
+    strategy,
+    employerPaidPurpose,
+    tripCost: tripCents / 100,
+    fares,
+    charged: chargedCents / 100,
+    subsidized: subsidizedCents / 100,
+    employerCost: (tripCents - chargedCents) / 100,
+  };
+}
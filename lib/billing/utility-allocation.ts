@@ -0,0 +1,213 @@
+import type {
+  OccupancyStay,
+  UtilityAllocation,
+  UtilityBill,
+  UtilityShare,
+} from "@/lib/types/billing";
+import { UtilityAllocationRule } from "@/lib/types/billing";
+import {
+  addUtcDays,
+  daysBetween,
+  eachUtcDay,
+  maxDate,
+  minDate,
+  toDateKey,
+  toUtcDay,
+} from "@/lib/dates";
+
+const toCents = (value: number) => Math.round(value * 100);
+
+// Split `totalCents` in proportion to `weights` so that the parts add up to
+// exactly the total; leftover cents go to the largest remainders
+export function splitCents(totalCents: number, weights: number[]): number[] {
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  if (totalWeight <= 0) return weights.map(() => 0);
+
+  const raw = weights.map((weight) => (totalCents * weight) / totalWeight);
+  const parts = raw.map(Math.floor);
+  let leftover = totalCents - parts.reduce((sum, part) => sum + part, 0);
+
+  raw
+    .map((value, index) => ({ index, remainder: value - parts[index] }))
+    .sort((a, b) => b.remainder - a.remainder)
+    .forEach(({ index }) => {
+      if (leftover > 0) {
+        parts[index] += 1;
+        leftover -= 1;
+      }
+    });
+
+  return parts;
+}
+
+type BillTerms = Pick<
+  UtilityBill,
+  "amount" | "serviceStart" | "serviceEnd" | "allocationRule" | "capPerPerson"
+> & { id?: string };
+
+// Who slept in which room on each night of the service period
+function occupancyByNight(
+  stays: OccupancyStay[],
+  serviceStart: Date,
+  serviceEndExclusive: Date
+) {
+  const nights = new Map<string, Map<string, Set<string>>>();
+  const roomNumbers = new Map<string, string>();
+
+  stays.forEach((stay) => {
+    // Stays are counted per night, so the move-out day is not occupied
+    const from = maxDate(toUtcDay(stay.startDate), serviceStart);
+    const until = stay.endDate
+      ? minDate(toUtcDay(stay.endDate), serviceEndExclusive)
+      : serviceEndExclusive;
+
+    roomNumbers.set(stay.roomId, stay.roomNumber);
+    eachUtcDay(from, until).forEach((day) => {
+      const key = toDateKey(day);
+      const rooms = nights.get(key) ?? new Map<string, Set<string>>();
+      const occupants = rooms.get(stay.roomId) ?? new Set<string>();
+      occupants.add(stay.staffId);
+      rooms.set(stay.roomId, occupants);
+      nights.set(key, rooms);
+    });
+  });
+
+  return { nights, roomNumbers };
+}
+
+/**
+ * Split a utility bill across the people who lived in the property during its
+ * service period, by occupied bed-days:
+ * - equal: every bed-day costs the same
+ * - by room: every occupied room-day costs the same, shared by that night's
+ *   roommates
+ * - capped: as equal, but nobody pays more than the cap prorated to the days
+ *   they were there; what they would have paid over it moves to the others
+ * Whatever cannot be placed (an empty property, or every share capped) is
+ * reported as unallocated.
+ */
+export function allocateUtilityBill(
+  bill: BillTerms,
+  stays: OccupancyStay[]
+): UtilityAllocation {
+  const serviceStart = toUtcDay(bill.serviceStart);
+  const serviceEndExclusive = addUtcDays(toUtcDay(bill.serviceEnd), 1);
+  const serviceDays = daysBetween(serviceStart, serviceEndExclusive);
+  const billCents = toCents(bill.amount);
+
+  const { nights, roomNumbers } = occupancyByNight(
+    stays,
+    serviceStart,
+    serviceEndExclusive
+  );
+
+  const bedDays = new Map<string, number>();
+  const roomWeights = new Map<string, number>();
+  const rooms = new Map<string, Set<string>>();
+
+  nights.forEach((roomsThatNight) => {
+    const present = new Set<string>();
+    roomsThatNight.forEach((occupants, roomId) => {
+      occupants.forEach((staffId) => {
+        present.add(staffId);
+        roomWeights.set(
+          staffId,
+          (roomWeights.get(staffId) || 0) + 1 / occupants.size
+        );
+        const staffRooms = rooms.get(staffId) ?? new Set<string>();
+        staffRooms.add(roomNumbers.get(roomId) as string);
+        rooms.set(staffId, staffRooms);
+      });
+    });
+    // Someone moving rooms mid-stay is still one bed-day that night
+    present.forEach((staffId) =>
+      bedDays.set(staffId, (bedDays.get(staffId) || 0) + 1)
+    );
+  });
+
+  const staffIds = Array.from(bedDays.keys());
+  const totalBedDays = staffIds.reduce(
+    (sum, staffId) => sum + (bedDays.get(staffId) || 0),
+    0
+  );
+
+  const cents = new Map<string, number>();
+  const capped = new Set<string>();
+
+  switch (bill.allocationRule) {
+    case UtilityAllocationRule.EQUAL:
+    case UtilityAllocationRule.BY_ROOM: {
+      const weights =
+        bill.allocationRule === UtilityAllocationRule.EQUAL ? bedDays : roomWeights;
+      const parts = splitCents(
+        billCents,
+        staffIds.map((staffId) => weights.get(staffId) || 0)
+      );
+      staffIds.forEach((staffId, index) => cents.set(staffId, parts[index]));
+      break;
+    }
+    case UtilityAllocationRule.CAPPED: {
+      const capCents = toCents(bill.capPerPerson ?? 0);
+      const capFor = (staffId: string) =>
+        Math.floor((capCents * (bedDays.get(staffId) || 0)) / serviceDays);
+
+      // Fix anyone whose bed-day share is over their cap at the cap, then
+      // share what is left between the rest until nobody is over
+      let open = staffIds;
+      let remaining = billCents;
+      for (;;) {
+        const openBedDays = open.reduce(
+          (sum, staffId) => sum + (bedDays.get(staffId) || 0),
+          0
+        );
+        const over = open.filter(
+          (staffId) =>
+            (remaining * (bedDays.get(staffId) || 0)) / openBedDays >
+            capFor(staffId)
+        );
+        if (over.length === 0) break;
+
+        over.forEach((staffId) => {
+          cents.set(staffId, capFor(staffId));
+          capped.add(staffId);
+          remaining -= capFor(staffId);
+        });
+        open = open.filter((staffId) => !capped.has(staffId));
+        if (open.length === 0) break;
+      }
+
+      const parts = splitCents(
+        remaining,
+        open.map((staffId) => bedDays.get(staffId) || 0)
+      );
+      open.forEach((staffId, index) => cents.set(staffId, parts[index]));
+      break;
+    }
+  }
+
+  const shares: UtilityShare[] = staffIds
+    .map((staffId) => ({
+      staffId,
+      rooms: Array.from(rooms.get(staffId) ?? []).sort(),
+      bedDays: bedDays.get(staffId) || 0,
+      amount: (cents.get(staffId) || 0) / 100,
+      capped: capped.has(staffId),
+    }))
+    .sort((a, b) => b.amount - a.amount);
+
+  const allocatedCents = staffIds.reduce(
+    (sum, staffId) => sum + (cents.get(staffId) || 0),
+    0
+  );
+
+  return {
+    billId: bill.id,
+    rule: bill.allocationRule,
+    billAmount: billCents / 100,
+    serviceDays,
+    totalBedDays,
+    shares,
+    allocated: allocatedCents / 100,
+    unallocated: (billCents - allocatedCents) / 100,
+  };
+}
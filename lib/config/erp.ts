@@ -2,10 +2,9 @@
 export const ERP_CONFIG = {
   // Housing configuration
   housing: {
-    maxOccupancyPerRoom: 4,
-    defaultRentProrationMethod: "daily",
-    moveInGracePeriod: 3, // days
-    moveOutNoticePeriod: 14, // days
+    defaultRentProrationMethod: "daily", // daily, thirty_day_month, thirty_360 or whole_week
+    moveInGracePeriod: 3, // days of rent-free stay after move-in
+    moveOutNoticePeriod: 14, // days; shorter notice is charged
   },
 
   // Transport configuration
@@ -13,6 +12,10 @@ export const ERP_CONFIG = {
     maxPassengersPerTrip: 50,
     defaultCostPerMile: 0.65,
     tripBookingAdvanceHours: 24,
+    // Used for routes without a fare rule
+    defaultSplitStrategy: "equal", // equal, distance, flat_fare or employer_paid
+    noShowTreatment: "charge_share", // charge_share or waive
+    cancelledTreatment: "waive", // charge_share or waive
   },
 
   // Billing configuration
@@ -21,6 +24,10 @@ export const ERP_CONFIG = {
     payrollExportFormat: "csv",
     autoCalculateUtilities: true,
     prorationPrecision: 4, // decimal places
+    // Billing calendar generation
+    payDateLagDays: 5, // days from a period's last day to its pay date
+    payrollLeadDays: 2, // business days payroll is run before the pay date
+    payDateShift: "previous_business_day", // or next_business_day, for weekends and holidays
   },
 
   // System configuration
@@ -0,0 +1,63 @@
+// Calendar-day helpers shared by the billing and housing engines.
+//
+// Billing works in whole days. All helpers normalise to midnight UTC so that a
+// DATE column ("2024-03-01") and a TIMESTAMPTZ column resolve to the same day
+// regardless of the browser's time zone.
+
+export const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+export function toUtcDay(value: Date | string): Date {
+  const date = typeof value === "string" ? new Date(value) : value;
+  return new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+  );
+}
+
+// Calendar date picked in the browser (local midnight) as a UTC day
+export function fromLocalDate(value: Date): Date {
+  return new Date(
+    Date.UTC(value.getFullYear(), value.getMonth(), value.getDate())
+  );
+}
+
+export function addUtcDays(value: Date, days: number): Date {
+  return new Date(toUtcDay(value).getTime() + days * MS_PER_DAY);
+}
+
+// Number of days from `start` up to, but not including, `end`
+export function daysBetween(start: Date, end: Date): number {
+  return Math.round(
+    (toUtcDay(end).getTime() - toUtcDay(start).getTime()) / MS_PER_DAY
+  );
+}
+
+export function daysInUtcMonth(value: Date): number {
+  return new Date(
+    Date.UTC(value.getUTCFullYear(), value.getUTCMonth() + 1, 0)
+  ).getUTCDate();
+}
+
+export function eachUtcDay(start: Date, endExclusive: Date): Date[] {
+  const days: Date[] = [];
+  for (
+    let day = toUtcDay(start);
+    day < toUtcDay(endExclusive);
+    day = addUtcDays(day, 1)
+  ) {
+    days.push(day);
+  }
+  return days;
+}
+
+export function maxDate(a: Date, b: Date): Date {
+  return a.getTime() >= b.getTime() ? a : b;
+}
+
+export function minDate(a: Date, b: Date): Date {
+  return a.getTime() <= b.getTime() ? a : b;
+}
+
+// ISO calendar date ("YYYY-MM-DD") used for DATE columns
+export function toDateKey(value: Date): string {
+  return toUtcDay(value).toISOString().split("T")[0];
+}
@@ -0,0 +1,381 @@
+import type {
+  AlternativeRoom,
+  AssignmentConflict,
+  Bed,
+  Room,
+} from "@/lib/types/housing";
+import {
+  AssignmentConflictKind,
+  AssignmentStatus,
+  BedStatus,
+  RoomStatus,
+} from "@/lib/types/housing";
+import { addUtcDays, eachUtcDay, maxDate, toDateKey, toUtcDay } from "@/lib/dates";
+
+// The same rules are enforced by `room_assignment_conflicts` in
+// lib/supabase/migration/room_assignment_conflicts.sql; keep them in step.
+
+// Assignments in these statuses hold a place in their room
+export const BLOCKING_ASSIGNMENT_STATUSES: AssignmentStatus[] = [
+  AssignmentStatus.ACTIVE,
+  AssignmentStatus.PENDING,
+];
+
+// Rooms in these states cannot take new assignments
+export const UNASSIGNABLE_ROOM_STATUSES: RoomStatus[] = [
+  RoomStatus.MAINTENANCE,
+  RoomStatus.OUT_OF_ORDER,
+];
+
+// Conflicts another room would solve, and those another bed in the same
+// room would
+export const ROOM_CONFLICT_KINDS: AssignmentConflictKind[] = [
+  AssignmentConflictKind.CAPACITY,
+  AssignmentConflictKind.ROOM_STATUS,
+];
+export const BED_CONFLICT_KINDS: AssignmentConflictKind[] = [
+  AssignmentConflictKind.BED_TAKEN,
+  AssignmentConflictKind.BED_STATUS,
+];
+
+export type AssignmentSpan = {
+  id?: string;
+  roomId: string;
+  bedId?: string;
+  staffId: string;
+  startDate: Date;
+  endDate?: Date;
+  status: AssignmentStatus;
+};
+
+export type AssignableRoom = Pick<
+  Room,
+  "id" | "propertyId" | "roomNumber" | "roomType" | "capacity" | "status"
+> & {
+  propertyName?: string;
+  beds?: Pick<Bed, "id" | "label" | "status">[];
+  // Housing policy cap from `housing_settings`, the same for every room
+  maxOccupancy: number;
+};
+
+type Nights = { from: Date; until?: Date };
+
+// Map a `rooms` row, with its property's name and beds when joined, for the
+// engine
+export function assignableRoomFromRow(
+  row: any,
+  maxOccupancy: number
+): AssignableRoom {
+  return {
+    id: row.id,
+    propertyId: row.property_id,
+    roomNumber: row.room_number,
+    roomType: row.room_type ?? undefined,
+    capacity: Number(row.capacity),
+    status: row.status as RoomStatus,
+    propertyName: row.property?.name ?? undefined,
+    beds: row.beds?.map((bed: any) => ({
+      id: bed.id,
+      label: bed.label,
+      status: bed.status as BedStatus,
+    })),
+    maxOccupancy,
+  };
+}
+
+// Map a `room_assignments` row to the span the engine compares
+export function assignmentSpanFromRow(row: any): AssignmentSpan {
+  return {
+    id: row.id,
+    roomId: row.room_id,
+    bedId: row.bed_id ?? undefined,
+    staffId: row.staff_id,
+    startDate: toUtcDay(row.start_date),
+    endDate: row.end_date ? toUtcDay(row.end_date) : undefined,
+    status: row.status as AssignmentStatus,
+  };
+}
+
+// People a room can take: its own capacity, capped by housing policy and, once
+// its beds are recorded, by the beds in service
+export const roomCapacity = (
+  room: Pick<AssignableRoom, "capacity" | "beds" | "maxOccupancy">
+) =>
+  Math.min(
+    room.capacity,
+    room.maxOccupancy,
+    room.beds?.length
+      ? room.beds.filter((bed) => bed.status === BedStatus.IN_SERVICE).length
+      : Infinity
+  );
+
+// The nights a stay takes, from its start up to its end date. A stay that
+// starts and ends on the same day still takes that night.
+function nightsOf(span: Pick<AssignmentSpan, "startDate" | "endDate">): Nights {
+  const from = toUtcDay(span.startDate);
+  return {
+    from,
+    until: span.endDate
+      ? maxDate(toUtcDay(span.endDate), addUtcDays(from, 1))
+      : undefined,
+  };
+}
+
+const overlaps = (a: Nights, b: Nights) =>
+  (!a.until || b.from < a.until) && (!b.until || a.from < b.until);
+
+const sharesNight = (day: Date, stay: Nights) =>
+  stay.from <= day && (!stay.until || day < stay.until);
+
+const describeRange = (from: Date, until?: Date) =>
+  until
+    ? `from ${toDateKey(from)} to ${toDateKey(addUtcDays(until, -1))}`
+    : `from ${toDateKey(from)} onwards`;
+
+// Other stays that hold a place alongside the request
+const blockingOthers = (request: AssignmentSpan, assignments: AssignmentSpan[]) =>
+  assignments.filter(
+    (assignment) =>
+      assignment.id !== request.id &&
+      BLOCKING_ASSIGNMENT_STATUSES.includes(assignment.status)
+  );
+
+/**
+ * How many other people are in the room on each night of the request.
+ * Occupancy only changes when someone moves in or out, so an open-ended
+ * request is followed up to the last of those days.
+ */
+function dailyOccupancy(
+  request: AssignmentSpan,
+  roomId: string,
+  assignments: AssignmentSpan[]
+): { day: Date; occupancy: number }[] {
+  const requested = nightsOf(request);
+  const stays = blockingOthers(request, assignments)
+    .filter((assignment) => assignment.roomId === roomId)
+    .map(nightsOf)
+    .filter((stay) => overlaps(requested, stay));
+
+  const lastChange = stays
+    .flatMap((stay) => (stay.until ? [stay.from, stay.until] : [stay.from]))
+    .reduce(maxDate, requested.from);
+
+  return eachUtcDay(
+    requested.from,
+    requested.until ?? addUtcDays(lastChange, 1)
+  ).map((day) => ({
+    day,
+    occupancy: stays.filter((stay) => sharesNight(day, stay)).length,
+  }));
+}
+
+function capacityConflicts(
+  request: AssignmentSpan,
+  room: AssignableRoom,
+  assignments: AssignmentSpan[]
+): AssignmentConflict[] {
+  const capacity = roomCapacity(room);
+  const conflicts: AssignmentConflict[] = [];
+  let current: AssignmentConflict | undefined;
+
+  for (const { day, occupancy } of dailyOccupancy(request, room.id, assignments)) {
+    const total = occupancy + 1;
+    if (total <= capacity) {
+      current = undefined;
+    } else if (current) {
+      current.endDate = addUtcDays(day, 1);
+      current.occupancy = Math.max(current.occupancy ?? 0, total);
+    } else {
+      current = {
+        kind: AssignmentConflictKind.CAPACITY,
+        message: "",
+        roomId: room.id,
+        startDate: day,
+        endDate: addUtcDays(day, 1),
+        occupancy: total,
+        capacity,
+      };
+      conflicts.push(current);
+    }
+  }
+
+  // A run that is still full on the last day checked stays full for as long
+  // as an open-ended request lasts
+  if (current && !request.endDate) current.endDate = undefined;
+
+  return conflicts.map((conflict) => ({
+    ...conflict,
+    message: `Room ${room.roomNumber} is full (${capacity} ${
+      capacity === 1 ? "bed" : "beds"
+    }) ${describeRange(conflict.startDate!, conflict.endDate)}`,
+  }));
+}
+
+/**
+ * Everything that stops `request` going ahead: another active or pending
+ * stay of the same staff member on any of its nights, the room being over
+ * capacity on any night, and the room being under maintenance or out of
+ * order. With a bed, also someone else holding that bed on any of the nights
+ * and the bed being out of service. Room and bed status are not checked when
+ * only an existing assignment's dates change.
+ */
+export function findAssignmentConflicts(
+  request: AssignmentSpan,
+  rooms: AssignableRoom[],
+  assignments: AssignmentSpan[],
+  options: { checkRoomStatus?: boolean } = {}
+): AssignmentConflict[] {
+  const room = rooms.find((candidate) => candidate.id === request.roomId);
+  if (!room) throw new Error("Room not found");
+
+  const conflicts: AssignmentConflict[] = [];
+  const requested = nightsOf(request);
+
+  if (
+    options.checkRoomStatus !== false &&
+    UNASSIGNABLE_ROOM_STATUSES.includes(room.status)
+  ) {
+    conflicts.push({
+      kind: AssignmentConflictKind.ROOM_STATUS,
+      message: `Room ${room.roomNumber} is ${
+        room.status === RoomStatus.MAINTENANCE ? "under maintenance" : "out of order"
+      }`,
+      roomId: room.id,
+    });
+  }
+
+  if (request.bedId) {
+    const bed = room.beds?.find((candidate) => candidate.id === request.bedId);
+    if (!bed) throw new Error("Bed not found in this room");
+
+    if (
+      options.checkRoomStatus !== false &&
+      bed.status === BedStatus.OUT_OF_SERVICE
+    ) {
+      conflicts.push({
+        kind: AssignmentConflictKind.BED_STATUS,
+        message: `Bed ${bed.label} in room ${room.roomNumber} is out of service`,
+        roomId: room.id,
+      });
+    }
+
+    blockingOthers(request, assignments)
+      .filter((assignment) => assignment.bedId === request.bedId)
+      .forEach((assignment) => {
+        const stay = nightsOf(assignment);
+        if (!overlaps(requested, stay)) return;
+
+        conflicts.push({
+          kind: AssignmentConflictKind.BED_TAKEN,
+          message: `Bed ${bed.label} in room ${room.roomNumber} is taken ${describeRange(
+            stay.from,
+            stay.until
+          )}`,
+          roomId: room.id,
+          startDate: stay.from,
+          endDate: stay.until,
+          assignmentId: assignment.id,
+        });
+      });
+  }
+
+  blockingOthers(request, assignments)
+    .filter((assignment) => assignment.staffId === request.staffId)
+    .forEach((assignment) => {
+      const stay = nightsOf(assignment);
+      if (!overlaps(requested, stay)) return;
+
+      const other = rooms.find((candidate) => candidate.id === assignment.roomId);
+      conflicts.push({
+        kind: AssignmentConflictKind.STAFF_OVERLAP,
+        message: `Already assigned to ${
+          other ? `room ${other.roomNumber}` : "another room"
+        } ${describeRange(stay.from, stay.until)}`,
+        roomId: assignment.roomId,
+        startDate: stay.from,
+        endDate: stay.until,
+        assignmentId: assignment.id,
+      });
+    });
+
+  return [...conflicts, ...capacityConflicts(request, room, assignments)];
+}
+
+// Places a room still has free on the busiest night of the request
+export const freePlaces = (
+  request: AssignmentSpan,
+  room: AssignableRoom,
+  assignments: AssignmentSpan[]
+) =>
+  roomCapacity(room) -
+  Math.max(
+    0,
+    ...dailyOccupancy(request, room.id, assignments).map((night) => night.occupancy)
+  );
+
+/**
+ * Rooms the same stay would fit in: open, with a bed free on every night.
+ * Rooms in the same property come first, then those of the same type, then
+ * those with the most beds to spare.
+ */
+export function suggestAlternativeRooms(
+  request: AssignmentSpan,
+  rooms: AssignableRoom[],
+  assignments: AssignmentSpan[],
+  limit = 3
+): AlternativeRoom[] {
+  const requested = rooms.find((room) => room.id === request.roomId);
+  const sameProperty = (room: AlternativeRoom) =>
+    Number(room.propertyId === requested?.propertyId);
+  const sameType = (room: AlternativeRoom) =>
+    Number(!!requested?.roomType && room.roomType === requested.roomType);
+
+  return rooms
+    .filter(
+      (room) =>
+        room.id !== request.roomId &&
+        !UNASSIGNABLE_ROOM_STATUSES.includes(room.status)
+    )
+    .map((room) => ({
+      roomId: room.id,
+      roomNumber: room.roomNumber,
+      propertyId: room.propertyId,
+      propertyName: room.propertyName,
+      roomType: room.roomType,
+      capacity: roomCapacity(room),
+      freeBeds: freePlaces(request, room, assignments),
+    }))
+    .filter((room) => room.freeBeds > 0)
+    .sort(
+      (a, b) =>
+        sameProperty(b) - sameProperty(a) ||
+        sameType(b) - sameType(a) ||
+        b.freeBeds - a.freeBeds ||
+        a.roomNumber.localeCompare(b.roomNumber, undefined, { numeric: true })
+    )
+    .slice(0, limit);
+}
+
+// Beds in service in the request's room that nobody else holds on any of its
+// nights, in label order
+export function freeBeds(
+  request: AssignmentSpan,
+  room: AssignableRoom,
+  assignments: AssignmentSpan[]
+): Pick<Bed, "id" | "label" | "status">[] {
+  const requested = nightsOf(request);
+  const held = new Set(
+    blockingOthers(request, assignments)
+      .filter(
+        (assignment) =>
+          assignment.roomId === room.id &&
+          assignment.bedId &&
+          overlaps(requested, nightsOf(assignment))
+      )
+      .map((assignment) => assignment.bedId)
+  );
+
+  return (room.beds || [])
+    .filter((bed) => bed.status === BedStatus.IN_SERVICE && !held.has(bed.id))
+    .sort((a, b) => a.label.localeCompare(b.label, undefined, { numeric: true }));
+}
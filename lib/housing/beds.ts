@@ -0,0 +1,130 @@
+import type { Bed, BedOccupancy, OccupancyMetrics } from "@/lib/types/housing";
+import { AssignmentStatus, BedStatus, RoomStatus } from "@/lib/types/housing";
+import { UNASSIGNABLE_ROOM_STATUSES } from "@/lib/housing/assignment-conflicts";
+import { toUtcDay } from "@/lib/dates";
+
+// Map a `beds` row to the camelCase domain type
+export function bedFromRow(row: any): Bed {
+  return {
+    id: row.id,
+    roomId: row.room_id,
+    label: row.label,
+    status: row.status as BedStatus,
+    outOfServiceReason: row.out_of_service_reason ?? undefined,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+  };
+}
+
+// An assignment as the bed views need it
+export type BedStay = {
+  id: string;
+  roomId: string;
+  bedId?: string;
+  staffId: string;
+  staffName?: string;
+  startDate: Date;
+  endDate?: Date;
+  status: AssignmentStatus;
+};
+
+// Map a `room_assignments` row, with the staff member when joined
+export function bedStayFromRow(row: any): BedStay {
+  return {
+    id: row.id,
+    roomId: row.room_id,
+    bedId: row.bed_id ?? undefined,
+    staffId: row.staff_id,
+    staffName: row.staff
+      ? `${row.staff.first_name} ${row.staff.last_name}`
+      : undefined,
+    startDate: toUtcDay(row.start_date),
+    endDate: row.end_date ? toUtcDay(row.end_date) : undefined,
+    status: row.status as AssignmentStatus,
+  };
+}
+
+// Active stays whose nights include `day`
+const livingIn = (stays: BedStay[], day: Date) =>
+  stays.filter(
+    (stay) =>
+      stay.status === AssignmentStatus.ACTIVE &&
+      toUtcDay(stay.startDate) <= day &&
+      (!stay.endDate || day < toUtcDay(stay.endDate))
+  );
+
+/**
+ * Who is in each of a room's beds on `day`, in label order, and the people
+ * living in the room whose assignment names no bed
+ */
+export function roomBedOccupancy(
+  roomId: string,
+  beds: Bed[],
+  stays: BedStay[],
+  day: Date
+): { beds: BedOccupancy[]; unplaced: BedStay[] } {
+  const present = livingIn(
+    stays.filter((stay) => stay.roomId === roomId),
+    toUtcDay(day)
+  );
+
+  return {
+    beds: beds
+      .filter((bed) => bed.roomId === roomId)
+      .sort((a, b) => a.label.localeCompare(b.label, undefined, { numeric: true }))
+      .map((bed) => {
+        const stay = present.find((candidate) => candidate.bedId === bed.id);
+        return {
+          bed,
+          occupant: stay && {
+            assignmentId: stay.id,
+            staffId: stay.staffId,
+            staffName: stay.staffName,
+            startDate: stay.startDate,
+            endDate: stay.endDate,
+          },
+        };
+      }),
+    unplaced: present.filter(
+      (stay) => !stay.bedId || !beds.some((bed) => bed.id === stay.bedId)
+    ),
+  };
+}
+
+/**
+ * Bed counts across rooms on `day`. Beds in service in an open room are
+ * capacity; anyone living in the room takes one of them, whether or not
+ * their assignment names a bed.
+ */
+export function summarizeBedOccupancy(
+  rooms: { id: string; status: RoomStatus }[],
+  beds: Bed[],
+  stays: BedStay[],
+  day: Date
+): Pick<
+  OccupancyMetrics,
+  "totalBeds" | "occupiedBeds" | "availableBeds" | "outOfServiceBeds"
+> {
+  const present = livingIn(stays, toUtcDay(day));
+
+  return rooms.reduce(
+    (totals, room) => {
+      const roomBeds = beds.filter((bed) => bed.roomId === room.id);
+      const usable = UNASSIGNABLE_ROOM_STATUSES.includes(room.status)
+        ? 0
+        : roomBeds.filter((bed) => bed.status === BedStatus.IN_SERVICE).length;
+      const occupied = Math.min(
+        usable,
+        present.filter((stay) => stay.roomId === room.id).length
+      );
+
+      return {
+        totalBeds: totals.totalBeds + roomBeds.length,
+        occupiedBeds: totals.occupiedBeds + occupied,
+        availableBeds: totals.availableBeds + usable - occupied,
+        outOfServiceBeds: totals.outOfServiceBeds + roomBeds.length - usable,
+      };
+    },
+    { totalBeds: 0, occupiedBeds: 0, availableBeds: 0, outOfServiceBeds: 0 }
+  );
+}
@@ -0,0 +1,282 @@
+import type {
+  HousingMatch,
+  HousingRequest,
+  HousingRequestWithStaff,
+} from "@/lib/types/housing";
+import {
+  AssignmentConflictKind,
+  AssignmentStatus,
+  HousingRequestPriority,
+  HousingRequestStatus,
+  HousingRequestType,
+} from "@/lib/types/housing";
+import {
+  findAssignmentConflicts,
+  freeBeds,
+  freePlaces,
+} from "@/lib/housing/assignment-conflicts";
+import type {
+  AssignableRoom,
+  AssignmentSpan,
+} from "@/lib/housing/assignment-conflicts";
+import { maxDate, toUtcDay } from "@/lib/dates";
+
+// Statuses a request waits in until it is decided
+export const OPEN_REQUEST_STATUSES = [
+  HousingRequestStatus.PENDING,
+  HousingRequestStatus.UNDER_REVIEW,
+  HousingRequestStatus.WAITLISTED,
+];
+
+export const isRequestOpen = (status: HousingRequestStatus) =>
+  OPEN_REQUEST_STATUSES.includes(status);
+
+// Where a reviewer may move a request; approving goes through
+// `approve_housing_request` instead, and only staff cancel
+const REVIEW_TRANSITIONS: Record<HousingRequestStatus, HousingRequestStatus[]> = {
+  [HousingRequestStatus.PENDING]: [
+    HousingRequestStatus.UNDER_REVIEW,
+    HousingRequestStatus.WAITLISTED,
+    HousingRequestStatus.REJECTED,
+  ],
+  [HousingRequestStatus.UNDER_REVIEW]: [
+    HousingRequestStatus.WAITLISTED,
+    HousingRequestStatus.REJECTED,
+  ],
+  [HousingRequestStatus.WAITLISTED]: [
+    HousingRequestStatus.UNDER_REVIEW,
+    HousingRequestStatus.REJECTED,
+  ],
+  [HousingRequestStatus.APPROVED]: [HousingRequestStatus.COMPLETED],
+  [HousingRequestStatus.REJECTED]: [],
+  [HousingRequestStatus.COMPLETED]: [],
+  [HousingRequestStatus.CANCELLED]: [],
+};
+
+export const canMoveRequest = (
+  from: HousingRequestStatus,
+  to: HousingRequestStatus
+) => REVIEW_TRANSITIONS[from].includes(to);
+
+// Requests that are settled by finding the staff member a room
+export const ROOM_REQUEST_TYPES = [
+  HousingRequestType.NEW_HOUSING,
+  HousingRequestType.ROOM_CHANGE,
+];
+
+export const needsRoom = (type: HousingRequestType) =>
+  ROOM_REQUEST_TYPES.includes(type);
+
+// Requests about the staff member's current assignment
+export const ASSIGNMENT_REQUEST_TYPES = [
+  HousingRequestType.ROOM_CHANGE,
+  HousingRequestType.MOVE_OUT,
+];
+
+const PRIORITY_RANK: Record<HousingRequestPriority, number> = {
+  [HousingRequestPriority.HIGH]: 0,
+  [HousingRequestPriority.MEDIUM]: 1,
+  [HousingRequestPriority.LOW]: 2,
+};
+
+// Map a `housing_requests` row, with its staff member when joined
+export function housingRequestFromRow(row: any): HousingRequestWithStaff {
+  return {
+    id: row.id,
+    staffId: row.staff_id,
+    type: row.request_type as HousingRequestType,
+    status: row.status as HousingRequestStatus,
+    priority: row.priority as HousingRequestPriority,
+    title: row.title,
+    description: row.description ?? undefined,
+    requestedStartDate: row.requested_start_date
+      ? toUtcDay(row.requested_start_date)
+      : undefined,
+    requestedEndDate: row.requested_end_date
+      ? toUtcDay(row.requested_end_date)
+      : undefined,
+    preferredPropertyId: row.preferred_property_id ?? undefined,
+    preferredRoomType: row.preferred_room_type ?? undefined,
+    preferredAmenities: row.preferred_amenities || [],
+    currentAssignmentId: row.current_assignment_id ?? undefined,
+    assignmentId: row.assignment_id ?? undefined,
+    response: row.response ?? undefined,
+    reviewedBy: row.reviewed_by ?? undefined,
+    reviewedAt: row.reviewed_at ? new Date(row.reviewed_at) : undefined,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+    staff: row.staff
+      ? {
+          firstName: row.staff.first_name,
+          lastName: row.staff.last_name,
+          employeeId: row.staff.employee_id ?? undefined,
+          department: row.staff.department ?? undefined,
+          housingEligible: !!row.staff.housing_eligible,
+        }
+      : undefined,
+  };
+}
+
+/**
+ * Waitlist order: higher priority first, then the earliest requested date,
+ * then first come, first served. Requests without a date want to move as
+ * soon as possible.
+ */
+export function compareWaitlist(
+  a: Pick<HousingRequest, "priority" | "requestedStartDate" | "createdAt">,
+  b: Pick<HousingRequest, "priority" | "requestedStartDate" | "createdAt">
+): number {
+  const wanted = (request: typeof a) =>
+    request.requestedStartDate?.getTime() ?? request.createdAt.getTime();
+
+  return (
+    PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority] ||
+    wanted(a) - wanted(b) ||
+    a.createdAt.getTime() - b.createdAt.getTime()
+  );
+}
+
+// A room as the matcher needs it
+export type MatchableRoom = AssignableRoom & { amenities?: string[] };
+
+// An assignment with the department of the staff member it houses
+export type MatchableStay = AssignmentSpan & { department?: string };
+
+/**
+ * Rooms that could take a new housing or room change request from its
+ * requested date, or today when that has passed: open, with a place free on
+ * every night and, when the room's beds are recorded, a bed nobody else holds.
+ * A room change leaves the staff member's current room out and does not clash
+ * with the stay it replaces.
+ *
+ * Matches are ranked by the preferred property, room type and amenities, and
+ * by sharing with colleagues from the same department. Ties go to the room
+ * with the fewest places free, so shared rooms fill up before empty ones are
+ * opened.
+ *
+ * `blockers` says why nothing can be offered at all: the staff member is not
+ * eligible for housing, or is already housed on some of the nights.
+ */
+export function matchHousingRequest(
+  request: Pick<
+    HousingRequest,
+    | "type"
+    | "staffId"
+    | "requestedStartDate"
+    | "requestedEndDate"
+    | "preferredPropertyId"
+    | "preferredRoomType"
+    | "preferredAmenities"
+    | "currentAssignmentId"
+  >,
+  staff: { department?: string; housingEligible: boolean },
+  rooms: MatchableRoom[],
+  assignments: MatchableStay[],
+  options: { today?: Date; limit?: number } = {}
+): { matches: HousingMatch[]; blockers: string[] } {
+  if (!needsRoom(request.type)) return { matches: [], blockers: [] };
+
+  if (!staff.housingEligible) {
+    return { matches: [], blockers: ["Not eligible for staff housing"] };
+  }
+
+  const current = assignments.find(
+    (assignment) => assignment.id === request.currentAssignmentId
+  );
+  if (request.type === HousingRequestType.ROOM_CHANGE && !current) {
+    return { matches: [], blockers: ["No current assignment to move from"] };
+  }
+
+  const others = assignments.filter(
+    (assignment) => assignment.id !== current?.id
+  );
+  const today = toUtcDay(options.today ?? new Date());
+  const startDate = request.requestedStartDate
+    ? maxDate(toUtcDay(request.requestedStartDate), today)
+    : today;
+  const blockers = new Set<string>();
+  const matches: HousingMatch[] = [];
+
+  rooms
+    .filter((room) => room.id !== current?.roomId)
+    .forEach((room) => {
+      const span: AssignmentSpan = {
+        roomId: room.id,
+        staffId: request.staffId,
+        startDate,
+        // A moved stay keeps its planned end
+        endDate: current ? current.endDate : request.requestedEndDate,
+        status: AssignmentStatus.ACTIVE,
+      };
+
+      const conflicts = findAssignmentConflicts(span, rooms, others);
+      conflicts
+        .filter((conflict) => conflict.kind === AssignmentConflictKind.STAFF_OVERLAP)
+        .forEach((conflict) => blockers.add(conflict.message));
+      if (conflicts.length > 0) return;
+
+      const bed = room.beds?.length ? freeBeds(span, room, others)[0] : undefined;
+      if (room.beds?.length && !bed) return;
+
+      const reasons: string[] = [];
+      let score = 0;
+
+      if (request.preferredPropertyId && room.propertyId === request.preferredPropertyId) {
+        score += 3;
+        reasons.push("Preferred property");
+      }
+
+      if (request.preferredRoomType && room.roomType === request.preferredRoomType) {
+        score += 2;
+        reasons.push("Preferred room type");
+      }
+
+      const amenities = (request.preferredAmenities || []).filter((amenity) =>
+        room.amenities?.includes(amenity)
+      );
+      if (amenities.length > 0) {
+        score += amenities.length;
+        reasons.push(`Has ${amenities.join(", ")}`);
+      }
+
+      // Housemates on the first night
+      const colleagues = others.filter(
+        (stay) =>
+          stay.roomId === room.id &&
+          stay.status === AssignmentStatus.ACTIVE &&
+          !!staff.department &&
+          stay.department === staff.department &&
+          toUtcDay(stay.startDate) <= startDate &&
+          (!stay.endDate || startDate < toUtcDay(stay.endDate))
+      ).length;
+      if (colleagues > 0) {
+        score += 2;
+        reasons.push(`Shares with ${colleagues} from ${staff.department}`);
+      }
+
+      matches.push({
+        roomId: room.id,
+        roomNumber: room.roomNumber,
+        propertyId: room.propertyId,
+        propertyName: room.propertyName,
+        roomType: room.roomType,
+        bedId: bed?.id,
+        bedLabel: bed?.label,
+        freeBeds: freePlaces(span, room, others),
+        score,
+        reasons,
+      });
+    });
+
+  return {
+    matches: matches
+      .sort(
+        (a, b) =>
+          b.score - a.score ||
+          a.freeBeds - b.freeBeds ||
+          a.roomNumber.localeCompare(b.roomNumber, undefined, { numeric: true })
+      )
+      .slice(0, options.limit ?? 5),
+    blockers: [...blockers],
+  };
+}
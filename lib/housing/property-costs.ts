@@ -0,0 +1,54 @@
+import type { PropertyCost } from "@/lib/types/housing";
+import { PropertyCostCategory } from "@/lib/types/housing";
+import {
+  addUtcDays,
+  daysInUtcMonth,
+  eachUtcDay,
+  maxDate,
+  minDate,
+  toUtcDay,
+} from "@/lib/dates";
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+// Map a `property_costs` row to the camelCase domain type
+export function propertyCostFromRow(row: any): PropertyCost {
+  return {
+    id: row.id,
+    propertyId: row.property_id,
+    category: row.category as PropertyCostCategory,
+    description: row.description ?? undefined,
+    monthlyAmount: Number(row.monthly_amount),
+    effectiveFrom: toUtcDay(row.effective_from),
+    effectiveTo: row.effective_to ? toUtcDay(row.effective_to) : undefined,
+    notes: row.notes ?? undefined,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+  };
+}
+
+/**
+ * What a monthly property cost comes to over `periodStart`..`periodEnd`
+ * (inclusive). Each day costs the monthly amount divided by the days in its
+ * calendar month, so a full month always costs the monthly amount.
+ */
+export function propertyCostForPeriod(
+  cost: Pick<PropertyCost, "monthlyAmount" | "effectiveFrom" | "effectiveTo">,
+  periodStart: Date,
+  periodEnd: Date
+): number {
+  const from = maxDate(toUtcDay(cost.effectiveFrom), toUtcDay(periodStart));
+  const until = addUtcDays(
+    cost.effectiveTo
+      ? minDate(toUtcDay(cost.effectiveTo), toUtcDay(periodEnd))
+      : toUtcDay(periodEnd),
+    1
+  );
+
+  return roundCurrency(
+    eachUtcDay(from, until).reduce(
+      (sum, day) => sum + cost.monthlyAmount / daysInUtcMonth(day),
+      0
+    )
+  );
+}
@@ -0,0 +1,436 @@
+import type {
+  ProrationBreakdown,
+  ProrationLine,
+  RateCard,
+  RateSegment,
+  Room,
+  RoomAssignment,
+} from "@/lib/types/housing";
+import { ProrationMethod, RateCardScope } from "@/lib/types/housing";
+import { ERP_CONFIG } from "@/lib/config/erp";
+import {
+  DEFAULT_PRORATION_METHOD,
+  graceNights,
+  monthFraction,
+  shortNoticeNights,
+  wholeWeekTopUp,
+} from "@/lib/billing/proration";
+import {
+  addUtcDays,
+  daysBetween,
+  eachUtcDay,
+  maxDate,
+  minDate,
+  toUtcDay,
+} from "@/lib/dates";
+
+type RateTarget = Pick<
+  Room,
+  "id" | "propertyId" | "roomNumber" | "roomType" | "monthlyRate"
+>;
+
+// Higher wins when more than one card covers the same day
+const SCOPE_PRECEDENCE: Record<RateCardScope, number> = {
+  [RateCardScope.ROOM]: 3,
+  [RateCardScope.ROOM_TYPE]: 2,
+  [RateCardScope.PROPERTY]: 1,
+};
+
+// Map a `rate_cards` row to the camelCase domain type
+export function rateCardFromRow(row: any): RateCard {
+  return {
+    id: row.id,
+    scope: row.scope as RateCardScope,
+    propertyId: row.property_id ?? undefined,
+    roomType: row.room_type ?? undefined,
+    roomId: row.room_id ?? undefined,
+    monthlyRate: Number(row.monthly_rate),
+    fairMarketRent:
+      row.fair_market_rent != null ? Number(row.fair_market_rent) : undefined,
+    prorationMethod: (row.proration_method as ProrationMethod) ?? undefined,
+    effectiveFrom: toUtcDay(row.effective_from),
+    effectiveTo: row.effective_to ? toUtcDay(row.effective_to) : undefined,
+    notes: row.notes ?? undefined,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+  };
+}
+
+export function rateCardAppliesTo(card: RateCard, room: RateTarget): boolean {
+  switch (card.scope) {
+    case RateCardScope.ROOM:
+      return card.roomId === room.id;
+    case RateCardScope.ROOM_TYPE:
+      return (
+        card.propertyId === room.propertyId &&
+        !!room.roomType &&
+        card.roomType === room.roomType
+      );
+    case RateCardScope.PROPERTY:
+      return card.propertyId === room.propertyId;
+    default:
+      return false;
+  }
+}
+
+export function isRateCardActiveOn(card: RateCard, day: Date): boolean {
+  const d = toUtcDay(day).getTime();
+  return (
+    toUtcDay(card.effectiveFrom).getTime() <= d &&
+    (!card.effectiveTo || d <= toUtcDay(card.effectiveTo).getTime())
+  );
+}
+
+/**
+ * Pick the rate card that governs a room on a given day: room cards beat
+ * room-type cards, which beat property cards. Within a scope the most
+ * recently effective card wins.
+ */
+export function resolveRateCard(
+  rateCards: RateCard[],
+  room: RateTarget,
+  day: Date
+): RateCard | undefined {
+  return rateCards
+    .filter((card) => rateCardAppliesTo(card, room))
+    .filter((card) => isRateCardActiveOn(card, day))
+    .sort(
+      (a, b) =>
+        SCOPE_PRECEDENCE[b.scope] - SCOPE_PRECEDENCE[a.scope] ||
+        b.effectiveFrom.getTime() - a.effectiveFrom.getTime()
+    )[0];
+}
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Rent owed for a room from `start` up to, but not including, `endExclusive`.
+ *
+ * Days charged at the same rate and proration method within one calendar
+ * month are grouped into segments, and each segment is charged its share of
+ * the monthly rate (see `monthFraction`), so a rate change part-way through a
+ * billing period is prorated exactly. `Room.monthlyRate` is the fallback when
+ * no rate card covers a day; `defaultMethod` applies when the card sets none.
+ */
+export function calculateRent(
+  rateCards: RateCard[],
+  room: RateTarget,
+  start: Date,
+  endExclusive: Date,
+  defaultMethod: ProrationMethod = DEFAULT_PRORATION_METHOD
+): { amount: number; segments: RateSegment[] } {
+  const segments: RateSegment[] = [];
+
+  for (const day of eachUtcDay(start, endExclusive)) {
+    const card = resolveRateCard(rateCards, room, day);
+    const monthlyRate = card?.monthlyRate ?? room.monthlyRate;
+    const prorationMethod = card?.prorationMethod ?? defaultMethod;
+
+    if (monthlyRate === undefined) {
+      throw new Error(
+        `No rent rate configured for room ${room.roomNumber} on ${
+          day.toISOString().split("T")[0]
+        }`
+      );
+    }
+
+    const last = segments[segments.length - 1];
+
+    if (
+      last &&
+      last.rateCardId === card?.id &&
+      last.monthlyRate === monthlyRate &&
+      last.prorationMethod === prorationMethod &&
+      addUtcDays(last.endDate, 1).getTime() === day.getTime() &&
+      last.endDate.getUTCMonth() === day.getUTCMonth()
+    ) {
+      last.endDate = day;
+      last.days += 1;
+    } else {
+      segments.push({
+        rateCardId: card?.id,
+        scope: card?.scope ?? "room_default",
+        monthlyRate,
+        prorationMethod,
+        startDate: day,
+        endDate: day,
+        days: 1,
+        factor: 0,
+        amount: 0,
+      });
+    }
+  }
+
+  segments.forEach((segment) => {
+    segment.factor = monthFraction(
+      segment.prorationMethod,
+      segment.startDate,
+      addUtcDays(segment.endDate, 1)
+    );
+    segment.amount = roundCurrency(segment.monthlyRate * segment.factor);
+  });
+
+  return {
+    amount: roundCurrency(segments.reduce((sum, s) => sum + s.amount, 0)),
+    segments,
+  };
+}
+
+const segmentLine = (
+  kind: ProrationLine["kind"],
+  segment: RateSegment
+): ProrationLine => ({
+  kind,
+  startDate: segment.startDate,
+  endDate: segment.endDate,
+  days: segment.days,
+  monthlyRate: segment.monthlyRate,
+  prorationMethod: segment.prorationMethod,
+  factor: segment.factor,
+  amount: segment.amount,
+});
+
+/**
+ * Rent for the nights of a stay that fall in a billing period (both dates
+ * inclusive), with the housing rules applied on top of `calculateRent`:
+ * - the first `moveInGracePeriod` nights of a stay are free
+ * - a move-out with less than `moveOutNoticePeriod` days' notice is charged
+ *   the missing nights after the move-out, in the period of the move-out
+ * - whole-week stays are rounded up to full weeks within the period
+ * A room transfer is one stay split across two rooms, so the new room gives
+ * no grace nights, the old one charges no short notice, and neither side is
+ * rounded up to whole weeks.
+ * Returns null when none of the stay's nights fall in the period.
+ */
+export function calculateStayRent(
+  rateCards: RateCard[],
+  room: RateTarget,
+  stay: Pick<
+    RoomAssignment,
+    | "startDate"
+    | "endDate"
+    | "moveOutNoticeDate"
+    | "transferredFromId"
+    | "transferredToId"
+  >,
+  period: { startDate: Date; endDate: Date },
+  defaultMethod: ProrationMethod = DEFAULT_PRORATION_METHOD
+): {
+  amount: number;
+  segments: RateSegment[];
+  breakdown: ProrationBreakdown;
+  billedFrom: Date;
+  billedTo: Date;
+} | null {
+  const periodStart = toUtcDay(period.startDate);
+  const periodEndExclusive = addUtcDays(toUtcDay(period.endDate), 1);
+  const stayStart = toUtcDay(stay.startDate);
+  const moveOut = stay.endDate ? toUtcDay(stay.endDate) : undefined;
+
+  // Stays are billed per night, so the move-out day is free
+  const billedFrom = maxDate(stayStart, periodStart);
+  const billedUntil = moveOut
+    ? minDate(moveOut, periodEndExclusive)
+    : periodEndExclusive;
+
+  if (billedFrom >= billedUntil) return null;
+
+  const lines: ProrationLine[] = [];
+  const segments: RateSegment[] = [];
+
+  const transferred = !!stay.transferredFromId || !!stay.transferredToId;
+  const grace = stay.transferredFromId
+    ? 0
+    : graceNights(stayStart, billedFrom, billedUntil);
+  if (grace > 0) {
+    lines.push({
+      kind: "grace",
+      startDate: billedFrom,
+      endDate: addUtcDays(billedFrom, grace - 1),
+      days: grace,
+      factor: 0,
+      amount: 0,
+    });
+  }
+
+  const chargedFrom = addUtcDays(billedFrom, grace);
+  if (chargedFrom < billedUntil) {
+    const rent = calculateRent(
+      rateCards,
+      room,
+      chargedFrom,
+      billedUntil,
+      defaultMethod
+    );
+    segments.push(...rent.segments);
+    lines.push(...rent.segments.map((segment) => segmentLine("rent", segment)));
+  }
+
+  // The move-out falls in this period when its last night does
+  let shortNotice = 0;
+  if (moveOut && moveOut <= periodEndExclusive && !stay.transferredToId) {
+    shortNotice = shortNoticeNights(
+      stay.moveOutNoticeDate && toUtcDay(stay.moveOutNoticeDate),
+      moveOut
+    );
+    if (shortNotice > 0) {
+      const notice = calculateRent(
+        rateCards,
+        room,
+        moveOut,
+        addUtcDays(moveOut, shortNotice),
+        defaultMethod
+      );
+      segments.push(...notice.segments);
+      lines.push(
+        ...notice.segments.map((segment) => segmentLine("short_notice", segment))
+      );
+    }
+  }
+
+  const last = segments[segments.length - 1];
+  const prorationMethod = last?.prorationMethod ?? defaultMethod;
+
+  let roundedUp = 0;
+  if (last && prorationMethod === ProrationMethod.WHOLE_WEEK && !transferred) {
+    const charged = segments.reduce((sum, segment) => sum + segment.days, 0);
+    roundedUp = wholeWeekTopUp(
+      charged,
+      daysBetween(periodStart, periodEndExclusive) - grace
+    );
+    if (roundedUp > 0) {
+      const factor = monthFraction(
+        ProrationMethod.WHOLE_WEEK,
+        last.endDate,
+        addUtcDays(last.endDate, roundedUp)
+      );
+      lines.push({
+        kind: "week_rounding",
+        days: roundedUp,
+        monthlyRate: last.monthlyRate,
+        prorationMethod,
+        factor,
+        amount: roundCurrency(last.monthlyRate * factor),
+      });
+    }
+  }
+
+  const amount = roundCurrency(lines.reduce((sum, line) => sum + line.amount, 0));
+
+  return {
+    amount,
+    segments,
+    billedFrom,
+    billedTo: addUtcDays(billedUntil, -1),
+    breakdown: {
+      prorationMethod,
+      precision: ERP_CONFIG.billing.prorationPrecision,
+      periodStart,
+      periodEnd: addUtcDays(periodEndExclusive, -1),
+      nights: daysBetween(billedFrom, billedUntil),
+      graceDays: grace,
+      shortNoticeDays: shortNotice,
+      roundedUpDays: roundedUp,
+      lines,
+      amount,
+    },
+  };
+}
+
+/**
+ * Pick the card that sets a room's fair market rent on a given day. Cards
+ * without one are skipped, so a room card that only changes the charged rate
+ * still falls back to the market value set for the property.
+ */
+export function resolveMarketRentCard(
+  rateCards: RateCard[],
+  room: RateTarget,
+  day: Date
+): RateCard | undefined {
+  return resolveRateCard(
+    rateCards.filter((card) => card.fairMarketRent !== undefined),
+    room,
+    day
+  );
+}
+
+/**
+ * Open-market value of the nights of a stay that fall in a billing period,
+ * prorated the same way as rent. Grace nights count, since they are lived in;
+ * short-notice nights charged after the move-out do not. Nights no card puts
+ * a market value on are counted in `unvaluedNights` and add nothing.
+ * Returns null when none of the stay's nights fall in the period.
+ */
+export function calculateStayMarketRent(
+  rateCards: RateCard[],
+  room: RateTarget,
+  stay: Pick<RoomAssignment, "startDate" | "endDate">,
+  period: { startDate: Date; endDate: Date },
+  defaultMethod: ProrationMethod = DEFAULT_PRORATION_METHOD
+): {
+  amount: number;
+  nights: number;
+  unvaluedNights: number;
+  segments: RateSegment[];
+} | null {
+  const periodEndExclusive = addUtcDays(toUtcDay(period.endDate), 1);
+  const from = maxDate(toUtcDay(stay.startDate), toUtcDay(period.startDate));
+  const until = stay.endDate
+    ? minDate(toUtcDay(stay.endDate), periodEndExclusive)
+    : periodEndExclusive;
+
+  if (from >= until) return null;
+
+  const segments: RateSegment[] = [];
+  let unvaluedNights = 0;
+
+  for (const day of eachUtcDay(from, until)) {
+    const card = resolveMarketRentCard(rateCards, room, day);
+    if (!card) {
+      unvaluedNights += 1;
+      continue;
+    }
+
+    const monthlyRate = card.fairMarketRent!;
+    const prorationMethod = card.prorationMethod ?? defaultMethod;
+    const last = segments[segments.length - 1];
+
+    if (
+      last &&
+      last.rateCardId === card.id &&
+      addUtcDays(last.endDate, 1).getTime() === day.getTime() &&
+      last.endDate.getUTCMonth() === day.getUTCMonth()
+    ) {
+      last.endDate = day;
+      last.days += 1;
+    } else {
+      segments.push({
+        rateCardId: card.id,
+        scope: card.scope,
+        monthlyRate,
+        prorationMethod,
+        startDate: day,
+        endDate: day,
+        days: 1,
+        factor: 0,
+        amount: 0,
+      });
+    }
+  }
+
+  segments.forEach((segment) => {
+    segment.factor = monthFraction(
+      segment.prorationMethod,
+      segment.startDate,
+      addUtcDays(segment.endDate, 1)
+    );
+    segment.amount = roundCurrency(segment.monthlyRate * segment.factor);
+  });
+
+  return {
+    amount: roundCurrency(segments.reduce((sum, s) => sum + s.amount, 0)),
+    nights: daysBetween(from, until),
+    unvaluedNights,
+    segments,
+  };
+}
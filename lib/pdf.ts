@@ -0,0 +1,229 @@
+// Minimal PDF writer for text documents (statements, reports).
+//
+// Pages are lists of text runs and rules positioned in points, with y
+// measured down from the top of the page. Only the built-in Helvetica faces
+// are used, so nothing is embedded; text is written in WinAnsi encoding and
+// characters outside it print as "?". Content streams are not compressed.
+
+export type PdfFont = "regular" | "bold";
+
+export type PdfTextOp = {
+  kind: "text";
+  x: number;
+  y: number;
+  text: string;
+  size: number;
+  font?: PdfFont;
+};
+
+export type PdfLineOp = {
+  kind: "line";
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  width?: number;
+};
+
+export type PdfOp = PdfTextOp | PdfLineOp;
+
+export type PdfPage = PdfOp[];
+
+// US Letter
+export const PDF_PAGE_WIDTH = 612;
+export const PDF_PAGE_HEIGHT = 792;
+
+// Advance widths (1/1000 em) of the printable ASCII range, from the Adobe
+// metrics of the standard fonts
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+// Characters WinAnsi places in 0x80-0x9F, where Latin-1 has control codes
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  "€": 0x80,
+  "…": 0x85,
+  "‘": 0x91,
+  "’": 0x92,
+  "“": 0x93,
+  "”": 0x94,
+  "•": 0x95,
+  "–": 0x96,
+  "—": 0x97,
+  "™": 0x99,
+};
+
+const EXTRA_WIDTHS: Record<number, number> = {
+  0x85: 1000,
+  0x91: 222,
+  0x92: 222,
+  0x93: 333,
+  0x94: 333,
+  0x95: 350,
+  0x97: 1000,
+  0x99: 1000,
+};
+
+function winAnsiCode(char: string): number {
+  const code = char.charCodeAt(0);
+  if ((code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff)) {
+    return code;
+  }
+  return WIN_ANSI_EXTRAS[char] ?? 0x3f;
+}
+
+function charWidth(code: number, font: PdfFont): number {
+  if (code >= 0x20 && code <= 0x7e) {
+    return (font === "bold" ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS)[
+      code - 0x20
+    ];
+  }
+  return EXTRA_WIDTHS[code] ?? 556;
+}
+
+// Width of `text` in points when set at `size`
+export function textWidth(
+  text: string,
+  size: number,
+  font: PdfFont = "regular"
+): number {
+  let units = 0;
+  for (const char of text) units += charWidth(winAnsiCode(char), font);
+  return (units * size) / 1000;
+}
+
+// Shorten `text` with an ellipsis so it fits in `maxWidth` points
+export function fitText(
+  text: string,
+  maxWidth: number,
+  size: number,
+  font: PdfFont = "regular"
+): string {
+  if (textWidth(text, size, font) <= maxWidth) return text;
+
+  let fitted = text;
+  while (fitted.length > 0 && textWidth(`${fitted}…`, size, font) > maxWidth) {
+    fitted = fitted.slice(0, -1);
+  }
+  return `${fitted.trimEnd()}…`;
+}
+
+// Break `text` into lines no wider than `maxWidth`, at spaces where possible
+export function wrapText(
+  text: string,
+  maxWidth: number,
+  size: number,
+  font: PdfFont = "regular"
+): string[] {
+  const lines: string[] = [];
+  let line = "";
+
+  text.split(/\s+/).filter(Boolean).forEach((word) => {
+    const candidate = line ? `${line} ${word}` : word;
+    if (!line || textWidth(candidate, size, font) <= maxWidth) {
+      line = candidate;
+    } else {
+      lines.push(line);
+      line = word;
+    }
+  });
+  if (line) lines.push(line);
+
+  return lines.map((entry) => fitText(entry, maxWidth, size, font));
+}
+
+// A PDF literal string, one byte per character
+function pdfString(text: string): string {
+  let result = "(";
+  for (const char of text) {
+    const code = winAnsiCode(char);
+    if (code === 0x28 || code === 0x29 || code === 0x5c) {
+      result += `\\${String.fromCharCode(code)}`;
+    } else {
+      result += String.fromCharCode(code);
+    }
+  }
+  return `${result})`;
+}
+
+const num = (value: number) => Number(value.toFixed(2)).toString();
+
+function pageContent(page: PdfPage): string {
+  return page
+    .map((op) => {
+      if (op.kind === "line") {
+        return `${num(op.width ?? 0.5)} w ${num(op.x1)} ${num(
+          PDF_PAGE_HEIGHT - op.y1
+        )} m ${num(op.x2)} ${num(PDF_PAGE_HEIGHT - op.y2)} l S`;
+      }
+      return `BT /${op.font === "bold" ? "F2" : "F1"} ${num(op.size)} Tf ${num(
+        op.x
+      )} ${num(PDF_PAGE_HEIGHT - op.y)} Td ${pdfString(op.text)} Tj ET`;
+    })
+    .join("\n");
+}
+
+// Strings here only hold byte values, so each character becomes one byte
+function byteString(value: string): Uint8Array {
+  const bytes = new Uint8Array(value.length);
+  for (let i = 0; i < value.length; i++) bytes[i] = value.charCodeAt(i) & 0xff;
+  return bytes;
+}
+
+export function createPdf(
+  pages: PdfPage[],
+  info: { title?: string } = {}
+): Uint8Array {
+  // 1: catalog, 2: page tree, 3-4: fonts, 5: document info, then a page and
+  // its content stream for every page
+  const objects: string[] = [];
+  const pageIds = pages.map((_, index) => 6 + index * 2);
+
+  objects[1] = "<< /Type /Catalog /Pages 2 0 R >>";
+  objects[2] = `<< /Type /Pages /Kids [${pageIds
+    .map((id) => `${id} 0 R`)
+    .join(" ")}] /Count ${pages.length} >>`;
+  objects[3] =
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>";
+  objects[4] =
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>";
+  objects[5] = info.title ? `<< /Title ${pdfString(info.title)} >>` : "<< >>";
+
+  pages.forEach((page, index) => {
+    const pageId = pageIds[index];
+    const content = pageContent(page);
+    objects[pageId] =
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PDF_PAGE_WIDTH} ${PDF_PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageId + 1} 0 R >>`;
+    objects[pageId + 1] = `<< /Length ${content.length} >>\nstream\n${content}\nendstream`;
+  });
+
+  let body = "%PDF-1.4\n%\xe2\xe3\xcf\xd3\n";
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = body.length;
+    body += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+
+  const xrefOffset = body.length;
+  body += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    body += `${offsets[id].toString().padStart(10, "0")} 00000 n \n`;
+  }
+  body += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return byteString(body);
+}
@@ -0,0 +1,111 @@
+-- Beds Table Schema
+-- The beds in each room, so shared rooms can record who sleeps where and beds
+-- can be taken out of service without closing the whole room
+
+-- Create the beds table
+CREATE TABLE IF NOT EXISTS beds (
+  -- Primary key
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- Foreign keys
+  room_id UUID NOT NULL REFERENCES rooms(id) ON DELETE CASCADE,
+
+  -- Bed details
+  label VARCHAR(20) NOT NULL,
+
+  -- Status
+  status VARCHAR(20) NOT NULL DEFAULT 'in_service' CHECK (status IN ('in_service', 'out_of_service')),
+  out_of_service_reason VARCHAR(255) NULL,
+
+  -- Audit fields
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  UNIQUE (room_id, label)
+);
+
+-- Assignments may name the bed the staff member sleeps in
+ALTER TABLE room_assignments ADD COLUMN IF NOT EXISTS bed_id UUID NULL REFERENCES beds(id) ON DELETE SET NULL;
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_beds_room_id ON beds(room_id);
+CREATE INDEX IF NOT EXISTS idx_room_assignments_bed_id ON room_assignments(bed_id) WHERE bed_id IS NOT NULL;
+
+-- One bed per place a room already holds, for rooms created before beds
+INSERT INTO beds (room_id, label)
+SELECT r.id, n::TEXT
+FROM rooms r
+CROSS JOIN LATERAL generate_series(1, r.capacity) n
+WHERE NOT EXISTS (SELECT 1 FROM beds b WHERE b.room_id = r.id)
+ON CONFLICT (room_id, label) DO NOTHING;
+
+-- New rooms get a bed for each place they hold
+CREATE OR REPLACE FUNCTION create_room_beds()
+RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO beds (room_id, label)
+    SELECT NEW.id, n::TEXT
+    FROM generate_series(1, NEW.capacity) n
+    ON CONFLICT (room_id, label) DO NOTHING;
+    RETURN NEW;
+END;
+$$ LANGUAGE 'plpgsql';
+
+DROP TRIGGER IF EXISTS create_room_beds ON rooms;
+CREATE TRIGGER create_room_beds
+    AFTER INSERT ON rooms
+    FOR EACH ROW
+    EXECUTE FUNCTION create_room_beds();
+
+-- Update trigger function
+CREATE OR REPLACE FUNCTION update_beds_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE 'plpgsql';
+
+-- Create trigger
+DROP TRIGGER IF EXISTS update_beds_updated_at ON beds;
+CREATE TRIGGER update_beds_updated_at
+    BEFORE UPDATE ON beds
+    FOR EACH ROW
+    EXECUTE FUNCTION update_beds_updated_at();
+
+-- Enable Row Level Security
+ALTER TABLE beds ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+
+-- Policy: Allow housing administrators to manage beds
+CREATE POLICY "Housing administrators can manage beds" ON beds
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM auth.users
+            WHERE auth.users.id = auth.uid()
+            AND auth.users.raw_user_meta_data->>'role' IN ('Administrator', 'HR', 'Housing Manager')
+        )
+    );
+
+-- Policy: Allow staff to view the beds of rooms they are assigned to
+CREATE POLICY "Staff can view beds in their rooms" ON beds
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM room_assignments a
+            JOIN staff s ON s.id = a.staff_id
+            WHERE a.room_id = beds.room_id
+            AND s.user_id = auth.uid()
+        )
+    );
+
+-- Grant necessary permissions
+GRANT ALL ON beds TO authenticated;
+
+-- Comments for documentation
+COMMENT ON TABLE beds IS 'Beds in each room, with their own service status';
+COMMENT ON COLUMN beds.room_id IS 'Room the bed is in';
+COMMENT ON COLUMN beds.label IS 'Bed label, unique within the room';
+COMMENT ON COLUMN beds.status IS 'Bed status: in_service, out_of_service';
+COMMENT ON COLUMN beds.out_of_service_reason IS 'Why the bed is out of service';
+COMMENT ON COLUMN room_assignments.bed_id IS 'Bed the staff member sleeps in; optional';
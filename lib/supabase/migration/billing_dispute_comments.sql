@@ -0,0 +1,90 @@
+-- Billing Dispute Comments Table Schema
+-- This table holds the conversation on a dispute between the staff member and
+-- reviewers. Internal comments are only visible to reviewers
+
+-- Create the billing_dispute_comments table
+CREATE TABLE IF NOT EXISTS billing_dispute_comments (
+  -- Primary key
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- Foreign keys
+  dispute_id UUID NOT NULL REFERENCES billing_disputes(id) ON DELETE CASCADE,
+  author_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+
+  -- Comment
+  body TEXT NOT NULL CHECK (length(body) > 0),
+  internal BOOLEAN NOT NULL DEFAULT false,
+
+  -- Audit fields
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_billing_dispute_comments_dispute ON billing_dispute_comments(dispute_id, created_at);
+
+-- Enable Row Level Security
+ALTER TABLE billing_dispute_comments ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies (no update policies: comments are never edited)
+
+-- Policy: Allow administrators to manage all dispute comments
+CREATE POLICY "Administrators can manage all dispute comments" ON billing_dispute_comments
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM auth.users
+            WHERE auth.users.id = auth.uid()
+            AND auth.users.raw_user_meta_data->>'role' = 'Administrator'
+        )
+    );
+
+-- Policy: Allow HR and Finance staff to view and add dispute comments
+CREATE POLICY "HR and Finance can view all dispute comments" ON billing_dispute_comments
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM auth.users
+            WHERE auth.users.id = auth.uid()
+            AND auth.users.raw_user_meta_data->>'role' IN ('HR', 'Finance', 'Payroll')
+        )
+    );
+
+CREATE POLICY "HR and Finance can add dispute comments" ON billing_dispute_comments
+    FOR INSERT WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM auth.users
+            WHERE auth.users.id = auth.uid()
+            AND auth.users.raw_user_meta_data->>'role' IN ('HR', 'Finance', 'Payroll')
+        )
+    );
+
+-- Policy: Allow staff to see the public comments on their own disputes
+CREATE POLICY "Staff can view comments on their own disputes" ON billing_dispute_comments
+    FOR SELECT USING (
+        internal = false AND
+        EXISTS (
+            SELECT 1 FROM billing_disputes
+            JOIN staff ON staff.id = billing_disputes.staff_id
+            WHERE billing_disputes.id = billing_dispute_comments.dispute_id
+            AND staff.user_id = auth.uid()
+        )
+    );
+
+-- Policy: Allow staff to comment on their own disputes
+CREATE POLICY "Staff can comment on their own disputes" ON billing_dispute_comments
+    FOR INSERT WITH CHECK (
+        internal = false AND
+        author_id = auth.uid() AND
+        EXISTS (
+            SELECT 1 FROM billing_disputes
+            JOIN staff ON staff.id = billing_disputes.staff_id
+            WHERE billing_disputes.id = billing_dispute_comments.dispute_id
+            AND staff.user_id = auth.uid()
+        )
+    );
+
+-- Grant necessary permissions
+GRANT SELECT, INSERT, DELETE ON billing_dispute_comments TO authenticated;
+
+-- Comments for documentation
+COMMENT ON TABLE billing_dispute_comments IS 'Conversation between staff and reviewers on a billing dispute';
+COMMENT ON COLUMN billing_dispute_comments.author_id IS 'User who wrote the comment';
+COMMENT ON COLUMN billing_dispute_comments.internal IS 'Reviewer-only note hidden from the staff member';
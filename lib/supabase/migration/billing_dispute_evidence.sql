@@ -0,0 +1,132 @@
+-- Billing Dispute Evidence Table Schema
+-- This table lists the files attached to a dispute. The files themselves live
+-- in the private 'dispute-evidence' storage bucket under <dispute_id>/
+
+-- Create the storage bucket
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('dispute-evidence', 'dispute-evidence', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- Create the billing_dispute_evidence table
+CREATE TABLE IF NOT EXISTS billing_dispute_evidence (
+  -- Primary key
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- Foreign keys
+  dispute_id UUID NOT NULL REFERENCES billing_disputes(id) ON DELETE CASCADE,
+  uploaded_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+
+  -- File details
+  file_name VARCHAR(255) NOT NULL,
+  file_path TEXT NOT NULL UNIQUE,
+  content_type VARCHAR(100) NULL,
+  file_size INTEGER NOT NULL CHECK (file_size >= 0),
+
+  -- Audit fields
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_billing_dispute_evidence_dispute ON billing_dispute_evidence(dispute_id);
+
+-- Enable Row Level Security
+ALTER TABLE billing_dispute_evidence ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+
+-- Policy: Allow administrators to manage all dispute evidence
+CREATE POLICY "Administrators can manage all dispute evidence" ON billing_dispute_evidence
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM auth.users
+            WHERE auth.users.id = auth.uid()
+            AND auth.users.raw_user_meta_data->>'role' = 'Administrator'
+        )
+    );
+
+-- Policy: Allow HR and Finance staff to manage all dispute evidence
+CREATE POLICY "HR and Finance can manage all dispute evidence" ON billing_dispute_evidence
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM auth.users
+            WHERE auth.users.id = auth.uid()
+            AND auth.users.raw_user_meta_data->>'role' IN ('HR', 'Finance', 'Payroll')
+        )
+    );
+
+-- Policy: Allow staff to view and attach evidence on their own disputes
+CREATE POLICY "Staff can view evidence on their own disputes" ON billing_dispute_evidence
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM billing_disputes
+            JOIN staff ON staff.id = billing_disputes.staff_id
+            WHERE billing_disputes.id = billing_dispute_evidence.dispute_id
+            AND staff.user_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Staff can attach evidence to their own disputes" ON billing_dispute_evidence
+    FOR INSERT WITH CHECK (
+        uploaded_by = auth.uid() AND
+        EXISTS (
+            SELECT 1 FROM billing_disputes
+            JOIN staff ON staff.id = billing_disputes.staff_id
+            WHERE billing_disputes.id = billing_dispute_evidence.dispute_id
+            AND staff.user_id = auth.uid()
+        )
+    );
+
+-- Storage policies: reviewers read everything, staff read and upload under
+-- their own disputes' folders
+CREATE POLICY "Reviewers can read dispute evidence files" ON storage.objects
+    FOR SELECT USING (
+        bucket_id = 'dispute-evidence' AND
+        EXISTS (
+            SELECT 1 FROM auth.users
+            WHERE auth.users.id = auth.uid()
+            AND auth.users.raw_user_meta_data->>'role' IN ('Administrator', 'HR', 'Finance', 'Payroll')
+        )
+    );
+
+CREATE POLICY "Reviewers can upload dispute evidence files" ON storage.objects
+    FOR INSERT WITH CHECK (
+        bucket_id = 'dispute-evidence' AND
+        EXISTS (
+            SELECT 1 FROM auth.users
+            WHERE auth.users.id = auth.uid()
+            AND auth.users.raw_user_meta_data->>'role' IN ('Administrator', 'HR', 'Finance', 'Payroll')
+        )
+    );
+
+CREATE POLICY "Staff can read their own dispute evidence files" ON storage.objects
+    FOR SELECT USING (
+        bucket_id = 'dispute-evidence' AND
+        EXISTS (
+            SELECT 1 FROM billing_disputes
+            JOIN staff ON staff.id = billing_disputes.staff_id
+            WHERE billing_disputes.id::text = (storage.foldername(name))[1]
+            AND staff.user_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Staff can upload their own dispute evidence files" ON storage.objects
+    FOR INSERT WITH CHECK (
+        bucket_id = 'dispute-evidence' AND
+        EXISTS (
+            SELECT 1 FROM billing_disputes
+            JOIN staff ON staff.id = billing_disputes.staff_id
+            WHERE billing_disputes.id::text = (storage.foldername(name))[1]
+            AND staff.user_id = auth.uid()
+        )
+    );
+
+-- Grant necessary permissions
+GRANT SELECT, INSERT, DELETE ON billing_dispute_evidence TO authenticated;
+
+-- Comments for documentation
+COMMENT ON TABLE billing_dispute_evidence IS 'Files attached to billing disputes';
+COMMENT ON COLUMN billing_dispute_evidence.file_name IS 'Original name of the uploaded file';
+COMMENT ON COLUMN billing_dispute_evidence.file_path IS 'Object path in the dispute-evidence storage bucket';
+COMMENT ON COLUMN billing_dispute_evidence.content_type IS 'MIME type reported at upload';
+COMMENT ON COLUMN billing_dispute_evidence.file_size IS 'File size in bytes';
+COMMENT ON COLUMN billing_dispute_evidence.uploaded_by IS 'User who attached the file';
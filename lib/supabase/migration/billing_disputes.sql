@@ -0,0 +1,210 @@
+-- Billing Disputes Table Schema
+-- This table tracks staff disputes of individual charges. While a dispute is
+-- open its charge is 'disputed' and held out of payroll exports; the
+-- resolution either confirms the charge or credits part or all of it
+
+-- Create the billing_disputes table
+CREATE TABLE IF NOT EXISTS billing_disputes (
+  -- Primary key
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- Foreign keys
+  charge_id UUID NOT NULL REFERENCES charges(id) ON DELETE CASCADE,
+  staff_id UUID NOT NULL REFERENCES staff(id) ON DELETE CASCADE,
+
+  -- Dispute details
+  dispute_type VARCHAR(30) NOT NULL CHECK (dispute_type IN ('incorrect_amount', 'unauthorized_charge', 'billing_error', 'proration_error', 'other')),
+  subject VARCHAR(100) NOT NULL,
+  description TEXT NOT NULL,
+  expected_amount DECIMAL(10,2) NULL CHECK (expected_amount >= 0),
+
+  -- Status
+  status VARCHAR(20) NOT NULL DEFAULT 'submitted' CHECK (status IN ('submitted', 'under_review', 'investigating', 'resolved')),
+  previous_charge_status VARCHAR(20) NOT NULL,
+
+  -- Review
+  assigned_to UUID NULL REFERENCES auth.users(id) ON DELETE SET NULL,
+  assigned_at TIMESTAMPTZ NULL,
+
+  -- Resolution
+  resolution VARCHAR(20) NULL CHECK (resolution IN ('full_credit', 'partial_credit', 'charge_confirmed')),
+  credit_amount DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (credit_amount >= 0),
+  resolution_notes TEXT NULL,
+  resolved_by UUID NULL REFERENCES auth.users(id) ON DELETE SET NULL,
+  resolved_at TIMESTAMPTZ NULL,
+
+  -- Audit fields
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_billing_disputes_charge ON billing_disputes(charge_id);
+CREATE INDEX IF NOT EXISTS idx_billing_disputes_staff ON billing_disputes(staff_id);
+CREATE INDEX IF NOT EXISTS idx_billing_disputes_status ON billing_disputes(status);
+CREATE INDEX IF NOT EXISTS idx_billing_disputes_assigned ON billing_disputes(assigned_to);
+
+-- A charge can only be under one open dispute at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_billing_disputes_one_open
+ON billing_disputes(charge_id) WHERE status <> 'resolved';
+
+-- Business rule constraints
+ALTER TABLE billing_disputes
+ADD CONSTRAINT IF NOT EXISTS chk_dispute_resolution_fields
+CHECK (
+  (status <> 'resolved' AND resolution IS NULL AND resolved_at IS NULL AND credit_amount = 0) OR
+  (status = 'resolved' AND resolution IS NOT NULL AND resolved_at IS NOT NULL)
+);
+
+ALTER TABLE billing_disputes
+ADD CONSTRAINT IF NOT EXISTS chk_dispute_credit_matches_resolution
+CHECK (
+  (resolution IS NULL) OR
+  (resolution = 'charge_confirmed' AND credit_amount = 0) OR
+  (resolution IN ('full_credit', 'partial_credit') AND credit_amount > 0)
+);
+
+-- Update trigger function
+CREATE OR REPLACE FUNCTION update_billing_disputes_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE 'plpgsql';
+
+-- Create trigger
+DROP TRIGGER IF EXISTS update_billing_disputes_updated_at ON billing_disputes;
+CREATE TRIGGER update_billing_disputes_updated_at
+    BEFORE UPDATE ON billing_disputes
+    FOR EACH ROW
+    EXECUTE FUNCTION update_billing_disputes_updated_at();
+
+-- Raising a dispute holds its charge: the charge's status is remembered and
+-- it becomes 'disputed', which keeps it out of payroll exports
+CREATE OR REPLACE FUNCTION hold_disputed_charge()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_status VARCHAR(20);
+BEGIN
+    SELECT status INTO v_status FROM charges WHERE id = NEW.charge_id;
+
+    IF v_status IS NULL THEN
+        RAISE EXCEPTION 'Charge not found';
+    END IF;
+    IF v_status IN ('disputed', 'cancelled') THEN
+        RAISE EXCEPTION 'A % charge cannot be disputed', v_status;
+    END IF;
+
+    NEW.previous_charge_status = v_status;
+    UPDATE charges SET status = 'disputed' WHERE id = NEW.charge_id;
+    RETURN NEW;
+END;
+$$ LANGUAGE 'plpgsql';
+
+DROP TRIGGER IF EXISTS hold_disputed_charge ON billing_disputes;
+CREATE TRIGGER hold_disputed_charge
+    BEFORE INSERT ON billing_disputes
+    FOR EACH ROW
+    EXECUTE FUNCTION hold_disputed_charge();
+
+-- Resolving a dispute releases its charge back to the status it had before
+CREATE OR REPLACE FUNCTION release_disputed_charge()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.status = 'resolved' AND OLD.status <> 'resolved' THEN
+        UPDATE charges SET status = OLD.previous_charge_status
+        WHERE id = NEW.charge_id AND status = 'disputed';
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE 'plpgsql';
+
+DROP TRIGGER IF EXISTS release_disputed_charge ON billing_disputes;
+CREATE TRIGGER release_disputed_charge
+    BEFORE UPDATE ON billing_disputes
+    FOR EACH ROW
+    EXECUTE FUNCTION release_disputed_charge();
+
+-- Resolved disputes are final; a new dispute has to be raised instead
+CREATE OR REPLACE FUNCTION prevent_resolved_dispute_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF OLD.status = 'resolved' THEN
+        RAISE EXCEPTION 'A resolved dispute cannot be changed';
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE 'plpgsql';
+
+DROP TRIGGER IF EXISTS prevent_resolved_dispute_changes ON billing_disputes;
+CREATE TRIGGER prevent_resolved_dispute_changes
+    BEFORE UPDATE ON billing_disputes
+    FOR EACH ROW
+    EXECUTE FUNCTION prevent_resolved_dispute_changes();
+
+-- Enable Row Level Security
+ALTER TABLE billing_disputes ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+
+-- Policy: Allow administrators to manage all disputes
+CREATE POLICY "Administrators can manage all billing disputes" ON billing_disputes
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM auth.users
+            WHERE auth.users.id = auth.uid()
+            AND auth.users.raw_user_meta_data->>'role' = 'Administrator'
+        )
+    );
+
+-- Policy: Allow HR and Finance staff to review all disputes
+CREATE POLICY "HR and Finance can manage all billing disputes" ON billing_disputes
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM auth.users
+            WHERE auth.users.id = auth.uid()
+            AND auth.users.raw_user_meta_data->>'role' IN ('HR', 'Finance', 'Payroll')
+        )
+    );
+
+-- Policy: Allow staff to view their own disputes
+CREATE POLICY "Staff can view their own billing disputes" ON billing_disputes
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM staff
+            WHERE staff.id = billing_disputes.staff_id
+            AND staff.user_id = auth.uid()
+        )
+    );
+
+-- Policy: Allow staff to dispute their own charges
+CREATE POLICY "Staff can dispute their own charges" ON billing_disputes
+    FOR INSERT WITH CHECK (
+        status = 'submitted' AND
+        EXISTS (
+            SELECT 1 FROM staff
+            JOIN charges ON charges.staff_id = staff.id
+            WHERE staff.id = billing_disputes.staff_id
+            AND charges.id = billing_disputes.charge_id
+            AND staff.user_id = auth.uid()
+        )
+    );
+
+-- Grant necessary permissions
+GRANT ALL ON billing_disputes TO authenticated;
+
+-- Comments for documentation
+COMMENT ON TABLE billing_disputes IS 'Staff disputes of individual charges and how they were resolved';
+COMMENT ON COLUMN billing_disputes.charge_id IS 'Charge being disputed';
+COMMENT ON COLUMN billing_disputes.staff_id IS 'Staff member who raised the dispute';
+COMMENT ON COLUMN billing_disputes.dispute_type IS 'What the staff member believes is wrong with the charge';
+COMMENT ON COLUMN billing_disputes.expected_amount IS 'Amount the staff member believes is correct';
+COMMENT ON COLUMN billing_disputes.status IS 'Review progress: submitted, under_review, investigating or resolved';
+COMMENT ON COLUMN billing_disputes.previous_charge_status IS 'Charge status to restore when the dispute is resolved';
+COMMENT ON COLUMN billing_disputes.assigned_to IS 'Reviewer responsible for the dispute';
+COMMENT ON COLUMN billing_disputes.resolution IS 'Outcome: full_credit, partial_credit or charge_confirmed';
+COMMENT ON COLUMN billing_disputes.credit_amount IS 'Amount taken off the charge the next time its period is exported';
+COMMENT ON COLUMN billing_disputes.resolution_notes IS 'Explanation of the decision shown to the staff member';
+COMMENT ON COLUMN billing_disputes.resolved_by IS 'Reviewer who resolved the dispute';
@@ -16,6 +16,14 @@ CREATE TABLE IF NOT EXISTS billing_periods (
   -- Export information
   payroll_export_date TIMESTAMPTZ NULL,
   
+  -- Pay date and payroll run the period maps to (set by the billing calendar)
+  pay_date DATE NULL,
+  payroll_run_date DATE NULL,
+  
+  -- Corrections sub-periods reopened against an exported period
+  parent_period_id UUID NULL REFERENCES billing_periods(id) ON DELETE RESTRICT,
+  reopen_reason TEXT NULL,
+  
   -- Audit fields
   created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
   updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
@@ -25,6 +33,8 @@ CREATE TABLE IF NOT EXISTS billing_periods (
 CREATE INDEX IF NOT EXISTS idx_billing_periods_dates ON billing_periods(start_date, end_date);
 CREATE INDEX IF NOT EXISTS idx_billing_periods_status ON billing_periods(status);
 CREATE INDEX IF NOT EXISTS idx_billing_periods_export_date ON billing_periods(payroll_export_date);
+CREATE INDEX IF NOT EXISTS idx_billing_periods_parent ON billing_periods(parent_period_id);
+CREATE INDEX IF NOT EXISTS idx_billing_periods_pay_date ON billing_periods(pay_date);
 
 -- Business rule constraints
 ALTER TABLE billing_periods 
@@ -35,10 +45,23 @@ ALTER TABLE billing_periods
 ADD CONSTRAINT IF NOT EXISTS chk_export_date_after_end 
 CHECK (payroll_export_date IS NULL OR payroll_export_date >= end_date);
 
--- Prevent overlapping billing periods
+ALTER TABLE billing_periods 
+ADD CONSTRAINT IF NOT EXISTS chk_payroll_run_before_pay_date 
+CHECK (payroll_run_date IS NULL OR pay_date IS NULL OR payroll_run_date <= pay_date);
+
+ALTER TABLE billing_periods 
+ADD CONSTRAINT IF NOT EXISTS chk_reopen_reason_for_corrections 
+CHECK (parent_period_id IS NULL OR reopen_reason IS NOT NULL);
+
+-- Prevent overlapping billing periods (corrections share their parent's dates)
 CREATE UNIQUE INDEX IF NOT EXISTS idx_billing_periods_no_overlap 
 ON billing_periods(start_date, end_date) 
-WHERE status != 'cancelled';
+WHERE status != 'cancelled' AND parent_period_id IS NULL;
+
+-- At most one open corrections period per exported period
+CREATE UNIQUE INDEX IF NOT EXISTS idx_billing_periods_open_correction 
+ON billing_periods(parent_period_id) 
+WHERE parent_period_id IS NOT NULL AND status IN ('draft', 'processing', 'completed');
 
 -- Update trigger function
 CREATE OR REPLACE FUNCTION update_billing_periods_updated_at()
@@ -56,6 +79,37 @@ CREATE TRIGGER update_billing_periods_updated_at
     FOR EACH ROW 
     EXECUTE FUNCTION update_billing_periods_updated_at();
 
+-- Enforce the billing period lifecycle
+CREATE OR REPLACE FUNCTION enforce_billing_period_transition()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.status = OLD.status THEN
+        IF OLD.status IN ('exported', 'cancelled')
+           AND (NEW.start_date <> OLD.start_date OR NEW.end_date <> OLD.end_date) THEN
+            RAISE EXCEPTION 'A % billing period cannot be edited', OLD.status;
+        END IF;
+        RETURN NEW;
+    END IF;
+
+    IF NOT (
+        (OLD.status = 'draft' AND NEW.status IN ('processing', 'cancelled')) OR
+        (OLD.status = 'processing' AND NEW.status IN ('completed', 'draft', 'cancelled')) OR
+        (OLD.status = 'completed' AND NEW.status IN ('exported', 'draft')) OR
+        (OLD.status = 'cancelled' AND NEW.status = 'draft')
+    ) THEN
+        RAISE EXCEPTION 'A % billing period cannot be moved to %', OLD.status, NEW.status;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE 'plpgsql';
+
+DROP TRIGGER IF EXISTS enforce_billing_period_transition ON billing_periods;
+CREATE TRIGGER enforce_billing_period_transition 
+    BEFORE UPDATE ON billing_periods 
+    FOR EACH ROW 
+    EXECUTE FUNCTION enforce_billing_period_transition();
+
 -- Enable Row Level Security
 ALTER TABLE billing_periods ENABLE ROW LEVEL SECURITY;
 
@@ -125,5 +179,9 @@ COMMENT ON COLUMN billing_periods.start_date IS 'Start date of the billing perio
 COMMENT ON COLUMN billing_periods.end_date IS 'End date of the billing period';
 COMMENT ON COLUMN billing_periods.status IS 'Current status of the billing period';
 COMMENT ON COLUMN billing_periods.payroll_export_date IS 'Date when data was exported to payroll system';
+COMMENT ON COLUMN billing_periods.pay_date IS 'Pay date the period is deducted on, after moving off weekends and holidays';
+COMMENT ON COLUMN billing_periods.payroll_run_date IS 'Date payroll is run for the pay date';
+COMMENT ON COLUMN billing_periods.parent_period_id IS 'Exported period this corrections sub-period was reopened from';
+COMMENT ON COLUMN billing_periods.reopen_reason IS 'Why the parent period was reopened for corrections';
 COMMENT ON COLUMN billing_periods.created_at IS 'Record creation timestamp';
 COMMENT ON COLUMN billing_periods.updated_at IS 'Record last update timestamp';
@@ -0,0 +1,229 @@
+-- Charge Adjustments Schema
+-- Charges are never deleted, and their amounts are not edited once they have
+-- been approved or adjusted. Credit notes, debits and reversals against the
+-- original charge correct them instead; payroll exports, billing analytics
+-- and the staff portal use each charge's amount net of its adjustments
+
+-- Create the charge_adjustments table
+CREATE TABLE IF NOT EXISTS charge_adjustments (
+  -- Primary key
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- Original charge; staff and period are copied from it
+  charge_id UUID NOT NULL REFERENCES charges(id) ON DELETE RESTRICT,
+  staff_id UUID NOT NULL REFERENCES staff(id) ON DELETE RESTRICT,
+  billing_period_id UUID NOT NULL REFERENCES billing_periods(id) ON DELETE RESTRICT,
+
+  -- Adjustment details
+  type VARCHAR(20) NOT NULL CHECK (type IN ('credit_note', 'debit', 'reversal')),
+  reason_code VARCHAR(30) NOT NULL CHECK (reason_code IN ('billing_error', 'duplicate_charge', 'rate_change', 'proration_correction', 'waiver', 'goodwill', 'other')),
+  amount DECIMAL(10,2) NOT NULL CHECK (amount > 0),
+  description TEXT NOT NULL,
+
+  -- Charge run that posted the adjustment for a recalculated charge; NULL
+  -- when made by hand
+  charge_run_id UUID NULL REFERENCES charge_runs(id) ON DELETE SET NULL,
+
+  -- Audit fields
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Adjustment a charge run posted instead of editing a billed charge
+ALTER TABLE charge_run_items ADD COLUMN IF NOT EXISTS adjustment_id UUID NULL REFERENCES charge_adjustments(id) ON DELETE RESTRICT;
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_charge_adjustments_charge ON charge_adjustments(charge_id);
+CREATE INDEX IF NOT EXISTS idx_charge_adjustments_charge_run ON charge_adjustments(charge_run_id);
+CREATE INDEX IF NOT EXISTS idx_charge_adjustments_staff ON charge_adjustments(staff_id);
+CREATE INDEX IF NOT EXISTS idx_charge_adjustments_period ON charge_adjustments(billing_period_id);
+CREATE INDEX IF NOT EXISTS idx_charge_adjustments_reason ON charge_adjustments(reason_code);
+
+-- A charge is reversed at most once
+CREATE UNIQUE INDEX IF NOT EXISTS idx_charge_adjustments_one_reversal
+ON charge_adjustments(charge_id)
+WHERE type = 'reversal';
+
+-- Check a new adjustment against its charge. Reversals take whatever is left
+-- of the charge; credit notes cannot take more than that
+CREATE OR REPLACE FUNCTION check_charge_adjustment()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_charge charges;
+    v_period_status VARCHAR(20);
+    v_net DECIMAL(10,2);
+BEGIN
+    SELECT * INTO v_charge FROM charges WHERE id = NEW.charge_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Charge not found';
+    END IF;
+
+    IF v_charge.status IN ('cancelled', 'rejected') THEN
+        RAISE EXCEPTION 'A % charge is not billed and cannot be adjusted', v_charge.status;
+    END IF;
+
+    SELECT status INTO v_period_status FROM billing_periods WHERE id = v_charge.billing_period_id;
+    IF v_period_status = 'cancelled' THEN
+        RAISE EXCEPTION 'Charges in a cancelled billing period cannot be adjusted';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM charge_adjustments
+        WHERE charge_id = NEW.charge_id AND type = 'reversal'
+    ) THEN
+        RAISE EXCEPTION 'This charge has been reversed and cannot be adjusted';
+    END IF;
+
+    SELECT GREATEST(
+        ROUND(v_charge.amount * v_charge.proration_factor, 2) + COALESCE(SUM(
+            CASE WHEN type = 'debit' THEN amount ELSE -amount END
+        ), 0),
+        0
+    ) INTO v_net
+    FROM charge_adjustments
+    WHERE charge_id = NEW.charge_id;
+
+    IF NEW.type = 'reversal' THEN
+        IF v_net = 0 THEN
+            RAISE EXCEPTION 'Nothing is left of this charge to reverse';
+        END IF;
+        NEW.amount = v_net;
+    ELSIF NEW.type = 'credit_note' AND NEW.amount > v_net THEN
+        RAISE EXCEPTION 'A credit note cannot be more than the % left on the charge', v_net;
+    END IF;
+
+    NEW.staff_id = v_charge.staff_id;
+    NEW.billing_period_id = v_charge.billing_period_id;
+    IF NEW.created_by IS NULL THEN
+        NEW.created_by = auth.uid();
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE 'plpgsql';
+
+DROP TRIGGER IF EXISTS check_charge_adjustment ON charge_adjustments;
+CREATE TRIGGER check_charge_adjustment
+    BEFORE INSERT ON charge_adjustments
+    FOR EACH ROW
+    EXECUTE FUNCTION check_charge_adjustment();
+
+-- Adjustments are never edited; a mistake is corrected with another adjustment
+CREATE OR REPLACE FUNCTION prevent_charge_adjustment_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'Charge adjustments cannot be changed; post another adjustment instead';
+END;
+$$ LANGUAGE 'plpgsql';
+
+DROP TRIGGER IF EXISTS prevent_charge_adjustment_changes ON charge_adjustments;
+CREATE TRIGGER prevent_charge_adjustment_changes
+    BEFORE UPDATE OR DELETE ON charge_adjustments
+    FOR EACH ROW
+    EXECUTE FUNCTION prevent_charge_adjustment_changes();
+
+-- Approved, disputed, processed and adjusted charges keep their amount, type
+-- and staff member and are never cancelled or deleted, by hand or by a charge
+-- run; adjustments correct them instead. Rolling back a run still removes the
+-- charges it added as long as none was approved since
+CREATE OR REPLACE FUNCTION protect_billed_charges()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_billed BOOLEAN;
+BEGIN
+    v_billed := OLD.status IN ('approved', 'processed', 'disputed')
+        OR EXISTS (SELECT 1 FROM charge_adjustments WHERE charge_id = OLD.id);
+
+    IF TG_OP = 'DELETE' THEN
+        IF v_billed OR OLD.approval_step > 0 THEN
+            RAISE EXCEPTION 'Approved charges cannot be deleted; reverse the charge instead';
+        END IF;
+        RETURN OLD;
+    END IF;
+
+    IF v_billed AND (
+        NEW.amount <> OLD.amount OR
+        NEW.proration_factor <> OLD.proration_factor OR
+        NEW.type <> OLD.type OR
+        NEW.staff_id <> OLD.staff_id OR
+        NEW.billing_period_id <> OLD.billing_period_id OR
+        NEW.status = 'cancelled'
+    ) THEN
+        RAISE EXCEPTION 'Approved and adjusted charges cannot be changed or cancelled; post an adjustment instead';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE 'plpgsql';
+
+DROP TRIGGER IF EXISTS protect_billed_charges ON charges;
+CREATE TRIGGER protect_billed_charges
+    BEFORE UPDATE OR DELETE ON charges
+    FOR EACH ROW
+    EXECUTE FUNCTION protect_billed_charges();
+
+-- Enable Row Level Security
+ALTER TABLE charge_adjustments ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies (no update or delete policies: adjustments are append-only)
+
+-- Policy: Allow administrators to view and post adjustments
+CREATE POLICY "Administrators can view all charge adjustments" ON charge_adjustments
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM auth.users
+            WHERE auth.users.id = auth.uid()
+            AND auth.users.raw_user_meta_data->>'role' = 'Administrator'
+        )
+    );
+
+CREATE POLICY "Administrators can post charge adjustments" ON charge_adjustments
+    FOR INSERT WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM auth.users
+            WHERE auth.users.id = auth.uid()
+            AND auth.users.raw_user_meta_data->>'role' = 'Administrator'
+        )
+    );
+
+-- Policy: Allow HR and Finance to view and post adjustments
+CREATE POLICY "HR and Finance can view all charge adjustments" ON charge_adjustments
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM auth.users
+            WHERE auth.users.id = auth.uid()
+            AND auth.users.raw_user_meta_data->>'role' IN ('HR', 'Finance', 'Payroll')
+        )
+    );
+
+CREATE POLICY "Finance can post charge adjustments" ON charge_adjustments
+    FOR INSERT WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM auth.users
+            WHERE auth.users.id = auth.uid()
+            AND auth.users.raw_user_meta_data->>'role' IN ('HR', 'Finance', 'Payroll')
+        )
+    );
+
+-- Policy: Allow staff to view adjustments to their own charges
+CREATE POLICY "Staff can view their own charge adjustments" ON charge_adjustments
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM staff
+            WHERE staff.id = charge_adjustments.staff_id
+            AND staff.user_id = auth.uid()
+        )
+    );
+
+-- Grant necessary permissions
+GRANT SELECT, INSERT ON charge_adjustments TO authenticated;
+
+-- Comments for documentation
+COMMENT ON TABLE charge_adjustments IS 'Append-only credit notes, debits and reversals against charges';
+COMMENT ON COLUMN charge_adjustments.charge_id IS 'Original charge the adjustment corrects';
+COMMENT ON COLUMN charge_adjustments.billing_period_id IS 'Period of the original charge; exported periods pick adjustments up in their next incremental export';
+COMMENT ON COLUMN charge_adjustments.type IS 'credit_note and reversal reduce the charge, debit adds to it';
+COMMENT ON COLUMN charge_adjustments.reason_code IS 'Why the charge was adjusted';
+COMMENT ON COLUMN charge_adjustments.charge_run_id IS 'Charge run that posted the adjustment when it recalculated the charge; NULL = made by hand';
+COMMENT ON COLUMN charge_run_items.adjustment_id IS 'Adjustment the run posted instead of editing a billed charge';
+COMMENT ON COLUMN charge_adjustments.amount IS 'Positive amount; a reversal is whatever was left of the charge';
@@ -0,0 +1,188 @@
+-- Charge Approvals Schema
+-- Every charge is approved before it is exported to payroll. Charges matched by
+-- an active charge_approval_rules row (by type, amount threshold or both) need
+-- a second, different approver. charge_approvals records every decision
+
+-- Create the charge_approval_rules table
+CREATE TABLE IF NOT EXISTS charge_approval_rules (
+  -- Primary key
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- Rule details
+  name VARCHAR(100) NOT NULL,
+
+  -- Criteria; a charge matches when it is of the type (if set) and its
+  -- effective amount is above the threshold (if set)
+  charge_type VARCHAR(50) NULL CHECK (charge_type IN ('rent', 'utilities', 'transport', 'other')),
+  amount_threshold DECIMAL(10,2) NULL CHECK (amount_threshold >= 0),
+
+  -- Status
+  is_active BOOLEAN NOT NULL DEFAULT true,
+
+  -- Additional information
+  notes TEXT,
+
+  -- Audit fields
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Create the charge_approvals table
+CREATE TABLE IF NOT EXISTS charge_approvals (
+  -- Primary key
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- Foreign key
+  charge_id UUID NOT NULL REFERENCES charges(id) ON DELETE CASCADE,
+
+  -- Decision
+  step SMALLINT NOT NULL CHECK (step >= 1),
+  decision VARCHAR(20) NOT NULL CHECK (decision IN ('approve', 'reject')),
+  amount DECIMAL(10,2) NOT NULL,
+  comment TEXT NULL,
+
+  -- Audit fields
+  decided_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE RESTRICT,
+  decided_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Approval progress on the charge itself
+ALTER TABLE charges ADD COLUMN IF NOT EXISTS approval_step SMALLINT NOT NULL DEFAULT 0;
+ALTER TABLE charges ADD COLUMN IF NOT EXISTS first_approved_by UUID NULL REFERENCES auth.users(id) ON DELETE SET NULL;
+ALTER TABLE charges ADD COLUMN IF NOT EXISTS approved_by UUID NULL REFERENCES auth.users(id) ON DELETE SET NULL;
+ALTER TABLE charges ADD COLUMN IF NOT EXISTS approved_at TIMESTAMPTZ NULL;
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_charge_approval_rules_active ON charge_approval_rules(is_active);
+CREATE INDEX IF NOT EXISTS idx_charge_approvals_charge ON charge_approvals(charge_id);
+CREATE INDEX IF NOT EXISTS idx_charge_approvals_decided_by ON charge_approvals(decided_by);
+CREATE INDEX IF NOT EXISTS idx_charges_pending_approval ON charges(billing_period_id) WHERE status = 'pending';
+
+-- Business rule constraints
+ALTER TABLE charge_approval_rules
+ADD CONSTRAINT IF NOT EXISTS chk_charge_approval_rule_criteria
+CHECK (charge_type IS NOT NULL OR amount_threshold IS NOT NULL);
+
+-- Update trigger function
+CREATE OR REPLACE FUNCTION update_charge_approval_rules_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE 'plpgsql';
+
+-- Create trigger
+DROP TRIGGER IF EXISTS update_charge_approval_rules_updated_at ON charge_approval_rules;
+CREATE TRIGGER update_charge_approval_rules_updated_at
+    BEFORE UPDATE ON charge_approval_rules
+    FOR EACH ROW
+    EXECUTE FUNCTION update_charge_approval_rules_updated_at();
+
+-- A charge whose amount or type changes (by hand or by a charge run) goes
+-- back to pending and is approved again from the first step
+CREATE OR REPLACE FUNCTION reset_charge_approval()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF OLD.status IN ('pending', 'approved', 'rejected') AND NEW.status = OLD.status AND (
+        NEW.amount <> OLD.amount OR
+        NEW.proration_factor <> OLD.proration_factor OR
+        NEW.type <> OLD.type
+    ) THEN
+        NEW.status = 'pending';
+        NEW.approval_step = 0;
+        NEW.first_approved_by = NULL;
+        NEW.approved_by = NULL;
+        NEW.approved_at = NULL;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE 'plpgsql';
+
+DROP TRIGGER IF EXISTS reset_charge_approval ON charges;
+CREATE TRIGGER reset_charge_approval
+    BEFORE UPDATE ON charges
+    FOR EACH ROW
+    EXECUTE FUNCTION reset_charge_approval();
+
+-- Enable Row Level Security
+ALTER TABLE charge_approval_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE charge_approvals ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+
+-- Policy: Allow administrators to manage approval rules and decisions
+CREATE POLICY "Administrators can manage charge approval rules" ON charge_approval_rules
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM auth.users
+            WHERE auth.users.id = auth.uid()
+            AND auth.users.raw_user_meta_data->>'role' = 'Administrator'
+        )
+    );
+
+CREATE POLICY "Administrators can manage charge approvals" ON charge_approvals
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM auth.users
+            WHERE auth.users.id = auth.uid()
+            AND auth.users.raw_user_meta_data->>'role' = 'Administrator'
+        )
+    );
+
+-- Policy: Allow Finance to manage approval rules
+CREATE POLICY "Finance can manage charge approval rules" ON charge_approval_rules
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM auth.users
+            WHERE auth.users.id = auth.uid()
+            AND auth.users.raw_user_meta_data->>'role' IN ('Finance', 'Payroll')
+        )
+    );
+
+-- Policy: Allow HR and Finance to view approval rules and decisions
+CREATE POLICY "HR and Finance can view charge approval rules" ON charge_approval_rules
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM auth.users
+            WHERE auth.users.id = auth.uid()
+            AND auth.users.raw_user_meta_data->>'role' IN ('HR', 'Finance', 'Payroll')
+        )
+    );
+
+CREATE POLICY "HR and Finance can view charge approvals" ON charge_approvals
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM auth.users
+            WHERE auth.users.id = auth.uid()
+            AND auth.users.raw_user_meta_data->>'role' IN ('HR', 'Finance', 'Payroll')
+        )
+    );
+
+-- Policy: Approvers record their own decisions; decisions are never edited
+CREATE POLICY "Finance can record their own charge approvals" ON charge_approvals
+    FOR INSERT WITH CHECK (
+        decided_by = auth.uid() AND
+        EXISTS (
+            SELECT 1 FROM auth.users
+            WHERE auth.users.id = auth.uid()
+            AND auth.users.raw_user_meta_data->>'role' IN ('Finance', 'Payroll')
+        )
+    );
+
+-- Grant necessary permissions
+GRANT ALL ON charge_approval_rules TO authenticated;
+GRANT SELECT, INSERT ON charge_approvals TO authenticated;
+
+-- Comments for documentation
+COMMENT ON TABLE charge_approval_rules IS 'Rules that make charges need a second approver';
+COMMENT ON COLUMN charge_approval_rules.charge_type IS 'Charge type the rule applies to; NULL = every type';
+COMMENT ON COLUMN charge_approval_rules.amount_threshold IS 'Effective amount a charge must be above; NULL = any amount';
+COMMENT ON TABLE charge_approvals IS 'Every approve or reject decision made on a charge';
+COMMENT ON COLUMN charge_approvals.step IS 'Approval step the decision was made at (1 = first approver, 2 = second)';
+COMMENT ON COLUMN charge_approvals.amount IS 'Effective charge amount when the decision was made';
+COMMENT ON COLUMN charges.approval_step IS 'Approvals given since the charge was created or last changed';
+COMMENT ON COLUMN charges.first_approved_by IS 'First approver; a second approver must be someone else';
+COMMENT ON COLUMN charges.approved_by IS 'Approver whose decision approved the charge';
+COMMENT ON COLUMN charges.approved_at IS 'When the charge was approved';
@@ -0,0 +1,144 @@
+-- Charge Imports Schema
+-- Finance loads files of one-off charges (damage fees, meal cards) for many
+-- staff at once. import_charges writes every row of a file in one
+-- transaction: if any row fails, none of the file's charges are kept
+
+-- Create the charge_imports table
+CREATE TABLE IF NOT EXISTS charge_imports (
+  -- Primary key
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- File details
+  file_name VARCHAR(255) NOT NULL,
+  row_count INTEGER NOT NULL DEFAULT 0 CHECK (row_count >= 0),
+  total_amount DECIMAL(12,2) NOT NULL DEFAULT 0,
+
+  -- Audit fields
+  imported_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  imported_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Import that created each charge
+ALTER TABLE charges ADD COLUMN IF NOT EXISTS import_id UUID NULL REFERENCES charge_imports(id) ON DELETE SET NULL;
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_charge_imports_imported_at ON charge_imports(imported_at DESC);
+CREATE INDEX IF NOT EXISTS idx_charges_import ON charges(import_id) WHERE import_id IS NOT NULL;
+
+-- Insert every row of an import file, or none of them. Each row carries its
+-- row number in the file so errors point back to it; periods are locked and
+-- checked again here since one may have been exported after the preview
+CREATE OR REPLACE FUNCTION import_charges(
+    p_file_name TEXT,
+    p_rows JSONB
+)
+RETURNS charge_imports AS $$
+DECLARE
+    v_import charge_imports;
+    v_row JSONB;
+    v_period billing_periods;
+    v_charge charges;
+    v_total DECIMAL(12,2) := 0;
+BEGIN
+    IF jsonb_array_length(p_rows) = 0 THEN
+        RAISE EXCEPTION 'The import has no charges';
+    END IF;
+
+    INSERT INTO charge_imports (file_name, imported_by)
+    VALUES (p_file_name, auth.uid())
+    RETURNING * INTO v_import;
+
+    FOR v_row IN SELECT * FROM jsonb_array_elements(p_rows)
+    LOOP
+        SELECT * INTO v_period FROM billing_periods
+        WHERE id = (v_row->>'billing_period_id')::UUID
+        FOR UPDATE;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Row %: billing period not found', v_row->>'line';
+        END IF;
+
+        IF v_period.status IN ('exported', 'cancelled') THEN
+            RAISE EXCEPTION 'Row %: cannot add charges to a % billing period', v_row->>'line', v_period.status;
+        END IF;
+
+        IF NOT EXISTS (SELECT 1 FROM staff WHERE id = (v_row->>'staff_id')::UUID) THEN
+            RAISE EXCEPTION 'Row %: staff member not found', v_row->>'line';
+        END IF;
+
+        INSERT INTO charges (
+            billing_period_id, staff_id, type, amount, description, proration_factor,
+            charge_date, notes, import_id
+        )
+        VALUES (
+            v_period.id,
+            (v_row->>'staff_id')::UUID,
+            v_row->>'type',
+            (v_row->>'amount')::DECIMAL,
+            v_row->>'description',
+            1,
+            COALESCE((v_row->>'start_date')::DATE, v_period.start_date),
+            v_row->>'notes',
+            v_import.id
+        )
+        RETURNING * INTO v_charge;
+
+        v_total := v_total + v_charge.amount;
+    END LOOP;
+
+    UPDATE charge_imports SET
+        row_count = jsonb_array_length(p_rows),
+        total_amount = v_total
+    WHERE id = v_import.id
+    RETURNING * INTO v_import;
+
+    RETURN v_import;
+END;
+$$ LANGUAGE 'plpgsql';
+
+-- Enable Row Level Security
+ALTER TABLE charge_imports ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+
+-- Policy: Allow administrators to view and record imports
+CREATE POLICY "Administrators can manage charge imports" ON charge_imports
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM auth.users
+            WHERE auth.users.id = auth.uid()
+            AND auth.users.raw_user_meta_data->>'role' = 'Administrator'
+        )
+    );
+
+-- Policy: Allow Finance to view and record imports
+CREATE POLICY "Finance can manage charge imports" ON charge_imports
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM auth.users
+            WHERE auth.users.id = auth.uid()
+            AND auth.users.raw_user_meta_data->>'role' IN ('Finance', 'Payroll')
+        )
+    );
+
+-- Policy: Allow HR to view imports
+CREATE POLICY "HR can view charge imports" ON charge_imports
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM auth.users
+            WHERE auth.users.id = auth.uid()
+            AND auth.users.raw_user_meta_data->>'role' = 'HR'
+        )
+    );
+
+-- Grant necessary permissions
+GRANT SELECT, INSERT, UPDATE ON charge_imports TO authenticated;
+GRANT EXECUTE ON FUNCTION import_charges(TEXT, JSONB) TO authenticated;
+
+-- Comments for documentation
+COMMENT ON TABLE charge_imports IS 'Files of one-off charges committed together';
+COMMENT ON COLUMN charge_imports.file_name IS 'Name of the uploaded CSV or XLSX file';
+COMMENT ON COLUMN charge_imports.row_count IS 'Charges created by the import';
+COMMENT ON COLUMN charge_imports.total_amount IS 'Sum of the imported charge amounts';
+COMMENT ON COLUMN charge_imports.imported_by IS 'User who committed the import';
+COMMENT ON COLUMN charges.import_id IS 'Charge import that created the charge';
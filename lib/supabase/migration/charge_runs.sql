@@ -0,0 +1,367 @@
+-- Charge Runs Table Schema
+-- This table records each generation of charges for a billing period so runs
+-- are idempotent, auditable and can be rolled back
+
+-- Create the charge_runs table
+CREATE TABLE IF NOT EXISTS charge_runs (
+  -- Primary key
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- Foreign key
+  billing_period_id UUID NOT NULL REFERENCES billing_periods(id) ON DELETE CASCADE,
+
+  -- Run details
+  sources TEXT[] NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'committed' CHECK (status IN ('committed', 'rolled_back')),
+
+  -- Run statistics
+  added_count INTEGER NOT NULL DEFAULT 0,
+  changed_count INTEGER NOT NULL DEFAULT 0,
+  voided_count INTEGER NOT NULL DEFAULT 0,
+  unchanged_count INTEGER NOT NULL DEFAULT 0,
+  total_delta DECIMAL(12,2) NOT NULL DEFAULT 0.00,
+
+  -- Notes
+  notes TEXT NULL,
+
+  -- Processing information
+  committed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  committed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  rolled_back_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  rolled_back_at TIMESTAMPTZ NULL,
+
+  -- Audit fields
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Create the charge_run_items table
+CREATE TABLE IF NOT EXISTS charge_run_items (
+  -- Primary key
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- Foreign keys
+  charge_run_id UUID NOT NULL REFERENCES charge_runs(id) ON DELETE CASCADE,
+  charge_id UUID NULL REFERENCES charges(id) ON DELETE SET NULL,
+
+  -- What the run did to the charge and what it looked like before
+  action VARCHAR(20) NOT NULL CHECK (action IN ('add', 'change', 'void')),
+  previous_values JSONB NULL,
+  new_values JSONB NULL,
+
+  -- Audit fields
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Link generated charges back to the run that created them
+ALTER TABLE charges ADD COLUMN IF NOT EXISTS charge_run_id UUID NULL REFERENCES charge_runs(id) ON DELETE SET NULL;
+ALTER TABLE charges ADD COLUMN IF NOT EXISTS source_id UUID NULL;
+ALTER TABLE charges ADD COLUMN IF NOT EXISTS proration_factor DECIMAL(6,4) NOT NULL DEFAULT 1;
+ALTER TABLE charges ADD COLUMN IF NOT EXISTS metadata JSONB NULL;
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_charge_runs_billing_period ON charge_runs(billing_period_id);
+CREATE INDEX IF NOT EXISTS idx_charge_runs_status ON charge_runs(status);
+CREATE INDEX IF NOT EXISTS idx_charge_run_items_run ON charge_run_items(charge_run_id);
+CREATE INDEX IF NOT EXISTS idx_charge_run_items_charge ON charge_run_items(charge_id);
+CREATE INDEX IF NOT EXISTS idx_charges_charge_run ON charges(charge_run_id);
+
+-- One live generated charge per source, staff member and type in a period
+CREATE UNIQUE INDEX IF NOT EXISTS idx_charges_unique_source
+ON charges(billing_period_id, type, source_id, staff_id)
+WHERE source_id IS NOT NULL AND status != 'cancelled';
+
+-- Apply a previewed run in a single transaction. Pending charges are changed
+-- or voided in place; billed charges get the debit, credit note or reversal
+-- the preview worked out instead
+CREATE OR REPLACE FUNCTION commit_charge_run(
+    p_billing_period_id UUID,
+    p_sources TEXT[],
+    p_items JSONB,
+    p_unchanged_count INTEGER DEFAULT 0,
+    p_notes TEXT DEFAULT NULL
+)
+RETURNS charge_runs AS $$
+DECLARE
+    v_period billing_periods;
+    v_run charge_runs;
+    v_item JSONB;
+    v_charge charges;
+    v_new JSONB;
+    v_adjustment JSONB;
+    v_adjustment_id UUID;
+    v_net DECIMAL(10,2);
+    v_total_delta DECIMAL(12,2) := 0;
+BEGIN
+    SELECT * INTO v_period FROM billing_periods WHERE id = p_billing_period_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Billing period not found';
+    END IF;
+
+    IF v_period.status IN ('exported', 'cancelled') THEN
+        RAISE EXCEPTION 'Cannot run charges for a % billing period', v_period.status;
+    END IF;
+
+    -- Generated charges live in the main period; a corrections period would
+    -- charge them a second time
+    IF v_period.parent_period_id IS NOT NULL THEN
+        RAISE EXCEPTION 'Corrections periods take manual charges and adjustments only';
+    END IF;
+
+    INSERT INTO charge_runs (billing_period_id, sources, unchanged_count, notes, committed_by)
+    VALUES (p_billing_period_id, p_sources, p_unchanged_count, p_notes, auth.uid())
+    RETURNING * INTO v_run;
+
+    FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+    LOOP
+        v_new := v_item->'new_values';
+
+        IF v_item->>'action' = 'add' THEN
+            INSERT INTO charges (
+                billing_period_id, staff_id, type, amount, description, proration_factor,
+                source_id, metadata, charge_date, charge_run_id
+            )
+            VALUES (
+                p_billing_period_id,
+                (v_new->>'staff_id')::UUID,
+                v_new->>'type',
+                (v_new->>'amount')::DECIMAL,
+                v_new->>'description',
+                COALESCE((v_new->>'proration_factor')::DECIMAL, 1),
+                (v_new->>'source_id')::UUID,
+                v_new->'metadata',
+                COALESCE((v_new->>'start_date')::DATE, v_period.start_date),
+                v_run.id
+            )
+            RETURNING * INTO v_charge;
+
+            INSERT INTO charge_run_items (charge_run_id, charge_id, action, new_values)
+            VALUES (v_run.id, v_charge.id, 'add', v_new);
+
+            v_total_delta := v_total_delta + v_charge.amount * v_charge.proration_factor;
+            UPDATE charge_runs SET added_count = added_count + 1 WHERE id = v_run.id;
+        ELSE
+            SELECT * INTO v_charge FROM charges
+            WHERE id = (v_item->>'charge_id')::UUID
+            AND billing_period_id = p_billing_period_id
+            FOR UPDATE;
+
+            IF NOT FOUND OR v_charge.status = 'cancelled' THEN
+                RAISE EXCEPTION 'Charge % no longer exists; preview the run again', v_item->>'charge_id';
+            END IF;
+
+            IF v_charge.updated_at <> (v_item->>'expected_updated_at')::TIMESTAMPTZ THEN
+                RAISE EXCEPTION 'Charge % changed since the preview; preview the run again', v_charge.id;
+            END IF;
+
+            v_adjustment := v_item->'adjustment';
+
+            IF v_adjustment IS NOT NULL AND v_adjustment <> 'null'::JSONB THEN
+                -- Billed charges keep their amount; the run posts an adjustment
+                SELECT GREATEST(
+                    ROUND(v_charge.amount * v_charge.proration_factor, 2) + COALESCE(SUM(
+                        CASE WHEN type = 'debit' THEN amount ELSE -amount END
+                    ), 0),
+                    0
+                ) INTO v_net
+                FROM charge_adjustments
+                WHERE charge_id = v_charge.id;
+
+                IF v_net <> (v_adjustment->>'expected_net_amount')::DECIMAL THEN
+                    RAISE EXCEPTION 'Charge % was adjusted since the preview; preview the run again', v_charge.id;
+                END IF;
+
+                INSERT INTO charge_adjustments (charge_id, type, reason_code, amount, description, charge_run_id)
+                VALUES (
+                    v_charge.id,
+                    v_adjustment->>'type',
+                    v_adjustment->>'reason_code',
+                    (v_adjustment->>'amount')::DECIMAL,
+                    v_adjustment->>'description',
+                    v_run.id
+                )
+                RETURNING id INTO v_adjustment_id;
+
+                INSERT INTO charge_run_items (charge_run_id, charge_id, action, previous_values, new_values, adjustment_id)
+                VALUES (v_run.id, v_charge.id, v_item->>'action', to_jsonb(v_charge), v_adjustment, v_adjustment_id);
+
+                v_total_delta := v_total_delta + CASE
+                    WHEN v_adjustment->>'type' = 'debit' THEN (v_adjustment->>'amount')::DECIMAL
+                    ELSE -(v_adjustment->>'amount')::DECIMAL
+                END;
+
+                IF v_item->>'action' = 'change' THEN
+                    UPDATE charge_runs SET changed_count = changed_count + 1 WHERE id = v_run.id;
+                ELSE
+                    UPDATE charge_runs SET voided_count = voided_count + 1 WHERE id = v_run.id;
+                END IF;
+
+                CONTINUE;
+            END IF;
+
+            INSERT INTO charge_run_items (charge_run_id, charge_id, action, previous_values, new_values)
+            VALUES (v_run.id, v_charge.id, v_item->>'action', to_jsonb(v_charge), v_new);
+
+            v_total_delta := v_total_delta - v_charge.amount * v_charge.proration_factor;
+
+            IF v_item->>'action' = 'change' THEN
+                UPDATE charges SET
+                    amount = (v_new->>'amount')::DECIMAL,
+                    description = v_new->>'description',
+                    proration_factor = COALESCE((v_new->>'proration_factor')::DECIMAL, 1),
+                    metadata = v_new->'metadata',
+                    charge_run_id = v_run.id
+                WHERE id = v_charge.id;
+
+                v_total_delta := v_total_delta
+                    + (v_new->>'amount')::DECIMAL * COALESCE((v_new->>'proration_factor')::DECIMAL, 1);
+                UPDATE charge_runs SET changed_count = changed_count + 1 WHERE id = v_run.id;
+            ELSE
+                UPDATE charges SET status = 'cancelled', charge_run_id = v_run.id WHERE id = v_charge.id;
+                UPDATE charge_runs SET voided_count = voided_count + 1 WHERE id = v_run.id;
+            END IF;
+        END IF;
+    END LOOP;
+
+    UPDATE charge_runs SET total_delta = v_total_delta WHERE id = v_run.id RETURNING * INTO v_run;
+    RETURN v_run;
+END;
+$$ LANGUAGE 'plpgsql';
+
+-- Undo the most recent committed run for a period. Adjustments the run posted
+-- are offset by opposite ones; reversals cannot be undone
+CREATE OR REPLACE FUNCTION rollback_charge_run(p_charge_run_id UUID)
+RETURNS charge_runs AS $$
+DECLARE
+    v_run charge_runs;
+    v_period billing_periods;
+    v_item charge_run_items;
+    v_previous charges;
+    v_adjustment RECORD;
+BEGIN
+    SELECT * INTO v_run FROM charge_runs WHERE id = p_charge_run_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Charge run not found';
+    END IF;
+
+    IF v_run.status <> 'committed' THEN
+        RAISE EXCEPTION 'Charge run has already been rolled back';
+    END IF;
+
+    SELECT * INTO v_period FROM billing_periods WHERE id = v_run.billing_period_id FOR UPDATE;
+
+    IF v_period.status IN ('exported', 'cancelled') THEN
+        RAISE EXCEPTION 'Cannot roll back charges in a % billing period', v_period.status;
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM charge_runs
+        WHERE billing_period_id = v_run.billing_period_id
+        AND status = 'committed'
+        AND committed_at > v_run.committed_at
+    ) THEN
+        RAISE EXCEPTION 'Only the latest charge run for a period can be rolled back';
+    END IF;
+
+    FOR v_item IN SELECT * FROM charge_run_items WHERE charge_run_id = v_run.id
+    LOOP
+        IF v_item.adjustment_id IS NOT NULL THEN
+            -- Adjustments are append-only, so the run's is offset by another
+            SELECT * INTO v_adjustment FROM charge_adjustments WHERE id = v_item.adjustment_id;
+
+            IF v_adjustment.type = 'reversal' THEN
+                RAISE EXCEPTION 'This run reversed billed charges and cannot be rolled back';
+            END IF;
+
+            INSERT INTO charge_adjustments (charge_id, type, reason_code, amount, description, charge_run_id)
+            VALUES (
+                v_adjustment.charge_id,
+                CASE WHEN v_adjustment.type = 'debit' THEN 'credit_note' ELSE 'debit' END,
+                v_adjustment.reason_code,
+                v_adjustment.amount,
+                'Charge run rolled back: ' || v_adjustment.description,
+                v_run.id
+            );
+        ELSIF v_item.action = 'add' THEN
+            DELETE FROM charges WHERE id = v_item.charge_id;
+        ELSE
+            v_previous := jsonb_populate_record(NULL::charges, v_item.previous_values);
+            UPDATE charges SET
+                amount = v_previous.amount,
+                description = v_previous.description,
+                proration_factor = v_previous.proration_factor,
+                metadata = v_previous.metadata,
+                status = v_previous.status,
+                charge_run_id = v_previous.charge_run_id
+            WHERE id = v_item.charge_id;
+        END IF;
+    END LOOP;
+
+    UPDATE charge_runs SET
+        status = 'rolled_back',
+        rolled_back_by = auth.uid(),
+        rolled_back_at = NOW()
+    WHERE id = v_run.id
+    RETURNING * INTO v_run;
+
+    RETURN v_run;
+END;
+$$ LANGUAGE 'plpgsql';
+
+-- Enable Row Level Security
+ALTER TABLE charge_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE charge_run_items ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+
+-- Policy: Allow administrators to manage all charge runs
+CREATE POLICY "Administrators can manage all charge runs" ON charge_runs
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM auth.users
+            WHERE auth.users.id = auth.uid()
+            AND auth.users.raw_user_meta_data->>'role' = 'Administrator'
+        )
+    );
+
+-- Policy: Allow HR and Finance staff to manage all charge runs
+CREATE POLICY "HR and Finance can manage all charge runs" ON charge_runs
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM auth.users
+            WHERE auth.users.id = auth.uid()
+            AND auth.users.raw_user_meta_data->>'role' IN ('HR', 'Finance', 'Payroll')
+        )
+    );
+
+-- Policy: Allow the same roles to read run items
+CREATE POLICY "Finance can view charge run items" ON charge_run_items
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM auth.users
+            WHERE auth.users.id = auth.uid()
+            AND auth.users.raw_user_meta_data->>'role' IN ('Administrator', 'HR', 'Finance', 'Payroll')
+        )
+    );
+
+-- Grant necessary permissions
+GRANT ALL ON charge_runs TO authenticated;
+GRANT SELECT ON charge_run_items TO authenticated;
+GRANT EXECUTE ON FUNCTION commit_charge_run(UUID, TEXT[], JSONB, INTEGER, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION rollback_charge_run(UUID) TO authenticated;
+
+-- Comments for documentation
+COMMENT ON TABLE charge_runs IS 'Audited, reversible generations of charges for a billing period';
+COMMENT ON COLUMN charge_runs.id IS 'Unique identifier for the charge run';
+COMMENT ON COLUMN charge_runs.billing_period_id IS 'Reference to the billing period';
+COMMENT ON COLUMN charge_runs.sources IS 'Charge generators included in the run (housing, transport, ...)';
+COMMENT ON COLUMN charge_runs.status IS 'committed or rolled_back';
+COMMENT ON COLUMN charge_runs.total_delta IS 'Net change the run made to the period total';
+COMMENT ON COLUMN charge_runs.committed_by IS 'User who committed the run';
+COMMENT ON COLUMN charge_runs.rolled_back_by IS 'User who rolled the run back';
+COMMENT ON TABLE charge_run_items IS 'Per-charge changes made by a charge run, with prior values for rollback';
+COMMENT ON COLUMN charge_run_items.action IS 'add, change or void';
+COMMENT ON COLUMN charge_run_items.previous_values IS 'Charge row before the run touched it';
+COMMENT ON COLUMN charge_run_items.new_values IS 'Values the run wrote';
+COMMENT ON COLUMN charges.charge_run_id IS 'Charge run that last created or changed the charge';
@@ -0,0 +1,41 @@
+-- Charge Types Migration
+-- The billing engine reads and writes `charges.type` with the charge types it
+-- generates (rent, utilities, transport, other). This renames the original
+-- `charge_type` column and moves its values over. Run after charges.sql and
+-- before charge_runs.sql, whose indexes and functions use the new column.
+
+-- Rename the column (indexes and policies follow it)
+DO $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'charges' AND column_name = 'charge_type'
+    ) THEN
+        ALTER TABLE charges RENAME COLUMN charge_type TO type;
+    END IF;
+END $$;
+
+-- Replace the original CHECK, which only allowed housing/meal/transport/other
+ALTER TABLE charges DROP CONSTRAINT IF EXISTS charges_charge_type_check;
+
+UPDATE charges SET type = 'rent' WHERE type = 'housing';
+UPDATE charges SET type = 'other' WHERE type = 'meal';
+
+ALTER TABLE charges
+ADD CONSTRAINT IF NOT EXISTS chk_charges_type
+CHECK (type IN ('rent', 'utilities', 'transport', 'other'));
+
+-- Housing Managers look after rent and utilities rather than 'housing' charges
+DROP POLICY IF EXISTS "Housing Managers can manage housing charges" ON charges;
+CREATE POLICY "Housing Managers can manage housing charges" ON charges
+    FOR ALL USING (
+        type IN ('rent', 'utilities') AND
+        EXISTS (
+            SELECT 1 FROM auth.users
+            WHERE auth.users.id = auth.uid()
+            AND auth.users.raw_user_meta_data->>'role' = 'Housing Manager'
+        )
+    );
+
+-- Comments for documentation
+COMMENT ON COLUMN charges.type IS 'Type of charge (rent, utilities, transport, other)';
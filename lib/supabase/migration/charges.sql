@@ -20,7 +20,7 @@ CREATE TABLE IF NOT EXISTS charges (
   reference_type VARCHAR(50) NULL,
   
   -- Status
-  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'disputed', 'cancelled', 'processed')),
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected', 'disputed', 'cancelled', 'processed')),
   
   -- Dates
   charge_date DATE NOT NULL,
@@ -99,6 +99,37 @@ CREATE TRIGGER set_charge_processed_at
     FOR EACH ROW 
     EXECUTE FUNCTION set_charge_processed_at();
 
+-- Charges in exported periods are frozen; only their status may change
+CREATE OR REPLACE FUNCTION prevent_locked_period_charge_changes()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_status VARCHAR(20);
+BEGIN
+    SELECT status INTO v_status FROM billing_periods
+    WHERE id = COALESCE(NEW.billing_period_id, OLD.billing_period_id);
+
+    IF v_status = 'exported' AND (
+        TG_OP <> 'UPDATE' OR
+        NEW.amount <> OLD.amount OR
+        NEW.staff_id <> OLD.staff_id OR
+        NEW.billing_period_id <> OLD.billing_period_id
+    ) THEN
+        RAISE EXCEPTION 'Charges in an exported billing period cannot be changed';
+    END IF;
+
+    IF TG_OP = 'DELETE' THEN
+        RETURN OLD;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE 'plpgsql';
+
+DROP TRIGGER IF EXISTS prevent_locked_period_charge_changes ON charges;
+CREATE TRIGGER prevent_locked_period_charge_changes 
+    BEFORE INSERT OR UPDATE OR DELETE ON charges 
+    FOR EACH ROW 
+    EXECUTE FUNCTION prevent_locked_period_charge_changes();
+
 -- Enable Row Level Security
 ALTER TABLE charges ENABLE ROW LEVEL SECURITY;
 
@@ -211,7 +242,7 @@ COMMENT ON COLUMN charges.description IS 'Description of the charge';
 COMMENT ON COLUMN charges.amount IS 'Charge amount in currency';
 COMMENT ON COLUMN charges.reference_id IS 'Optional reference to related record';
 COMMENT ON COLUMN charges.reference_type IS 'Type of referenced record';
-COMMENT ON COLUMN charges.status IS 'Current status of the charge';
+COMMENT ON COLUMN charges.status IS 'Current status of the charge; only approved and processed charges are exported';
 COMMENT ON COLUMN charges.charge_date IS 'Date when the charge was incurred';
 COMMENT ON COLUMN charges.due_date IS 'Optional due date for payment';
 COMMENT ON COLUMN charges.processed_at IS 'Timestamp when charge was processed';
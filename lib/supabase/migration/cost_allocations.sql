@@ -0,0 +1,270 @@
+-- Cost Allocations Schema
+-- What housing and transport cost the company in a billing period beyond the
+-- charges staff paid, split across departments or cost centres. Each posting
+-- writes one expense transaction per department or cost centre and category;
+-- posting the period again supersedes the earlier allocation and reverses its
+-- transactions
+
+-- Create the cost_allocations table
+CREATE TABLE IF NOT EXISTS cost_allocations (
+  -- Primary key
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- Foreign key
+  billing_period_id UUID NOT NULL REFERENCES billing_periods(id) ON DELETE RESTRICT,
+
+  -- How the allocation was made
+  basis VARCHAR(20) NOT NULL CHECK (basis IN ('headcount', 'usage')),
+  target VARCHAR(20) NOT NULL CHECK (target IN ('department', 'cost_center')),
+  status VARCHAR(20) NOT NULL DEFAULT 'posted' CHECK (status IN ('posted', 'superseded')),
+
+  -- Totals
+  total_cost DECIMAL(12,2) NOT NULL DEFAULT 0,
+  total_recovered DECIMAL(12,2) NOT NULL DEFAULT 0,
+  total_allocated DECIMAL(12,2) NOT NULL DEFAULT 0,
+  entry_count INTEGER NOT NULL DEFAULT 0 CHECK (entry_count >= 0),
+
+  -- Per-source breakdown as previewed (cost, recovered, shares)
+  lines JSONB NOT NULL DEFAULT '[]',
+
+  -- Audit fields
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  superseded_at TIMESTAMPTZ NULL
+);
+
+-- Create the cost_allocation_entries table
+CREATE TABLE IF NOT EXISTS cost_allocation_entries (
+  -- Primary key
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- Foreign keys
+  allocation_id UUID NOT NULL REFERENCES cost_allocations(id) ON DELETE CASCADE,
+  transaction_id UUID NOT NULL REFERENCES transactions(id) ON DELETE RESTRICT,
+
+  -- Entry details
+  allocation_key VARCHAR(255) NOT NULL,
+  department_id UUID NULL REFERENCES departments(id) ON DELETE SET NULL,
+  cost_center VARCHAR(100) NULL,
+  category VARCHAR(50) NOT NULL,
+  amount DECIMAL(12,2) NOT NULL CHECK (amount > 0),
+
+  -- Audit fields
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_cost_allocations_period ON cost_allocations(billing_period_id);
+CREATE INDEX IF NOT EXISTS idx_cost_allocations_created_at ON cost_allocations(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_cost_allocation_entries_allocation ON cost_allocation_entries(allocation_id);
+CREATE INDEX IF NOT EXISTS idx_cost_allocation_entries_transaction ON cost_allocation_entries(transaction_id);
+
+-- Only one posted allocation per billing period
+CREATE UNIQUE INDEX IF NOT EXISTS idx_cost_allocations_posted
+ON cost_allocations(billing_period_id)
+WHERE status = 'posted';
+
+-- Post a period's allocation: supersede any earlier one, reverse its
+-- transactions and write a pending expense transaction for each entry, all in
+-- one transaction
+CREATE OR REPLACE FUNCTION post_cost_allocation(
+    p_billing_period_id UUID,
+    p_basis TEXT,
+    p_target TEXT,
+    p_lines JSONB,
+    p_entries JSONB
+)
+RETURNS cost_allocations AS $$
+DECLARE
+    v_period billing_periods;
+    v_previous cost_allocations;
+    v_allocation cost_allocations;
+    v_entry JSONB;
+    v_transaction_id UUID;
+    v_reference VARCHAR(50);
+BEGIN
+    SELECT * INTO v_period FROM billing_periods
+    WHERE id = p_billing_period_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Billing period not found';
+    END IF;
+
+    IF v_period.parent_period_id IS NOT NULL THEN
+        RAISE EXCEPTION 'Allocate the main billing period; its corrections are included';
+    END IF;
+
+    IF v_period.status NOT IN ('completed', 'exported') THEN
+        RAISE EXCEPTION 'Costs can only be allocated once the billing period is completed';
+    END IF;
+
+    IF jsonb_array_length(p_entries) = 0 THEN
+        RAISE EXCEPTION 'There is nothing to allocate for this period';
+    END IF;
+
+    SELECT * INTO v_previous FROM cost_allocations
+    WHERE billing_period_id = p_billing_period_id
+    AND status = 'posted'
+    FOR UPDATE;
+
+    IF FOUND THEN
+        UPDATE transactions SET status = 'reversed', updated_at = NOW()
+        WHERE id IN (
+            SELECT transaction_id FROM cost_allocation_entries
+            WHERE allocation_id = v_previous.id
+        );
+
+        UPDATE cost_allocations SET
+            status = 'superseded',
+            superseded_at = NOW()
+        WHERE id = v_previous.id;
+    END IF;
+
+    INSERT INTO cost_allocations (
+        billing_period_id, basis, target, lines,
+        total_cost, total_recovered, total_allocated, entry_count, created_by
+    )
+    VALUES (
+        p_billing_period_id,
+        p_basis,
+        p_target,
+        p_lines,
+        COALESCE((SELECT SUM((l->>'cost')::DECIMAL) FROM jsonb_array_elements(p_lines) l), 0),
+        COALESCE((SELECT SUM((l->>'recovered')::DECIMAL) FROM jsonb_array_elements(p_lines) l), 0),
+        COALESCE((SELECT SUM((e->>'amount')::DECIMAL) FROM jsonb_array_elements(p_entries) e), 0),
+        jsonb_array_length(p_entries),
+        auth.uid()
+    )
+    RETURNING * INTO v_allocation;
+
+    v_reference := 'ALLOC-' || to_char(v_period.end_date, 'YYYYMMDD');
+
+    FOR v_entry IN SELECT * FROM jsonb_array_elements(p_entries)
+    LOOP
+        INSERT INTO transactions (
+            type, category, description, amount, currency, date, status,
+            reference_number, department_id, total_amount, approvals,
+            attachments, tags, notes, created_by
+        )
+        VALUES (
+            'expense',
+            v_entry->>'category',
+            v_entry->>'description',
+            (v_entry->>'amount')::DECIMAL,
+            'USD',
+            v_period.end_date,
+            'pending',
+            v_reference,
+            (v_entry->>'department_id')::UUID,
+            (v_entry->>'amount')::DECIMAL,
+            '[]'::JSONB,
+            '[]'::JSONB,
+            ARRAY['cost-allocation', v_entry->>'allocation_key'],
+            'Housing and transport cost allocation ' || v_allocation.id,
+            auth.uid()
+        )
+        RETURNING id INTO v_transaction_id;
+
+        INSERT INTO cost_allocation_entries (
+            allocation_id, transaction_id, allocation_key, department_id,
+            cost_center, category, amount
+        )
+        VALUES (
+            v_allocation.id,
+            v_transaction_id,
+            v_entry->>'allocation_key',
+            (v_entry->>'department_id')::UUID,
+            v_entry->>'cost_center',
+            v_entry->>'category',
+            (v_entry->>'amount')::DECIMAL
+        );
+    END LOOP;
+
+    RETURN v_allocation;
+END;
+$$ LANGUAGE 'plpgsql';
+
+-- Enable Row Level Security
+ALTER TABLE cost_allocations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE cost_allocation_entries ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+
+-- Policy: Allow administrators to manage cost allocations
+CREATE POLICY "Administrators can manage cost allocations" ON cost_allocations
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM auth.users
+            WHERE auth.users.id = auth.uid()
+            AND auth.users.raw_user_meta_data->>'role' = 'Administrator'
+        )
+    );
+
+-- Policy: Allow Finance to manage cost allocations
+CREATE POLICY "Finance can manage cost allocations" ON cost_allocations
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM auth.users
+            WHERE auth.users.id = auth.uid()
+            AND auth.users.raw_user_meta_data->>'role' IN ('Finance', 'Payroll')
+        )
+    );
+
+-- Policy: Allow HR to view cost allocations
+CREATE POLICY "HR can view cost allocations" ON cost_allocations
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM auth.users
+            WHERE auth.users.id = auth.uid()
+            AND auth.users.raw_user_meta_data->>'role' = 'HR'
+        )
+    );
+
+-- Policy: Allow administrators to manage allocation entries
+CREATE POLICY "Administrators can manage cost allocation entries" ON cost_allocation_entries
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM auth.users
+            WHERE auth.users.id = auth.uid()
+            AND auth.users.raw_user_meta_data->>'role' = 'Administrator'
+        )
+    );
+
+-- Policy: Allow Finance to manage allocation entries
+CREATE POLICY "Finance can manage cost allocation entries" ON cost_allocation_entries
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM auth.users
+            WHERE auth.users.id = auth.uid()
+            AND auth.users.raw_user_meta_data->>'role' IN ('Finance', 'Payroll')
+        )
+    );
+
+-- Policy: Allow HR to view allocation entries
+CREATE POLICY "HR can view cost allocation entries" ON cost_allocation_entries
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM auth.users
+            WHERE auth.users.id = auth.uid()
+            AND auth.users.raw_user_meta_data->>'role' = 'HR'
+        )
+    );
+
+-- Grant necessary permissions
+GRANT SELECT, INSERT, UPDATE ON cost_allocations TO authenticated;
+GRANT SELECT, INSERT ON cost_allocation_entries TO authenticated;
+GRANT EXECUTE ON FUNCTION post_cost_allocation(UUID, TEXT, TEXT, JSONB, JSONB) TO authenticated;
+
+-- Comments for documentation
+COMMENT ON TABLE cost_allocations IS 'Company-borne housing and transport costs of a billing period, allocated to departments or cost centres';
+COMMENT ON COLUMN cost_allocations.basis IS 'headcount = split by staff using each source; usage = by bed-nights or distance';
+COMMENT ON COLUMN cost_allocations.target IS 'department or cost_center';
+COMMENT ON COLUMN cost_allocations.status IS 'posted, or superseded by a later posting for the same period';
+COMMENT ON COLUMN cost_allocations.total_cost IS 'Housing and transport cost for the period';
+COMMENT ON COLUMN cost_allocations.total_recovered IS 'Charged to staff for the same sources';
+COMMENT ON COLUMN cost_allocations.total_allocated IS 'Posted to finance; cost less recoveries, source by source';
+COMMENT ON COLUMN cost_allocations.lines IS 'Per-source cost, recoveries and shares as previewed';
+COMMENT ON TABLE cost_allocation_entries IS 'Finance transactions written by a cost allocation';
+COMMENT ON COLUMN cost_allocation_entries.allocation_key IS 'Department name or cost centre the amount is booked to';
+COMMENT ON COLUMN cost_allocation_entries.category IS 'Transaction category (rent, utilities, maintenance, insurance, other_expense, travel)';
@@ -0,0 +1,82 @@
+-- Deduction Balances Table Schema
+-- This table is the ledger of amounts held back by deduction caps and later
+-- recovered; a staff member's outstanding balance is the sum of their entries
+
+-- Create the deduction_balances table
+CREATE TABLE IF NOT EXISTS deduction_balances (
+  -- Primary key
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  
+  -- Balance owner
+  staff_id UUID NOT NULL REFERENCES staff(id) ON DELETE RESTRICT,
+  charge_type VARCHAR(20) NOT NULL CHECK (charge_type IN ('rent', 'utilities', 'transport', 'other')),
+  
+  -- Movement (positive when held back, negative when recovered)
+  amount DECIMAL(10,2) NOT NULL CHECK (amount <> 0),
+  
+  -- Source (an export, or a ledger payment, credit or write-off that settled the balance)
+  billing_period_id UUID NULL REFERENCES billing_periods(id) ON DELETE RESTRICT,
+  payroll_export_id UUID NULL REFERENCES payroll_exports(id) ON DELETE CASCADE,
+  ledger_entry_id UUID NULL REFERENCES staff_ledger_entries(id) ON DELETE CASCADE,
+  
+  -- Audit fields
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_deduction_balances_staff ON deduction_balances(staff_id, charge_type);
+CREATE INDEX IF NOT EXISTS idx_deduction_balances_export ON deduction_balances(payroll_export_id);
+CREATE INDEX IF NOT EXISTS idx_deduction_balances_period ON deduction_balances(billing_period_id);
+CREATE INDEX IF NOT EXISTS idx_deduction_balances_ledger_entry ON deduction_balances(ledger_entry_id);
+
+-- Business rule constraints
+ALTER TABLE deduction_balances 
+ADD CONSTRAINT IF NOT EXISTS chk_deduction_balance_source 
+CHECK (billing_period_id IS NOT NULL OR ledger_entry_id IS NOT NULL);
+
+-- Enable Row Level Security
+ALTER TABLE deduction_balances ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+
+-- Policy: Allow administrators to manage all deduction balances
+CREATE POLICY "Administrators can manage all deduction balances" ON deduction_balances
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM auth.users 
+            WHERE auth.users.id = auth.uid() 
+            AND auth.users.raw_user_meta_data->>'role' = 'Administrator'
+        )
+    );
+
+-- Policy: Allow HR and Finance staff to manage all deduction balances
+CREATE POLICY "HR and Finance can manage all deduction balances" ON deduction_balances
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM auth.users 
+            WHERE auth.users.id = auth.uid() 
+            AND auth.users.raw_user_meta_data->>'role' IN ('HR', 'Finance', 'Payroll')
+        )
+    );
+
+-- Policy: Allow staff to view their own balance
+CREATE POLICY "Staff can view their own deduction balances" ON deduction_balances
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM staff 
+            WHERE staff.id = deduction_balances.staff_id 
+            AND staff.user_id = auth.uid()
+        )
+    );
+
+-- Grant necessary permissions
+GRANT ALL ON deduction_balances TO authenticated;
+
+-- Comments for documentation
+COMMENT ON TABLE deduction_balances IS 'Ledger of deductions held back by caps and later recovered';
+COMMENT ON COLUMN deduction_balances.staff_id IS 'Staff member who owes the balance';
+COMMENT ON COLUMN deduction_balances.charge_type IS 'Charge type the held-back amount belongs to';
+COMMENT ON COLUMN deduction_balances.amount IS 'Signed movement: positive when held back, negative when recovered';
+COMMENT ON COLUMN deduction_balances.billing_period_id IS 'Billing period whose export recorded the movement';
+COMMENT ON COLUMN deduction_balances.payroll_export_id IS 'Payroll export that recorded the movement';
+COMMENT ON COLUMN deduction_balances.ledger_entry_id IS 'Ledger payment, credit or write-off that settled part of the balance';
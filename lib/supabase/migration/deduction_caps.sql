@@ -0,0 +1,107 @@
+-- Deduction Caps Table Schema
+-- This table limits how much may be deducted from one paycheck, per charge
+-- type or in total, as a fixed amount or a percentage of gross pay
+
+-- Create the deduction_caps table
+CREATE TABLE IF NOT EXISTS deduction_caps (
+  -- Primary key
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  
+  -- Scope (NULL staff applies to everyone, NULL charge type caps the total)
+  staff_id UUID NULL REFERENCES staff(id) ON DELETE CASCADE,
+  charge_type VARCHAR(20) NULL CHECK (charge_type IN ('rent', 'utilities', 'transport', 'other')),
+  
+  -- Limit
+  cap_type VARCHAR(20) NOT NULL CHECK (cap_type IN ('fixed', 'percent_of_gross')),
+  amount DECIMAL(10,2) NOT NULL CHECK (amount >= 0),
+  
+  -- Effective dates
+  effective_from DATE NOT NULL,
+  effective_to DATE NULL,
+  
+  -- Additional information
+  notes TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  
+  -- Audit fields
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_deduction_caps_staff ON deduction_caps(staff_id);
+CREATE INDEX IF NOT EXISTS idx_deduction_caps_effective ON deduction_caps(effective_from, effective_to);
+
+-- Business rule constraints
+ALTER TABLE deduction_caps 
+ADD CONSTRAINT IF NOT EXISTS chk_deduction_cap_dates 
+CHECK (effective_to IS NULL OR effective_to >= effective_from);
+
+ALTER TABLE deduction_caps 
+ADD CONSTRAINT IF NOT EXISTS chk_deduction_cap_percent 
+CHECK (cap_type <> 'percent_of_gross' OR amount <= 100);
+
+-- Update trigger function
+CREATE OR REPLACE FUNCTION update_deduction_caps_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE 'plpgsql';
+
+-- Create trigger
+DROP TRIGGER IF EXISTS update_deduction_caps_updated_at ON deduction_caps;
+CREATE TRIGGER update_deduction_caps_updated_at 
+    BEFORE UPDATE ON deduction_caps 
+    FOR EACH ROW 
+    EXECUTE FUNCTION update_deduction_caps_updated_at();
+
+-- Enable Row Level Security
+ALTER TABLE deduction_caps ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+
+-- Policy: Allow administrators to manage all deduction caps
+CREATE POLICY "Administrators can manage all deduction caps" ON deduction_caps
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM auth.users 
+            WHERE auth.users.id = auth.uid() 
+            AND auth.users.raw_user_meta_data->>'role' = 'Administrator'
+        )
+    );
+
+-- Policy: Allow HR and Finance staff to manage all deduction caps
+CREATE POLICY "HR and Finance can manage all deduction caps" ON deduction_caps
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM auth.users 
+            WHERE auth.users.id = auth.uid() 
+            AND auth.users.raw_user_meta_data->>'role' IN ('HR', 'Finance', 'Payroll')
+        )
+    );
+
+-- Policy: Allow staff to view the caps that apply to them
+CREATE POLICY "Staff can view their own deduction caps" ON deduction_caps
+    FOR SELECT USING (
+        staff_id IS NULL OR
+        EXISTS (
+            SELECT 1 FROM staff 
+            WHERE staff.id = deduction_caps.staff_id 
+            AND staff.user_id = auth.uid()
+        )
+    );
+
+-- Grant necessary permissions
+GRANT ALL ON deduction_caps TO authenticated;
+
+-- Comments for documentation
+COMMENT ON TABLE deduction_caps IS 'Per-paycheck limits on payroll deductions';
+COMMENT ON COLUMN deduction_caps.staff_id IS 'Staff member the cap applies to; NULL for the default cap';
+COMMENT ON COLUMN deduction_caps.charge_type IS 'Charge type the cap limits; NULL caps the total deduction';
+COMMENT ON COLUMN deduction_caps.cap_type IS 'Fixed amount per paycheck or percentage of gross pay';
+COMMENT ON COLUMN deduction_caps.amount IS 'Cap amount in dollars, or percent for percent_of_gross';
+COMMENT ON COLUMN deduction_caps.effective_from IS 'First day the cap applies';
+COMMENT ON COLUMN deduction_caps.effective_to IS 'Last day the cap applies; NULL for open-ended';
+COMMENT ON COLUMN deduction_caps.created_by IS 'User who created the cap';
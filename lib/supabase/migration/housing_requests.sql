@@ -0,0 +1,223 @@
+-- Housing Requests Table Schema
+-- Staff requests for housing, a room change or a move-out, and other housing
+-- matters. Open requests for a room form the waitlist, ordered by priority,
+-- then requested date, then when they were made. Approving a request makes
+-- the assignment, transfer or move-out it asks for in the same transaction.
+
+-- Create the housing_requests table
+CREATE TABLE IF NOT EXISTS housing_requests (
+  -- Primary key
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- Foreign keys
+  staff_id UUID NOT NULL REFERENCES staff(id) ON DELETE CASCADE,
+
+  -- Request details
+  request_type VARCHAR(20) NOT NULL CHECK (request_type IN ('new_housing', 'room_change', 'move_out', 'maintenance', 'roommate_change', 'other')),
+  priority VARCHAR(10) NOT NULL DEFAULT 'medium' CHECK (priority IN ('low', 'medium', 'high')),
+  title VARCHAR(100) NOT NULL,
+  description TEXT NULL,
+  requested_start_date DATE NULL, -- move-in, move or move-out date
+  requested_end_date DATE NULL,
+
+  -- Preferences, used to rank matching rooms
+  preferred_property_id UUID NULL REFERENCES properties(id) ON DELETE SET NULL,
+  preferred_room_type VARCHAR(50) NULL,
+  preferred_amenities TEXT[] NOT NULL DEFAULT '{}',
+
+  -- The assignment a room change or move-out is about, and the one approval
+  -- made or changed
+  current_assignment_id UUID NULL REFERENCES room_assignments(id) ON DELETE SET NULL,
+  assignment_id UUID NULL REFERENCES room_assignments(id) ON DELETE SET NULL,
+
+  -- Status
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'under_review', 'waitlisted', 'approved', 'rejected', 'completed', 'cancelled')),
+
+  -- Review
+  response TEXT NULL,
+  reviewed_by UUID NULL REFERENCES auth.users(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMPTZ NULL,
+
+  -- Audit fields
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CHECK (requested_end_date IS NULL OR requested_start_date IS NULL OR requested_end_date >= requested_start_date)
+);
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_housing_requests_staff_id ON housing_requests(staff_id);
+CREATE INDEX IF NOT EXISTS idx_housing_requests_status ON housing_requests(status);
+CREATE INDEX IF NOT EXISTS idx_housing_requests_waitlist ON housing_requests(priority, requested_start_date, created_at)
+WHERE status IN ('pending', 'under_review', 'waitlisted');
+
+-- Update trigger function
+CREATE OR REPLACE FUNCTION update_housing_requests_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE 'plpgsql';
+
+-- Create trigger
+DROP TRIGGER IF EXISTS update_housing_requests_updated_at ON housing_requests;
+CREATE TRIGGER update_housing_requests_updated_at
+    BEFORE UPDATE ON housing_requests
+    FOR EACH ROW
+    EXECUTE FUNCTION update_housing_requests_updated_at();
+
+-- Approve an open request. New housing is assigned `p_room_id` (and
+-- `p_bed_id`) from the effective date; a room change is transferred there; a
+-- move-out ends the current assignment, with notice given on the day the
+-- request was made. Other requests are only marked approved. The effective
+-- date defaults to the requested date, or today once that has passed.
+-- Conflicts are checked by the room assignment trigger.
+CREATE OR REPLACE FUNCTION approve_housing_request(
+    p_request_id UUID,
+    p_room_id UUID DEFAULT NULL,
+    p_bed_id UUID DEFAULT NULL,
+    p_effective_date DATE DEFAULT NULL,
+    p_response TEXT DEFAULT NULL
+)
+RETURNS housing_requests AS $$
+DECLARE
+    v_request housing_requests;
+    v_current room_assignments;
+    v_to room_assignments;
+    v_date DATE;
+    v_assignment_id UUID;
+BEGIN
+    SELECT * INTO v_request FROM housing_requests WHERE id = p_request_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Housing request not found';
+    END IF;
+
+    IF v_request.status NOT IN ('pending', 'under_review', 'waitlisted') THEN
+        RAISE EXCEPTION 'Only open requests can be approved';
+    END IF;
+
+    v_date := COALESCE(p_effective_date, GREATEST(v_request.requested_start_date, CURRENT_DATE));
+
+    IF v_request.request_type IN ('new_housing', 'room_change') AND p_room_id IS NULL THEN
+        RAISE EXCEPTION 'Choose the room to assign';
+    END IF;
+
+    IF v_request.request_type IN ('room_change', 'move_out') THEN
+        SELECT * INTO v_current FROM room_assignments WHERE id = v_request.current_assignment_id;
+
+        IF NOT FOUND OR v_current.status <> 'active' THEN
+            RAISE EXCEPTION 'The staff member has no active assignment to change';
+        END IF;
+    END IF;
+
+    IF v_request.request_type = 'new_housing' THEN
+        INSERT INTO room_assignments (room_id, bed_id, staff_id, start_date, end_date, status, move_in_date)
+        VALUES (p_room_id, p_bed_id, v_request.staff_id, v_date, v_request.requested_end_date, 'active', v_date)
+        RETURNING id INTO v_assignment_id;
+
+        PERFORM refresh_room_occupancy(p_room_id);
+    ELSIF v_request.request_type = 'room_change' THEN
+        v_to := transfer_room_assignment(v_current.id, p_room_id, v_date, v_request.title, p_bed_id);
+        v_assignment_id := v_to.id;
+    ELSIF v_request.request_type = 'move_out' THEN
+        IF v_date <= assignment_first_night(v_current.start_date) THEN
+            RAISE EXCEPTION 'The move-out date must be after the assignment starts';
+        END IF;
+
+        IF v_current.end_date IS NOT NULL AND v_date > (v_current.end_date AT TIME ZONE 'UTC')::DATE THEN
+            RAISE EXCEPTION 'The assignment already ends before the move-out date';
+        END IF;
+
+        UPDATE room_assignments
+        SET end_date = v_date,
+            move_out_date = v_date,
+            move_out_notice_date = (v_request.created_at AT TIME ZONE 'UTC')::DATE,
+            status = CASE WHEN v_date <= CURRENT_DATE THEN 'completed' ELSE 'active' END
+        WHERE id = v_current.id;
+
+        PERFORM refresh_room_occupancy(v_current.room_id);
+        v_assignment_id := v_current.id;
+    END IF;
+
+    UPDATE housing_requests
+    SET status = 'approved',
+        assignment_id = v_assignment_id,
+        response = COALESCE(NULLIF(TRIM(p_response), ''), response),
+        reviewed_by = auth.uid(),
+        reviewed_at = NOW()
+    WHERE id = v_request.id
+    RETURNING * INTO v_request;
+
+    RETURN v_request;
+END;
+$$ LANGUAGE 'plpgsql';
+
+-- Enable Row Level Security
+ALTER TABLE housing_requests ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+
+-- Policy: Allow housing administrators to manage all requests
+CREATE POLICY "Housing administrators can manage all housing requests" ON housing_requests
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM auth.users
+            WHERE auth.users.id = auth.uid()
+            AND auth.users.raw_user_meta_data->>'role' IN ('Administrator', 'HR', 'Housing Manager')
+        )
+    );
+
+-- Policy: Allow staff to view their own requests
+CREATE POLICY "Staff can view their own housing requests" ON housing_requests
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM staff
+            WHERE staff.id = housing_requests.staff_id
+            AND staff.user_id = auth.uid()
+        )
+    );
+
+-- Policy: Allow staff to make requests for themselves, at the default
+-- priority so only reviewers can move a request up the waitlist
+CREATE POLICY "Staff can create their own housing requests" ON housing_requests
+    FOR INSERT WITH CHECK (
+        status = 'pending' AND
+        priority = 'medium' AND
+        EXISTS (
+            SELECT 1 FROM staff
+            WHERE staff.id = housing_requests.staff_id
+            AND staff.user_id = auth.uid()
+        )
+    );
+
+-- Policy: Allow staff to withdraw their own open requests
+CREATE POLICY "Staff can cancel their own open housing requests" ON housing_requests
+    FOR UPDATE USING (
+        status IN ('pending', 'under_review', 'waitlisted') AND
+        EXISTS (
+            SELECT 1 FROM staff
+            WHERE staff.id = housing_requests.staff_id
+            AND staff.user_id = auth.uid()
+        )
+    ) WITH CHECK (
+        status = 'cancelled'
+    );
+
+-- Grant necessary permissions
+GRANT ALL ON housing_requests TO authenticated;
+GRANT EXECUTE ON FUNCTION approve_housing_request(UUID, UUID, UUID, DATE, TEXT) TO authenticated;
+
+-- Comments for documentation
+COMMENT ON TABLE housing_requests IS 'Staff housing requests; open requests for a room form the waitlist';
+COMMENT ON COLUMN housing_requests.request_type IS 'Request type: new_housing, room_change, move_out, maintenance, roommate_change, other';
+COMMENT ON COLUMN housing_requests.priority IS 'Waitlist priority: low, medium, high';
+COMMENT ON COLUMN housing_requests.requested_start_date IS 'When the staff member wants to move in, move rooms or move out';
+COMMENT ON COLUMN housing_requests.preferred_amenities IS 'Amenities the staff member would like; they rank matches, never exclude them';
+COMMENT ON COLUMN housing_requests.current_assignment_id IS 'Assignment a room change or move-out is about';
+COMMENT ON COLUMN housing_requests.assignment_id IS 'Assignment made or changed when the request was approved';
+COMMENT ON COLUMN housing_requests.status IS 'Request status: pending, under_review, waitlisted, approved, rejected, completed, cancelled';
+COMMENT ON COLUMN housing_requests.response IS 'Reviewer response shown to the staff member';
+COMMENT ON FUNCTION approve_housing_request(UUID, UUID, UUID, DATE, TEXT) IS 'Approve a housing request and make the assignment, transfer or move-out it asks for';
@@ -0,0 +1,76 @@
+-- Imputed Income Lines Table Schema
+-- Housing charged below fair market rent is a taxable benefit. Each payroll
+-- export records the signed imputed income it reported per staff member, so
+-- later exports send only the difference and year-to-date totals can be
+-- reported
+
+-- Open-market monthly value of the accommodation a rate card covers
+ALTER TABLE rate_cards ADD COLUMN IF NOT EXISTS fair_market_rent DECIMAL(10,2) NULL CHECK (fair_market_rent > 0);
+
+-- Earnings code imputed income is reported under in each company's payroll
+ALTER TABLE payroll_format_mappings ADD COLUMN IF NOT EXISTS imputed_income_code VARCHAR(20) NULL;
+
+-- Create the imputed_income_lines table
+CREATE TABLE IF NOT EXISTS imputed_income_lines (
+  -- Primary key
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- Foreign keys
+  payroll_export_id UUID NOT NULL REFERENCES payroll_exports(id) ON DELETE CASCADE,
+  billing_period_id UUID NOT NULL REFERENCES billing_periods(id) ON DELETE RESTRICT,
+  staff_id UUID NOT NULL REFERENCES staff(id) ON DELETE RESTRICT,
+
+  -- Line details
+  line_type VARCHAR(20) NOT NULL CHECK (line_type IN ('original', 'adjustment', 'reversal', 'replacement')),
+  amount DECIMAL(10,2) NOT NULL, -- Signed; reversals are negative
+
+  -- What the subsidy was worked out from when the line was sent
+  market_value DECIMAL(10,2) NOT NULL DEFAULT 0,
+  rent_charged DECIMAL(10,2) NOT NULL DEFAULT 0,
+
+  -- Audit fields
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_imputed_income_lines_export ON imputed_income_lines(payroll_export_id);
+CREATE INDEX IF NOT EXISTS idx_imputed_income_lines_period ON imputed_income_lines(billing_period_id);
+CREATE INDEX IF NOT EXISTS idx_imputed_income_lines_staff ON imputed_income_lines(staff_id);
+
+-- Enable Row Level Security
+ALTER TABLE imputed_income_lines ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+
+-- Policy: Allow administrators to manage all imputed income lines
+CREATE POLICY "Administrators can manage all imputed income lines" ON imputed_income_lines
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM auth.users
+            WHERE auth.users.id = auth.uid()
+            AND auth.users.raw_user_meta_data->>'role' = 'Administrator'
+        )
+    );
+
+-- Policy: Allow HR and Finance staff to manage all imputed income lines
+CREATE POLICY "HR and Finance can manage all imputed income lines" ON imputed_income_lines
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM auth.users
+            WHERE auth.users.id = auth.uid()
+            AND auth.users.raw_user_meta_data->>'role' IN ('HR', 'Finance', 'Payroll')
+        )
+    );
+
+-- Grant necessary permissions
+GRANT SELECT, INSERT ON imputed_income_lines TO authenticated;
+
+-- Comments for documentation
+COMMENT ON COLUMN rate_cards.fair_market_rent IS 'Monthly open-market value; rent charged below it is reported as imputed income';
+COMMENT ON COLUMN payroll_format_mappings.imputed_income_code IS 'Earnings code for imputed income; IMP when not set';
+COMMENT ON TABLE imputed_income_lines IS 'Taxable housing subsidy reported to payroll by each export';
+COMMENT ON COLUMN imputed_income_lines.billing_period_id IS 'Main billing period the income is for, also when a corrections export sent it';
+COMMENT ON COLUMN imputed_income_lines.line_type IS 'original, adjustment (incremental delta), reversal or replacement';
+COMMENT ON COLUMN imputed_income_lines.amount IS 'Signed imputed income sent to payroll for the staff member';
+COMMENT ON COLUMN imputed_income_lines.market_value IS 'Fair market rent of the nights stayed in the period';
+COMMENT ON COLUMN imputed_income_lines.rent_charged IS 'Rent billed for the same nights, net of adjustments and dispute credits';
@@ -0,0 +1,95 @@
+-- Minimum Wage Rates Table Schema
+-- This table holds effective-dated federal and state minimum wage rates used
+-- to keep payroll deductions from taking pay below the wage floor
+
+-- Create the minimum_wage_rates table
+CREATE TABLE IF NOT EXISTS minimum_wage_rates (
+  -- Primary key
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  
+  -- Jurisdiction ('US' for federal, otherwise a two-letter state code)
+  jurisdiction CHAR(2) NOT NULL CHECK (jurisdiction ~ '^[A-Z]{2}$'),
+  
+  -- Rate
+  hourly_rate DECIMAL(6,2) NOT NULL CHECK (hourly_rate > 0),
+  
+  -- Effective dates
+  effective_from DATE NOT NULL,
+  effective_to DATE NULL,
+  
+  -- Additional information
+  notes TEXT,
+  
+  -- Audit fields
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- One rate per jurisdiction and start date
+CREATE UNIQUE INDEX IF NOT EXISTS idx_minimum_wage_rates_jurisdiction_from 
+ON minimum_wage_rates(jurisdiction, effective_from);
+
+-- Business rule constraints
+ALTER TABLE minimum_wage_rates 
+ADD CONSTRAINT IF NOT EXISTS chk_minimum_wage_dates 
+CHECK (effective_to IS NULL OR effective_to >= effective_from);
+
+-- Update trigger function
+CREATE OR REPLACE FUNCTION update_minimum_wage_rates_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE 'plpgsql';
+
+-- Create trigger
+DROP TRIGGER IF EXISTS update_minimum_wage_rates_updated_at ON minimum_wage_rates;
+CREATE TRIGGER update_minimum_wage_rates_updated_at 
+    BEFORE UPDATE ON minimum_wage_rates 
+    FOR EACH ROW 
+    EXECUTE FUNCTION update_minimum_wage_rates_updated_at();
+
+-- Enable Row Level Security
+ALTER TABLE minimum_wage_rates ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+
+-- Policy: Allow administrators to manage all minimum wage rates
+CREATE POLICY "Administrators can manage all minimum wage rates" ON minimum_wage_rates
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM auth.users 
+            WHERE auth.users.id = auth.uid() 
+            AND auth.users.raw_user_meta_data->>'role' = 'Administrator'
+        )
+    );
+
+-- Policy: Allow HR and Finance staff to manage all minimum wage rates
+CREATE POLICY "HR and Finance can manage all minimum wage rates" ON minimum_wage_rates
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM auth.users 
+            WHERE auth.users.id = auth.uid() 
+            AND auth.users.raw_user_meta_data->>'role' IN ('HR', 'Finance', 'Payroll')
+        )
+    );
+
+-- Policy: Allow any signed-in user to read the rates
+CREATE POLICY "Authenticated users can view minimum wage rates" ON minimum_wage_rates
+    FOR SELECT USING (auth.uid() IS NOT NULL);
+
+-- Grant necessary permissions
+GRANT ALL ON minimum_wage_rates TO authenticated;
+
+-- Federal rate under the FLSA
+INSERT INTO minimum_wage_rates (jurisdiction, hourly_rate, effective_from, notes)
+VALUES ('US', 7.25, '2009-07-24', 'Federal minimum wage (FLSA)')
+ON CONFLICT (jurisdiction, effective_from) DO NOTHING;
+
+-- Comments for documentation
+COMMENT ON TABLE minimum_wage_rates IS 'Effective-dated federal and state minimum wage rates';
+COMMENT ON COLUMN minimum_wage_rates.jurisdiction IS 'US for the federal rate, otherwise the two-letter state code';
+COMMENT ON COLUMN minimum_wage_rates.hourly_rate IS 'Minimum hourly wage';
+COMMENT ON COLUMN minimum_wage_rates.effective_from IS 'First day the rate applies';
+COMMENT ON COLUMN minimum_wage_rates.effective_to IS 'Last day the rate applies; NULL until superseded';
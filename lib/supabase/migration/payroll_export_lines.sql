@@ -0,0 +1,62 @@
+-- Payroll Export Lines Table Schema
+-- This table records the signed amount each export sent to payroll per charge,
+-- so later exports can send only the difference
+
+-- Create the payroll_export_lines table
+CREATE TABLE IF NOT EXISTS payroll_export_lines (
+  -- Primary key
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  
+  -- Foreign keys
+  payroll_export_id UUID NOT NULL REFERENCES payroll_exports(id) ON DELETE CASCADE,
+  charge_id UUID NOT NULL REFERENCES charges(id) ON DELETE RESTRICT,
+  staff_id UUID NOT NULL REFERENCES staff(id) ON DELETE RESTRICT,
+  
+  -- Line details
+  charge_type VARCHAR(50) NOT NULL,
+  line_type VARCHAR(20) NOT NULL CHECK (line_type IN ('original', 'adjustment', 'reversal', 'replacement')),
+  amount DECIMAL(10,2) NOT NULL, -- Signed; reversals are negative
+  
+  -- Audit fields
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_payroll_export_lines_export ON payroll_export_lines(payroll_export_id);
+CREATE INDEX IF NOT EXISTS idx_payroll_export_lines_charge ON payroll_export_lines(charge_id);
+CREATE INDEX IF NOT EXISTS idx_payroll_export_lines_staff ON payroll_export_lines(staff_id);
+
+-- Enable Row Level Security
+ALTER TABLE payroll_export_lines ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+
+-- Policy: Allow administrators to manage all payroll export lines
+CREATE POLICY "Administrators can manage all payroll export lines" ON payroll_export_lines
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM auth.users 
+            WHERE auth.users.id = auth.uid() 
+            AND auth.users.raw_user_meta_data->>'role' = 'Administrator'
+        )
+    );
+
+-- Policy: Allow HR and Finance staff to manage all payroll export lines
+CREATE POLICY "HR and Finance can manage all payroll export lines" ON payroll_export_lines
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM auth.users 
+            WHERE auth.users.id = auth.uid() 
+            AND auth.users.raw_user_meta_data->>'role' IN ('HR', 'Finance', 'Payroll')
+        )
+    );
+
+-- Grant necessary permissions
+GRANT SELECT, INSERT ON payroll_export_lines TO authenticated;
+
+-- Comments for documentation
+COMMENT ON TABLE payroll_export_lines IS 'Per-charge amounts sent to payroll by each export';
+COMMENT ON COLUMN payroll_export_lines.payroll_export_id IS 'Export the line was sent in';
+COMMENT ON COLUMN payroll_export_lines.charge_id IS 'Charge the line accounts for';
+COMMENT ON COLUMN payroll_export_lines.line_type IS 'original, adjustment (incremental delta), reversal or replacement';
+COMMENT ON COLUMN payroll_export_lines.amount IS 'Signed amount sent to payroll for the charge';
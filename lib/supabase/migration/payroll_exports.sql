@@ -11,7 +11,10 @@ CREATE TABLE IF NOT EXISTS payroll_exports (
   
   -- Export details
   export_type VARCHAR(50) NOT NULL DEFAULT 'full' CHECK (export_type IN ('full', 'incremental', 'corrections')),
-  format VARCHAR(20) NOT NULL DEFAULT 'csv' CHECK (format IN ('csv', 'excel', 'json', 'xml')),
+  format VARCHAR(20) NOT NULL DEFAULT 'csv' CHECK (format IN ('csv', 'excel', 'json', 'xml', 'txt')),
+  
+  -- Previous successful export in the period's chain that this one applies on top of
+  supersedes_export_id UUID NULL REFERENCES payroll_exports(id) ON DELETE RESTRICT,
   
   -- File information
   file_name VARCHAR(255) NOT NULL,
@@ -30,6 +33,11 @@ CREATE TABLE IF NOT EXISTS payroll_exports (
   completed_at TIMESTAMPTZ NULL,
   error_message TEXT NULL,
   
+  -- API delivery (exports pushed to the payroll provider instead of handed off as a file)
+  delivery_status VARCHAR(20) NOT NULL DEFAULT 'not_sent' CHECK (delivery_status IN ('not_sent', 'delivered', 'partial', 'failed')),
+  row_results JSONB NOT NULL DEFAULT '[]'::jsonb, -- Per-row [{employeeId, lineType, status, workerId, eventId, error, attempts, submittedAt}]
+  delivered_at TIMESTAMPTZ NULL, -- Last delivery attempt
+  
   -- Export metadata
   exported_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE RESTRICT,
   export_parameters JSONB NULL, -- Store export configuration/filters
@@ -48,6 +56,8 @@ CREATE INDEX IF NOT EXISTS idx_payroll_exports_status ON payroll_exports(status)
 CREATE INDEX IF NOT EXISTS idx_payroll_exports_exported_by ON payroll_exports(exported_by);
 CREATE INDEX IF NOT EXISTS idx_payroll_exports_created_at ON payroll_exports(created_at);
 CREATE INDEX IF NOT EXISTS idx_payroll_exports_type ON payroll_exports(export_type);
+CREATE INDEX IF NOT EXISTS idx_payroll_exports_supersedes ON payroll_exports(supersedes_export_id);
+CREATE INDEX IF NOT EXISTS idx_payroll_exports_delivery_status ON payroll_exports(delivery_status);
 
 -- Composite indexes for common queries
 CREATE INDEX IF NOT EXISTS idx_payroll_exports_period_status ON payroll_exports(billing_period_id, status);
@@ -66,6 +76,15 @@ ALTER TABLE payroll_exports
 ADD CONSTRAINT IF NOT EXISTS chk_total_records_positive 
 CHECK (total_records >= 0);
 
+ALTER TABLE payroll_exports 
+ADD CONSTRAINT IF NOT EXISTS chk_delta_exports_supersede 
+CHECK (export_type = 'full' OR supersedes_export_id IS NOT NULL);
+
+-- An export can only be superseded once, keeping the chain linear
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payroll_exports_single_successor 
+ON payroll_exports(supersedes_export_id) 
+WHERE supersedes_export_id IS NOT NULL AND status = 'completed';
+
 -- Update trigger function
 CREATE OR REPLACE FUNCTION update_payroll_exports_updated_at()
 RETURNS TRIGGER AS $$
@@ -176,6 +195,7 @@ COMMENT ON COLUMN payroll_exports.id IS 'Unique identifier for the export';
 COMMENT ON COLUMN payroll_exports.billing_period_id IS 'Reference to the billing period being exported';
 COMMENT ON COLUMN payroll_exports.export_type IS 'Type of export (full, incremental, corrections)';
 COMMENT ON COLUMN payroll_exports.format IS 'Export file format';
+COMMENT ON COLUMN payroll_exports.supersedes_export_id IS 'Previous export whose totals this incremental or corrections export adjusts';
 COMMENT ON COLUMN payroll_exports.file_name IS 'Name of the exported file';
 COMMENT ON COLUMN payroll_exports.file_path IS 'Path to the stored export file';
 COMMENT ON COLUMN payroll_exports.file_size IS 'Size of the export file in bytes';
@@ -185,6 +205,9 @@ COMMENT ON COLUMN payroll_exports.status IS 'Current status of the export';
 COMMENT ON COLUMN payroll_exports.started_at IS 'Timestamp when export processing started';
 COMMENT ON COLUMN payroll_exports.completed_at IS 'Timestamp when export was completed';
 COMMENT ON COLUMN payroll_exports.error_message IS 'Error message if export failed';
+COMMENT ON COLUMN payroll_exports.delivery_status IS 'Outcome of pushing the export rows to the payroll provider API';
+COMMENT ON COLUMN payroll_exports.row_results IS 'Latest per-row result of API delivery, used to retry only failed rows';
+COMMENT ON COLUMN payroll_exports.delivered_at IS 'Timestamp of the last API delivery attempt';
 COMMENT ON COLUMN payroll_exports.exported_by IS 'User who initiated the export';
 COMMENT ON COLUMN payroll_exports.export_parameters IS 'JSON configuration used for the export';
 COMMENT ON COLUMN payroll_exports.checksum IS 'File checksum for integrity verification';
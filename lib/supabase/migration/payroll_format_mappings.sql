@@ -0,0 +1,87 @@
+-- Payroll Format Mappings Table Schema
+-- This table stores each company's column layout and deduction codes for a
+-- payroll file format (ADP, Paychex, fixed-width, XML, XLSX)
+
+-- Create the payroll_format_mappings table
+CREATE TABLE IF NOT EXISTS payroll_format_mappings (
+  -- Primary key
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  
+  -- Mapping identity
+  company_code VARCHAR(20) NOT NULL,
+  format VARCHAR(30) NOT NULL CHECK (format IN ('standard_csv', 'adp_csv', 'paychex_csv', 'fixed_width', 'xml', 'xlsx')),
+  
+  -- Layout
+  columns JSONB NOT NULL DEFAULT '[]'::jsonb, -- Ordered [{field, header, width, align, dateFormat, value}]
+  deduction_codes JSONB NOT NULL DEFAULT '{}'::jsonb, -- {rent: 'HSG', utilities: 'UTL', ...}
+  batch_id VARCHAR(20) NULL,
+  
+  -- Audit fields
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- One mapping per company and format
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payroll_format_mappings_company_format 
+ON payroll_format_mappings(company_code, format);
+
+-- Business rule constraints
+ALTER TABLE payroll_format_mappings 
+ADD CONSTRAINT IF NOT EXISTS chk_columns_is_array 
+CHECK (jsonb_typeof(columns) = 'array');
+
+ALTER TABLE payroll_format_mappings 
+ADD CONSTRAINT IF NOT EXISTS chk_deduction_codes_is_object 
+CHECK (jsonb_typeof(deduction_codes) = 'object');
+
+-- Update trigger function
+CREATE OR REPLACE FUNCTION update_payroll_format_mappings_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE 'plpgsql';
+
+-- Create trigger
+DROP TRIGGER IF EXISTS update_payroll_format_mappings_updated_at ON payroll_format_mappings;
+CREATE TRIGGER update_payroll_format_mappings_updated_at 
+    BEFORE UPDATE ON payroll_format_mappings 
+    FOR EACH ROW 
+    EXECUTE FUNCTION update_payroll_format_mappings_updated_at();
+
+-- Enable Row Level Security
+ALTER TABLE payroll_format_mappings ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+
+-- Policy: Allow administrators to manage all payroll format mappings
+CREATE POLICY "Administrators can manage all payroll format mappings" ON payroll_format_mappings
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM auth.users 
+            WHERE auth.users.id = auth.uid() 
+            AND auth.users.raw_user_meta_data->>'role' = 'Administrator'
+        )
+    );
+
+-- Policy: Allow HR and Finance staff to manage all payroll format mappings
+CREATE POLICY "HR and Finance can manage all payroll format mappings" ON payroll_format_mappings
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM auth.users 
+            WHERE auth.users.id = auth.uid() 
+            AND auth.users.raw_user_meta_data->>'role' IN ('HR', 'Finance', 'Payroll')
+        )
+    );
+
+-- Grant necessary permissions
+GRANT ALL ON payroll_format_mappings TO authenticated;
+
+-- Comments for documentation
+COMMENT ON TABLE payroll_format_mappings IS 'Per-company column and deduction code mapping for payroll file formats';
+COMMENT ON COLUMN payroll_format_mappings.company_code IS 'Payroll company code the mapping applies to';
+COMMENT ON COLUMN payroll_format_mappings.format IS 'Payroll file format adapter';
+COMMENT ON COLUMN payroll_format_mappings.columns IS 'Ordered output columns and the field each is filled from';
+COMMENT ON COLUMN payroll_format_mappings.deduction_codes IS 'Payroll deduction code for each charge type';
+COMMENT ON COLUMN payroll_format_mappings.batch_id IS 'Batch identifier written to files that carry one';
@@ -0,0 +1,72 @@
+-- Payroll Hours Table Schema
+-- This table holds hours worked and gross pay for the paycheck each billing
+-- period is deducted from, imported from ADP or an uploaded file
+
+-- Create the payroll_hours table
+CREATE TABLE IF NOT EXISTS payroll_hours (
+  -- Primary key
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  
+  -- Foreign keys
+  staff_id UUID NOT NULL REFERENCES staff(id) ON DELETE CASCADE,
+  billing_period_id UUID NOT NULL REFERENCES billing_periods(id) ON DELETE CASCADE,
+  
+  -- Pay details
+  hours_worked DECIMAL(7,2) NOT NULL CHECK (hours_worked >= 0),
+  gross_pay DECIMAL(10,2) NOT NULL CHECK (gross_pay >= 0),
+  
+  -- Source
+  source VARCHAR(20) NOT NULL CHECK (source IN ('adp', 'upload', 'manual')),
+  imported_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  imported_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- One record per staff member and period; re-importing replaces it
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payroll_hours_staff_period 
+ON payroll_hours(staff_id, billing_period_id);
+CREATE INDEX IF NOT EXISTS idx_payroll_hours_period ON payroll_hours(billing_period_id);
+
+-- Enable Row Level Security
+ALTER TABLE payroll_hours ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+
+-- Policy: Allow administrators to manage all payroll hours
+CREATE POLICY "Administrators can manage all payroll hours" ON payroll_hours
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM auth.users 
+            WHERE auth.users.id = auth.uid() 
+            AND auth.users.raw_user_meta_data->>'role' = 'Administrator'
+        )
+    );
+
+-- Policy: Allow HR and Finance staff to manage all payroll hours
+CREATE POLICY "HR and Finance can manage all payroll hours" ON payroll_hours
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM auth.users 
+            WHERE auth.users.id = auth.uid() 
+            AND auth.users.raw_user_meta_data->>'role' IN ('HR', 'Finance', 'Payroll')
+        )
+    );
+
+-- Policy: Allow staff to view their own hours
+CREATE POLICY "Staff can view their own payroll hours" ON payroll_hours
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM staff 
+            WHERE staff.id = payroll_hours.staff_id 
+            AND staff.user_id = auth.uid()
+        )
+    );
+
+-- Grant necessary permissions
+GRANT ALL ON payroll_hours TO authenticated;
+
+-- Comments for documentation
+COMMENT ON TABLE payroll_hours IS 'Hours worked and gross pay per staff member for minimum wage checks';
+COMMENT ON COLUMN payroll_hours.billing_period_id IS 'Billing period (never a corrections sub-period) whose paycheck the hours belong to';
+COMMENT ON COLUMN payroll_hours.hours_worked IS 'Hours worked in the pay period';
+COMMENT ON COLUMN payroll_hours.gross_pay IS 'Gross pay before deductions';
+COMMENT ON COLUMN payroll_hours.source IS 'Where the figures came from: ADP time and attendance, an uploaded file, or manual entry';
@@ -0,0 +1,99 @@
+-- Property Costs Schema
+-- Monthly running costs of each property (lease, maintenance, insurance and
+-- services). Cost allocation compares them with the rent staff are charged
+-- and spreads the rest across departments
+
+-- Create the property_costs table
+CREATE TABLE IF NOT EXISTS property_costs (
+  -- Primary key
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- Foreign key
+  property_id UUID NOT NULL REFERENCES properties(id) ON DELETE CASCADE,
+
+  -- Cost details
+  category VARCHAR(20) NOT NULL CHECK (category IN ('lease', 'maintenance', 'insurance', 'services')),
+  description VARCHAR(255) NULL,
+  monthly_amount DECIMAL(10,2) NOT NULL CHECK (monthly_amount > 0),
+
+  -- Effective dates (inclusive; NULL effective_to = open-ended)
+  effective_from DATE NOT NULL,
+  effective_to DATE NULL,
+
+  -- Additional information
+  notes TEXT,
+
+  -- Audit fields
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_property_costs_property ON property_costs(property_id);
+CREATE INDEX IF NOT EXISTS idx_property_costs_effective ON property_costs(effective_from, effective_to);
+
+-- Business rule constraints
+ALTER TABLE property_costs
+ADD CONSTRAINT IF NOT EXISTS chk_property_cost_dates
+CHECK (effective_to IS NULL OR effective_to >= effective_from);
+
+-- Update trigger function
+CREATE OR REPLACE FUNCTION update_property_costs_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE 'plpgsql';
+
+-- Create trigger
+DROP TRIGGER IF EXISTS update_property_costs_updated_at ON property_costs;
+CREATE TRIGGER update_property_costs_updated_at
+    BEFORE UPDATE ON property_costs
+    FOR EACH ROW
+    EXECUTE FUNCTION update_property_costs_updated_at();
+
+-- Enable Row Level Security
+ALTER TABLE property_costs ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+
+-- Policy: Allow administrators to manage property costs
+CREATE POLICY "Administrators can manage property costs" ON property_costs
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM auth.users
+            WHERE auth.users.id = auth.uid()
+            AND auth.users.raw_user_meta_data->>'role' = 'Administrator'
+        )
+    );
+
+-- Policy: Allow Finance and housing managers to manage property costs
+CREATE POLICY "Finance can manage property costs" ON property_costs
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM auth.users
+            WHERE auth.users.id = auth.uid()
+            AND auth.users.raw_user_meta_data->>'role' IN ('Finance', 'Payroll', 'Housing Manager')
+        )
+    );
+
+-- Policy: Allow HR to view property costs
+CREATE POLICY "HR can view property costs" ON property_costs
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM auth.users
+            WHERE auth.users.id = auth.uid()
+            AND auth.users.raw_user_meta_data->>'role' = 'HR'
+        )
+    );
+
+-- Grant necessary permissions
+GRANT ALL ON property_costs TO authenticated;
+
+-- Comments for documentation
+COMMENT ON TABLE property_costs IS 'Monthly running costs of properties, used for cost allocation';
+COMMENT ON COLUMN property_costs.category IS 'lease, maintenance, insurance or services';
+COMMENT ON COLUMN property_costs.monthly_amount IS 'Cost per calendar month; prorated by day for partial months';
+COMMENT ON COLUMN property_costs.effective_from IS 'First day the cost applies';
+COMMENT ON COLUMN property_costs.effective_to IS 'Last day the cost applies; NULL = ongoing';
@@ -0,0 +1,229 @@
+-- Rate Cards Table Schema
+-- This table manages effective-dated rent rates for housing charge generation
+
+-- Rooms can be grouped by type so a single rate covers e.g. every "double" in a property
+ALTER TABLE rooms ADD COLUMN IF NOT EXISTS room_type VARCHAR(50) NULL;
+
+-- Needed for the no-overlap exclusion constraint below
+CREATE EXTENSION IF NOT EXISTS btree_gist;
+
+-- Create the rate_cards table
+CREATE TABLE IF NOT EXISTS rate_cards (
+  -- Primary key
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- Rate target
+  scope VARCHAR(20) NOT NULL CHECK (scope IN ('property', 'room_type', 'room')),
+  property_id UUID NULL REFERENCES properties(id) ON DELETE CASCADE,
+  room_type VARCHAR(50) NULL,
+  room_id UUID NULL REFERENCES rooms(id) ON DELETE CASCADE,
+
+  -- Rate details
+  monthly_rate DECIMAL(10,2) NOT NULL CHECK (monthly_rate > 0),
+  proration_method VARCHAR(20) NULL CHECK (proration_method IN ('daily', 'thirty_day_month', 'thirty_360', 'whole_week')),
+
+  -- Effective dates (inclusive, open-ended when effective_to is NULL)
+  effective_from DATE NOT NULL,
+  effective_to DATE NULL,
+
+  -- Notes
+  notes TEXT NULL,
+
+  -- Audit fields
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- The rate a new card closed when it was scheduled, and where that rate ended
+-- before, so deleting the new card can hand the dates back
+ALTER TABLE rate_cards ADD COLUMN IF NOT EXISTS supersedes_rate_card_id UUID NULL REFERENCES rate_cards(id) ON DELETE SET NULL;
+ALTER TABLE rate_cards ADD COLUMN IF NOT EXISTS supersedes_effective_to DATE NULL;
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_rate_cards_property ON rate_cards(property_id);
+CREATE INDEX IF NOT EXISTS idx_rate_cards_room ON rate_cards(room_id);
+CREATE INDEX IF NOT EXISTS idx_rate_cards_effective ON rate_cards(effective_from, effective_to);
+
+-- Business rule constraints
+ALTER TABLE rate_cards
+ADD CONSTRAINT IF NOT EXISTS chk_rate_card_effective_dates
+CHECK (effective_to IS NULL OR effective_to >= effective_from);
+
+ALTER TABLE rate_cards
+ADD CONSTRAINT IF NOT EXISTS chk_rate_card_target
+CHECK (
+  (scope = 'property' AND property_id IS NOT NULL AND room_type IS NULL AND room_id IS NULL) OR
+  (scope = 'room_type' AND property_id IS NOT NULL AND room_type IS NOT NULL AND room_id IS NULL) OR
+  (scope = 'room' AND room_id IS NOT NULL)
+);
+
+-- Prevent two rates for the same target being in force on the same day
+ALTER TABLE rate_cards
+ADD CONSTRAINT IF NOT EXISTS excl_rate_cards_no_overlap
+EXCLUDE USING gist (
+  scope WITH =,
+  COALESCE(property_id, '00000000-0000-0000-0000-000000000000'::uuid) WITH =,
+  COALESCE(room_type, '') WITH =,
+  COALESCE(room_id, '00000000-0000-0000-0000-000000000000'::uuid) WITH =,
+  daterange(effective_from, effective_to, '[]') WITH &&
+);
+
+-- Update trigger function
+CREATE OR REPLACE FUNCTION update_rate_cards_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE 'plpgsql';
+
+-- Create trigger
+DROP TRIGGER IF EXISTS update_rate_cards_updated_at ON rate_cards;
+CREATE TRIGGER update_rate_cards_updated_at
+    BEFORE UPDATE ON rate_cards
+    FOR EACH ROW
+    EXECUTE FUNCTION update_rate_cards_updated_at();
+
+-- Schedule a rate. The rate in force on the target the day the new one starts
+-- is closed the day before, in the same transaction as the insert, and the new
+-- card remembers where that rate ended so deleting it can hand the dates back.
+CREATE OR REPLACE FUNCTION create_rate_card(p_rate_card JSONB)
+RETURNS rate_cards AS $$
+DECLARE
+    v_card rate_cards;
+    v_superseded rate_cards;
+BEGIN
+    v_card := jsonb_populate_record(NULL::rate_cards, p_rate_card);
+
+    -- Lock the target's rates so two schedules cannot close the same one
+    PERFORM 1 FROM rate_cards
+    WHERE scope = v_card.scope
+    AND property_id IS NOT DISTINCT FROM v_card.property_id
+    AND room_type IS NOT DISTINCT FROM v_card.room_type
+    AND room_id IS NOT DISTINCT FROM v_card.room_id
+    FOR UPDATE;
+
+    SELECT * INTO v_superseded FROM rate_cards
+    WHERE scope = v_card.scope
+    AND property_id IS NOT DISTINCT FROM v_card.property_id
+    AND room_type IS NOT DISTINCT FROM v_card.room_type
+    AND room_id IS NOT DISTINCT FROM v_card.room_id
+    AND effective_from < v_card.effective_from
+    AND (effective_to IS NULL OR effective_to >= v_card.effective_from);
+
+    IF EXISTS (
+        SELECT 1 FROM rate_cards
+        WHERE scope = v_card.scope
+        AND property_id IS NOT DISTINCT FROM v_card.property_id
+        AND room_type IS NOT DISTINCT FROM v_card.room_type
+        AND room_id IS NOT DISTINCT FROM v_card.room_id
+        AND effective_from >= v_card.effective_from
+        AND (v_card.effective_to IS NULL OR effective_from <= v_card.effective_to)
+    ) THEN
+        RAISE EXCEPTION 'A later rate is already scheduled for this target; edit or remove it first';
+    END IF;
+
+    IF v_superseded.id IS NOT NULL THEN
+        UPDATE rate_cards
+        SET effective_to = v_card.effective_from - 1
+        WHERE id = v_superseded.id;
+    END IF;
+
+    INSERT INTO rate_cards (
+        scope, property_id, room_type, room_id, monthly_rate, fair_market_rent,
+        proration_method, effective_from, effective_to, notes,
+        supersedes_rate_card_id, supersedes_effective_to
+    )
+    VALUES (
+        v_card.scope, v_card.property_id, v_card.room_type, v_card.room_id,
+        v_card.monthly_rate, v_card.fair_market_rent, v_card.proration_method,
+        v_card.effective_from, v_card.effective_to, v_card.notes,
+        v_superseded.id, v_superseded.effective_to
+    )
+    RETURNING * INTO v_card;
+
+    RETURN v_card;
+END;
+$$ LANGUAGE 'plpgsql';
+
+-- Delete a scheduled rate. When it closed an earlier rate, that rate gets its
+-- previous end date back in the same transaction so coverage has no gap.
+CREATE OR REPLACE FUNCTION delete_rate_card(p_rate_card_id UUID)
+RETURNS VOID AS $$
+DECLARE
+    v_card rate_cards;
+BEGIN
+    SELECT * INTO v_card FROM rate_cards WHERE id = p_rate_card_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Rate card not found';
+    END IF;
+
+    IF v_card.effective_from <= CURRENT_DATE THEN
+        RAISE EXCEPTION 'Rates already in force cannot be deleted; schedule a new rate instead';
+    END IF;
+
+    DELETE FROM rate_cards WHERE id = v_card.id;
+
+    -- Only while the earlier rate still ends where this one closed it
+    UPDATE rate_cards
+    SET effective_to = v_card.supersedes_effective_to
+    WHERE id = v_card.supersedes_rate_card_id
+    AND effective_to = v_card.effective_from - 1;
+END;
+$$ LANGUAGE 'plpgsql';
+
+-- Enable Row Level Security
+ALTER TABLE rate_cards ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+
+-- Policy: Allow administrators to manage all rate cards
+CREATE POLICY "Administrators can manage all rate cards" ON rate_cards
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM auth.users
+            WHERE auth.users.id = auth.uid()
+            AND auth.users.raw_user_meta_data->>'role' = 'Administrator'
+        )
+    );
+
+-- Policy: Allow housing managers and finance to manage rate cards
+CREATE POLICY "Housing Managers and Finance can manage rate cards" ON rate_cards
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM auth.users
+            WHERE auth.users.id = auth.uid()
+            AND auth.users.raw_user_meta_data->>'role' IN ('Housing Manager', 'Finance')
+        )
+    );
+
+-- Policy: Allow any authenticated user to read rates
+CREATE POLICY "Authenticated users can view rate cards" ON rate_cards
+    FOR SELECT USING (auth.uid() IS NOT NULL);
+
+-- Grant necessary permissions
+GRANT ALL ON rate_cards TO authenticated;
+GRANT EXECUTE ON FUNCTION create_rate_card(JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION delete_rate_card(UUID) TO authenticated;
+
+-- Comments for documentation
+COMMENT ON TABLE rate_cards IS 'Effective-dated monthly rent rates per property, room type or room';
+COMMENT ON COLUMN rate_cards.id IS 'Unique identifier for the rate card';
+COMMENT ON COLUMN rate_cards.scope IS 'What the rate applies to: property, room_type or room';
+COMMENT ON COLUMN rate_cards.property_id IS 'Property the rate applies to (property and room_type scopes)';
+COMMENT ON COLUMN rate_cards.room_type IS 'Room type the rate applies to (room_type scope)';
+COMMENT ON COLUMN rate_cards.room_id IS 'Room the rate applies to (room scope)';
+COMMENT ON COLUMN rate_cards.monthly_rate IS 'Monthly rent; prorated for part months by proration_method';
+COMMENT ON COLUMN rate_cards.proration_method IS 'daily, thirty_day_month, thirty_360 or whole_week (NULL = system default)';
+COMMENT ON COLUMN rate_cards.effective_from IS 'First day the rate is in force';
+COMMENT ON COLUMN rate_cards.effective_to IS 'Last day the rate is in force (NULL = until superseded)';
+COMMENT ON COLUMN rate_cards.supersedes_rate_card_id IS 'Earlier rate this card closed when it was scheduled';
+COMMENT ON COLUMN rate_cards.supersedes_effective_to IS 'End date the earlier rate had before it was closed (NULL = open-ended)';
+COMMENT ON COLUMN rate_cards.notes IS 'Reason for the rate or rate change';
+COMMENT ON COLUMN rate_cards.created_by IS 'User who created the rate card';
+COMMENT ON COLUMN rate_cards.created_at IS 'Record creation timestamp';
+COMMENT ON COLUMN rate_cards.updated_at IS 'Record last update timestamp';
+COMMENT ON FUNCTION create_rate_card(JSONB) IS 'Schedule a rate and close the rate it supersedes';
+COMMENT ON FUNCTION delete_rate_card(UUID) IS 'Delete a scheduled rate and reopen the rate it superseded';
@@ -0,0 +1,124 @@
+-- Recurring Charges Table Schema
+-- This table holds charge templates such as meal plans, parking and equipment
+-- rental. Every charge run turns each active template into one 'other' charge
+-- per billing period for the staff member, or every active member of the
+-- department, it applies to. The charges' source_id is the template
+
+-- Create the recurring_charges table
+CREATE TABLE IF NOT EXISTS recurring_charges (
+  -- Primary key
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- Charge details
+  name VARCHAR(100) NOT NULL,
+  category VARCHAR(20) NOT NULL DEFAULT 'other' CHECK (category IN ('meal_plan', 'parking', 'equipment_rental', 'other')),
+
+  -- Target
+  scope VARCHAR(20) NOT NULL CHECK (scope IN ('staff', 'department')),
+  staff_id UUID NULL REFERENCES staff(id) ON DELETE CASCADE,
+  department VARCHAR(100) NULL,
+
+  -- Amount, due once per frequency
+  amount DECIMAL(10,2) NOT NULL CHECK (amount > 0),
+  frequency VARCHAR(20) NOT NULL DEFAULT 'per_period' CHECK (frequency IN ('per_period', 'weekly', 'monthly')),
+
+  -- Schedule (both days included; no end date = until stopped)
+  start_date DATE NOT NULL,
+  end_date DATE NULL,
+  prorate BOOLEAN NOT NULL DEFAULT true,
+
+  -- Status
+  is_active BOOLEAN NOT NULL DEFAULT true,
+
+  -- Additional information
+  notes TEXT,
+
+  -- Audit fields
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_recurring_charges_staff ON recurring_charges(staff_id) WHERE scope = 'staff';
+CREATE INDEX IF NOT EXISTS idx_recurring_charges_department ON recurring_charges(department) WHERE scope = 'department';
+CREATE INDEX IF NOT EXISTS idx_recurring_charges_dates ON recurring_charges(start_date, end_date) WHERE is_active;
+
+-- Business rule constraints
+ALTER TABLE recurring_charges
+ADD CONSTRAINT IF NOT EXISTS chk_recurring_charge_target
+CHECK (
+  (scope = 'staff' AND staff_id IS NOT NULL AND department IS NULL) OR
+  (scope = 'department' AND department IS NOT NULL AND staff_id IS NULL)
+);
+
+ALTER TABLE recurring_charges
+ADD CONSTRAINT IF NOT EXISTS chk_recurring_charge_dates
+CHECK (end_date IS NULL OR end_date >= start_date);
+
+-- Update trigger function
+CREATE OR REPLACE FUNCTION update_recurring_charges_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE 'plpgsql';
+
+-- Create trigger
+DROP TRIGGER IF EXISTS update_recurring_charges_updated_at ON recurring_charges;
+CREATE TRIGGER update_recurring_charges_updated_at
+    BEFORE UPDATE ON recurring_charges
+    FOR EACH ROW
+    EXECUTE FUNCTION update_recurring_charges_updated_at();
+
+-- Enable Row Level Security
+ALTER TABLE recurring_charges ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+
+-- Policy: Allow administrators to manage all recurring charges
+CREATE POLICY "Administrators can manage all recurring charges" ON recurring_charges
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM auth.users
+            WHERE auth.users.id = auth.uid()
+            AND auth.users.raw_user_meta_data->>'role' = 'Administrator'
+        )
+    );
+
+-- Policy: Allow HR and Finance staff to manage all recurring charges
+CREATE POLICY "HR and Finance can manage all recurring charges" ON recurring_charges
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM auth.users
+            WHERE auth.users.id = auth.uid()
+            AND auth.users.raw_user_meta_data->>'role' IN ('HR', 'Finance', 'Payroll')
+        )
+    );
+
+-- Policy: Allow staff to view the recurring charges that apply to them
+CREATE POLICY "Staff can view their own recurring charges" ON recurring_charges
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM staff
+            WHERE staff.user_id = auth.uid()
+            AND (
+                staff.id = recurring_charges.staff_id OR
+                staff.department = recurring_charges.department
+            )
+        )
+    );
+
+-- Grant necessary permissions
+GRANT ALL ON recurring_charges TO authenticated;
+
+-- Comments for documentation
+COMMENT ON TABLE recurring_charges IS 'Charge templates the charge run materializes into every billing period';
+COMMENT ON COLUMN recurring_charges.category IS 'meal_plan, parking, equipment_rental or other; charged as charge type other';
+COMMENT ON COLUMN recurring_charges.scope IS 'staff (one staff member) or department (every active member)';
+COMMENT ON COLUMN recurring_charges.amount IS 'Amount due once per frequency';
+COMMENT ON COLUMN recurring_charges.frequency IS 'per_period, weekly or monthly';
+COMMENT ON COLUMN recurring_charges.start_date IS 'First day the charge applies';
+COMMENT ON COLUMN recurring_charges.end_date IS 'Last day the charge applies; NULL = until stopped';
+COMMENT ON COLUMN recurring_charges.prorate IS 'Charge periods the schedule only partly covers in proportion, rather than in full';
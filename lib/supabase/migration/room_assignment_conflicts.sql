@@ -0,0 +1,270 @@
+-- Room Assignment Conflict Checks
+-- Active and pending assignments may not give a staff member two rooms on the
+-- same night, put more people in a room than it holds on any night, or place
+-- anyone in a room under maintenance or out of order. An assignment that names
+-- a bed also may not share it with another stay or use a bed out of service.
+-- These are the rules of lib/housing/assignment-conflicts.ts; keep the two in
+-- step. Run after beds.sql.
+--
+-- An assignment takes the nights from its start date up to its end date, or
+-- every night from its start when it has no end date. Days are UTC calendar
+-- days, as in the app.
+
+-- The old index only stopped two assignments having exactly the same dates,
+-- which blocked sharing a room without preventing real overlaps
+DROP INDEX IF EXISTS idx_room_assignments_no_overlap;
+
+-- First night of a stay
+CREATE OR REPLACE FUNCTION assignment_first_night(p_start_date TIMESTAMPTZ)
+RETURNS DATE AS $$
+    SELECT (p_start_date AT TIME ZONE 'UTC')::DATE;
+$$ LANGUAGE 'sql' IMMUTABLE;
+
+-- Day after the last night of a stay; infinity when open-ended. A stay that
+-- starts and ends on the same day still takes that night.
+CREATE OR REPLACE FUNCTION assignment_last_night_end(p_start_date TIMESTAMPTZ, p_end_date TIMESTAMPTZ)
+RETURNS DATE AS $$
+    SELECT GREATEST(
+        COALESCE((p_end_date AT TIME ZONE 'UTC')::DATE, 'infinity'::DATE),
+        assignment_first_night(p_start_date) + 1
+    );
+$$ LANGUAGE 'sql' IMMUTABLE;
+
+-- Housing policy the database enforces. One row; the app reads the same row,
+-- so changing the cap here changes it everywhere.
+CREATE TABLE IF NOT EXISTS housing_settings (
+  id BOOLEAN PRIMARY KEY DEFAULT TRUE CHECK (id),
+  max_occupancy_per_room INTEGER NOT NULL DEFAULT 4 CHECK (max_occupancy_per_room > 0),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+INSERT INTO housing_settings (id) VALUES (TRUE) ON CONFLICT (id) DO NOTHING;
+
+-- People a room can take: its own capacity, capped by
+-- housing_settings.max_occupancy_per_room and, once its beds are recorded, by
+-- the beds in service. This is roomCapacity in the app.
+CREATE OR REPLACE FUNCTION room_capacity(p_room_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+    v_capacity INTEGER;
+    v_max_occupancy INTEGER;
+    v_beds INTEGER;
+    v_beds_in_service INTEGER;
+BEGIN
+    SELECT capacity INTO v_capacity FROM rooms WHERE id = p_room_id;
+    SELECT max_occupancy_per_room INTO v_max_occupancy FROM housing_settings;
+
+    SELECT COUNT(*), COUNT(*) FILTER (WHERE b.status = 'in_service')
+    INTO v_beds, v_beds_in_service
+    FROM beds b
+    WHERE b.room_id = p_room_id;
+
+    RETURN CASE
+        WHEN v_beds > 0 THEN LEAST(v_capacity, v_max_occupancy, v_beds_in_service)
+        ELSE LEAST(v_capacity, v_max_occupancy)
+    END;
+END;
+$$ LANGUAGE 'plpgsql' STABLE;
+
+-- Everything that stops a stay going ahead, one row per clash. Capacity clashes
+-- are reported per day. `p_exclude_id` leaves out the assignment being changed.
+DROP FUNCTION IF EXISTS room_assignment_conflicts(UUID, UUID, TIMESTAMPTZ, TIMESTAMPTZ, UUID);
+CREATE OR REPLACE FUNCTION room_assignment_conflicts(
+    p_room_id UUID,
+    p_staff_id UUID,
+    p_start_date TIMESTAMPTZ,
+    p_end_date TIMESTAMPTZ DEFAULT NULL,
+    p_exclude_id UUID DEFAULT NULL,
+    p_bed_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+    kind TEXT,
+    assignment_id UUID,
+    conflict_start DATE,
+    conflict_end DATE,
+    occupancy INTEGER,
+    capacity INTEGER
+) AS $$
+DECLARE
+    v_room rooms;
+    v_bed beds;
+    v_capacity INTEGER;
+    v_from DATE := assignment_first_night(p_start_date);
+    v_until DATE := assignment_last_night_end(p_start_date, p_end_date);
+    v_horizon DATE;
+BEGIN
+    SELECT * INTO v_room FROM rooms WHERE id = p_room_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Room not found';
+    END IF;
+
+    v_capacity := room_capacity(p_room_id);
+
+    IF v_room.status IN ('maintenance', 'out_of_order') THEN
+        RETURN QUERY SELECT 'room_status'::TEXT, NULL::UUID, v_from, NULL::DATE, NULL::INTEGER, NULL::INTEGER;
+    END IF;
+
+    IF p_bed_id IS NOT NULL THEN
+        SELECT * INTO v_bed FROM beds WHERE id = p_bed_id AND room_id = p_room_id;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Bed not found in this room';
+        END IF;
+
+        IF v_bed.status = 'out_of_service' THEN
+            RETURN QUERY SELECT 'bed_status'::TEXT, NULL::UUID, v_from, NULL::DATE, NULL::INTEGER, NULL::INTEGER;
+        END IF;
+
+        -- Other stays in the same bed on any of the same nights
+        RETURN QUERY
+        SELECT
+            'bed_taken'::TEXT,
+            a.id,
+            assignment_first_night(a.start_date),
+            NULLIF(assignment_last_night_end(a.start_date, a.end_date), 'infinity'::DATE),
+            NULL::INTEGER,
+            NULL::INTEGER
+        FROM room_assignments a
+        WHERE a.bed_id = p_bed_id
+          AND a.status IN ('active', 'pending')
+          AND a.id IS DISTINCT FROM p_exclude_id
+          AND assignment_first_night(a.start_date) < v_until
+          AND assignment_last_night_end(a.start_date, a.end_date) > v_from
+        ORDER BY a.start_date;
+    END IF;
+
+    -- The staff member's other stays on any of the same nights
+    RETURN QUERY
+    SELECT
+        'staff_overlap'::TEXT,
+        a.id,
+        assignment_first_night(a.start_date),
+        NULLIF(assignment_last_night_end(a.start_date, a.end_date), 'infinity'::DATE),
+        NULL::INTEGER,
+        NULL::INTEGER
+    FROM room_assignments a
+    WHERE a.staff_id = p_staff_id
+      AND a.status IN ('active', 'pending')
+      AND a.id IS DISTINCT FROM p_exclude_id
+      AND assignment_first_night(a.start_date) < v_until
+      AND assignment_last_night_end(a.start_date, a.end_date) > v_from
+    ORDER BY a.start_date;
+
+    -- Occupancy only changes when someone moves in or out, so an open-ended
+    -- stay is checked up to the last of those days
+    SELECT LEAST(v_until, GREATEST(
+        v_from,
+        MAX(assignment_first_night(a.start_date)),
+        MAX(NULLIF(assignment_last_night_end(a.start_date, a.end_date), 'infinity'::DATE))
+    ) + 1)
+    INTO v_horizon
+    FROM room_assignments a
+    WHERE a.room_id = p_room_id
+      AND a.status IN ('active', 'pending')
+      AND a.id IS DISTINCT FROM p_exclude_id
+      AND assignment_first_night(a.start_date) < v_until
+      AND assignment_last_night_end(a.start_date, a.end_date) > v_from;
+
+    -- Nights the room would be over capacity with this stay added
+    RETURN QUERY
+    SELECT
+        'capacity'::TEXT,
+        NULL::UUID,
+        night.day,
+        night.day + 1,
+        (COUNT(a.id) + 1)::INTEGER,
+        v_capacity
+    FROM (
+        SELECT generate_series(v_from, v_horizon - 1, INTERVAL '1 day')::DATE AS day
+    ) night
+    JOIN room_assignments a
+      ON a.room_id = p_room_id
+     AND a.status IN ('active', 'pending')
+     AND a.id IS DISTINCT FROM p_exclude_id
+     AND assignment_first_night(a.start_date) <= night.day
+     AND assignment_last_night_end(a.start_date, a.end_date) > night.day
+    GROUP BY night.day
+    HAVING COUNT(a.id) + 1 > v_capacity
+    ORDER BY night.day;
+END;
+$$ LANGUAGE 'plpgsql' STABLE;
+
+-- Reject active and pending assignments that clash. The room and staff rows
+-- are locked so two assignments made at once cannot both take the last bed.
+CREATE OR REPLACE FUNCTION check_room_assignment_conflicts()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_conflict RECORD;
+    v_check_status BOOLEAN;
+BEGIN
+    IF NEW.status NOT IN ('active', 'pending') THEN
+        RETURN NEW;
+    END IF;
+
+    -- Room and bed status only matter for a new stay or a move, not for
+    -- changing the dates of one already under way
+    v_check_status := TG_OP = 'INSERT'
+        OR NEW.room_id <> OLD.room_id
+        OR NEW.bed_id IS DISTINCT FROM OLD.bed_id
+        OR OLD.status NOT IN ('active', 'pending');
+
+    PERFORM 1 FROM rooms WHERE id = NEW.room_id FOR UPDATE;
+    PERFORM 1 FROM staff WHERE id = NEW.staff_id FOR UPDATE;
+
+    SELECT * INTO v_conflict
+    FROM room_assignment_conflicts(NEW.room_id, NEW.staff_id, NEW.start_date, NEW.end_date, NEW.id, NEW.bed_id) c
+    WHERE c.kind NOT IN ('room_status', 'bed_status') OR v_check_status
+    LIMIT 1;
+
+    IF NOT FOUND THEN
+        RETURN NEW;
+    END IF;
+
+    IF v_conflict.kind = 'room_status' THEN
+        RAISE EXCEPTION 'The room is under maintenance or out of order';
+    ELSIF v_conflict.kind = 'staff_overlap' THEN
+        RAISE EXCEPTION 'The staff member already has a room assignment from %', v_conflict.conflict_start;
+    ELSIF v_conflict.kind = 'bed_status' THEN
+        RAISE EXCEPTION 'The bed is out of service';
+    ELSIF v_conflict.kind = 'bed_taken' THEN
+        RAISE EXCEPTION 'The bed is taken from %', v_conflict.conflict_start;
+    ELSE
+        RAISE EXCEPTION 'The room is full (% beds) on %', v_conflict.capacity, v_conflict.conflict_start;
+    END IF;
+END;
+$$ LANGUAGE 'plpgsql';
+
+DROP TRIGGER IF EXISTS check_room_assignment_conflicts ON room_assignments;
+CREATE TRIGGER check_room_assignment_conflicts
+    BEFORE INSERT OR UPDATE OF room_id, bed_id, staff_id, start_date, end_date, status ON room_assignments
+    FOR EACH ROW
+    EXECUTE FUNCTION check_room_assignment_conflicts();
+
+-- Enable Row Level Security
+ALTER TABLE housing_settings ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Allow administrators to change housing policy
+CREATE POLICY "Administrators can manage housing settings" ON housing_settings
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM auth.users
+            WHERE auth.users.id = auth.uid()
+            AND auth.users.raw_user_meta_data->>'role' = 'Administrator'
+        )
+    );
+
+-- Policy: Allow any authenticated user to read housing policy
+CREATE POLICY "Authenticated users can view housing settings" ON housing_settings
+    FOR SELECT USING (auth.uid() IS NOT NULL);
+
+-- Grant necessary permissions
+GRANT SELECT, UPDATE ON housing_settings TO authenticated;
+GRANT EXECUTE ON FUNCTION room_assignment_conflicts(UUID, UUID, TIMESTAMPTZ, TIMESTAMPTZ, UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION room_capacity(UUID) TO authenticated;
+
+-- Comments for documentation
+COMMENT ON TABLE housing_settings IS 'Housing policy shared by the app and the database (one row)';
+COMMENT ON COLUMN housing_settings.max_occupancy_per_room IS 'Most people any room may hold on one night, whatever its capacity';
+COMMENT ON FUNCTION room_assignment_conflicts(UUID, UUID, TIMESTAMPTZ, TIMESTAMPTZ, UUID, UUID) IS 'Staff overlaps, over-capacity nights, taken beds and room or bed status problems for a requested stay';
+COMMENT ON FUNCTION room_capacity(UUID) IS 'People a room can take after the per-room cap and its beds in service';
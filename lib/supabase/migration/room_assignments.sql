@@ -20,6 +20,7 @@ CREATE TABLE IF NOT EXISTS room_assignments (
   -- Move dates (optional)
   move_in_date TIMESTAMPTZ NULL,
   move_out_date TIMESTAMPTZ NULL,
+  move_out_notice_date DATE NULL,
   
   -- Audit fields
   created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
@@ -164,5 +165,6 @@ COMMENT ON COLUMN room_assignments.end_date IS 'Official assignment end date (op
 COMMENT ON COLUMN room_assignments.status IS 'Assignment status: active, pending, completed, cancelled';
 COMMENT ON COLUMN room_assignments.move_in_date IS 'Actual move-in date (may differ from start_date)';
 COMMENT ON COLUMN room_assignments.move_out_date IS 'Actual move-out date (may differ from end_date)';
+COMMENT ON COLUMN room_assignments.move_out_notice_date IS 'Date notice of moving out was given; short notice is charged';
 COMMENT ON COLUMN room_assignments.created_at IS 'Record creation timestamp';
 COMMENT ON COLUMN room_assignments.updated_at IS 'Record last update timestamp';
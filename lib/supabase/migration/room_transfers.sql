@@ -0,0 +1,159 @@
+-- Room Transfers
+-- A transfer closes a staff member's assignment and opens one in another room
+-- on the same day, in one transaction, so there is never a gap or an overlap.
+-- The two assignments point at each other: billing skips the move-in grace
+-- nights and short-notice charge a transfer would otherwise trigger, and the
+-- housing history shows the pair as one move.
+
+ALTER TABLE room_assignments ADD COLUMN IF NOT EXISTS transferred_from_id UUID NULL REFERENCES room_assignments(id) ON DELETE SET NULL;
+ALTER TABLE room_assignments ADD COLUMN IF NOT EXISTS transferred_to_id UUID NULL REFERENCES room_assignments(id) ON DELETE SET NULL;
+ALTER TABLE room_assignments ADD COLUMN IF NOT EXISTS transfer_reason VARCHAR(255) NULL;
+
+-- People living in the room today, kept up to date by transfers
+ALTER TABLE rooms ADD COLUMN IF NOT EXISTS current_occupancy INTEGER NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_room_assignments_transferred_from ON room_assignments(transferred_from_id) WHERE transferred_from_id IS NOT NULL;
+
+-- Recount who is in a room today and mark it occupied when full. Rooms under
+-- maintenance or out of order keep their status. Transfers and move-outs can
+-- be dated ahead, so refresh_all_room_occupancy also runs every night.
+CREATE OR REPLACE FUNCTION refresh_room_occupancy(p_room_id UUID)
+RETURNS VOID AS $$
+DECLARE
+    v_occupancy INTEGER;
+BEGIN
+    SELECT COUNT(*) INTO v_occupancy
+    FROM room_assignments
+    WHERE room_id = p_room_id
+      AND status = 'active'
+      AND assignment_first_night(start_date) <= CURRENT_DATE
+      AND assignment_last_night_end(start_date, end_date) > CURRENT_DATE;
+
+    UPDATE rooms
+    SET current_occupancy = v_occupancy,
+        status = CASE
+            WHEN status IN ('maintenance', 'out_of_order') THEN status
+            WHEN v_occupancy >= room_capacity(p_room_id) THEN 'occupied'
+            ELSE 'available'
+        END,
+        updated_at = NOW()
+    WHERE id = p_room_id;
+END;
+$$ LANGUAGE 'plpgsql';
+
+-- Recount every room, for the stays that start or end today. Transfers dated
+-- ahead take effect here: the stay moved into becomes active and the stay
+-- moved out of is completed once the transfer date has come.
+CREATE OR REPLACE FUNCTION refresh_all_room_occupancy()
+RETURNS VOID AS $$
+DECLARE
+    v_room_id UUID;
+BEGIN
+    UPDATE room_assignments
+    SET status = 'active'
+    WHERE status = 'pending'
+      AND transferred_from_id IS NOT NULL
+      AND assignment_first_night(start_date) <= CURRENT_DATE;
+
+    UPDATE room_assignments
+    SET status = 'completed'
+    WHERE status = 'active'
+      AND transferred_to_id IS NOT NULL
+      AND (end_date AT TIME ZONE 'UTC')::DATE <= CURRENT_DATE;
+
+    FOR v_room_id IN SELECT id FROM rooms LOOP
+        PERFORM refresh_room_occupancy(v_room_id);
+    END LOOP;
+END;
+$$ LANGUAGE 'plpgsql';
+
+-- Nightly, shortly after midnight UTC, where pg_cron is enabled
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+        PERFORM cron.schedule('refresh-room-occupancy', '5 0 * * *', 'SELECT refresh_all_room_occupancy()');
+    END IF;
+END $$;
+
+-- Move an assignment to another room, and optionally a bed in it, from
+-- `p_effective_date`: the old stay ends that day and the new one starts it,
+-- keeping the planned end date. A transfer dated ahead leaves the old stay
+-- active and the new one pending until refresh_all_room_occupancy reaches the
+-- date. Conflicts are checked by the room assignment trigger.
+DROP FUNCTION IF EXISTS transfer_room_assignment(UUID, UUID, DATE, TEXT);
+CREATE OR REPLACE FUNCTION transfer_room_assignment(
+    p_assignment_id UUID,
+    p_to_room_id UUID,
+    p_effective_date DATE,
+    p_reason TEXT DEFAULT NULL,
+    p_bed_id UUID DEFAULT NULL
+)
+RETURNS room_assignments AS $$
+DECLARE
+    v_from room_assignments;
+    v_to room_assignments;
+BEGIN
+    SELECT * INTO v_from FROM room_assignments WHERE id = p_assignment_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Room assignment not found';
+    END IF;
+
+    IF v_from.status <> 'active' THEN
+        RAISE EXCEPTION 'Only active assignments can be transferred';
+    END IF;
+
+    IF v_from.room_id = p_to_room_id THEN
+        RAISE EXCEPTION 'The staff member is already in this room';
+    END IF;
+
+    IF p_effective_date <= assignment_first_night(v_from.start_date) THEN
+        RAISE EXCEPTION 'The transfer date must be after the assignment starts';
+    END IF;
+
+    IF v_from.end_date IS NOT NULL AND p_effective_date >= assignment_last_night_end(v_from.start_date, v_from.end_date) THEN
+        RAISE EXCEPTION 'The assignment ends before the transfer date';
+    END IF;
+
+    -- End the old stay first so the new one does not overlap it
+    UPDATE room_assignments
+    SET end_date = p_effective_date,
+        move_out_date = p_effective_date,
+        status = CASE WHEN p_effective_date <= CURRENT_DATE THEN 'completed' ELSE 'active' END
+    WHERE id = v_from.id;
+
+    INSERT INTO room_assignments (
+        room_id, bed_id, staff_id, start_date, end_date, status, move_in_date,
+        transferred_from_id, transfer_reason
+    )
+    VALUES (
+        p_to_room_id,
+        p_bed_id,
+        v_from.staff_id,
+        p_effective_date,
+        v_from.end_date,
+        CASE WHEN p_effective_date <= CURRENT_DATE THEN 'active' ELSE 'pending' END,
+        p_effective_date,
+        v_from.id,
+        NULLIF(TRIM(p_reason), '')
+    )
+    RETURNING * INTO v_to;
+
+    UPDATE room_assignments SET transferred_to_id = v_to.id WHERE id = v_from.id;
+
+    PERFORM refresh_room_occupancy(v_from.room_id);
+    PERFORM refresh_room_occupancy(p_to_room_id);
+
+    RETURN v_to;
+END;
+$$ LANGUAGE 'plpgsql';
+
+-- Grant necessary permissions
+GRANT EXECUTE ON FUNCTION transfer_room_assignment(UUID, UUID, DATE, TEXT, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION refresh_all_room_occupancy() TO authenticated;
+
+-- Comments for documentation
+COMMENT ON COLUMN room_assignments.transferred_from_id IS 'Assignment this one was transferred from; no move-in grace nights are given';
+COMMENT ON COLUMN room_assignments.transferred_to_id IS 'Assignment this one was transferred to; no short-notice charge is made';
+COMMENT ON COLUMN room_assignments.transfer_reason IS 'Why the staff member was moved, on the assignment they moved into';
+COMMENT ON COLUMN rooms.current_occupancy IS 'Staff with an active assignment in the room today, recounted nightly';
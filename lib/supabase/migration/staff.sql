@@ -28,6 +28,10 @@ CREATE TABLE IF NOT EXISTS staff (
   -- Housing eligibility
   housing_eligible BOOLEAN DEFAULT false,
   
+  -- Pay, used for percentage deduction caps
+  expected_gross_pay DECIMAL(10,2) NULL CHECK (expected_gross_pay IS NULL OR expected_gross_pay >= 0),
+  work_state CHAR(2) NULL, -- State whose minimum wage applies
+  
   -- Audit fields
   created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
   updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
@@ -146,5 +150,7 @@ COMMENT ON COLUMN staff.hire_date IS 'Date when staff member was hired';
 COMMENT ON COLUMN staff.employment_status IS 'Current employment status';
 COMMENT ON COLUMN staff.supervisor_id IS 'Reference to supervisor (another staff member)';
 COMMENT ON COLUMN staff.housing_eligible IS 'Whether staff member is eligible for company housing';
+COMMENT ON COLUMN staff.expected_gross_pay IS 'Expected gross pay per paycheck, used for percentage deduction caps';
+COMMENT ON COLUMN staff.work_state IS 'Two-letter state code whose minimum wage applies alongside the federal rate';
 COMMENT ON COLUMN staff.created_at IS 'Record creation timestamp';
 COMMENT ON COLUMN staff.updated_at IS 'Record last update timestamp';
@@ -0,0 +1,191 @@
+-- Staff Ledger Entries Table Schema
+-- This table is each staff member's account: charges and refunds are debits,
+-- payroll deductions, cash payments, credits and write-offs are credits, and
+-- the balance owed is debits minus credits
+
+-- Create the staff_ledger_entries table
+CREATE TABLE IF NOT EXISTS staff_ledger_entries (
+  -- Primary key
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- Account owner
+  staff_id UUID NOT NULL REFERENCES staff(id) ON DELETE RESTRICT,
+
+  -- Entry details
+  entry_type VARCHAR(30) NOT NULL CHECK (entry_type IN ('charge', 'payroll_deduction', 'cash_payment', 'credit', 'write_off', 'refund')),
+  charge_type VARCHAR(20) NULL CHECK (charge_type IN ('rent', 'utilities', 'transport', 'other')),
+  debit DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (debit >= 0),
+  credit DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (credit >= 0),
+  entry_date DATE NOT NULL,
+  description TEXT NOT NULL,
+  reference VARCHAR(100) NULL,
+
+  -- Source (exports post charges and deductions; the rest are entered by finance)
+  charge_id UUID NULL REFERENCES charges(id) ON DELETE SET NULL,
+  billing_period_id UUID NULL REFERENCES billing_periods(id) ON DELETE RESTRICT,
+  payroll_export_id UUID NULL REFERENCES payroll_exports(id) ON DELETE CASCADE,
+
+  -- Audit fields
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_staff_ledger_entries_staff ON staff_ledger_entries(staff_id, entry_date);
+CREATE INDEX IF NOT EXISTS idx_staff_ledger_entries_type ON staff_ledger_entries(entry_type);
+CREATE INDEX IF NOT EXISTS idx_staff_ledger_entries_export ON staff_ledger_entries(payroll_export_id);
+CREATE INDEX IF NOT EXISTS idx_staff_ledger_entries_period ON staff_ledger_entries(billing_period_id);
+CREATE INDEX IF NOT EXISTS idx_staff_ledger_entries_charge ON staff_ledger_entries(charge_id);
+
+-- Business rule constraints
+ALTER TABLE staff_ledger_entries
+ADD CONSTRAINT IF NOT EXISTS chk_ledger_one_side
+CHECK ((debit > 0 AND credit = 0) OR (credit > 0 AND debit = 0));
+
+-- Payments, credits and write-offs only ever reduce what is owed; refunds only add to it
+ALTER TABLE staff_ledger_entries
+ADD CONSTRAINT IF NOT EXISTS chk_ledger_entry_side
+CHECK (
+  (entry_type NOT IN ('cash_payment', 'credit', 'write_off') OR debit = 0) AND
+  (entry_type <> 'refund' OR credit = 0)
+);
+
+-- Entries are never edited; a mistake is corrected by posting an offsetting entry
+CREATE OR REPLACE FUNCTION prevent_staff_ledger_entry_updates()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'Ledger entries cannot be changed; post an offsetting entry instead';
+END;
+$$ LANGUAGE 'plpgsql';
+
+DROP TRIGGER IF EXISTS prevent_staff_ledger_entry_updates ON staff_ledger_entries;
+CREATE TRIGGER prevent_staff_ledger_entry_updates
+    BEFORE UPDATE ON staff_ledger_entries
+    FOR EACH ROW
+    EXECUTE FUNCTION prevent_staff_ledger_entry_updates();
+
+-- Record a payroll export with its lines, imputed income, carried-forward
+-- balances and ledger entries in one transaction. If any part fails nothing
+-- is kept, so a later export never carries forward money this one did not
+-- hold back. Child rows are passed without `payroll_export_id`.
+CREATE OR REPLACE FUNCTION record_payroll_export(
+    p_export JSONB,
+    p_lines JSONB DEFAULT '[]',
+    p_imputed_lines JSONB DEFAULT '[]',
+    p_balances JSONB DEFAULT '[]',
+    p_ledger_entries JSONB DEFAULT '[]'
+)
+RETURNS payroll_exports AS $$
+DECLARE
+    v_export payroll_exports;
+BEGIN
+    v_export := jsonb_populate_record(NULL::payroll_exports, p_export);
+
+    INSERT INTO payroll_exports (
+        billing_period_id, export_type, format, file_name, file_size, total_records,
+        total_amount, status, exported_by, supersedes_export_id, export_parameters
+    )
+    VALUES (
+        v_export.billing_period_id, v_export.export_type, v_export.format, v_export.file_name,
+        v_export.file_size, v_export.total_records, v_export.total_amount, v_export.status,
+        v_export.exported_by, v_export.supersedes_export_id, v_export.export_parameters
+    )
+    RETURNING * INTO v_export;
+
+    INSERT INTO payroll_export_lines (payroll_export_id, charge_id, staff_id, charge_type, line_type, amount)
+    SELECT v_export.id, r.charge_id, r.staff_id, r.charge_type, r.line_type, r.amount
+    FROM jsonb_populate_recordset(NULL::payroll_export_lines, p_lines) r;
+
+    INSERT INTO imputed_income_lines (
+        payroll_export_id, billing_period_id, staff_id, line_type, amount, market_value, rent_charged
+    )
+    SELECT v_export.id, r.billing_period_id, r.staff_id, r.line_type, r.amount, r.market_value, r.rent_charged
+    FROM jsonb_populate_recordset(NULL::imputed_income_lines, p_imputed_lines) r;
+
+    INSERT INTO deduction_balances (payroll_export_id, staff_id, charge_type, amount, billing_period_id)
+    SELECT v_export.id, r.staff_id, r.charge_type, r.amount, r.billing_period_id
+    FROM jsonb_populate_recordset(NULL::deduction_balances, p_balances) r;
+
+    INSERT INTO staff_ledger_entries (
+        payroll_export_id, staff_id, entry_type, charge_type, debit, credit, entry_date,
+        description, charge_id, billing_period_id, created_by
+    )
+    SELECT v_export.id, r.staff_id, r.entry_type, r.charge_type, r.debit, r.credit, r.entry_date,
+        r.description, r.charge_id, r.billing_period_id, r.created_by
+    FROM jsonb_populate_recordset(NULL::staff_ledger_entries, p_ledger_entries) r;
+
+    RETURN v_export;
+END;
+$$ LANGUAGE 'plpgsql';
+
+-- Enable Row Level Security
+ALTER TABLE staff_ledger_entries ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies (no update or delete policies: the ledger is append-only)
+
+-- Policy: Allow administrators to view all ledger entries
+CREATE POLICY "Administrators can view all ledger entries" ON staff_ledger_entries
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM auth.users
+            WHERE auth.users.id = auth.uid()
+            AND auth.users.raw_user_meta_data->>'role' = 'Administrator'
+        )
+    );
+
+-- Policy: Allow administrators to post ledger entries
+CREATE POLICY "Administrators can post ledger entries" ON staff_ledger_entries
+    FOR INSERT WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM auth.users
+            WHERE auth.users.id = auth.uid()
+            AND auth.users.raw_user_meta_data->>'role' = 'Administrator'
+        )
+    );
+
+-- Policy: Allow HR and Finance staff to view all ledger entries
+CREATE POLICY "HR and Finance can view all ledger entries" ON staff_ledger_entries
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM auth.users
+            WHERE auth.users.id = auth.uid()
+            AND auth.users.raw_user_meta_data->>'role' IN ('HR', 'Finance', 'Payroll')
+        )
+    );
+
+-- Policy: Allow Finance and Payroll staff to post ledger entries
+CREATE POLICY "Finance can post ledger entries" ON staff_ledger_entries
+    FOR INSERT WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM auth.users
+            WHERE auth.users.id = auth.uid()
+            AND auth.users.raw_user_meta_data->>'role' IN ('Finance', 'Payroll')
+        )
+    );
+
+-- Policy: Allow staff to view their own account
+CREATE POLICY "Staff can view their own ledger entries" ON staff_ledger_entries
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM staff
+            WHERE staff.id = staff_ledger_entries.staff_id
+            AND staff.user_id = auth.uid()
+        )
+    );
+
+-- Grant necessary permissions
+GRANT SELECT, INSERT ON staff_ledger_entries TO authenticated;
+GRANT EXECUTE ON FUNCTION record_payroll_export(JSONB, JSONB, JSONB, JSONB, JSONB) TO authenticated;
+
+-- Comments for documentation
+COMMENT ON TABLE staff_ledger_entries IS 'Append-only account of what each staff member was charged, paid and forgiven';
+COMMENT ON COLUMN staff_ledger_entries.entry_type IS 'Kind of movement: charge, payroll_deduction, cash_payment, credit, write_off or refund';
+COMMENT ON COLUMN staff_ledger_entries.charge_type IS 'Charge type the movement belongs to, when it belongs to one';
+COMMENT ON COLUMN staff_ledger_entries.debit IS 'Amount added to what the staff member owes';
+COMMENT ON COLUMN staff_ledger_entries.credit IS 'Amount taken off what the staff member owes';
+COMMENT ON COLUMN staff_ledger_entries.entry_date IS 'Date the movement counts from; exports post on the billing period end date';
+COMMENT ON COLUMN staff_ledger_entries.reference IS 'Receipt, check or transaction number';
+COMMENT ON COLUMN staff_ledger_entries.charge_id IS 'Charge an export posted this entry for';
+COMMENT ON COLUMN staff_ledger_entries.billing_period_id IS 'Billing period an export posted this entry for';
+COMMENT ON COLUMN staff_ledger_entries.payroll_export_id IS 'Payroll export that posted this entry';
+COMMENT ON FUNCTION record_payroll_export(JSONB, JSONB, JSONB, JSONB, JSONB) IS 'Record a payroll export and everything it posts, all or nothing';
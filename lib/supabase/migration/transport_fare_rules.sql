@@ -0,0 +1,111 @@
+-- Transport Fare Rules Table Schema
+-- This table decides how the charge run splits a completed trip's cost between
+-- its passengers. A rule with a route applies to trips on that route; the one
+-- rule without a route is the default for every other route
+
+-- Create the transport_fare_rules table
+CREATE TABLE IF NOT EXISTS transport_fare_rules (
+  -- Primary key
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- Route the rule applies to (NULL = default rule)
+  route VARCHAR(255) NULL,
+
+  -- Split
+  split_strategy VARCHAR(20) NOT NULL DEFAULT 'equal' CHECK (split_strategy IN ('equal', 'distance', 'flat_fare', 'employer_paid')),
+  flat_fare DECIMAL(10,2) NULL CHECK (flat_fare > 0),
+  employer_paid_purposes TEXT[] NOT NULL DEFAULT '{}',
+
+  -- Cancelled and no-show passengers
+  no_show_treatment VARCHAR(20) NOT NULL DEFAULT 'charge_share' CHECK (no_show_treatment IN ('charge_share', 'charge_fee', 'waive')),
+  no_show_fee DECIMAL(10,2) NULL CHECK (no_show_fee > 0),
+  cancelled_treatment VARCHAR(20) NOT NULL DEFAULT 'waive' CHECK (cancelled_treatment IN ('charge_share', 'charge_fee', 'waive')),
+  cancelled_fee DECIMAL(10,2) NULL CHECK (cancelled_fee > 0),
+
+  -- Status
+  is_active BOOLEAN NOT NULL DEFAULT true,
+
+  -- Additional information
+  notes TEXT,
+
+  -- Audit fields
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- One rule per route and a single default rule
+CREATE UNIQUE INDEX IF NOT EXISTS idx_transport_fare_rules_route
+ON transport_fare_rules(LOWER(TRIM(COALESCE(route, ''))));
+
+CREATE INDEX IF NOT EXISTS idx_transport_fare_rules_active ON transport_fare_rules(is_active);
+
+-- Business rule constraints
+ALTER TABLE transport_fare_rules
+ADD CONSTRAINT IF NOT EXISTS chk_transport_fare_rule_flat_fare
+CHECK (split_strategy <> 'flat_fare' OR flat_fare IS NOT NULL);
+
+ALTER TABLE transport_fare_rules
+ADD CONSTRAINT IF NOT EXISTS chk_transport_fare_rule_no_show_fee
+CHECK (no_show_treatment <> 'charge_fee' OR no_show_fee IS NOT NULL);
+
+ALTER TABLE transport_fare_rules
+ADD CONSTRAINT IF NOT EXISTS chk_transport_fare_rule_cancelled_fee
+CHECK (cancelled_treatment <> 'charge_fee' OR cancelled_fee IS NOT NULL);
+
+-- Update trigger function
+CREATE OR REPLACE FUNCTION update_transport_fare_rules_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE 'plpgsql';
+
+-- Create trigger
+DROP TRIGGER IF EXISTS update_transport_fare_rules_updated_at ON transport_fare_rules;
+CREATE TRIGGER update_transport_fare_rules_updated_at
+    BEFORE UPDATE ON transport_fare_rules
+    FOR EACH ROW
+    EXECUTE FUNCTION update_transport_fare_rules_updated_at();
+
+-- Enable Row Level Security
+ALTER TABLE transport_fare_rules ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+
+-- Policy: Allow administrators to manage all fare rules
+CREATE POLICY "Administrators can manage all transport fare rules" ON transport_fare_rules
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM auth.users
+            WHERE auth.users.id = auth.uid()
+            AND auth.users.raw_user_meta_data->>'role' = 'Administrator'
+        )
+    );
+
+-- Policy: Allow HR and Finance staff to manage all fare rules
+CREATE POLICY "HR and Finance can manage all transport fare rules" ON transport_fare_rules
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM auth.users
+            WHERE auth.users.id = auth.uid()
+            AND auth.users.raw_user_meta_data->>'role' IN ('HR', 'Finance', 'Payroll')
+        )
+    );
+
+-- Policy: Allow everyone to see how fares are worked out
+CREATE POLICY "Authenticated users can view transport fare rules" ON transport_fare_rules
+    FOR SELECT USING (auth.uid() IS NOT NULL);
+
+-- Grant necessary permissions
+GRANT ALL ON transport_fare_rules TO authenticated;
+
+-- Comments for documentation
+COMMENT ON TABLE transport_fare_rules IS 'How the charge run splits trip costs between passengers, per route';
+COMMENT ON COLUMN transport_fare_rules.route IS 'Trip route the rule applies to, matched ignoring case; NULL = default for every other route';
+COMMENT ON COLUMN transport_fare_rules.split_strategy IS 'equal, distance (by miles ridden), flat_fare or employer_paid';
+COMMENT ON COLUMN transport_fare_rules.flat_fare IS 'Fare per passenger under the flat_fare strategy';
+COMMENT ON COLUMN transport_fare_rules.employer_paid_purposes IS 'Trip purposes the employer pays for in full, whatever the strategy';
+COMMENT ON COLUMN transport_fare_rules.no_show_treatment IS 'charge_share (pay like a rider), charge_fee (pay no_show_fee) or waive';
+COMMENT ON COLUMN transport_fare_rules.cancelled_treatment IS 'charge_share (pay like a rider), charge_fee (pay cancelled_fee) or waive';
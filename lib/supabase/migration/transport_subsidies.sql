@@ -0,0 +1,102 @@
+-- Transport Subsidies Table Schema
+-- This table records the part of passengers' trip shares the employer pays,
+-- per route or per department. When several subsidies apply to a passenger
+-- the most generous one is used
+
+-- Create the transport_subsidies table
+CREATE TABLE IF NOT EXISTS transport_subsidies (
+  -- Primary key
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- Target
+  scope VARCHAR(20) NOT NULL CHECK (scope IN ('route', 'department')),
+  route VARCHAR(255) NULL,
+  department VARCHAR(100) NULL,
+
+  -- Subsidy
+  subsidy_percent DECIMAL(5,2) NULL CHECK (subsidy_percent >= 0 AND subsidy_percent <= 100),
+  subsidy_cap DECIMAL(10,2) NULL CHECK (subsidy_cap > 0),
+
+  -- Status
+  is_active BOOLEAN NOT NULL DEFAULT true,
+
+  -- Additional information
+  notes TEXT,
+
+  -- Audit fields
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_transport_subsidies_route ON transport_subsidies(route) WHERE scope = 'route';
+CREATE INDEX IF NOT EXISTS idx_transport_subsidies_department ON transport_subsidies(department) WHERE scope = 'department';
+
+-- Business rule constraints
+ALTER TABLE transport_subsidies
+ADD CONSTRAINT IF NOT EXISTS chk_transport_subsidy_target
+CHECK (
+  (scope = 'route' AND route IS NOT NULL AND department IS NULL) OR
+  (scope = 'department' AND department IS NOT NULL AND route IS NULL)
+);
+
+ALTER TABLE transport_subsidies
+ADD CONSTRAINT IF NOT EXISTS chk_transport_subsidy_amount
+CHECK (subsidy_percent IS NOT NULL OR subsidy_cap IS NOT NULL);
+
+-- Update trigger function
+CREATE OR REPLACE FUNCTION update_transport_subsidies_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE 'plpgsql';
+
+-- Create trigger
+DROP TRIGGER IF EXISTS update_transport_subsidies_updated_at ON transport_subsidies;
+CREATE TRIGGER update_transport_subsidies_updated_at
+    BEFORE UPDATE ON transport_subsidies
+    FOR EACH ROW
+    EXECUTE FUNCTION update_transport_subsidies_updated_at();
+
+-- Enable Row Level Security
+ALTER TABLE transport_subsidies ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+
+-- Policy: Allow administrators to manage all subsidies
+CREATE POLICY "Administrators can manage all transport subsidies" ON transport_subsidies
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM auth.users
+            WHERE auth.users.id = auth.uid()
+            AND auth.users.raw_user_meta_data->>'role' = 'Administrator'
+        )
+    );
+
+-- Policy: Allow HR and Finance staff to manage all subsidies
+CREATE POLICY "HR and Finance can manage all transport subsidies" ON transport_subsidies
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM auth.users
+            WHERE auth.users.id = auth.uid()
+            AND auth.users.raw_user_meta_data->>'role' IN ('HR', 'Finance', 'Payroll')
+        )
+    );
+
+-- Policy: Allow everyone to see which subsidies exist
+CREATE POLICY "Authenticated users can view transport subsidies" ON transport_subsidies
+    FOR SELECT USING (auth.uid() IS NOT NULL);
+
+-- Grant necessary permissions
+GRANT ALL ON transport_subsidies TO authenticated;
+
+-- Comments for documentation
+COMMENT ON TABLE transport_subsidies IS 'Employer-paid part of passengers'' trip shares, per route or department';
+COMMENT ON COLUMN transport_subsidies.scope IS 'route or department';
+COMMENT ON COLUMN transport_subsidies.route IS 'Trip route the subsidy applies to, matched ignoring case';
+COMMENT ON COLUMN transport_subsidies.department IS 'Staff department the subsidy applies to, matched against staff.department';
+COMMENT ON COLUMN transport_subsidies.subsidy_percent IS 'Percentage of a passenger''s share the employer pays';
+COMMENT ON COLUMN transport_subsidies.subsidy_cap IS 'Most the employer pays towards one passenger''s share of a trip; on its own, pays the share up to the cap';
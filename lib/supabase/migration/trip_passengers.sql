@@ -13,6 +13,7 @@ CREATE TABLE IF NOT EXISTS trip_passengers (
   -- Location details
   pickup_location VARCHAR(255) NULL,
   dropoff_location VARCHAR(255) NULL,
+  distance DECIMAL(8,2) NULL CHECK (distance > 0),
   
   -- Passenger status
   status VARCHAR(20) NOT NULL DEFAULT 'confirmed' CHECK (status IN ('confirmed', 'cancelled', 'no_show', 'completed')),
@@ -198,6 +199,7 @@ COMMENT ON TABLE trip_passengers IS 'Passengers assigned to transport trips';
 COMMENT ON COLUMN trip_passengers.id IS 'Unique identifier for the trip passenger record';
 COMMENT ON COLUMN trip_passengers.trip_id IS 'Reference to the transport trip';
 COMMENT ON COLUMN trip_passengers.staff_id IS 'Reference to the staff member passenger';
+COMMENT ON COLUMN trip_passengers.distance IS 'Miles ridden between pickup and dropoff for distance-split fares; NULL = the whole trip';
 COMMENT ON COLUMN trip_passengers.pickup_location IS 'Specific pickup location for this passenger';
 COMMENT ON COLUMN trip_passengers.dropoff_location IS 'Specific dropoff location for this passenger';
 COMMENT ON COLUMN trip_passengers.status IS 'Current status of the passenger assignment';
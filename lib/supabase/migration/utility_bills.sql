@@ -0,0 +1,143 @@
+-- Utility Bills Table Schema
+-- This table records a property's utility bills per service period. The charge
+-- run of the billing period a service period ends in splits each bill across
+-- the occupants by occupied bed-days and raises 'utilities' charges whose
+-- source_id is the bill
+
+-- Create the utility_bills table
+CREATE TABLE IF NOT EXISTS utility_bills (
+  -- Primary key
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- Foreign keys
+  property_id UUID NOT NULL REFERENCES properties(id) ON DELETE CASCADE,
+
+  -- Bill details
+  utility_type VARCHAR(20) NOT NULL CHECK (utility_type IN ('electricity', 'water', 'gas', 'internet', 'trash', 'other')),
+  provider VARCHAR(100) NULL,
+  account_number VARCHAR(100) NULL,
+  amount DECIMAL(10,2) NOT NULL CHECK (amount > 0),
+
+  -- Service period (both days included)
+  service_start DATE NOT NULL,
+  service_end DATE NOT NULL,
+
+  -- Allocation
+  allocation_rule VARCHAR(20) NOT NULL DEFAULT 'equal' CHECK (allocation_rule IN ('equal', 'by_room', 'capped')),
+  cap_per_person DECIMAL(10,2) NULL CHECK (cap_per_person > 0),
+
+  -- Additional information
+  notes TEXT,
+
+  -- Audit fields
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_utility_bills_property ON utility_bills(property_id, service_end);
+CREATE INDEX IF NOT EXISTS idx_utility_bills_service_end ON utility_bills(service_end);
+
+-- Business rule constraints
+ALTER TABLE utility_bills
+ADD CONSTRAINT IF NOT EXISTS chk_utility_bill_dates
+CHECK (service_end >= service_start);
+
+ALTER TABLE utility_bills
+ADD CONSTRAINT IF NOT EXISTS chk_utility_bill_cap
+CHECK (allocation_rule <> 'capped' OR cap_per_person IS NOT NULL);
+
+-- Update trigger function
+CREATE OR REPLACE FUNCTION update_utility_bills_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE 'plpgsql';
+
+-- Create trigger
+DROP TRIGGER IF EXISTS update_utility_bills_updated_at ON utility_bills;
+CREATE TRIGGER update_utility_bills_updated_at
+    BEFORE UPDATE ON utility_bills
+    FOR EACH ROW
+    EXECUTE FUNCTION update_utility_bills_updated_at();
+
+-- Bills already charged in an exported period are final
+CREATE OR REPLACE FUNCTION prevent_exported_utility_bill_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM charges
+        JOIN billing_periods ON billing_periods.id = charges.billing_period_id
+        WHERE charges.source_id = OLD.id
+        AND charges.type = 'utilities'
+        AND charges.status <> 'cancelled'
+        AND billing_periods.status = 'exported'
+    ) THEN
+        RAISE EXCEPTION 'This utility bill has already been exported to payroll';
+    END IF;
+
+    IF TG_OP = 'DELETE' THEN
+        RETURN OLD;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE 'plpgsql';
+
+DROP TRIGGER IF EXISTS prevent_exported_utility_bill_changes ON utility_bills;
+CREATE TRIGGER prevent_exported_utility_bill_changes
+    BEFORE UPDATE OR DELETE ON utility_bills
+    FOR EACH ROW
+    EXECUTE FUNCTION prevent_exported_utility_bill_changes();
+
+-- Enable Row Level Security
+ALTER TABLE utility_bills ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+
+-- Policy: Allow administrators to manage all utility bills
+CREATE POLICY "Administrators can manage all utility bills" ON utility_bills
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM auth.users
+            WHERE auth.users.id = auth.uid()
+            AND auth.users.raw_user_meta_data->>'role' = 'Administrator'
+        )
+    );
+
+-- Policy: Allow HR and Finance staff to manage all utility bills
+CREATE POLICY "HR and Finance can manage all utility bills" ON utility_bills
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM auth.users
+            WHERE auth.users.id = auth.uid()
+            AND auth.users.raw_user_meta_data->>'role' IN ('HR', 'Finance', 'Payroll')
+        )
+    );
+
+-- Policy: Allow staff to view the bills they were charged a share of
+CREATE POLICY "Staff can view utility bills they were charged for" ON utility_bills
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM charges
+            JOIN staff ON staff.id = charges.staff_id
+            WHERE charges.source_id = utility_bills.id
+            AND charges.type = 'utilities'
+            AND staff.user_id = auth.uid()
+        )
+    );
+
+-- Grant necessary permissions
+GRANT ALL ON utility_bills TO authenticated;
+
+-- Comments for documentation
+COMMENT ON TABLE utility_bills IS 'Property utility bills split across occupants by the charge run';
+COMMENT ON COLUMN utility_bills.property_id IS 'Property the bill is for';
+COMMENT ON COLUMN utility_bills.utility_type IS 'Service billed: electricity, water, gas, internet, trash or other';
+COMMENT ON COLUMN utility_bills.amount IS 'Bill total to split across occupants';
+COMMENT ON COLUMN utility_bills.service_start IS 'First day of the service period';
+COMMENT ON COLUMN utility_bills.service_end IS 'Last day of the service period; decides which billing period charges the bill';
+COMMENT ON COLUMN utility_bills.allocation_rule IS 'How the bill is split: equal per bed-day, by room, or capped per person';
+COMMENT ON COLUMN utility_bills.cap_per_person IS 'Most one occupant pays for a whole service period under the capped rule';
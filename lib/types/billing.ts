@@ -1,4 +1,6 @@
 import { z } from "zod";
+import type { TransactionCategory } from "@/lib/supabase/types/transaction";
+import type { ProrationBreakdown } from "@/lib/types/housing";
 
 // Billing domain enums
 export enum BillingStatus {
@@ -16,16 +18,297 @@ export enum ChargeType {
   OTHER = "other",
 }
 
+// Charges start pending and reach payroll once approved. Disputed charges are
+// held until the dispute is resolved; cancelled and rejected ones are not billed
+export enum ChargeStatus {
+  PENDING = "pending",
+  APPROVED = "approved",
+  REJECTED = "rejected",
+  DISPUTED = "disputed",
+  CANCELLED = "cancelled",
+  PROCESSED = "processed",
+}
+
+export enum ChargeApprovalDecision {
+  APPROVE = "approve",
+  REJECT = "reject",
+}
+
+// Charges are never edited or deleted once billed; money is corrected with
+// adjustments against the original charge
+export enum ChargeAdjustmentType {
+  CREDIT_NOTE = "credit_note",
+  DEBIT = "debit",
+  // Credits whatever is left of the charge, cancelling it
+  REVERSAL = "reversal",
+}
+
+export enum AdjustmentReasonCode {
+  BILLING_ERROR = "billing_error",
+  DUPLICATE_CHARGE = "duplicate_charge",
+  RATE_CHANGE = "rate_change",
+  PRORATION_CORRECTION = "proration_correction",
+  WAIVER = "waiver",
+  GOODWILL = "goodwill",
+  OTHER = "other",
+}
+
 export enum PayrollExportStatus {
   PENDING = "pending",
   COMPLETED = "completed",
   FAILED = "failed",
 }
 
+export enum PayrollExportType {
+  FULL = "full",
+  INCREMENTAL = "incremental",
+  CORRECTIONS = "corrections",
+}
+
+// How an export line relates to what payroll has already received
+export enum PayrollExportLineType {
+  ORIGINAL = "original",
+  ADJUSTMENT = "adjustment",
+  REVERSAL = "reversal",
+  REPLACEMENT = "replacement",
+  // Amount held back by a deduction cap, and earlier holdbacks now collected
+  DEFERRAL = "deferral",
+  RECOVERY = "recovery",
+}
+
+export enum DeductionCapType {
+  FIXED = "fixed",
+  PERCENT_OF_GROSS = "percent_of_gross",
+}
+
+// What an export does when deductions would take pay below minimum wage
+export enum MinimumWageMode {
+  FLAG = "flag",
+  CAP = "cap",
+}
+
+export enum MinimumWageAction {
+  OK = "ok",
+  FLAGGED = "flagged",
+  CAPPED = "capped",
+  // No hours on file, so the check could not be made
+  NO_HOURS = "no_hours",
+}
+
+export enum PayrollHoursSource {
+  ADP = "adp",
+  UPLOAD = "upload",
+  MANUAL = "manual",
+}
+
+// Kinds of movement on a staff member's account
+export enum LedgerEntryType {
+  CHARGE = "charge",
+  PAYROLL_DEDUCTION = "payroll_deduction",
+  CASH_PAYMENT = "cash_payment",
+  CREDIT = "credit",
+  WRITE_OFF = "write_off",
+  REFUND = "refund",
+}
+
+export enum DisputeType {
+  INCORRECT_AMOUNT = "incorrect_amount",
+  UNAUTHORIZED_CHARGE = "unauthorized_charge",
+  BILLING_ERROR = "billing_error",
+  PRORATION_ERROR = "proration_error",
+  OTHER = "other",
+}
+
+export enum DisputeStatus {
+  SUBMITTED = "submitted",
+  UNDER_REVIEW = "under_review",
+  INVESTIGATING = "investigating",
+  RESOLVED = "resolved",
+}
+
+// How a reviewer settles a dispute
+export enum DisputeResolution {
+  FULL_CREDIT = "full_credit",
+  PARTIAL_CREDIT = "partial_credit",
+  CHARGE_CONFIRMED = "charge_confirmed",
+}
+
+export enum UtilityType {
+  ELECTRICITY = "electricity",
+  WATER = "water",
+  GAS = "gas",
+  INTERNET = "internet",
+  TRASH = "trash",
+  OTHER = "other",
+}
+
+// How a utility bill is shared between the occupants of its property
+export enum UtilityAllocationRule {
+  EQUAL = "equal",
+  BY_ROOM = "by_room",
+  CAPPED = "capped",
+}
+
+export enum RecurringChargeCategory {
+  MEAL_PLAN = "meal_plan",
+  PARKING = "parking",
+  EQUIPMENT_RENTAL = "equipment_rental",
+  OTHER = "other",
+}
+
+// How often a recurring charge's amount falls due
+export enum RecurringChargeFrequency {
+  PER_PERIOD = "per_period",
+  WEEKLY = "weekly",
+  MONTHLY = "monthly",
+}
+
+// Who a recurring charge applies to
+export enum RecurringChargeScope {
+  STAFF = "staff",
+  DEPARTMENT = "department",
+}
+
+// File layouts a payroll export can be rendered in
+export enum PayrollFormat {
+  STANDARD_CSV = "standard_csv",
+  ADP_CSV = "adp_csv",
+  PAYCHEX_CSV = "paychex_csv",
+  FIXED_WIDTH = "fixed_width",
+  XML = "xml",
+  XLSX = "xlsx",
+}
+
+// Values a mapped payroll file column can be filled from
+export enum PayrollField {
+  COMPANY_CODE = "company_code",
+  BATCH_ID = "batch_id",
+  EMPLOYEE_ID = "employee_id",
+  FIRST_NAME = "first_name",
+  LAST_NAME = "last_name",
+  DEDUCTION_CODE = "deduction_code",
+  AMOUNT = "amount",
+  CHARGE_TYPE = "charge_type",
+  // "deduction", or "earning" for imputed income
+  RECORD_TYPE = "record_type",
+  LINE_TYPE = "line_type",
+  PERIOD_START = "period_start",
+  PERIOD_END = "period_end",
+  CONSTANT = "constant",
+}
+
+// How far an export got when pushed to the payroll provider's API
+export enum PayrollDeliveryStatus {
+  NOT_SENT = "not_sent",
+  DELIVERED = "delivered",
+  PARTIAL = "partial",
+  FAILED = "failed",
+}
+
+export enum PayrollRowStatus {
+  SUBMITTED = "submitted",
+  FAILED = "failed",
+}
+
+export enum ChargeRunStatus {
+  COMMITTED = "committed",
+  ROLLED_BACK = "rolled_back",
+}
+
+// Generators a charge run can draw from
+export enum ChargeRunSource {
+  HOUSING = "housing",
+  TRANSPORT = "transport",
+  UTILITIES = "utilities",
+  RECURRING = "recurring",
+}
+
+// Where a pay date that falls on a weekend or holiday is moved to
+export enum PayDateShift {
+  PREVIOUS_BUSINESS_DAY = "previous_business_day",
+  NEXT_BUSINESS_DAY = "next_business_day",
+}
+
+export enum BillingCalendarIssueType {
+  GAP = "gap",
+  OVERLAP = "overlap",
+}
+
+export enum ChargeRunAction {
+  ADD = "add",
+  CHANGE = "change",
+  VOID = "void",
+  UNCHANGED = "unchanged",
+}
+
+// Rows in exported or cancelled periods are flagged apart from other errors
+export enum ChargeImportRowStatus {
+  VALID = "valid",
+  INVALID = "invalid",
+  LOCKED_PERIOD = "locked_period",
+}
+
+// What the unrecovered cost of a property or trip is split by: the number of
+// staff using it, or how much each used it (bed-nights, distance ridden)
+export enum CostAllocationBasis {
+  HEADCOUNT = "headcount",
+  USAGE = "usage",
+}
+
+export enum CostAllocationTarget {
+  DEPARTMENT = "department",
+  COST_CENTER = "cost_center",
+}
+
+export enum CostSourceType {
+  PROPERTY = "property",
+  TRIP = "trip",
+}
+
+// Posting an allocation again for the same period supersedes the earlier one
+// and reverses its journal entries
+export enum CostAllocationStatus {
+  POSTED = "posted",
+  SUPERSEDED = "superseded",
+}
+
 // Zod schemas for validation
 export const BillingStatusSchema = z.nativeEnum(BillingStatus);
 export const ChargeTypeSchema = z.nativeEnum(ChargeType);
+export const ChargeStatusSchema = z.nativeEnum(ChargeStatus);
+export const ChargeApprovalDecisionSchema = z.nativeEnum(ChargeApprovalDecision);
+export const ChargeAdjustmentTypeSchema = z.nativeEnum(ChargeAdjustmentType);
+export const AdjustmentReasonCodeSchema = z.nativeEnum(AdjustmentReasonCode);
 export const PayrollExportStatusSchema = z.nativeEnum(PayrollExportStatus);
+export const PayrollExportTypeSchema = z.nativeEnum(PayrollExportType);
+export const PayrollExportLineTypeSchema = z.nativeEnum(PayrollExportLineType);
+export const PayrollFormatSchema = z.nativeEnum(PayrollFormat);
+export const PayrollFieldSchema = z.nativeEnum(PayrollField);
+export const PayrollDeliveryStatusSchema = z.nativeEnum(PayrollDeliveryStatus);
+export const PayrollRowStatusSchema = z.nativeEnum(PayrollRowStatus);
+export const DeductionCapTypeSchema = z.nativeEnum(DeductionCapType);
+export const MinimumWageModeSchema = z.nativeEnum(MinimumWageMode);
+export const MinimumWageActionSchema = z.nativeEnum(MinimumWageAction);
+export const PayrollHoursSourceSchema = z.nativeEnum(PayrollHoursSource);
+export const LedgerEntryTypeSchema = z.nativeEnum(LedgerEntryType);
+export const DisputeTypeSchema = z.nativeEnum(DisputeType);
+export const DisputeStatusSchema = z.nativeEnum(DisputeStatus);
+export const DisputeResolutionSchema = z.nativeEnum(DisputeResolution);
+export const UtilityTypeSchema = z.nativeEnum(UtilityType);
+export const UtilityAllocationRuleSchema = z.nativeEnum(UtilityAllocationRule);
+export const RecurringChargeCategorySchema = z.nativeEnum(RecurringChargeCategory);
+export const RecurringChargeFrequencySchema = z.nativeEnum(
+  RecurringChargeFrequency
+);
+export const RecurringChargeScopeSchema = z.nativeEnum(RecurringChargeScope);
+export const ChargeRunStatusSchema = z.nativeEnum(ChargeRunStatus);
+export const ChargeRunSourceSchema = z.nativeEnum(ChargeRunSource);
+export const PayDateShiftSchema = z.nativeEnum(PayDateShift);
+export const ChargeImportRowStatusSchema = z.nativeEnum(ChargeImportRowStatus);
+export const CostAllocationBasisSchema = z.nativeEnum(CostAllocationBasis);
+export const CostAllocationTargetSchema = z.nativeEnum(CostAllocationTarget);
+export const CostSourceTypeSchema = z.nativeEnum(CostSourceType);
+export const CostAllocationStatusSchema = z.nativeEnum(CostAllocationStatus);
 
 // Billing Period schemas
 export const BillingPeriodSchema = z
@@ -35,6 +318,12 @@ export const BillingPeriodSchema = z
     endDate: z.date(),
     status: BillingStatusSchema,
     payrollExportDate: z.date().optional(),
+    // Set when the period comes from the billing calendar
+    payDate: z.date().optional(),
+    payrollRunDate: z.date().optional(),
+    // Set on corrections sub-periods opened against an exported period
+    parentPeriodId: z.string().uuid().optional(),
+    reopenReason: z.string().max(500).optional(),
     createdAt: z.date(),
     updatedAt: z.date(),
   })
@@ -48,6 +337,14 @@ export const BillingPeriodSchema = z
       message: "Payroll export date cannot be before billing period end date",
       path: ["payrollExportDate"],
     }
+  )
+  .refine(
+    (data) =>
+      !data.payDate || !data.payrollRunDate || data.payrollRunDate <= data.payDate,
+    {
+      message: "Payroll must be run on or before the pay date",
+      path: ["payrollRunDate"],
+    }
   );
 
 export const CreateBillingPeriodSchema = z.object({
@@ -55,10 +352,32 @@ export const CreateBillingPeriodSchema = z.object({
   endDate: z.date(),
   status: BillingStatusSchema.default(BillingStatus.DRAFT),
   payrollExportDate: z.date().optional(),
+  payDate: z.date().optional(),
+  payrollRunDate: z.date().optional(),
+  parentPeriodId: z.string().uuid().optional(),
+  reopenReason: z.string().max(500).optional(),
 });
 
 export const UpdateBillingPeriodSchema = CreateBillingPeriodSchema.partial();
 
+// Billing calendar generation: a year of back-to-back periods, one per pay date
+export const BillingCalendarSettingsSchema = z.object({
+  // First pay date of the year the calendar covers
+  seedPayDate: z.date(),
+  cycleDays: z
+    .number()
+    .int()
+    .min(7, "Billing cycles must be at least 7 days")
+    .max(31, "Billing cycles cannot be longer than 31 days"),
+  // Days from a period's last day to its (unshifted) pay date
+  payDateLagDays: z.number().int().min(0).max(31),
+  // Business days payroll is run before the pay date
+  payrollLeadDays: z.number().int().min(0).max(10),
+  payDateShift: PayDateShiftSchema,
+  // Company holidays on top of the observed US federal holidays
+  extraHolidays: z.array(z.date()).default([]),
+});
+
 // Charge schemas
 export const ChargeSchema = z.object({
   id: z.string().uuid(),
@@ -73,33 +392,116 @@ export const ChargeSchema = z.object({
   endDate: z.date().optional(),
   notes: z.string().optional(),
   metadata: z.record(z.any()).optional(),
+  status: ChargeStatusSchema.default(ChargeStatus.PENDING),
+  // Approvals given since the charge was last created or changed
+  approvalStep: z.number().int().min(0).default(0),
+  firstApprovedBy: z.string().uuid().optional(),
+  approvedBy: z.string().uuid().optional(),
+  approvedAt: z.date().optional(),
   createdAt: z.date(),
   updatedAt: z.date(),
 });
 
 export const CreateChargeSchema = ChargeSchema.omit({
   id: true,
+  status: true,
+  approvalStep: true,
+  firstApprovedBy: true,
+  approvedBy: true,
+  approvedAt: true,
   createdAt: true,
   updatedAt: true,
 });
 
-export const UpdateChargeSchema = CreateChargeSchema.partial().omit({
-  billingPeriodId: true,
+// Only what describes a charge can be edited; its amount, type and staff
+// member are corrected with adjustments
+export const UpdateChargeSchema = CreateChargeSchema.pick({
+  description: true,
+  startDate: true,
+  endDate: true,
+  notes: true,
+  metadata: true,
+}).partial();
+
+// Charge adjustment schemas
+// Adjustments are append-only. They belong to the original charge's period
+// and reach payroll with its next (corrections) export.
+export const ChargeAdjustmentSchema = z.object({
+  id: z.string().uuid(),
+  chargeId: z.string().uuid(),
+  staffId: z.string().uuid(),
+  billingPeriodId: z.string().uuid(),
+  type: ChargeAdjustmentTypeSchema,
+  reasonCode: AdjustmentReasonCodeSchema,
+  // Always positive; credit notes and reversals take it off the charge
+  amount: z.number().positive("Adjustment amount must be greater than zero"),
+  description: z.string().min(1, "Description is required").max(500),
+  createdBy: z.string().uuid().optional(),
+  createdAt: z.date(),
 });
 
+const adjustmentAmountCheck = (data: {
+  type: ChargeAdjustmentType;
+  amount?: number;
+}) => data.type === ChargeAdjustmentType.REVERSAL || data.amount !== undefined;
+
+// Reversals take what is left of the charge, so they carry no amount
+export const CreateChargeAdjustmentSchema = z
+  .object({
+    chargeId: z.string().uuid("Please select a charge"),
+    type: ChargeAdjustmentTypeSchema,
+    reasonCode: AdjustmentReasonCodeSchema,
+    amount: z
+      .number()
+      .positive("Adjustment amount must be greater than zero")
+      .optional(),
+    description: z
+      .string()
+      .min(1, "Explain the adjustment")
+      .max(500, "Description must be 500 characters or less"),
+  })
+  .refine(adjustmentAmountCheck, {
+    message: "Enter the amount to adjust by",
+    path: ["amount"],
+  });
+
 // Payroll Export schemas
+
+// Outcome of pushing one export row (an employee's deductions) to the provider
+export const PayrollRowResultSchema = z.object({
+  employeeId: z.string(),
+  lineType: PayrollExportLineTypeSchema.optional(),
+  amount: z.number(),
+  status: PayrollRowStatusSchema,
+  // Provider's worker and event identifiers, when known
+  workerId: z.string().optional(),
+  eventId: z.string().optional(),
+  error: z.string().optional(),
+  attempts: z.number().int().min(1),
+  submittedAt: z.date(),
+});
+
 export const PayrollExportSchema = z.object({
   id: z.string().uuid(),
   billingPeriodId: z.string().uuid(),
   exportDate: z.date(),
   fileName: z.string().min(1, "File name is required").max(255),
   recordCount: z.number().int().min(0),
-  totalAmount: z.number().min(0),
+  // Net amount; corrections exports can be negative
+  totalAmount: z.number(),
   status: PayrollExportStatusSchema,
-  format: z.enum(['csv', 'excel', 'json']),
+  format: z.enum(['csv', 'excel', 'json', 'xml', 'txt']),
+  // Treated as a full export when missing
+  exportType: PayrollExportTypeSchema.optional(),
+  // Previous successful export this one applies deltas on top of
+  supersedesExportId: z.string().uuid().optional(),
   fileSize: z.number().int().min(0).optional(),
   errorMessage: z.string().optional(),
   metadata: z.record(z.any()).optional(),
+  // Only set once the export has been pushed through an API
+  deliveryStatus: PayrollDeliveryStatusSchema.optional(),
+  rowResults: z.array(PayrollRowResultSchema).optional(),
+  deliveredAt: z.date().optional(),
   createdAt: z.date(),
   updatedAt: z.date().optional(),
 });
@@ -114,15 +516,610 @@ export const UpdatePayrollExportSchema =
     billingPeriodId: true,
   });
 
+// Payroll format mapping schemas
+export const PayrollColumnSchema = z
+  .object({
+    field: PayrollFieldSchema,
+    header: z.string().min(1, "Column header is required").max(100),
+    // Fixed-width layouts only
+    width: z.number().int().positive().max(200).optional(),
+    align: z.enum(["left", "right"]).optional(),
+    dateFormat: z.enum(["iso", "us", "compact"]).optional(),
+    value: z.string().max(100).optional(),
+  })
+  .refine((data) => data.field !== PayrollField.CONSTANT || data.value, {
+    message: "Constant columns need a value",
+    path: ["value"],
+  });
+
+export const PayrollFormatMappingSchema = z.object({
+  id: z.string().uuid(),
+  companyCode: z.string().min(1, "Company code is required").max(20),
+  format: PayrollFormatSchema,
+  columns: z.array(PayrollColumnSchema).min(1, "At least one column is required"),
+  deductionCodes: z.record(ChargeTypeSchema, z.string().max(20)),
+  // Earnings code imputed income is reported under
+  imputedIncomeCode: z.string().max(20).optional(),
+  batchId: z.string().max(20).optional(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+export const CreatePayrollFormatMappingSchema = PayrollFormatMappingSchema.omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const UpdatePayrollFormatMappingSchema =
+  CreatePayrollFormatMappingSchema.partial().omit({
+    companyCode: true,
+    format: true,
+  });
+
+// Deduction cap schemas
+// A cap limits how much of one charge type (or of all charges, when
+// `chargeType` is missing) one paycheck may deduct. Staff-specific caps
+// override the defaults; anything over the cap carries forward.
+const BaseDeductionCapSchema = z.object({
+  id: z.string().uuid(),
+  // Applies to every staff member when missing
+  staffId: z.string().uuid().optional(),
+  chargeType: ChargeTypeSchema.optional(),
+  capType: DeductionCapTypeSchema,
+  // Dollars per paycheck, or a percentage of gross pay
+  amount: z.number().min(0, "Cap cannot be negative"),
+  effectiveFrom: z.date(),
+  effectiveTo: z.date().optional(),
+  notes: z.string().max(500).optional(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+const deductionCapPercentCheck = (data: {
+  capType?: DeductionCapType;
+  amount?: number;
+}) =>
+  data.capType !== DeductionCapType.PERCENT_OF_GROSS ||
+  data.amount === undefined ||
+  data.amount <= 100;
+
+export const DeductionCapSchema = BaseDeductionCapSchema.refine(
+  deductionCapPercentCheck,
+  { message: "Percentage caps cannot exceed 100%", path: ["amount"] }
+).refine((data) => !data.effectiveTo || data.effectiveFrom <= data.effectiveTo, {
+  message: "Effective end date must be on or after the start date",
+  path: ["effectiveTo"],
+});
+
+export const CreateDeductionCapSchema = BaseDeductionCapSchema.omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).refine(deductionCapPercentCheck, {
+  message: "Percentage caps cannot exceed 100%",
+  path: ["amount"],
+});
+
+export const UpdateDeductionCapSchema = BaseDeductionCapSchema.pick({
+  capType: true,
+  amount: true,
+  effectiveTo: true,
+  notes: true,
+}).partial();
+
+// Signed movement in a staff member's carried-forward balance
+export const DeductionBalanceEntrySchema = z.object({
+  id: z.string().uuid(),
+  staffId: z.string().uuid(),
+  chargeType: ChargeTypeSchema,
+  // Positive when a cap held an amount back, negative when it was collected
+  amount: z.number(),
+  // Missing when a ledger payment, credit or write-off settled the balance
+  billingPeriodId: z.string().uuid().optional(),
+  payrollExportId: z.string().uuid().optional(),
+  ledgerEntryId: z.string().uuid().optional(),
+  createdAt: z.date(),
+});
+
+// Minimum wage schemas
+// Rates are per jurisdiction: "US" for the federal rate or a two-letter state
+// code. Where both apply, the higher one is the floor.
+const BaseMinimumWageRateSchema = z.object({
+  id: z.string().uuid(),
+  jurisdiction: z
+    .string()
+    .regex(/^[A-Z]{2}$/, "Use US for federal or a two-letter state code"),
+  hourlyRate: z.number().positive("Hourly rate must be greater than zero"),
+  effectiveFrom: z.date(),
+  effectiveTo: z.date().optional(),
+  notes: z.string().max(500).optional(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+const minimumWageDatesCheck = (data: {
+  effectiveFrom?: Date;
+  effectiveTo?: Date;
+}) => !data.effectiveFrom || !data.effectiveTo || data.effectiveFrom <= data.effectiveTo;
+
+export const MinimumWageRateSchema = BaseMinimumWageRateSchema.refine(
+  minimumWageDatesCheck,
+  {
+    message: "Effective end date must be on or after the start date",
+    path: ["effectiveTo"],
+  }
+);
+
+export const CreateMinimumWageRateSchema = BaseMinimumWageRateSchema.omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).refine(minimumWageDatesCheck, {
+  message: "Effective end date must be on or after the start date",
+  path: ["effectiveTo"],
+});
+
+export const UpdateMinimumWageRateSchema = BaseMinimumWageRateSchema.pick({
+  hourlyRate: true,
+  effectiveTo: true,
+  notes: true,
+}).partial();
+
+// Hours worked and gross pay for the paycheck a billing period is deducted from
+export const PayrollHoursSchema = z.object({
+  id: z.string().uuid(),
+  staffId: z.string().uuid(),
+  billingPeriodId: z.string().uuid(),
+  hoursWorked: z.number().min(0, "Hours cannot be negative"),
+  grossPay: z.number().min(0, "Gross pay cannot be negative"),
+  source: PayrollHoursSourceSchema,
+  importedAt: z.date(),
+});
+
+export const CreatePayrollHoursSchema = PayrollHoursSchema.omit({
+  id: true,
+  importedAt: true,
+});
+
+// Staff ledger schemas
+// Every movement on a staff member's account is one entry with either a debit
+// (the staff member owes more) or a credit (they owe less). The balance is
+// debits minus credits; entries are never edited, only offset by new ones.
+export const LedgerEntrySchema = z.object({
+  id: z.string().uuid(),
+  staffId: z.string().uuid(),
+  entryType: LedgerEntryTypeSchema,
+  chargeType: ChargeTypeSchema.optional(),
+  debit: z.number().min(0),
+  credit: z.number().min(0),
+  entryDate: z.date(),
+  description: z.string().min(1).max(500),
+  reference: z.string().max(100).optional(),
+  chargeId: z.string().uuid().optional(),
+  billingPeriodId: z.string().uuid().optional(),
+  payrollExportId: z.string().uuid().optional(),
+  createdBy: z.string().uuid().optional(),
+  createdAt: z.date(),
+});
+
+// Entries finance records by hand; charges and payroll deductions are posted
+// by exports
+export const MANUAL_LEDGER_ENTRY_TYPES = [
+  LedgerEntryType.CASH_PAYMENT,
+  LedgerEntryType.CREDIT,
+  LedgerEntryType.WRITE_OFF,
+  LedgerEntryType.REFUND,
+] as const;
+
+export const CreateLedgerAdjustmentSchema = z.object({
+  staffId: z.string().uuid(),
+  entryType: z.enum(MANUAL_LEDGER_ENTRY_TYPES),
+  chargeType: ChargeTypeSchema.optional(),
+  amount: z.number().positive("Amount must be greater than zero"),
+  entryDate: z.date(),
+  description: z
+    .string()
+    .min(1, "Description is required")
+    .max(500, "Description must be 500 characters or less"),
+  reference: z.string().max(100).optional(),
+});
+
+// Billing dispute schemas
+// A dispute holds its charge out of payroll exports until a reviewer resolves
+// it. Credits are taken off the charge the next time its period is exported.
+export const BillingDisputeSchema = z.object({
+  id: z.string().uuid(),
+  chargeId: z.string().uuid(),
+  staffId: z.string().uuid(),
+  type: DisputeTypeSchema,
+  subject: z.string().min(1).max(100),
+  description: z.string().min(1).max(1000),
+  expectedAmount: z.number().min(0).optional(),
+  status: DisputeStatusSchema,
+  // Charge status to restore once the dispute is resolved; set by the database
+  previousChargeStatus: z.string(),
+  assignedTo: z.string().uuid().optional(),
+  assignedAt: z.date().optional(),
+  resolution: DisputeResolutionSchema.optional(),
+  creditAmount: z.number().min(0),
+  resolutionNotes: z.string().max(1000).optional(),
+  resolvedBy: z.string().uuid().optional(),
+  resolvedAt: z.date().optional(),
+  createdBy: z.string().uuid().optional(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+export const CreateBillingDisputeSchema = z.object({
+  chargeId: z.string().uuid("Please select a charge"),
+  staffId: z.string().uuid(),
+  type: DisputeTypeSchema,
+  subject: z
+    .string()
+    .min(1, "Subject is required")
+    .max(100, "Subject must be 100 characters or less"),
+  description: z
+    .string()
+    .min(10, "Please provide more details")
+    .max(1000, "Description must be 1000 characters or less"),
+  expectedAmount: z.number().min(0).optional(),
+});
+
+export const ResolveBillingDisputeSchema = z
+  .object({
+    resolution: DisputeResolutionSchema,
+    // Required for partial credits; full credits take the whole charge
+    creditAmount: z.number().positive("Credit must be greater than zero").optional(),
+    notes: z
+      .string()
+      .min(1, "Explain the decision to the staff member")
+      .max(1000, "Notes must be 1000 characters or less"),
+  })
+  .refine(
+    (data) =>
+      data.resolution !== DisputeResolution.PARTIAL_CREDIT ||
+      data.creditAmount !== undefined,
+    { message: "Enter the amount to credit", path: ["creditAmount"] }
+  );
+
+// Internal comments are only visible to reviewers
+export const DisputeCommentSchema = z.object({
+  id: z.string().uuid(),
+  disputeId: z.string().uuid(),
+  authorId: z.string().uuid().optional(),
+  body: z.string().min(1).max(2000),
+  internal: z.boolean().default(false),
+  createdAt: z.date(),
+});
+
+// A file stored in the dispute-evidence bucket
+export const DisputeEvidenceSchema = z.object({
+  id: z.string().uuid(),
+  disputeId: z.string().uuid(),
+  fileName: z.string().min(1).max(255),
+  filePath: z.string().min(1),
+  contentType: z.string().optional(),
+  fileSize: z.number().int().min(0),
+  uploadedBy: z.string().uuid().optional(),
+  createdAt: z.date(),
+});
+
+// Utility bill schemas
+// A property's bill for one service period. The charge run of the billing
+// period the service period ends in splits it across the occupants.
+const BaseUtilityBillSchema = z.object({
+  id: z.string().uuid(),
+  propertyId: z.string().uuid("Please select a property"),
+  utilityType: UtilityTypeSchema,
+  provider: z.string().max(100).optional(),
+  accountNumber: z.string().max(100).optional(),
+  // Both days are included in the service period
+  serviceStart: z.date(),
+  serviceEnd: z.date(),
+  amount: z.number().positive("Bill amount must be greater than zero"),
+  allocationRule: UtilityAllocationRuleSchema,
+  // The most one occupant pays for a whole service period under the capped rule
+  capPerPerson: z.number().positive("Cap must be greater than zero").optional(),
+  notes: z.string().max(500).optional(),
+  createdBy: z.string().uuid().optional(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+const utilityBillDatesCheck = (data: { serviceStart?: Date; serviceEnd?: Date }) =>
+  !data.serviceStart || !data.serviceEnd || data.serviceStart <= data.serviceEnd;
+
+const utilityBillCapCheck = (data: {
+  allocationRule?: UtilityAllocationRule;
+  capPerPerson?: number;
+}) =>
+  data.allocationRule !== UtilityAllocationRule.CAPPED ||
+  data.capPerPerson !== undefined;
+
+export const UtilityBillSchema = BaseUtilityBillSchema.refine(
+  utilityBillDatesCheck,
+  {
+    message: "Service end date must be on or after the start date",
+    path: ["serviceEnd"],
+  }
+).refine(utilityBillCapCheck, {
+  message: "Enter the most one person pays",
+  path: ["capPerPerson"],
+});
+
+export const CreateUtilityBillSchema = BaseUtilityBillSchema.omit({
+  id: true,
+  createdBy: true,
+  createdAt: true,
+  updatedAt: true,
+})
+  .refine(utilityBillDatesCheck, {
+    message: "Service end date must be on or after the start date",
+    path: ["serviceEnd"],
+  })
+  .refine(utilityBillCapCheck, {
+    message: "Enter the most one person pays",
+    path: ["capPerPerson"],
+  });
+
+export const UpdateUtilityBillSchema = BaseUtilityBillSchema.omit({
+  id: true,
+  propertyId: true,
+  createdBy: true,
+  createdAt: true,
+  updatedAt: true,
+}).partial();
+
+// Recurring charge schemas
+// A template the charge run turns into one charge per billing period for each
+// staff member it applies to, while it is active
+const BaseRecurringChargeSchema = z.object({
+  id: z.string().uuid(),
+  name: z.string().min(1, "Name is required").max(100),
+  category: RecurringChargeCategorySchema,
+  scope: RecurringChargeScopeSchema,
+  staffId: z.string().uuid().optional(),
+  department: z.string().min(1).max(100).optional(),
+  // Due once per `frequency`
+  amount: z.number().positive("Amount must be greater than zero"),
+  frequency: RecurringChargeFrequencySchema,
+  // Both days are included
+  startDate: z.date(),
+  endDate: z.date().optional(),
+  // Whether periods the charge only partly covers are charged in proportion
+  prorate: z.boolean(),
+  isActive: z.boolean(),
+  notes: z.string().max(500).optional(),
+  createdBy: z.string().uuid().optional(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+const recurringChargeTargetCheck = (data: {
+  scope: RecurringChargeScope;
+  staffId?: string;
+  department?: string;
+}) =>
+  data.scope === RecurringChargeScope.STAFF
+    ? !!data.staffId && !data.department
+    : !!data.department && !data.staffId;
+
+const recurringChargeDatesCheck = (data: { startDate?: Date; endDate?: Date }) =>
+  !data.startDate || !data.endDate || data.startDate <= data.endDate;
+
+export const RecurringChargeSchema = BaseRecurringChargeSchema.refine(
+  recurringChargeTargetCheck,
+  {
+    message: "Choose the staff member or department the charge applies to",
+    path: ["scope"],
+  }
+).refine(recurringChargeDatesCheck, {
+  message: "End date must be on or after the start date",
+  path: ["endDate"],
+});
+
+export const CreateRecurringChargeSchema = BaseRecurringChargeSchema.omit({
+  id: true,
+  createdBy: true,
+  createdAt: true,
+  updatedAt: true,
+})
+  .refine(recurringChargeTargetCheck, {
+    message: "Choose the staff member or department the charge applies to",
+    path: ["scope"],
+  })
+  .refine(recurringChargeDatesCheck, {
+    message: "End date must be on or after the start date",
+    path: ["endDate"],
+  });
+
+export const UpdateRecurringChargeSchema = BaseRecurringChargeSchema.omit({
+  id: true,
+  scope: true,
+  staffId: true,
+  department: true,
+  createdBy: true,
+  createdAt: true,
+  updatedAt: true,
+})
+  .partial()
+  .refine(recurringChargeDatesCheck, {
+    message: "End date must be on or after the start date",
+    path: ["endDate"],
+  });
+
+// Charge approval schemas
+
+// Charges a rule matches need a second approver. A rule matches on charge
+// type, on an effective amount above the threshold, or on both
+const BaseChargeApprovalRuleSchema = z.object({
+  id: z.string().uuid(),
+  name: z.string().min(1, "Name is required").max(100),
+  chargeType: ChargeTypeSchema.optional(),
+  amountThreshold: z.number().min(0).optional(),
+  isActive: z.boolean(),
+  notes: z.string().max(500).optional(),
+  createdBy: z.string().uuid().optional(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+const approvalRuleCriteriaCheck = (data: {
+  chargeType?: ChargeType;
+  amountThreshold?: number;
+}) => !!data.chargeType || data.amountThreshold !== undefined;
+
+export const ChargeApprovalRuleSchema = BaseChargeApprovalRuleSchema.refine(
+  approvalRuleCriteriaCheck,
+  {
+    message: "Choose a charge type, an amount threshold or both",
+    path: ["amountThreshold"],
+  }
+);
+
+export const CreateChargeApprovalRuleSchema = BaseChargeApprovalRuleSchema.omit(
+  {
+    id: true,
+    createdBy: true,
+    createdAt: true,
+    updatedAt: true,
+  }
+).refine(approvalRuleCriteriaCheck, {
+  message: "Choose a charge type, an amount threshold or both",
+  path: ["amountThreshold"],
+});
+
+export const UpdateChargeApprovalRuleSchema = BaseChargeApprovalRuleSchema.omit({
+  id: true,
+  createdBy: true,
+  createdAt: true,
+  updatedAt: true,
+}).partial();
+
+// One approver's decision on a charge
+export const ChargeApprovalSchema = z.object({
+  id: z.string().uuid(),
+  chargeId: z.string().uuid(),
+  // 1 for the first approver, 2 for the second
+  step: z.number().int().min(1),
+  decision: ChargeApprovalDecisionSchema,
+  // Effective amount the decision was made on
+  amount: z.number(),
+  comment: z.string().max(500).optional(),
+  decidedBy: z.string().uuid(),
+  decidedAt: z.date(),
+});
+
+// Charge Run schemas
+export const ChargeRunSchema = z.object({
+  id: z.string().uuid(),
+  billingPeriodId: z.string().uuid(),
+  sources: z.array(ChargeRunSourceSchema).min(1),
+  status: ChargeRunStatusSchema,
+  addedCount: z.number().int().min(0),
+  changedCount: z.number().int().min(0),
+  voidedCount: z.number().int().min(0),
+  unchangedCount: z.number().int().min(0),
+  totalDelta: z.number(),
+  notes: z.string().max(500).optional(),
+  committedBy: z.string().uuid().optional(),
+  committedAt: z.date(),
+  rolledBackBy: z.string().uuid().optional(),
+  rolledBackAt: z.date().optional(),
+  createdAt: z.date(),
+});
+
+// Charge import schemas
+// A file of one-off charges committed together; the charges keep the import id
+export const ChargeImportSchema = z.object({
+  id: z.string().uuid(),
+  fileName: z.string().min(1).max(255),
+  rowCount: z.number().int().min(1),
+  totalAmount: z.number(),
+  importedBy: z.string().uuid().optional(),
+  importedAt: z.date(),
+});
+
+// Cost allocation schemas
+// The company-borne part of a period's housing and transport costs, posted
+// to finance as one expense transaction per department or cost centre
+export const CostAllocationSchema = z.object({
+  id: z.string().uuid(),
+  billingPeriodId: z.string().uuid(),
+  basis: CostAllocationBasisSchema,
+  target: CostAllocationTargetSchema,
+  status: CostAllocationStatusSchema,
+  totalCost: z.number().min(0),
+  totalRecovered: z.number().min(0),
+  totalAllocated: z.number().min(0),
+  entryCount: z.number().int().min(0),
+  createdBy: z.string().uuid().optional(),
+  createdAt: z.date(),
+  supersededAt: z.date().optional(),
+});
+
 // TypeScript interfaces (inferred from Zod schemas)
 export type BillingPeriod = z.infer<typeof BillingPeriodSchema>;
 export type CreateBillingPeriod = z.infer<typeof CreateBillingPeriodSchema>;
 export type UpdateBillingPeriod = z.infer<typeof UpdateBillingPeriodSchema>;
+export type BillingCalendarSettings = z.infer<
+  typeof BillingCalendarSettingsSchema
+>;
 
 export type Charge = z.infer<typeof ChargeSchema>;
 export type CreateCharge = z.infer<typeof CreateChargeSchema>;
 export type UpdateCharge = z.infer<typeof UpdateChargeSchema>;
+export type ChargeAdjustment = z.infer<typeof ChargeAdjustmentSchema>;
+export type CreateChargeAdjustment = z.infer<
+  typeof CreateChargeAdjustmentSchema
+>;
+
+export type ChargeRun = z.infer<typeof ChargeRunSchema>;
+export type ChargeImport = z.infer<typeof ChargeImportSchema>;
+export type CostAllocation = z.infer<typeof CostAllocationSchema>;
+
+export type PayrollColumn = z.infer<typeof PayrollColumnSchema>;
+export type PayrollFormatMapping = z.infer<typeof PayrollFormatMappingSchema>;
+export type CreatePayrollFormatMapping = z.infer<
+  typeof CreatePayrollFormatMappingSchema
+>;
+export type UpdatePayrollFormatMapping = z.infer<
+  typeof UpdatePayrollFormatMappingSchema
+>;
+
+export type DeductionCap = z.infer<typeof DeductionCapSchema>;
+export type CreateDeductionCap = z.infer<typeof CreateDeductionCapSchema>;
+export type UpdateDeductionCap = z.infer<typeof UpdateDeductionCapSchema>;
+export type DeductionBalanceEntry = z.infer<typeof DeductionBalanceEntrySchema>;
+export type MinimumWageRate = z.infer<typeof MinimumWageRateSchema>;
+export type CreateMinimumWageRate = z.infer<typeof CreateMinimumWageRateSchema>;
+export type UpdateMinimumWageRate = z.infer<typeof UpdateMinimumWageRateSchema>;
+export type PayrollHours = z.infer<typeof PayrollHoursSchema>;
+export type CreatePayrollHours = z.infer<typeof CreatePayrollHoursSchema>;
+export type LedgerEntry = z.infer<typeof LedgerEntrySchema>;
+export type CreateLedgerAdjustment = z.infer<typeof CreateLedgerAdjustmentSchema>;
+export type BillingDispute = z.infer<typeof BillingDisputeSchema>;
+export type CreateBillingDispute = z.infer<typeof CreateBillingDisputeSchema>;
+export type ResolveBillingDispute = z.infer<typeof ResolveBillingDisputeSchema>;
+export type DisputeComment = z.infer<typeof DisputeCommentSchema>;
+export type DisputeEvidence = z.infer<typeof DisputeEvidenceSchema>;
+export type UtilityBill = z.infer<typeof UtilityBillSchema>;
+export type CreateUtilityBill = z.infer<typeof CreateUtilityBillSchema>;
+export type UpdateUtilityBill = z.infer<typeof UpdateUtilityBillSchema>;
+export type RecurringCharge = z.infer<typeof RecurringChargeSchema>;
+export type CreateRecurringCharge = z.infer<typeof CreateRecurringChargeSchema>;
+export type UpdateRecurringCharge = z.infer<typeof UpdateRecurringChargeSchema>;
+export type ChargeApprovalRule = z.infer<typeof ChargeApprovalRuleSchema>;
+export type CreateChargeApprovalRule = z.infer<
+  typeof CreateChargeApprovalRuleSchema
+>;
+export type UpdateChargeApprovalRule = z.infer<
+  typeof UpdateChargeApprovalRuleSchema
+>;
+export type ChargeApproval = z.infer<typeof ChargeApprovalSchema>;
 
+export type PayrollRowResult = z.infer<typeof PayrollRowResultSchema>;
 export type PayrollExport = z.infer<typeof PayrollExportSchema>;
 export type CreatePayrollExport = z.infer<typeof CreatePayrollExportSchema>;
 export type UpdatePayrollExport = z.infer<typeof UpdatePayrollExportSchema>;
@@ -147,6 +1144,7 @@ export interface ChargeWithDetails extends Charge {
     type: "room_assignment" | "trip";
     details: any;
   };
+  adjustments?: ChargeAdjustment[];
 }
 
 export interface PayrollExportWithDetails extends PayrollExport {
@@ -216,7 +1214,554 @@ export type PayrollExportData = {
   utilityCharges: number;
   transportCharges: number;
   otherCharges: number;
+  // Taxable housing subsidy, an earning rather than a deduction
+  imputedIncome?: number;
   billingPeriod: string;
+  lineType?: PayrollExportLineType;
+};
+
+// Imputed income travels in payroll files alongside the deductions, as the
+// "charge type" of an earnings record
+export const IMPUTED_INCOME = "imputed_income";
+
+// One deduction for one employee, the unit most payroll imports work in.
+// Imputed income records carry the earnings code in `deductionCode`.
+export type PayrollDeductionRecord = {
+  companyCode: string;
+  batchId: string;
+  employeeId: string;
+  firstName: string;
+  lastName: string;
+  chargeType: ChargeType | typeof IMPUTED_INCOME;
+  deductionCode: string;
+  amount: number;
+  lineType?: PayrollExportLineType;
+  periodStart: Date;
+  periodEnd: Date;
+};
+
+export type PayrollFileContext = {
+  exportType: PayrollExportType;
+  periodStart: Date;
+  periodEnd: Date;
+  generatedAt: Date;
+};
+
+// A rendered payroll file, byte for byte
+export type PayrollFile = {
+  format: PayrollFormat;
+  fileName: string;
+  mimeType: string;
+  bytes: Uint8Array;
+};
+
+// Result of one push of an export's rows to the payroll provider
+export type PayrollDeliverySummary = {
+  deliveryStatus: PayrollDeliveryStatus;
+  attempted: number;
+  submitted: number;
+  failed: number;
+  rowResults: PayrollRowResult[];
+};
+
+export type ChargeAmounts = Record<ChargeType, number>;
+
+// What the caps allowed for one staff member in one export
+export type DeductionCapOutcome = {
+  staffId: string;
+  // Net charges in this export and balance carried in from earlier periods
+  due: ChargeAmounts;
+  carriedIn: ChargeAmounts;
+  deducted: ChargeAmounts;
+  carryForward: ChargeAmounts;
+  // Charge types whose cap was hit, "total" for the overall cap, or
+  // "minimum_wage" when the wage floor held deductions back
+  limitedBy: (ChargeType | "total" | "minimum_wage")[];
+  warnings: string[];
+};
+
+// Whether one staff member's deductions keep their pay above minimum wage
+export type MinimumWageDecision = {
+  staffId: string;
+  action: MinimumWageAction;
+  jurisdiction?: string;
+  minimumWage?: number;
+  hoursWorked?: number;
+  grossPay?: number;
+  // Most the paycheck can deduct before pay falls below the floor
+  maxDeduction?: number;
+  // Deductions before and after the wage check
+  requested: number;
+  deducted: number;
+};
+
+// A ledger entry with the account balance after it
+export type LedgerEntryWithBalance = LedgerEntry & {
+  balance: number;
+};
+
+// A staff member's account over one date range
+export type LedgerStatement = {
+  staffId: string;
+  periodStart: Date;
+  periodEnd: Date;
+  openingBalance: number;
+  entries: LedgerEntryWithBalance[];
+  // Net movement per entry type, signed like the balance
+  totals: Record<LedgerEntryType, number>;
+  closingBalance: number;
+};
+
+// One staff member's position for finance reporting
+export type StaffLedgerBalance = {
+  staffId: string;
+  staff: {
+    firstName: string;
+    lastName: string;
+    employeeId: string;
+  };
+  totals: Record<LedgerEntryType, number>;
+  balance: number;
+  lastEntryDate: Date;
+};
+
+// A dispute with the charge it is about and everything attached to it
+export type BillingDisputeWithDetails = BillingDispute & {
+  charge: {
+    type: ChargeType;
+    amount: number;
+    description: string;
+    billingPeriodId: string;
+    periodStart?: Date;
+    periodEnd?: Date;
+    // Credits on charges in exported periods reach payroll through a
+    // corrections sub-period
+    periodStatus?: BillingStatus;
+  };
+  staff?: {
+    firstName: string;
+    lastName: string;
+    employeeId: string;
+  };
+  comments: DisputeComment[];
+  evidence: DisputeEvidence[];
+};
+
+// A stretch of nights one staff member spent in a room of the billed property
+export type OccupancyStay = {
+  assignmentId: string;
+  staffId: string;
+  roomId: string;
+  roomNumber: string;
+  startDate: Date;
+  // Move-out day, which is not an occupied night; open-ended when missing
+  endDate?: Date;
+};
+
+// One occupant's part of a utility bill
+export type UtilityShare = {
+  staffId: string;
+  rooms: string[];
+  bedDays: number;
+  amount: number;
+  // Whether the capped rule limited this share
+  capped: boolean;
+};
+
+export type UtilityAllocation = {
+  billId?: string;
+  rule: UtilityAllocationRule;
+  billAmount: number;
+  serviceDays: number;
+  totalBedDays: number;
+  shares: UtilityShare[];
+  allocated: number;
+  // Left with the property when nobody lived there or every share hit its cap
+  unallocated: number;
+};
+
+// What one recurring charge comes to in one billing period
+export type RecurringChargeOccurrence = {
+  // Both days included; the part of the period the charge was active
+  activeFrom: Date;
+  activeTo: Date;
+  // The amount due for the whole period and the share of it charged
+  amount: number;
+  prorationFactor: number;
+};
+
+export type PayoffScheduleEntry = {
+  periodStart: Date;
+  periodEnd: Date;
+  newCharges: number;
+  recovered: number;
+  remainingBalance: number;
+};
+
+// A charge as it stands when an export is built
+export type ExportableCharge = {
+  id: string;
+  staffId: string;
+  type: ChargeType;
+  // Effective (prorated) amount less dispute credits; zero once cancelled
+  amount: number;
+};
+
+// One signed line sent to payroll for a single charge
+export type PayrollExportLine = {
+  chargeId: string;
+  staffId: string;
+  chargeType: ChargeType;
+  lineType: PayrollExportLineType;
+  amount: number;
+};
+
+// Housing subsidy one staff member received in a billing period: the fair
+// market rent of the nights they stayed less the rent they were charged for
+// them, never below zero
+export type ImputedIncomeItem = {
+  staffId: string;
+  marketValue: number;
+  rentCharged: number;
+  amount: number;
+  nights: number;
+  // Nights no rate card sets a fair market rent for
+  unvaluedNights: number;
+};
+
+// One signed line of imputed income sent to payroll for a staff member, with
+// the market value and rent it was worked out from at the time
+export type ImputedIncomeLine = {
+  staffId: string;
+  lineType: PayrollExportLineType;
+  amount: number;
+  marketValue: number;
+  rentCharged: number;
+};
+
+// Imputed income reported to payroll for one staff member in a tax year
+export type ImputedIncomeYtd = {
+  staffId: string;
+  employeeId?: string;
+  name: string;
+  department?: string;
+  year: number;
+  marketValue: number;
+  rentCharged: number;
+  imputedIncome: number;
+  periods: {
+    billingPeriodId: string;
+    startDate: Date;
+    endDate: Date;
+    payDate?: Date;
+    marketValue: number;
+    rentCharged: number;
+    imputedIncome: number;
+  }[];
+};
+
+// Facts about a period that transition guards are evaluated against
+export type BillingPeriodGuardContext = {
+  pendingDisputes: number;
+  chargeCount: number;
+};
+
+export type BillingPeriodTransition = {
+  from: BillingStatus;
+  to: BillingStatus;
+  permission: string;
+  label: string;
+};
+
+// A day off that pay dates are moved off of
+export type PayrollHoliday = {
+  date: Date;
+  name: string;
+};
+
+// Period dates as the calendar generator compares them; id is set on periods
+// that already exist
+export type CalendarPeriod = {
+  id?: string;
+  startDate: Date;
+  endDate: Date;
+};
+
+// A billing period the calendar proposes and the payroll run it maps to
+export type BillingCalendarEntry = {
+  startDate: Date;
+  endDate: Date;
+  scheduledPayDate: Date;
+  payDate: Date;
+  payrollRunDate: Date;
+  // Why the pay date was moved off its scheduled day
+  shiftReason?: string;
+  // An existing period with the same dates ("exists") or only some of them
+  // ("overlap"); such entries are not created
+  conflict?: { type: "exists" | "overlap"; periodId: string };
+};
+
+// A stretch of days no period covers, or more than one does
+export type BillingCalendarIssue = {
+  type: BillingCalendarIssueType;
+  startDate: Date;
+  endDate: Date;
+  days: number;
+  // Existing periods on either side of, or sharing, the stretch
+  periodIds: string[];
+};
+
+export type BillingCalendar = {
+  entries: BillingCalendarEntry[];
+  issues: BillingCalendarIssue[];
+};
+
+// Where a charge stands in its approval
+export type ChargeApprovalState = Pick<
+  Charge,
+  "status" | "approvalStep" | "firstApprovedBy" | "approvedBy" | "approvedAt"
+>;
+
+// How many approvals a charge needs and the rules asking for the second one
+export type ChargeApprovalRequirement = {
+  approvalsRequired: number;
+  rules: ChargeApprovalRule[];
+};
+
+// A pending charge as the approval queue shows it
+export type PendingChargeApproval = {
+  chargeId: string;
+  staffId: string;
+  staffName: string;
+  employeeId?: string;
+  billingPeriodId: string;
+  periodStart: Date;
+  periodEnd: Date;
+  type: ChargeType;
+  description: string;
+  amount: number;
+  approvalStep: number;
+  firstApprovedBy?: string;
+  requirement: ChargeApprovalRequirement;
+  createdAt: Date;
+};
+
+// Outcome of deciding several charges at once
+export type ChargeApprovalResult = {
+  decided: string[];
+  failed: { chargeId: string; reason: string }[];
+};
+
+// A charge's billed amount once its adjustments are applied
+export type ChargeAdjustmentSummary = {
+  effectiveAmount: number;
+  credited: number;
+  debited: number;
+  netAmount: number;
+  reversed: boolean;
+};
+
+// A charge already stored in the period, as seen by a charge run
+export type ExistingCharge = {
+  id: string;
+  staffId: string;
+  type: ChargeType;
+  amount: number;
+  prorationFactor: number;
+  description: string;
+  sourceId?: string;
+  chargeRunId?: string;
+  // Approved, processed, disputed or adjusted: the amount is fixed and runs
+  // correct it with adjustments
+  billed: boolean;
+  // Effective amount with the adjustments charge runs posted, i.e. what the
+  // generators last billed; adjustments made by hand come on top
+  generatedAmount: number;
+  // Effective amount net of every adjustment
+  netAmount: number;
+  reversed: boolean;
+  updatedAt: string;
+};
+
+export type ChargeRunItem = {
+  action: ChargeRunAction;
+  key: string;
+  staffId: string;
+  type: ChargeType;
+  sourceId?: string;
+  proposed?: CreateCharge;
+  existing?: ExistingCharge;
+  // How a billed charge is changed or voided instead of editing it
+  adjustment?: {
+    type: ChargeAdjustmentType;
+    reasonCode: AdjustmentReasonCode;
+    amount: number;
+  };
+  // Change in the effective (prorated) amount this item makes to the period
+  delta: number;
+};
+
+export type ChargeRunPreview = {
+  billingPeriodId: string;
+  sources: ChargeRunSource[];
+  items: ChargeRunItem[];
+  summary: {
+    added: number;
+    changed: number;
+    voided: number;
+    unchanged: number;
+    totalDelta: number;
+  };
+  generatedAt: Date;
+};
+
+// Charge fields an import file's columns can be mapped to
+export type ChargeImportField =
+  | "employeeId"
+  | "type"
+  | "amount"
+  | "description"
+  | "chargeDate"
+  | "notes";
+
+// Column index in the file for each mapped field
+export type ChargeImportMapping = Partial<Record<ChargeImportField, number>>;
+
+export type ChargeImportRow = {
+  // Row in the file, counting the header as row 1
+  line: number;
+  employeeId: string;
+  staffName?: string;
+  billingPeriodId?: string;
+  charge?: CreateCharge;
+  status: ChargeImportRowStatus;
+  errors: string[];
+  // Not blocking, e.g. the same charge twice in one file
+  warnings: string[];
+};
+
+export type ChargeImportPreview = {
+  fileName: string;
+  rows: ChargeImportRow[];
+  summary: {
+    valid: number;
+    invalid: number;
+    lockedPeriod: number;
+    // Sum of the valid rows
+    totalAmount: number;
+  };
+};
+
+// How much one staff member used a cost source in the period
+export type CostUsage = {
+  staffId: string;
+  department?: string;
+  // Bed-nights for a property, distance (or 1 per ride) for a trip
+  units: number;
+};
+
+// One property or trip cost and what staff were charged back for it
+export type CostPool = {
+  sourceType: CostSourceType;
+  sourceId: string;
+  sourceName: string;
+  category: TransactionCategory;
+  cost: number;
+  recovered: number;
+  usage: CostUsage[];
+};
+
+export type CostAllocationShare = {
+  // Department name or cost centre the share is booked to
+  key: string;
+  department?: string;
+  departmentId?: string;
+  costCenter?: string;
+  headcount: number;
+  units: number;
+  amount: number;
+};
+
+export type CostAllocationLine = Omit<CostPool, "usage"> & {
+  // Cost less recoveries, never below zero
+  remainder: number;
+  // Charged to staff beyond the cost; reported, not allocated
+  overRecovered: number;
+  shares: CostAllocationShare[];
+};
+
+// One finance transaction: everything a department or cost centre bears for
+// one category in the period
+export type CostJournalEntry = {
+  key: string;
+  departmentId?: string;
+  costCenter?: string;
+  category: TransactionCategory;
+  amount: number;
+  description: string;
+  sources: number;
+};
+
+export type CostAllocationPreview = {
+  billingPeriodId: string;
+  basis: CostAllocationBasis;
+  target: CostAllocationTarget;
+  lines: CostAllocationLine[];
+  entries: CostJournalEntry[];
+  summary: {
+    totalCost: number;
+    totalRecovered: number;
+    totalAllocated: number;
+    overRecovered: number;
+    // Booked to "Unassigned" because nobody in a department used the source
+    unassigned: number;
+  };
+  generatedAt: Date;
+};
+
+// One charge on a staff statement and how its amount came about
+export type StatementCharge = {
+  chargeId: string;
+  type: ChargeType;
+  status: ChargeStatus;
+  description: string;
+  startDate?: Date;
+  endDate?: Date;
+  // Billed amount before adjustments
+  amount: number;
+  proration?: ProrationBreakdown;
+  adjustments: ChargeAdjustment[];
+  // Credit granted by a resolved dispute
+  disputeCredit: number;
+  netAmount: number;
+};
+
+// What one staff member was charged in one billing period, what payroll took
+// and where their account stands
+export type StaffBillingStatement = {
+  staff: {
+    id: string;
+    name: string;
+    employeeId?: string;
+    department?: string;
+  };
+  period: {
+    id: string;
+    startDate: Date;
+    endDate: Date;
+    payDate?: Date;
+  };
+  charges: StatementCharge[];
+  // Taken from pay in the period, per charge type
+  deductions: ChargeAmounts;
+  account: LedgerStatement;
+  totals: {
+    charged: number;
+    adjustments: number;
+    net: number;
+    deducted: number;
+  };
+  generatedAt: Date;
 };
 
 // Form validation helpers
@@ -226,6 +1771,8 @@ export const validateCreateBillingPeriod = (data: unknown) =>
   CreateBillingPeriodSchema.safeParse(data);
 export const validateUpdateBillingPeriod = (data: unknown) =>
   UpdateBillingPeriodSchema.safeParse(data);
+export const validateBillingCalendarSettings = (data: unknown) =>
+  BillingCalendarSettingsSchema.safeParse(data);
 
 export const validateCharge = (data: unknown) => ChargeSchema.safeParse(data);
 export const validateCreateCharge = (data: unknown) =>
@@ -239,3 +1786,50 @@ export const validateCreatePayrollExport = (data: unknown) =>
   CreatePayrollExportSchema.safeParse(data);
 export const validateUpdatePayrollExport = (data: unknown) =>
   UpdatePayrollExportSchema.safeParse(data);
+
+export const validateDeductionCap = (data: unknown) =>
+  DeductionCapSchema.safeParse(data);
+export const validateCreateDeductionCap = (data: unknown) =>
+  CreateDeductionCapSchema.safeParse(data);
+export const validateUpdateDeductionCap = (data: unknown) =>
+  UpdateDeductionCapSchema.safeParse(data);
+
+export const validateCreateMinimumWageRate = (data: unknown) =>
+  CreateMinimumWageRateSchema.safeParse(data);
+export const validateUpdateMinimumWageRate = (data: unknown) =>
+  UpdateMinimumWageRateSchema.safeParse(data);
+export const validateCreatePayrollHours = (data: unknown) =>
+  CreatePayrollHoursSchema.safeParse(data);
+
+export const validateCreateLedgerAdjustment = (data: unknown) =>
+  CreateLedgerAdjustmentSchema.safeParse(data);
+
+export const validateCreateBillingDispute = (data: unknown) =>
+  CreateBillingDisputeSchema.safeParse(data);
+export const validateResolveBillingDispute = (data: unknown) =>
+  ResolveBillingDisputeSchema.safeParse(data);
+
+export const validateCreateUtilityBill = (data: unknown) =>
+  CreateUtilityBillSchema.safeParse(data);
+export const validateUpdateUtilityBill = (data: unknown) =>
+  UpdateUtilityBillSchema.safeParse(data);
+
+export const validateCreateRecurringCharge = (data: unknown) =>
+  CreateRecurringChargeSchema.safeParse(data);
+export const validateUpdateRecurringCharge = (data: unknown) =>
+  UpdateRecurringChargeSchema.safeParse(data);
+
+export const validateCreateChargeApprovalRule = (data: unknown) =>
+  CreateChargeApprovalRuleSchema.safeParse(data);
+export const validateUpdateChargeApprovalRule = (data: unknown) =>
+  UpdateChargeApprovalRuleSchema.safeParse(data);
+
+export const validateCreateChargeAdjustment = (data: unknown) =>
+  CreateChargeAdjustmentSchema.safeParse(data);
+
+export const validatePayrollFormatMapping = (data: unknown) =>
+  PayrollFormatMappingSchema.safeParse(data);
+export const validateCreatePayrollFormatMapping = (data: unknown) =>
+  CreatePayrollFormatMappingSchema.safeParse(data);
+export const validateUpdatePayrollFormatMapping = (data: unknown) =>
+  UpdatePayrollFormatMappingSchema.safeParse(data);
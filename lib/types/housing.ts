@@ -14,6 +14,26 @@ export enum RoomStatus {
   OUT_OF_ORDER = 'out_of_order'
 }
 
+// Whether a bed can be slept in; who is in it comes from assignments
+export enum BedStatus {
+  IN_SERVICE = 'in_service',
+  OUT_OF_SERVICE = 'out_of_service'
+}
+
+export enum RateCardScope {
+  PROPERTY = 'property',
+  ROOM_TYPE = 'room_type',
+  ROOM = 'room'
+}
+
+// How rent for part of a month is worked out
+export enum ProrationMethod {
+  DAILY = 'daily', // actual days in the calendar month
+  THIRTY_DAY_MONTH = 'thirty_day_month',
+  THIRTY_360 = 'thirty_360',
+  WHOLE_WEEK = 'whole_week'
+}
+
 export enum AssignmentStatus {
   ACTIVE = 'active',
   PENDING = 'pending',
@@ -21,10 +41,61 @@ export enum AssignmentStatus {
   CANCELLED = 'cancelled'
 }
 
+// Why a room assignment cannot go ahead
+export enum AssignmentConflictKind {
+  STAFF_OVERLAP = 'staff_overlap', // the staff member already has a room for some of the nights
+  CAPACITY = 'capacity', // the room would be over capacity on some of the nights
+  ROOM_STATUS = 'room_status', // the room is under maintenance or out of order
+  BED_TAKEN = 'bed_taken', // someone else has the bed for some of the nights
+  BED_STATUS = 'bed_status' // the bed is out of service
+}
+
+// What the company pays to run a property, apart from its utility bills
+export enum PropertyCostCategory {
+  LEASE = 'lease',
+  MAINTENANCE = 'maintenance',
+  INSURANCE = 'insurance',
+  SERVICES = 'services'
+}
+
+// What a staff member is asking housing for. New housing and room changes
+// wait on the waitlist until a room is matched to them.
+export enum HousingRequestType {
+  NEW_HOUSING = 'new_housing',
+  ROOM_CHANGE = 'room_change',
+  MOVE_OUT = 'move_out',
+  MAINTENANCE = 'maintenance',
+  ROOMMATE_CHANGE = 'roommate_change',
+  OTHER = 'other'
+}
+
+export enum HousingRequestStatus {
+  PENDING = 'pending',
+  UNDER_REVIEW = 'under_review',
+  WAITLISTED = 'waitlisted', // nothing suitable is free yet
+  APPROVED = 'approved', // the assignment has been made or changed
+  REJECTED = 'rejected',
+  COMPLETED = 'completed',
+  CANCELLED = 'cancelled' // withdrawn by the staff member
+}
+
+export enum HousingRequestPriority {
+  LOW = 'low',
+  MEDIUM = 'medium',
+  HIGH = 'high'
+}
+
 // Zod schemas for validation
 export const PropertyStatusSchema = z.nativeEnum(PropertyStatus)
 export const RoomStatusSchema = z.nativeEnum(RoomStatus)
+export const BedStatusSchema = z.nativeEnum(BedStatus)
 export const AssignmentStatusSchema = z.nativeEnum(AssignmentStatus)
+export const RateCardScopeSchema = z.nativeEnum(RateCardScope)
+export const ProrationMethodSchema = z.nativeEnum(ProrationMethod)
+export const PropertyCostCategorySchema = z.nativeEnum(PropertyCostCategory)
+export const HousingRequestTypeSchema = z.nativeEnum(HousingRequestType)
+export const HousingRequestStatusSchema = z.nativeEnum(HousingRequestStatus)
+export const HousingRequestPrioritySchema = z.nativeEnum(HousingRequestPriority)
 
 // Property schemas
 export const PropertySchema = z.object({
@@ -52,6 +123,7 @@ export const RoomSchema = z.object({
   id: z.string().uuid(),
   propertyId: z.string().uuid(),
   roomNumber: z.string().min(1, 'Room number is required').max(50),
+  roomType: z.string().max(50).optional(),
   capacity: z.number().int().positive('Room capacity must be positive').max(10),
   currentOccupancy: z.number().int().min(0).optional(),
   monthlyRate: z.number().positive('Monthly rate must be positive').optional(),
@@ -69,16 +141,45 @@ export const CreateRoomSchema = RoomSchema.omit({
 
 export const UpdateRoomSchema = CreateRoomSchema.partial().omit({ propertyId: true })
 
+// Bed schemas
+// The beds of a room. A room's usable capacity is its beds in service.
+export const BedSchema = z.object({
+  id: z.string().uuid(),
+  roomId: z.string().uuid(),
+  label: z.string().min(1, 'Bed label is required').max(50),
+  status: BedStatusSchema,
+  outOfServiceReason: z.string().max(255).optional(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+})
+
+export const CreateBedSchema = BedSchema.omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+})
+
+export const UpdateBedSchema = CreateBedSchema.partial().omit({ roomId: true })
+
 // Room Assignment schemas
 const BaseRoomAssignmentSchema = z.object({
   id: z.string().uuid(),
   roomId: z.string().uuid(),
+  // The bed within the room, when beds are assigned individually
+  bedId: z.string().uuid().optional(),
   staffId: z.string().uuid(),
   startDate: z.date(),
   endDate: z.date().optional(),
   status: AssignmentStatusSchema,
   moveInDate: z.date().optional(),
   moveOutDate: z.date().optional(),
+  // When the staff member gave notice of moving out; short notice is charged
+  moveOutNoticeDate: z.date().optional(),
+  // The two sides of a room transfer, which ends one assignment and starts
+  // the next on the same day
+  transferredFromId: z.string().uuid().optional(),
+  transferredToId: z.string().uuid().optional(),
+  transferReason: z.string().max(255).optional(),
   createdAt: z.date(),
   updatedAt: z.date(),
 })
@@ -103,8 +204,12 @@ export const RoomAssignmentSchema = BaseRoomAssignmentSchema.refine(
   }
 )
 
+// Transfers are made with `transferAssignment`, not by setting the links
 export const CreateRoomAssignmentSchema = BaseRoomAssignmentSchema.omit({
   id: true,
+  transferredFromId: true,
+  transferredToId: true,
+  transferReason: true,
   createdAt: true,
   updatedAt: true,
 })
@@ -114,6 +219,174 @@ export const UpdateRoomAssignmentSchema = CreateRoomAssignmentSchema.partial().o
   staffId: true,
 })
 
+// Rate Card schemas
+// A rate card sets the monthly rent for a property, a room type within a
+// property, or a single room from `effectiveFrom` until `effectiveTo`
+// (inclusive, open-ended when omitted). The most specific card wins.
+// `fairMarketRent` is what the accommodation would let for on the open
+// market; the gap between it and the rent charged is reported as imputed
+// income.
+const BaseRateCardSchema = z.object({
+  id: z.string().uuid(),
+  scope: RateCardScopeSchema,
+  propertyId: z.string().uuid().optional(),
+  roomType: z.string().max(50).optional(),
+  roomId: z.string().uuid().optional(),
+  monthlyRate: z.number().positive('Monthly rate must be positive'),
+  fairMarketRent: z.number().positive('Fair market rent must be positive').optional(),
+  // Falls back to ERP_CONFIG.housing.defaultRentProrationMethod
+  prorationMethod: ProrationMethodSchema.optional(),
+  effectiveFrom: z.date(),
+  effectiveTo: z.date().optional(),
+  notes: z.string().max(500).optional(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+})
+
+const rateCardTargetCheck = (data: {
+  scope?: RateCardScope
+  propertyId?: string
+  roomType?: string
+  roomId?: string
+}) => {
+  switch (data.scope) {
+    case RateCardScope.PROPERTY:
+      return !!data.propertyId && !data.roomType && !data.roomId
+    case RateCardScope.ROOM_TYPE:
+      return !!data.propertyId && !!data.roomType && !data.roomId
+    case RateCardScope.ROOM:
+      return !!data.roomId
+    default:
+      return true
+  }
+}
+
+export const RateCardSchema = BaseRateCardSchema.refine(rateCardTargetCheck, {
+  message: 'Rate card target does not match its scope',
+  path: ['scope'],
+}).refine(
+  (data) => !data.effectiveTo || data.effectiveFrom <= data.effectiveTo,
+  {
+    message: 'Effective end date must be on or after the start date',
+    path: ['effectiveTo'],
+  }
+)
+
+export const CreateRateCardSchema = BaseRateCardSchema.omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).refine(rateCardTargetCheck, {
+  message: 'Rate card target does not match its scope',
+  path: ['scope'],
+})
+
+export const UpdateRateCardSchema = BaseRateCardSchema.pick({
+  monthlyRate: true,
+  fairMarketRent: true,
+  prorationMethod: true,
+  effectiveTo: true,
+  notes: true,
+}).partial()
+
+// Property Cost schemas
+// A monthly running cost of a property from `effectiveFrom` until
+// `effectiveTo` (inclusive, open-ended when omitted). Cost allocation spreads
+// what staff charges do not recover across departments.
+const BasePropertyCostSchema = z.object({
+  id: z.string().uuid(),
+  propertyId: z.string().uuid(),
+  category: PropertyCostCategorySchema,
+  description: z.string().max(255).optional(),
+  monthlyAmount: z.number().positive('Monthly amount must be positive'),
+  effectiveFrom: z.date(),
+  effectiveTo: z.date().optional(),
+  notes: z.string().max(500).optional(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+})
+
+export const PropertyCostSchema = BasePropertyCostSchema.refine(
+  (data) => !data.effectiveTo || data.effectiveFrom <= data.effectiveTo,
+  {
+    message: 'Effective end date must be on or after the start date',
+    path: ['effectiveTo'],
+  }
+)
+
+export const CreatePropertyCostSchema = BasePropertyCostSchema.omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).refine(
+  (data) => !data.effectiveTo || data.effectiveFrom <= data.effectiveTo,
+  {
+    message: 'Effective end date must be on or after the start date',
+    path: ['effectiveTo'],
+  }
+)
+
+export const UpdatePropertyCostSchema = BasePropertyCostSchema.pick({
+  description: true,
+  monthlyAmount: true,
+  effectiveTo: true,
+  notes: true,
+}).partial()
+
+// Housing Request schemas
+// A staff member's request for housing, a room change or a move-out.
+// `requestedStartDate` is when they want to move in, move rooms or move out.
+// Preferences only rank the rooms the matcher proposes; they never rule a
+// room out.
+const BaseHousingRequestSchema = z.object({
+  id: z.string().uuid(),
+  staffId: z.string().uuid(),
+  type: HousingRequestTypeSchema,
+  status: HousingRequestStatusSchema,
+  priority: HousingRequestPrioritySchema,
+  title: z.string().min(1, 'Title is required').max(100),
+  description: z.string().max(1000).optional(),
+  requestedStartDate: z.date().optional(),
+  requestedEndDate: z.date().optional(),
+  preferredPropertyId: z.string().uuid().optional(),
+  preferredRoomType: z.string().max(50).optional(),
+  preferredAmenities: z.array(z.string()).default([]),
+  // The assignment a room change or move-out is about
+  currentAssignmentId: z.string().uuid().optional(),
+  // The assignment approving the request made or changed
+  assignmentId: z.string().uuid().optional(),
+  response: z.string().max(1000).optional(),
+  reviewedBy: z.string().uuid().optional(),
+  reviewedAt: z.date().optional(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+})
+
+const requestDatesCheck = (data: { requestedStartDate?: Date; requestedEndDate?: Date }) =>
+  !data.requestedStartDate || !data.requestedEndDate || data.requestedStartDate <= data.requestedEndDate
+
+export const HousingRequestSchema = BaseHousingRequestSchema.refine(requestDatesCheck, {
+  message: 'End date must be after start date',
+  path: ['requestedEndDate'],
+})
+
+// Requests start pending at the default priority; reviewers set the
+// priority and the outcome
+export const CreateHousingRequestSchema = BaseHousingRequestSchema.omit({
+  id: true,
+  status: true,
+  priority: true,
+  assignmentId: true,
+  response: true,
+  reviewedBy: true,
+  reviewedAt: true,
+  createdAt: true,
+  updatedAt: true,
+}).refine(requestDatesCheck, {
+  message: 'End date must be after start date',
+  path: ['requestedEndDate'],
+})
+
 // TypeScript interfaces (inferred from Zod schemas)
 export type Property = z.infer<typeof PropertySchema>
 export type CreateProperty = z.infer<typeof CreatePropertySchema>
@@ -123,10 +396,25 @@ export type Room = z.infer<typeof RoomSchema>
 export type CreateRoom = z.infer<typeof CreateRoomSchema>
 export type UpdateRoom = z.infer<typeof UpdateRoomSchema>
 
+export type Bed = z.infer<typeof BedSchema>
+export type CreateBed = z.infer<typeof CreateBedSchema>
+export type UpdateBed = z.infer<typeof UpdateBedSchema>
+
 export type RoomAssignment = z.infer<typeof RoomAssignmentSchema>
 export type CreateRoomAssignment = z.infer<typeof CreateRoomAssignmentSchema>
 export type UpdateRoomAssignment = z.infer<typeof UpdateRoomAssignmentSchema>
 
+export type RateCard = z.infer<typeof RateCardSchema>
+export type CreateRateCard = z.infer<typeof CreateRateCardSchema>
+export type UpdateRateCard = z.infer<typeof UpdateRateCardSchema>
+
+export type PropertyCost = z.infer<typeof PropertyCostSchema>
+export type CreatePropertyCost = z.infer<typeof CreatePropertyCostSchema>
+export type UpdatePropertyCost = z.infer<typeof UpdatePropertyCostSchema>
+
+export type HousingRequest = z.infer<typeof HousingRequestSchema>
+export type CreateHousingRequest = z.infer<typeof CreateHousingRequestSchema>
+
 // Extended interfaces with relations
 export interface PropertyWithRooms extends Property {
   rooms: Room[]
@@ -156,6 +444,18 @@ export interface RoomAssignmentWithDetails extends RoomAssignment {
   }
 }
 
+// A request with what the waitlist and matcher need to know about its
+// staff member
+export type HousingRequestWithStaff = HousingRequest & {
+  staff?: {
+    firstName: string
+    lastName: string
+    employeeId?: string
+    department?: string
+    housingEligible: boolean
+  }
+}
+
 // Utility types for housing operations
 export type HousingFilters = {
   propertyId?: string
@@ -167,6 +467,8 @@ export type HousingFilters = {
   search?: string
 }
 
+// Capacity and occupancy are counted in beds; a bed out of service, or in a
+// room under maintenance or out of order, is not capacity
 export type OccupancyMetrics = {
   totalProperties: number
   totalRooms: number
@@ -175,6 +477,69 @@ export type OccupancyMetrics = {
   occupancyRate: number
   availableRooms: number
   maintenanceRooms: number
+  totalBeds: number
+  occupiedBeds: number
+  availableBeds: number
+  outOfServiceBeds: number
+}
+
+// A bed and who is in it on the day looked at
+export type BedOccupancy = {
+  bed: Bed
+  occupant?: {
+    assignmentId: string
+    staffId: string
+    staffName?: string
+    startDate: Date
+    endDate?: Date
+  }
+}
+
+export type RateCardFilters = {
+  propertyId?: string
+  roomId?: string
+  scope?: RateCardScope
+  activeOn?: Date
+}
+
+export type RateSegment = {
+  rateCardId?: string
+  scope: RateCardScope | 'room_default'
+  monthlyRate: number
+  prorationMethod: ProrationMethod
+  startDate: Date
+  endDate: Date // inclusive
+  days: number
+  // Share of the monthly rate charged, rounded to the configured precision
+  factor: number
+  amount: number
+}
+
+// One line of a rent calculation as shown on the charge
+export type ProrationLine = {
+  kind: 'rent' | 'grace' | 'short_notice' | 'week_rounding'
+  startDate?: Date
+  endDate?: Date // inclusive
+  days: number
+  monthlyRate?: number
+  prorationMethod?: ProrationMethod
+  factor: number
+  amount: number
+}
+
+// How a rent charge was worked out, stored on the charge's metadata
+export type ProrationBreakdown = {
+  prorationMethod: ProrationMethod
+  precision: number
+  periodStart: Date
+  periodEnd: Date // inclusive
+  // Nights of the stay that fall in the billing period
+  nights: number
+  graceDays: number
+  shortNoticeDays: number
+  roundedUpDays: number
+  lines: ProrationLine[]
+  amount: number
 }
 
 export type RoomAvailability = {
@@ -186,6 +551,59 @@ export type RoomAvailability = {
   maxCapacity: number
 }
 
+// A reason a requested assignment clashes with the rooms and stays already
+// booked. Dates are UTC days; `endDate` is the first day no longer affected
+// and is omitted when the clash runs on with an open-ended stay.
+export type AssignmentConflict = {
+  kind: AssignmentConflictKind
+  message: string
+  roomId: string
+  startDate?: Date
+  endDate?: Date
+  // The staff member's other assignment, for staff overlaps
+  assignmentId?: string
+  // Most people the room would hold, counting the new stay, and its limit
+  occupancy?: number
+  capacity?: number
+}
+
+// A room the same stay would fit in
+export type AlternativeRoom = {
+  roomId: string
+  roomNumber: string
+  propertyId: string
+  propertyName?: string
+  roomType?: string
+  capacity: number
+  // Beds still free on the busiest night of the stay
+  freeBeds: number
+}
+
+// A room, and the bed in it when its beds are recorded, proposed for a
+// housing request
+export type HousingMatch = {
+  roomId: string
+  roomNumber: string
+  propertyId: string
+  propertyName?: string
+  roomType?: string
+  bedId?: string
+  bedLabel?: string
+  // Places still free on the busiest night from the requested start date
+  freeBeds: number
+  score: number
+  // What about the room fits the request, for the reviewer
+  reasons: string[]
+}
+
+export type AssignmentCheck = {
+  conflicts: AssignmentConflict[]
+  alternatives: AlternativeRoom[]
+  // Other beds in the same room free for the same nights, when the bed
+  // asked for is the problem
+  freeBeds: Pick<Bed, 'id' | 'label'>[]
+}
+
 // Form validation helpers
 export const validateProperty = (data: unknown) => PropertySchema.safeParse(data)
 export const validateCreateProperty = (data: unknown) => CreatePropertySchema.safeParse(data)
@@ -195,6 +613,21 @@ export const validateRoom = (data: unknown) => RoomSchema.safeParse(data)
 export const validateCreateRoom = (data: unknown) => CreateRoomSchema.safeParse(data)
 export const validateUpdateRoom = (data: unknown) => UpdateRoomSchema.safeParse(data)
 
+export const validateBed = (data: unknown) => BedSchema.safeParse(data)
+export const validateCreateBed = (data: unknown) => CreateBedSchema.safeParse(data)
+export const validateUpdateBed = (data: unknown) => UpdateBedSchema.safeParse(data)
+
 export const validateRoomAssignment = (data: unknown) => RoomAssignmentSchema.safeParse(data)
 export const validateCreateRoomAssignment = (data: unknown) => CreateRoomAssignmentSchema.safeParse(data)
-export const validateUpdateRoomAssignment = (data: unknown) => UpdateRoomAssignmentSchema.safeParse(data)
\ No newline at end of file
+export const validateUpdateRoomAssignment = (data: unknown) => UpdateRoomAssignmentSchema.safeParse(data)
+
+export const validateRateCard = (data: unknown) => RateCardSchema.safeParse(data)
+export const validateCreateRateCard = (data: unknown) => CreateRateCardSchema.safeParse(data)
+export const validateUpdateRateCard = (data: unknown) => UpdateRateCardSchema.safeParse(data)
+
+export const validatePropertyCost = (data: unknown) => PropertyCostSchema.safeParse(data)
+export const validateCreatePropertyCost = (data: unknown) => CreatePropertyCostSchema.safeParse(data)
+export const validateUpdatePropertyCost = (data: unknown) => UpdatePropertyCostSchema.safeParse(data)
+
+export const validateHousingRequest = (data: unknown) => HousingRequestSchema.safeParse(data)
+export const validateCreateHousingRequest = (data: unknown) => CreateHousingRequestSchema.safeParse(data)
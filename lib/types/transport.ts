@@ -15,9 +15,40 @@ export enum TripStatus {
   CANCELLED = 'cancelled'
 }
 
+export enum PassengerStatus {
+  CONFIRMED = 'confirmed',
+  CANCELLED = 'cancelled',
+  NO_SHOW = 'no_show',
+  COMPLETED = 'completed'
+}
+
+// How a trip's cost is shared between its passengers
+export enum TransportSplitStrategy {
+  EQUAL = 'equal',
+  DISTANCE = 'distance',
+  FLAT_FARE = 'flat_fare',
+  EMPLOYER_PAID = 'employer_paid'
+}
+
+// What a cancelled or no-show passenger is charged
+export enum AbsentPassengerTreatment {
+  CHARGE_SHARE = 'charge_share',
+  CHARGE_FEE = 'charge_fee',
+  WAIVE = 'waive'
+}
+
+export enum TransportSubsidyScope {
+  ROUTE = 'route',
+  DEPARTMENT = 'department'
+}
+
 // Zod schemas for validation
 export const VehicleStatusSchema = z.nativeEnum(VehicleStatus)
 export const TripStatusSchema = z.nativeEnum(TripStatus)
+export const PassengerStatusSchema = z.nativeEnum(PassengerStatus)
+export const TransportSplitStrategySchema = z.nativeEnum(TransportSplitStrategy)
+export const AbsentPassengerTreatmentSchema = z.nativeEnum(AbsentPassengerTreatment)
+export const TransportSubsidyScopeSchema = z.nativeEnum(TransportSubsidyScope)
 
 // Vehicle Type enum
 export enum VehicleType {
@@ -120,6 +151,9 @@ export const TripPassengerSchema = z.object({
   staffId: z.string().uuid(),
   pickupLocation: z.string().max(255).optional(),
   dropoffLocation: z.string().max(255).optional(),
+  // Miles ridden between pickup and dropoff; the whole trip when not recorded
+  distance: z.number().positive().optional(),
+  status: PassengerStatusSchema.optional(),
   createdAt: z.date(),
 })
 
@@ -133,6 +167,119 @@ export const UpdateTripPassengerSchema = CreateTripPassengerSchema.partial().omi
   staffId: true,
 })
 
+// Transport fare rule schemas. A rule without a route is the default for
+// every route that has no rule of its own.
+const BaseTransportFareRuleSchema = z.object({
+  id: z.string().uuid(),
+  route: z.string().min(1).max(255).optional(),
+  splitStrategy: TransportSplitStrategySchema,
+  flatFare: z.number().positive('Flat fare must be positive').optional(),
+  employerPaidPurposes: z.array(z.string().min(1).max(255)),
+  noShowTreatment: AbsentPassengerTreatmentSchema,
+  noShowFee: z.number().positive('No-show fee must be positive').optional(),
+  cancelledTreatment: AbsentPassengerTreatmentSchema,
+  cancelledFee: z.number().positive('Cancellation fee must be positive').optional(),
+  isActive: z.boolean(),
+  notes: z.string().max(500).optional(),
+  createdBy: z.string().uuid().optional(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+})
+
+const fareRuleFeeCheck = (data: {
+  splitStrategy: TransportSplitStrategy
+  flatFare?: number
+  noShowTreatment: AbsentPassengerTreatment
+  noShowFee?: number
+  cancelledTreatment: AbsentPassengerTreatment
+  cancelledFee?: number
+}) =>
+  (data.splitStrategy !== TransportSplitStrategy.FLAT_FARE || data.flatFare !== undefined) &&
+  (data.noShowTreatment !== AbsentPassengerTreatment.CHARGE_FEE || data.noShowFee !== undefined) &&
+  (data.cancelledTreatment !== AbsentPassengerTreatment.CHARGE_FEE || data.cancelledFee !== undefined)
+
+export const TransportFareRuleSchema = BaseTransportFareRuleSchema.refine(fareRuleFeeCheck, {
+  message: 'Flat fares and absence fees need an amount',
+  path: ['flatFare'],
+})
+
+export const CreateTransportFareRuleSchema = BaseTransportFareRuleSchema.omit({
+  id: true,
+  createdBy: true,
+  createdAt: true,
+  updatedAt: true,
+}).refine(fareRuleFeeCheck, {
+  message: 'Flat fares and absence fees need an amount',
+  path: ['flatFare'],
+})
+
+export const UpdateTransportFareRuleSchema = BaseTransportFareRuleSchema.omit({
+  id: true,
+  createdBy: true,
+  createdAt: true,
+  updatedAt: true,
+}).partial()
+
+// Transport subsidy schemas. The employer pays `subsidyPercent` of a
+// passenger's share of a trip, at most `subsidyCap`; a cap on its own pays the
+// share up to the cap.
+const BaseTransportSubsidySchema = z.object({
+  id: z.string().uuid(),
+  scope: TransportSubsidyScopeSchema,
+  route: z.string().min(1).max(255).optional(),
+  department: z.string().min(1).max(100).optional(),
+  subsidyPercent: z.number().min(0).max(100, 'Subsidy cannot be over 100%').optional(),
+  subsidyCap: z.number().positive('Subsidy cap must be positive').optional(),
+  isActive: z.boolean(),
+  notes: z.string().max(500).optional(),
+  createdBy: z.string().uuid().optional(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+})
+
+const subsidyTargetCheck = (data: {
+  scope: TransportSubsidyScope
+  route?: string
+  department?: string
+}) =>
+  data.scope === TransportSubsidyScope.ROUTE
+    ? !!data.route && !data.department
+    : !!data.department && !data.route
+
+const subsidyAmountCheck = (data: { subsidyPercent?: number; subsidyCap?: number }) =>
+  data.subsidyPercent !== undefined || data.subsidyCap !== undefined
+
+export const TransportSubsidySchema = BaseTransportSubsidySchema.refine(subsidyTargetCheck, {
+  message: 'Subsidy target does not match its scope',
+  path: ['scope'],
+}).refine(subsidyAmountCheck, {
+  message: 'A subsidy needs a percentage, a cap or both',
+  path: ['subsidyPercent'],
+})
+
+export const CreateTransportSubsidySchema = BaseTransportSubsidySchema.omit({
+  id: true,
+  createdBy: true,
+  createdAt: true,
+  updatedAt: true,
+}).refine(subsidyTargetCheck, {
+  message: 'Subsidy target does not match its scope',
+  path: ['scope'],
+}).refine(subsidyAmountCheck, {
+  message: 'A subsidy needs a percentage, a cap or both',
+  path: ['subsidyPercent'],
+})
+
+export const UpdateTransportSubsidySchema = BaseTransportSubsidySchema.omit({
+  id: true,
+  scope: true,
+  route: true,
+  department: true,
+  createdBy: true,
+  createdAt: true,
+  updatedAt: true,
+}).partial()
+
 // TypeScript interfaces (inferred from Zod schemas)
 export type Vehicle = z.infer<typeof VehicleSchema>
 export type CreateVehicle = z.infer<typeof CreateVehicleSchema>
@@ -146,6 +293,14 @@ export type TripPassenger = z.infer<typeof TripPassengerSchema>
 export type CreateTripPassenger = z.infer<typeof CreateTripPassengerSchema>
 export type UpdateTripPassenger = z.infer<typeof UpdateTripPassengerSchema>
 
+export type TransportFareRule = z.infer<typeof TransportFareRuleSchema>
+export type CreateTransportFareRule = z.infer<typeof CreateTransportFareRuleSchema>
+export type UpdateTransportFareRule = z.infer<typeof UpdateTransportFareRuleSchema>
+
+export type TransportSubsidy = z.infer<typeof TransportSubsidySchema>
+export type CreateTransportSubsidy = z.infer<typeof CreateTransportSubsidySchema>
+export type UpdateTransportSubsidy = z.infer<typeof UpdateTransportSubsidySchema>
+
 // Extended interfaces with relations
 export interface VehicleWithTrips extends Vehicle {
   trips: Trip[]
@@ -236,6 +391,41 @@ export type RouteAnalytics = {
   popularTimes: string[]
 }
 
+// A passenger of a trip whose cost is being split
+export type FarePassenger = {
+  staffId: string
+  status: PassengerStatus
+  distance?: number
+  department?: string
+}
+
+export type PassengerFare = {
+  staffId: string
+  status: PassengerStatus
+  // Set for cancelled and no-show passengers
+  treatment?: AbsentPassengerTreatment
+  // Miles counted for a distance split, otherwise 1 per sharing passenger
+  weight: number
+  // The passenger's share of the trip, or their fee, before any subsidy
+  fare: number
+  subsidy: number
+  subsidySource?: string
+  amount: number
+}
+
+export type TripFareSplit = {
+  tripId?: string
+  strategy: TransportSplitStrategy
+  // Set when the trip is employer-paid because of its purpose
+  employerPaidPurpose?: string
+  tripCost: number
+  fares: PassengerFare[]
+  charged: number
+  subsidized: number
+  // What the employer is left paying of the trip cost
+  employerCost: number
+}
+
 // Form validation helpers
 export const validateVehicle = (data: unknown) => VehicleSchema.safeParse(data)
 export const validateCreateVehicle = (data: unknown) => CreateVehicleSchema.safeParse(data)
@@ -247,4 +437,10 @@ export const validateUpdateTrip = (data: unknown) => UpdateTripSchema.safeParse(
 
 export const validateTripPassenger = (data: unknown) => TripPassengerSchema.safeParse(data)
 export const validateCreateTripPassenger = (data: unknown) => CreateTripPassengerSchema.safeParse(data)
-export const validateUpdateTripPassenger = (data: unknown) => UpdateTripPassengerSchema.safeParse(data)
\ No newline at end of file
+export const validateUpdateTripPassenger = (data: unknown) => UpdateTripPassengerSchema.safeParse(data)
+
+export const validateCreateTransportFareRule = (data: unknown) => CreateTransportFareRuleSchema.safeParse(data)
+export const validateUpdateTransportFareRule = (data: unknown) => UpdateTransportFareRuleSchema.safeParse(data)
+
+export const validateCreateTransportSubsidy = (data: unknown) => CreateTransportSubsidySchema.safeParse(data)
+export const validateUpdateTransportSubsidy = (data: unknown) => UpdateTransportSubsidySchema.safeParse(data)
\ No newline at end of file
@@ -42,6 +42,10 @@ export const StaffSchema = z.object({
   phone: z.string().max(50).optional(),
   employmentStatus: EmploymentStatusSchema,
   housingEligible: z.boolean().default(false),
+  // Per paycheck; percentage deduction caps are taken from it
+  expectedGrossPay: z.number().min(0).optional(),
+  // Two-letter state whose minimum wage applies alongside the federal rate
+  workState: z.string().length(2).optional(),
   role: UserRoleSchema,
   departmentId: z.string().uuid().optional(),
   createdAt: z.date(),
@@ -165,6 +169,7 @@ export const PERMISSIONS = {
   BILLING_UPDATE: 'billing:update',
   BILLING_DELETE: 'billing:delete',
   BILLING_EXPORT: 'billing:export',
+  BILLING_APPROVE: 'billing:approve',
   
   // User management permissions
   USER_VIEW: 'user:view',
@@ -207,6 +212,7 @@ export const ROLE_PERMISSIONS: Record<UserRole, string[]> = {
     PERMISSIONS.BILLING_UPDATE,
     PERMISSIONS.BILLING_DELETE,
     PERMISSIONS.BILLING_EXPORT,
+    PERMISSIONS.BILLING_APPROVE,
     PERMISSIONS.HOUSING_VIEW,
     PERMISSIONS.TRANSPORT_VIEW,
   ],
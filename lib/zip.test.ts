@@ -0,0 +1,98 @@
+import { deflateRawSync } from "node:zlib";
+import { describe, expect, it } from "vitest";
+import { concatBytes, crc32, createZip, readZip } from "@/lib/zip";
+
+const encode = (value: string) => new TextEncoder().encode(value);
+const decode = (bytes: Uint8Array) => new TextDecoder().decode(bytes);
+
+// One deflated entry, as spreadsheet programs write them
+function deflatedZip(name: string, content: string): Uint8Array {
+  const nameBytes = encode(name);
+  const raw = encode(content);
+  const data = new Uint8Array(deflateRawSync(raw));
+
+  const local = new DataView(new ArrayBuffer(30));
+  local.setUint32(0, 0x04034b50, true);
+  local.setUint16(8, 8, true);
+  local.setUint32(14, crc32(raw), true);
+  local.setUint32(18, data.length, true);
+  local.setUint32(22, raw.length, true);
+  local.setUint16(26, nameBytes.length, true);
+
+  const central = new DataView(new ArrayBuffer(46));
+  central.setUint32(0, 0x02014b50, true);
+  central.setUint16(10, 8, true);
+  central.setUint32(16, crc32(raw), true);
+  central.setUint32(20, data.length, true);
+  central.setUint32(24, raw.length, true);
+  central.setUint16(28, nameBytes.length, true);
+
+  const centralOffset = 30 + nameBytes.length + data.length;
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, 1, true);
+  end.setUint16(10, 1, true);
+  end.setUint32(12, 46 + nameBytes.length, true);
+  end.setUint32(16, centralOffset, true);
+
+  return concatBytes([
+    new Uint8Array(local.buffer),
+    nameBytes,
+    data,
+    new Uint8Array(central.buffer),
+    nameBytes,
+    new Uint8Array(end.buffer),
+  ]);
+}
+
+describe("crc32", () => {
+  it("matches the standard check value", () => {
+    expect(crc32(encode("123456789"))).toBe(0xcbf43926);
+    expect(crc32(new Uint8Array())).toBe(0);
+  });
+});
+
+describe("createZip", () => {
+  it("writes entries that read back unchanged", async () => {
+    const binary = new Uint8Array([0, 1, 2, 255]);
+    const zip = createZip(
+      [
+        { name: "statements/Ann Lee – Jan.pdf", data: binary },
+        { name: "readme.txt", data: "Billing statements" },
+      ],
+      new Date(2026, 1, 2, 9, 30)
+    );
+    const files = await readZip(zip);
+
+    expect(Array.from(files.keys())).toEqual([
+      "statements/Ann Lee – Jan.pdf",
+      "readme.txt",
+    ]);
+    expect(Array.from(files.get("statements/Ann Lee – Jan.pdf")!)).toEqual([
+      0, 1, 2, 255,
+    ]);
+    expect(decode(files.get("readme.txt")!)).toBe("Billing statements");
+  });
+
+  it("writes an empty archive", async () => {
+    const zip = createZip([]);
+
+    expect(zip.length).toBe(22);
+    expect((await readZip(zip)).size).toBe(0);
+  });
+});
+
+describe("readZip", () => {
+  it("inflates deflated entries", async () => {
+    const content = "Employee ID,Amount\n".repeat(50);
+    const files = await readZip(deflatedZip("sheet.csv", content));
+
+    expect(decode(files.get("sheet.csv")!)).toBe(content);
+  });
+
+  it("rejects files that are not archives", async () => {
+    await expect(
+      readZip(encode("not a zip file at all, just text"))
+    ).rejects.toThrow("Not a ZIP archive");
+  });
+});
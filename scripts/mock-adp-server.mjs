@@ -0,0 +1,175 @@
+// Local stand-in for the ADP Workforce Now endpoints ADPService uses, so
+// payroll deductions can be pushed and retried without ADP access.
+//
+//   npm run mock:adp
+//   ADP_API_BASE_URL=http://localhost:4010 ADP_CLIENT_ID=mock ADP_CLIENT_SECRET=mock
+//
+// Every employee ID is treated as an existing worker except those listed in
+// MOCK_ADP_UNKNOWN_IDS. Workers in MOCK_ADP_FAIL_IDS are rejected on their
+// first submission and accepted afterwards, which exercises the retry path.
+// GET /__mock/deductions lists what was received; DELETE resets it.
+//
+// Time cards report 80 hours per period unless MOCK_ADP_HOURS overrides them
+// per employee ("E1=20,E2=35"); gross pay is hours times MOCK_ADP_HOURLY_RATE
+// (default 20), so low hours exercise the minimum wage check.
+
+import { createServer } from "node:http";
+import { randomUUID } from "node:crypto";
+
+const PORT = Number(process.env.MOCK_ADP_PORT || 4010);
+const listFromEnv = (name) =>
+  (process.env[name] || "")
+    .split(",")
+    .map((id) => id.trim())
+    .filter(Boolean);
+
+const unknownIds = new Set(listFromEnv("MOCK_ADP_UNKNOWN_IDS"));
+const failOnceIds = new Set(listFromEnv("MOCK_ADP_FAIL_IDS"));
+const failedAlready = new Set();
+const hoursById = new Map(
+  listFromEnv("MOCK_ADP_HOURS").map((pair) => {
+    const [id, hours] = pair.split("=");
+    return [id.trim(), Number(hours)];
+  })
+);
+const hourlyRate = Number(process.env.MOCK_ADP_HOURLY_RATE || 20);
+const hoursFor = (employeeId) => hoursById.get(employeeId) ?? 80;
+let received = [];
+
+const associateOID = (employeeId) => `MOCK-${employeeId}`;
+
+function send(res, status, body) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+function reject(res, status, message) {
+  send(res, status, {
+    confirmMessage: {
+      requestStatus: { codeValue: "failed" },
+      processMessages: [{ userMessage: { messageTxt: message } }],
+    },
+  });
+}
+
+async function readBody(req) {
+  const chunks = [];
+  for await (const chunk of req) chunks.push(chunk);
+  const text = Buffer.concat(chunks).toString("utf8");
+  try {
+    return text ? JSON.parse(text) : {};
+  } catch {
+    return text;
+  }
+}
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+  const body = await readBody(req);
+
+  if (req.method === "POST" && url.pathname === "/auth/oauth/v2/token") {
+    if (!req.headers.authorization?.startsWith("Basic ")) {
+      return send(res, 401, { error: "invalid_client" });
+    }
+    return send(res, 200, {
+      access_token: randomUUID(),
+      token_type: "Bearer",
+      expires_in: 3600,
+      scope: "api",
+    });
+  }
+
+  if (!req.headers.authorization?.startsWith("Bearer ")) {
+    return send(res, 401, { error: "invalid_token" });
+  }
+
+  if (req.method === "GET" && url.pathname === "/hr/v2/workers") {
+    // Only the "workers/workerID/idValue eq 'X'" filter is supported
+    const match = /idValue eq '((?:[^']|'')*)'/.exec(url.searchParams.get("$filter") || "");
+    const employeeId = match?.[1].replace(/''/g, "'");
+    if (!employeeId || unknownIds.has(employeeId)) {
+      return send(res, 200, { workers: [] });
+    }
+    return send(res, 200, {
+      workers: [
+        {
+          associateOID: associateOID(employeeId),
+          workerID: { idValue: employeeId },
+        },
+      ],
+    });
+  }
+
+  if (req.method === "POST" && url.pathname === "/events/payroll/v1/pay-data-input.modify") {
+    const event = body?.events?.[0]?.data;
+    const oid = event?.eventContext?.worker?.associateOID;
+    const employeeId = oid?.replace(/^MOCK-/, "");
+    const payInputs = event?.transform?.payDataInput?.payeePayInputs?.[0]?.payInputs ?? [];
+    const deductions = payInputs.flatMap((input) => input.deductionInputs ?? []);
+
+    if (!oid) return reject(res, 400, "eventContext.worker.associateOID is required");
+    if (deductions.length === 0) return reject(res, 400, "At least one deduction input is required");
+
+    if (failOnceIds.has(employeeId) && !failedAlready.has(employeeId)) {
+      failedAlready.add(employeeId);
+      return reject(res, 422, `Deduction code not set up for worker ${employeeId}`);
+    }
+
+    const eventID = randomUUID();
+    received.push({ eventID, associateOID: oid, deductions, receivedAt: new Date().toISOString() });
+    return send(res, 200, {
+      events: [{ eventID, eventStatusCode: { codeValue: "complete" } }],
+    });
+  }
+
+  const timeCards = /^\/time\/v2\/workers\/MOCK-([^/]+)\/time-cards$/.exec(url.pathname);
+  if (req.method === "GET" && timeCards) {
+    const employeeId = decodeURIComponent(timeCards[1]);
+    return send(res, 200, {
+      timeCards: [
+        {
+          timePeriod: {
+            startDate: url.searchParams.get("startDate"),
+            endDate: url.searchParams.get("endDate"),
+          },
+          periodTotals: [
+            { payCode: { codeValue: "REG" }, timeDuration: `PT${hoursFor(employeeId)}H` },
+          ],
+        },
+      ],
+    });
+  }
+
+  // A single statement whose pay period covers any dates asked about
+  const payStatements = /^\/payroll\/v1\/workers\/MOCK-([^/]+)\/pay-statements$/.exec(url.pathname);
+  if (req.method === "GET" && payStatements) {
+    const employeeId = decodeURIComponent(payStatements[1]);
+    const today = new Date().toISOString().slice(0, 10);
+    return send(res, 200, {
+      payStatements: [
+        {
+          payDate: today,
+          payPeriod: { startDate: "1900-01-01", endDate: "2999-12-31" },
+          grossPayAmount: {
+            amountValue: hoursFor(employeeId) * hourlyRate,
+            currencyCode: "USD",
+          },
+        },
+      ],
+    });
+  }
+
+  if (url.pathname === "/__mock/deductions") {
+    if (req.method === "DELETE") {
+      received = [];
+      failedAlready.clear();
+    }
+    return send(res, 200, { deductions: received });
+  }
+
+  send(res, 404, { error: `No mock for ${req.method} ${url.pathname}` });
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock ADP server listening on http://localhost:${PORT}`);
+});